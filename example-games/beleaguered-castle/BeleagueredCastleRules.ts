@@ -10,16 +10,36 @@
  * - 48 remaining cards are dealt into 8 columns of 6, all face-up.
  * - Foundations build up by suit: A, 2, 3, ..., K.
  * - Tableau columns build down regardless of suit.
- * - Only the top card of each column is available to move.
+ * - Only the top card of each column is available to move. As a
+ *   convenience, a descending run may be moved as a unit when enough
+ *   empty columns exist to perform it one card at a time (supermove).
  * - Empty columns accept any card.
  * - Win: all 52 cards on foundations (13 each).
  * - Loss: no legal moves remain.
  */
 
 import type { Card, Rank, Suit } from '../../src/card-system/Card';
-import { RANKS } from '../../src/card-system/Card';
 import { createStandardDeck, shuffle } from '../../src/card-system/Deck';
 import { Pile } from '../../src/card-system/Pile';
+import { ACE_LOW, rankIndex, rankAfter } from '../../src/card-system/RankOrder';
+import { formatCard, formatLayout, parseLayout } from '../../src/card-system/Notation';
+import { createRng } from '../../src/core-engine/Rng';
+import type { ValidationResult, RuleSet } from '../../src/rule-engine/RuleSet';
+import { invalid } from '../../src/rule-engine/RuleSet';
+import { resolveVariant } from '../../src/rule-engine/Variants';
+import type { CardConservation } from '../../src/rule-engine/CardConservation';
+import {
+  assertCardUniverse,
+  conserveCards,
+} from '../../src/rule-engine/CardConservation';
+import type { PileBuildRule } from '../../src/rule-engine/PileRules';
+import {
+  validateBuild,
+  movableRunLength,
+  sequenceMoveCapacity,
+  FOUNDATION_UP_BY_SUIT,
+  BELEAGUERED_CASTLE_TABLEAU,
+} from '../../src/rule-engine/PileRules';
 import type {
   BeleagueredCastleState,
   BCMove,
@@ -30,19 +50,19 @@ import {
   CARDS_PER_COLUMN,
   FOUNDATION_SUITS,
 } from './BeleagueredCastleState';
+import type { BeleagueredCastleVariant } from './BeleagueredCastleVariants';
+import {
+  BELEAGUERED_CASTLE_VARIANTS,
+  STANDARD_BELEAGUERED_CASTLE_VARIANT,
+} from './BeleagueredCastleVariants';
 
 // ── Rank utilities ──────────────────────────────────────────
 
-/** Map of rank -> numeric value for ordering (A=0, 2=1, ..., K=12). */
-const RANK_VALUE: Record<Rank, number> = Object.fromEntries(
-  RANKS.map((r, i) => [r, i]),
-) as Record<Rank, number>;
-
 /**
  * Get the numeric value of a rank (A=0, K=12).
  */
 export function rankValue(rank: Rank): number {
-  return RANK_VALUE[rank];
+  return rankIndex(ACE_LOW, rank);
 }
 
 /**
@@ -50,8 +70,7 @@ export function rankValue(rank: Rank): number {
  * or undefined if the rank is King (sequence complete).
  */
 export function nextRank(rank: Rank): Rank | undefined {
-  const idx = RANK_VALUE[rank];
-  return idx < 12 ? RANKS[idx + 1] : undefined;
+  return rankAfter(ACE_LOW, rank);
 }
 
 /**
@@ -61,36 +80,29 @@ export function foundationIndex(suit: Suit): number {
   return FOUNDATION_SUITS.indexOf(suit);
 }
 
-// ── Seeded RNG ──────────────────────────────────────────────
-
-/**
- * Create a deterministic RNG from a numeric seed.
- * Uses a simple linear congruential generator (LCG) compatible
- * with the shuffle() function's () => number contract.
- */
-export function createSeededRng(seed: number): () => number {
-  let s = seed;
-  return () => {
-    s = (s * 1664525 + 1013904223) % 4294967296;
-    return s / 4294967296;
-  };
-}
-
 // ── Deal ────────────────────────────────────────────────────
 
 /**
  * Deal a new Beleaguered Castle game.
  *
- * 1. Create and shuffle a standard 52-card deck with seeded RNG.
+ * 1. Create and shuffle a standard 52-card deck with an RNG seeded from `seed`.
  * 2. Remove the 4 aces and place them on their respective foundations.
  * 3. Deal the remaining 48 cards into 8 columns of 6, all face-up.
  *
- * @param seed  Numeric seed for deterministic shuffling.
- * @returns     A fresh BeleagueredCastleState.
+ * In Streets and Alleys (`acesOnFoundations: false`) step 2 is skipped
+ * and all 52 cards are dealt: 7 to each of the first four columns and
+ * 6 to the rest.
+ *
+ * @param seed     Numeric seed for deterministic shuffling.
+ * @param variant  House rules that differ from the classic game.
+ * @returns        A fresh BeleagueredCastleState.
  */
-export function deal(seed: number): BeleagueredCastleState {
-  const rng = createSeededRng(seed);
-  const deck = shuffle(createStandardDeck(), rng);
+export function deal(
+  seed: number,
+  variant?: Partial<BeleagueredCastleVariant>,
+): BeleagueredCastleState {
+  const rules = resolveVariant(BELEAGUERED_CASTLE_VARIANTS, variant);
+  const deck = shuffle(createStandardDeck(), createRng(seed));
 
   // All cards face-up in Beleaguered Castle
   for (const card of deck) {
@@ -101,7 +113,7 @@ export function deal(seed: number): BeleagueredCastleState {
   const aces: Card[] = [];
   const remaining: Card[] = [];
   for (const card of deck) {
-    if (card.rank === 'A') {
+    if (card.rank === 'A' && rules.acesOnFoundations) {
       aces.push(card);
     } else {
       remaining.push(card);
@@ -120,26 +132,95 @@ export function deal(seed: number): BeleagueredCastleState {
     foundations[idx].push(ace);
   }
 
-  // Deal remaining 48 cards into 8 columns of 6
-  if (remaining.length !== 48) {
+  // Deal remaining 48 cards into 8 columns of 6 (all 52 in Streets
+  // and Alleys, the first columns taking the extra cards)
+  const expected = rules.acesOnFoundations ? 48 : 52;
+  if (remaining.length !== expected) {
     throw new Error(
-      `Expected 48 non-ace cards after removing aces, got ${remaining.length}`,
+      `Expected ${expected} cards to deal to the tableau, got ${remaining.length}`,
     );
   }
 
+  const extra = remaining.length - TABLEAU_COUNT * CARDS_PER_COLUMN;
   const tableau: Pile[] = [];
+  let dealt = 0;
   for (let col = 0; col < TABLEAU_COUNT; col++) {
-    const columnCards = remaining.slice(
-      col * CARDS_PER_COLUMN,
-      (col + 1) * CARDS_PER_COLUMN,
-    );
-    tableau.push(new Pile(columnCards));
+    const size = CARDS_PER_COLUMN + (col < extra ? 1 : 0);
+    tableau.push(new Pile(remaining.slice(dealt, dealt + size)));
+    dealt += size;
   }
 
-  return {
+  const state: BeleagueredCastleState = {
     foundations,
     tableau,
     seed,
+    variant: rules,
+    moveCount: 0,
+  };
+  assertCardUniverse(BeleagueredCastleCardConservation, state);
+  return state;
+}
+
+// ── Card conservation ───────────────────────────────────────
+
+/**
+ * Where Beleaguered Castle's cards live: the four foundations and
+ * eight tableau columns, holding one standard deck between them.
+ */
+export const BeleagueredCastleCardConservation: CardConservation<BeleagueredCastleState, Card> = {
+  name: 'Beleaguered Castle',
+  universe: () => createStandardDeck(),
+  locations: (state) => ({
+    ...Object.fromEntries(
+      state.foundations.map((pile, i) => [`foundation-${i}`, pile.toArray()]),
+    ),
+    ...Object.fromEntries(
+      state.tableau.map((pile, i) => [`column-${i}`, pile.toArray()]),
+    ),
+  }),
+  describe: formatCard,
+};
+
+// ── Layout notation ─────────────────────────────────────────
+
+/**
+ * Write the board in card notation: the four foundations, `/`, then
+ * the eight tableau columns, e.g.
+ * `'AC | AD 2D | AH | AS / KS QH | 7D | - | ...'`.
+ */
+export function formatBCLayout(state: BeleagueredCastleState): string {
+  return formatLayout([[...state.foundations], [...state.tableau]]);
+}
+
+/**
+ * Build a state from a layout written by {@link formatBCLayout}, for
+ * tests and for reproducing reported positions. Cards are placed as
+ * written (no legality checks), the move count starts at 0 and the
+ * state records the classic rules.
+ *
+ * @throws If the notation is invalid or does not have 4 foundations
+ *         and 8 columns.
+ */
+export function parseBCLayout(
+  text: string,
+  seed: number = 0,
+): BeleagueredCastleState {
+  const sections = parseLayout(text);
+  const [foundations, tableau] = sections;
+  if (
+    sections.length !== 2 ||
+    foundations.length !== FOUNDATION_COUNT ||
+    tableau.length !== TABLEAU_COUNT
+  ) {
+    throw new Error(
+      `Layout must have ${FOUNDATION_COUNT} foundations and ${TABLEAU_COUNT} columns: '${text}'`,
+    );
+  }
+  return {
+    foundations: foundations as [Pile, Pile, Pile, Pile],
+    tableau,
+    seed,
+    variant: STANDARD_BELEAGUERED_CASTLE_VARIANT,
     moveCount: 0,
   };
 }
@@ -147,44 +228,58 @@ export function deal(seed: number): BeleagueredCastleState {
 // ── Move validation ─────────────────────────────────────────
 
 /**
- * Check whether moving the top card from a tableau column to a
- * foundation is legal.
+ * Validate moving the top card from a tableau column to a foundation.
  *
  * Legal when:
  * - Source column is not empty.
  * - The card's suit matches the foundation suit.
  * - The card's rank is the next expected rank on that foundation.
  */
-export function isLegalFoundationMove(
+export function validateFoundationMove(
   state: BeleagueredCastleState,
   fromCol: number,
   toFoundation: number,
-): boolean {
-  if (fromCol < 0 || fromCol >= TABLEAU_COUNT) return false;
-  if (toFoundation < 0 || toFoundation >= FOUNDATION_COUNT) return false;
+): ValidationResult {
+  if (fromCol < 0 || fromCol >= TABLEAU_COUNT) {
+    return invalid('COLUMN_OUT_OF_RANGE', `Column ${fromCol} does not exist`, {
+      column: fromCol,
+    });
+  }
+  if (toFoundation < 0 || toFoundation >= FOUNDATION_COUNT) {
+    return invalid(
+      'FOUNDATION_OUT_OF_RANGE',
+      `Foundation ${toFoundation} does not exist`,
+      { foundation: toFoundation },
+    );
+  }
 
   const sourceCol = state.tableau[fromCol];
   const card = sourceCol.peek();
-  if (!card) return false;
+  if (!card) {
+    return invalid('EMPTY_SOURCE', `Column ${fromCol} is empty`, {
+      column: fromCol,
+    });
+  }
 
-  const foundation = state.foundations[toFoundation];
   const expectedSuit = FOUNDATION_SUITS[toFoundation];
-
-  if (card.suit !== expectedSuit) return false;
-
-  const topFoundationCard = foundation.peek();
-  if (!topFoundationCard) {
-    // Foundation is empty; only Ace goes here (but aces are pre-placed)
-    return card.rank === 'A';
+  if (card.suit !== expectedSuit) {
+    return invalid(
+      'WRONG_SUIT',
+      `${card.rank} of ${card.suit} cannot go on the ${expectedSuit} foundation`,
+      { rank: card.rank, suit: card.suit, foundationSuit: expectedSuit },
+    );
   }
 
-  const expected = nextRank(topFoundationCard.rank);
-  return expected !== undefined && card.rank === expected;
+  // Foundations build up by suit from the Ace (aces are pre-placed)
+  return validateBuild(
+    FOUNDATION_UP_BY_SUIT,
+    state.foundations[toFoundation],
+    [card],
+  );
 }
 
 /**
- * Check whether moving the top card from one tableau column to
- * another is legal.
+ * Validate moving the top card from one tableau column to another.
  *
  * Legal when:
  * - Source column is not empty.
@@ -193,24 +288,180 @@ export function isLegalFoundationMove(
  * - The card's rank is exactly one less than the destination top card's rank
  *   (regardless of suit).
  */
-export function isLegalTableauMove(
+export function validateTableauMove(
   state: BeleagueredCastleState,
   fromCol: number,
   toCol: number,
-): boolean {
-  if (fromCol < 0 || fromCol >= TABLEAU_COUNT) return false;
-  if (toCol < 0 || toCol >= TABLEAU_COUNT) return false;
-  if (fromCol === toCol) return false;
+): ValidationResult {
+  if (fromCol < 0 || fromCol >= TABLEAU_COUNT) {
+    return invalid('COLUMN_OUT_OF_RANGE', `Column ${fromCol} does not exist`, {
+      column: fromCol,
+    });
+  }
+  if (toCol < 0 || toCol >= TABLEAU_COUNT) {
+    return invalid('COLUMN_OUT_OF_RANGE', `Column ${toCol} does not exist`, {
+      column: toCol,
+    });
+  }
+  if (fromCol === toCol) {
+    return invalid('SAME_COLUMN', 'Source and destination are the same column');
+  }
 
   const sourceCol = state.tableau[fromCol];
   const card = sourceCol.peek();
-  if (!card) return false;
+  if (!card) {
+    return invalid('EMPTY_SOURCE', `Column ${fromCol} is empty`, {
+      column: fromCol,
+    });
+  }
 
-  const destCol = state.tableau[toCol];
-  if (destCol.isEmpty()) return true; // Any card on empty column
+  // Build down regardless of suit; empty columns accept any card
+  return validateBuild(BELEAGUERED_CASTLE_TABLEAU, state.tableau[toCol], [card]);
+}
 
-  const destTop = destCol.peek()!;
-  return rankValue(card.rank) === rankValue(destTop.rank) - 1;
+/**
+ * Tableau build rule used for sequence moves: the same "down regardless
+ * of suit" rule, with built runs allowed to move as a unit.
+ */
+const SEQUENCE_RULE: PileBuildRule = {
+  ...BELEAGUERED_CASTLE_TABLEAU,
+  sequenceMoves: 'built-run',
+};
+
+/**
+ * Number of cards that can be moved as a unit from `fromCol` to
+ * `toCol`, based on the empty columns available as temporary space
+ * (Beleaguered Castle has no free cells).
+ */
+export function sequenceCapacity(
+  state: BeleagueredCastleState,
+  fromCol: number,
+  toCol: number,
+): number {
+  let emptyColumns = 0;
+  for (let col = 0; col < TABLEAU_COUNT; col++) {
+    if (col === fromCol || col === toCol) continue;
+    if (state.tableau[col].isEmpty()) emptyColumns++;
+  }
+  return sequenceMoveCapacity({ freeCells: 0, emptyColumns });
+}
+
+/**
+ * Length of the descending run at the top of a column
+ * (0 for an empty or out-of-range column).
+ */
+export function movableRunAt(
+  state: BeleagueredCastleState,
+  col: number,
+): number {
+  const pile = state.tableau[col];
+  return pile ? movableRunLength(SEQUENCE_RULE, pile) : 0;
+}
+
+/**
+ * Validate moving the top `count` cards of one tableau column onto
+ * another as a unit.
+ *
+ * Legal when:
+ * - `count` is at least 2 (single cards use a tableau-to-tableau move).
+ * - The moved cards form a run descending by one rank (any suits).
+ * - The run fits the supermove capacity given the empty columns.
+ * - The bottom card of the run may legally be placed on the destination.
+ */
+export function validateSequenceMove(
+  state: BeleagueredCastleState,
+  fromCol: number,
+  toCol: number,
+  count: number,
+): ValidationResult {
+  if (fromCol < 0 || fromCol >= TABLEAU_COUNT) {
+    return invalid('COLUMN_OUT_OF_RANGE', `Column ${fromCol} does not exist`, {
+      column: fromCol,
+    });
+  }
+  if (toCol < 0 || toCol >= TABLEAU_COUNT) {
+    return invalid('COLUMN_OUT_OF_RANGE', `Column ${toCol} does not exist`, {
+      column: toCol,
+    });
+  }
+  if (fromCol === toCol) {
+    return invalid('SAME_COLUMN', 'Source and destination are the same column');
+  }
+  if (!Number.isInteger(count) || count < 2) {
+    return invalid(
+      'INVALID_COUNT',
+      `A sequence move needs at least 2 cards, got ${count}`,
+      { count },
+    );
+  }
+
+  const source = state.tableau[fromCol];
+  if (count > source.size()) {
+    return invalid(
+      'NOT_ENOUGH_CARDS',
+      `Column ${fromCol} has only ${source.size()} cards`,
+      { column: fromCol, have: source.size(), count },
+    );
+  }
+  if (count > movableRunAt(state, fromCol)) {
+    return invalid(
+      'NOT_A_RUN',
+      `The top ${count} cards of column ${fromCol} do not form a descending run`,
+      { column: fromCol, count },
+    );
+  }
+
+  const capacity = sequenceCapacity(state, fromCol, toCol);
+  if (count > capacity) {
+    return invalid(
+      'CAPACITY_EXCEEDED',
+      `Only ${capacity} cards can be moved at once with the empty columns available`,
+      { count, max: capacity },
+    );
+  }
+
+  return validateBuild(SEQUENCE_RULE, state.tableau[toCol], source.peekN(count));
+}
+
+/**
+ * Validate any BCMove against the current state.
+ */
+export function validateMove(
+  state: BeleagueredCastleState,
+  move: BCMove,
+): ValidationResult {
+  switch (move.kind) {
+    case 'tableau-to-foundation':
+      return validateFoundationMove(state, move.fromCol, move.toFoundation);
+    case 'tableau-to-tableau':
+      return validateTableauMove(state, move.fromCol, move.toCol);
+    case 'tableau-sequence':
+      return validateSequenceMove(state, move.fromCol, move.toCol, move.count);
+  }
+}
+
+/**
+ * Check whether moving the top card from a tableau column to a
+ * foundation is legal. See {@link validateFoundationMove}.
+ */
+export function isLegalFoundationMove(
+  state: BeleagueredCastleState,
+  fromCol: number,
+  toFoundation: number,
+): boolean {
+  return validateFoundationMove(state, fromCol, toFoundation).valid;
+}
+
+/**
+ * Check whether moving the top card from one tableau column to
+ * another is legal. See {@link validateTableauMove}.
+ */
+export function isLegalTableauMove(
+  state: BeleagueredCastleState,
+  fromCol: number,
+  toCol: number,
+): boolean {
+  return validateTableauMove(state, fromCol, toCol).valid;
 }
 
 // ── Move application ────────────────────────────────────────
@@ -272,22 +523,54 @@ export function applyTableauMove(
   return card;
 }
 
+/**
+ * Apply a sequence move: take the top `count` cards from the source
+ * column and append them, in order, to the destination column.
+ * Counts as a single move.
+ *
+ * @throws If the move is illegal.
+ * @returns The bottom card of the moved run.
+ */
+export function applySequenceMove(
+  state: BeleagueredCastleState,
+  fromCol: number,
+  toCol: number,
+  count: number,
+): Card {
+  const legality = validateSequenceMove(state, fromCol, toCol, count);
+  if (!legality.valid) {
+    throw new Error(
+      `Illegal sequence move: ${count} cards from column ${fromCol} ` +
+        `to column ${toCol} (${legality.reason})`,
+    );
+  }
+
+  const run = state.tableau[fromCol].takeTop(count);
+  state.tableau[toCol].push(...run);
+  state.moveCount++;
+  return run[0];
+}
+
 /**
  * Apply any BCMove to the game state.
  *
  * @throws If the move is illegal.
- * @returns The card that was moved.
+ * @returns The card that was moved (the bottom card of a moved run).
  */
 export function applyMove(
   state: BeleagueredCastleState,
   move: BCMove,
 ): Card {
-  switch (move.kind) {
-    case 'tableau-to-foundation':
-      return applyFoundationMove(state, move.fromCol, move.toFoundation);
-    case 'tableau-to-tableau':
-      return applyTableauMove(state, move.fromCol, move.toCol);
-  }
+  return conserveCards(BeleagueredCastleCardConservation, state, move, () => {
+    switch (move.kind) {
+      case 'tableau-to-foundation':
+        return applyFoundationMove(state, move.fromCol, move.toFoundation);
+      case 'tableau-to-tableau':
+        return applyTableauMove(state, move.fromCol, move.toCol);
+      case 'tableau-sequence':
+        return applySequenceMove(state, move.fromCol, move.toCol, move.count);
+    }
+  });
 }
 
 /**
@@ -318,6 +601,21 @@ export function undoTableauMove(
   state.moveCount--;
 }
 
+/**
+ * Undo a sequence move: take the run back off the destination column
+ * and return it, in order, to the source column.
+ */
+export function undoSequenceMove(
+  state: BeleagueredCastleState,
+  fromCol: number,
+  toCol: number,
+  count: number,
+): void {
+  const run = state.tableau[toCol].takeTop(count);
+  state.tableau[fromCol].push(...run);
+  state.moveCount--;
+}
+
 /**
  * Undo any BCMove.
  */
@@ -325,16 +623,41 @@ export function undoMove(
   state: BeleagueredCastleState,
   move: BCMove,
 ): void {
-  switch (move.kind) {
-    case 'tableau-to-foundation':
-      undoFoundationMove(state, move.fromCol, move.toFoundation);
-      break;
-    case 'tableau-to-tableau':
-      undoTableauMove(state, move.fromCol, move.toCol);
-      break;
-  }
+  conserveCards(BeleagueredCastleCardConservation, state, { undo: move }, () => {
+    switch (move.kind) {
+      case 'tableau-to-foundation':
+        undoFoundationMove(state, move.fromCol, move.toFoundation);
+        break;
+      case 'tableau-to-tableau':
+        undoTableauMove(state, move.fromCol, move.toCol);
+        break;
+      case 'tableau-sequence':
+        undoSequenceMove(state, move.fromCol, move.toCol, move.count);
+        break;
+    }
+  });
 }
 
+// ── Rule set ────────────────────────────────────────────────
+
+/**
+ * Beleaguered Castle expressed as a generic {@link RuleSet}.
+ *
+ * `apply` returns the card that moved; the move itself carries
+ * everything `undo` needs.
+ */
+export const BeleagueredCastleRuleSet: RuleSet<
+  BeleagueredCastleState,
+  BCMove,
+  Card
+> = {
+  name: 'Beleaguered Castle',
+  validate: validateMove,
+  apply: applyMove,
+  undo: (state, move) => undoMove(state, move),
+  enumerateMoves: (state) => getLegalMoves(state),
+};
+
 // ── Win / Loss detection ────────────────────────────────────
 
 /**
@@ -374,6 +697,16 @@ export function getLegalMoves(state: BeleagueredCastleState): BCMove[] {
         });
       }
     }
+
+    // Check sequence moves (runs of 2 or more cards)
+    const run = movableRunAt(state, fromCol);
+    for (let count = 2; count <= run; count++) {
+      for (let toCol = 0; toCol < TABLEAU_COUNT; toCol++) {
+        if (validateSequenceMove(state, fromCol, toCol, count).valid) {
+          moves.push({ kind: 'tableau-sequence', fromCol, toCol, count });
+        }
+      }
+    }
   }
 
   return moves;
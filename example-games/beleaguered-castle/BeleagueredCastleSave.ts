@@ -0,0 +1,91 @@
+/**
+ * Saving and resuming Beleaguered Castle games (see
+ * src/core-engine/SavedGame.ts).
+ *
+ * A saved game holds the board as card snapshots, each pile listed
+ * bottom to top, plus the undo history as the moves each step made, so
+ * undo and redo keep working after a reload.
+ */
+
+import type { CardSnapshot } from '../../src/core-engine/TranscriptTypes';
+import { snapshotCard, cardFromSnapshot } from '../../src/core-engine/TranscriptTypes';
+import type { UndoHistorySnapshot } from '../../src/core-engine/UndoRedoManager';
+import { Pile } from '../../src/card-system/Pile';
+import { checkCardUniverse } from '../../src/rule-engine/CardConservation';
+import { resolveVariant } from '../../src/rule-engine/Variants';
+import type { BeleagueredCastleState, BCMove } from './BeleagueredCastleState';
+import { FOUNDATION_COUNT, TABLEAU_COUNT } from './BeleagueredCastleState';
+import { BeleagueredCastleCardConservation } from './BeleagueredCastleRules';
+import type { BeleagueredCastleVariant } from './BeleagueredCastleVariants';
+import { BELEAGUERED_CASTLE_VARIANTS } from './BeleagueredCastleVariants';
+
+/** Save key of Beleaguered Castle in a SavedGameStore. */
+export const BC_SAVE_KEY = 'beleaguered-castle';
+
+/** A Beleaguered Castle board as saved. */
+export interface SavedBCState {
+  seed: number;
+  variant: BeleagueredCastleVariant;
+  moveCount: number;
+  /** Foundation piles by suit index, each bottom to top. */
+  foundations: CardSnapshot[][];
+  /** Tableau columns, each bottom to top. */
+  tableau: CardSnapshot[][];
+}
+
+/**
+ * One step of undo history: the player's move (null for auto-complete)
+ * and the auto-moves to foundations that followed it.
+ */
+export interface SavedBCTurn {
+  move: BCMove | null;
+  autoMoves: BCMove[];
+}
+
+/** A Beleaguered Castle game in progress, as saved. */
+export interface SavedBCGame {
+  state: SavedBCState;
+  history: UndoHistorySnapshot<SavedBCTurn>;
+  /** Time on the game clock, in seconds. */
+  elapsedSeconds: number;
+  /** House-rule preset the game was started with, if any. */
+  variantName?: string;
+}
+
+/** Convert a Beleaguered Castle board to plain data. */
+export function serializeBCState(state: BeleagueredCastleState): SavedBCState {
+  return {
+    seed: state.seed,
+    variant: { ...state.variant },
+    moveCount: state.moveCount,
+    foundations: state.foundations.map((pile) => pile.toArray().map(snapshotCard)),
+    tableau: state.tableau.map((pile) => pile.toArray().map(snapshotCard)),
+  };
+}
+
+/**
+ * Rebuild a Beleaguered Castle board from saved data.
+ *
+ * @throws If the save is inconsistent (wrong number of piles, invalid
+ *         variant, or cards missing or duplicated).
+ */
+export function deserializeBCState(saved: SavedBCState): BeleagueredCastleState {
+  if (saved.foundations.length !== FOUNDATION_COUNT || saved.tableau.length !== TABLEAU_COUNT) {
+    throw new Error(
+      `Expected ${FOUNDATION_COUNT} foundations and ${TABLEAU_COUNT} columns, ` +
+        `got ${saved.foundations.length} and ${saved.tableau.length}`,
+    );
+  }
+  const toPile = (cards: CardSnapshot[]) => new Pile(cards.map(cardFromSnapshot));
+  const [clubs, diamonds, hearts, spades] = saved.foundations.map(toPile);
+
+  const state: BeleagueredCastleState = {
+    foundations: [clubs, diamonds, hearts, spades],
+    tableau: saved.tableau.map(toPile),
+    seed: saved.seed,
+    variant: resolveVariant(BELEAGUERED_CASTLE_VARIANTS, saved.variant),
+    moveCount: saved.moveCount,
+  };
+  checkCardUniverse(BeleagueredCastleCardConservation, state);
+  return state;
+}
@@ -8,6 +8,7 @@
 
 import type { Suit } from '../../src/card-system/Card';
 import { Pile } from '../../src/card-system/Pile';
+import type { BeleagueredCastleVariant } from './BeleagueredCastleVariants';
 
 // ── Constants ───────────────────────────────────────────────
 
@@ -52,10 +53,31 @@ export interface TableauToFoundationMove {
   readonly toFoundation: number;
 }
 
+/**
+ * Move a run of cards (ranks descending by one) from one tableau
+ * column to another as a unit.
+ *
+ * This is a "supermove": shorthand for the single-card moves through
+ * empty columns that would achieve the same result, so the run length
+ * is limited by the number of empty columns available.
+ */
+export interface TableauSequenceMove {
+  readonly kind: 'tableau-sequence';
+  /** Source column index (0-7). */
+  readonly fromCol: number;
+  /** Destination column index (0-7). */
+  readonly toCol: number;
+  /** Number of cards moved from the top of the source column (>= 2). */
+  readonly count: number;
+}
+
 /**
  * Any legal move in Beleaguered Castle.
  */
-export type BCMove = TableauToTableauMove | TableauToFoundationMove;
+export type BCMove =
+  | TableauToTableauMove
+  | TableauToFoundationMove
+  | TableauSequenceMove;
 
 // ── Game state ──────────────────────────────────────────────
 
@@ -81,6 +103,9 @@ export interface BeleagueredCastleState {
   /** The RNG seed used for this deal. */
   readonly seed: number;
 
+  /** House rules the deal was made under. */
+  readonly variant: BeleagueredCastleVariant;
+
   /** Number of moves the player has made. */
   moveCount: number;
 }
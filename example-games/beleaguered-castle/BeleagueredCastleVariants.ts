@@ -0,0 +1,41 @@
+/**
+ * Beleaguered Castle variants.
+ *
+ * The only house rule is where the aces start. In the classic game they
+ * are pre-placed on the foundations; in Streets and Alleys they are
+ * shuffled in with the rest of the deck, so all 52 cards are dealt to
+ * the tableau and every foundation starts empty.
+ */
+
+import {
+  defaultVariant,
+  defineVariants,
+} from '../../src/rule-engine/Variants';
+
+/** A resolved set of Beleaguered Castle house rules. */
+export interface BeleagueredCastleVariant {
+  /** Whether the aces start on the foundations (false: Streets and Alleys). */
+  acesOnFoundations: boolean;
+}
+
+/** Beleaguered Castle's house-rule options and well-known variants. */
+export const BELEAGUERED_CASTLE_VARIANTS = defineVariants<BeleagueredCastleVariant>({
+  game: 'Beleaguered Castle',
+  options: {
+    acesOnFoundations: {
+      kind: 'toggle',
+      label: 'Aces start on the foundations',
+      default: true,
+    },
+  },
+  presets: {
+    'streets-and-alleys': {
+      label: 'Streets and Alleys',
+      options: { acesOnFoundations: false },
+    },
+  },
+});
+
+/** The classic rules. */
+export const STANDARD_BELEAGUERED_CASTLE_VARIANT: BeleagueredCastleVariant =
+  defaultVariant(BELEAGUERED_CASTLE_VARIANTS);
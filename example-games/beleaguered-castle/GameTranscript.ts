@@ -1,9 +1,11 @@
 /**
  * Game transcript types and recorder for Beleaguered Castle.
  *
- * Records a replay-ready JSON transcript capturing the deal, every move,
+ * Records a replay-ready JSON transcript (the shared format of
+ * src/core-engine/Transcript.ts) capturing the deal, every move,
  * undo/redo actions, and the final outcome for debugging, regression
- * testing, and the Visual Replay Dev Tool.
+ * testing, and the Visual Replay Dev Tool. Transcripts saved in the
+ * original format (version 1) are upgraded with `migrateBCTranscriptV1()`.
  *
  * Usage:
  *   const recorder = new BCTranscriptRecorder(seed, state);
@@ -24,13 +26,30 @@ import type {
   BCMove,
 } from './BeleagueredCastleState';
 import { FOUNDATION_COUNT, TABLEAU_COUNT } from './BeleagueredCastleState';
+import type { BeleagueredCastleVariant } from './BeleagueredCastleVariants';
+import { STANDARD_BELEAGUERED_CASTLE_VARIANT } from './BeleagueredCastleVariants';
 import { snapshotCard } from '../../src/core-engine/TranscriptTypes';
 import type { CardSnapshot } from '../../src/core-engine/TranscriptTypes';
+import type { Transcript, TranscriptPlayer } from '../../src/core-engine/Transcript';
+import {
+  TRANSCRIPT_VERSION,
+  createTranscript,
+  finalizeTranscript,
+  recordAction,
+} from '../../src/core-engine/Transcript';
 
 // Re-export so existing consumers that import from this module still work.
 export { snapshotCard };
 export type { CardSnapshot };
 
+/** Game type of Beleaguered Castle transcripts. */
+export const BC_TRANSCRIPT_TYPE = 'beleaguered-castle';
+
+/** The players of a Beleaguered Castle transcript: a single human. */
+export const BC_TRANSCRIPT_PLAYERS: readonly TranscriptPlayer[] = [
+  { name: 'Player', isAI: false },
+];
+
 // ── Snapshot types ──────────────────────────────────────────
 
 /** Snapshot of a single foundation pile. */
@@ -108,14 +127,34 @@ export interface GameResult {
 
 // ── Transcript ──────────────────────────────────────────────
 
-/** A complete Beleaguered Castle game transcript. */
-export interface BCGameTranscript {
-  /** Format version for future compatibility. */
+/**
+ * Beleaguered Castle's part of the shared transcript format. Actions
+ * carry no snapshot; only the deal is recorded as a board.
+ */
+export interface BCTranscriptFormat {
+  action: TranscriptEntry;
+  snapshot: BoardSnapshot;
+  variant: BeleagueredCastleVariant;
+  result: GameResult;
+}
+
+/**
+ * A complete Beleaguered Castle game transcript. Player actions are
+ * recorded for player 0; auto-moves have no player.
+ */
+export type BCGameTranscript = Transcript<BCTranscriptFormat>;
+
+/** A Beleaguered Castle transcript in the original format (version 1). */
+export interface BCGameTranscriptV1 {
   version: 1;
-  /** Game identifier. */
   game: 'beleaguered-castle';
   /** The RNG seed used for the deal. */
   seed: number;
+  /**
+   * House rules the deal was made under. Transcripts recorded before
+   * variants existed omit it; they used the classic rules.
+   */
+  variant?: BeleagueredCastleVariant;
   /** ISO 8601 timestamp when the game started. */
   startedAt: string;
   /** ISO 8601 timestamp when the game ended (set on finalize). */
@@ -153,6 +192,25 @@ export function snapshotBoard(state: BeleagueredCastleState): BoardSnapshot {
   return { foundations, tableau };
 }
 
+/** Upgrade a version 1 Beleaguered Castle transcript to the shared format. */
+export function migrateBCTranscriptV1(v1: BCGameTranscriptV1): BCGameTranscript {
+  return {
+    version: TRANSCRIPT_VERSION,
+    gameType: BC_TRANSCRIPT_TYPE,
+    variant: v1.variant ?? { ...STANDARD_BELEAGUERED_CASTLE_VARIANT },
+    seed: v1.seed,
+    players: BC_TRANSCRIPT_PLAYERS.map((p) => ({ ...p })),
+    startedAt: v1.startedAt,
+    endedAt: v1.endedAt,
+    initialSnapshot: v1.initialState,
+    actions: v1.moves.map((entry) => ({
+      playerIndex: entry.kind === 'auto-move' ? null : 0,
+      action: entry,
+    })),
+    result: v1.result,
+  };
+}
+
 // ── BCTranscriptRecorder ────────────────────────────────────
 
 /**
@@ -170,21 +228,18 @@ export class BCTranscriptRecorder {
   private readonly transcript: BCGameTranscript;
 
   constructor(seed: number, initialState: BeleagueredCastleState) {
-    this.transcript = {
-      version: 1,
-      game: 'beleaguered-castle',
+    this.transcript = createTranscript<BCTranscriptFormat>({
+      gameType: BC_TRANSCRIPT_TYPE,
+      variant: { ...initialState.variant },
       seed,
-      startedAt: new Date().toISOString(),
-      endedAt: '',
-      initialState: snapshotBoard(initialState),
-      moves: [],
-      result: null,
-    };
+      players: BC_TRANSCRIPT_PLAYERS,
+      initialSnapshot: snapshotBoard(initialState),
+    });
   }
 
   /** Record a player-initiated move. */
   recordMove(move: BCMove, moveCount: number): void {
-    this.transcript.moves.push({
+    recordAction(this.transcript, 0, {
       kind: 'player-move',
       move,
       moveCount,
@@ -193,7 +248,7 @@ export class BCTranscriptRecorder {
 
   /** Record an auto-move to a foundation. */
   recordAutoMove(move: BCMove): void {
-    this.transcript.moves.push({
+    recordAction(this.transcript, null, {
       kind: 'auto-move',
       move,
     });
@@ -201,7 +256,7 @@ export class BCTranscriptRecorder {
 
   /** Record an undo action. */
   recordUndo(moveCount: number): void {
-    this.transcript.moves.push({
+    recordAction(this.transcript, 0, {
       kind: 'undo',
       moveCount,
     });
@@ -209,7 +264,7 @@ export class BCTranscriptRecorder {
 
   /** Record a redo action. */
   recordRedo(moveCount: number): void {
-    this.transcript.moves.push({
+    recordAction(this.transcript, 0, {
       kind: 'redo',
       moveCount,
     });
@@ -225,13 +280,11 @@ export class BCTranscriptRecorder {
     moveCount: number,
     elapsedSeconds: number,
   ): BCGameTranscript {
-    this.transcript.endedAt = new Date().toISOString();
-    this.transcript.result = {
+    return finalizeTranscript(this.transcript, {
       outcome,
       moveCount,
       elapsedSeconds,
-    };
-    return this.transcript;
+    });
   }
 
   /**
@@ -5,12 +5,13 @@
  *   - 4 foundation piles across the top (aces pre-placed)
  *   - 8 tableau columns below with vertical cascade overlap
  *   - Deal animation on scene start
- *   - HUD: move counter, timer, seed display
+ *   - HUD: move counter, timer, deal code display
  *   - Drag-and-drop card interaction with visual feedback
  *   - Click-to-select then click-to-place card interaction
  *   - Undo/Redo via keyboard (Ctrl+Z / Ctrl+Y or Ctrl+Shift+Z)
  *   - Auto-move safe cards to foundations after each player move
  *   - Each move recorded as a Command in UndoRedoManager
+ *   - Game and undo history saved after every move, resumable after a reload
  */
 
 import Phaser from 'phaser';
@@ -23,6 +24,8 @@ import {
   undoMove,
   isLegalFoundationMove,
   isLegalTableauMove,
+  validateSequenceMove,
+  movableRunAt,
   getLegalMoves,
   findSafeAutoMoves,
   isWon,
@@ -33,6 +36,8 @@ import {
 import type { Command } from '../../../src/core-engine/UndoRedoManager';
 import { UndoRedoManager, CompoundCommand } from '../../../src/core-engine/UndoRedoManager';
 import { BCTranscriptRecorder } from '../GameTranscript';
+import type { SavedBCGame, SavedBCTurn } from '../BeleagueredCastleSave';
+import { BC_SAVE_KEY, serializeBCState, deserializeBCState } from '../BeleagueredCastleSave';
 import type { BCGameTranscript } from '../GameTranscript';
 import {
   HelpPanel, HelpButton,
@@ -42,12 +47,22 @@ import {
   createOverlayBackground, dismissOverlay as sharedDismissOverlay,
   createOverlayButton, createOverlayMenuButton,
   createSceneTitle, createSceneMenuButton,
+  createDealCodeLabel, dealCodeText,
 } from '../../../src/ui';
 import type { HelpSection } from '../../../src/ui';
 import { GameEventEmitter } from '../../../src/core-engine/GameEventEmitter';
 import { PhaserEventBridge } from '../../../src/core-engine/PhaserEventBridge';
+import { EventRecorder, TranscriptStoreEventSink } from '../../../src/core-engine/EventLog';
 import { SoundManager } from '../../../src/core-engine/SoundManager';
 import type { SoundPlayer, EventSoundMapping } from '../../../src/core-engine/SoundManager';
+import { randomSeed } from '../../../src/core-engine/Rng';
+import { resolveSceneSeed } from '../../../src/core-engine/DealCode';
+import type { SeedSceneData } from '../../../src/core-engine/DealCode';
+import { SavedGameStore } from '../../../src/core-engine/SavedGame';
+import type { ResumeSceneData } from '../../../src/core-engine/SavedGame';
+import { presetVariant } from '../../../src/rule-engine/Variants';
+import type { VariantSceneData } from '../../../src/rule-engine/Variants';
+import { BELEAGUERED_CASTLE_VARIANTS } from '../BeleagueredCastleVariants';
 import helpContent from '../help-content.json';
 
 // ── Audio asset keys ────────────────────────────────────────
@@ -80,6 +95,7 @@ const CARD_GAP = 10;
 const ANIM_DURATION = 300; // ms per card deal animation
 const DEAL_STAGGER = 40; // ms between successive card deal tweens
 const SNAP_BACK_DURATION = 200; // ms to snap card back on invalid drop
+const MOVE_DURATION = 150; // ms for a tableau card to glide to its new position
 const AUTO_COMPLETE_DELAY = 150; // ms between auto-complete card animations
 
 /** Preferred vertical overlap offset between cascaded cards in a tableau column.
@@ -126,6 +142,20 @@ const SELECTION_TINT = 0xaaffaa;
 
 // ── MoveCommand ─────────────────────────────────────────────
 
+/**
+ * Short human-readable description of a move, used for command history.
+ */
+function describeMove(move: BCMove): string {
+  switch (move.kind) {
+    case 'tableau-to-foundation':
+      return `column ${move.fromCol} -> foundation ${move.toFoundation}`;
+    case 'tableau-to-tableau':
+      return `column ${move.fromCol} -> column ${move.toCol}`;
+    case 'tableau-sequence':
+      return `${move.count} cards column ${move.fromCol} -> column ${move.toCol}`;
+  }
+}
+
 /**
  * A reversible command that applies or undoes a single BCMove.
  * Used by the UndoRedoManager to support undo/redo.
@@ -137,10 +167,7 @@ class MoveCommand implements Command {
     private readonly state: BeleagueredCastleState,
     private readonly move: BCMove,
   ) {
-    this.description =
-      move.kind === 'tableau-to-foundation'
-        ? `Move column ${move.fromCol} -> foundation ${move.toFoundation}`
-        : `Move column ${move.fromCol} -> column ${move.toCol}`;
+    this.description = `Move ${describeMove(move)}`;
   }
 
   execute(): void {
@@ -165,10 +192,7 @@ class AutoMoveCommand implements Command {
     private readonly state: BeleagueredCastleState,
     private readonly move: BCMove,
   ) {
-    this.description =
-      move.kind === 'tableau-to-foundation'
-        ? `Auto-move column ${move.fromCol} -> foundation ${move.toFoundation}`
-        : `Auto-move column ${move.fromCol} -> column ${move.toCol}`;
+    this.description = `Auto-move ${describeMove(move)}`;
   }
 
   execute(): void {
@@ -184,8 +208,45 @@ class AutoMoveCommand implements Command {
   }
 }
 
+/**
+ * One step of undo history: a player move and the auto-moves that
+ * followed it, or an auto-complete run (no player move). Keeps the
+ * moves it was built from so the history can be saved.
+ */
+class TurnCommand implements Command {
+  readonly description: string;
+  private readonly command: Command;
+
+  constructor(
+    state: BeleagueredCastleState,
+    readonly turn: SavedBCTurn,
+  ) {
+    const cmds: Command[] = turn.autoMoves.map((m) => new AutoMoveCommand(state, m));
+    if (turn.move) {
+      const playerCmd = new MoveCommand(state, turn.move);
+      this.description = playerCmd.description;
+      cmds.unshift(playerCmd);
+    } else {
+      this.description = 'Auto-complete';
+    }
+    this.command = cmds.length === 1 ? cmds[0] : new CompoundCommand(cmds, this.description);
+  }
+
+  execute(): void {
+    this.command.execute();
+  }
+
+  undo(): void {
+    this.command.undo();
+  }
+}
+
 // ── Custom data attached to draggable card sprites ──────────
 
+/**
+ * Any card in the movable run at the top of a column is draggable;
+ * dragging it carries every card above it along as a group.
+ */
 interface CardSpriteData {
   /** Tableau column index this card belongs to. */
   colIndex: number;
@@ -201,11 +262,21 @@ interface CardSpriteData {
 
 // ── Scene ───────────────────────────────────────────────────
 
+/** Persistent log of every Beleaguered Castle event, shared by all sessions. */
+const eventLogSink = new TranscriptStoreEventSink();
+
+/** The in-progress game, kept across page reloads. */
+const savedGames = new SavedGameStore();
+
 export class BeleagueredCastleScene extends Phaser.Scene {
   // Game state
   private gameState!: BeleagueredCastleState;
-  private seed: number = Date.now();
+  private seed: number = 0;
+  /** House-rule preset chosen in the game selector (see init()). */
+  private variantName: string | undefined;
   private undoManager!: UndoRedoManager;
+  /** Saved game to resume (see init()). */
+  private resumedSave: SavedBCGame | null = null;
 
   // Whether the deal animation has finished (interactions blocked until then)
   private dealComplete: boolean = false;
@@ -217,6 +288,8 @@ export class BeleagueredCastleScene extends Phaser.Scene {
 
   // Display objects -- tableau (array of arrays, one per column)
   private tableauSprites: Phaser.GameObjects.Image[][] = [];
+  // Tableau card sprites keyed by card id, reused across refreshes
+  private cardSprites: Map<number, Phaser.GameObjects.Image> = new Map();
   private tableauDropZones: Phaser.GameObjects.Zone[] = [];
 
   // Highlight rectangles for valid drop targets
@@ -256,6 +329,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
   // Sound system
   private gameEvents!: GameEventEmitter;
   private eventBridge!: PhaserEventBridge;
+  private eventRecorder: EventRecorder | null = null;
   private soundManager: SoundManager | null = null;
   private settingsPanel!: SettingsPanel;
   private settingsButton!: SettingsButton;
@@ -264,6 +338,20 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     super({ key: 'BeleagueredCastleScene' });
   }
 
+  /**
+   * Pick the deal seed: a `{ seed }` start payload (game selector,
+   * New Game, Restart), else `?deal=` / `?seed=` in the URL, else random.
+   * A `{ variant }` payload picks the house rules (e.g. Streets and Alleys),
+   * and a `{ resume }` payload loads the game saved by an earlier visit.
+   */
+  init(data: SeedSceneData & VariantSceneData & ResumeSceneData): void {
+    this.seed = resolveSceneSeed(data, window.location.search);
+    this.variantName = data?.variant;
+    this.resumedSave = data?.resume
+      ? savedGames.load<SavedBCGame>(BC_SAVE_KEY)?.state ?? null
+      : null;
+  }
+
   /**
    * Whether user interactions should be blocked
    * (during deal animation, game end, or auto-complete).
@@ -300,21 +388,21 @@ export class BeleagueredCastleScene extends Phaser.Scene {
   create(): void {
     this.cameras.main.setBackgroundColor('#2d572c');
 
-    // Parse seed from URL query parameter, or use current timestamp
-    const params = new URLSearchParams(window.location.search);
-    const seedParam = params.get('seed');
-    this.seed = seedParam ? parseInt(seedParam, 10) : Date.now();
-
-    // Deal the game
-    this.gameState = deal(this.seed);
+    // Deal the game, or resume the saved one
     this.undoManager = new UndoRedoManager();
+    this.elapsedSeconds = 0;
+    if (!this.resumeSavedGame()) {
+      this.gameState = deal(
+        this.seed,
+        presetVariant(BELEAGUERED_CASTLE_VARIANTS, this.variantName),
+      );
+    }
     this.dealComplete = false;
     this.timerStarted = false;
     this.gameEnded = false;
     this.overlayObjects = [];
     this.autoCompleting = false;
     this.autoCompleteTimers = [];
-    this.elapsedSeconds = 0;
     this.transcript = null;
 
     // Reset display object arrays (stale refs from previous run on restart)
@@ -322,6 +410,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     this.foundationLabels = [];
     this.foundationDropZones = [];
     this.tableauSprites = [];
+    this.cardSprites = new Map();
     this.tableauDropZones = [];
     this.highlightRects = [];
     this.selectedCol = null;
@@ -339,6 +428,12 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     // Sound system: event emitter, bridge, sound manager, settings
     this.gameEvents = new GameEventEmitter();
     this.eventBridge = new PhaserEventBridge(this.gameEvents, this.events);
+    this.eventRecorder = new EventRecorder(this.gameEvents, {
+      gameType: 'beleaguered-castle',
+      sinks: [eventLogSink],
+    });
+    // Phaser does not call shutdown() by itself
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
 
     const phaserSound = this.sound;
     const player: SoundPlayer = {
@@ -494,14 +589,12 @@ export class BeleagueredCastleScene extends Phaser.Scene {
       })
       .setOrigin(0.5, 0.5);
 
-    // Seed display (bottom-right)
-    this.seedText = this.add
-      .text(GAME_W - 20, GAME_H - 28, `Seed: ${this.seed}`, {
-        fontSize: '18px',
-        color: '#668866',
-        fontFamily: FONT_FAMILY,
-      })
-      .setOrigin(1, 0.5);
+    // Deal code display (bottom-right)
+    this.seedText = createDealCodeLabel(this, this.seed, {
+      x: GAME_W - 20,
+      y: GAME_H - 28,
+      fontSize: '18px',
+    });
 
     // Undo button (offset leftward to clear Help/Settings buttons in top-right)
     this.undoButton = this.add
@@ -550,27 +643,30 @@ export class BeleagueredCastleScene extends Phaser.Scene {
         // Clear any click-to-move selection when starting a drag
         this.deselectColumn();
 
-        // Save origin position and depth
-        data.originX = gameObject.x;
-        data.originY = gameObject.y;
-        data.originDepth = gameObject.depth;
-
-        // Raise card above everything during drag
-        gameObject.setDepth(DRAG_DEPTH);
+        // Save origin positions and depths, raising the dragged card
+        // and every card above it over everything else
+        const group = this.dragGroup(data);
+        group.forEach((sprite, i) => {
+          this.tweens.killTweensOf(sprite);
+          const spriteData = sprite.getData('cardData') as CardSpriteData;
+          spriteData.originX = sprite.x;
+          spriteData.originY = sprite.y;
+          spriteData.originDepth = sprite.depth;
+          sprite.setDepth(DRAG_DEPTH + i);
+        });
 
-        // Emit card-pickup event
-        const col = this.gameState.tableau[data.colIndex];
-        const topCard = col.peek();
-        if (topCard) {
+        // Emit card-pickup event for the card being dragged
+        const pickedCard = this.gameState.tableau[data.colIndex].toArray()[data.rowIndex];
+        if (pickedCard) {
           this.gameEvents.emit('card-pickup', {
-            suit: topCard.suit,
-            rank: topCard.rank,
+            suit: pickedCard.suit,
+            rank: pickedCard.rank,
             source: 'tableau' as const,
           });
         }
 
         // Show valid drop target highlights
-        this.showValidDropHighlights(data.colIndex);
+        this.showValidDropHighlights(data.colIndex, group.length);
       },
     );
 
@@ -583,8 +679,17 @@ export class BeleagueredCastleScene extends Phaser.Scene {
         dragY: number,
       ) => {
         if (this.interactionBlocked) return;
-        gameObject.x = dragX;
-        gameObject.y = dragY;
+        const data = gameObject.getData('cardData') as CardSpriteData | undefined;
+        if (!data) return;
+
+        // Move the whole group, keeping each card's offset
+        const dx = dragX - data.originX;
+        const dy = dragY - data.originY;
+        for (const sprite of this.dragGroup(data)) {
+          const spriteData = sprite.getData('cardData') as CardSpriteData;
+          sprite.x = spriteData.originX + dx;
+          sprite.y = spriteData.originY + dy;
+        }
       },
     );
 
@@ -636,10 +741,24 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     const fromCol = data.colIndex;
     const zoneType = zone.getData('type') as string;
     const zoneIndex = zone.getData('index') as number;
+    const count = this.gameState.tableau[fromCol].size() - data.rowIndex;
 
     let move: BCMove | null = null;
 
-    if (zoneType === 'foundation') {
+    if (count > 1) {
+      // Dragging a run: only a sequence move onto another column will do
+      if (
+        zoneType === 'tableau' &&
+        validateSequenceMove(this.gameState, fromCol, zoneIndex, count).valid
+      ) {
+        move = {
+          kind: 'tableau-sequence',
+          fromCol,
+          toCol: zoneIndex,
+          count,
+        };
+      }
+    } else if (zoneType === 'foundation') {
       if (isLegalFoundationMove(this.gameState, fromCol, zoneIndex)) {
         move = {
           kind: 'tableau-to-foundation',
@@ -670,9 +789,6 @@ export class BeleagueredCastleScene extends Phaser.Scene {
    * Shared by both drag-and-drop and click-to-move input methods.
    */
   private executePlayerMove(move: BCMove): void {
-    // Build the player move command
-    const playerCmd = new MoveCommand(this.gameState, move);
-
     // Tentatively apply the player move to discover auto-moves
     applyMove(this.gameState, move);
 
@@ -693,17 +809,8 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     }
     undoMove(this.gameState, move);
 
-    // Build the command (compound if auto-moves exist, simple if not)
-    if (autoMoves.length > 0) {
-      const allCmds: Command[] = [playerCmd];
-      for (const am of autoMoves) {
-        allCmds.push(new AutoMoveCommand(this.gameState, am));
-      }
-      const compound = new CompoundCommand(allCmds, playerCmd.description);
-      this.undoManager.execute(compound);
-    } else {
-      this.undoManager.execute(playerCmd);
-    }
+    // One undoable step: the player move plus its auto-moves
+    this.undoManager.execute(new TurnCommand(this.gameState, { move, autoMoves }));
 
     // Record to transcript: player move + auto-moves
     this.recorder.recordMove(move, this.gameState.moveCount);
@@ -722,7 +829,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
           foundationIndex: move.toFoundation,
         });
       }
-    } else if (move.kind === 'tableau-to-tableau') {
+    } else {
       const tCol = this.gameState.tableau[move.toCol];
       const topCard = tCol.peek();
       if (topCard) {
@@ -745,10 +852,12 @@ export class BeleagueredCastleScene extends Phaser.Scene {
 
     // Check for win or no-moves conditions
     this.checkGameEnd();
+    this.saveProgress();
   }
 
   /**
-   * Snap a card sprite back to its original position.
+   * Snap a dragged card (and any cards dragged with it) back to
+   * their original positions.
    */
   private snapBack(sprite: Phaser.GameObjects.Image): void {
     const data = sprite.getData('cardData') as CardSpriteData | undefined;
@@ -757,28 +866,44 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     // Emit snap-back event
     this.gameEvents.emit('card-snap-back', { reason: 'invalid-drop' });
 
-    this.tweens.add({
-      targets: sprite,
-      x: data.originX,
-      y: data.originY,
-      duration: SNAP_BACK_DURATION,
-      ease: 'Power2',
-      onComplete: () => {
-        sprite.setDepth(data.originDepth);
-      },
-    });
+    for (const groupSprite of this.dragGroup(data)) {
+      const spriteData = groupSprite.getData('cardData') as CardSpriteData;
+      this.tweens.add({
+        targets: groupSprite,
+        x: spriteData.originX,
+        y: spriteData.originY,
+        duration: SNAP_BACK_DURATION,
+        ease: 'Power2',
+        onComplete: () => {
+          groupSprite.setDepth(spriteData.originDepth);
+        },
+      });
+    }
   }
 
   /**
-   * Show green highlight rectangles on valid drop targets for the given source column.
+   * The sprites that move together when the given card is dragged:
+   * the card itself and every card above it in its column.
    */
-  private showValidDropHighlights(fromCol: number): void {
+  private dragGroup(data: CardSpriteData): Phaser.GameObjects.Image[] {
+    return this.tableauSprites[data.colIndex].slice(data.rowIndex);
+  }
+
+  /**
+   * Show green highlight rectangles on valid drop targets for the given
+   * source column, when moving `count` cards from its top.
+   */
+  private showValidDropHighlights(fromCol: number, count = 1): void {
     this.clearDropHighlights();
 
     const legalMoves = getLegalMoves(this.gameState);
 
-    // Filter to moves originating from the dragged column
-    const relevantMoves = legalMoves.filter((m) => m.fromCol === fromCol);
+    // Filter to moves of the dragged card(s) from the dragged column
+    const relevantMoves = legalMoves.filter(
+      (m) =>
+        m.fromCol === fromCol &&
+        (m.kind === 'tableau-sequence' ? m.count === count : count === 1),
+    );
 
     for (const move of relevantMoves) {
       if (move.kind === 'tableau-to-foundation') {
@@ -795,7 +920,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
           )
           .setDepth(DRAG_DEPTH - 1);
         this.highlightRects.push(rect);
-      } else if (move.kind === 'tableau-to-tableau') {
+      } else {
         // Highlight the destination column (at the drop position)
         const col = move.toCol;
         const cards = this.gameState.tableau[col].toArray();
@@ -1019,6 +1144,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
         this.recorder.recordUndo(this.gameState.moveCount);
         this.gameEvents.emit('undo', {});
         this.refreshAll();
+        this.saveProgress();
       }
       return;
     }
@@ -1031,6 +1157,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     this.recorder.recordUndo(this.gameState.moveCount);
     this.gameEvents.emit('undo', {});
     this.refreshAll();
+    this.saveProgress();
   }
 
   private performRedo(): void {
@@ -1042,6 +1169,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     this.recorder.recordRedo(this.gameState.moveCount);
     this.gameEvents.emit('redo', {});
     this.refreshAll();
+    this.saveProgress();
   }
 
   private refreshUndoRedoButtons(): void {
@@ -1120,12 +1248,10 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     // Emit auto-complete-start event
     this.gameEvents.emit('auto-complete-start', { cardCount: moves.length });
 
-    // Build compound command of AutoMoveCommands
-    const cmds: Command[] = moves.map(
-      (m) => new AutoMoveCommand(this.gameState, m),
+    // One undoable step of AutoMoveCommands
+    this.undoManager.execute(
+      new TurnCommand(this.gameState, { move: null, autoMoves: moves }),
     );
-    const compound = new CompoundCommand(cmds, 'Auto-complete');
-    this.undoManager.execute(compound);
 
     // Refresh display state immediately (all cards moved logically)
     this.refreshAll();
@@ -1263,8 +1389,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     );
     newGameBtn.on('pointerdown', () => {
       this.gameEvents.emit('ui-interaction', { elementId: 'new-game', action: 'click' });
-      this.seed = Date.now();
-      this.scene.restart();
+      this.scene.restart({ seed: randomSeed(), variant: this.variantName });
     });
     overlayObjects.push(newGameBtn);
 
@@ -1274,7 +1399,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     );
     restartBtn.on('pointerdown', () => {
       this.gameEvents.emit('ui-interaction', { elementId: 'restart', action: 'click' });
-      this.scene.restart();
+      this.scene.restart({ seed: this.seed, variant: this.variantName });
     });
     overlayObjects.push(restartBtn);
 
@@ -1331,6 +1456,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
       this.resumeTimer();
       this.undoManager.undo();
       this.refreshAll();
+      this.saveProgress();
     });
     overlayObjects.push(undoBtn);
 
@@ -1340,8 +1466,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     );
     noMovesNewGameBtn.on('pointerdown', () => {
       this.gameEvents.emit('ui-interaction', { elementId: 'new-game', action: 'click' });
-      this.seed = Date.now();
-      this.scene.restart();
+      this.scene.restart({ seed: randomSeed(), variant: this.variantName });
     });
     overlayObjects.push(noMovesNewGameBtn);
 
@@ -1351,7 +1476,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     );
     noMovesRestartBtn.on('pointerdown', () => {
       this.gameEvents.emit('ui-interaction', { elementId: 'restart', action: 'click' });
-      this.scene.restart();
+      this.scene.restart({ seed: this.seed, variant: this.variantName });
     });
     overlayObjects.push(noMovesRestartBtn);
 
@@ -1450,6 +1575,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
 
     // Initialise the sprite arrays
     this.tableauSprites = [];
+    this.cardSprites = new Map();
     for (let col = 0; col < TABLEAU_COUNT; col++) {
       this.tableauSprites.push([]);
     }
@@ -1479,6 +1605,7 @@ export class BeleagueredCastleScene extends Phaser.Scene {
           .setDepth(dealIndex); // later cards on top during animation
 
         this.tableauSprites[col].push(sprite);
+        this.cardSprites.set(card.id, sprite);
 
         // Stagger the animation for each card
         const delay = dealIndex * DEAL_STAGGER;
@@ -1528,6 +1655,13 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     this.dealComplete = true;
     this.makeDraggable();
     this.refreshUndoRedoButtons();
+
+    // A resumed game picks up its clock and may already be over
+    if (this.elapsedSeconds > 0 || this.undoManager.canUndo() || this.undoManager.canRedo()) {
+      this.timerStarted = true;
+      this.startTimer();
+      this.checkGameEnd();
+    }
   }
 
   /**
@@ -1535,35 +1669,40 @@ export class BeleagueredCastleScene extends Phaser.Scene {
    * Clears previous draggable state first.
    */
   private makeDraggable(): void {
-    // Disable all existing interactive/draggable states
+    // Disable all existing interactive/draggable states (sprites are
+    // reused across refreshes, so drop any old click handlers too)
     for (const col of this.tableauSprites) {
       for (const sprite of col) {
         sprite.disableInteractive();
+        sprite.off('pointerdown');
       }
     }
 
-    // Enable drag only on top cards
+    // Enable drag on every card of the movable run at the top of each
+    // column; lower cards in the run drag the cards above them along
     for (let col = 0; col < TABLEAU_COUNT; col++) {
       const colSprites = this.tableauSprites[col];
       if (colSprites.length === 0) continue;
 
-      const topSprite = colSprites[colSprites.length - 1];
-      const rowIndex = colSprites.length - 1;
-
-      topSprite.setInteractive({ useHandCursor: true, draggable: true });
+      const run = movableRunAt(this.gameState, col);
+      for (let rowIndex = colSprites.length - run; rowIndex < colSprites.length; rowIndex++) {
+        const sprite = colSprites[rowIndex];
+        sprite.setInteractive({ useHandCursor: true, draggable: true });
+
+        // Attach metadata for drag handlers
+        const cardData: CardSpriteData = {
+          colIndex: col,
+          rowIndex,
+          originX: sprite.x,
+          originY: sprite.y,
+          originDepth: sprite.depth,
+        };
+        sprite.setData('cardData', cardData);
+      }
 
       // Click-to-move: clicking a top card selects or acts on it
+      const topSprite = colSprites[colSprites.length - 1];
       topSprite.on('pointerdown', () => this.handleCardClick(col));
-
-      // Attach metadata for drag handlers
-      const cardData: CardSpriteData = {
-        colIndex: col,
-        rowIndex,
-        originX: topSprite.x,
-        originY: topSprite.y,
-        originDepth: topSprite.depth,
-      };
-      topSprite.setData('cardData', cardData);
     }
   }
 
@@ -1582,15 +1721,15 @@ export class BeleagueredCastleScene extends Phaser.Scene {
 
   /**
    * Refresh the entire tableau display to match the current game state.
-   * Destroys and re-creates sprites.
+   *
+   * Sprites are pooled by card id: a card still on the tableau keeps its
+   * sprite and glides to its new position, sprites of cards that left
+   * the tableau are destroyed, and cards new to the tableau (e.g. after
+   * undoing a foundation move) get fresh sprites.
    */
   refreshTableau(): void {
-    // Destroy existing sprites
-    for (const col of this.tableauSprites) {
-      for (const sprite of col) {
-        sprite.destroy();
-      }
-    }
+    const stale = new Map(this.cardSprites);
+    this.cardSprites = new Map();
     this.tableauSprites = [];
 
     for (let col = 0; col < TABLEAU_COUNT; col++) {
@@ -1600,30 +1739,98 @@ export class BeleagueredCastleScene extends Phaser.Scene {
       for (let row = 0; row < cards.length; row++) {
         const card = cards[row];
         const x = this.tableauColumnX(col);
-        const y = this.tableauCardY(row, cards.length);        const texture = cardTextureKey(card.rank, card.suit);
+        const y = this.tableauCardY(row, cards.length);
+        const texture = cardTextureKey(card.rank, card.suit);
+
+        let sprite = stale.get(card.id);
+        if (sprite) {
+          stale.delete(card.id);
+          this.tweens.killTweensOf(sprite);
+          sprite.setTexture(texture).setAlpha(1).clearTint().setDepth(row);
+          if (sprite.x !== x || sprite.y !== y) {
+            this.tweens.add({
+              targets: sprite,
+              x,
+              y,
+              duration: MOVE_DURATION,
+              ease: 'Power2',
+            });
+          }
+        } else {
+          sprite = this.add.image(x, y, texture).setDepth(row);
+        }
 
-        const sprite = this.add
-          .image(x, y, texture)
-          .setDepth(row);
+        this.cardSprites.set(card.id, sprite);
         sprites.push(sprite);
       }
 
       this.tableauSprites.push(sprites);
     }
+
+    for (const sprite of stale.values()) {
+      this.tweens.killTweensOf(sprite);
+      sprite.destroy();
+    }
   }
 
   /**
-   * Refresh the HUD (move counter, timer, seed, undo/redo).
+   * Refresh the HUD (move counter, timer, deal code, undo/redo).
    */
   refreshHUD(): void {
     this.moveCountText.setText(`Moves: ${this.gameState.moveCount}`);
-    this.seedText.setText(`Seed: ${this.gameState.seed}`);
+    this.seedText.setText(dealCodeText(this.gameState.seed));
+  }
+
+  // ── Saved game ──────────────────────────────────────────
+
+  /**
+   * Rebuild the game requested by a `{ resume }` payload, with its undo
+   * history. A save that no longer loads is discarded.
+   *
+   * @returns Whether a saved game was resumed.
+   */
+  private resumeSavedGame(): boolean {
+    const saved = this.resumedSave;
+    this.resumedSave = null;
+    if (!saved) return false;
+    try {
+      const state = deserializeBCState(saved.state);
+      this.undoManager.restoreHistory(
+        saved.history,
+        (turn) => new TurnCommand(state, turn),
+      );
+      this.gameState = state;
+    } catch (err) {
+      console.warn('[BeleagueredCastleScene] Discarding saved game that failed to load:', err);
+      savedGames.clear(BC_SAVE_KEY);
+      this.undoManager.clear();
+      return false;
+    }
+    this.seed = this.gameState.seed;
+    this.variantName = saved.variantName;
+    this.elapsedSeconds = saved.elapsedSeconds;
+    return true;
+  }
+
+  /** Save the game and its undo history; a won game's save is cleared. */
+  private saveProgress(): void {
+    if (isWon(this.gameState)) {
+      savedGames.clear(BC_SAVE_KEY);
+      return;
+    }
+    const saved: SavedBCGame = {
+      state: serializeBCState(this.gameState),
+      history: this.undoManager.saveHistory((cmd) => (cmd as TurnCommand).turn),
+      elapsedSeconds: this.elapsedSeconds,
+      ...(this.variantName ? { variantName: this.variantName } : {}),
+    };
+    savedGames.save(BC_SAVE_KEY, saved);
   }
 
   // ── Timer ───────────────────────────────────────────────
 
   private startTimer(): void {
-    this.elapsedSeconds = 0;
+    this.refreshTimerText();
     this.timerEvent = this.time.addEvent({
       delay: 1000,
       callback: this.updateTimer,
@@ -1634,6 +1841,10 @@ export class BeleagueredCastleScene extends Phaser.Scene {
 
   private updateTimer(): void {
     this.elapsedSeconds++;
+    this.refreshTimerText();
+  }
+
+  private refreshTimerText(): void {
     const minutes = Math.floor(this.elapsedSeconds / 60);
     const seconds = this.elapsedSeconds % 60;
     const mm = String(minutes).padStart(2, '0');
@@ -1717,6 +1928,10 @@ export class BeleagueredCastleScene extends Phaser.Scene {
     // Sound system cleanup
     this.soundManager?.destroy();
     this.soundManager = null;
+    this.eventRecorder?.stop().catch((err) => {
+      console.error('[BeleagueredCastleScene] Failed to save the event log:', err);
+    });
+    this.eventRecorder = null;
     this.eventBridge?.destroy();
     this.gameEvents?.removeAllListeners();
     this.settingsPanel?.destroy();
@@ -1,175 +1,213 @@
 /**
- * AI strategies for 9-Card Golf.
+ * AI strategies for Golf.
  *
  * Provides:
- *   - AiStrategy interface: chooseAction(playerState, shared, rng)
- *   - RandomStrategy: uniformly random legal action
- *   - GreedyStrategy: minimizes visible score after the move
+ *   - AiStrategy interface: chooseDrawSource(view, rng), then
+ *     chooseMove(view, drawnCard, rng) once the drawn card is seen
+ *   - RandomStrategy: uniformly random legal draw and move
+ *   - GreedyStrategy: minimizes expected score from what the player can see
  *   - AiPlayer: wrapper that binds a strategy and RNG
  */
 
 import type { Card } from '../../src/card-system/Card';
-import type { GolfGrid } from './GolfGrid';
-import { createGolfGrid } from './GolfGrid';
-import type { GolfMove } from './GolfRules';
-import { applyMove } from './GolfRules';
-import { scoreGrid } from './GolfScoring';
-import type {
-  GolfPlayerState,
-  GolfSharedState,
-  GolfAction,
+import type { Observed } from '../../src/core-engine/Zones';
+import { isHiddenCard } from '../../src/core-engine/Zones';
+import { gridColumns, gridIndex, gridShape } from './GolfGrid';
+import type { DrawSource, GolfMove } from './GolfRules';
+import { cancelledInColumn, cardPointValue } from './GolfScoring';
+import type { GolfVariant } from './GolfVariants';
+import type { GolfAction, GolfSession } from './GolfGame';
+import {
+  enumerateObservedDrawSources,
+  enumerateObservedMoves,
+  peekDraw,
 } from './GolfGame';
-import { enumerateLegalMoves, enumerateDrawSources } from './GolfGame';
+import type { GolfObservation } from './GolfObservation';
+import { observeGolf, unseenCards } from './GolfObservation';
 
 // ── Strategy interface ──────────────────────────────────────
 
 /**
- * An AI strategy chooses a GolfAction given the current state.
+ * An AI strategy plays a Golf turn in two steps, as a player does: it
+ * picks a pile to draw from, then, having seen the drawn card, a move.
+ * Both choices are made from what its player may know (see
+ * GolfObservation.ts).
  */
 export interface AiStrategy {
   /** Human-readable strategy name. */
   readonly name: string;
 
   /**
-   * Choose an action (draw source + move) for the current player.
+   * Choose the pile the current player draws from.
    *
-   * @param playerState  The AI player's current state.
-   * @param shared       Shared game state (stock pile, discard pile, round end).
-   * @param rng          Random number generator (for tie-breaking or random choice).
-   * @returns            The chosen action.
+   * @param view  The session as the AI player observes it.
+   * @param rng   Random number generator (for tie-breaking or random choice).
+   * @returns     The chosen draw source.
    */
-  chooseAction(
-    playerState: GolfPlayerState,
-    shared: GolfSharedState,
-    rng: () => number,
-  ): GolfAction;
+  chooseDrawSource(view: GolfObservation, rng: () => number): DrawSource;
+
+  /**
+   * Choose what to do with the drawn card.
+   *
+   * @param view       The session as observed before the draw.
+   * @param drawnCard  The card drawn from the chosen source.
+   * @param rng        Random number generator.
+   * @returns          The chosen move.
+   */
+  chooseMove(view: GolfObservation, drawnCard: Card, rng: () => number): GolfMove;
+}
+
+/** A uniformly random element of a non-empty list. */
+function pickRandom<T>(items: readonly T[], rng: () => number): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+/** The legal moves of the observing player. */
+function legalMovesOf(view: GolfObservation): GolfMove[] {
+  const legalMoves = enumerateObservedMoves(view.grids[view.playerIndex]);
+  if (legalMoves.length === 0) {
+    throw new Error('No legal moves available');
+  }
+  return legalMoves;
 }
 
 // ── RandomStrategy ──────────────────────────────────────────
 
 /**
- * Selects a uniformly random legal action each turn.
+ * Selects a uniformly random draw source and legal move each turn.
  */
 export const RandomStrategy: AiStrategy = {
   name: 'random',
 
-  chooseAction(
-    playerState: GolfPlayerState,
-    shared: GolfSharedState,
-    rng: () => number,
-  ): GolfAction {
-    const drawSources = enumerateDrawSources(shared);
-    const drawSource = drawSources[Math.floor(rng() * drawSources.length)];
-
-    const legalMoves = enumerateLegalMoves(playerState.grid);
-    if (legalMoves.length === 0) {
-      throw new Error('No legal moves available');
-    }
-    const move = legalMoves[Math.floor(rng() * legalMoves.length)];
+  chooseDrawSource(view: GolfObservation, rng: () => number): DrawSource {
+    return pickRandom(enumerateObservedDrawSources(view), rng);
+  },
 
-    return { drawSource, move };
+  chooseMove(view: GolfObservation, _drawnCard: Card, rng: () => number): GolfMove {
+    return pickRandom(legalMovesOf(view), rng);
   },
 };
 
 // ── GreedyStrategy ──────────────────────────────────────────
 
 /**
- * Selects the action that minimizes the visible score after the move.
- *
- * For each draw source, the strategy simulates drawing, then evaluates
- * every legal move by computing the resulting visible score. The action
- * with the lowest resulting score is chosen. Ties are broken randomly.
+ * Minimizes the expected score after the move.
  *
- * Note: For stock draws, the card is unknown until drawn, so the greedy
- * strategy draws first, then evaluates. For discard draws, the card is
- * known (peek at top of discard).
+ * The strategy only uses what the player may know (see
+ * GolfObservation.ts): every face-up grid card, the top of the discard
+ * pile and, once drawn, its own drawn card. Every card it has not seen
+ * -- its own face-down cards and the next stock card -- is treated as
+ * a uniform draw from the unseen part of the deck:
+ *   - The drawn card goes where it leaves the lowest expected score.
+ *   - A discard draw is rated by the best move with the known discard
+ *     card; a stock draw by the best move for each unseen card it could
+ *     turn up, averaged. The lower of the two is drawn.
+ *   - A face-down card counts at the average unseen value, before and
+ *     after being flipped, so flipping is neither rewarded nor punished.
  *
- * Implementation approach: since the greedy strategy needs to actually
- * see the drawn card to evaluate moves, we evaluate two scenarios:
- *   1. What if we draw from stock? (We peek at the stock top to decide.)
- *   2. What if we draw from discard? (We peek at the discard top.)
- * Then pick whichever source + move yields the lowest score.
+ * Ties are broken randomly.
  */
 export const GreedyStrategy: AiStrategy = {
   name: 'greedy',
 
-  chooseAction(
-    playerState: GolfPlayerState,
-    shared: GolfSharedState,
-    rng: () => number,
-  ): GolfAction {
-    const legalMoves = enumerateLegalMoves(playerState.grid);
-    if (legalMoves.length === 0) {
-      throw new Error('No legal moves available');
-    }
-
-    const drawSources = enumerateDrawSources(shared);
-
-    interface Candidate {
-      drawSource: typeof drawSources[number];
-      move: GolfMove;
-      score: number;
-    }
-
-    const candidates: Candidate[] = [];
-
-    for (const drawSource of drawSources) {
-      // Peek at the card we'd draw (without actually drawing)
-      let peekCard: Card | undefined;
-      if (drawSource === 'stock') {
-        // Stock: peek at top (last element)
-        peekCard = shared.stockPile.length > 0
-          ? shared.stockPile[shared.stockPile.length - 1]
-          : undefined;
-      } else {
-        peekCard = shared.discardPile.peek();
-      }
-
-      if (!peekCard) continue;
-
-      for (const move of legalMoves) {
-        const score = simulateMoveScore(playerState.grid, peekCard, move);
-        candidates.push({ drawSource, move, score });
-      }
-    }
-
-    if (candidates.length === 0) {
+  chooseDrawSource(view: GolfObservation, rng: () => number): DrawSource {
+    const unseen = unseenCards(view);
+    const rated = enumerateObservedDrawSources(view).flatMap((source) => {
+      const outcomes =
+        source === 'stock' ? unseen : view.discardTop ? [view.discardTop] : [];
+      if (outcomes.length === 0) return [];
+      const total = outcomes.reduce(
+        (sum, card) => sum + bestMoves(view, card, unseen).score,
+        0,
+      );
+      return [{ item: source, score: total / outcomes.length }];
+    });
+
+    if (rated.length === 0) {
       // Fallback: random
-      return RandomStrategy.chooseAction(playerState, shared, rng);
+      return RandomStrategy.chooseDrawSource(view, rng);
     }
+    return pickRandom(lowestScored(rated), rng);
+  },
 
-    // Find the minimum score
-    const minScore = Math.min(...candidates.map((c) => c.score));
-    const best = candidates.filter((c) => c.score === minScore);
-
-    // Break ties randomly
-    const chosen = best[Math.floor(rng() * best.length)];
-    return { drawSource: chosen.drawSource, move: chosen.move };
+  chooseMove(view: GolfObservation, drawnCard: Card, rng: () => number): GolfMove {
+    return pickRandom(bestMoves(view, drawnCard, unseenCards(view)).moves, rng);
   },
 };
 
+/** The items with the lowest score (allowing for rounding in averages). */
+function lowestScored<T>(rated: readonly { item: T; score: number }[]): T[] {
+  const minScore = Math.min(...rated.map((r) => r.score));
+  return rated.filter((r) => r.score - minScore < 1e-9).map((r) => r.item);
+}
+
 /**
- * Simulate applying a move to a copy of the grid and return the
- * resulting total score (including face-down cards).
+ * The moves that leave the lowest expected score with `drawnCard` in
+ * hand, and that score. Hidden cards count at the average value of the
+ * unseen cards other than the drawn one.
+ */
+function bestMoves(
+  view: GolfObservation,
+  drawnCard: Card,
+  unseen: readonly Card[],
+): { moves: GolfMove[]; score: number } {
+  const { variant } = view;
+  const grid = view.grids[view.playerIndex];
+  const hiddenValue = averageValue(
+    unseen.filter((card) => card.id !== drawnCard.id),
+    variant,
+  );
+  const rated = legalMovesOf(view).map((move) => ({
+    item: move,
+    score: simulateMoveScore(grid, drawnCard, move, hiddenValue, variant),
+  }));
+  const moves = lowestScored(rated);
+  return { moves, score: Math.min(...rated.map((r) => r.score)) };
+}
+
+/** Mean Golf value of a set of cards (0 if there are none). */
+function averageValue(cards: readonly Card[], variant: GolfVariant): number {
+  if (cards.length === 0) return 0;
+  return (
+    cards.reduce((sum, c) => sum + cardPointValue(c.rank, variant), 0) /
+    cards.length
+  );
+}
+
+/**
+ * Expected score of an observed grid after applying a move.
  *
- * Uses scoreGrid (not scoreVisibleCards) so that revealing a face-down
- * card doesn't artificially penalize the evaluation -- the hidden card's
- * value is always counted either way.
+ * A swap places the drawn card face-up. Discard-and-flip reveals a card
+ * the player has not seen, so it stays hidden in the estimate. Hidden
+ * cards count as `hiddenValue`, and a column or pair only scores 0 when
+ * its cards are known to match.
  */
 function simulateMoveScore(
-  grid: GolfGrid,
+  grid: readonly Observed<Card>[],
   drawnCard: Card,
   move: GolfMove,
+  hiddenValue: number,
+  variant: GolfVariant,
 ): number {
-  // Deep-copy the grid (cards are small objects)
-  const gridCopy = createGolfGrid(
-    grid.map((c) => ({ ...c })),
-  );
-  // Deep-copy the drawn card
-  const cardCopy: Card = { ...drawnCard };
+  const after = [...grid];
+  if (move.kind === 'swap') {
+    after[gridIndex(move.row, move.col, gridShape(grid))] = drawnCard;
+  }
 
-  applyMove(gridCopy, cardCopy, move);
-  return scoreGrid(gridCopy);
+  let total = 0;
+  for (const column of gridColumns(after)) {
+    const cancelled = cancelledInColumn(
+      column.map((card) => (isHiddenCard(card) ? null : card)),
+      variant,
+    );
+    column.forEach((card, i) => {
+      if (cancelled.has(i)) return;
+      total += isHiddenCard(card)
+        ? hiddenValue
+        : cardPointValue(card.rank, variant);
+    });
+  }
+  return total;
 }
 
 // ── AiPlayer ────────────────────────────────────────────────
@@ -187,12 +225,22 @@ export class AiPlayer {
   }
 
   /**
-   * Choose an action for the current game state.
+   * Choose an action for a player from that player's observation.
+   * The strategy picks a pile first and is only then shown the card
+   * drawn from it.
    */
-  chooseAction(
-    playerState: GolfPlayerState,
-    shared: GolfSharedState,
-  ): GolfAction {
-    return this.strategy.chooseAction(playerState, shared, this.rng);
+  chooseAction(session: GolfSession, playerIndex: number): GolfAction {
+    const view = observeGolf(session, playerIndex);
+    const drawSource = this.strategy.chooseDrawSource(view, this.rng);
+    const drawnCard = peekDraw(session.shared, drawSource);
+    if (!drawnCard) {
+      throw new Error(`Cannot draw from an empty ${drawSource} pile`);
+    }
+    const move = this.strategy.chooseMove(
+      view,
+      { ...drawnCard, faceUp: true },
+      this.rng,
+    );
+    return { drawSource, move };
   }
 }
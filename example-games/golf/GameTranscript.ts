@@ -1,30 +1,49 @@
 /**
  * Game transcript types and recorder for 9-Card Golf.
  *
- * Records a replay-ready JSON transcript capturing all turns,
- * actions, and board states for debugging, regression testing,
- * and the Visual Replay Dev Tool.
+ * Records a replay-ready JSON transcript (the shared format of
+ * src/core-engine/Transcript.ts) capturing all turns, actions, and
+ * table states for debugging, regression testing, and the Visual
+ * Replay Dev Tool.
  *
  * The recorder hooks into the game loop: call `recordTurn()`
  * after each `executeTurn()`, and `finalize()` after the game ends.
+ * Transcripts saved in the original Golf format (version 1) are
+ * upgraded with `migrateGolfTranscriptV1()`.
  */
 
 import type { GolfGrid } from './GolfGrid';
 import type { DrawSource, GolfMove } from './GolfRules';
 import type { GolfSession, TurnResult } from './GolfGame';
 import { scoreGrid, scoreVisibleCards } from './GolfScoring';
+import type { GolfVariant } from './GolfVariants';
+import { STANDARD_GOLF_VARIANT } from './GolfVariants';
 import { snapshotCard } from '../../src/core-engine/TranscriptTypes';
 import type { CardSnapshot } from '../../src/core-engine/TranscriptTypes';
+import type {
+  Transcript,
+  TranscriptAction,
+  TranscriptPlayer,
+} from '../../src/core-engine/Transcript';
+import {
+  TRANSCRIPT_VERSION,
+  createTranscript,
+  finalizeTranscript,
+  recordAction,
+} from '../../src/core-engine/Transcript';
 
 // Re-export so existing consumers that import from this module still work.
 export { snapshotCard };
 export type { CardSnapshot };
 
+/** Game type of Golf transcripts. */
+export const GOLF_TRANSCRIPT_TYPE = 'golf';
+
 // ── Snapshot types ──────────────────────────────────────────
 
 /** Snapshot of a player's board state at a point in time. */
 export interface BoardSnapshot {
-  /** The player's 3x3 grid (9 cards, row-major). */
+  /** The player's grid (9 cards by default, row-major). */
   grid: CardSnapshot[];
   /** Number of face-up cards. */
   faceUpCount: number;
@@ -34,14 +53,20 @@ export interface BoardSnapshot {
   totalScore: number;
 }
 
-/** Record of a single turn. */
-export interface TurnRecord {
-  /** Turn number (0-based). */
-  turnNumber: number;
-  /** Index of the player who acted. */
-  playerIndex: number;
-  /** Player name. */
-  playerName: string;
+/** Snapshot of the whole table: every board plus the piles. */
+export interface GolfTableSnapshot {
+  /** Board state of all players. */
+  boardStates: BoardSnapshot[];
+  /** Top card of the discard pile. */
+  discardTop: CardSnapshot | null;
+  /** Number of cards remaining in the stock pile. */
+  stockRemaining: number;
+}
+
+// ── Transcript types ────────────────────────────────────────
+
+/** A turn as recorded: the draw, the move and the discard. */
+export interface GolfTurnAction {
   /** Where the card was drawn from. */
   drawSource: DrawSource;
   /** The card that was drawn. */
@@ -50,30 +75,10 @@ export interface TurnRecord {
   move: GolfMove;
   /** The card that went to the discard pile. */
   discardedCard: CardSnapshot;
-  /** Board state of all players AFTER the move. */
-  boardStates: BoardSnapshot[];
-  /** Top card of the discard pile after the move. */
-  discardTop: CardSnapshot | null;
-  /** Number of cards remaining in the stock pile. */
-  stockRemaining: number;
   /** Whether the round ended after this turn. */
   roundEnded: boolean;
 }
 
-/** Metadata about the game. */
-export interface GameMetadata {
-  /** ISO 8601 timestamp of game start. */
-  startedAt: string;
-  /** ISO 8601 timestamp of game end (set on finalize). */
-  endedAt: string;
-  /** Player info. */
-  players: Array<{
-    name: string;
-    isAI: boolean;
-    strategy?: string;
-  }>;
-}
-
 /** Final results after the game ends. */
 export interface GameResults {
   /** Final scores per player. */
@@ -84,18 +89,57 @@ export interface GameResults {
   winnerName: string;
 }
 
-/** A complete game transcript. */
-export interface GameTranscript {
-  /** Format version for future compatibility. */
+/**
+ * Golf's part of the shared transcript format. Every action carries
+ * the table state after the turn.
+ */
+export interface GolfTranscriptFormat {
+  action: GolfTurnAction;
+  snapshot: GolfTableSnapshot;
+  variant: GolfVariant;
+  result: GameResults;
+}
+
+/** A complete Golf game transcript. */
+export type GameTranscript = Transcript<GolfTranscriptFormat>;
+
+/** A recorded Golf turn. */
+export type GolfTranscriptAction = TranscriptAction<GolfTranscriptFormat>;
+
+// ── Version 1 format ────────────────────────────────────────
+
+/** Record of a single turn (version 1). */
+export interface TurnRecord extends GolfTurnAction, GolfTableSnapshot {
+  /** Turn number (0-based). */
+  turnNumber: number;
+  /** Index of the player who acted. */
+  playerIndex: number;
+  /** Player name. */
+  playerName: string;
+}
+
+/** Metadata about the game (version 1). */
+export interface GameMetadata {
+  /** ISO 8601 timestamp of game start. */
+  startedAt: string;
+  /** ISO 8601 timestamp of game end (set on finalize). */
+  endedAt: string;
+  /** Player info. */
+  players: TranscriptPlayer[];
+  /**
+   * House rules the game was played under. Transcripts recorded before
+   * variants existed omit it, and ones recorded before the grid options
+   * omit those; missing rules are the standard ones.
+   */
+  variant?: Partial<GolfVariant>;
+}
+
+/** A Golf transcript in the original format (version 1). */
+export interface GolfTranscriptV1 {
   version: 1;
-  /** Game metadata. */
   metadata: GameMetadata;
-  /** Board state at the start (after deal + initial reveal, before first turn). */
-  initialState: {
-    boardStates: BoardSnapshot[];
-    discardTop: CardSnapshot | null;
-    stockRemaining: number;
-  };
+  /** Table state at the start (after deal + initial reveal, before first turn). */
+  initialState: GolfTableSnapshot;
   /** All turns in order. */
   turns: TurnRecord[];
   /** Final results (set on finalize). */
@@ -105,12 +149,61 @@ export interface GameTranscript {
 // ── Helpers ─────────────────────────────────────────────────
 
 /** Create a board snapshot for a player's grid. */
-export function snapshotBoard(grid: GolfGrid): BoardSnapshot {
+export function snapshotBoard(
+  grid: GolfGrid,
+  variant: GolfVariant = STANDARD_GOLF_VARIANT,
+): BoardSnapshot {
   return {
     grid: grid.map(snapshotCard),
     faceUpCount: grid.filter((c) => c.faceUp).length,
-    visibleScore: scoreVisibleCards(grid),
-    totalScore: scoreGrid(grid),
+    visibleScore: scoreVisibleCards(grid, variant),
+    totalScore: scoreGrid(grid, variant),
+  };
+}
+
+/** Create a snapshot of every board and both piles. */
+export function snapshotTable(session: GolfSession): GolfTableSnapshot {
+  const { gameState, shared } = session;
+  const discardTop = shared.discardPile.peek();
+  return {
+    boardStates: gameState.playerStates.map((ps) =>
+      snapshotBoard(ps.grid, shared.variant),
+    ),
+    discardTop: discardTop ? snapshotCard(discardTop) : null,
+    stockRemaining: shared.stockPile.length,
+  };
+}
+
+/**
+ * Upgrade a version 1 Golf transcript to the shared format. Version 1
+ * did not record the seed, so the upgraded transcript's seed is null.
+ */
+export function migrateGolfTranscriptV1(v1: GolfTranscriptV1): GameTranscript {
+  return {
+    version: TRANSCRIPT_VERSION,
+    gameType: GOLF_TRANSCRIPT_TYPE,
+    variant: { ...STANDARD_GOLF_VARIANT, ...v1.metadata.variant },
+    seed: null,
+    players: v1.metadata.players.map((p) => ({ ...p })),
+    startedAt: v1.metadata.startedAt,
+    endedAt: v1.metadata.endedAt,
+    initialSnapshot: v1.initialState,
+    actions: v1.turns.map((turn) => ({
+      playerIndex: turn.playerIndex,
+      action: {
+        drawSource: turn.drawSource,
+        drawnCard: turn.drawnCard,
+        move: turn.move,
+        discardedCard: turn.discardedCard,
+        roundEnded: turn.roundEnded,
+      },
+      snapshot: {
+        boardStates: turn.boardStates,
+        discardTop: turn.discardTop,
+        stockRemaining: turn.stockRemaining,
+      },
+    })),
+    result: v1.results,
   };
 }
 
@@ -130,37 +223,42 @@ export class TranscriptRecorder {
   private readonly transcript: GameTranscript;
   private readonly session: GolfSession;
 
+  /**
+   * @param resumed  Transcript recorded so far for this hole, e.g. one
+   *                 saved with the match. Recording continues on a copy.
+   * @throws If `resumed` is not a Golf transcript of this deal.
+   */
   constructor(
     session: GolfSession,
     playerStrategies?: Array<string | undefined>,
+    resumed?: GameTranscript,
   ) {
     this.session = session;
 
+    if (resumed) {
+      if (
+        resumed.gameType !== GOLF_TRANSCRIPT_TYPE ||
+        resumed.seed !== session.seed
+      ) {
+        throw new Error('Transcript does not belong to the hole in play');
+      }
+      this.transcript = JSON.parse(JSON.stringify(resumed)) as GameTranscript;
+      return;
+    }
+
     const players = session.gameState.players.map((p, i) => ({
       name: p.name,
       isAI: p.isAI,
       strategy: playerStrategies?.[i],
     }));
 
-    this.transcript = {
-      version: 1,
-      metadata: {
-        startedAt: new Date().toISOString(),
-        endedAt: '',
-        players,
-      },
-      initialState: {
-        boardStates: session.gameState.playerStates.map((ps) =>
-          snapshotBoard(ps.grid),
-        ),
-        discardTop: session.shared.discardPile.peek()
-          ? snapshotCard(session.shared.discardPile.peek()!)
-          : null,
-        stockRemaining: session.shared.stockPile.length,
-      },
-      turns: [],
-      results: null,
-    };
+    this.transcript = createTranscript<GolfTranscriptFormat>({
+      gameType: GOLF_TRANSCRIPT_TYPE,
+      variant: { ...session.shared.variant },
+      seed: session.seed,
+      players,
+      initialSnapshot: snapshotTable(session),
+    });
   }
 
   /**
@@ -169,31 +267,18 @@ export class TranscriptRecorder {
    * Call this immediately after `executeTurn()`.
    */
   recordTurn(turnResult: TurnResult, drawSource: DrawSource): void {
-    const { gameState, shared } = this.session;
-
-    const boardStates = gameState.playerStates.map((ps) =>
-      snapshotBoard(ps.grid),
+    recordAction(
+      this.transcript,
+      turnResult.playerIndex,
+      {
+        drawSource,
+        drawnCard: snapshotCard(turnResult.drawnCard),
+        move: turnResult.move,
+        discardedCard: snapshotCard(turnResult.discardedCard),
+        roundEnded: turnResult.roundEnded,
+      },
+      snapshotTable(this.session),
     );
-
-    const discardTop = shared.discardPile.peek()
-      ? snapshotCard(shared.discardPile.peek()!)
-      : null;
-
-    const record: TurnRecord = {
-      turnNumber: this.transcript.turns.length,
-      playerIndex: turnResult.playerIndex,
-      playerName: gameState.players[turnResult.playerIndex].name,
-      drawSource,
-      drawnCard: snapshotCard(turnResult.drawnCard),
-      move: turnResult.move,
-      discardedCard: snapshotCard(turnResult.discardedCard),
-      boardStates,
-      discardTop,
-      stockRemaining: shared.stockPile.length,
-      roundEnded: turnResult.roundEnded,
-    };
-
-    this.transcript.turns.push(record);
   }
 
   /**
@@ -203,23 +288,19 @@ export class TranscriptRecorder {
    * @returns The complete transcript.
    */
   finalize(): GameTranscript {
-    this.transcript.metadata.endedAt = new Date().toISOString();
-
     const scores = this.session.gameState.playerStates.map((ps) =>
-      scoreGrid(ps.grid),
+      scoreGrid(ps.grid, this.session.shared.variant),
     );
 
     // Lowest score wins
     const minScore = Math.min(...scores);
     const winnerIndex = scores.indexOf(minScore);
 
-    this.transcript.results = {
+    return finalizeTranscript(this.transcript, {
       scores,
       winnerIndex,
       winnerName: this.session.gameState.players[winnerIndex].name,
-    };
-
-    return this.transcript;
+    });
   }
 
   /**
@@ -8,20 +8,44 @@
  *   - Game setup (deal, initial reveal)
  *   - Legal move enumeration
  *   - Turn execution (draw + move + round-end check)
+ *   - GolfRuleSet: the rules as a generic RuleSet (validate/apply/undo)
+ *   - GolfCardConservation: card locations for the conservation checker
  */
 
 import type { Card } from '../../src/card-system/Card';
 import type { GameState } from '../../src/core-engine/GameState';
 import { createGameState } from '../../src/core-engine/GameState';
-import {
-  advanceTurn,
-  startGame,
-  endGame,
-} from '../../src/core-engine/TurnSequencer';
-import { createStandardDeck, shuffle, drawOrThrow } from '../../src/card-system/Deck';
+import type { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import { startGame, endGame } from '../../src/core-engine/TurnSequencer';
+import { shuffle, drawOrThrow } from '../../src/card-system/Deck';
 import { Pile } from '../../src/card-system/Pile';
+import { revertPhase } from '../../src/core-engine/Phases';
+import { createRng, randomSeed } from '../../src/core-engine/Rng';
+import type { TurnOrderSnapshot } from '../../src/core-engine/TurnOrder';
+import {
+  restoreTurnOrder,
+  snapshotTurnOrder,
+} from '../../src/core-engine/TurnOrder';
+import type { Observed } from '../../src/core-engine/Zones';
+import { isHiddenCard } from '../../src/core-engine/Zones';
+import type { ValidationResult, RuleSet } from '../../src/rule-engine/RuleSet';
+import { invalid } from '../../src/rule-engine/RuleSet';
+import type { CardConservation } from '../../src/rule-engine/CardConservation';
+import {
+  assertCardUniverse,
+  conserveCards,
+} from '../../src/rule-engine/CardConservation';
+import { formatCard } from '../../src/card-system/Notation';
+import { resolveVariant } from '../../src/rule-engine/Variants';
 import type { GolfGrid } from './GolfGrid';
-import { createGolfGrid, GRID_SIZE } from './GolfGrid';
+import {
+  createGolfGrid,
+  getGridCard,
+  gridIndex,
+  gridPosition,
+  gridShape,
+  shapeSize,
+} from './GolfGrid';
 import type {
   GolfMove,
   DrawSource,
@@ -33,7 +57,11 @@ import {
   checkRoundEnd,
   createRoundEndState,
   isLegalMove,
+  validateGolfMove,
 } from './GolfRules';
+import type { GolfObservation } from './GolfObservation';
+import type { GolfVariant } from './GolfVariants';
+import { createGolfDeck, golfGridShape, GOLF_VARIANTS } from './GolfVariants';
 
 // ── Per-player state ────────────────────────────────────────
 
@@ -52,12 +80,16 @@ export interface GolfSharedState {
   stockPile: Card[];
   discardPile: Pile;
   roundEnd: RoundEndState;
+  /** House rules the round is played under. */
+  readonly variant: GolfVariant;
 }
 
 /** A complete Golf game session. */
 export interface GolfSession {
   gameState: GolfGameState;
   shared: GolfSharedState;
+  /** Seed the deal was shuffled from (see {@link GolfSetupOptions.seed}). */
+  readonly seed: number;
 }
 
 // ── Action types ────────────────────────────────────────────
@@ -71,6 +103,26 @@ export interface GolfAction {
   move: GolfMove;
 }
 
+// ── Card conservation ───────────────────────────────────────
+
+/**
+ * Where Golf's cards live: the stock, the discard pile and each
+ * player's grid. A round is played with one standard 52-card deck,
+ * plus its two jokers if the variant calls for them.
+ */
+export const GolfCardConservation: CardConservation<GolfSession, Card> = {
+  name: 'Golf',
+  universe: (session) => createGolfDeck(session.shared.variant),
+  locations: (session) => ({
+    stock: session.shared.stockPile,
+    discard: session.shared.discardPile.toArray(),
+    ...Object.fromEntries(
+      session.gameState.playerStates.map((ps, i) => [`grid-${i}`, ps.grid]),
+    ),
+  }),
+  describe: formatCard,
+};
+
 // ── Setup ───────────────────────────────────────────────────
 
 export interface GolfSetupOptions {
@@ -80,13 +132,25 @@ export interface GolfSetupOptions {
   playerNames?: string[];
   /** Which players are AI-controlled (defaults to [false, true]). */
   isAI?: boolean[];
-  /** RNG for shuffling (default Math.random). */
+  /** Seed for the shuffle (default: a fresh random seed). */
+  seed?: number;
+  /**
+   * RNG for shuffling. Overrides the stream derived from `seed`; the
+   * session still records `seed`, but it no longer reproduces the deal.
+   */
   rng?: () => number;
   /**
-   * Initial reveal positions per player (each must be 3 positions).
-   * If omitted, the first 3 grid positions are revealed by default.
+   * Initial reveal positions per player (each must have as many
+   * positions as the variant's `initialReveals`, 3 by default). If
+   * omitted, the first grid positions in row-major order are revealed.
    */
   initialReveals?: Array<Array<{ row: number; col: number }>>;
+  /** Index of the player who takes the first turn (default 0). */
+  firstPlayerIndex?: number;
+  /** House rules that differ from the standard game (see GolfVariants.ts). */
+  variant?: Partial<GolfVariant>;
+  /** Emitter for the final-round, last-turn and skipped-turn events. */
+  events?: GameEventEmitter;
 }
 
 /**
@@ -98,19 +162,24 @@ export function setupGolfGame(options: GolfSetupOptions = {}): GolfSession {
     playerCount = 2,
     playerNames,
     isAI,
-    rng = Math.random,
+    seed = randomSeed(),
+    rng = createRng(seed),
     initialReveals,
+    firstPlayerIndex,
+    events,
   } = options;
+  const variant = resolveVariant(GOLF_VARIANTS, options.variant);
+  const shape = golfGridShape(variant);
 
-  // Create and shuffle a standard deck
-  const deck = createStandardDeck();
+  // Create and shuffle the deck
+  const deck = createGolfDeck(variant);
   shuffle(deck, rng);
 
-  // Deal 9 cards per player
+  // Deal a grid's worth of cards (9 by default) per player
   const playerGridCards: Card[][] = [];
   for (let p = 0; p < playerCount; p++) {
     const cards: Card[] = [];
-    for (let i = 0; i < GRID_SIZE; i++) {
+    for (let i = 0; i < shapeSize(shape); i++) {
       cards.push(drawOrThrow(deck));
     }
     playerGridCards.push(cards);
@@ -130,18 +199,23 @@ export function setupGolfGame(options: GolfSetupOptions = {}): GolfSession {
     createPlayerState: (i) => ({
       grid: createGolfGrid(playerGridCards[i]),
     }),
+    firstPlayerIndex,
+    events,
   });
 
-  // Initial reveal: each player flips 3 cards
-  const defaultReveal = [
-    { row: 0, col: 0 },
-    { row: 0, col: 1 },
-    { row: 0, col: 2 },
-  ];
+  // Initial reveal: each player flips 3 cards (or the variant's number)
+  const defaultReveal = Array.from(
+    { length: variant.initialReveals },
+    (_, i) => gridPosition(i, shape),
+  );
 
   for (let p = 0; p < playerCount; p++) {
     const positions = initialReveals?.[p] ?? defaultReveal;
-    applyInitialReveal(gameState.playerStates[p].grid, positions);
+    applyInitialReveal(
+      gameState.playerStates[p].grid,
+      positions,
+      variant.initialReveals,
+    );
   }
 
   // Transition to playing
@@ -150,10 +224,16 @@ export function setupGolfGame(options: GolfSetupOptions = {}): GolfSession {
   const shared: GolfSharedState = {
     stockPile: deck,
     discardPile,
-    roundEnd: createRoundEndState(playerCount),
+    roundEnd: createRoundEndState(playerCount, {
+      currentPlayerIndex: gameState.currentPlayerIndex,
+      events,
+    }),
+    variant,
   };
 
-  return { gameState, shared };
+  const session: GolfSession = { gameState, shared, seed };
+  assertCardUniverse(GolfCardConservation, session);
+  return session;
 }
 
 // ── Legal move enumeration ──────────────────────────────────
@@ -164,20 +244,21 @@ export function setupGolfGame(options: GolfSetupOptions = {}): GolfSession {
  */
 export function enumerateLegalMoves(grid: GolfGrid): GolfMove[] {
   const moves: GolfMove[] = [];
+  const shape = gridShape(grid);
 
-  for (let row = 0; row < 3; row++) {
-    for (let col = 0; col < 3; col++) {
-      // Swap is always legal at any position
-      const swap: GolfMove = { kind: 'swap', row, col };
-      if (isLegalMove(grid, swap)) {
-        moves.push(swap);
-      }
+  for (let i = 0; i < grid.length; i++) {
+    const { row, col } = gridPosition(i, shape);
 
-      // Discard-and-flip is only legal at face-down positions
-      const daf: GolfMove = { kind: 'discard-and-flip', row, col };
-      if (isLegalMove(grid, daf)) {
-        moves.push(daf);
-      }
+    // Swap is always legal at any position
+    const swap: GolfMove = { kind: 'swap', row, col };
+    if (isLegalMove(grid, swap)) {
+      moves.push(swap);
+    }
+
+    // Discard-and-flip is only legal at face-down positions
+    const daf: GolfMove = { kind: 'discard-and-flip', row, col };
+    if (isLegalMove(grid, daf)) {
+      moves.push(daf);
     }
   }
 
@@ -197,6 +278,46 @@ export function enumerateDrawSources(shared: GolfSharedState): DrawSource[] {
   return sources;
 }
 
+/**
+ * The card a draw from `source` would take, if any: the top of the
+ * stock or of the discard pile.
+ */
+export function peekDraw(
+  shared: GolfSharedState,
+  source: DrawSource,
+): Card | undefined {
+  return source === 'stock'
+    ? shared.stockPile[shared.stockPile.length - 1]
+    : shared.discardPile.peek();
+}
+
+/**
+ * Enumerate the legal moves on a grid as a player sees it. Face-down
+ * cards are hidden from everyone, so every hidden card may be flipped.
+ * Moves come in the same order as {@link enumerateLegalMoves}.
+ */
+export function enumerateObservedMoves(
+  grid: readonly Observed<Card>[],
+): GolfMove[] {
+  const moves: GolfMove[] = [];
+  const shape = gridShape(grid);
+  grid.forEach((card, i) => {
+    const { row, col } = gridPosition(i, shape);
+    moves.push({ kind: 'swap', row, col });
+    if (isHiddenCard(card)) {
+      moves.push({ kind: 'discard-and-flip', row, col });
+    }
+  });
+  return moves;
+}
+
+/** Enumerate the draw sources available in a player's observation. */
+export function enumerateObservedDrawSources(
+  view: GolfObservation,
+): DrawSource[] {
+  return view.discardTop ? ['stock', 'discard'] : ['stock'];
+}
+
 // ── Turn execution ──────────────────────────────────────────
 
 /** Result of executing a turn. */
@@ -213,6 +334,21 @@ export interface TurnResult {
   playerIndex: number;
 }
 
+/**
+ * Information captured while executing a turn so that the turn can be
+ * reversed exactly by {@link GolfRuleSet}'s `undo`.
+ */
+export interface GolfTurnRecord extends TurnResult {
+  /** Face-up state of the drawn card before it was drawn. */
+  drawnCardWasFaceUp: boolean;
+  /** Face-up state of the targeted grid card before the move. */
+  targetWasFaceUp: boolean;
+  /** Round-end tracking as it was before the turn. */
+  previousRoundEnd: TurnOrderSnapshot;
+  /** Turn counter before the turn. */
+  previousTurnNumber: number;
+}
+
 /**
  * Execute a complete turn for the current player.
  *
@@ -229,10 +365,26 @@ export function executeTurn(
   session: GolfSession,
   action: GolfAction,
 ): TurnResult {
+  return playTurn(session, action);
+}
+
+/**
+ * Execute a turn and record everything needed to undo it.
+ */
+function playTurn(session: GolfSession, action: GolfAction): GolfTurnRecord {
+  return conserveCards(GolfCardConservation, session, action, () =>
+    applyTurn(session, action),
+  );
+}
+
+function applyTurn(session: GolfSession, action: GolfAction): GolfTurnRecord {
   const { gameState, shared } = session;
   const playerIndex = gameState.currentPlayerIndex;
   const playerState = gameState.playerStates[playerIndex];
 
+  const previousRoundEnd = snapshotTurnOrder(shared.roundEnd);
+  const previousTurnNumber = gameState.turnNumber;
+
   // 1. Draw
   let drawnCard: Card;
   if (action.drawSource === 'stock') {
@@ -240,6 +392,10 @@ export function executeTurn(
   } else {
     drawnCard = shared.discardPile.popOrThrow();
   }
+  const drawnCardWasFaceUp = drawnCard.faceUp;
+  const targetWasFaceUp =
+    isLegalMove(playerState.grid, action.move) &&
+    getGridCard(playerState.grid, action.move.row, action.move.col).faceUp;
 
   // 2. Apply move
   const { discardedCard } = applyMove(playerState.grid, drawnCard, action.move);
@@ -247,13 +403,15 @@ export function executeTurn(
   // 3. Discard
   shared.discardPile.push(discardedCard);
 
-  // 4. Check round end
-  const roundEnded = checkRoundEnd(shared.roundEnd, playerIndex, playerState.grid);
+  // 4. Check round end and pass the turn on
+  const nextPlayer = checkRoundEnd(shared.roundEnd, playerIndex, playerState.grid);
+  const roundEnded = nextPlayer === null;
 
   if (roundEnded) {
     endGame(gameState);
   } else {
-    advanceTurn(gameState);
+    gameState.currentPlayerIndex = nextPlayer;
+    gameState.turnNumber++;
   }
 
   return {
@@ -262,5 +420,118 @@ export function executeTurn(
     discardedCard,
     roundEnded,
     playerIndex,
+    drawnCardWasFaceUp,
+    targetWasFaceUp,
+    previousRoundEnd,
+    previousTurnNumber,
   };
 }
+
+/**
+ * Reverse a turn previously executed with {@link GolfRuleSet}.
+ *
+ * The turn must be the most recent one applied to the session.
+ */
+function undoTurn(
+  session: GolfSession,
+  action: GolfAction,
+  record: GolfTurnRecord,
+): void {
+  conserveCards(GolfCardConservation, session, { undo: action }, () =>
+    revertTurn(session, action, record),
+  );
+}
+
+function revertTurn(
+  session: GolfSession,
+  action: GolfAction,
+  record: GolfTurnRecord,
+): void {
+  const { gameState, shared } = session;
+  const grid = gameState.playerStates[record.playerIndex].grid;
+  const idx = gridIndex(action.move.row, action.move.col, gridShape(grid));
+
+  // Take the discarded card back off the discard pile
+  shared.discardPile.popOrThrow();
+
+  if (action.move.kind === 'swap') {
+    record.discardedCard.faceUp = record.targetWasFaceUp;
+    grid[idx] = record.discardedCard;
+  } else {
+    grid[idx].faceUp = record.targetWasFaceUp;
+  }
+
+  // Return the drawn card to where it came from
+  record.drawnCard.faceUp = record.drawnCardWasFaceUp;
+  if (action.drawSource === 'stock') {
+    shared.stockPile.push(record.drawnCard);
+  } else {
+    shared.discardPile.push(record.drawnCard);
+  }
+
+  restoreTurnOrder(shared.roundEnd, record.previousRoundEnd);
+
+  gameState.currentPlayerIndex = record.playerIndex;
+  gameState.turnNumber = record.previousTurnNumber;
+  if (record.roundEnded) {
+    revertPhase(gameState.phases, gameState, 'playing', gameState.events);
+  }
+}
+
+// ── Rule set ────────────────────────────────────────────────
+
+/**
+ * Validate a complete action (draw source + move) for the current player.
+ */
+export function validateAction(
+  session: GolfSession,
+  action: GolfAction,
+): ValidationResult {
+  const { gameState, shared } = session;
+
+  if (gameState.phase !== 'playing') {
+    return invalid(
+      'GAME_NOT_PLAYING',
+      `Cannot take a turn during the "${gameState.phase}" phase`,
+      { phase: gameState.phase },
+    );
+  }
+  if (action.drawSource === 'stock' && shared.stockPile.length === 0) {
+    return invalid('STOCK_EMPTY', 'The stock pile is empty');
+  }
+  if (action.drawSource === 'discard' && shared.discardPile.isEmpty()) {
+    return invalid('DISCARD_EMPTY', 'The discard pile is empty');
+  }
+
+  const playerState = gameState.playerStates[gameState.currentPlayerIndex];
+  return validateGolfMove(playerState.grid, action.move);
+}
+
+/**
+ * 9-Card Golf expressed as a generic {@link RuleSet} over the whole
+ * session. A move is a complete {@link GolfAction}; `apply` executes the
+ * turn for the current player and returns a {@link GolfTurnRecord} that
+ * `undo` uses to restore the session.
+ */
+export const GolfRuleSet: RuleSet<GolfSession, GolfAction, GolfTurnRecord> = {
+  name: 'Golf',
+  validate: validateAction,
+  apply: playTurn,
+  undo: undoTurn,
+  enumerateMoves(session) {
+    if (session.gameState.phase !== 'playing') return [];
+    const grid =
+      session.gameState.playerStates[session.gameState.currentPlayerIndex].grid;
+    const moves = enumerateLegalMoves(grid);
+    const actions: GolfAction[] = [];
+    for (const drawSource of enumerateDrawSources(session.shared)) {
+      if (drawSource === 'stock' && session.shared.stockPile.length === 0) {
+        continue;
+      }
+      for (const move of moves) {
+        actions.push({ drawSource, move });
+      }
+    }
+    return actions;
+  },
+};
@@ -1,57 +1,129 @@
 /**
- * GolfGrid -- a 3x3 arrangement of cards for 9-Card Golf.
+ * GolfGrid -- the cards a Golf player lays out in front of them.
  *
- * The grid is stored as a flat 9-element array in row-major order:
+ * The standard grid is 3x3 (9-Card Golf); house rules may deal a
+ * 2x3 (6-card) or 2x2 (4-card) grid instead (see GolfVariants.ts).
+ * A grid is stored as a flat array in row-major order, so a 3x3 grid is:
  *   [0][1][2]   (row 0)
  *   [3][4][5]   (row 1)
  *   [6][7][8]   (row 2)
  *
- * Columns are indices {0,3,6}, {1,4,7}, {2,5,8}.
+ * Columns are indices {0,3,6}, {1,4,7}, {2,5,8}. Each layout has a
+ * different number of cards, so a grid's shape follows from its length.
+ *
+ * Grids can be written in card notation, one row per `/`:
+ * `'AS* 2H 3C* / 4D* 5S* 6H* / 7C* 8D* KS'`.
  */
 
 import type { Card } from '../../src/card-system/Card';
+import { formatRows, parseRows } from '../../src/card-system/Notation';
+
+// ── Shapes ──────────────────────────────────────────────────
+
+/** Layouts a grid can be dealt in, as rows x columns. */
+export type GolfGridLayout = '3x3' | '2x3' | '2x2';
+
+/** Every layout, the standard one first. */
+export const GRID_LAYOUTS: readonly GolfGridLayout[] = ['3x3', '2x3', '2x2'];
+
+/** Rows and columns of a grid. */
+export interface GridShape {
+  readonly rows: number;
+  readonly cols: number;
+}
+
+/** The standard 3x3 shape. */
+export const STANDARD_GRID_SHAPE: GridShape = { rows: 3, cols: 3 };
+
+/** The shape of a layout. */
+export function layoutShape(layout: GolfGridLayout): GridShape {
+  const [rows, cols] = layout.split('x').map(Number);
+  return { rows, cols };
+}
 
-export const GRID_ROWS = 3;
-export const GRID_COLS = 3;
-export const GRID_SIZE = GRID_ROWS * GRID_COLS; // 9
+/** Number of cards in a grid of the given shape. */
+export function shapeSize(shape: GridShape): number {
+  return shape.rows * shape.cols;
+}
 
 /**
- * A 3x3 grid of cards. Stored as a 9-element tuple in row-major order.
+ * The shape of a grid with `size` cards.
+ * @throws If no layout has that many cards.
  */
-export type GolfGrid = [Card, Card, Card, Card, Card, Card, Card, Card, Card];
+export function shapeForSize(size: number): GridShape {
+  const layout = GRID_LAYOUTS.find((l) => shapeSize(layoutShape(l)) === size);
+  if (!layout) {
+    const sizes = GRID_LAYOUTS.map((l) => shapeSize(layoutShape(l)));
+    throw new Error(
+      `GolfGrid requires exactly ${sizes.slice(0, -1).join(', ')} or ${sizes[sizes.length - 1]} cards, got ${size}`,
+    );
+  }
+  return layoutShape(layout);
+}
+
+/** The shape of a grid (or an observed grid), from its length. */
+export function gridShape(grid: readonly unknown[]): GridShape {
+  return shapeForSize(grid.length);
+}
+
+// ── Grid ────────────────────────────────────────────────────
+
+/**
+ * A grid of cards in row-major order: 9 cards (3x3), 6 (2x3) or 4 (2x2).
+ */
+export type GolfGrid = Card[];
 
 /**
  * Convert (row, col) to a flat index.
  * @throws If row or col is out of bounds.
  */
-export function gridIndex(row: number, col: number): number {
-  if (row < 0 || row >= GRID_ROWS || col < 0 || col >= GRID_COLS) {
+export function gridIndex(
+  row: number,
+  col: number,
+  shape: GridShape = STANDARD_GRID_SHAPE,
+): number {
+  const { rows, cols } = shape;
+  if (row < 0 || row >= rows || col < 0 || col >= cols) {
     throw new Error(
-      `Grid position (${row}, ${col}) is out of bounds (valid: 0-${GRID_ROWS - 1}, 0-${GRID_COLS - 1})`,
+      `Grid position (${row}, ${col}) is out of bounds (valid: 0-${rows - 1}, 0-${cols - 1})`,
     );
   }
-  return row * GRID_COLS + col;
+  return row * cols + col;
 }
 
 /**
  * Convert a flat index to (row, col).
  */
-export function gridPosition(index: number): { row: number; col: number } {
+export function gridPosition(
+  index: number,
+  shape: GridShape = STANDARD_GRID_SHAPE,
+): { row: number; col: number } {
   return {
-    row: Math.floor(index / GRID_COLS),
-    col: index % GRID_COLS,
+    row: Math.floor(index / shape.cols),
+    col: index % shape.cols,
   };
 }
 
 /**
  * Get the card at a specific grid position.
+ * @throws If the position is outside the grid.
  */
 export function getGridCard(grid: GolfGrid, row: number, col: number): Card {
-  return grid[gridIndex(row, col)];
+  return grid[gridIndex(row, col, gridShape(grid))];
+}
+
+/**
+ * A grid's columns, top to bottom.
+ */
+export function gridColumns<T>(grid: readonly T[]): T[][] {
+  const shape = gridShape(grid);
+  return Array.from({ length: shape.cols }, (_, col) =>
+    Array.from({ length: shape.rows }, (_, row) => grid[gridIndex(row, col, shape)]),
+  );
 }
 
 /**
- * Whether all 9 cards in the grid are face-up.
+ * Whether every card in the grid is face-up.
  */
 export function isGridFullyRevealed(grid: GolfGrid): boolean {
   return grid.every((card) => card.faceUp);
@@ -65,14 +137,38 @@ export function countFaceUp(grid: GolfGrid): number {
 }
 
 /**
- * Create a GolfGrid from an array of exactly 9 cards.
- * @throws If the array does not have exactly 9 elements.
+ * Create a GolfGrid from the cards of one of the layouts (9, 6 or 4).
+ * @throws If no layout has that many cards.
  */
 export function createGolfGrid(cards: Card[]): GolfGrid {
-  if (cards.length !== GRID_SIZE) {
+  shapeForSize(cards.length);
+  return [...cards];
+}
+
+/** Format a grid in card notation, one row per `/`. */
+export function formatGolfGrid(grid: GolfGrid): string {
+  const { rows, cols } = gridShape(grid);
+  const lines: Card[][] = [];
+  for (let row = 0; row < rows; row++) {
+    lines.push(grid.slice(row * cols, (row + 1) * cols));
+  }
+  return formatRows(lines);
+}
+
+/**
+ * Parse a grid from card notation (see {@link formatGolfGrid}).
+ * @throws If the notation is invalid or its rows do not match a layout.
+ */
+export function parseGolfGrid(text: string): GolfGrid {
+  const rows = parseRows(text);
+  const fits = GRID_LAYOUTS.some((layout) => {
+    const shape = layoutShape(layout);
+    return rows.length === shape.rows && rows.every((r) => r.length === shape.cols);
+  });
+  if (!fits) {
     throw new Error(
-      `GolfGrid requires exactly ${GRID_SIZE} cards, got ${cards.length}`,
+      `GolfGrid notation must have 3 rows of 3, 2 rows of 3 or 2 rows of 2 cards: '${text}'`,
     );
   }
-  return [...cards] as GolfGrid;
+  return createGolfGrid(rows.flat());
 }
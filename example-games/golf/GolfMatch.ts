@@ -0,0 +1,191 @@
+/**
+ * Golf matches -- the classic 9-hole game.
+ *
+ * Each hole is a full round of Golf (a {@link GolfSession}).
+ * Hole scores go on a match scorecard (see src/core-engine/Match.ts)
+ * and the lowest total after the last hole wins. The deal rotates each
+ * hole, so the lead passes from player to player.
+ *
+ * Hole 1 is dealt from the match seed itself, so a deal code replays
+ * the same first hole as a single game; later holes are dealt from
+ * seeds derived from it with {@link holeSeed}.
+ */
+
+import type { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import type { PlayerInfo } from '../../src/core-engine/GameState';
+import type { MatchState } from '../../src/core-engine/Match';
+import {
+  createMatch,
+  getFirstPlayerIndex,
+  getRoundNumber,
+  isMatchOver,
+  recordRound,
+} from '../../src/core-engine/Match';
+import { createRng, randomSeed } from '../../src/core-engine/Rng';
+import { resolveVariant } from '../../src/rule-engine/Variants';
+import type { GolfSession } from './GolfGame';
+import { setupGolfGame } from './GolfGame';
+import { scoreGrid } from './GolfScoring';
+import type { GolfVariant } from './GolfVariants';
+import { GOLF_VARIANTS } from './GolfVariants';
+
+/** Holes in a classic Golf match. */
+export const GOLF_MATCH_HOLES = 9;
+
+/** A Golf match in progress. */
+export interface GolfMatch {
+  /** Seed the match was started from (see {@link holeSeed}). */
+  readonly seed: number;
+  /** The players, in seat order. */
+  readonly players: readonly PlayerInfo[];
+  /** Hole scores and the match-end condition. */
+  readonly match: MatchState;
+  /** House rules every hole is played under. */
+  readonly variant: GolfVariant;
+  /** Index of the hole being played or just finished (0-based). */
+  holeIndex: number;
+  /** The hole being played or just finished. */
+  hole: GolfSession;
+}
+
+export interface GolfMatchOptions {
+  /** Number of players (default 2). */
+  playerCount?: number;
+  /** Player names (defaults to "Player 1", "Player 2", etc.). */
+  playerNames?: string[];
+  /** Which players are AI-controlled (defaults to [false, true]). */
+  isAI?: boolean[];
+  /** Seed for the match (default: a fresh random seed). */
+  seed?: number;
+  /** Number of holes (default {@link GOLF_MATCH_HOLES}). */
+  holes?: number;
+  /** House rules that differ from the standard game (see GolfVariants.ts). */
+  variant?: Partial<GolfVariant>;
+  /** Emitter for the first hole's final-round and last-turn events. */
+  events?: GameEventEmitter;
+}
+
+/**
+ * Seed a hole is dealt from: the match seed for the first hole, then a
+ * seed derived from the match seed and the hole index.
+ */
+export function holeSeed(matchSeed: number, holeIndex: number): number {
+  if (holeIndex === 0) return matchSeed;
+  return createRng(matchSeed).fork(`hole-${holeIndex}`).nextInt(4294967296);
+}
+
+/**
+ * Start a match and deal the first hole. Player 0 leads the first
+ * hole; the lead then passes one seat per hole.
+ */
+export function setupGolfMatch(options: GolfMatchOptions = {}): GolfMatch {
+  const {
+    playerCount = 2,
+    playerNames,
+    isAI,
+    seed = randomSeed(),
+    holes = GOLF_MATCH_HOLES,
+    events,
+  } = options;
+
+  const names = playerNames ?? Array.from({ length: playerCount }, (_, i) => `Player ${i + 1}`);
+  const aiFlags = isAI ?? Array.from({ length: playerCount }, (_, i) => i > 0);
+  const players = names.map((name, i) => ({ name, isAI: aiFlags[i] }));
+  const variant = resolveVariant(GOLF_VARIANTS, options.variant);
+
+  const match = createMatch({
+    playerCount,
+    length: { kind: 'rounds', rounds: holes },
+    scoring: 'low-wins',
+    firstDealerIndex: playerCount - 1,
+  });
+
+  return {
+    seed,
+    players,
+    match,
+    variant,
+    holeIndex: 0,
+    hole: dealHole(seed, players, match, variant, events),
+  };
+}
+
+function dealHole(
+  seed: number,
+  players: readonly PlayerInfo[],
+  match: MatchState,
+  variant: GolfVariant,
+  events: GameEventEmitter | undefined,
+): GolfSession {
+  return setupGolfGame({
+    playerCount: players.length,
+    playerNames: players.map((p) => p.name),
+    isAI: players.map((p) => p.isAI),
+    seed: holeSeed(seed, getRoundNumber(match)),
+    firstPlayerIndex: getFirstPlayerIndex(match),
+    variant,
+    events,
+  });
+}
+
+/** Whether the current hole has been played out. */
+export function isHoleOver(golfMatch: GolfMatch): boolean {
+  return golfMatch.hole.gameState.phase === 'ended';
+}
+
+/** Whether the current hole is on the scorecard (see {@link finishHole}). */
+export function isHoleScored(golfMatch: GolfMatch): boolean {
+  return getRoundNumber(golfMatch.match) > golfMatch.holeIndex;
+}
+
+/**
+ * Score the finished hole and add it to the scorecard.
+ *
+ * @returns Each player's score for the hole.
+ * @throws If the hole is still being played or was already scored.
+ */
+export function finishHole(golfMatch: GolfMatch): number[] {
+  if (!isHoleOver(golfMatch)) {
+    throw new Error(`Hole ${golfMatch.holeIndex + 1} is still being played`);
+  }
+  if (isHoleScored(golfMatch)) {
+    throw new Error(`Hole ${golfMatch.holeIndex + 1} has already been scored`);
+  }
+
+  const scores = golfMatch.hole.gameState.playerStates.map((ps) =>
+    scoreGrid(ps.grid, golfMatch.variant),
+  );
+  recordRound(golfMatch.match, scores);
+  return scores;
+}
+
+/**
+ * Deal the next hole.
+ *
+ * @param events  Emitter for the hole's final-round and last-turn events.
+ * @returns The new hole.
+ * @throws If the current hole has not been scored, or the match is over.
+ */
+export function startNextHole(
+  golfMatch: GolfMatch,
+  events?: GameEventEmitter,
+): GolfSession {
+  if (isMatchOver(golfMatch.match)) {
+    throw new Error('Cannot start another hole: the match is over');
+  }
+  if (!isHoleScored(golfMatch)) {
+    throw new Error(
+      `Cannot start the next hole: hole ${golfMatch.holeIndex + 1} has not been scored`,
+    );
+  }
+
+  golfMatch.holeIndex++;
+  golfMatch.hole = dealHole(
+    golfMatch.seed,
+    golfMatch.players,
+    golfMatch.match,
+    golfMatch.variant,
+    events,
+  );
+  return golfMatch.hole;
+}
@@ -0,0 +1,118 @@
+/**
+ * What each Golf player may know about the game.
+ *
+ * Golf's hidden information is described as zones (see
+ * src/core-engine/Zones.ts):
+ *   - stock:      hidden -- only its size is known
+ *   - discard:    top-card-only
+ *   - grid-<n>:   public, except face-down cards, which nobody sees
+ *
+ * {@link observeGolf} projects a session for one player. AI strategies
+ * decide from this view rather than from the raw state, so they cannot
+ * peek at the stock or at their own face-down cards, but they do see
+ * every opponent's face-up cards.
+ */
+
+import type { Card } from '../../src/card-system/Card';
+import type {
+  Observed,
+  ObservedZones,
+  ZoneMap,
+} from '../../src/core-engine/Zones';
+import { isHiddenCard, observeZones } from '../../src/core-engine/Zones';
+import type { GolfSession } from './GolfGame';
+import type { GolfVariant } from './GolfVariants';
+import { createGolfDeck } from './GolfVariants';
+
+// ── Zones ───────────────────────────────────────────────────
+
+/** Zone name of a player's grid. */
+export function gridZoneName(playerIndex: number): string {
+  return `grid-${playerIndex}`;
+}
+
+/** The zones of a Golf session with `playerCount` players. */
+export function golfZones(playerCount: number): ZoneMap<GolfSession, Card> {
+  const zones: ZoneMap<GolfSession, Card> = {
+    stock: {
+      visibility: 'hidden',
+      cards: (session) => session.shared.stockPile,
+    },
+    discard: {
+      visibility: 'top-card-only',
+      cards: (session) => session.shared.discardPile.toArray(),
+    },
+  };
+  const grids: ZoneMap<GolfSession, Card> = Object.fromEntries(
+    Array.from({ length: playerCount }, (_, i) => [
+      gridZoneName(i),
+      {
+        visibility: 'public' as const,
+        owner: i,
+        hideFaceDown: true,
+        cards: (session: GolfSession) => session.gameState.playerStates[i].grid,
+      },
+    ]),
+  );
+  return { ...zones, ...grids };
+}
+
+// ── Observations ────────────────────────────────────────────
+
+/** A Golf session as seen by one player. */
+export interface GolfObservation {
+  /** The observing player. */
+  readonly playerIndex: number;
+  /** Every zone, redacted for the observer. */
+  readonly zones: ObservedZones<Card>;
+  /** Number of cards left in the stock. */
+  readonly stockSize: number;
+  /** Top card of the discard pile, if any. */
+  readonly discardTop: Card | undefined;
+  /**
+   * Every player's grid in row-major order, in the variant's layout,
+   * face-down cards hidden.
+   */
+  readonly grids: readonly (readonly Observed<Card>[])[];
+  /** House rules, which every player knows. */
+  readonly variant: GolfVariant;
+}
+
+/** Project a session for one player. */
+export function observeGolf(
+  session: GolfSession,
+  playerIndex: number,
+): GolfObservation {
+  const playerCount = session.gameState.playerStates.length;
+  const zones = observeZones(session, golfZones(playerCount), playerIndex);
+  const discard = zones['discard'].cards;
+  const top = discard[discard.length - 1];
+  return {
+    playerIndex,
+    zones,
+    stockSize: zones['stock'].size,
+    discardTop: top && !isHiddenCard(top) ? top : undefined,
+    grids: Array.from(
+      { length: playerCount },
+      (_, i) => zones[gridZoneName(i)].cards,
+    ),
+    variant: { ...session.shared.variant },
+  };
+}
+
+// ── Inference ───────────────────────────────────────────────
+
+/**
+ * Cards the observer has not seen: the variant's deck minus every card
+ * visible in any zone, matched by id. These are the candidates for
+ * every hidden card and for the next stock draw.
+ */
+export function unseenCards(view: GolfObservation): Card[] {
+  const seen = new Set<number>();
+  for (const zone of Object.values(view.zones)) {
+    for (const card of zone.cards) {
+      if (!isHiddenCard(card)) seen.add(card.id);
+    }
+  }
+  return createGolfDeck(view.variant).filter((card) => !seen.has(card.id));
+}
@@ -1,6 +1,6 @@
 /**
  * Golf game rules -- turn legality, move application, and
- * end-of-round detection for 9-Card Golf.
+ * end-of-round detection for Golf.
  *
  * Turn flow:
  *   1. Player draws one card from the stock pile OR the discard pile.
@@ -17,12 +17,23 @@
  *
  * Initial reveal:
  *   - At the start of the round, each player flips exactly 3 of
- *     their 9 cards face-up before the first turn.
+ *     their 9 cards face-up before the first turn (house rules may
+ *     change the number and the grid; see GolfVariants.ts).
  */
 
 import type { Card } from '../../src/card-system/Card';
+import type { ValidationResult } from '../../src/rule-engine/RuleSet';
+import { valid, invalid, assertValid } from '../../src/rule-engine/RuleSet';
 import type { GolfGrid } from './GolfGrid';
-import { gridIndex, isGridFullyRevealed } from './GolfGrid';
+import { gridIndex, gridShape, isGridFullyRevealed } from './GolfGrid';
+import type { TurnOrder, TurnOrderOptions } from '../../src/core-engine/TurnOrder';
+import {
+  createTurnOrder,
+  isFinalRound,
+  needsFinalTurn as isFinalTurnOwed,
+  passTurn,
+  triggerFinalRound,
+} from '../../src/core-engine/TurnOrder';
 
 // ── Draw source ─────────────────────────────────────────────
 
@@ -59,53 +70,48 @@ export type GolfMove = SwapMove | DiscardAndFlipMove;
 // ── Legality checks ─────────────────────────────────────────
 
 /**
- * Result of a legality check: either legal or illegal with a reason.
- */
-export type LegalityResult =
-  | { legal: true }
-  | { legal: false; reason: string };
-
-/**
- * Check whether a move is legal given the current grid state.
+ * Validate a move against the current grid state.
  *
  * Rules enforced:
- * - Grid position must be in bounds (0-2 for row and col).
+ * - Grid position must be in bounds for the grid's shape.
  * - For discard-and-flip: the target card must be face-down.
  * - Swap moves are always legal if the position is valid.
  */
-export function checkMoveLegality(
+export function validateGolfMove(
   grid: GolfGrid,
   move: GolfMove,
-): LegalityResult {
+): ValidationResult {
   // Validate grid position (gridIndex throws on out-of-bounds)
   let idx: number;
   try {
-    idx = gridIndex(move.row, move.col);
+    idx = gridIndex(move.row, move.col, gridShape(grid));
   } catch {
-    return {
-      legal: false,
-      reason: `Grid position (${move.row}, ${move.col}) is out of bounds`,
-    };
+    return invalid(
+      'POSITION_OUT_OF_BOUNDS',
+      `Grid position (${move.row}, ${move.col}) is out of bounds`,
+      { row: move.row, col: move.col },
+    );
   }
 
   if (move.kind === 'discard-and-flip') {
     const card = grid[idx];
     if (card.faceUp) {
-      return {
-        legal: false,
-        reason: `Card at (${move.row}, ${move.col}) is already face-up; cannot flip`,
-      };
+      return invalid(
+        'CARD_ALREADY_FACE_UP',
+        `Card at (${move.row}, ${move.col}) is already face-up; cannot flip`,
+        { row: move.row, col: move.col },
+      );
     }
   }
 
-  return { legal: true };
+  return valid();
 }
 
 /**
  * Convenience: returns true if the move is legal.
  */
 export function isLegalMove(grid: GolfGrid, move: GolfMove): boolean {
-  return checkMoveLegality(grid, move).legal;
+  return validateGolfMove(grid, move).valid;
 }
 
 // ── Move application ────────────────────────────────────────
@@ -121,7 +127,7 @@ export interface MoveResult {
 /**
  * Apply a move to the grid, mutating it in place.
  *
- * @param grid       The player's 3x3 grid (mutated).
+ * @param grid       The player's grid (mutated).
  * @param drawnCard  The card the player drew this turn.
  * @param move       The move to apply.
  * @returns          The card to place on the discard pile.
@@ -132,12 +138,9 @@ export function applyMove(
   drawnCard: Card,
   move: GolfMove,
 ): MoveResult {
-  const legality = checkMoveLegality(grid, move);
-  if (!legality.legal) {
-    throw new Error(`Illegal move: ${legality.reason}`);
-  }
+  assertValid(validateGolfMove(grid, move), 'move');
 
-  const idx = gridIndex(move.row, move.col);
+  const idx = gridIndex(move.row, move.col, gridShape(grid));
 
   if (move.kind === 'swap') {
     // Replace grid card with drawn card; old card goes to discard
@@ -157,135 +160,123 @@ export function applyMove(
 // ── Initial reveal ──────────────────────────────────────────
 
 /**
- * Validate that exactly 3 positions are selected for the initial reveal.
+ * Validate the positions chosen for the initial reveal: exactly `count`
+ * distinct, in-bounds, face-down cards.
  *
  * @param positions  Array of {row, col} positions to flip face-up.
- * @returns          LegalityResult.
+ * @param count      Cards each player reveals (default 3).
  */
-export function checkInitialReveal(
+export function validateInitialReveal(
   grid: GolfGrid,
   positions: Array<{ row: number; col: number }>,
-): LegalityResult {
-  if (positions.length !== 3) {
-    return {
-      legal: false,
-      reason: `Must flip exactly 3 cards, got ${positions.length}`,
-    };
+  count: number = 3,
+): ValidationResult {
+  if (positions.length !== count) {
+    return invalid(
+      'WRONG_REVEAL_COUNT',
+      `Must flip exactly ${count} cards, got ${positions.length}`,
+      { count: positions.length, expected: count },
+    );
   }
 
   // Validate all positions are in bounds
+  const shape = gridShape(grid);
   for (const pos of positions) {
     try {
-      gridIndex(pos.row, pos.col);
+      gridIndex(pos.row, pos.col, shape);
     } catch {
-      return {
-        legal: false,
-        reason: `Position (${pos.row}, ${pos.col}) is out of bounds`,
-      };
+      return invalid(
+        'POSITION_OUT_OF_BOUNDS',
+        `Position (${pos.row}, ${pos.col}) is out of bounds`,
+        { row: pos.row, col: pos.col },
+      );
     }
   }
 
   // Check for duplicates
-  const indices = positions.map((p) => gridIndex(p.row, p.col));
+  const indices = positions.map((p) => gridIndex(p.row, p.col, shape));
   const unique = new Set(indices);
-  if (unique.size !== 3) {
-    return { legal: false, reason: 'Duplicate positions in initial reveal' };
+  if (unique.size !== count) {
+    return invalid(
+      'DUPLICATE_POSITION',
+      'Duplicate positions in initial reveal',
+    );
   }
 
   // All positions must be face-down
   for (const idx of indices) {
     if (grid[idx].faceUp) {
       const { row, col } = positions[indices.indexOf(idx)];
-      return {
-        legal: false,
-        reason: `Card at (${row}, ${col}) is already face-up`,
-      };
+      return invalid(
+        'CARD_ALREADY_FACE_UP',
+        `Card at (${row}, ${col}) is already face-up`,
+        { row, col },
+      );
     }
   }
 
-  return { legal: true };
+  return valid();
 }
 
 /**
- * Apply the initial reveal, flipping 3 cards face-up.
+ * Apply the initial reveal, flipping `count` cards (default 3) face-up.
  *
  * @throws If the reveal is not legal.
  */
 export function applyInitialReveal(
   grid: GolfGrid,
   positions: Array<{ row: number; col: number }>,
+  count: number = 3,
 ): void {
-  const legality = checkInitialReveal(grid, positions);
-  if (!legality.legal) {
-    throw new Error(`Illegal initial reveal: ${legality.reason}`);
-  }
+  assertValid(validateInitialReveal(grid, positions, count), 'initial reveal');
 
+  const shape = gridShape(grid);
   for (const pos of positions) {
-    grid[gridIndex(pos.row, pos.col)].faceUp = true;
+    grid[gridIndex(pos.row, pos.col, shape)].faceUp = true;
   }
 }
 
 // ── Round ending ────────────────────────────────────────────
 
 /**
- * State tracking for end-of-round detection.
+ * State tracking for turns and end-of-round detection: a core turn
+ * order with the `others-once` final-round rule.
  */
-export interface RoundEndState {
-  /**
-   * The index of the player who first revealed all cards,
-   * or null if no player has done so yet.
-   */
-  triggeringPlayerIndex: number | null;
-  /**
-   * Set of player indices who have taken their final turn
-   * after the triggering player revealed all cards.
-   */
-  finalTurnsTaken: Set<number>;
-  /** Total number of players. */
-  playerCount: number;
-}
+export type RoundEndState = TurnOrder;
 
 /**
  * Create initial round-end tracking state.
+ *
+ * @param options  Who acts first and the emitter for the final-round
+ *                 and last-turn events.
  */
-export function createRoundEndState(playerCount: number): RoundEndState {
-  return {
-    triggeringPlayerIndex: null,
-    finalTurnsTaken: new Set(),
-    playerCount,
-  };
+export function createRoundEndState(
+  playerCount: number,
+  options: Pick<TurnOrderOptions, 'currentPlayerIndex' | 'events'> = {},
+): RoundEndState {
+  return createTurnOrder({ ...options, playerCount, finalRound: 'others-once' });
 }
 
 /**
  * Check whether a player's grid has triggered end-of-round,
- * and update the round-end state accordingly.
+ * update the round-end state accordingly and pass the turn on.
  *
  * Call this after each player's turn.
  *
- * @returns true if the round has now ended.
+ * @returns The next player, or `null` if the round has now ended.
  */
 export function checkRoundEnd(
   roundEnd: RoundEndState,
   currentPlayerIndex: number,
   grid: GolfGrid,
-): boolean {
-  if (roundEnd.triggeringPlayerIndex === null) {
-    // Check if this player just revealed all cards
-    if (isGridFullyRevealed(grid)) {
-      roundEnd.triggeringPlayerIndex = currentPlayerIndex;
-    }
-    return false;
-  }
-
-  // A player already triggered end-of-round.
-  // Record that the current player (if not the trigger) has taken their final turn.
-  if (currentPlayerIndex !== roundEnd.triggeringPlayerIndex) {
-    roundEnd.finalTurnsTaken.add(currentPlayerIndex);
+): number | null {
+  // The first player to reveal all cards starts the final turns
+  if (!isFinalRound(roundEnd) && isGridFullyRevealed(grid)) {
+    triggerFinalRound(roundEnd, currentPlayerIndex);
   }
 
   // Round ends when all non-triggering players have had their final turn.
-  const expectedFinalTurns = roundEnd.playerCount - 1;
-  return roundEnd.finalTurnsTaken.size >= expectedFinalTurns;
+  return passTurn(roundEnd, currentPlayerIndex);
 }
 
 /**
@@ -293,7 +284,7 @@ export function checkRoundEnd(
  * (a player has revealed all cards, others are taking last turns).
  */
 export function isInFinalTurns(roundEnd: RoundEndState): boolean {
-  return roundEnd.triggeringPlayerIndex !== null;
+  return isFinalRound(roundEnd);
 }
 
 /**
@@ -303,7 +294,5 @@ export function needsFinalTurn(
   roundEnd: RoundEndState,
   playerIndex: number,
 ): boolean {
-  if (roundEnd.triggeringPlayerIndex === null) return false;
-  if (playerIndex === roundEnd.triggeringPlayerIndex) return false;
-  return !roundEnd.finalTurnsTaken.has(playerIndex);
+  return isFinalTurnOwed(roundEnd, playerIndex);
 }
@@ -0,0 +1,135 @@
+/**
+ * Saving and resuming Golf matches (see src/core-engine/SavedGame.ts).
+ *
+ * A saved match is plain JSON: cards as {@link CardSnapshot}s, the
+ * discard pile as an array (bottom to top) and the round-end turn
+ * order as a {@link TurnOrderSnapshot}. Restoring checks the card
+ * universe, so a tampered or corrupt save fails loudly.
+ */
+
+import type { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import type { CardSnapshot } from '../../src/core-engine/TranscriptTypes';
+import { snapshotCard, cardFromSnapshot } from '../../src/core-engine/TranscriptTypes';
+import type { GameStateSnapshot, PlayerInfo } from '../../src/core-engine/GameState';
+import { snapshotGameState, restoreGameState } from '../../src/core-engine/GameState';
+import type { MatchState } from '../../src/core-engine/Match';
+import type { TurnOrderSnapshot } from '../../src/core-engine/TurnOrder';
+import { restoreTurnOrder, snapshotTurnOrder } from '../../src/core-engine/TurnOrder';
+import { Pile } from '../../src/card-system/Pile';
+import { checkCardUniverse } from '../../src/rule-engine/CardConservation';
+import { resolveVariant } from '../../src/rule-engine/Variants';
+import type { GolfSession } from './GolfGame';
+import { GolfCardConservation } from './GolfGame';
+import type { GolfMatch } from './GolfMatch';
+import { createGolfGrid } from './GolfGrid';
+import { createRoundEndState } from './GolfRules';
+import type { GolfVariant } from './GolfVariants';
+import { GOLF_VARIANTS } from './GolfVariants';
+
+/** Save key of Golf in a SavedGameStore. */
+export const GOLF_SAVE_KEY = 'golf';
+
+/** A Golf round as saved. */
+export interface SavedGolfSession {
+  seed: number;
+  /** Each player's grid, in grid order. */
+  gameState: GameStateSnapshot<CardSnapshot[]>;
+  stockPile: CardSnapshot[];
+  /** Discard pile, bottom to top. */
+  discardPile: CardSnapshot[];
+  roundEnd: TurnOrderSnapshot;
+  variant: GolfVariant;
+}
+
+/** A Golf match as saved. */
+export interface SavedGolfMatch {
+  seed: number;
+  players: PlayerInfo[];
+  match: MatchState;
+  variant: GolfVariant;
+  holeIndex: number;
+  hole: SavedGolfSession;
+}
+
+/** Convert a Golf round to plain data. */
+export function serializeGolfSession(session: GolfSession): SavedGolfSession {
+  const { shared } = session;
+  return {
+    seed: session.seed,
+    gameState: snapshotGameState(session.gameState, (ps) => ps.grid.map(snapshotCard)),
+    stockPile: shared.stockPile.map(snapshotCard),
+    discardPile: shared.discardPile.toArray().map(snapshotCard),
+    roundEnd: snapshotTurnOrder(shared.roundEnd),
+    variant: { ...shared.variant },
+  };
+}
+
+/**
+ * Rebuild a Golf round from saved data.
+ *
+ * @throws If the save is inconsistent (invalid variant or phase, or
+ *         cards missing or duplicated).
+ */
+export function deserializeGolfSession(
+  saved: SavedGolfSession,
+  events?: GameEventEmitter,
+): GolfSession {
+  const variant = resolveVariant(GOLF_VARIANTS, saved.variant);
+  const gameState = restoreGameState(
+    saved.gameState,
+    (grid) => ({ grid: createGolfGrid(grid.map(cardFromSnapshot)) }),
+    { events },
+  );
+  const roundEnd = createRoundEndState(gameState.players.length, { events });
+  restoreTurnOrder(roundEnd, saved.roundEnd);
+
+  const session: GolfSession = {
+    gameState,
+    shared: {
+      stockPile: saved.stockPile.map(cardFromSnapshot),
+      discardPile: new Pile(saved.discardPile.map(cardFromSnapshot)),
+      roundEnd,
+      variant,
+    },
+    seed: saved.seed,
+  };
+  checkCardUniverse(GolfCardConservation, session);
+  return session;
+}
+
+/** Convert a Golf match, including the hole in play, to plain data. */
+export function serializeGolfMatch(golfMatch: GolfMatch): SavedGolfMatch {
+  return {
+    seed: golfMatch.seed,
+    players: golfMatch.players.map((p) => ({ ...p })),
+    match: {
+      ...golfMatch.match,
+      roundScores: golfMatch.match.roundScores.map((r) => [...r]),
+    },
+    variant: { ...golfMatch.variant },
+    holeIndex: golfMatch.holeIndex,
+    hole: serializeGolfSession(golfMatch.hole),
+  };
+}
+
+/**
+ * Rebuild a Golf match from saved data.
+ *
+ * @throws If the save is inconsistent (see {@link deserializeGolfSession}).
+ */
+export function deserializeGolfMatch(
+  saved: SavedGolfMatch,
+  events?: GameEventEmitter,
+): GolfMatch {
+  return {
+    seed: saved.seed,
+    players: saved.players.map((p) => ({ ...p })),
+    match: {
+      ...saved.match,
+      roundScores: saved.match.roundScores.map((r) => [...r]),
+    },
+    variant: resolveVariant(GOLF_VARIANTS, saved.variant),
+    holeIndex: saved.holeIndex,
+    hole: deserializeGolfSession(saved.hole, events),
+  };
+}
@@ -1,5 +1,5 @@
 /**
- * Scoring logic for 9-Card Golf.
+ * Scoring logic for Golf.
  *
  * Rules (from Wikipedia / the epic spec):
  *   A  = 1 point
@@ -7,116 +7,134 @@
  *   3-10 = face value
  *   J/Q = 10 points
  *   K  = 0 points
- *   Column of three matching ranks = 0 points (overrides individual values)
+ *   Joker = -2 points (only when playing with a deck that includes jokers)
+ *   Column of matching ranks = 0 points (overrides individual values)
+ *
+ * House rules (see GolfVariants.ts) may change the value of 2s and Ks,
+ * the grid's shape, and let a matching pair in a column cancel.
  *
  * Face-down cards are scored by their rank (they still count).
  */
 
 import type { Card, Rank } from '../../src/card-system/Card';
+import { isSet } from '../../src/card-system/Melds';
+import type { RankValueTable } from '../../src/card-system/RankOrder';
+import { rankValueIn } from '../../src/card-system/RankOrder';
 import type { GolfGrid } from './GolfGrid';
-import { GRID_COLS, GRID_ROWS } from './GolfGrid';
+import { gridColumns } from './GolfGrid';
+import type { GolfVariant } from './GolfVariants';
+import { STANDARD_GOLF_VARIANT } from './GolfVariants';
+
+/** Point value of each rank under the standard rules. */
+export const GOLF_CARD_VALUES: RankValueTable = {
+  A: 1,
+  '2': -2,
+  '3': 3,
+  '4': 4,
+  '5': 5,
+  '6': 6,
+  '7': 7,
+  '8': 8,
+  '9': 9,
+  '10': 10,
+  J: 10,
+  Q: 10,
+  K: 0,
+  Joker: -2,
+};
 
 /**
  * Get the point value of a single card's rank.
  */
-export function cardPointValue(rank: Rank): number {
-  switch (rank) {
-    case 'A':
-      return 1;
-    case '2':
-      return -2;
-    case '3':
-      return 3;
-    case '4':
-      return 4;
-    case '5':
-      return 5;
-    case '6':
-      return 6;
-    case '7':
-      return 7;
-    case '8':
-      return 8;
-    case '9':
-      return 9;
-    case '10':
-      return 10;
-    case 'J':
-      return 10;
-    case 'Q':
-      return 10;
-    case 'K':
-      return 0;
+export function cardPointValue(
+  rank: Rank,
+  variant: GolfVariant = STANDARD_GOLF_VARIANT,
+): number {
+  if (rank === '2') return variant.twos;
+  if (rank === 'K') return variant.kings;
+  return rankValueIn(GOLF_CARD_VALUES, rank);
+}
+
+/**
+ * Positions in a column whose cards score nothing: the whole column
+ * when all its cards share a rank, else (under the pairs-cancel rule)
+ * each matching pair. A `null` is a card whose rank the scorer does not
+ * know; it never matches, so its column cannot cancel as a whole.
+ */
+export function cancelledInColumn(
+  column: readonly (Card | null)[],
+  variant: GolfVariant = STANDARD_GOLF_VARIANT,
+): Set<number> {
+  const known = column.filter((card): card is Card => card !== null);
+  if (known.length === column.length && isSet(known, { minSize: column.length })) {
+    return new Set(column.keys());
   }
+
+  const cancelled = new Set<number>();
+  if (!variant.pairsCancel) return cancelled;
+  const unpaired = new Map<Rank, number>();
+  column.forEach((card, i) => {
+    if (!card) return;
+    const partner = unpaired.get(card.rank);
+    if (partner === undefined) {
+      unpaired.set(card.rank, i);
+    } else {
+      cancelled.add(partner).add(i);
+      unpaired.delete(card.rank);
+    }
+  });
+  return cancelled;
+}
+
+/** Sum of the cards of a column that are known and not cancelled. */
+function scoreColumn(
+  column: readonly (Card | null)[],
+  variant: GolfVariant,
+): number {
+  const cancelled = cancelledInColumn(column, variant);
+  let total = 0;
+  column.forEach((card, i) => {
+    if (card && !cancelled.has(i)) total += cardPointValue(card.rank, variant);
+  });
+  return total;
 }
 
 /**
- * Score a complete 3x3 golf grid.
+ * Score a complete golf grid.
  *
- * For each column, if all three cards share the same rank, that
- * column scores 0 regardless of individual card values. Otherwise,
- * each card in the column scores its individual value.
+ * For each column, if all its cards share the same rank, that column
+ * scores 0 regardless of individual card values. Otherwise, each card
+ * in the column scores its individual value, except that under the
+ * pairs-cancel rule a matching pair scores 0.
  *
  * Lower scores are better.
  */
-export function scoreGrid(grid: GolfGrid): number {
+export function scoreGrid(
+  grid: GolfGrid,
+  variant: GolfVariant = STANDARD_GOLF_VARIANT,
+): number {
   let total = 0;
-
-  for (let col = 0; col < GRID_COLS; col++) {
-    const colCards: Card[] = [];
-    for (let row = 0; row < GRID_ROWS; row++) {
-      colCards.push(grid[row * GRID_COLS + col]);
-    }
-
-    // Check if all three cards in the column have the same rank
-    const allSameRank =
-      colCards[0].rank === colCards[1].rank &&
-      colCards[1].rank === colCards[2].rank;
-
-    if (allSameRank) {
-      // Column of three-of-a-kind scores 0
-      total += 0;
-    } else {
-      // Sum individual card values
-      for (const card of colCards) {
-        total += cardPointValue(card.rank);
-      }
-    }
+  for (const column of gridColumns(grid)) {
+    total += scoreColumn(column, variant);
   }
-
   return total;
 }
 
 /**
  * Score only the visible (face-up) cards in a grid.
  * Face-down cards are treated as 0 for this calculation.
- * Column-of-three matching only applies if all 3 in the column are face-up.
+ * A column or pair only cancels if its cards are all face-up.
  */
-export function scoreVisibleCards(grid: GolfGrid): number {
+export function scoreVisibleCards(
+  grid: GolfGrid,
+  variant: GolfVariant = STANDARD_GOLF_VARIANT,
+): number {
   let total = 0;
-
-  for (let col = 0; col < GRID_COLS; col++) {
-    const colCards: Card[] = [];
-    for (let row = 0; row < GRID_ROWS; row++) {
-      colCards.push(grid[row * GRID_COLS + col]);
-    }
-
-    const allFaceUp = colCards.every((c) => c.faceUp);
-    const allSameRank =
-      allFaceUp &&
-      colCards[0].rank === colCards[1].rank &&
-      colCards[1].rank === colCards[2].rank;
-
-    if (allSameRank) {
-      total += 0;
-    } else {
-      for (const card of colCards) {
-        if (card.faceUp) {
-          total += cardPointValue(card.rank);
-        }
-      }
-    }
+  for (const column of gridColumns(grid)) {
+    total += scoreColumn(
+      column.map((card) => (card.faceUp ? card : null)),
+      variant,
+    );
   }
-
   return total;
 }
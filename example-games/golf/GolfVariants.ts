@@ -0,0 +1,96 @@
+/**
+ * House rules for Golf.
+ *
+ * Options:
+ *   twos           -- point value of a 2 (standard -2)
+ *   kings          -- point value of a King (standard 0)
+ *   jokers         -- shuffle the deck's two jokers in (each worth -2)
+ *   initialReveals -- cards each player turns up at the deal (standard 3,
+ *                     at most the size of the grid)
+ *   grid           -- layout of each player's grid (standard 3x3; 2x3
+ *                     for 6-card and 2x2 for 4-card Golf)
+ *   pairsCancel    -- a matching pair in a column scores 0 even when the
+ *                     rest of the column does not match (standard off)
+ *
+ * The session records its variant (see GolfSharedState), and dealing,
+ * the rules, scoring, the AI and transcripts all read it from there.
+ */
+
+import type { Card } from '../../src/card-system/Card';
+import { createStandardDeck } from '../../src/card-system/Deck';
+import {
+  defaultVariant,
+  defineVariants,
+} from '../../src/rule-engine/Variants';
+import type { GolfGridLayout, GridShape } from './GolfGrid';
+import { GRID_LAYOUTS, layoutShape, shapeSize } from './GolfGrid';
+
+/** A resolved set of Golf house rules. */
+export interface GolfVariant {
+  /** Point value of a 2. */
+  twos: number;
+  /** Point value of a King. */
+  kings: number;
+  /** Whether the two jokers are in the deck. */
+  jokers: boolean;
+  /** Cards each player turns face-up before the first turn. */
+  initialReveals: number;
+  /** Layout of each player's grid. */
+  grid: GolfGridLayout;
+  /** Whether a matching pair in a column scores 0. */
+  pairsCancel: boolean;
+}
+
+/** Golf's house-rule options and well-known variants. */
+export const GOLF_VARIANTS = defineVariants<GolfVariant>({
+  game: 'Golf',
+  options: {
+    twos: { kind: 'number', label: 'Twos', default: -2, min: -5, max: 2 },
+    kings: { kind: 'number', label: 'Kings', default: 0, min: -5, max: 13 },
+    jokers: { kind: 'toggle', label: 'Jokers in the deck', default: false },
+    initialReveals: {
+      kind: 'number',
+      label: 'Cards revealed at the deal',
+      default: 3,
+      min: 0,
+      max: 6,
+    },
+    grid: { kind: 'choice', label: 'Grid', default: '3x3', choices: GRID_LAYOUTS },
+    pairsCancel: { kind: 'toggle', label: 'Pairs cancel', default: false },
+  },
+  presets: {
+    jokers: { label: 'Jokers (-2)', options: { jokers: true } },
+    'blind-start': { label: 'Blind Start', options: { initialReveals: 0 } },
+    'minus-kings': { label: 'Kings -2', options: { kings: -2 } },
+    'pairs-cancel': { label: 'Pairs Cancel', options: { pairsCancel: true } },
+    'six-card': { label: '6-Card', options: { grid: '2x3', initialReveals: 2 } },
+    'four-card': { label: '4-Card', options: { grid: '2x2', initialReveals: 2 } },
+  },
+});
+
+/** The standard rules. */
+export const STANDARD_GOLF_VARIANT: GolfVariant = defaultVariant(GOLF_VARIANTS);
+
+/**
+ * The grid shape a variant deals.
+ *
+ * @throws If the variant reveals more cards at the deal than the grid has.
+ */
+export function golfGridShape(
+  variant: GolfVariant = STANDARD_GOLF_VARIANT,
+): GridShape {
+  const shape = layoutShape(variant.grid);
+  if (variant.initialReveals > shapeSize(shape)) {
+    throw new Error(
+      `Cannot reveal ${variant.initialReveals} cards of a ${variant.grid} grid`,
+    );
+  }
+  return shape;
+}
+
+/** The deck a Golf round is dealt from under a variant, all face-down. */
+export function createGolfDeck(
+  variant: GolfVariant = STANDARD_GOLF_VARIANT,
+): Card[] {
+  return createStandardDeck({ jokers: variant.jokers ? 2 : 0 });
+}
@@ -1,7 +1,7 @@
 /**
  * 9-Card Golf - Tableau Card Engine (TCE)
  *
- * A single-round 9-Card Golf game (human vs. AI) built with
+ * A 9-hole Golf match (human vs. AI) built with
  * the Tableau Card Engine's card-system, core-engine, and
  * rule-engine modules.
  */
@@ -1,30 +1,77 @@
 /**
- * GolfScene -- the main Phaser scene for 9-Card Golf.
+ * GolfScene -- the main Phaser scene for Golf (9-Card Golf by default).
  *
  * Implements the full visual interface:
  *   - Two 3x3 player grids in a horizontal layout (human on left, AI on right)
  *   - Stock and discard piles stacked vertically in the center
  *   - Click/tap input for drawing, swapping, and discarding
  *   - Card flip and swap animations via Phaser tweens
- *   - Score display, turn indicator, and end-of-round screen
+ *   - Score display, turn indicator, and end-of-hole scorecard
+ *   - A 9-hole match: each hole restarts the scene with the match
+ *     carried over, until the final scorecard
  *   - AI opponent plays automatically with a short delay
  */
 
 import Phaser from 'phaser';
-import type { Card, Rank, Suit } from '../../../src/card-system/Card';
+import type { Card } from '../../../src/card-system/Card';
+import {
+  cardFromSnapshot,
+  isSameCard,
+  snapshotCard,
+} from '../../../src/core-engine/TranscriptTypes';
 import type { GolfMove, DrawSource } from '../GolfRules';
+import { needsFinalTurn } from '../GolfRules';
 import type { GolfSession, GolfAction, TurnResult } from '../GolfGame';
-import { setupGolfGame, executeTurn } from '../GolfGame';
+import { executeTurn, peekDraw } from '../GolfGame';
+import type { GridShape } from '../GolfGrid';
+import { gridIndex, gridPosition, gridShape, shapeSize } from '../GolfGrid';
+import type { GolfMatch } from '../GolfMatch';
+import {
+  setupGolfMatch,
+  isHoleOver,
+  isHoleScored,
+  finishHole,
+  startNextHole,
+} from '../GolfMatch';
+import type { SavedGolfMatch } from '../GolfSave';
+import {
+  GOLF_SAVE_KEY,
+  serializeGolfMatch,
+  deserializeGolfMatch,
+} from '../GolfSave';
+import {
+  getScorecard,
+  isMatchOver,
+  getMatchWinnerIndex,
+} from '../../../src/core-engine/Match';
 import { scoreGrid, scoreVisibleCards } from '../GolfScoring';
+import { createGolfDeck, GOLF_VARIANTS } from '../GolfVariants';
 import { AiPlayer, GreedyStrategy, RandomStrategy } from '../AiStrategy';
 import type { AiStrategy } from '../AiStrategy';
-import { TranscriptRecorder } from '../GameTranscript';
+import {
+  GOLF_TRANSCRIPT_TYPE,
+  TranscriptRecorder,
+  migrateGolfTranscriptV1,
+} from '../GameTranscript';
 import type { GameTranscript, BoardSnapshot, CardSnapshot } from '../GameTranscript';
 import { TranscriptStore } from '../../../src/core-engine/TranscriptStore';
 import { GameEventEmitter } from '../../../src/core-engine/GameEventEmitter';
 import { PhaserEventBridge } from '../../../src/core-engine/PhaserEventBridge';
+import {
+  EventRecorder,
+  MemoryEventSink,
+  TranscriptStoreEventSink,
+} from '../../../src/core-engine/EventLog';
 import { SoundManager } from '../../../src/core-engine/SoundManager';
 import type { SoundPlayer, EventSoundMapping } from '../../../src/core-engine/SoundManager';
+import { createRng, restoreRng, randomSeed } from '../../../src/core-engine/Rng';
+import type { Rng, RngState } from '../../../src/core-engine/Rng';
+import { SavedGameStore } from '../../../src/core-engine/SavedGame';
+import type { ResumeSceneData } from '../../../src/core-engine/SavedGame';
+import { resolveSceneSeed } from '../../../src/core-engine/DealCode';
+import type { SeedSceneData } from '../../../src/core-engine/DealCode';
+import { presetVariant } from '../../../src/rule-engine/Variants';
+import type { VariantSceneData } from '../../../src/rule-engine/Variants';
 import {
   HelpPanel, HelpButton,
   SettingsPanel, SettingsButton,
@@ -32,6 +79,7 @@ import {
   cardTextureKey, getCardTexture, preloadCardAssets,
   createOverlayBackground, createOverlayButton, createOverlayMenuButton,
   createSceneTitle, createSceneMenuButton,
+  createDealCodeLabel,
 } from '../../../src/ui';
 import type { HelpSection } from '../../../src/ui';
 import helpContent from '../help-content.json';
@@ -45,8 +93,6 @@ const GOLF_CARD_W = 120;
 const GOLF_CARD_H = 168;
 
 const CARD_GAP = 10;
-const GRID_COLS = 3;
-const GRID_ROWS = 3;
 
 const AI_DELAY = 600; // ms before AI chooses
 const AI_SHOW_DRAW_DELAY = 1000; // ms to show drawn card before moving
@@ -73,6 +119,27 @@ const PILE_X = GAME_W / 2; // 640
 const STOCK_Y = 295;       // center Y of stock pile
 const DISCARD_Y = 490;     // center Y of discard pile
 
+/**
+ * Start payload: a seed and house-rule preset, plus the match to
+ * continue on the next hole, or `resume` to load the saved match.
+ */
+interface GolfSceneData extends SeedSceneData, VariantSceneData, ResumeSceneData {
+  match?: GolfMatch;
+}
+
+/** A Golf match in progress, as saved between page loads. */
+interface GolfSaveData {
+  match: SavedGolfMatch;
+  aiRng: RngState;
+  /** House-rule preset the match was started with, if any. */
+  variantName?: string;
+  /**
+   * Transcript of the hole in play. Saves without one leave the resumed
+   * hole's transcript incomplete, so it is not auto-saved.
+   */
+  transcript?: GameTranscript;
+}
+
 // ── Turn state machine ──────────────────────────────────────
 
 type TurnPhase =
@@ -99,17 +166,38 @@ const SFX_KEYS = {
 // ── Scene ───────────────────────────────────────────────────
 
 /** Shared TranscriptStore instance for the Golf game. */
-const transcriptStore = new TranscriptStore();
+const transcriptStore = new TranscriptStore({
+  migrators: { [GOLF_TRANSCRIPT_TYPE]: migrateGolfTranscriptV1 },
+});
+
+/** Persistent log of every Golf event, shared by all sessions. */
+const eventLogSink = new TranscriptStoreEventSink();
+
+/** The in-progress match, kept across page reloads. */
+const savedGames = new SavedGameStore();
 
 export class GolfScene extends Phaser.Scene {
   // Game state
+  private golfMatch!: GolfMatch;
+  /** Match handed over by the previous hole (see init()). */
+  private carriedMatch: GolfMatch | null = null;
   private session!: GolfSession;
   private recorder!: TranscriptRecorder;
+  /** Whether the recorder missed turns played before a resume. */
+  private transcriptIncomplete = false;
   private aiPlayer!: AiPlayer;
+  /** The AI's random stream, saved with the match. */
+  private aiRng!: Rng;
+  /** Saved match to resume (see init()). */
+  private resumedSave: GolfSaveData | null = null;
   private turnPhase: TurnPhase = 'waiting-for-draw';
   private drawnCard: Card | null = null;
   private drawSource: DrawSource | null = null;
   private aiStrategyName: string = 'greedy';
+  /** Seed of the current deal (see init()). */
+  private seed: number = 0;
+  /** House-rule preset chosen in the game selector (see init()). */
+  private variantName: string | undefined;
 
   /** When true, the scene suppresses all input and AI turns for replay use. */
   private replayMode: boolean = false;
@@ -117,9 +205,15 @@ export class GolfScene extends Phaser.Scene {
   // Event system
   private gameEvents!: GameEventEmitter;
   private eventBridge!: PhaserEventBridge;
+  private eventRecorder: EventRecorder | null = null;
+  /** Recent events, for debugging (see window.__EVENT_LOG__). */
+  private readonly eventLog = new MemoryEventSink();
   private soundManager: SoundManager | null = null;
 
   // Display objects -- grids
+  /** Grid card sprites keyed by card id, reused across refreshes. */
+  private cardSprites: Map<number, Phaser.GameObjects.Image> = new Map();
+  /** Each grid's sprites in slot order (rebuilt by refreshGrids()). */
   private humanCardSprites: Phaser.GameObjects.Image[] = [];
   private aiCardSprites: Phaser.GameObjects.Image[] = [];
 
@@ -148,6 +242,22 @@ export class GolfScene extends Phaser.Scene {
     super({ key: 'GolfScene' });
   }
 
+  /**
+   * Pick the match seed: a `{ seed }` start payload (game selector,
+   * "Replay Deal"), else `?deal=` / `?seed=` in the URL, else random.
+   * A `{ match }` payload continues that match on its next hole, and a
+   * `{ variant }` payload picks the house rules for a new match.
+   * A `{ resume }` payload loads the match saved by an earlier visit.
+   */
+  init(data: GolfSceneData): void {
+    this.seed = resolveSceneSeed(data, window.location.search);
+    this.variantName = data?.variant;
+    this.carriedMatch = data?.match ?? null;
+    this.resumedSave = data?.resume
+      ? savedGames.load<GolfSaveData>(GOLF_SAVE_KEY)?.state ?? null
+      : null;
+  }
+
   // ── Preload ─────────────────────────────────────────────
 
   preload(): void {
@@ -170,6 +280,7 @@ export class GolfScene extends Phaser.Scene {
     this.cameras.main.setBackgroundColor('#2d572c');
 
     // Reset display object arrays (stale refs from previous run on restart)
+    this.cardSprites = new Map();
     this.humanCardSprites = [];
     this.aiCardSprites = [];
     this.drawnCardSprite = null;
@@ -188,8 +299,19 @@ export class GolfScene extends Phaser.Scene {
     // Event system: create emitter and bridge to Phaser scene events
     this.gameEvents = new GameEventEmitter();
     this.eventBridge = new PhaserEventBridge(this.gameEvents, this.events);
+    this.eventRecorder = new EventRecorder(this.gameEvents, {
+      gameType: 'golf',
+      sinks: [this.eventLog, eventLogSink],
+    });
+    // Phaser does not call shutdown() by itself
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
     (window as unknown as Record<string, unknown>).__GAME_EVENTS__ =
       this.gameEvents;
+    (window as unknown as Record<string, unknown>).__EVENT_LOG__ =
+      this.eventLog;
+    this.gameEvents.on('last-turn', ({ playerIndex }) => {
+      this.announceLastTurn(playerIndex);
+    });
 
     // Sound system: wrap Phaser's sound manager as a SoundPlayer
     if (!this.replayMode) {
@@ -219,23 +341,40 @@ export class GolfScene extends Phaser.Scene {
       this.soundManager.connectToEvents(this.gameEvents, mapping);
     }
 
-    // Setup game
-    this.session = setupGolfGame({
-      playerNames: ['You', 'AI'],
-      isAI: [false, true],
-    });
-    this.recorder = new TranscriptRecorder(this.session, [
-      undefined,
-      this.aiStrategyName,
-    ]);
-    this.aiPlayer = new AiPlayer(strategy);
+    // Setup game: resume the saved match, continue the carried match,
+    // or start a new one
+    const resumed = this.resumeSavedMatch();
+    if (!resumed && this.carriedMatch) {
+      startNextHole(this.carriedMatch, this.gameEvents);
+    }
+    this.golfMatch =
+      resumed?.golfMatch ??
+      this.carriedMatch ??
+      setupGolfMatch({
+        playerNames: ['You', 'AI'],
+        isAI: [false, true],
+        seed: this.seed,
+        variant: presetVariant(GOLF_VARIANTS, this.variantName),
+        events: this.gameEvents,
+      });
+    this.carriedMatch = null;
+    this.seed = this.golfMatch.seed;
+    this.session = this.golfMatch.hole;
+    this.recorder =
+      resumed?.recorder ??
+      new TranscriptRecorder(this.session, [undefined, this.aiStrategyName]);
+    this.transcriptIncomplete = resumed !== null && resumed.recorder === null;
+    this.aiRng = resumed?.aiRng ?? createRng(this.session.seed).fork('ai');
+    this.aiPlayer = new AiPlayer(strategy, this.aiRng);
 
     // Create UI
     this.createLabels();
     this.createPiles();
-    this.createGrids();
     this.createScoreDisplay();
     this.createInstructions();
+    if (!this.replayMode) {
+      createDealCodeLabel(this, this.seed);
+    }
     if (!this.replayMode) {
       this.createHelpPanel();
       this.createSettingsPanel();
@@ -250,8 +389,9 @@ export class GolfScene extends Phaser.Scene {
       this.instructionText.setText('');
       this.emitStateSettled();
     } else {
+      this.saveProgress();
       this.emitTurnStarted();
-      this.setPhase('waiting-for-draw');
+      this.checkNextTurn();
     }
   }
 
@@ -284,43 +424,44 @@ export class GolfScene extends Phaser.Scene {
       );
     }
 
-    // Update each player's grid from the snapshot data
+    // Update each player's grid from the snapshot data. Cards that are
+    // still in place keep their card object (and so their sprite).
     for (let p = 0; p < boardStates.length; p++) {
       const snapshot = boardStates[p];
       const grid = this.session.gameState.playerStates[p].grid;
       for (let i = 0; i < snapshot.grid.length; i++) {
         const cs = snapshot.grid[i];
-        // Cards have readonly rank/suit, so we replace the card object
-        (grid as Card[])[i] = {
-          rank: cs.rank as Rank,
-          suit: cs.suit as Suit,
-          faceUp: cs.faceUp,
-        };
+        if (isSameCard(snapshotCard(grid[i]), cs)) {
+          grid[i].faceUp = cs.faceUp;
+        } else {
+          // Cards have readonly rank/suit, so we replace the card object
+          (grid as Card[])[i] = cardFromSnapshot(cs);
+        }
       }
     }
 
     // Update the discard pile: clear and push the top card if present
     this.session.shared.discardPile.clear();
     if (discardTop) {
-      const card: Card = {
-        rank: discardTop.rank as Rank,
-        suit: discardTop.suit as Suit,
-        faceUp: true,
-      };
-      this.session.shared.discardPile.push(card);
+      this.session.shared.discardPile.push(
+        cardFromSnapshot({ ...discardTop, faceUp: true }),
+      );
     }
 
-    // Update the stock pile length to match the snapshot.
-    // We don't need real card data -- just enough entries so
+    // Update the stock pile length to match the snapshot. The order of
+    // the stock is unknown, so it is filled with cards that are not on
+    // the table -- each a distinct card with its own id -- just so
     // refreshPiles() shows/hides the stock sprite correctly.
+    const onTable = new Set(
+      this.session.gameState.playerStates.flatMap((ps) => ps.grid.map((c) => c.id)),
+    );
+    const top = this.session.shared.discardPile.peek();
+    if (top) onTable.add(top.id);
+    const offTable = createGolfDeck(this.session.shared.variant).filter(
+      (c) => !onTable.has(c.id),
+    );
     this.session.shared.stockPile.length = 0;
-    for (let i = 0; i < stockRemaining; i++) {
-      this.session.shared.stockPile.push({
-        rank: 'A',
-        suit: 'spades',
-        faceUp: false,
-      });
-    }
+    this.session.shared.stockPile.push(...offTable.slice(0, stockRemaining));
 
     // Refresh all visual elements
     this.refreshAll();
@@ -337,10 +478,10 @@ export class GolfScene extends Phaser.Scene {
       createSceneMenuButton(this);
     }
 
-    createSceneTitle(this, '9-Card Golf');
+    createSceneTitle(this, `${shapeSize(this.currentGridShape())}-Card Golf`);
 
     // Player labels above each grid
-    const gridH = GRID_ROWS * GOLF_CARD_H + (GRID_ROWS - 1) * CARD_GAP;
+    const gridH = this.gridHeight();
 
     this.humanLabel = this.add
       .text(HUMAN_GRID_X, GRID_CENTER_Y - gridH / 2 - 24, 'You', {
@@ -391,29 +532,9 @@ export class GolfScene extends Phaser.Scene {
       .setOrigin(0.5);
   }
 
-  private createGrids(): void {
-    // Human grid (bottom)
-    for (let i = 0; i < 9; i++) {
-      const { x, y } = this.gridCellPosition(i, 'human');
-      const sprite = this.add.image(x, y, 'card_back');
-      if (!this.replayMode) {
-        sprite.setInteractive({ useHandCursor: true });
-        sprite.on('pointerdown', () => this.onHumanCardClick(i));
-      }
-      this.humanCardSprites.push(sprite);
-    }
-
-    // AI grid (top)
-    for (let i = 0; i < 9; i++) {
-      const { x, y } = this.gridCellPosition(i, 'ai');
-      const sprite = this.add.image(x, y, 'card_back');
-      this.aiCardSprites.push(sprite);
-    }
-  }
-
   private createScoreDisplay(): void {
     // Scores below each grid
-    const gridH = GRID_ROWS * GOLF_CARD_H + (GRID_ROWS - 1) * CARD_GAP;
+    const gridH = this.gridHeight();
 
     this.humanScoreText = this.add
       .text(HUMAN_GRID_X, GRID_CENTER_Y + gridH / 2 + 24, 'Score: 0', {
@@ -453,15 +574,30 @@ export class GolfScene extends Phaser.Scene {
 
   // ── Grid layout helpers ─────────────────────────────────
 
+  /** Shape of the grids in play (3x3 unless the variant deals fewer cards). */
+  private currentGridShape(): GridShape {
+    return gridShape(this.session.gameState.playerStates[0].grid);
+  }
+
+  /** Flat index of a move's grid position. */
+  private cellIndex(move: GolfMove): number {
+    return gridIndex(move.row, move.col, this.currentGridShape());
+  }
+
+  private gridHeight(): number {
+    const { rows } = this.currentGridShape();
+    return rows * GOLF_CARD_H + (rows - 1) * CARD_GAP;
+  }
+
   private gridCellPosition(
     index: number,
     player: 'human' | 'ai',
   ): { x: number; y: number } {
-    const row = Math.floor(index / GRID_COLS);
-    const col = index % GRID_COLS;
+    const shape = this.currentGridShape();
+    const { row, col } = gridPosition(index, shape);
 
-    const gridW = GRID_COLS * GOLF_CARD_W + (GRID_COLS - 1) * CARD_GAP;
-    const gridH = GRID_ROWS * GOLF_CARD_H + (GRID_ROWS - 1) * CARD_GAP;
+    const gridW = shape.cols * GOLF_CARD_W + (shape.cols - 1) * CARD_GAP;
+    const gridH = this.gridHeight();
 
     const centerX = player === 'human' ? HUMAN_GRID_X : AI_GRID_X;
     const startX = centerX - gridW / 2 + GOLF_CARD_W / 2;
@@ -476,21 +612,72 @@ export class GolfScene extends Phaser.Scene {
   // ── Refresh display ─────────────────────────────────────
 
   private refreshAll(): void {
-    this.refreshGrid('human');
-    this.refreshGrid('ai');
+    this.refreshGrids();
     this.refreshPiles();
     this.refreshScores();
     this.refreshTurnIndicator();
   }
 
-  private refreshGrid(player: 'human' | 'ai'): void {
+  /**
+   * Refresh both grids to match the game state.
+   *
+   * Sprites are pooled by card id: a card still in a grid keeps its
+   * sprite and glides to its slot (a drawn card's sprite joins the pool
+   * when the card is swapped in, see animateTurn()), sprites of cards
+   * that left the grids are destroyed, and cards new to a grid (e.g.
+   * after a replay jump) get fresh sprites.
+   */
+  private refreshGrids(): void {
+    const stale = new Map(this.cardSprites);
+    this.cardSprites = new Map();
+    this.humanCardSprites = this.refreshGrid('human', stale);
+    this.aiCardSprites = this.refreshGrid('ai', stale);
+
+    for (const sprite of stale.values()) {
+      this.tweens.killTweensOf(sprite);
+      sprite.destroy();
+    }
+  }
+
+  /** Place one grid's sprites, taking them from `stale` where possible. */
+  private refreshGrid(
+    player: 'human' | 'ai',
+    stale: Map<number, Phaser.GameObjects.Image>,
+  ): Phaser.GameObjects.Image[] {
     const playerIdx = player === 'human' ? 0 : 1;
     const grid = this.session.gameState.playerStates[playerIdx].grid;
-    const sprites = player === 'human' ? this.humanCardSprites : this.aiCardSprites;
 
-    for (let i = 0; i < 9; i++) {
-      sprites[i].setTexture(getCardTexture(grid[i]));
-    }
+    return grid.map((card, i) => {
+      const { x, y } = this.gridCellPosition(i, player);
+      const texture = getCardTexture(card);
+
+      let sprite = stale.get(card.id);
+      if (sprite) {
+        stale.delete(card.id);
+        this.tweens.killTweensOf(sprite);
+        sprite.setTexture(texture).setScale(1).setAlpha(1).setDepth(0);
+        if (sprite.x !== x || sprite.y !== y) {
+          this.tweens.add({
+            targets: sprite,
+            x,
+            y,
+            duration: ANIM_DURATION,
+            ease: 'Power2',
+          });
+        }
+      } else {
+        sprite = this.add.image(x, y, texture);
+      }
+
+      if (player === 'human' && !this.replayMode && !sprite.input) {
+        const cardId = card.id;
+        sprite.setInteractive({ useHandCursor: true });
+        sprite.on('pointerdown', () => this.onHumanCardClick(cardId));
+      }
+
+      this.cardSprites.set(card.id, sprite);
+      return sprite;
+    });
   }
 
   private refreshPiles(): void {
@@ -516,12 +703,13 @@ export class GolfScene extends Phaser.Scene {
     const humanGrid = this.session.gameState.playerStates[0].grid;
     const aiGrid = this.session.gameState.playerStates[1].grid;
 
-    const humanVisible = scoreVisibleCards(humanGrid);
-    const aiVisible = scoreVisibleCards(aiGrid);
+    const { variant } = this.session.shared;
+    const humanVisible = scoreVisibleCards(humanGrid, variant);
+    const aiVisible = scoreVisibleCards(aiGrid, variant);
 
     if (this.session.gameState.phase === 'ended') {
-      const humanFinal = scoreGrid(humanGrid);
-      const aiFinal = scoreGrid(aiGrid);
+      const humanFinal = scoreGrid(humanGrid, variant);
+      const aiFinal = scoreGrid(aiGrid, variant);
       this.humanScoreText.setText(`Score: ${humanFinal}`);
       this.aiScoreText.setText(`Score: ${aiFinal}`);
     } else {
@@ -531,14 +719,18 @@ export class GolfScene extends Phaser.Scene {
   }
 
   private refreshTurnIndicator(): void {
+    const hole = `Hole ${this.golfMatch.holeIndex + 1}`;
     if (this.session.gameState.phase === 'ended') {
-      this.turnText.setText('Round Over!');
+      this.turnText.setText(`${hole} Over!`);
       return;
     }
 
     const currentIdx = this.session.gameState.currentPlayerIndex;
     const name = this.session.gameState.players[currentIdx].name;
-    this.turnText.setText(`${name}'s turn`);
+    const lastTurn = needsFinalTurn(this.session.shared.roundEnd, currentIdx)
+      ? ' (last turn!)'
+      : '';
+    this.turnText.setText(`${hole}: ${name}'s turn${lastTurn}`);
 
     // Highlight active player label
     if (currentIdx === 0) {
@@ -550,6 +742,27 @@ export class GolfScene extends Phaser.Scene {
     }
   }
 
+  /** Briefly announce that a player is taking their last turn. */
+  private announceLastTurn(playerIndex: number): void {
+    const message = playerIndex === 0
+      ? 'Your last turn!'
+      : `Last turn for ${this.session.gameState.players[playerIndex].name}!`;
+    const banner = this.add
+      .text(PILE_X, (STOCK_Y + DISCARD_Y) / 2, message, {
+        fontSize: '22px',
+        color: '#ffdd44',
+        fontFamily: FONT_FAMILY,
+        backgroundColor: '#333333',
+        padding: { left: 14, right: 14, top: 8, bottom: 8 },
+      })
+      .setOrigin(0.5)
+      .setDepth(20);
+
+    this.time.delayedCall(2000, () => {
+      banner.destroy();
+    });
+  }
+
   // ── Phase management ────────────────────────────────────
 
   private setPhase(phase: TurnPhase): void {
@@ -601,19 +814,21 @@ export class GolfScene extends Phaser.Scene {
     }
   }
 
-  private onHumanCardClick(gridIndex: number): void {
+  private onHumanCardClick(cardId: number): void {
+    const index = this.session.gameState.playerStates[0].grid.findIndex(
+      (card) => card.id === cardId,
+    );
+    if (index === -1) return;
+
+    const { row, col } = gridPosition(index, this.currentGridShape());
     if (this.turnPhase === 'waiting-for-move' && this.isHumanTurn()) {
       // Swap: replace grid card with drawn card
-      this.humanMove({ kind: 'swap', row: Math.floor(gridIndex / 3), col: gridIndex % 3 });
+      this.humanMove({ kind: 'swap', row, col });
     } else if (this.turnPhase === 'waiting-for-flip-target' && this.isHumanTurn()) {
       // Discard-and-flip: must click a face-down card
       const grid = this.session.gameState.playerStates[0].grid;
-      if (!grid[gridIndex].faceUp) {
-        this.humanMove({
-          kind: 'discard-and-flip',
-          row: Math.floor(gridIndex / 3),
-          col: gridIndex % 3,
-        });
+      if (!grid[index].faceUp) {
+        this.humanMove({ kind: 'discard-and-flip', row, col });
       }
     }
   }
@@ -656,7 +871,7 @@ export class GolfScene extends Phaser.Scene {
     // Emit card-level events based on the move type
     if (move.kind === 'swap') {
       this.gameEvents.emit('card-swapped', {
-        position: move.row * 3 + move.col,
+        position: this.cellIndex(move),
         drawnFrom: this.drawSource,
         playerIndex: 0,
       });
@@ -664,7 +879,7 @@ export class GolfScene extends Phaser.Scene {
       // discard-and-flip: emit both discard and flip events
       this.gameEvents.emit('card-discarded', { playerIndex: 0 });
       this.gameEvents.emit('card-flipped', {
-        position: move.row * 3 + move.col,
+        position: this.cellIndex(move),
         playerIndex: 0,
       });
     }
@@ -683,6 +898,7 @@ export class GolfScene extends Phaser.Scene {
         this.setPhase('round-ended');
       } else {
         this.emitStateSettled();
+        this.saveProgress();
         this.emitTurnStarted();
         this.checkNextTurn();
       }
@@ -696,13 +912,10 @@ export class GolfScene extends Phaser.Scene {
 
     this.time.delayedCall(AI_DELAY, () => {
       const idx = this.session.gameState.currentPlayerIndex;
-      const ps = this.session.gameState.playerStates[idx];
-      const action = this.aiPlayer.chooseAction(ps, this.session.shared);
+      const action = this.aiPlayer.chooseAction(this.session, idx);
 
       // Show which pile the AI draws from and the drawn card
-      const peekCard = action.drawSource === 'stock'
-        ? this.session.shared.stockPile[this.session.shared.stockPile.length - 1]
-        : this.session.shared.discardPile.peek() ?? null;
+      const peekCard = peekDraw(this.session.shared, action.drawSource);
 
       if (peekCard) {
         this.showDrawnCard(peekCard);
@@ -725,14 +938,14 @@ export class GolfScene extends Phaser.Scene {
         // Emit card-level events based on the AI's move type
         if (action.move.kind === 'swap') {
           this.gameEvents.emit('card-swapped', {
-            position: action.move.row * 3 + action.move.col,
+            position: this.cellIndex(action.move),
             drawnFrom: action.drawSource,
             playerIndex: idx,
           });
         } else {
           this.gameEvents.emit('card-discarded', { playerIndex: idx });
           this.gameEvents.emit('card-flipped', {
-            position: action.move.row * 3 + action.move.col,
+            position: this.cellIndex(action.move),
             playerIndex: idx,
           });
         }
@@ -748,6 +961,7 @@ export class GolfScene extends Phaser.Scene {
             this.setPhase('round-ended');
           } else {
             this.emitStateSettled();
+            this.saveProgress();
             this.emitTurnStarted();
             this.checkNextTurn();
           }
@@ -787,9 +1001,8 @@ export class GolfScene extends Phaser.Scene {
     };
 
     if (result.move.kind === 'swap') {
-      const idx = result.move.row * 3 + result.move.col;
-      const sprite = sprites[idx];
-      const grid = this.session.gameState.playerStates[result.playerIndex].grid;
+      const idx = this.cellIndex(result.move);
+      const sprite = this.cardSprites.get(result.discardedCard.id) ?? sprites[idx];
 
       // Compute destination positions
       const gridSlotPos = this.gridCellPosition(idx, playerKey);
@@ -800,11 +1013,14 @@ export class GolfScene extends Phaser.Scene {
       const checkDone = () => {
         completed++;
         if (completed === 2) {
-          // Snap the grid sprite back to its slot (it was tweened to the
-          // discard pile). refreshAll() will update its texture to the new
-          // card that now occupies this slot in game state.
-          sprite.setPosition(gridSlotPos.x, gridSlotPos.y);
-          sprite.setDepth(0);
+          // The drawn card's sprite now sits in the grid slot, so it joins
+          // the pool under the drawn card's id. The old grid card's sprite
+          // lies on the discard pile; refreshAll() retires it and the
+          // discard sprite shows the card from here on.
+          if (this.drawnCardSprite) {
+            this.cardSprites.set(result.drawnCard.id, this.drawnCardSprite);
+            this.drawnCardSprite = null;
+          }
           wrappedOnComplete();
         }
       };
@@ -822,8 +1038,8 @@ export class GolfScene extends Phaser.Scene {
         duration: SWAP_ANIM_DURATION / 2,
         ease: 'Power2',
         onComplete: () => {
-          // Reveal the card's actual face at the midpoint of the flip
-          sprite.setTexture(getCardTexture(grid[idx]));
+          // Reveal the discarded card's face at the midpoint of the flip
+          sprite.setTexture(getCardTexture(result.discardedCard));
           // Second half: scaleX → 1 while completing movement to discard
           this.tweens.add({
             targets: sprite,
@@ -855,7 +1071,7 @@ export class GolfScene extends Phaser.Scene {
       // Discard-and-flip: two sequential phases
       // Phase 1: drawn card animates to discard pile
       // Phase 2: selected grid card flips in place to reveal its face
-      const idx = result.move.row * 3 + result.move.col;
+      const idx = this.cellIndex(result.move);
       const sprite = sprites[idx];
       const grid = this.session.gameState.playerStates[result.playerIndex].grid;
       const discardPos = { x: PILE_X, y: DISCARD_Y };
@@ -1001,6 +1217,10 @@ export class GolfScene extends Phaser.Scene {
   shutdown(): void {
     this.soundManager?.destroy();
     this.soundManager = null;
+    this.eventRecorder?.stop().catch((err) => {
+      console.error('[GolfScene] Failed to save the event log:', err);
+    });
+    this.eventRecorder = null;
     this.eventBridge?.destroy();
     this.gameEvents?.removeAllListeners();
     this.helpPanel?.destroy();
@@ -1016,7 +1236,7 @@ export class GolfScene extends Phaser.Scene {
    * Fires and forgets -- errors are logged but do not disrupt gameplay.
    */
   private autoSaveTranscript(transcript: GameTranscript): void {
-    transcriptStore.save('golf', transcript).then(
+    transcriptStore.saveTranscript(transcript).then(
       (stored) => {
         if (stored) {
           console.info(
@@ -1032,25 +1252,77 @@ export class GolfScene extends Phaser.Scene {
     );
   }
 
+  // ── Saved match ─────────────────────────────────────────
+
+  /**
+   * Rebuild the match requested by a `{ resume }` payload. A save that
+   * no longer loads is discarded and a new match starts instead.
+   */
+  private resumeSavedMatch(): {
+    golfMatch: GolfMatch;
+    aiRng: Rng;
+    recorder: TranscriptRecorder | null;
+  } | null {
+    const saved = this.resumedSave;
+    this.resumedSave = null;
+    if (!saved) return null;
+    try {
+      const golfMatch = deserializeGolfMatch(saved.match, this.gameEvents);
+      const resumed = {
+        golfMatch,
+        aiRng: restoreRng(saved.aiRng),
+        recorder: saved.transcript
+          ? new TranscriptRecorder(
+              golfMatch.hole,
+              [undefined, this.aiStrategyName],
+              saved.transcript,
+            )
+          : null,
+      };
+      this.variantName = saved.variantName;
+      return resumed;
+    } catch (err) {
+      console.warn('[GolfScene] Discarding saved match that failed to load:', err);
+      savedGames.clear(GOLF_SAVE_KEY);
+      return null;
+    }
+  }
+
+  /** Save the match so it can be resumed after a page reload. */
+  private saveProgress(): void {
+    if (this.replayMode) return;
+    const data: GolfSaveData = {
+      match: serializeGolfMatch(this.golfMatch),
+      aiRng: this.aiRng.getState(),
+      ...(this.variantName ? { variantName: this.variantName } : {}),
+      ...(this.transcriptIncomplete
+        ? {}
+        : { transcript: this.recorder.getTranscript() }),
+    };
+    savedGames.save(GOLF_SAVE_KEY, data);
+  }
+
   // ── End screen ──────────────────────────────────────────
 
   private showEndScreen(): void {
     // Reveal all cards
     for (let p = 0; p < 2; p++) {
-      const grid = this.session.gameState.playerStates[p].grid;
-      for (let i = 0; i < 9; i++) {
-        grid[i].faceUp = true;
+      for (const card of this.session.gameState.playerStates[p].grid) {
+        card.faceUp = true;
       }
     }
-    this.refreshGrid('human');
-    this.refreshGrid('ai');
+    this.refreshGrids();
     this.refreshScores();
 
     const transcript = this.recorder.finalize();
-    const results = transcript.results!;
+    const results = transcript.result!;
+    // A hole resumed from its results screen was scored and saved before
+    const alreadyScored = isHoleScored(this.golfMatch);
 
     // Auto-save transcript to browser storage
-    this.autoSaveTranscript(transcript);
+    if (!alreadyScored && !this.transcriptIncomplete) {
+      this.autoSaveTranscript(transcript);
+    }
 
     // Play score-reveal sound directly (not event-mapped)
     this.soundManager?.play(SFX_KEYS.SCORE_REVEAL);
@@ -1063,32 +1335,84 @@ export class GolfScene extends Phaser.Scene {
       `${winnerName} wins (${results.scores[winnerIdx]} pts)`,
     );
 
+    // Record the hole on the match scorecard
+    if (isHoleOver(this.golfMatch) && !alreadyScored) {
+      finishHole(this.golfMatch);
+    }
+    const matchOver = isMatchOver(this.golfMatch.match);
+    if (matchOver) {
+      savedGames.clear(GOLF_SAVE_KEY);
+    } else {
+      this.saveProgress();
+    }
+
     // Overlay -- near-invisible blocker + visible box
     createOverlayBackground(
       this,
       { depth: 10, alpha: 0.01 },
-      { width: 520, height: 300, alpha: 0.85 },
+      { width: 760, height: 360, alpha: 0.85 },
     );
 
-    const winnerText = results.winnerIndex === 0 ? 'You Win!' : 'AI Wins!';
+    let heading: string;
+    if (!matchOver) {
+      const holeWinner = results.winnerIndex === 0 ? 'You Win!' : 'AI Wins!';
+      heading = `Hole ${this.golfMatch.holeIndex + 1}: ${holeWinner}`;
+    } else if (getMatchWinnerIndex(this.golfMatch.match) === -1) {
+      heading = 'Match Drawn!';
+    } else if (getMatchWinnerIndex(this.golfMatch.match) === 0) {
+      heading = 'You Win the Match!';
+    } else {
+      heading = 'AI Wins the Match!';
+    }
     this.add
-      .text(
-        GAME_W / 2,
-        GAME_H / 2 - 50,
-        `${winnerText}\n\nYou: ${results.scores[0]} pts\nAI: ${results.scores[1]} pts`,
-        {
-          fontSize: '28px',
-          color: '#ffffff',
-          fontFamily: FONT_FAMILY,
-          align: 'center',
-        },
-      )
+      .text(GAME_W / 2, GAME_H / 2 - 130, heading, {
+        fontSize: '28px',
+        color: '#ffffff',
+        fontFamily: FONT_FAMILY,
+        align: 'center',
+      })
       .setOrigin(0.5)
       .setDepth(11);
 
-    // Play again button
+    this.createScorecard(GAME_H / 2 - 70);
+
+    const buttonY = GAME_H / 2 + 125;
+    if (matchOver) {
+      // Replay deal button (same match seed)
+      const replayBtn = createOverlayButton(
+        this, GAME_W / 2, buttonY, '[ Replay Deal ]',
+      );
+      replayBtn.on('pointerdown', () => {
+        this.soundManager?.play(SFX_KEYS.UI_CLICK);
+        this.gameEvents.emit('ui-interaction', {
+          elementId: 'replay-deal',
+          action: 'click',
+        });
+        this.scene.restart({ seed: this.seed, variant: this.variantName });
+      });
+    } else {
+      // Next hole button (same match)
+      const nextBtn = createOverlayButton(
+        this, GAME_W / 2, buttonY, '[ Next Hole ]',
+      );
+      nextBtn.on('pointerdown', () => {
+        this.soundManager?.play(SFX_KEYS.UI_CLICK);
+        this.gameEvents.emit('ui-interaction', {
+          elementId: 'next-hole',
+          action: 'click',
+        });
+        if (!isHoleOver(this.golfMatch)) return;
+        this.scene.restart({
+          seed: this.seed,
+          variant: this.variantName,
+          match: this.golfMatch,
+        });
+      });
+    }
+
+    // Play again button (new match)
     const btn = createOverlayButton(
-      this, GAME_W / 2 - 85, GAME_H / 2 + 85, '[ Play Again ]',
+      this, GAME_W / 2 - 160, buttonY, '[ Play Again ]',
     );
     btn.on('pointerdown', () => {
       this.soundManager?.play(SFX_KEYS.UI_CLICK);
@@ -1096,10 +1420,52 @@ export class GolfScene extends Phaser.Scene {
         elementId: 'play-again',
         action: 'click',
       });
-      this.scene.restart();
+      this.scene.restart({ seed: randomSeed(), variant: this.variantName });
     });
 
     // Menu button
-    createOverlayMenuButton(this, GAME_W / 2 + 85, GAME_H / 2 + 85);
+    createOverlayMenuButton(this, GAME_W / 2 + 160, buttonY);
+  }
+
+  /**
+   * Draw the match scorecard: one column per hole, running totals
+   * for each player, and the match total.
+   */
+  private createScorecard(topY: number): void {
+    const { match } = this.golfMatch;
+    const card = getScorecard(match);
+    const holes = match.length.kind === 'rounds' ? match.length.rounds : card.rounds.length;
+    const colW = 52;
+    const rowH = 36;
+    const nameW = 80;
+    const left = GAME_W / 2 - (nameW + (holes + 1) * colW) / 2;
+    const style = {
+      fontSize: '18px',
+      color: '#ffffff',
+      fontFamily: FONT_FAMILY,
+    };
+    const cell = (col: number, row: number, text: string, color?: string) => {
+      const x = col < 0 ? left + nameW / 2 : left + nameW + col * colW + colW / 2;
+      this.add
+        .text(x, topY + row * rowH, text, color ? { ...style, color } : style)
+        .setOrigin(0.5)
+        .setDepth(11);
+    };
+
+    // Header: hole numbers and total
+    cell(-1, 0, 'Hole', '#aaccaa');
+    for (let h = 0; h < holes; h++) {
+      cell(h, 0, String(h + 1), '#aaccaa');
+    }
+    cell(holes, 0, 'Total', '#ffdd44');
+
+    // One row per player: hole scores, then the running total
+    this.session.gameState.players.forEach((player, p) => {
+      cell(-1, p + 1, player.name);
+      for (let h = 0; h < holes; h++) {
+        cell(h, p + 1, h < card.rounds.length ? String(card.rounds[h][p]) : '-');
+      }
+      cell(holes, p + 1, String(card.totals[p]), '#ffdd44');
+    });
   }
 }
@@ -3,6 +3,8 @@
  *
  * AI opponent strategies for Splendor.
  * All strategies operate on pure game state — no Phaser dependency.
+ * A strategy sees the game as its player does (a SplendorObservation):
+ * the tier decks and opponents' reserved cards stay hidden.
  */
 
 import {
@@ -14,14 +16,16 @@ import {
 } from './SplendorCards';
 import {
   type SplendorSession,
-  type SplendorPlayerState,
+  type PlayerHoldings,
   type TurnAction,
   type TokenDiscard,
-  getLegalActions,
+  getObservedLegalActions,
   getBonuses,
   effectiveCost,
-  getAvailableCards,
+  getObservedAvailableCards,
 } from './SplendorGame';
+import type { SplendorObservation } from './SplendorObservation';
+import { observeSplendor } from './SplendorObservation';
 
 // ---------------------------------------------------------------------------
 // Strategy interface
@@ -29,10 +33,11 @@ import {
 
 export interface SplendorAiStrategy {
   readonly name: string;
-  chooseTurn(session: SplendorSession, playerIndex: number, rng: () => number): TurnAction;
+  /** Choose a turn for `view.playerIndex`. */
+  chooseTurn(view: SplendorObservation, rng: () => number): TurnAction;
+  /** Choose `excess` tokens for `view.playerIndex` to return. */
   chooseDiscard(
-    session: SplendorSession,
-    playerIndex: number,
+    view: SplendorObservation,
     excess: number,
     rng: () => number,
   ): TokenDiscard;
@@ -45,16 +50,16 @@ export interface SplendorAiStrategy {
 export const RandomStrategy: SplendorAiStrategy = {
   name: 'Random',
 
-  chooseTurn(session, _playerIndex, rng) {
-    const actions = getLegalActions(session);
+  chooseTurn(view, rng) {
+    const actions = getObservedLegalActions(view);
     if (actions.length === 0) {
       throw new Error('No legal actions available');
     }
     return actions[Math.floor(rng() * actions.length)];
   },
 
-  chooseDiscard(session, playerIndex, excess, rng) {
-    const player = session.players[playerIndex];
+  chooseDiscard(view, excess, rng) {
+    const player = view.players[view.playerIndex];
     return buildRandomDiscard(player, excess, rng);
   },
 };
@@ -66,9 +71,10 @@ export const RandomStrategy: SplendorAiStrategy = {
 export const GreedyStrategy: SplendorAiStrategy = {
   name: 'Greedy',
 
-  chooseTurn(session, playerIndex, rng) {
-    const player = session.players[playerIndex];
-    const actions = getLegalActions(session);
+  chooseTurn(view, rng) {
+    const player = view.players[view.playerIndex];
+    const actions = getObservedLegalActions(view);
+    const available = getObservedAvailableCards(view);
     if (actions.length === 0) {
       throw new Error('No legal actions available');
     }
@@ -78,11 +84,11 @@ export const GreedyStrategy: SplendorAiStrategy = {
     if (purchases.length > 0) {
       // Score each purchasable card
       const scored = purchases.map(a => {
-        const card = getAvailableCards(session, playerIndex).find(
+        const card = available.find(
           c => c.id === (a as { cardId: number }).cardId,
         )!;
         // Prefer high points, then noble-progress bonus
-        const nobleBonus = scoreNobleProgress(session, player, card.bonus);
+        const nobleBonus = scoreNobleProgress(view, player, card.bonus);
         return { action: a, score: card.points * 10 + nobleBonus + card.tier };
       });
       scored.sort((a, b) => b.score - a.score);
@@ -99,7 +105,7 @@ export const GreedyStrategy: SplendorAiStrategy = {
 
       for (const action of reserves) {
         if (action.type !== 'reserve' || action.cardId === null) continue;
-        const card = getAvailableCards(session, playerIndex).find(
+        const card = available.find(
           c => c.id === action.cardId,
         );
         if (!card || card.points < 2) continue;
@@ -129,11 +135,10 @@ export const GreedyStrategy: SplendorAiStrategy = {
     if (tokenActions.length > 0) {
       // Find the best card to work toward (highest points among almost-affordable)
       const bonuses = getBonuses(player);
-      const allCards = getAvailableCards(session, playerIndex);
-      let targetCard = allCards[0];
+      let targetCard = available[0];
       let bestValue = -Infinity;
 
-      for (const card of allCards) {
+      for (const card of available) {
         const eff = effectiveCost(card.cost, bonuses);
         let shortfall = 0;
         for (const c of GEM_COLORS) {
@@ -176,9 +181,8 @@ export const GreedyStrategy: SplendorAiStrategy = {
     return actions[Math.floor(rng() * actions.length)];
   },
 
-  chooseDiscard(session, playerIndex, excess, _rng) {
-    const player = session.players[playerIndex];
-    return buildSmartDiscard(session, player, playerIndex, excess);
+  chooseDiscard(view, excess, _rng) {
+    return buildSmartDiscard(view, excess);
   },
 };
 
@@ -192,16 +196,22 @@ export class SplendorAiPlayer {
     private rng: () => number = Math.random,
   ) {}
 
+  /** Choose a turn for `playerIndex`, from what that player can see. */
   chooseTurn(session: SplendorSession, playerIndex: number): TurnAction {
-    return this.strategy.chooseTurn(session, playerIndex, this.rng);
+    return this.strategy.chooseTurn(observeSplendor(session, playerIndex), this.rng);
   }
 
+  /** Choose tokens for `playerIndex` to return, from what that player can see. */
   chooseDiscard(
     session: SplendorSession,
     playerIndex: number,
     excess: number,
   ): TokenDiscard {
-    return this.strategy.chooseDiscard(session, playerIndex, excess, this.rng);
+    return this.strategy.chooseDiscard(
+      observeSplendor(session, playerIndex),
+      excess,
+      this.rng,
+    );
   }
 
   get strategyName(): string {
@@ -215,13 +225,13 @@ export class SplendorAiPlayer {
 
 /** Score how much a bonus color helps toward visiting a noble. */
 function scoreNobleProgress(
-  session: SplendorSession,
-  player: SplendorPlayerState,
+  view: SplendorObservation,
+  player: PlayerHoldings,
   bonusColor: GemColor,
 ): number {
   const bonuses = getBonuses(player);
   let bestScore = 0;
-  for (const noble of session.nobles) {
+  for (const noble of view.nobles) {
     const req = noble.requirements[bonusColor] ?? 0;
     const have = bonuses[bonusColor];
     if (req > 0 && have < req) {
@@ -242,7 +252,7 @@ function scoreNobleProgress(
 
 /** Build a random token discard. */
 function buildRandomDiscard(
-  player: SplendorPlayerState,
+  player: PlayerHoldings,
   excess: number,
   rng: () => number,
 ): TokenDiscard {
@@ -268,13 +278,12 @@ function buildRandomDiscard(
 
 /** Build a smart discard — drop tokens least useful toward target cards. */
 function buildSmartDiscard(
-  session: SplendorSession,
-  player: SplendorPlayerState,
-  playerIndex: number,
+  view: SplendorObservation,
   excess: number,
 ): TokenDiscard {
+  const player = view.players[view.playerIndex];
   const bonuses = getBonuses(player);
-  const allCards = getAvailableCards(session, playerIndex);
+  const allCards = getObservedAvailableCards(view);
 
   // Calculate usefulness of each color
   const usefulness: Record<string, number> = {};
@@ -0,0 +1,134 @@
+/**
+ * Game transcript types and recorder for Splendor.
+ *
+ * Records a JSON transcript in the shared format (see
+ * src/core-engine/Transcript.ts): the game as dealt, every turn action
+ * and token discard, and the final prestige. The initial snapshot is
+ * the game as saved by SplendorSave.ts, so a transcript of a resumed
+ * game still says where it started.
+ *
+ * Usage:
+ *   const recorder = new SplendorTranscriptRecorder(session, playerStrategies);
+ *   // ... after each executeTurn() / discardTokens() ...
+ *   recorder.recordTurn(playerIndex, action);
+ *   recorder.recordDiscard(playerIndex, discard);
+ *   // ... after the game ends ...
+ *   const transcript = recorder.finalize();
+ */
+
+import type { Transcript } from '../../src/core-engine/Transcript';
+import {
+  createTranscript,
+  finalizeTranscript,
+  recordAction,
+} from '../../src/core-engine/Transcript';
+import type { GemTokens } from './SplendorCards';
+import type { SplendorSession, TokenDiscard, TurnAction } from './SplendorGame';
+import { getPrestige, getWinnerIndex } from './SplendorGame';
+import type { SavedSplendorSession } from './SplendorSave';
+import { serializeSplendorSession } from './SplendorSave';
+import type { SplendorVariant } from './SplendorVariants';
+
+/** Game type of Splendor transcripts. */
+export const SPLENDOR_TRANSCRIPT_TYPE = 'splendor';
+
+// ── Transcript types ────────────────────────────────────────
+
+/** Tokens returned by a player over the token limit. */
+export interface TokenDiscardRecord {
+  type: 'discard';
+  tokens: GemTokens;
+}
+
+/** Any action recorded in a Splendor transcript. */
+export type SplendorTranscriptAction = TurnAction | TokenDiscardRecord;
+
+/** Final results after the game ends. */
+export interface SplendorGameResults {
+  /** Prestige per player. */
+  scores: number[];
+  /** Index of the winning player (most prestige, then fewest cards). */
+  winnerIndex: number;
+  /** Name of the winning player. */
+  winnerName: string;
+}
+
+/** Splendor's part of the shared transcript format. */
+export interface SplendorTranscriptFormat {
+  action: SplendorTranscriptAction;
+  snapshot: SavedSplendorSession;
+  variant: SplendorVariant;
+  result: SplendorGameResults;
+}
+
+/** A complete Splendor game transcript. */
+export type SplendorTranscript = Transcript<SplendorTranscriptFormat>;
+
+// ── SplendorTranscriptRecorder ──────────────────────────────
+
+/**
+ * Records a game transcript by capturing actions as they happen.
+ */
+export class SplendorTranscriptRecorder {
+  private readonly transcript: SplendorTranscript;
+  private readonly session: SplendorSession;
+
+  /**
+   * @throws If the session shuffles with an unseeded RNG (see
+   *         {@link serializeSplendorSession}).
+   */
+  constructor(
+    session: SplendorSession,
+    playerStrategies?: Array<string | undefined>,
+  ) {
+    this.session = session;
+    this.transcript = createTranscript<SplendorTranscriptFormat>({
+      gameType: SPLENDOR_TRANSCRIPT_TYPE,
+      variant: { ...session.variant },
+      seed: session.seed,
+      players: session.players.map((p, i) => ({
+        name: p.name,
+        isAI: p.isAI,
+        strategy: playerStrategies?.[i],
+      })),
+      initialSnapshot: serializeSplendorSession(session),
+    });
+  }
+
+  /**
+   * Record a turn action that was just executed. `executeTurn()` may
+   * pass the turn on, so take `playerIndex` before calling it.
+   */
+  recordTurn(playerIndex: number, action: TurnAction): void {
+    recordAction(this.transcript, playerIndex, action);
+  }
+
+  /** Record a token discard that was just made. */
+  recordDiscard(playerIndex: number, discard: TokenDiscard): void {
+    recordAction(this.transcript, playerIndex, {
+      type: 'discard',
+      tokens: { ...discard.tokens },
+    });
+  }
+
+  /**
+   * Finalize the transcript after the game ends.
+   *
+   * @returns The complete transcript.
+   */
+  finalize(): SplendorTranscript {
+    const winnerIndex = getWinnerIndex(this.session);
+    return finalizeTranscript(this.transcript, {
+      scores: this.session.players.map(getPrestige),
+      winnerIndex,
+      winnerName: this.session.players[winnerIndex].name,
+    });
+  }
+
+  /**
+   * Get the transcript in its current state (may not be finalized).
+   */
+  getTranscript(): SplendorTranscript {
+    return this.transcript;
+  }
+}
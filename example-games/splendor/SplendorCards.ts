@@ -7,9 +7,12 @@
  * - Noble tiles (10 total)
  * - Supply initialization
  *
- * Card data sourced from the official Splendor rulebook.
+ * Card data sourced from the official Splendor rulebook. Decks and
+ * nobles are shuffled with the card-system `shuffle`.
  */
 
+import { shuffle } from '../../src/card-system/Deck';
+
 // ---------------------------------------------------------------------------
 // Gem types
 // ---------------------------------------------------------------------------
@@ -100,18 +103,6 @@ export interface NobleTile {
   readonly points: number; // always 3
 }
 
-// ---------------------------------------------------------------------------
-// Deck / shuffle utilities
-// ---------------------------------------------------------------------------
-
-export function shuffleArray<T>(arr: T[], rng: () => number = Math.random): T[] {
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  return arr;
-}
-
 // ---------------------------------------------------------------------------
 // Token supply initialization
 // ---------------------------------------------------------------------------
@@ -143,7 +134,7 @@ export function selectNobles(
   playerCount: number,
   rng: () => number = Math.random,
 ): NobleTile[] {
-  const shuffled = shuffleArray([...ALL_NOBLES], rng);
+  const shuffled = shuffle([...ALL_NOBLES], rng);
   return shuffled.slice(0, playerCount + 1);
 }
 
@@ -335,9 +326,9 @@ export function createTierDecks(rng: () => number = Math.random): {
   tier3: DevelopmentCard[];
 } {
   return {
-    tier1: shuffleArray([...TIER_1_CARDS], rng),
-    tier2: shuffleArray([...TIER_2_CARDS], rng),
-    tier3: shuffleArray([...TIER_3_CARDS], rng),
+    tier1: shuffle([...TIER_1_CARDS], rng),
+    tier2: shuffle([...TIER_2_CARDS], rng),
+    tier3: shuffle([...TIER_3_CARDS], rng),
   };
 }
 
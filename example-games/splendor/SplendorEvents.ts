@@ -0,0 +1,80 @@
+/**
+ * SplendorEvents.ts
+ *
+ * Splendor's own events, emitted on the session's emitter alongside
+ * the engine's built-in lifecycle events (see GameEventEmitter.ts).
+ */
+
+import type { GemTokens, Tier } from './SplendorCards';
+
+/**
+ * Emitted when a player takes tokens from the supply.
+ */
+export interface TokensTakenPayload {
+  /** Index of the player who took the tokens. */
+  readonly playerIndex: number;
+  /** Tokens taken, by color. */
+  readonly tokens: GemTokens;
+}
+
+/**
+ * Emitted when a player reserves a development card.
+ */
+export interface CardReservedPayload {
+  /** Index of the player who reserved the card. */
+  readonly playerIndex: number;
+  /** ID of the reserved card. */
+  readonly cardId: number;
+  readonly tier: Tier;
+  /** Whether the card came face-down from the top of a tier deck. */
+  readonly fromDeck: boolean;
+  /** Whether the player received a gold token. */
+  readonly goldTaken: boolean;
+}
+
+/**
+ * Emitted when a player buys a development card.
+ */
+export interface CardPurchasedPayload {
+  /** Index of the buyer. */
+  readonly playerIndex: number;
+  /** ID of the purchased card. */
+  readonly cardId: number;
+  readonly tier: Tier;
+  /** Prestige points printed on the card. */
+  readonly points: number;
+  /** Whether the card came from the player's reserved cards. */
+  readonly fromReserve: boolean;
+  /** Tokens paid back to the supply (gold included). */
+  readonly payment: GemTokens;
+}
+
+/**
+ * Emitted when a noble visits a player.
+ */
+export interface NobleVisitedPayload {
+  /** Index of the player the noble visited. */
+  readonly playerIndex: number;
+  /** ID of the noble tile. */
+  readonly nobleId: number;
+  readonly points: number;
+}
+
+/**
+ * Emitted when a player over the token limit returns tokens.
+ */
+export interface TokensDiscardedPayload {
+  /** Index of the player who discarded. */
+  readonly playerIndex: number;
+  /** Tokens returned to the supply, by color. */
+  readonly tokens: GemTokens;
+}
+
+/** Splendor's events, for `GameEventEmitter<SplendorEventMap>`. */
+export interface SplendorEventMap {
+  'tokens-taken': TokensTakenPayload;
+  'card-reserved': CardReservedPayload;
+  'card-purchased': CardPurchasedPayload;
+  'noble-visited': NobleVisitedPayload;
+  'tokens-discarded': TokensDiscardedPayload;
+}
@@ -22,10 +22,31 @@ import {
   selectNobles,
   createTierDecks,
   MARKET_SIZE,
-  WIN_THRESHOLD,
-  MAX_RESERVED,
-  MAX_TOKENS,
+  ALL_DEVELOPMENT_CARDS,
 } from './SplendorCards';
+import type { SplendorVariant } from './SplendorVariants';
+import { SPLENDOR_VARIANTS } from './SplendorVariants';
+import { resolveVariant } from '../../src/rule-engine/Variants';
+import { createRng, randomSeed } from '../../src/core-engine/Rng';
+import { changePhase, definePhases } from '../../src/core-engine/Phases';
+import type { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import { isHiddenCard } from '../../src/core-engine/Zones';
+import type { SplendorEventMap } from './SplendorEvents';
+import type { SplendorObservation } from './SplendorObservation';
+import { observeSplendor } from './SplendorObservation';
+import type { TurnOrder } from '../../src/core-engine/TurnOrder';
+import {
+  createTurnOrder,
+  passTurn,
+  triggerFinalRound,
+} from '../../src/core-engine/TurnOrder';
+import type { CardConservation } from '../../src/rule-engine/CardConservation';
+import type { ValidationResult } from '../../src/rule-engine/RuleSet';
+import { valid, invalid, assertValid } from '../../src/rule-engine/RuleSet';
+import {
+  assertCardUniverse,
+  conserveCards,
+} from '../../src/rule-engine/CardConservation';
 
 // ---------------------------------------------------------------------------
 // Session types
@@ -40,28 +61,64 @@ export interface SplendorPlayerState {
   nobles: NobleTile[];
 }
 
+/**
+ * What a player's purchasing power depends on: their tokens and their
+ * purchased cards (for bonuses). Both a {@link SplendorPlayerState} and
+ * an observed player have them.
+ */
+export interface PlayerHoldings {
+  readonly tokens: GemTokens;
+  readonly purchasedCards: readonly DevelopmentCard[];
+}
+
 export type SplendorPhase =
   | 'playing'
   | 'final-round'
   | 'game-over';
 
+/**
+ * Splendor's phase graph. Reaching the prestige threshold starts the
+ * final round, which ends the game once the round is complete.
+ */
+export const SPLENDOR_PHASES = definePhases<SplendorPhase, SplendorSession>({
+  initial: 'playing',
+  transitions: {
+    playing: ['final-round'],
+    'final-round': ['game-over'],
+    'game-over': [],
+  },
+  turnPhases: ['playing', 'final-round'],
+});
+
 export interface MarketRow {
   visible: (DevelopmentCard | null)[];
   deck: DevelopmentCard[];
 }
 
+/**
+ * A Splendor game. It keeps its own players and phase rather than a
+ * GameState: the phases follow {@link SPLENDOR_PHASES} and the turns
+ * its {@link TurnOrder}, but not the GameState turn sequencer.
+ */
 export interface SplendorSession {
   players: SplendorPlayerState[];
   market: Record<Tier, MarketRow>;
   tokenSupply: GemTokens;
   nobles: NobleTile[];
   phase: SplendorPhase;
-  currentPlayerIndex: number;
-  /** Which player index started the game (for round-completion logic). */
-  startingPlayerIndex: number;
-  /** Index of the player who first reached WIN_THRESHOLD, or -1. */
-  triggerPlayerIndex: number;
+  /**
+   * Player now acting, seat order and the final round, which is played
+   * to the end of the round. The player who first reached the prestige
+   * target is its `triggeringPlayerIndex`.
+   */
+  turnOrder: TurnOrder;
+  /** House rules the game is played under (see SplendorVariants.ts). */
+  readonly variant: SplendorVariant;
+  /** Seed the decks and nobles were shuffled from. */
+  readonly seed: number;
   rng: () => number;
+  /** Emitter for Splendor's events and the turn order's final-round events. */
+  readonly events?: GameEventEmitter<SplendorEventMap>;
 }
 
 // ---------------------------------------------------------------------------
@@ -99,7 +156,7 @@ export type TurnAction =
   | ReserveCardAction
   | PurchaseCardAction;
 
-/** Tokens the player must return when exceeding MAX_TOKENS after a turn. */
+/** Tokens the player must return when exceeding the token limit after a turn. */
 export interface TokenDiscard {
   tokens: GemTokens;
 }
@@ -123,7 +180,10 @@ export interface SplendorSetupOptions {
   playerCount?: number; // 2-4, default 2
   playerNames?: string[];
   isAI?: boolean[]; // which players are AI
-  rng?: () => number;
+  seed?: number; // default: a fresh random seed
+  rng?: () => number; // overrides the stream derived from seed
+  events?: GameEventEmitter<SplendorEventMap>; // receives Splendor and final-round events
+  variant?: Partial<SplendorVariant>; // house rules (default: the published rules)
 }
 
 // ---------------------------------------------------------------------------
@@ -136,7 +196,9 @@ export function setupSplendorGame(options?: SplendorSetupOptions): SplendorSessi
     throw new Error(`Invalid player count: ${playerCount}. Must be 2-4.`);
   }
 
-  const rng = options?.rng ?? Math.random;
+  const variant = resolveVariant(SPLENDOR_VARIANTS, options?.variant);
+  const seed = options?.seed ?? randomSeed();
+  const rng = options?.rng ?? createRng(seed);
   const names = options?.playerNames ?? Array.from(
     { length: playerCount },
     (_, i) => i === 0 ? 'Player' : `AI ${i}`,
@@ -169,25 +231,61 @@ export function setupSplendorGame(options?: SplendorSetupOptions): SplendorSessi
     }
   }
 
-  return {
+  const session: SplendorSession = {
     players,
     market,
     tokenSupply: createTokenSupply(playerCount),
     nobles: selectNobles(playerCount, rng),
     phase: 'playing',
-    currentPlayerIndex: 0,
-    startingPlayerIndex: 0,
-    triggerPlayerIndex: -1,
+    turnOrder: createTurnOrder({
+      playerCount,
+      startingPlayerIndex: 0,
+      finalRound: 'finish-round',
+      events: options?.events,
+    }),
+    variant,
+    seed,
     rng,
+    ...(options?.events ? { events: options.events } : {}),
   };
+  assertCardUniverse(SplendorCardConservation, session);
+  return session;
 }
 
+// ---------------------------------------------------------------------------
+// Card conservation
+// ---------------------------------------------------------------------------
+
+/**
+ * Where the development cards live: each tier's deck and face-up
+ * market row, and every player's purchased and reserved cards.
+ */
+export const SplendorCardConservation: CardConservation<SplendorSession, DevelopmentCard> = {
+  name: 'Splendor',
+  universe: () => ALL_DEVELOPMENT_CARDS,
+  locations: (session) => {
+    const locations: Record<string, readonly DevelopmentCard[]> = {};
+    for (const tier of [1, 2, 3] as Tier[]) {
+      locations[`deck-${tier}`] = session.market[tier].deck;
+      locations[`market-${tier}`] = session.market[tier].visible.filter(
+        (card): card is DevelopmentCard => card !== null,
+      );
+    }
+    session.players.forEach((player, i) => {
+      locations[`purchased-${i}`] = player.purchasedCards;
+      locations[`reserved-${i}`] = player.reservedCards;
+    });
+    return locations;
+  },
+  describe: (card) => `tier ${card.tier} card #${card.id}`,
+};
+
 // ---------------------------------------------------------------------------
 // Query helpers
 // ---------------------------------------------------------------------------
 
 export function getCurrentPlayer(session: SplendorSession): SplendorPlayerState {
-  return session.players[session.currentPlayerIndex];
+  return session.players[session.turnOrder.currentPlayerIndex];
 }
 
 export function getPrestige(player: SplendorPlayerState): number {
@@ -198,7 +296,7 @@ export function getPrestige(player: SplendorPlayerState): number {
 }
 
 /** Count card bonuses by color. */
-export function getBonuses(player: SplendorPlayerState): Record<GemColor, number> {
+export function getBonuses(player: PlayerHoldings): Record<GemColor, number> {
   const bonuses: Record<GemColor, number> = {
     emerald: 0, sapphire: 0, ruby: 0, diamond: 0, onyx: 0,
   };
@@ -222,7 +320,7 @@ export function effectiveCost(
 }
 
 /** Check if a player can afford a card (using tokens + bonuses + gold). */
-export function canAfford(player: SplendorPlayerState, card: DevelopmentCard): boolean {
+export function canAfford(player: PlayerHoldings, card: DevelopmentCard): boolean {
   const bonuses = getBonuses(player);
   const eff = effectiveCost(card.cost, bonuses);
   let goldNeeded = 0;
@@ -237,7 +335,7 @@ export function canAfford(player: SplendorPlayerState, card: DevelopmentCard): b
 }
 
 /** Check if a noble's requirements are met by the player's bonuses. */
-export function nobleQualifies(player: SplendorPlayerState, noble: NobleTile): boolean {
+export function nobleQualifies(player: PlayerHoldings, noble: NobleTile): boolean {
   const bonuses = getBonuses(player);
   for (const c of GEM_COLORS) {
     if ((noble.requirements[c] ?? 0) > bonuses[c]) return false;
@@ -282,6 +380,23 @@ export function getAvailableCards(
   return cards;
 }
 
+/**
+ * Get all cards the observing player could buy: the market and their
+ * own reserved cards.
+ */
+export function getObservedAvailableCards(view: SplendorObservation): DevelopmentCard[] {
+  const cards: DevelopmentCard[] = [];
+  for (const tier of [1, 2, 3] as Tier[]) {
+    for (const card of view.market[tier]) {
+      if (card) cards.push(card);
+    }
+  }
+  for (const card of view.players[view.playerIndex].reservedCards) {
+    if (!isHiddenCard(card)) cards.push(card);
+  }
+  return cards;
+}
+
 /** Get all affordable cards for a player. */
 export function getAffordableCards(
   session: SplendorSession,
@@ -317,11 +432,19 @@ export function getWinnerIndex(session: SplendorSession): number {
 // Validation
 // ---------------------------------------------------------------------------
 
+/**
+ * Check a turn action for the current player.
+ *
+ * Rejections carry a stable code and the values behind the reason,
+ * e.g. `RESERVE_LIMIT_REACHED { have, max }`.
+ */
 export function validateAction(
   session: SplendorSession,
   action: TurnAction,
-): string | null {
-  if (session.phase === 'game-over') return 'Game is over';
+): ValidationResult {
+  if (session.phase === 'game-over') {
+    return invalid('GAME_OVER', 'Game is over');
+  }
 
   const player = getCurrentPlayer(session);
 
@@ -341,28 +464,37 @@ function validateTakeDifferent(
   session: SplendorSession,
   _player: SplendorPlayerState,
   action: TakeDifferentTokensAction,
-): string | null {
+): ValidationResult {
   const { colors } = action;
   if (colors.length === 0 || colors.length > 3) {
-    return 'Must take 1-3 tokens of different colors';
+    return invalid(
+      'WRONG_TOKEN_COUNT',
+      'Must take 1-3 tokens of different colors',
+      { count: colors.length },
+    );
   }
 
   // Check for duplicates
   if (new Set(colors).size !== colors.length) {
-    return 'Colors must be unique when taking different tokens';
+    return invalid(
+      'DUPLICATE_COLORS',
+      'Colors must be unique when taking different tokens',
+    );
   }
 
   // Check each color is a valid gem (not gold)
   for (const c of colors) {
     if (!GEM_COLORS.includes(c)) {
-      return `Invalid gem color: ${c}`;
+      return invalid('INVALID_COLOR', `Invalid gem color: ${c}`, { color: c });
     }
   }
 
   // Check supply availability
   for (const c of colors) {
     if (tokenCount(session.tokenSupply, c) <= 0) {
-      return `No ${c} tokens available in supply`;
+      return invalid('SUPPLY_EMPTY', `No ${c} tokens available in supply`, {
+        color: c,
+      });
     }
   }
 
@@ -372,65 +504,97 @@ function validateTakeDifferent(
       c => tokenCount(session.tokenSupply, c) > 0,
     );
     if (availableColors.length >= 3) {
-      return 'Must take 3 different colors when 3+ colors are available';
+      return invalid(
+        'MUST_TAKE_THREE',
+        'Must take 3 different colors when 3+ colors are available',
+        { count: colors.length, available: availableColors.length },
+      );
     }
   }
 
-  return null;
+  return valid();
 }
 
 function validateTakeSame(
   session: SplendorSession,
   _player: SplendorPlayerState,
   action: TakeSameTokensAction,
-): string | null {
+): ValidationResult {
   const { color } = action;
   if (!GEM_COLORS.includes(color)) {
-    return `Invalid gem color: ${color}`;
-  }
-  if (tokenCount(session.tokenSupply, color) < 4) {
-    return `Need at least 4 ${color} tokens in supply to take 2 (only ${tokenCount(session.tokenSupply, color)} available)`;
+    return invalid('INVALID_COLOR', `Invalid gem color: ${color}`, { color });
+  }
+  const inSupply = tokenCount(session.tokenSupply, color);
+  if (inSupply < 4) {
+    return invalid(
+      'SUPPLY_TOO_LOW',
+      `Need at least 4 ${color} tokens in supply to take 2 (only ${inSupply} available)`,
+      { color, have: inSupply, need: 4 },
+    );
   }
-  return null;
+  return valid();
 }
 
 function validateReserve(
   session: SplendorSession,
   player: SplendorPlayerState,
   action: ReserveCardAction,
-): string | null {
-  if (player.reservedCards.length >= MAX_RESERVED) {
-    return `Cannot reserve more than ${MAX_RESERVED} cards`;
+): ValidationResult {
+  const { reserveLimit } = session.variant;
+  if (player.reservedCards.length >= reserveLimit) {
+    return invalid(
+      'RESERVE_LIMIT_REACHED',
+      `Cannot reserve more than ${reserveLimit} cards`,
+      { have: player.reservedCards.length, max: reserveLimit },
+    );
   }
 
   if (action.cardId !== null) {
     // Reserve from market
     const found = findCardInMarket(session, action.cardId);
-    if (!found) return `Card ${action.cardId} not found in market`;
+    if (!found) {
+      return invalid(
+        'CARD_NOT_FOUND',
+        `Card ${action.cardId} not found in market`,
+        { cardId: action.cardId },
+      );
+    }
   } else {
     // Reserve from top of deck
-    if (!action.tier) return 'Must specify tier when reserving from deck';
-    if (![1, 2, 3].includes(action.tier)) return `Invalid tier: ${action.tier}`;
+    if (!action.tier) {
+      return invalid('TIER_REQUIRED', 'Must specify tier when reserving from deck');
+    }
+    if (![1, 2, 3].includes(action.tier)) {
+      return invalid('INVALID_TIER', `Invalid tier: ${action.tier}`, {
+        tier: action.tier,
+      });
+    }
     if (session.market[action.tier].deck.length === 0) {
-      return `Tier ${action.tier} deck is empty`;
+      return invalid('DECK_EMPTY', `Tier ${action.tier} deck is empty`, {
+        tier: action.tier,
+      });
     }
   }
 
-  return null;
+  return valid();
 }
 
 function validatePurchase(
   session: SplendorSession,
   player: SplendorPlayerState,
   action: PurchaseCardAction,
-): string | null {
+): ValidationResult {
   const { cardId } = action;
 
   // Find the card (market or reserved)
   const inMarket = findCardInMarket(session, cardId);
   const reservedIdx = findReservedCard(player, cardId);
   if (!inMarket && reservedIdx === -1) {
-    return `Card ${cardId} not found in market or reserved cards`;
+    return invalid(
+      'CARD_NOT_FOUND',
+      `Card ${cardId} not found in market or reserved cards`,
+      { cardId },
+    );
   }
 
   const card = inMarket
@@ -438,10 +602,54 @@ function validatePurchase(
     : player.reservedCards[reservedIdx];
 
   if (!canAfford(player, card)) {
-    return 'Cannot afford this card';
+    return invalid('CANNOT_AFFORD', 'Cannot afford this card', { cardId });
   }
 
-  return null;
+  return valid();
+}
+
+/**
+ * Check a token discard for the current player: it must bring them
+ * back to exactly the token limit, using tokens they hold.
+ */
+export function validateDiscard(
+  session: SplendorSession,
+  discard: TokenDiscard,
+): ValidationResult {
+  const player = getCurrentPlayer(session);
+  const { tokenLimit } = session.variant;
+  const discardTotal = totalTokens(discard.tokens);
+  const overLimit = totalTokens(player.tokens) - tokenLimit;
+
+  if (discardTotal < overLimit) {
+    return invalid(
+      'TOKEN_LIMIT_EXCEEDED',
+      `Must discard exactly ${overLimit} tokens, got ${discardTotal}`,
+      { have: totalTokens(player.tokens) - discardTotal, max: tokenLimit },
+    );
+  }
+  if (discardTotal > overLimit) {
+    return invalid(
+      'DISCARD_TOO_MANY',
+      `Must discard exactly ${Math.max(overLimit, 0)} tokens, got ${discardTotal}`,
+      { count: discardTotal, max: Math.max(overLimit, 0) },
+    );
+  }
+
+  // Validate player has these tokens
+  for (const c of ALL_TOKEN_COLORS) {
+    const amount = tokenCount(discard.tokens, c);
+    const have = tokenCount(player.tokens, c);
+    if (amount > 0 && amount > have) {
+      return invalid(
+        'NOT_ENOUGH_TOKENS',
+        `Cannot discard ${amount} ${c} tokens (only have ${have})`,
+        { color: c, count: amount, have },
+      );
+    }
+  }
+
+  return valid();
 }
 
 // ---------------------------------------------------------------------------
@@ -457,9 +665,17 @@ export function executeTurn(
   session: SplendorSession,
   action: TurnAction,
 ): TurnResult {
-  const error = validateAction(session, action);
-  if (error) throw new Error(error);
+  assertValid(validateAction(session, action), 'Splendor action');
+
+  return conserveCards(SplendorCardConservation, session, action, () =>
+    applyAction(session, action),
+  );
+}
 
+function applyAction(
+  session: SplendorSession,
+  action: TurnAction,
+): TurnResult {
   const player = getCurrentPlayer(session);
 
   switch (action.type) {
@@ -478,10 +694,17 @@ export function executeTurn(
   }
 
   // Check token limit
-  const overLimit = totalTokens(player.tokens) - MAX_TOKENS;
+  const overLimit = totalTokens(player.tokens) - session.variant.tokenLimit;
 
   // Check noble visit
   const nobleVisit = checkNobleVisit(session, player);
+  if (nobleVisit) {
+    session.events?.emit('noble-visited', {
+      playerIndex: session.turnOrder.currentPlayerIndex,
+      nobleId: nobleVisit.id,
+      points: nobleVisit.points,
+    });
+  }
 
   // If player is within token limit, advance turn
   if (overLimit <= 0) {
@@ -504,25 +727,16 @@ export function discardTokens(
   session: SplendorSession,
   discard: TokenDiscard,
 ): TurnResult {
+  assertValid(validateDiscard(session, discard), 'Splendor discard');
   const player = getCurrentPlayer(session);
-  const discardTotal = totalTokens(discard.tokens);
-  const overLimit = totalTokens(player.tokens) - MAX_TOKENS;
-
-  if (discardTotal !== overLimit) {
-    throw new Error(`Must discard exactly ${overLimit} tokens, got ${discardTotal}`);
-  }
-
-  // Validate player has these tokens
-  for (const c of ALL_TOKEN_COLORS) {
-    const amount = tokenCount(discard.tokens, c);
-    if (amount > 0 && amount > tokenCount(player.tokens, c)) {
-      throw new Error(`Cannot discard ${amount} ${c} tokens (only have ${tokenCount(player.tokens, c)})`);
-    }
-  }
 
   // Return tokens to supply
   player.tokens = subtractTokens(player.tokens, discard.tokens);
   session.tokenSupply = addTokens(session.tokenSupply, discard.tokens);
+  session.events?.emit('tokens-discarded', {
+    playerIndex: session.turnOrder.currentPlayerIndex,
+    tokens: { ...discard.tokens },
+  });
 
   // Noble visit already happened in executeTurn, so just advance
   return finishTurn(session, { type: 'take-different', colors: [] }, null);
@@ -533,10 +747,16 @@ function executeTakeDifferent(
   player: SplendorPlayerState,
   action: TakeDifferentTokensAction,
 ): void {
+  const taken: GemTokens = {};
   for (const c of action.colors) {
     player.tokens = addTokens(player.tokens, { [c]: 1 });
     session.tokenSupply = subtractTokens(session.tokenSupply, { [c]: 1 });
+    taken[c] = 1;
   }
+  session.events?.emit('tokens-taken', {
+    playerIndex: session.turnOrder.currentPlayerIndex,
+    tokens: taken,
+  });
 }
 
 function executeTakeSame(
@@ -546,6 +766,10 @@ function executeTakeSame(
 ): void {
   player.tokens = addTokens(player.tokens, { [action.color]: 2 });
   session.tokenSupply = subtractTokens(session.tokenSupply, { [action.color]: 2 });
+  session.events?.emit('tokens-taken', {
+    playerIndex: session.turnOrder.currentPlayerIndex,
+    tokens: { [action.color]: 2 },
+  });
 }
 
 function executeReserve(
@@ -570,10 +794,19 @@ function executeReserve(
   player.reservedCards.push(card);
 
   // Gain a gold token if available
-  if (tokenCount(session.tokenSupply, 'gold') > 0) {
+  const goldTaken = tokenCount(session.tokenSupply, 'gold') > 0;
+  if (goldTaken) {
     player.tokens = addTokens(player.tokens, { gold: 1 });
     session.tokenSupply = subtractTokens(session.tokenSupply, { gold: 1 });
   }
+
+  session.events?.emit('card-reserved', {
+    playerIndex: session.turnOrder.currentPlayerIndex,
+    cardId: card.id,
+    tier: card.tier,
+    fromDeck: action.cardId === null,
+    goldTaken,
+  });
 }
 
 function executePurchase(
@@ -618,6 +851,15 @@ function executePurchase(
 
   // Add card to purchased
   player.purchasedCards.push(card);
+
+  session.events?.emit('card-purchased', {
+    playerIndex: session.turnOrder.currentPlayerIndex,
+    cardId: card.id,
+    tier: card.tier,
+    points: card.points,
+    fromReserve: !inMarket,
+    payment,
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -652,20 +894,17 @@ function finishTurn(
   const prestige = getPrestige(player);
 
   // Check if this player triggered the end
-  if (session.triggerPlayerIndex === -1 && prestige >= WIN_THRESHOLD) {
-    session.triggerPlayerIndex = session.currentPlayerIndex;
-    session.phase = 'final-round';
-  }
-
-  // Advance to next player
-  const nextPlayer = (session.currentPlayerIndex + 1) % session.players.length;
-
-  // Check if the round is complete (all players have had equal turns after trigger)
   if (
-    session.phase === 'final-round' &&
-    nextPlayer === session.startingPlayerIndex
+    prestige >= session.variant.prestigeTarget &&
+    triggerFinalRound(session.turnOrder, session.turnOrder.currentPlayerIndex)
   ) {
-    session.phase = 'game-over';
+    changePhase(SPLENDOR_PHASES, session, 'final-round', session.events);
+  }
+
+  // Advance to next player; none once the final round is complete
+  // (all players have had equal turns after the trigger)
+  if (passTurn(session.turnOrder) === null) {
+    changePhase(SPLENDOR_PHASES, session, 'game-over', session.events);
     return {
       action,
       nobleVisit,
@@ -674,8 +913,6 @@ function finishTurn(
     };
   }
 
-  session.currentPlayerIndex = nextPlayer;
-
   return {
     action,
     nobleVisit,
@@ -689,14 +926,22 @@ function finishTurn(
 // ---------------------------------------------------------------------------
 
 export function getLegalActions(session: SplendorSession): TurnAction[] {
-  if (session.phase === 'game-over') return [];
+  return getObservedLegalActions(observeSplendor(session, session.turnOrder.currentPlayerIndex));
+}
 
-  const player = getCurrentPlayer(session);
+/**
+ * List the legal actions of the observing player, from what they can
+ * see. Only meaningful on the observing player's turn.
+ */
+export function getObservedLegalActions(view: SplendorObservation): TurnAction[] {
+  if (view.phase === 'game-over') return [];
+
+  const player = view.players[view.playerIndex];
   const actions: TurnAction[] = [];
 
   // 1. Take 3 different tokens
   const availColors = GEM_COLORS.filter(
-    c => tokenCount(session.tokenSupply, c) > 0,
+    c => tokenCount(view.tokenSupply, c) > 0,
   );
 
   if (availColors.length >= 3) {
@@ -722,29 +967,29 @@ export function getLegalActions(session: SplendorSession): TurnAction[] {
 
   // 2. Take 2 same tokens
   for (const c of GEM_COLORS) {
-    if (tokenCount(session.tokenSupply, c) >= 4) {
+    if (tokenCount(view.tokenSupply, c) >= 4) {
       actions.push({ type: 'take-same', color: c });
     }
   }
 
   // 3. Reserve cards
-  if (player.reservedCards.length < MAX_RESERVED) {
+  if (player.reservedCards.length < view.variant.reserveLimit) {
     // From market
     for (const tier of [1, 2, 3] as Tier[]) {
-      for (const card of session.market[tier].visible) {
+      for (const card of view.market[tier]) {
         if (card) {
           actions.push({ type: 'reserve', cardId: card.id });
         }
       }
       // From deck
-      if (session.market[tier].deck.length > 0) {
+      if (view.deckSizes[tier] > 0) {
         actions.push({ type: 'reserve', cardId: null, tier });
       }
     }
   }
 
   // 4. Purchase cards
-  const affordable = getAffordableCards(session, session.currentPlayerIndex);
+  const affordable = getObservedAvailableCards(view).filter(c => canAfford(player, c));
   for (const card of affordable) {
     actions.push({ type: 'purchase', cardId: card.id });
   }
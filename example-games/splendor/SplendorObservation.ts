@@ -0,0 +1,130 @@
+/**
+ * SplendorObservation.ts
+ *
+ * Per-player views of a Splendor session, built on the core-engine
+ * zones. The market, nobles, token supply and every player's tokens and
+ * purchased cards are public; the tier decks are hidden (only their
+ * sizes are known); reserved cards are visible to their owner only.
+ *
+ * AI strategies choose their moves from this view (see AiStrategy.ts),
+ * so they cannot peek at the decks or an opponent's blind reserves.
+ *
+ * Reserving a face-up market card is public knowledge in the physical
+ * game, but the session does not record where a reserved card came
+ * from, so all reserved cards are treated as secret.
+ */
+
+import type {
+  DevelopmentCard,
+  GemTokens,
+  NobleTile,
+  Tier,
+} from './SplendorCards';
+import type { SplendorPhase, SplendorSession } from './SplendorGame';
+import type { SplendorVariant } from './SplendorVariants';
+import type { Observed, ZoneMap } from '../../src/core-engine/Zones';
+import { observeZones } from '../../src/core-engine/Zones';
+
+const TIERS: readonly Tier[] = [1, 2, 3];
+
+// ---------------------------------------------------------------------------
+// Zones
+// ---------------------------------------------------------------------------
+
+/** Zone name of a tier's draw deck. */
+export function deckZoneName(tier: Tier): string {
+  return `deck-${tier}`;
+}
+
+/** Zone name of a player's reserved cards. */
+export function reservedZoneName(playerIndex: number): string {
+  return `reserved-${playerIndex}`;
+}
+
+/** The hidden-information zones of a session with `playerCount` players. */
+export function splendorZones(
+  playerCount: number,
+): ZoneMap<SplendorSession, DevelopmentCard> {
+  const zones: Record<string, ZoneMap<SplendorSession, DevelopmentCard>[string]> = {};
+  for (const tier of TIERS) {
+    zones[deckZoneName(tier)] = {
+      visibility: 'hidden',
+      cards: (session) => session.market[tier].deck,
+    };
+  }
+  for (let i = 0; i < playerCount; i++) {
+    zones[reservedZoneName(i)] = {
+      visibility: 'owner-only',
+      owner: i,
+      cards: (session) => session.players[i].reservedCards,
+    };
+  }
+  return zones;
+}
+
+// ---------------------------------------------------------------------------
+// Observation
+// ---------------------------------------------------------------------------
+
+export interface ObservedSplendorPlayer {
+  readonly name: string;
+  readonly isAI: boolean;
+  readonly tokens: GemTokens;
+  readonly purchasedCards: readonly DevelopmentCard[];
+  /** Reserved cards; an opponent's are hidden placeholders. */
+  readonly reservedCards: readonly Observed<DevelopmentCard>[];
+  readonly nobles: readonly NobleTile[];
+}
+
+export interface SplendorObservation {
+  readonly playerIndex: number;
+  readonly players: readonly ObservedSplendorPlayer[];
+  /** Face-up market cards per tier (null marks an empty slot). */
+  readonly market: Readonly<Record<Tier, readonly (DevelopmentCard | null)[]>>;
+  /** Cards left in each tier's deck. */
+  readonly deckSizes: Readonly<Record<Tier, number>>;
+  readonly tokenSupply: GemTokens;
+  readonly nobles: readonly NobleTile[];
+  readonly phase: SplendorPhase;
+  readonly currentPlayerIndex: number;
+  /** House rules, which every player knows. */
+  readonly variant: SplendorVariant;
+}
+
+/** Project a session for one player. */
+export function observeSplendor(
+  session: SplendorSession,
+  playerIndex: number,
+): SplendorObservation {
+  const zones = observeZones(
+    session,
+    splendorZones(session.players.length),
+    playerIndex,
+  );
+  return {
+    playerIndex,
+    players: session.players.map((player, i) => ({
+      name: player.name,
+      isAI: player.isAI,
+      tokens: { ...player.tokens },
+      purchasedCards: [...player.purchasedCards],
+      reservedCards: zones[reservedZoneName(i)].cards,
+      nobles: [...player.nobles],
+    })),
+    market: {
+      1: [...session.market[1].visible],
+      2: [...session.market[2].visible],
+      3: [...session.market[3].visible],
+    },
+    deckSizes: {
+      1: zones[deckZoneName(1)].size,
+      2: zones[deckZoneName(2)].size,
+      3: zones[deckZoneName(3)].size,
+    },
+    tokenSupply: { ...session.tokenSupply },
+    nobles: [...session.nobles],
+    phase: session.phase,
+    currentPlayerIndex: session.turnOrder.currentPlayerIndex,
+    variant: { ...session.variant },
+  };
+}
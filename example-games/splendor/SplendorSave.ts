@@ -0,0 +1,150 @@
+/**
+ * Saving and resuming Splendor games (see src/core-engine/SavedGame.ts).
+ *
+ * Development cards and nobles are fixed sets, so a saved game lists
+ * them by id and restoring looks them up in ALL_DEVELOPMENT_CARDS and
+ * ALL_NOBLES. The shuffle RNG is saved as an {@link RngState} and the
+ * turn order as a {@link TurnOrderSnapshot}.
+ */
+
+import type { CardLike } from '../../src/card-system/Card';
+import type { RngState } from '../../src/core-engine/Rng';
+import { requireRngState, restoreRng } from '../../src/core-engine/Rng';
+import type { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import type { TurnOrderSnapshot } from '../../src/core-engine/TurnOrder';
+import { cardLookup } from '../../src/core-engine/TranscriptTypes';
+import {
+  createTurnOrder,
+  restoreTurnOrder,
+  snapshotTurnOrder,
+} from '../../src/core-engine/TurnOrder';
+import { checkCardUniverse } from '../../src/rule-engine/CardConservation';
+import { resolveVariant } from '../../src/rule-engine/Variants';
+import type { GemTokens, Tier } from './SplendorCards';
+import { ALL_DEVELOPMENT_CARDS, ALL_NOBLES } from './SplendorCards';
+import type { SplendorEventMap } from './SplendorEvents';
+import type { SplendorPhase, SplendorSession } from './SplendorGame';
+import { SplendorCardConservation } from './SplendorGame';
+import type { SplendorVariant } from './SplendorVariants';
+import { SPLENDOR_VARIANTS } from './SplendorVariants';
+
+/** Save key of Splendor in a SavedGameStore. */
+export const SPLENDOR_SAVE_KEY = 'splendor';
+
+/** A Splendor player as saved, with cards and nobles by id. */
+export interface SavedSplendorPlayer {
+  name: string;
+  isAI: boolean;
+  tokens: GemTokens;
+  purchasedCards: number[];
+  reservedCards: number[];
+  nobles: number[];
+}
+
+/** A market tier as saved: face-up card ids (null for an empty slot) and the deck, bottom to top. */
+export interface SavedMarketRow {
+  visible: (number | null)[];
+  deck: number[];
+}
+
+/** A Splendor game as saved. */
+export interface SavedSplendorSession {
+  players: SavedSplendorPlayer[];
+  market: Record<Tier, SavedMarketRow>;
+  tokenSupply: GemTokens;
+  nobles: number[];
+  phase: SplendorPhase;
+  turnOrder: TurnOrderSnapshot;
+  variant: SplendorVariant;
+  seed: number;
+  rng: RngState;
+}
+
+const TIERS: readonly Tier[] = [1, 2, 3];
+
+const ids = (items: readonly CardLike[]) => items.map((item) => item.id);
+
+/**
+ * Convert a Splendor game to plain data.
+ *
+ * @throws If the session shuffles with an unseeded RNG (see
+ *         {@link requireRngState}).
+ */
+export function serializeSplendorSession(session: SplendorSession): SavedSplendorSession {
+  const market = {} as Record<Tier, SavedMarketRow>;
+  for (const tier of TIERS) {
+    market[tier] = {
+      visible: session.market[tier].visible.map((card) => card?.id ?? null),
+      deck: ids(session.market[tier].deck),
+    };
+  }
+  return {
+    players: session.players.map((p) => ({
+      name: p.name,
+      isAI: p.isAI,
+      tokens: { ...p.tokens },
+      purchasedCards: ids(p.purchasedCards),
+      reservedCards: ids(p.reservedCards),
+      nobles: ids(p.nobles),
+    })),
+    market,
+    tokenSupply: { ...session.tokenSupply },
+    nobles: ids(session.nobles),
+    phase: session.phase,
+    turnOrder: snapshotTurnOrder(session.turnOrder),
+    variant: { ...session.variant },
+    seed: session.seed,
+    rng: requireRngState(session.rng),
+  };
+}
+
+/**
+ * Rebuild a Splendor game from saved data.
+ *
+ * @throws If the save is inconsistent (unknown card or noble ids,
+ *         invalid variant, or cards missing or duplicated).
+ */
+export function deserializeSplendorSession(
+  saved: SavedSplendorSession,
+  events?: GameEventEmitter<SplendorEventMap>,
+): SplendorSession {
+  const card = cardLookup(ALL_DEVELOPMENT_CARDS, 'development card');
+  const noble = cardLookup(ALL_NOBLES, 'noble');
+
+  const market = {} as SplendorSession['market'];
+  for (const tier of TIERS) {
+    market[tier] = {
+      visible: saved.market[tier].visible.map((id) => (id === null ? null : card(id))),
+      deck: saved.market[tier].deck.map(card),
+    };
+  }
+  const turnOrder = createTurnOrder({
+    playerCount: saved.players.length,
+    startingPlayerIndex: saved.turnOrder.startingPlayerIndex,
+    finalRound: saved.turnOrder.finalRound,
+    events,
+  });
+  restoreTurnOrder(turnOrder, saved.turnOrder);
+
+  const session: SplendorSession = {
+    players: saved.players.map((p) => ({
+      name: p.name,
+      isAI: p.isAI,
+      tokens: { ...p.tokens },
+      purchasedCards: p.purchasedCards.map(card),
+      reservedCards: p.reservedCards.map(card),
+      nobles: p.nobles.map(noble),
+    })),
+    market,
+    tokenSupply: { ...saved.tokenSupply },
+    nobles: saved.nobles.map(noble),
+    phase: saved.phase,
+    turnOrder,
+    variant: resolveVariant(SPLENDOR_VARIANTS, saved.variant),
+    seed: saved.seed,
+    rng: restoreRng(saved.rng),
+    ...(events ? { events } : {}),
+  };
+  checkCardUniverse(SplendorCardConservation, session);
+  return session;
+}
@@ -0,0 +1,64 @@
+/**
+ * SplendorVariants.ts
+ *
+ * House rules for Splendor: the prestige that starts the final round
+ * and the token and reserve limits. The defaults are the published
+ * rules (WIN_THRESHOLD, MAX_TOKENS and MAX_RESERVED).
+ */
+
+import {
+  defaultVariant,
+  defineVariants,
+} from '../../src/rule-engine/Variants';
+import {
+  WIN_THRESHOLD,
+  MAX_RESERVED,
+  MAX_TOKENS,
+} from './SplendorCards';
+
+/** A resolved set of Splendor house rules. */
+export interface SplendorVariant {
+  /** Prestige points that trigger the final round. */
+  prestigeTarget: number;
+  /** Maximum total tokens a player may hold at the end of a turn. */
+  tokenLimit: number;
+  /** Maximum number of reserved cards a player can hold. */
+  reserveLimit: number;
+}
+
+/** Splendor's house-rule options and well-known variants. */
+export const SPLENDOR_VARIANTS = defineVariants<SplendorVariant>({
+  game: 'Splendor',
+  options: {
+    prestigeTarget: {
+      kind: 'number',
+      label: 'Prestige to win',
+      default: WIN_THRESHOLD,
+      min: 5,
+      max: 30,
+    },
+    tokenLimit: {
+      kind: 'number',
+      label: 'Token limit',
+      default: MAX_TOKENS,
+      min: 6,
+      max: 15,
+    },
+    reserveLimit: {
+      kind: 'number',
+      label: 'Reserve limit',
+      default: MAX_RESERVED,
+      min: 1,
+      max: 5,
+    },
+  },
+  presets: {
+    'short-game': { label: 'Short Game (10)', options: { prestigeTarget: 10 } },
+    'long-game': { label: 'Long Game (21)', options: { prestigeTarget: 21 } },
+    'tight-purse': { label: 'Tight Purse', options: { tokenLimit: 8 } },
+  },
+});
+
+/** The published rules. */
+export const STANDARD_SPLENDOR_VARIANT: SplendorVariant =
+  defaultVariant(SPLENDOR_VARIANTS);
@@ -11,6 +11,7 @@
  *   - Gem discard dialog when over 10 tokens
  *   - Game-over overlay with scores and replay/menu buttons
  *   - Help panel and settings panel integration
+ *   - Game saved at the start of each of your turns, resumable after a reload
  */
 
 import Phaser from 'phaser';
@@ -38,18 +39,43 @@ import {
   canAfford,
   isGameOver,
   getWinnerIndex,
+  validateAction,
+  validateDiscard,
 } from '../SplendorGame';
+import type { SavedSplendorSession } from '../SplendorSave';
+import {
+  SPLENDOR_SAVE_KEY,
+  serializeSplendorSession,
+  deserializeSplendorSession,
+} from '../SplendorSave';
 import { SplendorAiPlayer, GreedyStrategy } from '../AiStrategy';
+import { SplendorTranscriptRecorder } from '../GameTranscript';
+import type { SplendorTranscript } from '../GameTranscript';
 import { GameEventEmitter } from '../../../src/core-engine/GameEventEmitter';
 import { PhaserEventBridge } from '../../../src/core-engine/PhaserEventBridge';
+import { EventRecorder, TranscriptStoreEventSink } from '../../../src/core-engine/EventLog';
+import { TranscriptStore } from '../../../src/core-engine/TranscriptStore';
 import { SoundManager } from '../../../src/core-engine/SoundManager';
 import type { SoundPlayer, EventSoundMapping } from '../../../src/core-engine/SoundManager';
+import { createRng, restoreRng, randomSeed } from '../../../src/core-engine/Rng';
+import type { Rng, RngState } from '../../../src/core-engine/Rng';
+import { resolveSceneSeed } from '../../../src/core-engine/DealCode';
+import type { SeedSceneData } from '../../../src/core-engine/DealCode';
+import { SavedGameStore } from '../../../src/core-engine/SavedGame';
+import type { ResumeSceneData } from '../../../src/core-engine/SavedGame';
+import { presetVariant } from '../../../src/rule-engine/Variants';
+import type { VariantSceneData } from '../../../src/rule-engine/Variants';
+import { rejectionMessage } from '../../../src/rule-engine/RuleSet';
+import type { RejectionMessages } from '../../../src/rule-engine/RuleSet';
+import { SPLENDOR_VARIANTS } from '../SplendorVariants';
+import type { SplendorEventMap } from '../SplendorEvents';
 import {
   HelpPanel, HelpButton,
   SettingsPanel, SettingsButton,
   GAME_W, GAME_H, FONT_FAMILY,
   createOverlayBackground, createOverlayButton, createOverlayMenuButton,
   createSceneTitle, createSceneMenuButton,
+  createDealCodeLabel,
 } from '../../../src/ui';
 import type { HelpSection } from '../../../src/ui';
 import helpContent from '../help-content.json';
@@ -58,6 +84,16 @@ import helpContent from '../help-content.json';
 
 const ANIM_DURATION = 400;
 
+// Toast wording for common rejections (others show the rule's reason)
+const REJECTION_MESSAGES: RejectionMessages = {
+  RESERVE_LIMIT_REACHED: 'Max {max} reserved cards!',
+  CANNOT_AFFORD: "You can't afford that card",
+  MUST_TAKE_THREE: 'Pick 3 different colors',
+  SUPPLY_TOO_LOW: 'Need 4 {color} in the supply to take 2',
+  TOKEN_LIMIT_EXCEEDED: 'Discard down to {max} tokens ({have} left)',
+  DISCARD_TOO_MANY: 'Discard only {max} tokens',
+};
+
 // Gem color to hex fill
 const GEM_FILL: Record<GemOrGold, number> = {
   emerald:  0x2ecc71,
@@ -171,11 +207,37 @@ type TurnPhase =
 
 // ── Scene ───────────────────────────────────────────────────
 
+/** Shared TranscriptStore instance for the Splendor game. */
+const transcriptStore = new TranscriptStore();
+
+/** Persistent log of every Splendor event, shared by all sessions. */
+const eventLogSink = new TranscriptStoreEventSink();
+
+/** The in-progress game, kept across page reloads. */
+const savedGames = new SavedGameStore();
+
+/** A Splendor game in progress, as saved between page loads. */
+interface SplendorSaveData {
+  session: SavedSplendorSession;
+  aiRng: RngState;
+  /** House-rule preset the game was started with, if any. */
+  variantName?: string;
+}
+
 export class SplendorScene extends Phaser.Scene {
   // Game state
   private session!: SplendorSession;
   private aiPlayer!: SplendorAiPlayer;
+  /** The AI's random stream, saved with the game. */
+  private aiRng!: Rng;
+  private recorder!: SplendorTranscriptRecorder;
+  /** Saved game to resume (see init()). */
+  private resumedSave: SplendorSaveData | null = null;
   private turnPhase: TurnPhase = 'player-turn';
+  /** Seed of the current deal (see init()). */
+  private seed: number = 0;
+  /** House-rule preset chosen in the game selector (see init()). */
+  private variantName: string | undefined;
 
   // Token selection state
   private selectedTokens: GemColor[] = [];
@@ -183,8 +245,9 @@ export class SplendorScene extends Phaser.Scene {
   private discardNeeded = 0;
 
   // Event system
-  private gameEvents!: GameEventEmitter;
-  private eventBridge!: PhaserEventBridge;
+  private gameEvents!: GameEventEmitter<SplendorEventMap>;
+  private eventBridge!: PhaserEventBridge<SplendorEventMap>;
+  private eventRecorder: EventRecorder<SplendorEventMap> | null = null;
   private soundManager: SoundManager | null = null;
 
   // Display containers
@@ -214,6 +277,20 @@ export class SplendorScene extends Phaser.Scene {
     super({ key: 'SplendorScene' });
   }
 
+  /**
+   * Pick the deal seed: a `{ seed }` start payload (game selector,
+   * "Replay Deal"), else `?deal=` / `?seed=` in the URL, else random.
+   * A `{ variant }` payload picks the house rules, and a `{ resume }`
+   * payload loads the game saved by an earlier visit.
+   */
+  init(data: SeedSceneData & VariantSceneData & ResumeSceneData): void {
+    this.seed = resolveSceneSeed(data, window.location.search);
+    this.variantName = data?.variant;
+    this.resumedSave = data?.resume
+      ? savedGames.load<SplendorSaveData>(SPLENDOR_SAVE_KEY)?.state ?? null
+      : null;
+  }
+
   // ── Preload ─────────────────────────────────────────────
 
   preload(): void {
@@ -238,8 +315,14 @@ export class SplendorScene extends Phaser.Scene {
     this.overlayObjects = [];
 
     // Event system
-    this.gameEvents = new GameEventEmitter();
+    this.gameEvents = new GameEventEmitter<SplendorEventMap>();
     this.eventBridge = new PhaserEventBridge(this.gameEvents, this.events);
+    this.eventRecorder = new EventRecorder(this.gameEvents, {
+      gameType: 'splendor',
+      sinks: [eventLogSink],
+    });
+    // Phaser does not call shutdown() by itself
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
 
     // Sound system
     const phaserSound = this.sound;
@@ -253,31 +336,48 @@ export class SplendorScene extends Phaser.Scene {
     for (const sfxKey of Object.values(SFX_KEYS)) {
       this.soundManager.register(sfxKey);
     }
-    const mapping: EventSoundMapping = {
-      'card-drawn': SFX_KEYS.TOKEN_TAKE,
+    const mapping: EventSoundMapping<SplendorEventMap> = {
+      'tokens-taken': SFX_KEYS.TOKEN_TAKE,
+      'card-reserved': SFX_KEYS.CARD_RESERVE,
+      'card-purchased': SFX_KEYS.CARD_PURCHASE,
+      'noble-visited': SFX_KEYS.NOBLE_VISIT,
       'turn-started': SFX_KEYS.TURN_CHANGE,
       'game-ended': SFX_KEYS.GAME_END,
     };
     this.soundManager.connectToEvents(this.gameEvents, mapping);
 
-    // Setup game
-    this.session = setupSplendorGame({
-      playerCount: 2,
-      playerNames: ['You', 'AI'],
-      isAI: [false, true],
-    });
-    this.aiPlayer = new SplendorAiPlayer(GreedyStrategy);
+    // Setup game: resume the saved game, or start a new one
+    const resumed = this.resumeSavedGame();
+    this.session =
+      resumed?.session ??
+      setupSplendorGame({
+        playerCount: 2,
+        playerNames: ['You', 'AI'],
+        isAI: [false, true],
+        seed: this.seed,
+        events: this.gameEvents,
+        variant: presetVariant(SPLENDOR_VARIANTS, this.variantName),
+      });
+    this.seed = this.session.seed;
+    this.aiRng = resumed?.aiRng ?? createRng(this.session.seed).fork('ai');
+    this.aiPlayer = new SplendorAiPlayer(GreedyStrategy, this.aiRng);
+    this.recorder = new SplendorTranscriptRecorder(this.session, [
+      undefined,
+      GreedyStrategy.name,
+    ]);
 
     // Create UI
     this.createHeader();
     this.createContainers();
     this.createInstructions();
+    createDealCodeLabel(this, this.seed, { y: INSTRUCTION_Y });
     this.createPrestigeDisplay();
     this.createHelpPanel();
     this.createSettingsPanel();
 
     // Initial render
     this.refreshAll();
+    this.saveProgress();
     this.setPhase('player-turn');
   }
 
@@ -1220,12 +1320,6 @@ export class SplendorScene extends Phaser.Scene {
   private onReserveDeck(tier: Tier): void {
     if (this.turnPhase !== 'player-turn') return;
 
-    const player = this.session.players[0];
-    if (player.reservedCards.length >= 3) {
-      this.showToast('Max 3 reserved cards!');
-      return;
-    }
-
     const action: TurnAction = { type: 'reserve', cardId: null, tier };
     this.executeAction(action);
   }
@@ -1263,7 +1357,7 @@ export class SplendorScene extends Phaser.Scene {
     }
 
     const player = this.session.players[0];
-    if (player.reservedCards.length < 3) {
+    if (player.reservedCards.length < this.session.variant.reserveLimit) {
       const resBtn = createOverlayButton(this, bx, GAME_H / 2 + 40, '[ Reserve ]');
       resBtn.on('pointerdown', () => {
         this.dismissOverlay();
@@ -1299,24 +1393,29 @@ export class SplendorScene extends Phaser.Scene {
   }
 
   private executeReserve(cardId: number): void {
-    this.soundManager?.play(SFX_KEYS.CARD_RESERVE);
     const action: TurnAction = { type: 'reserve', cardId };
     this.executeAction(action);
   }
 
   private executePurchase(cardId: number): void {
-    this.soundManager?.play(SFX_KEYS.CARD_PURCHASE);
     const action: TurnAction = { type: 'purchase', cardId };
     this.executeAction(action);
   }
 
   private executeAction(action: TurnAction): void {
+    const check = validateAction(this.session, action);
+    if (!check.valid) {
+      this.showToast(rejectionMessage(check, REJECTION_MESSAGES));
+      this.setPhase('player-turn');
+      return;
+    }
+
     try {
+      const playerIndex = this.session.turnOrder.currentPlayerIndex;
       const result = executeTurn(this.session, action);
+      this.recorder.recordTurn(playerIndex, action);
 
-      // Play noble visit sound
       if (result.nobleVisit) {
-        this.soundManager?.play(SFX_KEYS.NOBLE_VISIT);
         this.showToast(`Noble visits you! +3 prestige`);
       }
 
@@ -1336,8 +1435,17 @@ export class SplendorScene extends Phaser.Scene {
   }
 
   private executeDiscard(): void {
+    const discard = { tokens: this.discardSelection as Record<string, number> };
+    const check = validateDiscard(this.session, discard);
+    if (!check.valid) {
+      this.showToast(rejectionMessage(check, REJECTION_MESSAGES));
+      return;
+    }
+
     try {
-      const result = discardTokens(this.session, { tokens: this.discardSelection as Record<string, number> });
+      const playerIndex = this.session.turnOrder.currentPlayerIndex;
+      const result = discardTokens(this.session, discard);
+      this.recorder.recordDiscard(playerIndex, discard);
       this.discardContainer.removeAll(true);
       this.afterTurnComplete(result);
     } catch (err) {
@@ -1358,13 +1466,14 @@ export class SplendorScene extends Phaser.Scene {
     }
 
     // Check if next player is AI
-    if (this.session.players[this.session.currentPlayerIndex].isAI) {
+    if (this.session.players[this.session.turnOrder.currentPlayerIndex].isAI) {
       this.setPhase('ai-turn');
       this.time.delayedCall(ANIM_DURATION + 200, () => {
         this.executeAiTurn();
       });
     } else {
       this.time.delayedCall(ANIM_DURATION, () => {
+        this.saveProgress();
         this.gameEvents.emit('turn-started', {
           turnNumber: 0,
           playerIndex: 0,
@@ -1379,11 +1488,12 @@ export class SplendorScene extends Phaser.Scene {
   // ── AI turn ─────────────────────────────────────────────
 
   private executeAiTurn(): void {
-    const aiIndex = this.session.currentPlayerIndex;
+    const aiIndex = this.session.turnOrder.currentPlayerIndex;
     const action = this.aiPlayer.chooseTurn(this.session, aiIndex);
 
     try {
       const result = executeTurn(this.session, action);
+      this.recorder.recordTurn(aiIndex, action);
 
       // Handle AI discard
       if (result.tokensOverLimit > 0) {
@@ -1391,6 +1501,7 @@ export class SplendorScene extends Phaser.Scene {
           this.session, aiIndex, result.tokensOverLimit,
         );
         discardTokens(this.session, discard);
+        this.recorder.recordDiscard(aiIndex, discard);
       }
 
       if (result.nobleVisit) {
@@ -1407,11 +1518,12 @@ export class SplendorScene extends Phaser.Scene {
       }
 
       // Next player's turn
-      if (this.session.players[this.session.currentPlayerIndex].isAI) {
+      if (this.session.players[this.session.turnOrder.currentPlayerIndex].isAI) {
         // Another AI turn (shouldn't happen in 2-player but safe)
         this.time.delayedCall(ANIM_DURATION, () => this.executeAiTurn());
       } else {
         this.time.delayedCall(ANIM_DURATION, () => {
+          this.saveProgress();
           this.gameEvents.emit('turn-started', {
             turnNumber: 0,
             playerIndex: 0,
@@ -1428,9 +1540,68 @@ export class SplendorScene extends Phaser.Scene {
     }
   }
 
+  // ── Saved game ──────────────────────────────────────────
+
+  /**
+   * Rebuild the game requested by a `{ resume }` payload. A save that
+   * no longer loads is discarded and a new game starts instead.
+   */
+  private resumeSavedGame(): { session: SplendorSession; aiRng: Rng } | null {
+    const saved = this.resumedSave;
+    this.resumedSave = null;
+    if (!saved) return null;
+    try {
+      const resumed = {
+        session: deserializeSplendorSession(saved.session, this.gameEvents),
+        aiRng: restoreRng(saved.aiRng),
+      };
+      this.variantName = saved.variantName;
+      return resumed;
+    } catch (err) {
+      console.warn('[SplendorScene] Discarding saved game that failed to load:', err);
+      savedGames.clear(SPLENDOR_SAVE_KEY);
+      return null;
+    }
+  }
+
+  /** Save the game so it can be resumed after a page reload. */
+  private saveProgress(): void {
+    const data: SplendorSaveData = {
+      session: serializeSplendorSession(this.session),
+      aiRng: this.aiRng.getState(),
+      ...(this.variantName ? { variantName: this.variantName } : {}),
+    };
+    savedGames.save(SPLENDOR_SAVE_KEY, data);
+  }
+
+  // ── Transcript persistence ──────────────────────────────
+
+  /**
+   * Auto-save a finalized transcript to browser storage.
+   * Fires and forgets -- errors are logged but do not disrupt gameplay.
+   */
+  private autoSaveTranscript(transcript: SplendorTranscript): void {
+    transcriptStore.saveTranscript(transcript).then(
+      (stored) => {
+        if (stored) {
+          console.info(
+            `[SplendorScene] Transcript saved (${stored.id}) via ${stored.gameType}`,
+          );
+        } else {
+          console.warn('[SplendorScene] Transcript not saved -- no storage backend available');
+        }
+      },
+      (err) => {
+        console.error('[SplendorScene] Failed to auto-save transcript:', err);
+      },
+    );
+  }
+
   // ── Game over ───────────────────────────────────────────
 
   private showGameOverOverlay(): void {
+    savedGames.clear(SPLENDOR_SAVE_KEY);
+    this.autoSaveTranscript(this.recorder.finalize());
     this.setPhase('game-over');
     this.soundManager?.play(SFX_KEYS.GAME_END);
 
@@ -1475,19 +1646,30 @@ export class SplendorScene extends Phaser.Scene {
       .setDepth(11);
     this.overlayObjects.push(text);
 
-    // Play again
+    // Play again (new deal)
     const playBtn = createOverlayButton(
-      this, GAME_W / 2 - 80, GAME_H / 2 + 110, '[ Play Again ]',
+      this, GAME_W / 2 - 160, GAME_H / 2 + 110, '[ Play Again ]',
     );
     playBtn.on('pointerdown', () => {
       this.soundManager?.play(SFX_KEYS.UI_CLICK);
       this.dismissOverlay();
-      this.scene.restart();
+      this.scene.restart({ seed: randomSeed(), variant: this.variantName });
     });
     this.overlayObjects.push(playBtn);
 
+    // Replay deal (same seed)
+    const replayBtn = createOverlayButton(
+      this, GAME_W / 2, GAME_H / 2 + 110, '[ Replay Deal ]',
+    );
+    replayBtn.on('pointerdown', () => {
+      this.soundManager?.play(SFX_KEYS.UI_CLICK);
+      this.dismissOverlay();
+      this.scene.restart({ seed: this.seed, variant: this.variantName });
+    });
+    this.overlayObjects.push(replayBtn);
+
     // Menu
-    const menuBtn = createOverlayMenuButton(this, GAME_W / 2 + 80, GAME_H / 2 + 110);
+    const menuBtn = createOverlayMenuButton(this, GAME_W / 2 + 160, GAME_H / 2 + 110);
     this.overlayObjects.push(menuBtn);
   }
 
@@ -1524,6 +1706,10 @@ export class SplendorScene extends Phaser.Scene {
   shutdown(): void {
     this.soundManager?.destroy();
     this.soundManager = null;
+    this.eventRecorder?.stop().catch((err) => {
+      console.error('[SplendorScene] Failed to save the event log:', err);
+    });
+    this.eventRecorder = null;
     this.eventBridge?.destroy();
     this.gameEvents?.removeAllListeners();
     this.helpPanel?.destroy();
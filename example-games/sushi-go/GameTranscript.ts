@@ -0,0 +1,141 @@
+/**
+ * Game transcript types and recorder for Sushi Go!.
+ *
+ * Records a JSON transcript in the shared format (see
+ * src/core-engine/Transcript.ts): the game as dealt, every revealed
+ * pick and the final scores. The initial snapshot is the game as saved
+ * by SushiGoSave.ts, so a transcript of a resumed game still says
+ * where it started.
+ *
+ * Usage:
+ *   const recorder = new SushiGoTranscriptRecorder(session, playerStrategies);
+ *   // ... after each revealPicks() ...
+ *   recorder.recordPicks(picks);
+ *   // ... after the last round is scored ...
+ *   const transcript = recorder.finalize();
+ */
+
+import type { Transcript } from '../../src/core-engine/Transcript';
+import {
+  createTranscript,
+  finalizeTranscript,
+  recordAction,
+} from '../../src/core-engine/Transcript';
+import type { PickAction, SushiGoSession } from './SushiGoGame';
+import {
+  getCurrentRound,
+  getTotalScores,
+  getWinnerIndex,
+} from './SushiGoGame';
+import type { SavedSushiGoSession } from './SushiGoSave';
+import { serializeSushiGoSession } from './SushiGoSave';
+
+/** Game type of Sushi Go! transcripts. */
+export const SUSHI_GO_TRANSCRIPT_TYPE = 'sushi-go';
+
+// ── Transcript types ────────────────────────────────────────
+
+/** One player's revealed pick. */
+export interface SushiGoPickRecord {
+  /** Round the pick was made in (0-based). */
+  round: number;
+  /** Turn within the round (0-based). */
+  turn: number;
+  /** The pick, as indices into the player's hand at the time. */
+  pick: PickAction;
+}
+
+/** Final results after the game ends. */
+export interface SushiGoGameResults {
+  /** Total scores per player. */
+  scores: number[];
+  /** Index of the winning player (highest score). */
+  winnerIndex: number;
+  /** Name of the winning player. */
+  winnerName: string;
+}
+
+/**
+ * Sushi Go!'s part of the shared transcript format. The game has no
+ * house rules, so the variant is always null.
+ */
+export interface SushiGoTranscriptFormat {
+  action: SushiGoPickRecord;
+  snapshot: SavedSushiGoSession;
+  variant: null;
+  result: SushiGoGameResults;
+}
+
+/** A complete Sushi Go! game transcript. */
+export type SushiGoTranscript = Transcript<SushiGoTranscriptFormat>;
+
+// ── SushiGoTranscriptRecorder ───────────────────────────────
+
+/**
+ * Records a game transcript by capturing each turn's picks as they
+ * are revealed.
+ */
+export class SushiGoTranscriptRecorder {
+  private readonly transcript: SushiGoTranscript;
+  private readonly session: SushiGoSession;
+
+  /**
+   * @throws If the session shuffles with an unseeded RNG (see
+   *         {@link serializeSushiGoSession}).
+   */
+  constructor(
+    session: SushiGoSession,
+    playerStrategies?: Array<string | undefined>,
+  ) {
+    this.session = session;
+    this.transcript = createTranscript<SushiGoTranscriptFormat>({
+      gameType: SUSHI_GO_TRANSCRIPT_TYPE,
+      variant: null,
+      seed: session.seed,
+      players: session.players.map((p, i) => ({
+        name: p.name,
+        isAI: p.isAI,
+        strategy: playerStrategies?.[i],
+      })),
+      initialSnapshot: serializeSushiGoSession(session),
+    });
+  }
+
+  /**
+   * Record the picks that were just revealed, one action per player.
+   *
+   * Call this immediately after `revealPicks()`.
+   */
+  recordPicks(picks: readonly PickAction[]): void {
+    // revealPicks() has already moved on to the next turn
+    const turn = this.session.currentTurn - 1;
+    picks.forEach((pick, i) => {
+      recordAction(this.transcript, i, {
+        round: getCurrentRound(this.session),
+        turn,
+        pick: { ...pick },
+      });
+    });
+  }
+
+  /**
+   * Finalize the transcript after the last round is scored.
+   *
+   * @returns The complete transcript.
+   */
+  finalize(): SushiGoTranscript {
+    const winnerIndex = getWinnerIndex(this.session);
+    return finalizeTranscript(this.transcript, {
+      scores: getTotalScores(this.session),
+      winnerIndex,
+      winnerName: this.session.players[winnerIndex].name,
+    });
+  }
+
+  /**
+   * Get the transcript in its current state (may not be finalized).
+   */
+  getTranscript(): SushiGoTranscript {
+    return this.transcript;
+  }
+}
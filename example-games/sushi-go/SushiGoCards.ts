@@ -12,9 +12,14 @@
  *   - Chopsticks (x4)
  *
  * Unlike the standard card-system Card (rank/suit), Sushi Go! uses
- * a custom card type with game-specific properties.
+ * a custom card type with game-specific properties. The deck is
+ * described by a card-system DeckComposition and built (and shuffled)
+ * with the shared deck operations.
  */
 
+import type { DeckComposition } from '../../src/card-system/Deck';
+import { buildDeck, compositionSize } from '../../src/card-system/Deck';
+
 // ── Card type discriminants ────────────────────────────────
 
 export type SushiGoCardType =
@@ -109,10 +114,7 @@ export function cardLabel(card: SushiGoCard): string {
 // ── Deck composition ────────────────────────────────────────
 
 /** Number of cards per type in the base Sushi Go! deck. */
-export const DECK_COMPOSITION: ReadonlyArray<{
-  count: number;
-  factory: (id: number) => SushiGoCard;
-}> = [
+export const DECK_COMPOSITION: DeckComposition<SushiGoCard> = [
   // Tempura x14
   { count: 14, factory: (id) => ({ id, type: 'tempura' }) },
   // Sashimi x14
@@ -140,7 +142,7 @@ export const DECK_COMPOSITION: ReadonlyArray<{
 ];
 
 /** Total number of cards in the base deck. */
-export const DECK_SIZE = DECK_COMPOSITION.reduce((sum, e) => sum + e.count, 0); // 108
+export const DECK_SIZE = compositionSize(DECK_COMPOSITION); // 108
 
 // ── Deck creation ───────────────────────────────────────────
 
@@ -149,30 +151,7 @@ export const DECK_SIZE = DECK_COMPOSITION.reduce((sum, e) => sum + e.count, 0);
  * Each card receives a unique sequential id starting from 0.
  */
 export function createSushiGoDeck(): SushiGoCard[] {
-  const deck: SushiGoCard[] = [];
-  let nextId = 0;
-
-  for (const entry of DECK_COMPOSITION) {
-    for (let i = 0; i < entry.count; i++) {
-      deck.push(entry.factory(nextId++));
-    }
-  }
-
-  return deck;
-}
-
-/**
- * Fisher-Yates shuffle (in-place) with optional RNG.
- */
-export function shuffleDeck(
-  deck: SushiGoCard[],
-  rng: () => number = Math.random,
-): SushiGoCard[] {
-  for (let i = deck.length - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1));
-    [deck[i], deck[j]] = [deck[j], deck[i]];
-  }
-  return deck;
+  return buildDeck(DECK_COMPOSITION);
 }
 
 /**
@@ -0,0 +1,48 @@
+/**
+ * Sushi Go!'s own events, emitted on the session's emitter alongside
+ * the engine's built-in lifecycle events (see GameEventEmitter.ts).
+ *
+ * Picks stay secret until they are revealed: `'action-submitted'`
+ * reports only who has picked, and `'cards-picked'` follows the reveal.
+ */
+
+import type { SushiGoCardType } from './SushiGoCards';
+
+/**
+ * Emitted for each player when the turn's picks are revealed.
+ */
+export interface CardsPickedPayload {
+  /** Index of the player who picked. */
+  readonly playerIndex: number;
+  /** The card types moved to the player's tableau (two with chopsticks). */
+  readonly cards: readonly SushiGoCardType[];
+  /** Whether the player used chopsticks (returned to their hand). */
+  readonly usedChopsticks: boolean;
+}
+
+/**
+ * Emitted when hands are passed to the next player after a turn.
+ */
+export interface HandsPassedPayload {
+  /** Direction the hands travelled (always `'left'` with 2 players). */
+  readonly direction: 'left' | 'right';
+  /** Cards left in each hand after the pass. */
+  readonly handSize: number;
+}
+
+/**
+ * Emitted when a round has been scored.
+ */
+export interface RoundScoredPayload {
+  /** The round that was scored (0-based). */
+  readonly round: number;
+  /** Points each player scored this round, by player index. */
+  readonly roundScores: readonly number[];
+}
+
+/** Sushi Go!'s events, for `GameEventEmitter<SushiGoEventMap>`. */
+export interface SushiGoEventMap {
+  'cards-picked': CardsPickedPayload;
+  'hands-passed': HandsPassedPayload;
+  'round-scored': RoundScoredPayload;
+}
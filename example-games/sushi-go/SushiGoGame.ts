@@ -11,16 +11,21 @@
  *      Pudding cards carry over and are scored at the very end.
  *   4. Repeat for 3 rounds. After round 3, score pudding bonuses.
  *
+ * The rounds form a match (see src/core-engine/Match.ts): each round's
+ * scores go on the match scorecard, the last round's including the
+ * pudding bonuses, and the highest total wins.
+ *
  * Chopsticks: If a player has chopsticks in their tableau, they may
  * pick two cards from their hand instead of one, then return the
  * chopsticks to the hand (which will be passed to the next player).
  */
 
+import { shuffle } from '../../src/card-system/Deck';
 import type { SushiGoCard } from './SushiGoCards';
 import {
   createSushiGoDeck,
-  shuffleDeck,
   cardsPerPlayer,
+  cardLabel,
   ROUND_COUNT,
 } from './SushiGoCards';
 import {
@@ -30,6 +35,32 @@ import {
   scoreMaki,
   scorePudding,
 } from './SushiGoScoring';
+import { createRng, randomSeed } from '../../src/core-engine/Rng';
+import { changePhase, definePhases } from '../../src/core-engine/Phases';
+import type { MatchState } from '../../src/core-engine/Match';
+import {
+  createMatch,
+  getMatchTotals,
+  getRoundNumber,
+  isMatchOver,
+  recordRound,
+} from '../../src/core-engine/Match';
+import type { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import type { SushiGoEventMap } from './SushiGoEvents';
+import type { SimultaneousTurn } from '../../src/core-engine/TurnSequencer';
+import {
+  beginSimultaneousTurn,
+  getUndecidedPlayers,
+  revealActions,
+  submitAction,
+} from '../../src/core-engine/TurnSequencer';
+import type { CardConservation } from '../../src/rule-engine/CardConservation';
+import type { ValidationResult } from '../../src/rule-engine/RuleSet';
+import { valid, invalid, assertValid } from '../../src/rule-engine/RuleSet';
+import {
+  assertCardUniverse,
+  conserveCards,
+} from '../../src/rule-engine/CardConservation';
 
 // ── Player state ────────────────────────────────────────────
 
@@ -42,10 +73,6 @@ export interface SushiGoPlayerState {
   tableau: SushiGoCard[];
   /** Cumulative pudding count across all rounds. */
   puddingCount: number;
-  /** Score per round (index = round number, 0-based). */
-  roundScores: number[];
-  /** Total score across all rounds (updated after each round). */
-  totalScore: number;
 }
 
 // ── Game phases ─────────────────────────────────────────────
@@ -56,21 +83,48 @@ export type SushiGoPhase =
   | 'round-scoring' // Round just ended, scoring in progress
   | 'game-over';    // All 3 rounds complete
 
+/**
+ * Sushi Go!'s phase graph: each round alternates picking and scoring,
+ * and the last round's scoring ends the game.
+ */
+export const SUSHI_GO_PHASES = definePhases<SushiGoPhase, SushiGoSession>({
+  initial: 'setup',
+  transitions: {
+    setup: ['picking'],
+    picking: ['round-scoring'],
+    'round-scoring': ['picking', 'game-over'],
+    'game-over': [],
+  },
+  turnPhases: ['picking'],
+});
+
 // ── Session state ───────────────────────────────────────────
 
+/**
+ * A Sushi Go! game. It keeps its own players and phase rather than a
+ * GameState: the phases follow {@link SUSHI_GO_PHASES} and each turn's
+ * picks are a simultaneous turn, but the rest of the GameState turn
+ * sequencer is not used.
+ */
 export interface SushiGoSession {
   players: SushiGoPlayerState[];
   phase: SushiGoPhase;
-  /** Current round number (0-based, 0-2). */
-  currentRound: number;
+  /** Round scores of the three-round match (see {@link getCurrentRound}). */
+  readonly match: MatchState;
   /** Current turn within the round (0-based). */
   currentTurn: number;
   /** Cards per player for this game (depends on player count). */
   readonly cardsPerPlayer: number;
-  /** Total rounds (always 3). */
-  readonly totalRounds: number;
-  /** RNG for shuffling. */
+  /** Seed the deals are shuffled from (see {@link SushiGoSetupOptions.seed}). */
+  readonly seed: number;
+  /** RNG for shuffling; each round's deal draws from it. */
   readonly rng: () => number;
+  /** Cards of this round's deck that were not dealt. */
+  deck: SushiGoCard[];
+  /** This turn's secret picks; `null` outside the picking phase. */
+  picks: SimultaneousTurn<PickAction> | null;
+  /** Emitter for pick, hand-passing and scoring events. */
+  readonly events?: GameEventEmitter<SushiGoEventMap>;
 }
 
 // ── Setup ───────────────────────────────────────────────────
@@ -82,8 +136,15 @@ export interface SushiGoSetupOptions {
   playerNames?: string[];
   /** Which players are AI. */
   isAI?: boolean[];
-  /** RNG for shuffling (default Math.random). */
+  /** Seed for shuffling (default: a fresh random seed). */
+  seed?: number;
+  /**
+   * RNG for shuffling. Overrides the stream derived from `seed`; the
+   * session still records `seed`, but it no longer reproduces the deals.
+   */
   rng?: () => number;
+  /** Emitter for pick, hand-passing and scoring events. */
+  events?: GameEventEmitter<SushiGoEventMap>;
 }
 
 /**
@@ -96,7 +157,9 @@ export function setupSushiGoGame(
     playerCount = 2,
     playerNames,
     isAI,
-    rng = Math.random,
+    seed = randomSeed(),
+    rng = createRng(seed),
+    events,
   } = options;
 
   const names =
@@ -113,8 +176,6 @@ export function setupSushiGoGame(
     hand: [],
     tableau: [],
     puddingCount: 0,
-    roundScores: [],
-    totalScore: 0,
   }));
 
   const cpp = cardsPerPlayer(playerCount);
@@ -122,11 +183,17 @@ export function setupSushiGoGame(
   const session: SushiGoSession = {
     players,
     phase: 'setup',
-    currentRound: 0,
+    match: createMatch({
+      playerCount,
+      length: { kind: 'rounds', rounds: ROUND_COUNT },
+    }),
     currentTurn: 0,
     cardsPerPlayer: cpp,
-    totalRounds: ROUND_COUNT,
+    seed,
     rng,
+    deck: [],
+    picks: null,
+    ...(events ? { events } : {}),
   };
 
   // Deal first round
@@ -135,6 +202,29 @@ export function setupSushiGoGame(
   return session;
 }
 
+// ── Card conservation ───────────────────────────────────────
+
+/**
+ * Where a round's cards live: the undealt deck, and each player's hand
+ * and tableau. Every round is dealt from a fresh full deck, so the
+ * universe is one deck whatever the round.
+ */
+export const SushiGoCardConservation: CardConservation<SushiGoSession, SushiGoCard> = {
+  name: 'Sushi Go!',
+  universe: () => createSushiGoDeck(),
+  locations: (session) => {
+    const locations: Record<string, readonly SushiGoCard[]> = {
+      deck: session.deck,
+    };
+    session.players.forEach((player, i) => {
+      locations[`hand-${i}`] = player.hand;
+      locations[`tableau-${i}`] = player.tableau;
+    });
+    return locations;
+  },
+  describe: (card) => `${cardLabel(card)} #${card.id}`,
+};
+
 // ── Deal ────────────────────────────────────────────────────
 
 /**
@@ -143,15 +233,18 @@ export function setupSushiGoGame(
  */
 export function dealRound(session: SushiGoSession): void {
   const deck = createSushiGoDeck();
-  shuffleDeck(deck, session.rng);
+  shuffle(deck, session.rng);
 
   for (const player of session.players) {
     player.hand = deck.splice(0, session.cardsPerPlayer);
     player.tableau = [];
   }
+  session.deck = deck;
+  assertCardUniverse(SushiGoCardConservation, session);
 
-  session.phase = 'picking';
+  changePhase(SUSHI_GO_PHASES, session, 'picking', session.events);
   session.currentTurn = 0;
+  beginPickTurn(session);
 }
 
 // ── Pick mechanics ──────────────────────────────────────────
@@ -175,42 +268,136 @@ export interface PickAction {
 export function validatePick(
   player: SushiGoPlayerState,
   action: PickAction,
-): { valid: true } | { valid: false; reason: string } {
+): ValidationResult {
   if (action.cardIndex < 0 || action.cardIndex >= player.hand.length) {
-    return { valid: false, reason: `Card index ${action.cardIndex} out of bounds` };
+    return invalid(
+      'CARD_INDEX_OUT_OF_BOUNDS',
+      `Card index ${action.cardIndex} out of bounds`,
+      { index: action.cardIndex, handSize: player.hand.length },
+    );
   }
 
   if (action.secondCardIndex !== undefined) {
     // Chopsticks usage: must have chopsticks in tableau
     const hasChopsticks = player.tableau.some((c) => c.type === 'chopsticks');
     if (!hasChopsticks) {
-      return {
-        valid: false,
-        reason: 'Cannot pick two cards without chopsticks in tableau',
-      };
+      return invalid(
+        'NO_CHOPSTICKS',
+        'Cannot pick two cards without chopsticks in tableau',
+      );
     }
     if (
       action.secondCardIndex < 0 ||
       action.secondCardIndex >= player.hand.length
     ) {
-      return {
-        valid: false,
-        reason: `Second card index ${action.secondCardIndex} out of bounds`,
-      };
+      return invalid(
+        'CARD_INDEX_OUT_OF_BOUNDS',
+        `Second card index ${action.secondCardIndex} out of bounds`,
+        { index: action.secondCardIndex, handSize: player.hand.length },
+      );
     }
     if (action.cardIndex === action.secondCardIndex) {
-      return { valid: false, reason: 'Cannot pick the same card twice' };
+      return invalid('SAME_CARD_TWICE', 'Cannot pick the same card twice', {
+        index: action.cardIndex,
+      });
     }
   }
 
-  return { valid: true };
+  return valid();
+}
+
+/**
+ * Open a simultaneous turn for the current hands. Each pick is checked
+ * with {@link validatePick} against the picking player's state.
+ */
+export function beginPickTurn(session: SushiGoSession): void {
+  session.picks = beginSimultaneousTurn<PickAction>({
+    playerCount: session.players.length,
+    turnNumber: session.currentTurn,
+    validate: (action, playerIndex) =>
+      validatePick(session.players[playerIndex], action),
+    events: session.events,
+  });
+}
+
+/**
+ * The open pick turn.
+ *
+ * @throws If the game is not in the picking phase.
+ */
+function openPicks(session: SushiGoSession): SimultaneousTurn<PickAction> {
+  if (session.phase !== 'picking' || !session.picks) {
+    throw new Error(`Cannot pick in phase: ${session.phase}`);
+  }
+  return session.picks;
+}
+
+/**
+ * Record one player's secret pick for this turn. The pick is hidden
+ * until {@link revealPicks}; a player may change it until then.
+ *
+ * @throws If the game is not in the picking phase or the pick is invalid.
+ */
+export function submitPick(
+  session: SushiGoSession,
+  playerIndex: number,
+  action: PickAction,
+): void {
+  submitAction(openPicks(session), playerIndex, action);
+}
+
+/** Indices of the players who have not yet picked this turn. */
+export function getPlayersStillPicking(session: SushiGoSession): number[] {
+  return session.picks ? getUndecidedPlayers(session.picks) : [];
+}
+
+/**
+ * Reveal this turn's picks together and apply them.
+ *
+ * Each player's pick moves from their hand to their tableau. Hands are
+ * then passed and the next turn opens, or, when the hands are empty,
+ * the round moves to scoring.
+ *
+ * @returns The revealed picks, indexed by player.
+ * @throws  If the game is not in the picking phase, or a player has
+ *          not yet picked.
+ */
+export function revealPicks(session: SushiGoSession): PickAction[] {
+  const picks = revealActions(openPicks(session));
+
+  conserveCards(SushiGoCardConservation, session, picks, () => {
+    // Apply picks
+    for (let i = 0; i < picks.length; i++) {
+      const picked = applyPick(session.players[i], picks[i]);
+      session.events?.emit('cards-picked', {
+        playerIndex: i,
+        cards: picked.map((c) => c.type),
+        usedChopsticks: picks[i].secondCardIndex !== undefined,
+      });
+    }
+
+    session.currentTurn++;
+
+    // Check if round is over (all cards picked)
+    if (session.players[0].hand.length === 0) {
+      session.picks = null;
+      changePhase(SUSHI_GO_PHASES, session, 'round-scoring', session.events);
+    } else {
+      // Pass hands
+      passHands(session);
+      beginPickTurn(session);
+    }
+  });
+
+  return picks;
 }
 
 /**
  * Execute picks for all players simultaneously.
  *
  * Each player picks one card (or two with chopsticks) from their hand
- * and adds it to their tableau.
+ * and adds it to their tableau. Equivalent to submitting every pick
+ * with {@link submitPick} and then calling {@link revealPicks}.
  *
  * @param session  The game session.
  * @param picks    Array of pick actions, one per player.
@@ -220,9 +407,7 @@ export function executeAllPicks(
   session: SushiGoSession,
   picks: PickAction[],
 ): void {
-  if (session.phase !== 'picking') {
-    throw new Error(`Cannot pick in phase: ${session.phase}`);
-  }
+  openPicks(session);
   if (picks.length !== session.players.length) {
     throw new Error(
       `Expected ${session.players.length} picks, got ${picks.length}`,
@@ -231,32 +416,25 @@ export function executeAllPicks(
 
   // Validate all picks first
   for (let i = 0; i < picks.length; i++) {
-    const result = validatePick(session.players[i], picks[i]);
-    if (!result.valid) {
-      throw new Error(`Invalid pick for player ${i}: ${result.reason}`);
-    }
-  }
-
-  // Apply picks
-  for (let i = 0; i < picks.length; i++) {
-    applyPick(session.players[i], picks[i]);
+    assertValid(
+      validatePick(session.players[i], picks[i]),
+      `pick for player ${i}`,
+    );
   }
 
-  session.currentTurn++;
-
-  // Check if round is over (all cards picked)
-  if (session.players[0].hand.length === 0) {
-    session.phase = 'round-scoring';
-  } else {
-    // Pass hands
-    passHands(session);
-  }
+  picks.forEach((pick, i) => submitPick(session, i, pick));
+  revealPicks(session);
 }
 
 /**
  * Apply a single player's pick action (mutates player state).
+ *
+ * @returns The cards moved to the player's tableau.
  */
-function applyPick(player: SushiGoPlayerState, action: PickAction): void {
+function applyPick(
+  player: SushiGoPlayerState,
+  action: PickAction,
+): SushiGoCard[] {
   if (action.secondCardIndex !== undefined) {
     // Chopsticks: pick two cards, return chopsticks to hand
     // Remove cards in reverse index order to avoid shifting issues
@@ -275,10 +453,12 @@ function applyPick(player: SushiGoPlayerState, action: PickAction): void {
       const chopsticks = player.tableau.splice(chopIdx, 1)[0];
       player.hand.push(chopsticks);
     }
+    return pickedCards;
   } else {
     // Normal: pick one card
     const [card] = player.hand.splice(action.cardIndex, 1);
     player.tableau.push(card);
+    return [card];
   }
 }
 
@@ -292,7 +472,7 @@ function applyPick(player: SushiGoPlayerState, action: PickAction): void {
  * pass right. For 2 players, left and right are equivalent (swap).
  */
 export function passHands(session: SushiGoSession): void {
-  const { players, currentRound } = session;
+  const { players } = session;
   const n = players.length;
 
   if (n <= 1) return;
@@ -302,11 +482,15 @@ export function passHands(session: SushiGoSession): void {
     const temp = players[0].hand;
     players[0].hand = players[1].hand;
     players[1].hand = temp;
+    session.events?.emit('hands-passed', {
+      direction: 'left',
+      handSize: players[0].hand.length,
+    });
     return;
   }
 
   // Determine direction: rounds 0,2 = left, round 1 = right
-  const passLeft = currentRound % 2 === 0;
+  const passLeft = getCurrentRound(session) % 2 === 0;
 
   const hands = players.map((p) => p.hand);
   if (passLeft) {
@@ -324,6 +508,11 @@ export function passHands(session: SushiGoSession): void {
     }
     players[n - 1].hand = first;
   }
+
+  session.events?.emit('hands-passed', {
+    direction: passLeft ? 'left' : 'right',
+    handSize: players[0].hand.length,
+  });
 }
 
 // ── Round scoring ───────────────────────────────────────────
@@ -341,7 +530,8 @@ export function scoreRound(session: SushiGoSession): RoundResult {
     throw new Error(`Cannot score in phase: ${session.phase}`);
   }
 
-  const { players, currentRound } = session;
+  const { players } = session;
+  const round = getRoundNumber(session.match);
 
   // Score each player's tableau
   const tableauScores = players.map((p) => scoreTableau(p.tableau));
@@ -350,44 +540,42 @@ export function scoreRound(session: SushiGoSession): RoundResult {
   const makiCounts = players.map((p) => countMakiIcons(p.tableau));
   const makiBonuses = scoreMaki(makiCounts);
 
-  // Record round scores
   const roundScores = players.map(
     (_, i) => tableauScores[i] + makiBonuses[i],
   );
 
-  for (let i = 0; i < players.length; i++) {
-    players[i].roundScores.push(roundScores[i]);
-    players[i].totalScore += roundScores[i];
-
-    // Accumulate pudding count
-    players[i].puddingCount += countPudding(players[i].tableau);
+  // Accumulate pudding counts
+  for (const player of players) {
+    player.puddingCount += countPudding(player.tableau);
   }
 
   const result: RoundResult = {
-    round: currentRound,
+    round,
     tableauScores,
     makiCounts,
     makiBonuses,
     roundScores,
   };
+  session.events?.emit('round-scored', { round, roundScores });
 
-  // Advance to next round or end game
-  if (currentRound >= session.totalRounds - 1) {
-    // Game over -- score pudding
+  // Record the round on the match; the last round also scores pudding
+  const matchScores = [...roundScores];
+  if (round === ROUND_COUNT - 1) {
     const puddingCounts = players.map((p) => p.puddingCount);
     const puddingBonuses = scorePudding(puddingCounts);
-
-    for (let i = 0; i < players.length; i++) {
-      players[i].totalScore += puddingBonuses[i];
-    }
+    puddingBonuses.forEach((bonus, i) => {
+      matchScores[i] += bonus;
+    });
 
     result.puddingCounts = puddingCounts;
     result.puddingBonuses = puddingBonuses;
+  }
+  recordRound(session.match, matchScores);
 
-    session.phase = 'game-over';
+  // Advance to next round or end game
+  if (isMatchOver(session.match)) {
+    changePhase(SUSHI_GO_PHASES, session, 'game-over', session.events);
   } else {
-    // Next round
-    session.currentRound++;
     dealRound(session);
   }
 
@@ -414,17 +602,23 @@ export function isGameOver(session: SushiGoSession): boolean {
   return session.phase === 'game-over';
 }
 
+/**
+ * The round being played (0-based, 0-2). Once the game is over this is
+ * the last round.
+ */
+export function getCurrentRound(session: SushiGoSession): number {
+  return Math.min(getRoundNumber(session.match), ROUND_COUNT - 1);
+}
+
+/** Each player's total score across the rounds scored so far. */
+export function getTotalScores(session: SushiGoSession): number[] {
+  return getMatchTotals(session.match);
+}
+
 /** Get the winning player index (highest total score). Ties broken by index. */
 export function getWinnerIndex(session: SushiGoSession): number {
-  let best = -1;
-  let bestScore = -Infinity;
-  for (let i = 0; i < session.players.length; i++) {
-    if (session.players[i].totalScore > bestScore) {
-      bestScore = session.players[i].totalScore;
-      best = i;
-    }
-  }
-  return best;
+  const totals = getTotalScores(session);
+  return totals.indexOf(Math.max(...totals));
 }
 
 /** Check if the current round's picking phase is over. */
@@ -0,0 +1,110 @@
+/**
+ * Saving and resuming Sushi Go! games (see src/core-engine/SavedGame.ts).
+ *
+ * Sushi Go! cards are plain data already, so a saved game is the
+ * session itself minus its emitter, with the shuffle RNG as an
+ * {@link RngState}, the round scores as a {@link MatchState} and this
+ * turn's secret picks (if any) as an array.
+ */
+
+import type { MatchState } from '../../src/core-engine/Match';
+import type { RngState } from '../../src/core-engine/Rng';
+import { requireRngState, restoreRng } from '../../src/core-engine/Rng';
+import type { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import { snapshotCard } from '../../src/core-engine/TranscriptTypes';
+import { checkCardUniverse } from '../../src/rule-engine/CardConservation';
+import { cardsPerPlayer } from './SushiGoCards';
+import type { SushiGoCard } from './SushiGoCards';
+import type { SushiGoEventMap } from './SushiGoEvents';
+import type {
+  PickAction,
+  SushiGoPhase,
+  SushiGoPlayerState,
+  SushiGoSession,
+} from './SushiGoGame';
+import {
+  SushiGoCardConservation,
+  beginPickTurn,
+  submitPick,
+} from './SushiGoGame';
+
+/** Save key of Sushi Go! in a SavedGameStore. */
+export const SUSHI_GO_SAVE_KEY = 'sushi-go';
+
+/** A Sushi Go! game as saved. */
+export interface SavedSushiGoSession {
+  players: SushiGoPlayerState[];
+  phase: SushiGoPhase;
+  match: MatchState;
+  currentTurn: number;
+  seed: number;
+  rng: RngState;
+  deck: SushiGoCard[];
+  /** This turn's submitted picks by player (null: still picking), or null outside the picking phase. */
+  picks: (PickAction | null)[] | null;
+}
+
+/**
+ * Convert a Sushi Go! game to plain data.
+ *
+ * @throws If the session shuffles with an unseeded RNG (see
+ *         {@link requireRngState}).
+ */
+export function serializeSushiGoSession(session: SushiGoSession): SavedSushiGoSession {
+  return {
+    players: session.players.map((p) => ({
+      ...p,
+      hand: p.hand.map(snapshotCard),
+      tableau: p.tableau.map(snapshotCard),
+    })),
+    phase: session.phase,
+    match: copyMatch(session.match),
+    currentTurn: session.currentTurn,
+    seed: session.seed,
+    rng: requireRngState(session.rng),
+    deck: session.deck.map(snapshotCard),
+    picks: session.picks ? session.picks.pending.map((a) => (a ? { ...a } : null)) : null,
+  };
+}
+
+/**
+ * Rebuild a Sushi Go! game from saved data. Picks submitted before the
+ * save are submitted again, so `events` sees them as `'action-submitted'`.
+ *
+ * @throws If the save is inconsistent (cards missing or duplicated, or
+ *         an invalid pick).
+ */
+export function deserializeSushiGoSession(
+  saved: SavedSushiGoSession,
+  events?: GameEventEmitter<SushiGoEventMap>,
+): SushiGoSession {
+  const session: SushiGoSession = {
+    players: saved.players.map((p) => ({
+      ...p,
+      hand: p.hand.map((c) => ({ ...c })),
+      tableau: p.tableau.map((c) => ({ ...c })),
+    })),
+    phase: saved.phase,
+    match: copyMatch(saved.match),
+    currentTurn: saved.currentTurn,
+    cardsPerPlayer: cardsPerPlayer(saved.players.length),
+    seed: saved.seed,
+    rng: restoreRng(saved.rng),
+    deck: saved.deck.map((c) => ({ ...c })),
+    picks: null,
+    ...(events ? { events } : {}),
+  };
+  checkCardUniverse(SushiGoCardConservation, session);
+
+  if (saved.phase === 'picking') {
+    beginPickTurn(session);
+    saved.picks?.forEach((pick, i) => {
+      if (pick) submitPick(session, i, pick);
+    });
+  }
+  return session;
+}
+
+function copyMatch(match: MatchState): MatchState {
+  return { ...match, roundScores: match.roundScores.map((r) => [...r]) };
+}
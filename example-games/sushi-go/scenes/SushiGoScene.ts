@@ -9,30 +9,53 @@
  *   - End-of-round and end-of-game overlays
  *   - AI opponent with configurable delay
  *   - Help panel and settings panel integration
+ *   - Game saved after every turn, resumable after a page reload
  */
 
 import Phaser from 'phaser';
 import type { SushiGoCard, SushiGoCardType } from '../SushiGoCards';
-import { cardLabel } from '../SushiGoCards';
+import { cardLabel, ROUND_COUNT } from '../SushiGoCards';
 import type { SushiGoSession, RoundResult, PickAction } from '../SushiGoGame';
 import {
   setupSushiGoGame,
-  executeAllPicks,
+  submitPick,
+  revealPicks,
   scoreRound,
   isGameOver,
+  getCurrentRound,
+  getTotalScores,
   getWinnerIndex,
 } from '../SushiGoGame';
+import type { SavedSushiGoSession } from '../SushiGoSave';
+import {
+  SUSHI_GO_SAVE_KEY,
+  serializeSushiGoSession,
+  deserializeSushiGoSession,
+} from '../SushiGoSave';
 import { SushiGoAiPlayer, GreedyStrategy } from '../AiStrategy';
+import { SushiGoTranscriptRecorder } from '../GameTranscript';
+import type { SushiGoTranscript } from '../GameTranscript';
+import type { SushiGoEventMap } from '../SushiGoEvents';
 import { GameEventEmitter } from '../../../src/core-engine/GameEventEmitter';
 import { PhaserEventBridge } from '../../../src/core-engine/PhaserEventBridge';
+import { EventRecorder, TranscriptStoreEventSink } from '../../../src/core-engine/EventLog';
+import { getScorecard } from '../../../src/core-engine/Match';
+import { TranscriptStore } from '../../../src/core-engine/TranscriptStore';
 import { SoundManager } from '../../../src/core-engine/SoundManager';
 import type { SoundPlayer, EventSoundMapping } from '../../../src/core-engine/SoundManager';
+import { createRng, restoreRng, randomSeed } from '../../../src/core-engine/Rng';
+import type { Rng, RngState } from '../../../src/core-engine/Rng';
+import { resolveSceneSeed } from '../../../src/core-engine/DealCode';
+import type { SeedSceneData } from '../../../src/core-engine/DealCode';
+import { SavedGameStore } from '../../../src/core-engine/SavedGame';
+import type { ResumeSceneData } from '../../../src/core-engine/SavedGame';
 import {
   HelpPanel, HelpButton,
   SettingsPanel, SettingsButton,
   GAME_W, GAME_H, FONT_FAMILY,
   createOverlayBackground, createOverlayButton, createOverlayMenuButton,
   createSceneTitle, createSceneMenuButton,
+  createDealCodeLabel,
 } from '../../../src/ui';
 import type { HelpSection } from '../../../src/ui';
 import helpContent from '../help-content.json';
@@ -112,16 +135,39 @@ type TurnPhase =
 
 // ── Scene ───────────────────────────────────────────────────
 
+/** Shared TranscriptStore instance for the Sushi Go! game. */
+const transcriptStore = new TranscriptStore();
+
+/** Persistent log of every Sushi Go! event, shared by all sessions. */
+const eventLogSink = new TranscriptStoreEventSink();
+
+/** The in-progress game, kept across page reloads. */
+const savedGames = new SavedGameStore();
+
+/** A Sushi Go! game in progress, as saved between page loads. */
+interface SushiGoSaveData {
+  session: SavedSushiGoSession;
+  aiRng: RngState;
+}
+
 export class SushiGoScene extends Phaser.Scene {
   // Game state
   private session!: SushiGoSession;
   private aiPlayer!: SushiGoAiPlayer;
+  /** The AI's random stream, saved with the game. */
+  private aiRng!: Rng;
+  private recorder!: SushiGoTranscriptRecorder;
+  /** Saved game to resume (see init()). */
+  private resumedSave: SushiGoSaveData | null = null;
   private turnPhase: TurnPhase = 'picking';
   private pendingHumanPick: number | null = null;
+  /** Seed of the current deal (see init()). */
+  private seed: number = 0;
 
   // Event system
-  private gameEvents!: GameEventEmitter;
-  private eventBridge!: PhaserEventBridge;
+  private gameEvents!: GameEventEmitter<SushiGoEventMap>;
+  private eventBridge!: PhaserEventBridge<SushiGoEventMap>;
+  private eventRecorder: EventRecorder<SushiGoEventMap> | null = null;
   private soundManager: SoundManager | null = null;
 
   // Display containers
@@ -153,6 +199,18 @@ export class SushiGoScene extends Phaser.Scene {
     super({ key: 'SushiGoScene' });
   }
 
+  /**
+   * Pick the deal seed: a `{ seed }` start payload (game selector,
+   * "Replay Deal"), else `?deal=` / `?seed=` in the URL, else random.
+   * A `{ resume }` payload loads the game saved by an earlier visit.
+   */
+  init(data: SeedSceneData & ResumeSceneData): void {
+    this.seed = resolveSceneSeed(data, window.location.search);
+    this.resumedSave = data?.resume
+      ? savedGames.load<SushiGoSaveData>(SUSHI_GO_SAVE_KEY)?.state ?? null
+      : null;
+  }
+
   // ── Preload ─────────────────────────────────────────────
 
   preload(): void {
@@ -176,8 +234,14 @@ export class SushiGoScene extends Phaser.Scene {
     this.overlayObjects = [];
 
     // Event system
-    this.gameEvents = new GameEventEmitter();
+    this.gameEvents = new GameEventEmitter<SushiGoEventMap>();
     this.eventBridge = new PhaserEventBridge(this.gameEvents, this.events);
+    this.eventRecorder = new EventRecorder(this.gameEvents, {
+      gameType: 'sushi-go',
+      sinks: [eventLogSink],
+    });
+    // Phaser does not call shutdown() by itself
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
 
     // Sound system
     const phaserSound = this.sound;
@@ -191,32 +255,45 @@ export class SushiGoScene extends Phaser.Scene {
     for (const sfxKey of Object.values(SFX_KEYS)) {
       this.soundManager.register(sfxKey);
     }
-    const mapping: EventSoundMapping = {
-      'card-drawn': SFX_KEYS.CARD_PICK,
+    const mapping: EventSoundMapping<SushiGoEventMap> = {
+      'actions-revealed': SFX_KEYS.CARD_PICK,
       'turn-started': SFX_KEYS.TURN_CHANGE,
       'game-ended': SFX_KEYS.ROUND_END,
     };
     this.soundManager.connectToEvents(this.gameEvents, mapping);
 
-    // Setup game
-    this.session = setupSushiGoGame({
-      playerCount: 2,
-      playerNames: ['You', 'AI'],
-      isAI: [false, true],
-    });
-    this.aiPlayer = new SushiGoAiPlayer(GreedyStrategy);
+    // Setup game: resume the saved game, or start a new one
+    const resumed = this.resumeSavedGame();
+    this.session =
+      resumed?.session ??
+      setupSushiGoGame({
+        playerCount: 2,
+        playerNames: ['You', 'AI'],
+        isAI: [false, true],
+        seed: this.seed,
+        events: this.gameEvents,
+      });
+    this.seed = this.session.seed;
+    this.aiRng = resumed?.aiRng ?? createRng(this.session.seed).fork('ai');
+    this.aiPlayer = new SushiGoAiPlayer(GreedyStrategy, this.aiRng);
+    this.recorder = new SushiGoTranscriptRecorder(this.session, [
+      undefined,
+      GreedyStrategy.name,
+    ]);
 
     // Create UI
     this.createHeader();
     this.createLabels();
     this.createScoreDisplay();
     this.createInstructions();
+    createDealCodeLabel(this, this.seed, { y: GAME_H - 14 });
     this.createContainers();
     this.createHelpPanel();
     this.createSettingsPanel();
 
     // Initial render
     this.refreshAll();
+    this.saveProgress();
     this.setPhase('picking');
   }
 
@@ -533,15 +610,14 @@ export class SushiGoScene extends Phaser.Scene {
   }
 
   private refreshScores(): void {
-    const human = this.session.players[0];
-    const ai = this.session.players[1];
-    this.playerScoreText.setText(`Score: ${human.totalScore}`);
-    this.aiScoreText.setText(`Score: ${ai.totalScore}`);
+    const [human, ai] = getTotalScores(this.session);
+    this.playerScoreText.setText(`Score: ${human}`);
+    this.aiScoreText.setText(`Score: ${ai}`);
   }
 
   private refreshRoundInfo(): void {
-    const round = this.session.currentRound + 1;
-    const total = this.session.totalRounds;
+    const round = getCurrentRound(this.session) + 1;
+    const total = ROUND_COUNT;
     const turn = this.session.currentTurn + 1;
     const turnsTotal = this.session.cardsPerPlayer;
     const cardsInHand = this.session.players[0].hand.length;
@@ -582,10 +658,6 @@ export class SushiGoScene extends Phaser.Scene {
     if (this.turnPhase !== 'picking') return;
 
     this.pendingHumanPick = handIndex;
-    // Play card-pick sound directly (Sushi Go drafts from hand,
-    // which doesn't match the stock/discard source of 'card-drawn')
-    this.soundManager?.play(SFX_KEYS.CARD_PICK);
-
     this.executeTurn();
   }
 
@@ -597,12 +669,17 @@ export class SushiGoScene extends Phaser.Scene {
     this.setPhase('animating');
 
     const humanPick: PickAction = { cardIndex: this.pendingHumanPick };
+    submitPick(this.session, 0, humanPick);
 
     // AI picks simultaneously
-    const aiPick = this.aiPlayer.choosePick(this.session.players[1]);
+    submitPick(
+      this.session,
+      1,
+      this.aiPlayer.choosePick(this.session.players[1]),
+    );
 
-    // Execute both picks
-    executeAllPicks(this.session, [humanPick, aiPick]);
+    // Reveal both picks together
+    this.recorder.recordPicks(revealPicks(this.session));
 
     this.pendingHumanPick = null;
 
@@ -614,6 +691,7 @@ export class SushiGoScene extends Phaser.Scene {
       if (this.session.phase === 'round-scoring') {
         this.handleRoundScoring();
       } else {
+        this.saveProgress();
         this.gameEvents.emit('turn-started', {
           turnNumber: this.session.currentTurn,
           playerIndex: 0,
@@ -625,6 +703,60 @@ export class SushiGoScene extends Phaser.Scene {
     });
   }
 
+  // ── Saved game ──────────────────────────────────────────
+
+  /**
+   * Rebuild the game requested by a `{ resume }` payload. A save that
+   * no longer loads is discarded and a new game starts instead.
+   */
+  private resumeSavedGame(): { session: SushiGoSession; aiRng: Rng } | null {
+    const saved = this.resumedSave;
+    this.resumedSave = null;
+    if (!saved) return null;
+    try {
+      return {
+        session: deserializeSushiGoSession(saved.session, this.gameEvents),
+        aiRng: restoreRng(saved.aiRng),
+      };
+    } catch (err) {
+      console.warn('[SushiGoScene] Discarding saved game that failed to load:', err);
+      savedGames.clear(SUSHI_GO_SAVE_KEY);
+      return null;
+    }
+  }
+
+  /** Save the game so it can be resumed after a page reload. */
+  private saveProgress(): void {
+    const data: SushiGoSaveData = {
+      session: serializeSushiGoSession(this.session),
+      aiRng: this.aiRng.getState(),
+    };
+    savedGames.save(SUSHI_GO_SAVE_KEY, data);
+  }
+
+  // ── Transcript persistence ──────────────────────────────
+
+  /**
+   * Auto-save a finalized transcript to browser storage.
+   * Fires and forgets -- errors are logged but do not disrupt gameplay.
+   */
+  private autoSaveTranscript(transcript: SushiGoTranscript): void {
+    transcriptStore.saveTranscript(transcript).then(
+      (stored) => {
+        if (stored) {
+          console.info(
+            `[SushiGoScene] Transcript saved (${stored.id}) via ${stored.gameType}`,
+          );
+        } else {
+          console.warn('[SushiGoScene] Transcript not saved -- no storage backend available');
+        }
+      },
+      (err) => {
+        console.error('[SushiGoScene] Failed to auto-save transcript:', err);
+      },
+    );
+  }
+
   // ── Round scoring ───────────────────────────────────────
 
   private handleRoundScoring(): void {
@@ -635,8 +767,11 @@ export class SushiGoScene extends Phaser.Scene {
     this.refreshScores();
 
     if (isGameOver(this.session)) {
+      savedGames.clear(SUSHI_GO_SAVE_KEY);
+      this.autoSaveTranscript(this.recorder.finalize());
       this.showGameOverOverlay(result);
     } else {
+      this.saveProgress();
       this.showRoundScoreOverlay(result);
     }
   }
@@ -654,6 +789,7 @@ export class SushiGoScene extends Phaser.Scene {
     this.overlayObjects.push(...overlay.objects);
 
     const roundNum = result.round + 1;
+    const totals = getTotalScores(this.session);
 
     const lines = [
       `Round ${roundNum} Complete!`,
@@ -663,7 +799,7 @@ export class SushiGoScene extends Phaser.Scene {
       `AI: ${result.roundScores[1]} pts`,
       `  (Cards: ${result.tableauScores[1]}, Maki: ${result.makiBonuses[1]})`,
       '',
-      `Total -- You: ${this.session.players[0].totalScore}  AI: ${this.session.players[1].totalScore}`,
+      `Total -- You: ${totals[0]}  AI: ${totals[1]}`,
     ];
 
     const text = this.add
@@ -710,8 +846,7 @@ export class SushiGoScene extends Phaser.Scene {
     const winnerIdx = getWinnerIndex(this.session);
     const winnerText = winnerIdx === 0 ? 'You Win!' : 'AI Wins!';
 
-    const human = this.session.players[0];
-    const ai = this.session.players[1];
+    const scorecard = getScorecard(this.session.match);
 
     const lines = [
       winnerText,
@@ -728,14 +863,14 @@ export class SushiGoScene extends Phaser.Scene {
 
     lines.push(
       '',
-      'Round-by-round:',
+      'Round-by-round (pudding in the last round):',
     );
-    for (let r = 0; r < human.roundScores.length; r++) {
-      lines.push(`  R${r + 1}: You ${human.roundScores[r]} -- AI ${ai.roundScores[r]}`);
-    }
+    scorecard.rounds.forEach(([human, ai], r) => {
+      lines.push(`  R${r + 1}: You ${human} -- AI ${ai}`);
+    });
     lines.push(
       '',
-      `Final: You ${human.totalScore} -- AI ${ai.totalScore}`,
+      `Final: You ${scorecard.totals[0]} -- AI ${scorecard.totals[1]}`,
     );
 
     const text = this.add
@@ -750,18 +885,28 @@ export class SushiGoScene extends Phaser.Scene {
       .setDepth(11);
     this.overlayObjects.push(text);
 
-    // Play again button
+    // Play again button (new deal)
     const playBtn = createOverlayButton(
-      this, GAME_W / 2 - 80, GAME_H / 2 + 160, '[ Play Again ]',
+      this, GAME_W / 2 - 160, GAME_H / 2 + 160, '[ Play Again ]',
     );
     playBtn.on('pointerdown', () => {
       this.soundManager?.play(SFX_KEYS.UI_CLICK);
-      this.scene.restart();
+      this.scene.restart({ seed: randomSeed() });
     });
     this.overlayObjects.push(playBtn);
 
+    // Replay deal button (same seed)
+    const replayBtn = createOverlayButton(
+      this, GAME_W / 2, GAME_H / 2 + 160, '[ Replay Deal ]',
+    );
+    replayBtn.on('pointerdown', () => {
+      this.soundManager?.play(SFX_KEYS.UI_CLICK);
+      this.scene.restart({ seed: this.seed });
+    });
+    this.overlayObjects.push(replayBtn);
+
     // Menu button
-    const menuBtn = createOverlayMenuButton(this, GAME_W / 2 + 80, GAME_H / 2 + 160);
+    const menuBtn = createOverlayMenuButton(this, GAME_W / 2 + 160, GAME_H / 2 + 160);
     this.overlayObjects.push(menuBtn);
   }
 
@@ -852,6 +997,10 @@ export class SushiGoScene extends Phaser.Scene {
     this.hideCardTooltip();
     this.soundManager?.destroy();
     this.soundManager = null;
+    this.eventRecorder?.stop().catch((err) => {
+      console.error('[SushiGoScene] Failed to save the event log:', err);
+    });
+    this.eventRecorder = null;
     this.eventBridge?.destroy();
     this.gameEvents?.removeAllListeners();
     this.helpPanel?.destroy();
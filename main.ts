@@ -18,33 +18,48 @@ import { GolfScene } from './example-games/golf/scenes/GolfScene';
 import { BeleagueredCastleScene } from './example-games/beleaguered-castle/scenes/BeleagueredCastleScene';
 import { SushiGoScene } from './example-games/sushi-go/scenes/SushiGoScene';
 import { SplendorScene } from './example-games/splendor/scenes/SplendorScene';
+import { listVariantPresets } from './src/rule-engine/Variants';
+import { GOLF_VARIANTS } from './example-games/golf/GolfVariants';
+import { BELEAGUERED_CASTLE_VARIANTS } from './example-games/beleaguered-castle/BeleagueredCastleVariants';
+import { SPLENDOR_VARIANTS } from './example-games/splendor/SplendorVariants';
+import { GOLF_SAVE_KEY } from './example-games/golf/GolfSave';
+import { BC_SAVE_KEY } from './example-games/beleaguered-castle/BeleagueredCastleSave';
+import { SUSHI_GO_SAVE_KEY } from './example-games/sushi-go/SushiGoSave';
+import { SPLENDOR_SAVE_KEY } from './example-games/splendor/SplendorSave';
 
 // ── Game catalogue ─────────────────────────────────────────
 
 const GAMES: GameEntry[] = [
   {
     sceneKey: 'GolfScene',
-    title: '9-Card Golf',
+    title: 'Golf',
     description:
-      'Single-round Golf (human vs. AI). Flip cards, swap from the draw or discard pile, and try to get the lowest score.',
+      'A 9-hole match of card Golf (human vs. AI), on a 9-, 6- or 4-card grid. Flip cards, swap from the draw or discard pile, and finish with the lowest total.',
+    variants: listVariantPresets(GOLF_VARIANTS),
+    saveKey: GOLF_SAVE_KEY,
   },
   {
     sceneKey: 'BeleagueredCastleScene',
     title: 'Beleaguered Castle',
     description:
       'Open solitaire. Move cards between 8 tableau columns and build foundations up by suit from Ace to King.',
+    variants: listVariantPresets(BELEAGUERED_CASTLE_VARIANTS),
+    saveKey: BC_SAVE_KEY,
   },
   {
     sceneKey: 'SushiGoScene',
     title: 'Sushi Go!',
     description:
       'Card drafting game (human vs. AI). Pick and pass hands over 3 rounds, collect sets, and score the most points.',
+    saveKey: SUSHI_GO_SAVE_KEY,
   },
   {
     sceneKey: 'SplendorScene',
     title: 'Splendor',
     description:
       'Engine-building card game (human vs. AI). Collect gem tokens, purchase cards for bonuses, attract nobles, and reach 15 prestige to win.',
+    variants: listVariantPresets(SPLENDOR_VARIANTS),
+    saveKey: SPLENDOR_SAVE_KEY,
   },
 ];
 
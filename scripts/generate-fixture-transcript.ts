@@ -38,10 +38,9 @@ const maxTurns = 200;
 
 while (session.gameState.phase !== 'ended' && turnCount < maxTurns) {
   const idx = session.gameState.currentPlayerIndex;
-  const ps = session.gameState.playerStates[idx];
   const ai = idx === 0 ? ai0 : ai1;
 
-  const action = ai.chooseAction(ps, session.shared);
+  const action = ai.chooseAction(session, idx);
   const result = executeTurn(session, action);
   recorder.recordTurn(result, action.drawSource);
   turnCount++;
@@ -54,14 +53,16 @@ if (session.gameState.phase !== 'ended') {
 
 const transcript = recorder.finalize();
 
-// Override timestamps for reproducibility
-transcript.metadata.startedAt = '2026-01-01T00:00:00.000Z';
-transcript.metadata.endedAt = '2026-01-01T00:05:00.000Z';
+// Override timestamps for reproducibility. The deal comes from the
+// custom RNG rather than the session's (random) seed, so drop the seed.
+transcript.startedAt = '2026-01-01T00:00:00.000Z';
+transcript.endedAt = '2026-01-01T00:05:00.000Z';
+transcript.seed = null;
 
 const outPath = resolve('data/transcripts/golf/fixture-game.json');
 mkdirSync(dirname(outPath), { recursive: true });
 writeFileSync(outPath, JSON.stringify(transcript, null, 2) + '\n');
 
 console.log(`Fixture transcript written to ${outPath}`);
-console.log(`  Turns: ${transcript.turns.length}`);
-console.log(`  Winner: ${transcript.results!.winnerName} (score: ${transcript.results!.scores[transcript.results!.winnerIndex]})`);
+console.log(`  Turns: ${transcript.actions.length}`);
+console.log(`  Winner: ${transcript.result!.winnerName} (score: ${transcript.result!.scores[transcript.result!.winnerIndex]})`);
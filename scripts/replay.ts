@@ -8,11 +8,13 @@
  *
  * The tool:
  *   1. Parses CLI args (transcript path, --output dir)
- *   2. Validates the transcript file (exists, valid JSON, version 1)
+ *   2. Validates the transcript file (exists, valid JSON, a Golf
+ *      transcript in the shared format; version 1 files are upgraded)
  *   3. Ensures a dev server is running at localhost:3000 (auto-starts if needed)
  *   4. Boots headless Chromium via Playwright at ?mode=replay
  *   5. Waits for GolfScene to emit state-settled (scene ready)
- *   6. Loads initial state + each turn via loadBoardState(), capturing screenshots
+ *   6. Loads the initial snapshot + each action's snapshot via
+ *      loadBoardState(), capturing screenshots
  *   7. Writes a replay-summary.json report
  *
  * See CG-0MLTFTD0B0B3EL3W for full requirements.
@@ -25,45 +27,19 @@ import type { Browser, Page } from 'playwright';
 import { spawn } from 'node:child_process';
 import type { ChildProcess } from 'node:child_process';
 import http from 'node:http';
+import { upgradeTranscript } from '../src/core-engine/Transcript';
+import {
+  GOLF_TRANSCRIPT_TYPE,
+  migrateGolfTranscriptV1,
+} from '../example-games/golf/GameTranscript';
 
 // ── Types ───────────────────────────────────────────────────
 
 import type { CardSnapshot } from '../src/core-engine/TranscriptTypes';
-
-/** Minimal transcript types matching GameTranscript.ts schema. */
-
-interface BoardSnapshot {
-  grid: CardSnapshot[];
-  faceUpCount: number;
-  visibleScore: number;
-  totalScore: number;
-}
-
-interface TurnRecord {
-  turnNumber: number;
-  playerIndex: number;
-  playerName: string;
-  boardStates: BoardSnapshot[];
-  discardTop: CardSnapshot | null;
-  stockRemaining: number;
-  roundEnded: boolean;
-}
-
-interface GameTranscript {
-  version: number;
-  metadata: {
-    startedAt: string;
-    endedAt: string;
-    players: Array<{ name: string; isAI: boolean; strategy?: string }>;
-  };
-  initialState: {
-    boardStates: BoardSnapshot[];
-    discardTop: CardSnapshot | null;
-    stockRemaining: number;
-  };
-  turns: TurnRecord[];
-  results: { scores: number[]; winnerIndex: number; winnerName: string } | null;
-}
+import type {
+  BoardSnapshot,
+  GameTranscript,
+} from '../example-games/golf/GameTranscript';
 
 interface TurnSummary {
   turn: number;
@@ -152,28 +128,50 @@ function loadTranscript(filePath: string): GameTranscript {
     process.exit(1);
   }
 
-  let transcript: GameTranscript;
+  let data: Record<string, unknown>;
   try {
-    transcript = JSON.parse(rawContent) as GameTranscript;
+    data = JSON.parse(rawContent) as Record<string, unknown>;
   } catch {
     console.error('Error: Transcript file contains invalid JSON.');
     process.exit(1);
   }
 
-  if (transcript.version !== 1) {
+  // Version 1 files are checked in their own terms before upgrading
+  if (data.version === 1) {
+    if (!Array.isArray(data.turns)) {
+      console.error('Error: Transcript has no turns array.');
+      process.exit(1);
+    }
+    if (!data.initialState) {
+      console.error('Error: Transcript has no initialState.');
+      process.exit(1);
+    }
+  }
+
+  let transcript: GameTranscript;
+  try {
+    transcript = upgradeTranscript(GOLF_TRANSCRIPT_TYPE, data, {
+      [GOLF_TRANSCRIPT_TYPE]: migrateGolfTranscriptV1,
+    }) as GameTranscript;
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(1);
+  }
+
+  if (transcript.gameType !== GOLF_TRANSCRIPT_TYPE) {
     console.error(
-      `Unsupported transcript version: ${transcript.version}. Expected: 1`,
+      `Error: Only Golf transcripts can be replayed (got ${transcript.gameType}).`,
     );
     process.exit(1);
   }
 
-  if (!Array.isArray(transcript.turns)) {
-    console.error('Error: Transcript has no turns array.');
+  if (!Array.isArray(transcript.actions)) {
+    console.error('Error: Transcript has no actions array.');
     process.exit(1);
   }
 
-  if (!transcript.initialState) {
-    console.error('Error: Transcript has no initialState.');
+  if (!transcript.initialSnapshot) {
+    console.error('Error: Transcript has no initialSnapshot.');
     process.exit(1);
   }
 
@@ -351,8 +349,8 @@ async function main(): Promise<void> {
 
   console.log(`Transcript: ${transcriptPath}`);
   console.log(`  Version: ${transcript.version}`);
-  console.log(`  Turns: ${transcript.turns.length}`);
-  console.log(`  Players: ${transcript.metadata.players.map((p) => p.name).join(', ')}`);
+  console.log(`  Turns: ${transcript.actions.length}`);
+  console.log(`  Players: ${transcript.players.map((p) => p.name).join(', ')}`);
   console.log(`  Output: ${outputDir}`);
 
   // Ensure output directory exists
@@ -403,12 +401,13 @@ async function main(): Promise<void> {
     // ── Initial state screenshot ──
     console.log('Loading initial state...');
     const initStart = Date.now();
+    const initial = transcript.initialSnapshot!;
     try {
       await injectBoardStateAndWait(
         page,
-        transcript.initialState.boardStates,
-        transcript.initialState.discardTop,
-        transcript.initialState.stockRemaining,
+        initial.boardStates,
+        initial.discardTop,
+        initial.stockRemaining,
         STATE_SETTLED_TIMEOUT,
       );
       // Allow a frame for rendering to complete
@@ -431,17 +430,20 @@ async function main(): Promise<void> {
     }
 
     // ── Per-turn screenshots ──
-    for (let i = 0; i < transcript.turns.length; i++) {
-      const turn = transcript.turns[i];
+    for (let i = 0; i < transcript.actions.length; i++) {
+      const turn = transcript.actions[i];
       const turnLabel = String(i + 1).padStart(3, '0');
       const turnStart = Date.now();
 
       try {
+        if (!turn.snapshot) {
+          throw new Error('Action has no snapshot');
+        }
         await injectBoardStateAndWait(
           page,
-          turn.boardStates,
-          turn.discardTop,
-          turn.stockRemaining,
+          turn.snapshot.boardStates,
+          turn.snapshot.discardTop,
+          turn.snapshot.stockRemaining,
           STATE_SETTLED_TIMEOUT,
         );
         await page.waitForTimeout(100);
@@ -457,7 +459,9 @@ async function main(): Promise<void> {
         });
         summary.turnsReplayed++;
 
-        const playerLabel = `${turn.playerName} (P${turn.playerIndex})`;
+        // Every Golf turn is taken by a player
+        const playerName = transcript.players[turn.playerIndex!].name;
+        const playerLabel = `${playerName} (P${turn.playerIndex})`;
         console.log(`  turn-${turnLabel}.png [${playerLabel}] [${turnDuration}ms]`);
       } catch (err) {
         const msg = `Turn ${i + 1} error: ${(err as Error).message}`;
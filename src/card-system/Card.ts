@@ -3,10 +3,20 @@
  *
  * Defines Rank, Suit, and Card as the foundational data model
  * consumed by all game spikes and engine modules.
+ *
+ * Jokers are ordinary Cards with rank `'Joker'`. A joker's suit only
+ * encodes its colour (black jokers use spades, red jokers use hearts)
+ * so that jokers fit the same data model and texture lookups as every
+ * other card; rules should test `isJoker` rather than the suit.
+ *
+ * Every card carries an engine-assigned numeric `id` derived from its
+ * rank, suit and deck of origin (see {@link cardId}). The id is stable
+ * across piles, undo/redo and transcripts, so scenes can track "this
+ * specific card" without matching on rank and suit.
  */
 
-/** Standard playing card ranks. */
-export type Rank =
+/** The thirteen natural ranks of a French deck (A..K). */
+export type NaturalRank =
   | 'A'
   | '2'
   | '3'
@@ -21,8 +31,14 @@ export type Rank =
   | 'Q'
   | 'K';
 
-/** All ranks in order (Ace low). */
-export const RANKS: readonly Rank[] = [
+/** Playing card ranks, including the joker. */
+export type Rank = NaturalRank | 'Joker';
+
+/** The joker rank. */
+export const JOKER_RANK = 'Joker' as const;
+
+/** All natural ranks in order (Ace low). Does not include the joker. */
+export const RANKS: readonly NaturalRank[] = [
   'A',
   '2',
   '3',
@@ -49,25 +65,147 @@ export const SUITS: readonly Suit[] = [
   'spades',
 ] as const;
 
+/** Colour of a suit or card. */
+export type CardColor = 'black' | 'red';
+
+/** Colour of a joker. */
+export type JokerColor = CardColor;
+
+/** The red suits. */
+export const RED_SUITS: readonly Suit[] = ['diamonds', 'hearts'] as const;
+
+/** The black suits. */
+export const BLACK_SUITS: readonly Suit[] = ['clubs', 'spades'] as const;
+
+/**
+ * Minimal shape shared by every card type the card-system handles.
+ *
+ * Piles, hands and the deck operations only need a card's identity, so
+ * game-specific card types (Sushi Go! dishes, Splendor development
+ * cards) can use them alongside standard playing cards.
+ */
+export interface CardLike {
+  /** Identity of the card, unique within a deck. */
+  readonly id: number;
+}
+
 /**
  * A playing card with rank, suit, and face-up/face-down state.
  *
- * Cards are mutable only in their `faceUp` property; rank and suit
- * are fixed at creation and should not be changed.
+ * Cards are mutable only in their `faceUp` property; rank, suit and
+ * id are fixed at creation and should not be changed.
  */
 export interface Card {
+  /** Engine-assigned identity, unique within a deck or shoe. See {@link cardId}. */
+  readonly id: number;
   readonly rank: Rank;
   readonly suit: Suit;
   faceUp: boolean;
+  /**
+   * Which deck of a multi-deck shoe this copy came from (0-based).
+   * Distinguishes otherwise identical cards, e.g. the two Queens of
+   * Spades in a two-deck game. Absent for single cards created ad hoc.
+   */
+  readonly deckIndex?: number;
+}
+
+/** Number of id slots reserved per deck: 52 natural cards plus 2 jokers. */
+export const CARD_IDS_PER_DECK = 54;
+
+/**
+ * The id of a card with the given rank, suit and deck of origin.
+ *
+ * Ids are deterministic: within deck `d`, natural cards are numbered
+ * `d * 54 + suitIndex * 13 + rankIndex` (suits and ranks in
+ * {@link SUITS} / {@link RANKS} order) and the black and red jokers
+ * take slots 52 and 53. Every card of a deck or multi-deck shoe
+ * therefore has a distinct id, and the same deal always produces the
+ * same ids.
+ */
+export function cardId(rank: Rank, suit: Suit, deckIndex: number = 0): number {
+  const base = deckIndex * CARD_IDS_PER_DECK;
+  if (rank === JOKER_RANK) {
+    return base + (suitColor(suit) === 'black' ? 52 : 53);
+  }
+  return base + SUITS.indexOf(suit) * RANKS.length + RANKS.indexOf(rank);
 }
 
 /**
  * Create a single card, face-down by default.
+ *
+ * @param deckIndex  Optional deck-of-origin index for multi-deck shoes.
  */
 export function createCard(
   rank: Rank,
   suit: Suit,
   faceUp: boolean = false,
+  deckIndex?: number,
+): Card {
+  const id = cardId(rank, suit, deckIndex);
+  return deckIndex === undefined
+    ? { id, rank, suit, faceUp }
+    : { id, rank, suit, faceUp, deckIndex };
+}
+
+/**
+ * Create a joker of the given colour, face-down by default.
+ */
+export function createJoker(
+  color: JokerColor,
+  faceUp: boolean = false,
+  deckIndex?: number,
 ): Card {
-  return { rank, suit, faceUp };
+  return createCard(
+    JOKER_RANK,
+    color === 'black' ? 'spades' : 'hearts',
+    faceUp,
+    deckIndex,
+  );
+}
+
+/** Whether the card is a joker. */
+export function isJoker(card: { readonly rank: Rank }): boolean {
+  return card.rank === JOKER_RANK;
+}
+
+/**
+ * The colour of a joker.
+ *
+ * @throws If the card is not a joker.
+ */
+export function jokerColor(card: Card): JokerColor {
+  if (!isJoker(card)) {
+    throw new Error(`${card.rank} of ${card.suit} is not a joker`);
+  }
+  return suitColor(card.suit);
+}
+
+// ── Colours ─────────────────────────────────────────────────
+
+/** The colour of a suit. */
+export function suitColor(suit: Suit): CardColor {
+  return RED_SUITS.includes(suit) ? 'red' : 'black';
+}
+
+/** The suits of a colour. */
+export function suitsOfColor(color: CardColor): readonly Suit[] {
+  return color === 'red' ? RED_SUITS : BLACK_SUITS;
+}
+
+/**
+ * The colour of a card. A joker's suit encodes its colour, so this is
+ * also correct for jokers.
+ */
+export function cardColor(card: { readonly suit: Suit }): CardColor {
+  return suitColor(card.suit);
+}
+
+/** Whether the card is red (diamonds, hearts or the red joker). */
+export function isRed(card: { readonly suit: Suit }): boolean {
+  return cardColor(card) === 'red';
+}
+
+/** Whether the card is black (clubs, spades or the black joker). */
+export function isBlack(card: { readonly suit: Suit }): boolean {
+  return cardColor(card) === 'black';
 }
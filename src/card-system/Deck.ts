@@ -1,38 +1,207 @@
 /**
  * Deck operations for the Tableau Card Engine.
  *
- * A Deck is represented as a plain Card array. This module provides
+ * A Deck is represented as a plain card array. This module provides
  * factory functions and operations (shuffle, draw) that work on
- * Card arrays, keeping the data model simple and composable.
+ * card arrays, keeping the data model simple and composable.
+ *
+ * The operations are generic over the card type, and
+ * {@link buildDeck} builds a deck for any game from a declarative
+ * {@link DeckComposition}, so games with their own card types (e.g.
+ * Sushi Go!) share the same deck code as standard playing cards.
  */
 
-import { Card, Rank, Suit, RANKS, SUITS, createCard } from './Card';
+import {
+  Card,
+  CardLike,
+  JokerColor,
+  Rank,
+  Suit,
+  RANKS,
+  SUITS,
+  createCard,
+  createJoker,
+} from './Card';
+
+// ── Deck composition ────────────────────────────────────────
+
+/** Ranks of the 32-card piquet deck (7 through Ace). */
+export const PIQUET_RANKS: readonly Rank[] = [
+  'A', '7', '8', '9', '10', 'J', 'Q', 'K',
+] as const;
+
+/** Ranks of each half of the 48-card pinochle deck (9 through Ace). */
+export const PINOCHLE_RANKS: readonly Rank[] = [
+  'A', '9', '10', 'J', 'Q', 'K',
+] as const;
+
+/** Maximum number of jokers per deck. */
+export const MAX_JOKERS_PER_DECK = 2;
+
+/** Options for building a deck or multi-deck shoe. */
+export interface DeckOptions {
+  /** Number of complete decks in the shoe (default 1). */
+  decks?: number;
+  /**
+   * Jokers added to each deck, 0-2 (default 0). The first joker of
+   * each deck is black, the second red.
+   */
+  jokers?: number;
+  /** Ranks included in each deck (default all 13, A through K). */
+  ranks?: readonly Rank[];
+  /** Suits included in each deck (default all four). */
+  suits?: readonly Suit[];
+}
+
+/** Colours of the jokers added to each deck, in order. */
+const JOKER_COLORS: readonly JokerColor[] = ['black', 'red'];
 
 /**
- * Create a standard 52-card deck (no jokers), all cards face-down.
+ * Create a deck, all cards face-down.
+ *
+ * With no options this is the standard 52-card deck (no jokers),
+ * ordered by suit (alphabetical) then rank (A through K). Options
+ * allow jokers, short decks (see PIQUET_RANKS / PINOCHLE_RANKS) and
+ * multi-deck shoes. In a shoe every card records the deck it came
+ * from in `deckIndex`, so duplicate copies remain distinguishable;
+ * cards are ordered deck by deck, with each deck's jokers last.
  *
- * Cards are ordered by suit (alphabetical) then rank (A through K).
+ * @throws If `decks` is not a positive integer or `jokers` is not 0-2.
  */
-export function createStandardDeck(): Card[] {
+export function createStandardDeck(options: DeckOptions = {}): Card[] {
+  const {
+    decks = 1,
+    jokers = 0,
+    ranks = RANKS,
+    suits = SUITS,
+  } = options;
+
+  if (!Number.isInteger(decks) || decks < 1) {
+    throw new Error(`Deck count must be a positive integer, got ${decks}`);
+  }
+  if (!Number.isInteger(jokers) || jokers < 0 || jokers > MAX_JOKERS_PER_DECK) {
+    throw new Error(
+      `Jokers per deck must be between 0 and ${MAX_JOKERS_PER_DECK}, got ${jokers}`,
+    );
+  }
+
+  // Single plain decks keep the original card shape (no deckIndex)
+  const multiDeck = decks > 1;
   const deck: Card[] = [];
-  for (const suit of SUITS) {
-    for (const rank of RANKS) {
-      deck.push(createCard(rank, suit));
+  for (let d = 0; d < decks; d++) {
+    const deckIndex = multiDeck ? d : undefined;
+    for (const suit of suits) {
+      for (const rank of RANKS) {
+        if (!ranks.includes(rank)) continue;
+        deck.push(createCard(rank, suit, false, deckIndex));
+      }
+    }
+    for (let j = 0; j < jokers; j++) {
+      deck.push(createJoker(JOKER_COLORS[j], false, deckIndex));
     }
   }
   return deck;
 }
 
+/**
+ * Create a 32-card piquet deck (7 through Ace in each suit).
+ */
+export function createPiquetDeck(): Card[] {
+  return createStandardDeck({ ranks: PIQUET_RANKS });
+}
+
+/**
+ * Create a 48-card pinochle deck (two copies of 9 through Ace in
+ * each suit). The copies are distinguished by `deckIndex`.
+ */
+export function createPinochleDeck(): Card[] {
+  return createStandardDeck({ ranks: PINOCHLE_RANKS, decks: 2 });
+}
+
 /**
  * Create a deck from a specific list of rank/suit pairs.
  * All cards are created face-down by default.
+ *
+ * Ids are derived from rank, suit and `deckIndex`, so repeating a
+ * rank/suit pair without distinct `deckIndex` values yields cards that
+ * share an id.
  */
 export function createDeckFrom(
-  cards: ReadonlyArray<{ rank: Rank; suit: Suit; faceUp?: boolean }>,
+  cards: ReadonlyArray<{
+    rank: Rank;
+    suit: Suit;
+    faceUp?: boolean;
+    deckIndex?: number;
+  }>,
 ): Card[] {
-  return cards.map((c) => createCard(c.rank, c.suit, c.faceUp ?? false));
+  return cards.map((c) =>
+    createCard(c.rank, c.suit, c.faceUp ?? false, c.deckIndex),
+  );
 }
 
+// ── Custom decks ────────────────────────────────────────────
+
+/**
+ * One line of a {@link DeckComposition}: `count` copies of a card,
+ * each built by `factory` from the id it is assigned.
+ */
+export interface DeckCompositionEntry<T extends CardLike> {
+  readonly count: number;
+  readonly factory: (id: number) => T;
+}
+
+/**
+ * Declarative description of a deck: how many of each kind of card it
+ * contains, in deck order.
+ */
+export type DeckComposition<T extends CardLike> = ReadonlyArray<
+  DeckCompositionEntry<T>
+>;
+
+/** Total number of cards a composition builds. */
+export function compositionSize<T extends CardLike>(
+  composition: DeckComposition<T>,
+): number {
+  return composition.reduce((sum, entry) => sum + entry.count, 0);
+}
+
+/**
+ * Build a deck (unshuffled) from a composition.
+ *
+ * Cards receive sequential ids starting at `firstId` (default 0), in
+ * composition order.
+ *
+ * @throws If an entry's count is not a non-negative integer, or a
+ *         factory returns a card with a different id.
+ */
+export function buildDeck<T extends CardLike>(
+  composition: DeckComposition<T>,
+  firstId = 0,
+): T[] {
+  const deck: T[] = [];
+  let nextId = firstId;
+
+  for (const entry of composition) {
+    if (!Number.isInteger(entry.count) || entry.count < 0) {
+      throw new Error(
+        `Card count must be a non-negative integer, got ${entry.count}`,
+      );
+    }
+    for (let i = 0; i < entry.count; i++) {
+      const id = nextId++;
+      const card = entry.factory(id);
+      if (card.id !== id) {
+        throw new Error(`Card factory returned id ${card.id}, expected ${id}`);
+      }
+      deck.push(card);
+    }
+  }
+
+  return deck;
+}
+
+// ── Operations ──────────────────────────────────────────────
+
 /**
  * Shuffle a deck in place using the Fisher-Yates algorithm.
  *
@@ -42,10 +211,10 @@ export function createDeckFrom(
  *
  * @returns The same array reference (mutated).
  */
-export function shuffle(
-  deck: Card[],
+export function shuffle<T>(
+  deck: T[],
   rng: () => number = Math.random,
-): Card[] {
+): T[] {
   for (let i = deck.length - 1; i > 0; i--) {
     const j = Math.floor(rng() * (i + 1));
     [deck[i], deck[j]] = [deck[j], deck[i]];
@@ -59,7 +228,7 @@ export function shuffle(
  * @returns The drawn card, or `undefined` if the deck is empty.
  *          The card is removed from the deck array.
  */
-export function draw(deck: Card[]): Card | undefined {
+export function draw<T>(deck: T[]): T | undefined {
   return deck.pop();
 }
 
@@ -69,7 +238,7 @@ export function draw(deck: Card[]): Card | undefined {
  * Use this when an empty deck indicates a logic error (e.g.
  * dealing should never exhaust the deck).
  */
-export function drawOrThrow(deck: Card[]): Card {
+export function drawOrThrow<T>(deck: T[]): T {
   const card = deck.pop();
   if (card === undefined) {
     throw new Error('Cannot draw from an empty deck');
@@ -0,0 +1,338 @@
+/**
+ * Hand abstraction for the Tableau Card Engine.
+ *
+ * A Hand is an ordered collection of cards held by a player. Unlike a
+ * Pile, any card can be removed, not just the top one, so cards are
+ * addressed by their `id`. The hand can be re-ordered with a comparator
+ * (see {@link compareBySuit} and {@link compareByRank} for standard
+ * cards), grouped by any key, and tracks which cards are selected for
+ * games where the player picks several cards at once.
+ *
+ * Hand is generic over the card type: anything with a numeric `id`
+ * works, so game-specific cards (e.g. Sushi Go!) can use it as well as
+ * standard playing cards. UI components subscribe with
+ * {@link Hand.onChange} to redraw when the hand changes.
+ */
+
+import type { Card, CardLike } from './Card';
+import { RANKS, SUITS, JOKER_RANK } from './Card';
+
+// ── Types ───────────────────────────────────────────────────
+
+/** Comparator used to sort a hand. */
+export type HandComparator<T> = (a: T, b: T) => number;
+
+/** What changed in a hand. */
+export type HandChangeKind =
+  | 'added'
+  | 'removed'
+  | 'sorted'
+  | 'selection';
+
+/** Notification sent to {@link Hand.onChange} listeners. */
+export interface HandChange<T> {
+  readonly kind: HandChangeKind;
+  /**
+   * The cards affected: added or removed cards, the cards whose
+   * selection state flipped, or every card after a sort.
+   */
+  readonly cards: readonly T[];
+}
+
+/** Listener for hand changes. */
+export type HandChangeListener<T> = (change: HandChange<T>) => void;
+
+// ── Standard card comparators ───────────────────────────────
+
+/** Sort position of a rank: Ace low, jokers after Kings. */
+function rankOrder(card: Card): number {
+  return card.rank === JOKER_RANK ? RANKS.length : RANKS.indexOf(card.rank);
+}
+
+/**
+ * Order standard cards by suit (clubs, diamonds, hearts, spades), then
+ * by rank (Ace low). Jokers sort after all suited cards.
+ */
+export function compareBySuit(a: Card, b: Card): number {
+  const aJoker = a.rank === JOKER_RANK ? 1 : 0;
+  const bJoker = b.rank === JOKER_RANK ? 1 : 0;
+  return (
+    aJoker - bJoker ||
+    SUITS.indexOf(a.suit) - SUITS.indexOf(b.suit) ||
+    rankOrder(a) - rankOrder(b)
+  );
+}
+
+/**
+ * Order standard cards by rank (Ace low, jokers last), then by suit.
+ */
+export function compareByRank(a: Card, b: Card): number {
+  return (
+    rankOrder(a) - rankOrder(b) ||
+    SUITS.indexOf(a.suit) - SUITS.indexOf(b.suit)
+  );
+}
+
+// ── Hand ────────────────────────────────────────────────────
+
+export class Hand<T extends CardLike = Card> {
+  private readonly cards: T[] = [];
+  private readonly selectedIds = new Set<number>();
+  private listeners: HandChangeListener<T>[] = [];
+
+  /**
+   * Create a Hand, optionally pre-populated with cards (in order).
+   *
+   * @throws If two cards share an id.
+   */
+  constructor(cards: readonly T[] = []) {
+    for (const card of cards) {
+      this.assertAbsent(card.id);
+      this.cards.push(card);
+    }
+  }
+
+  // ── Contents ──────────────────────────────────────────────
+
+  /** The number of cards in the hand. */
+  size(): number {
+    return this.cards.length;
+  }
+
+  /** Whether the hand contains no cards. */
+  isEmpty(): boolean {
+    return this.cards.length === 0;
+  }
+
+  /** Whether a card with this id is in the hand. */
+  has(id: number): boolean {
+    return this.indexOf(id) !== -1;
+  }
+
+  /** The card with this id, or `undefined` if it is not in the hand. */
+  get(id: number): T | undefined {
+    return this.cards.find((card) => card.id === id);
+  }
+
+  /** Position of the card with this id, or -1. */
+  indexOf(id: number): number {
+    return this.cards.findIndex((card) => card.id === id);
+  }
+
+  /** The card at a position, or `undefined` if out of range. */
+  at(index: number): T | undefined {
+    return this.cards[index];
+  }
+
+  /** Return a shallow copy of the cards in hand order. */
+  toArray(): T[] {
+    return [...this.cards];
+  }
+
+  // ── Insertion and removal ─────────────────────────────────
+
+  /**
+   * Add cards to the end of the hand.
+   *
+   * @throws If a card's id is already in the hand.
+   */
+  add(...newCards: T[]): void {
+    this.insertAt(this.cards.length, ...newCards);
+  }
+
+  /**
+   * Insert cards at a position (0 = front), keeping their order.
+   *
+   * @throws If the index is out of range or a card's id is already in
+   *         the hand.
+   */
+  insertAt(index: number, ...newCards: T[]): void {
+    if (!Number.isInteger(index) || index < 0 || index > this.cards.length) {
+      throw new Error(
+        `Cannot insert at index ${index} of a hand of ${this.cards.length} cards`,
+      );
+    }
+    const ids = new Set<number>();
+    for (const card of newCards) {
+      this.assertAbsent(card.id);
+      if (ids.has(card.id)) {
+        throw new Error(`Card ${card.id} is already in the hand`);
+      }
+      ids.add(card.id);
+    }
+    if (newCards.length === 0) return;
+
+    this.cards.splice(index, 0, ...newCards);
+    this.notify('added', newCards);
+  }
+
+  /**
+   * Remove and return the card with this id. The card is also
+   * deselected.
+   *
+   * @throws If no card with this id is in the hand.
+   */
+  remove(id: number): T {
+    return this.removeMany([id])[0];
+  }
+
+  /**
+   * Remove and return several cards by id, in hand order.
+   *
+   * @throws If any id is not in the hand (nothing is removed).
+   */
+  removeMany(ids: readonly number[]): T[] {
+    for (const id of ids) {
+      if (!this.has(id)) {
+        throw new Error(`Card ${id} is not in the hand`);
+      }
+    }
+    const wanted = new Set(ids);
+    const removed = this.cards.filter((card) => wanted.has(card.id));
+    if (removed.length === 0) return [];
+
+    const kept = this.cards.filter((card) => !wanted.has(card.id));
+    this.cards.splice(0, this.cards.length, ...kept);
+    for (const id of wanted) this.selectedIds.delete(id);
+    this.notify('removed', removed);
+    return removed;
+  }
+
+  /** Remove and return every selected card, in hand order. */
+  removeSelected(): T[] {
+    return this.removeMany([...this.selectedIds]);
+  }
+
+  /** Remove and return every card. */
+  clear(): T[] {
+    return this.removeMany(this.cards.map((card) => card.id));
+  }
+
+  // ── Ordering and grouping ─────────────────────────────────
+
+  /**
+   * Re-order the hand with a comparator. The sort is stable, so cards
+   * that compare equal keep their relative order.
+   */
+  sort(compare: HandComparator<T>): void {
+    this.cards.sort(compare);
+    this.notify('sorted', this.cards);
+  }
+
+  /**
+   * Group the cards by a key (e.g. suit, or a game-specific card type).
+   * Groups appear in order of their first card; cards within a group
+   * keep hand order.
+   */
+  groupBy<K>(key: (card: T) => K): Map<K, T[]> {
+    const groups = new Map<K, T[]>();
+    for (const card of this.cards) {
+      const k = key(card);
+      const group = groups.get(k);
+      if (group) {
+        group.push(card);
+      } else {
+        groups.set(k, [card]);
+      }
+    }
+    return groups;
+  }
+
+  // ── Selection ─────────────────────────────────────────────
+
+  /** Whether the card with this id is selected. */
+  isSelected(id: number): boolean {
+    return this.selectedIds.has(id);
+  }
+
+  /** The selected cards, in hand order. */
+  selected(): T[] {
+    return this.cards.filter((card) => this.selectedIds.has(card.id));
+  }
+
+  /** Number of selected cards. */
+  selectedCount(): number {
+    return this.selectedIds.size;
+  }
+
+  /**
+   * Select a card. Selecting an already-selected card does nothing.
+   *
+   * @throws If no card with this id is in the hand.
+   */
+  select(id: number): void {
+    this.setSelected(id, true);
+  }
+
+  /**
+   * Deselect a card. Deselecting an unselected card does nothing.
+   *
+   * @throws If no card with this id is in the hand.
+   */
+  deselect(id: number): void {
+    this.setSelected(id, false);
+  }
+
+  /**
+   * Flip a card's selection state.
+   *
+   * @returns Whether the card is now selected.
+   */
+  toggleSelected(id: number): boolean {
+    const selected = !this.selectedIds.has(id);
+    this.setSelected(id, selected);
+    return selected;
+  }
+
+  /** Deselect every card. */
+  clearSelection(): void {
+    const changed = this.selected();
+    if (changed.length === 0) return;
+    this.selectedIds.clear();
+    this.notify('selection', changed);
+  }
+
+  // ── Change notifications ──────────────────────────────────
+
+  /**
+   * Subscribe to changes. Listeners are called synchronously after each
+   * change. Returns an unsubscribe function.
+   */
+  onChange(listener: HandChangeListener<T>): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((fn) => fn !== listener);
+    };
+  }
+
+  // ── Internals ─────────────────────────────────────────────
+
+  private assertAbsent(id: number): void {
+    if (this.has(id)) {
+      throw new Error(`Card ${id} is already in the hand`);
+    }
+  }
+
+  private setSelected(id: number, selected: boolean): void {
+    const card = this.get(id);
+    if (!card) {
+      throw new Error(`Card ${id} is not in the hand`);
+    }
+    if (this.selectedIds.has(id) === selected) return;
+
+    if (selected) {
+      this.selectedIds.add(id);
+    } else {
+      this.selectedIds.delete(id);
+    }
+    this.notify('selection', [card]);
+  }
+
+  private notify(kind: HandChangeKind, cards: readonly T[]): void {
+    const change: HandChange<T> = { kind, cards: [...cards] };
+    // Listeners may unsubscribe while being notified
+    for (const listener of [...this.listeners]) {
+      listener(change);
+    }
+  }
+}
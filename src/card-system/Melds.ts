@@ -0,0 +1,372 @@
+/**
+ * Card pattern matching: sets, runs, flushes and meld partitions.
+ *
+ * - A **set** is cards of one rank (three Kings).
+ * - A **run** is cards of one suit in consecutive rank order (5-6-7 of
+ *   hearts). Where the Ace sits is configurable: low (A-2-3), high
+ *   (Q-K-A), both, and optionally wrapping around (K-A-2).
+ * - A **flush** is cards of one suit, in any rank order.
+ *
+ * {@link partitionMelds} finds the best way to split a hand into
+ * non-overlapping melds plus leftover "deadwood", as rummy-style games
+ * score it.
+ *
+ * Every function accepts a card array or a Pile. Jokers are not wild:
+ * they only match each other in sets and never belong to a run or
+ * flush.
+ */
+
+import type { Card, Rank, Suit } from './Card';
+import { RANKS, SUITS, JOKER_RANK } from './Card';
+import { Pile } from './Pile';
+import { ACE_LOW, ACE_HIGH, ACE_BOTH } from './RankOrder';
+
+// ── Types ───────────────────────────────────────────────────
+
+/** Cards to match: an array or a Pile (bottom to top). */
+export type CardSource = readonly Card[] | Pile;
+
+/**
+ * Where the Ace sits in a run:
+ * - `'low'`  -- below the 2 (A-2-3).
+ * - `'high'` -- above the King (Q-K-A).
+ * - `'both'` -- either end, but not both at once.
+ */
+export type AcePosition = 'low' | 'high' | 'both';
+
+/** Options for matching sets. */
+export interface SetOptions {
+  /** Minimum number of cards in a set (default 3). */
+  readonly minSize?: number;
+}
+
+/** Options for matching runs. */
+export interface RunOptions {
+  /** Minimum number of cards in a run (default 3). */
+  readonly minLength?: number;
+  /** Where the Ace sits (default `'low'`). */
+  readonly ace?: AcePosition;
+  /** Whether runs may wrap around from King to Ace to 2 (default false). */
+  readonly wrap?: boolean;
+}
+
+/** A matched group of cards. */
+export interface Meld {
+  readonly kind: 'set' | 'run';
+  /** The cards of the meld; runs are ordered from their lowest rank. */
+  readonly cards: readonly Card[];
+}
+
+/** Options for {@link partitionMelds}. */
+export interface PartitionOptions {
+  readonly sets?: SetOptions;
+  readonly runs?: RunOptions;
+  /**
+   * Penalty for leaving a card unmelded (default 1 per card, i.e.
+   * minimise the number of deadwood cards).
+   */
+  readonly deadwoodValue?: (card: Card) => number;
+}
+
+/** Result of {@link partitionMelds}. */
+export interface MeldPartition {
+  readonly melds: readonly Meld[];
+  /** Cards left out of every meld, in input order. */
+  readonly deadwood: readonly Card[];
+  /** Sum of the deadwood penalties. */
+  readonly deadwoodValue: number;
+}
+
+const DEFAULT_MIN_SET = 3;
+const DEFAULT_MIN_RUN = 3;
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function cardsOf(source: CardSource): readonly Card[] {
+  return source instanceof Pile ? source.toArray() : source;
+}
+
+/**
+ * The rank sequence runs are drawn from. With `ace: 'both'` the Ace
+ * appears at both ends.
+ */
+function runSequence(ace: AcePosition): readonly Rank[] {
+  switch (ace) {
+    case 'low':
+      return ACE_LOW.ranks;
+    case 'high':
+      return ACE_HIGH.ranks;
+    case 'both':
+      return ACE_BOTH.ranks;
+  }
+}
+
+/**
+ * Every window of consecutive ranks a run may occupy, longest first.
+ * Wrapping windows are only possible with a single Ace position.
+ */
+function runWindows(options: RunOptions): Rank[][] {
+  const ace = options.ace ?? 'low';
+  const sequence = runSequence(ace);
+  const minLength = options.minLength ?? DEFAULT_MIN_RUN;
+  const cyclic = (options.wrap ?? false) && ace !== 'both';
+  const windows: Rank[][] = [];
+
+  for (let length = RANKS.length; length >= minLength; length--) {
+    const starts = cyclic ? sequence.length : sequence.length - length + 1;
+    for (let start = 0; start < starts; start++) {
+      const window: Rank[] = [];
+      for (let i = 0; i < length; i++) {
+        window.push(sequence[(start + i) % sequence.length]);
+      }
+      windows.push(window);
+      // A full-length cyclic window is the same run from every start
+      if (cyclic && length === sequence.length) break;
+    }
+  }
+  return windows;
+}
+
+/**
+ * Pick one card of each window rank from same-suit cards, or
+ * `undefined` if a rank is missing.
+ */
+function fillWindow(
+  window: readonly Rank[],
+  cards: readonly Card[],
+): Card[] | undefined {
+  const picked: Card[] = [];
+  for (const rank of window) {
+    const card = cards.find((c) => c.rank === rank && !picked.includes(c));
+    if (!card) return undefined;
+    picked.push(card);
+  }
+  return picked;
+}
+
+function bySuit(cards: readonly Card[]): Map<Suit, Card[]> {
+  const groups = new Map<Suit, Card[]>();
+  for (const card of cards) {
+    if (card.rank === JOKER_RANK) continue;
+    const group = groups.get(card.suit) ?? [];
+    group.push(card);
+    groups.set(card.suit, group);
+  }
+  return groups;
+}
+
+// ── Predicates ──────────────────────────────────────────────
+
+/** Whether the cards form a set (all one rank). */
+export function isSet(source: CardSource, options: SetOptions = {}): boolean {
+  const cards = cardsOf(source);
+  const minSize = options.minSize ?? DEFAULT_MIN_SET;
+  return (
+    cards.length >= minSize &&
+    cards.length > 0 &&
+    cards.every((card) => card.rank === cards[0].rank)
+  );
+}
+
+/** Whether the cards form a run, in any order. */
+export function isRun(source: CardSource, options: RunOptions = {}): boolean {
+  const cards = cardsOf(source);
+  if (cards.length === 0) return false;
+  if (cards.some((c) => c.rank === JOKER_RANK || c.suit !== cards[0].suit)) {
+    return false;
+  }
+  return runWindows(options).some(
+    (window) =>
+      window.length === cards.length && fillWindow(window, cards) !== undefined,
+  );
+}
+
+/**
+ * Whether the cards form a flush: at least `minSize` cards (default:
+ * all of them, at least one) of one suit.
+ */
+export function isFlush(source: CardSource, minSize: number = 1): boolean {
+  const cards = cardsOf(source);
+  return (
+    cards.length >= minSize &&
+    cards.length > 0 &&
+    cards.every((c) => c.rank !== JOKER_RANK && c.suit === cards[0].suit)
+  );
+}
+
+// ── Finders ─────────────────────────────────────────────────
+
+/**
+ * Find every rank with enough cards to form a set. Each returned set
+ * holds all cards of that rank, in input order.
+ */
+export function findSets(source: CardSource, options: SetOptions = {}): Card[][] {
+  const minSize = options.minSize ?? DEFAULT_MIN_SET;
+  const groups = new Map<string, Card[]>();
+  for (const card of cardsOf(source)) {
+    const group = groups.get(card.rank) ?? [];
+    group.push(card);
+    groups.set(card.rank, group);
+  }
+  return [...groups.values()].filter((group) => group.length >= minSize);
+}
+
+/**
+ * Find the maximal runs: the longest runs that are not part of a
+ * longer run. Runs may share cards (e.g. with `ace: 'both'`, A-2-3 and
+ * Q-K-A can use the same Ace). Suits are reported in {@link SUITS}
+ * order, each run from its lowest rank.
+ */
+export function findRuns(source: CardSource, options: RunOptions = {}): Card[][] {
+  const suits = bySuit(cardsOf(source));
+  const windows = runWindows(options);
+  const runs: Card[][] = [];
+
+  for (const suit of SUITS) {
+    const cards = suits.get(suit);
+    if (!cards) continue;
+    const found: Rank[][] = [];
+    for (const window of windows) {
+      if (!fillWindow(window, cards)) continue;
+      // Skip sub-windows of a longer run already found
+      const contained = found.some((longer) => isSubWindow(window, longer));
+      if (contained) continue;
+      found.push(window);
+      runs.push(fillWindow(window, cards)!);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Whether `inner` occurs as consecutive ranks within `outer`. A
+ * full-suit window contains every other window (including wrapping
+ * ones).
+ */
+function isSubWindow(inner: readonly Rank[], outer: readonly Rank[]): boolean {
+  if (outer.length >= RANKS.length) return true;
+  for (let start = 0; start + inner.length <= outer.length; start++) {
+    if (inner.every((rank, i) => outer[start + i] === rank)) return true;
+  }
+  return false;
+}
+
+/**
+ * Find every suit holding at least `size` cards (default 5). Each
+ * flush holds all cards of that suit, in input order.
+ */
+export function findFlushes(source: CardSource, size: number = 5): Card[][] {
+  const suits = bySuit(cardsOf(source));
+  return SUITS.flatMap((suit) => {
+    const cards = suits.get(suit);
+    return cards && cards.length >= size ? [cards] : [];
+  });
+}
+
+// ── Partitioning ────────────────────────────────────────────
+
+/**
+ * Split the cards into non-overlapping melds plus deadwood so that the
+ * deadwood penalty is as small as possible.
+ *
+ * The search is exhaustive (memoised over the remaining cards), which
+ * is fast for hand-sized inputs of a dozen or so cards.
+ */
+export function partitionMelds(
+  source: CardSource,
+  options: PartitionOptions = {},
+): MeldPartition {
+  const cards = cardsOf(source);
+  const value = options.deadwoodValue ?? (() => 1);
+  const minSet = options.sets?.minSize ?? DEFAULT_MIN_SET;
+  const windows = runWindows(options.runs ?? {});
+
+  interface Best {
+    readonly cost: number;
+    readonly melds: Meld[];
+  }
+  const memo = new Map<string, Best>();
+
+  const solve = (remaining: readonly Card[]): Best => {
+    if (remaining.length === 0) return { cost: 0, melds: [] };
+    const key = remaining.map((c) => cards.indexOf(c)).join(',');
+    const cached = memo.get(key);
+    if (cached) return cached;
+
+    const [first, ...rest] = remaining;
+
+    // Option 1: the first card is deadwood
+    const skip = solve(rest);
+    let best: Best = { cost: skip.cost + value(first), melds: skip.melds };
+
+    // Option 2: the first card belongs to a meld
+    for (const meld of meldsContaining(first, rest, minSet, windows)) {
+      const left = remaining.filter((c) => !meld.cards.includes(c));
+      const sub = solve(left);
+      if (sub.cost < best.cost) {
+        best = { cost: sub.cost, melds: [meld, ...sub.melds] };
+      }
+    }
+
+    memo.set(key, best);
+    return best;
+  };
+
+  const best = solve(cards);
+  const melded = new Set(best.melds.flatMap((m) => m.cards));
+  const deadwood = cards.filter((c) => !melded.has(c));
+  return {
+    melds: best.melds,
+    deadwood,
+    deadwoodValue: deadwood.reduce((sum, c) => sum + value(c), 0),
+  };
+}
+
+/** Every set and run that includes `card`, drawn from `card` plus `others`. */
+function meldsContaining(
+  card: Card,
+  others: readonly Card[],
+  minSet: number,
+  windows: readonly Rank[][],
+): Meld[] {
+  const melds: Meld[] = [];
+
+  // Sets: the card plus any combination of same-rank cards
+  const sameRank = others.filter((c) => c.rank === card.rank);
+  for (const combo of combinations(sameRank, Math.max(0, minSet - 1))) {
+    melds.push({ kind: 'set', cards: [card, ...combo] });
+  }
+
+  // Runs: every window through the card's rank that can be filled
+  if (card.rank !== JOKER_RANK) {
+    const sameSuit = others.filter(
+      (c) => c.suit === card.suit && c.rank !== JOKER_RANK,
+    );
+    for (const window of windows) {
+      const at = window.indexOf(card.rank);
+      if (at === -1) continue;
+      const rest = window.filter((_, i) => i !== at);
+      const filled = fillWindow(rest, sameSuit);
+      if (!filled) continue;
+      filled.splice(at, 0, card);
+      melds.push({ kind: 'run', cards: filled });
+    }
+  }
+
+  return melds;
+}
+
+/** All subsets of `items` with at least `minSize` elements. */
+function combinations<T>(items: readonly T[], minSize: number): T[][] {
+  const result: T[][] = [];
+  const walk = (start: number, current: T[]): void => {
+    if (current.length >= minSize) result.push([...current]);
+    for (let i = start; i < items.length; i++) {
+      current.push(items[i]);
+      walk(i + 1, current);
+      current.pop();
+    }
+  };
+  walk(0, []);
+  return result;
+}
@@ -0,0 +1,155 @@
+/**
+ * Compact text notation for cards, piles and layouts.
+ *
+ * Lets tests, fixtures, bug reports and debug logs describe card
+ * states in one line instead of long `createCard(...)` calls or JSON
+ * snapshots. Every format function has a matching parse function, and
+ * `parse(format(x))` rebuilds an equal value.
+ *
+ * Grammar (case-insensitive when parsing; formatting uses upper case):
+ *
+ * - **Card** -- rank then suit: `AS`, `TH` (or `10H`), `QD`. Ranks are
+ *   `A 2-9 T J Q K`; suits are `C D H S`. Jokers are `BJ` (black) and
+ *   `RJ` (red). A `#n` suffix records the deck of origin in a
+ *   multi-deck shoe (`QS#1`), and a trailing `*` marks the card
+ *   face-down (`QS*`). Cards without `*` are face-up.
+ * - **Cards / pile** -- cards separated by spaces, bottom to top:
+ *   `AS 2H* 3C`. An empty pile is written `-`.
+ * - **Piles** -- piles separated by `|`: `AS 2H | - | KD`.
+ * - **Rows** -- rows of cards separated by `/`, e.g. a 3x3 grid:
+ *   `AS 2H 3C / 4D* 5S* 6H* / 7C* 8D* 9S*`.
+ * - **Layout** -- rows of piles separated by `/`, e.g. foundations then
+ *   tableau: `AC | AD | AH | AS / KS QH | 7D | - | ...`.
+ */
+
+import type { Card, NaturalRank, Suit } from './Card';
+import { JOKER_RANK, createCard, createJoker, jokerColor } from './Card';
+import { Pile } from './Pile';
+
+// ── Symbols ─────────────────────────────────────────────────
+
+/** Notation for an empty pile. */
+export const EMPTY_PILE_NOTATION = '-';
+
+const SUIT_LETTERS: Readonly<Record<Suit, string>> = {
+  clubs: 'C',
+  diamonds: 'D',
+  hearts: 'H',
+  spades: 'S',
+};
+
+const SUITS_BY_LETTER: Readonly<Record<string, Suit>> = {
+  C: 'clubs',
+  D: 'diamonds',
+  H: 'hearts',
+  S: 'spades',
+};
+
+const CARD_PATTERN = /^(10|[2-9TJQKA])([CDHS])(?:#(\d+))?(\*)?$/;
+const JOKER_PATTERN = /^([BR])J(?:#(\d+))?(\*)?$/;
+
+// ── Cards ───────────────────────────────────────────────────
+
+/** Format a card, e.g. `'TH'`, `'QS*'`, `'RJ'`, `'AS#1'`. */
+export function formatCard(card: Card): string {
+  const face =
+    card.rank === JOKER_RANK
+      ? `${jokerColor(card) === 'black' ? 'B' : 'R'}J`
+      : `${card.rank === '10' ? 'T' : card.rank}${SUIT_LETTERS[card.suit]}`;
+  const deck = card.deckIndex !== undefined ? `#${card.deckIndex}` : '';
+  return `${face}${deck}${card.faceUp ? '' : '*'}`;
+}
+
+/**
+ * Parse a single card.
+ *
+ * @throws If the text is not valid card notation.
+ */
+export function parseCard(text: string): Card {
+  const token = text.trim().toUpperCase();
+
+  const joker = JOKER_PATTERN.exec(token);
+  if (joker) {
+    const [, color, deck, down] = joker;
+    return createJoker(
+      color === 'B' ? 'black' : 'red',
+      down === undefined,
+      deck !== undefined ? Number(deck) : undefined,
+    );
+  }
+
+  const match = CARD_PATTERN.exec(token);
+  if (!match) {
+    throw new Error(`Invalid card notation: '${text}'`);
+  }
+  const [, rank, suit, deck, down] = match;
+  return createCard(
+    (rank === 'T' ? '10' : rank) as NaturalRank,
+    SUITS_BY_LETTER[suit],
+    down === undefined,
+    deck !== undefined ? Number(deck) : undefined,
+  );
+}
+
+// ── Card sequences and piles ────────────────────────────────
+
+/** Format cards as a space-separated list, or `-` if there are none. */
+export function formatCards(cards: readonly Card[]): string {
+  return cards.length === 0
+    ? EMPTY_PILE_NOTATION
+    : cards.map(formatCard).join(' ');
+}
+
+/**
+ * Parse a space-separated list of cards. `-` or blank text is an
+ * empty list.
+ *
+ * @throws If any card is not valid notation.
+ */
+export function parseCards(text: string): Card[] {
+  const trimmed = text.trim();
+  if (trimmed === '' || trimmed === EMPTY_PILE_NOTATION) return [];
+  return trimmed.split(/\s+/).map(parseCard);
+}
+
+/** Format a pile, bottom card first. */
+export function formatPile(pile: Pile): string {
+  return formatCards(pile.toArray());
+}
+
+/** Parse a pile (bottom card first). */
+export function parsePile(text: string): Pile {
+  return new Pile(parseCards(text));
+}
+
+/** Format several piles separated by `|`. */
+export function formatPiles(piles: readonly Pile[]): string {
+  return piles.map(formatPile).join(' | ');
+}
+
+/** Parse `|`-separated piles. */
+export function parsePiles(text: string): Pile[] {
+  return text.split('|').map(parsePile);
+}
+
+// ── Rows and layouts ────────────────────────────────────────
+
+/** Format rows of cards (e.g. a grid) separated by `/`. */
+export function formatRows(rows: readonly (readonly Card[])[]): string {
+  return rows.map(formatCards).join(' / ');
+}
+
+/** Parse `/`-separated rows of cards. */
+export function parseRows(text: string): Card[][] {
+  return text.split('/').map(parseCards);
+}
+
+/** Format rows of piles: piles separated by `|`, rows by `/`. */
+export function formatLayout(rows: readonly (readonly Pile[])[]): string {
+  return rows.map(formatPiles).join(' / ');
+}
+
+/** Parse rows of piles: piles separated by `|`, rows by `/`. */
+export function parseLayout(text: string): Pile[][] {
+  return text.split('/').map(parsePiles);
+}
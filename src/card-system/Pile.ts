@@ -1,28 +1,32 @@
 /**
  * Pile abstraction for the Tableau Card Engine.
  *
- * A Pile is a stack of cards (LIFO). It wraps a Card array and
- * exposes push, pop, peek, isEmpty, and size operations.
+ * A Pile is a stack of cards (LIFO). It wraps an array of cards and
+ * exposes push, pop, peek, isEmpty, and size operations, plus
+ * sub-stack operations (peekN, takeTop, takeFrom) for games that
+ * move ordered runs of cards between piles.
  *
  * Piles are used for draw piles, discard piles, foundations,
- * and any other ordered collection of cards in a game.
+ * and any other ordered collection of cards in a game. Pile is
+ * generic over the card type (standard playing cards by default), so
+ * games with their own card types can use it too.
  */
 
-import { Card } from './Card';
+import type { Card, CardLike } from './Card';
 
-export class Pile {
-  private readonly cards: Card[];
+export class Pile<T extends CardLike = Card> {
+  private readonly cards: T[];
 
   /**
    * Create a Pile, optionally pre-populated with cards.
    * The last element of the array is treated as the top of the pile.
    */
-  constructor(cards: Card[] = []) {
+  constructor(cards: T[] = []) {
     this.cards = [...cards];
   }
 
   /** Push one or more cards onto the top of the pile. */
-  push(...newCards: Card[]): void {
+  push(...newCards: T[]): void {
     this.cards.push(...newCards);
   }
 
@@ -30,14 +34,14 @@ export class Pile {
    * Remove and return the top card.
    * @returns The top card, or `undefined` if the pile is empty.
    */
-  pop(): Card | undefined {
+  pop(): T | undefined {
     return this.cards.pop();
   }
 
   /**
    * Remove and return the top card, throwing if the pile is empty.
    */
-  popOrThrow(): Card {
+  popOrThrow(): T {
     const card = this.cards.pop();
     if (card === undefined) {
       throw new Error('Cannot pop from an empty pile');
@@ -49,12 +53,52 @@ export class Pile {
    * Look at the top card without removing it.
    * @returns The top card, or `undefined` if the pile is empty.
    */
-  peek(): Card | undefined {
+  peek(): T | undefined {
     return this.cards.length > 0
       ? this.cards[this.cards.length - 1]
       : undefined;
   }
 
+  /**
+   * Look at the top `count` cards without removing them.
+   * @returns Up to `count` cards in bottom-to-top order (fewer if the
+   *          pile is smaller).
+   */
+  peekN(count: number): T[] {
+    if (count <= 0) return [];
+    return this.cards.slice(-count);
+  }
+
+  /**
+   * Remove and return every card from `index` (0 = bottom) to the top.
+   * The returned sub-stack keeps bottom-to-top order, so it can be
+   * appended to another pile with `push(...cards)`.
+   *
+   * @throws If `index` is not between 0 and `size()` (inclusive).
+   */
+  takeFrom(index: number): T[] {
+    if (!Number.isInteger(index) || index < 0 || index > this.cards.length) {
+      throw new Error(
+        `Cannot take from index ${index} of a pile of ${this.cards.length} cards`,
+      );
+    }
+    return this.cards.splice(index);
+  }
+
+  /**
+   * Remove and return the top `count` cards (bottom-to-top order).
+   *
+   * @throws If the pile holds fewer than `count` cards.
+   */
+  takeTop(count: number): T[] {
+    if (!Number.isInteger(count) || count < 0 || count > this.cards.length) {
+      throw new Error(
+        `Cannot take ${count} cards from a pile of ${this.cards.length} cards`,
+      );
+    }
+    return this.cards.splice(this.cards.length - count);
+  }
+
   /** Whether the pile contains no cards. */
   isEmpty(): boolean {
     return this.cards.length === 0;
@@ -69,7 +113,7 @@ export class Pile {
    * Return a shallow copy of all cards in the pile (bottom to top).
    * Useful for inspection and serialization.
    */
-  toArray(): Card[] {
+  toArray(): T[] {
     return [...this.cards];
   }
 
@@ -0,0 +1,206 @@
+/**
+ * Rank orders and rank value tables.
+ *
+ * A {@link RankOrder} lists ranks from lowest to highest. The built-in
+ * orders cover the usual positions of the Ace -- low ({@link ACE_LOW}),
+ * high ({@link ACE_HIGH}) or at both ends ({@link ACE_BOTH}) -- and
+ * {@link createRankOrder} builds custom orders (e.g. a trump order
+ * where the Jack ranks above the Ace). Rules use the order helpers
+ * instead of hard-coding rank arithmetic.
+ *
+ * A {@link RankValueTable} maps ranks to points, so scoring rules such
+ * as Golf's (A=1, 2=-2, K=0, ...) are data rather than switches.
+ */
+
+import type { Card, Rank, Suit } from './Card';
+import { RANKS, SUITS } from './Card';
+
+// ── Rank orders ─────────────────────────────────────────────
+
+/** Ranks ordered from lowest to highest. */
+export interface RankOrder {
+  /** Short name for debugging and variant configs (e.g. `'ace-high'`). */
+  readonly name: string;
+  /**
+   * Ranks from lowest to highest. Only the lowest rank may appear
+   * again as the highest (the Ace in {@link ACE_BOTH}).
+   */
+  readonly ranks: readonly Rank[];
+}
+
+/**
+ * Build a custom rank order.
+ *
+ * @throws If the order is empty or repeats a rank anywhere other than
+ *         at both ends.
+ */
+export function createRankOrder(name: string, ranks: readonly Rank[]): RankOrder {
+  if (ranks.length === 0) {
+    throw new Error(`Rank order '${name}' must contain at least one rank`);
+  }
+  const body =
+    ranks.length > 1 && ranks[0] === ranks[ranks.length - 1]
+      ? ranks.slice(0, -1)
+      : ranks;
+  if (new Set(body).size !== body.length) {
+    throw new Error(`Rank order '${name}' repeats a rank`);
+  }
+  return { name, ranks: [...ranks] };
+}
+
+/** Ace below the 2 (A, 2, ..., K). */
+export const ACE_LOW: RankOrder = createRankOrder('ace-low', RANKS);
+
+/** Ace above the King (2, ..., K, A). */
+export const ACE_HIGH: RankOrder = createRankOrder('ace-high', [
+  ...RANKS.slice(1),
+  'A',
+]);
+
+/** Ace at both ends (A, 2, ..., K, A), e.g. for straights and runs. */
+export const ACE_BOTH: RankOrder = createRankOrder('ace-both', [...RANKS, 'A']);
+
+/**
+ * Position of a rank in the order (0 = lowest), or -1 if the order
+ * does not contain it. A rank at both ends takes its higher position,
+ * so the Ace outranks the King under {@link ACE_BOTH}.
+ */
+export function rankIndex(order: RankOrder, rank: Rank): number {
+  return order.ranks.lastIndexOf(rank);
+}
+
+/**
+ * Compare two ranks: negative if `a` ranks below `b`, positive if
+ * above, 0 if equal. Ranks outside the order sort lowest.
+ */
+export function compareRanks(order: RankOrder, a: Rank, b: Rank): number {
+  return rankIndex(order, a) - rankIndex(order, b);
+}
+
+/**
+ * The rank directly above `rank`, or `undefined` at the top of the
+ * order (unless `wrap` is set) or if the order does not contain it.
+ * For a rank at both ends, the step is taken from its lower position.
+ */
+export function rankAfter(
+  order: RankOrder,
+  rank: Rank,
+  wrap: boolean = false,
+): Rank | undefined {
+  const index = order.ranks.indexOf(rank);
+  if (index === -1) return undefined;
+  if (index + 1 < order.ranks.length) return order.ranks[index + 1];
+  return wrap ? order.ranks[0] : undefined;
+}
+
+/**
+ * The rank directly below `rank`, or `undefined` at the bottom of the
+ * order (unless `wrap` is set) or if the order does not contain it.
+ * For a rank at both ends, the step is taken from its higher position.
+ */
+export function rankBefore(
+  order: RankOrder,
+  rank: Rank,
+  wrap: boolean = false,
+): Rank | undefined {
+  const index = order.ranks.lastIndexOf(rank);
+  if (index === -1) return undefined;
+  if (index > 0) return order.ranks[index - 1];
+  return wrap ? order.ranks[order.ranks.length - 1] : undefined;
+}
+
+/**
+ * Whether `upper` ranks exactly one step above `lower`. With `wrap`,
+ * the lowest rank also follows the highest (K-A in {@link ACE_LOW}).
+ */
+export function isRankAfter(
+  order: RankOrder,
+  lower: Rank,
+  upper: Rank,
+  wrap: boolean = false,
+): boolean {
+  const { ranks } = order;
+  for (let i = 0; i + 1 < ranks.length; i++) {
+    if (ranks[i] === lower && ranks[i + 1] === upper) return true;
+  }
+  return wrap && ranks[ranks.length - 1] === lower && ranks[0] === upper;
+}
+
+/** Options for {@link compareCardsBy}. */
+export interface CardOrderOptions {
+  /** Suit that beats every other suit (default: none). */
+  readonly trump?: Suit;
+  /** Tie-break order of suits, lowest first (default: {@link SUITS}). */
+  readonly suits?: readonly Suit[];
+}
+
+/**
+ * A card comparator for trick-taking and sorting: trumps beat
+ * non-trumps, then higher ranks beat lower ones, then suits break
+ * ties. Usable directly with `Hand.sort`.
+ */
+export function compareCardsBy(
+  order: RankOrder,
+  options: CardOrderOptions = {},
+): (a: Card, b: Card) => number {
+  const suits = options.suits ?? SUITS;
+  const trumpOf = (card: Card): number => (card.suit === options.trump ? 1 : 0);
+  return (a, b) =>
+    trumpOf(a) - trumpOf(b) ||
+    compareRanks(order, a.rank, b.rank) ||
+    suits.indexOf(a.suit) - suits.indexOf(b.suit);
+}
+
+// ── Value tables ────────────────────────────────────────────
+
+/** Points per rank. Ranks a game does not use may be omitted. */
+export type RankValueTable = { readonly [R in Rank]?: number };
+
+/**
+ * Look up a rank's value.
+ *
+ * @throws If the table has no value for the rank.
+ */
+export function rankValueIn(table: RankValueTable, rank: Rank): number {
+  const value = table[rank];
+  if (value === undefined) {
+    throw new Error(`No value for rank ${rank}`);
+  }
+  return value;
+}
+
+/**
+ * A table giving each rank its position in the order plus `first`
+ * (e.g. `valueTableFromOrder(ACE_HIGH, 2)` gives 2..14 with the Ace
+ * worth 14).
+ */
+export function valueTableFromOrder(
+  order: RankOrder,
+  first: number = 0,
+): RankValueTable {
+  const table: { [R in Rank]?: number } = {};
+  for (const rank of order.ranks) {
+    table[rank] = rankIndex(order, rank) + first;
+  }
+  return table;
+}
+
+/**
+ * Pip count as used for rummy deadwood and similar: Ace 1, number
+ * cards face value, court cards 10.
+ */
+export const PIP_VALUES: RankValueTable = {
+  A: 1,
+  '2': 2,
+  '3': 3,
+  '4': 4,
+  '5': 5,
+  '6': 6,
+  '7': 7,
+  '8': 8,
+  '9': 9,
+  '10': 10,
+  J: 10,
+  Q: 10,
+  K: 10,
+};
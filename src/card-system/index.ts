@@ -8,14 +8,43 @@
 export const CARD_SYSTEM_VERSION = '0.1.0';
 
 // Card types and factory
-export type { Card } from './Card';
-export type { Rank, Suit } from './Card';
-export { RANKS, SUITS, createCard } from './Card';
+export type { Card, CardLike } from './Card';
+export type { Rank, NaturalRank, Suit, CardColor, JokerColor } from './Card';
+export {
+  RANKS,
+  SUITS,
+  RED_SUITS,
+  BLACK_SUITS,
+  JOKER_RANK,
+  CARD_IDS_PER_DECK,
+  cardId,
+  createCard,
+  createJoker,
+  isJoker,
+  jokerColor,
+  suitColor,
+  suitsOfColor,
+  cardColor,
+  isRed,
+  isBlack,
+} from './Card';
 
 // Deck factory and operations
+export type {
+  DeckOptions,
+  DeckCompositionEntry,
+  DeckComposition,
+} from './Deck';
 export {
+  PIQUET_RANKS,
+  PINOCHLE_RANKS,
+  MAX_JOKERS_PER_DECK,
   createStandardDeck,
+  createPiquetDeck,
+  createPinochleDeck,
   createDeckFrom,
+  buildDeck,
+  compositionSize,
   shuffle,
   draw,
   drawOrThrow,
@@ -23,3 +52,67 @@ export {
 
 // Pile abstraction
 export { Pile } from './Pile';
+
+// Hand abstraction
+export type {
+  HandComparator,
+  HandChangeKind,
+  HandChange,
+  HandChangeListener,
+} from './Hand';
+export { Hand, compareBySuit, compareByRank } from './Hand';
+
+// Compact text notation
+export {
+  EMPTY_PILE_NOTATION,
+  formatCard,
+  parseCard,
+  formatCards,
+  parseCards,
+  formatPile,
+  parsePile,
+  formatPiles,
+  parsePiles,
+  formatRows,
+  parseRows,
+  formatLayout,
+  parseLayout,
+} from './Notation';
+
+// Sets, runs, flushes and meld partitions
+export type {
+  CardSource,
+  AcePosition,
+  SetOptions,
+  RunOptions,
+  Meld,
+  PartitionOptions,
+  MeldPartition,
+} from './Melds';
+export {
+  isSet,
+  isRun,
+  isFlush,
+  findSets,
+  findRuns,
+  findFlushes,
+  partitionMelds,
+} from './Melds';
+
+// Rank orders and value tables
+export type { RankOrder, CardOrderOptions, RankValueTable } from './RankOrder';
+export {
+  ACE_LOW,
+  ACE_HIGH,
+  ACE_BOTH,
+  PIP_VALUES,
+  createRankOrder,
+  rankIndex,
+  compareRanks,
+  rankAfter,
+  rankBefore,
+  isRankAfter,
+  compareCardsBy,
+  rankValueIn,
+  valueTableFromOrder,
+} from './RankOrder';
@@ -0,0 +1,78 @@
+/**
+ * Deal codes: short, shareable names for game seeds.
+ *
+ * A deal code is the seed written in upper-case base 36 (e.g. seed
+ * 3735928559 is `'1PS9WXB'`), short enough to read out or paste into a
+ * bug report. Scenes show the code in their HUD and accept a seed on
+ * start, so anyone can replay the same deal.
+ *
+ * Scenes resolve their seed with {@link resolveSceneSeed}: an explicit
+ * `{ seed }` start payload wins (game selector, "replay this deal"),
+ * then the page URL (`?deal=CODE` or `?seed=NUMBER`), then a fresh
+ * random seed.
+ */
+
+import { randomSeed } from './Rng';
+
+/** Start payload accepted by seeded game scenes. */
+export interface SeedSceneData {
+  /** Seed for the deal; omitted to fall back to the URL or a random seed. */
+  seed?: number;
+}
+
+/** Encode a seed as a deal code. */
+export function encodeDealCode(seed: number): string {
+  if (!Number.isSafeInteger(seed) || seed < 0) {
+    throw new Error(`Seed must be a non-negative integer, got ${seed}`);
+  }
+  return seed.toString(36).toUpperCase();
+}
+
+/**
+ * Decode a deal code back into a seed.
+ *
+ * Case-insensitive; surrounding whitespace and dashes are ignored so
+ * codes survive being retyped.
+ *
+ * @returns The seed, or `undefined` if the text is not a deal code.
+ */
+export function parseDealCode(code: string): number | undefined {
+  const cleaned = code.trim().replace(/-/g, '').toLowerCase();
+  if (!/^[0-9a-z]{1,10}$/.test(cleaned)) return undefined;
+  const seed = parseInt(cleaned, 36);
+  return Number.isSafeInteger(seed) ? seed : undefined;
+}
+
+/**
+ * Read a seed from a URL query string: `?deal=CODE` or `?seed=NUMBER`.
+ *
+ * @returns The seed, or `undefined` if neither parameter holds a valid value.
+ */
+export function seedFromQuery(search: string): number | undefined {
+  const params = new URLSearchParams(search);
+
+  const deal = params.get('deal');
+  if (deal !== null) {
+    const seed = parseDealCode(deal);
+    if (seed !== undefined) return seed;
+  }
+
+  const seedParam = params.get('seed');
+  if (seedParam !== null && /^\d+$/.test(seedParam.trim())) {
+    const seed = Number(seedParam.trim());
+    if (Number.isSafeInteger(seed)) return seed;
+  }
+
+  return undefined;
+}
+
+/**
+ * Pick the seed for a scene start: the start payload, then the URL
+ * query string, then a fresh random seed.
+ */
+export function resolveSceneSeed(
+  data: SeedSceneData | undefined,
+  search: string,
+): number {
+  return data?.seed ?? seedFromQuery(search) ?? randomSeed();
+}
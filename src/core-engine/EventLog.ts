@@ -0,0 +1,345 @@
+/**
+ * EventLog -- a persistent record of everything a {@link GameEventEmitter}
+ * emits.
+ *
+ * An {@link EventRecorder} listens to every event on an emitter (built-in
+ * and game-specific) and stamps each one with a timestamp, sequence
+ * number, session id and game type before handing it to one or more
+ * {@link EventSink}s:
+ *
+ *   - {@link MemoryEventSink}           -- in-memory ring buffer (debug tools)
+ *   - {@link TranscriptStoreEventSink}  -- IndexedDB / localStorage via a
+ *                                          {@link TranscriptStore}
+ *   - {@link JsonlEventSink}            -- JSON Lines file (Node tools)
+ *
+ * Usage:
+ * ```ts
+ * const buffer = new MemoryEventSink();
+ * const recorder = new EventRecorder(emitter, { gameType: 'golf', sinks: [buffer] });
+ * // ... play ...
+ * buffer.entries(); // every event so far, oldest first
+ * await recorder.stop();
+ * ```
+ *
+ * @module @core-engine/EventLog
+ */
+
+import {
+  GameEventEmitter,
+  type GameEventName,
+} from './GameEventEmitter';
+import { TranscriptStore } from './TranscriptStore';
+
+// ── Types ───────────────────────────────────────────────────
+
+/** One recorded event. */
+export interface LoggedEvent {
+  /** Position of the event within its session, from 0. */
+  seq: number;
+  /** ISO 8601 timestamp of the emission. */
+  timestamp: string;
+  /** The recording session the event belongs to. */
+  sessionId: string;
+  /** Game type identifier (e.g. 'golf', 'splendor'). */
+  gameType: string;
+  /** The event name. */
+  event: string;
+  /** The event payload, as emitted. */
+  payload: unknown;
+}
+
+/**
+ * Destination for recorded events. `write` is called synchronously for
+ * each event; sinks that buffer or write asynchronously persist
+ * outstanding events in `flush`.
+ */
+export interface EventSink {
+  write(entry: LoggedEvent): void;
+  flush?(): Promise<void>;
+}
+
+// ── In-memory ring buffer ───────────────────────────────────
+
+const DEFAULT_MEMORY_CAPACITY = 1000;
+
+/**
+ * Keeps the most recent events in memory, dropping the oldest once
+ * `capacity` is reached.
+ */
+export class MemoryEventSink implements EventSink {
+  private readonly buffer: LoggedEvent[] = [];
+  private start = 0;
+
+  constructor(readonly capacity: number = DEFAULT_MEMORY_CAPACITY) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Event buffer capacity must be a positive integer, got ${capacity}`);
+    }
+  }
+
+  write(entry: LoggedEvent): void {
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(entry);
+    } else {
+      this.buffer[this.start] = entry;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /** The buffered events, oldest first. */
+  entries(): LoggedEvent[] {
+    return [...this.buffer.slice(this.start), ...this.buffer.slice(0, this.start)];
+  }
+
+  /** Number of buffered events. */
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  /** Drop every buffered event. */
+  clear(): void {
+    this.buffer.length = 0;
+    this.start = 0;
+  }
+}
+
+// ── TranscriptStore sink ────────────────────────────────────
+
+/** A batch of events as saved in a {@link TranscriptStore}. */
+export interface EventLogBatch {
+  sessionId: string;
+  events: LoggedEvent[];
+}
+
+/** Prefix of the TranscriptStore game type that event batches are saved under. */
+export const EVENT_LOG_GAME_TYPE_PREFIX = 'events:';
+
+/** Options for a {@link TranscriptStoreEventSink}. */
+export interface TranscriptStoreEventSinkOptions {
+  /** Events buffered before a batch is saved. Defaults to 100. */
+  batchSize?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * The store event logs use unless another is given: a database of its
+ * own, so event batches never evict saved game transcripts.
+ */
+export function createEventLogStore(): TranscriptStore {
+  return new TranscriptStore({
+    dbName: 'event-log',
+    localStoragePrefix: 'tce-event-log',
+    maxPerGame: 50,
+  });
+}
+
+/**
+ * Saves events to a {@link TranscriptStore} (IndexedDB, falling back to
+ * localStorage) in batches. A batch is saved once `batchSize` events are
+ * buffered, and on {@link flush}. The store's rolling window applies per
+ * game type, so old batches are evicted first.
+ */
+export class TranscriptStoreEventSink implements EventSink {
+  private pending: LoggedEvent[] = [];
+  private saving: Promise<void> = Promise.resolve();
+  private readonly batchSize: number;
+
+  constructor(
+    private readonly store: TranscriptStore = createEventLogStore(),
+    options: TranscriptStoreEventSinkOptions = {},
+  ) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  write(entry: LoggedEvent): void {
+    this.pending.push(entry);
+    if (this.pending.length >= this.batchSize) {
+      // Fire and forget -- errors are logged but do not disrupt gameplay
+      this.flush().catch((err) => {
+        console.error('[EventLog] Failed to save events:', err);
+      });
+    }
+  }
+
+  /** Save every buffered event. Batches are saved in order. */
+  flush(): Promise<void> {
+    const events = this.pending;
+    this.pending = [];
+    if (events.length === 0) return this.saving;
+
+    const saved = this.saving.then(async () => {
+      for (const batch of groupBySession(events)) {
+        await this.store.save(
+          EVENT_LOG_GAME_TYPE_PREFIX + batch.events[0].gameType,
+          batch,
+        );
+      }
+    });
+    // A failed save is reported to its caller but does not stop later ones
+    this.saving = saved.catch(() => {});
+    return saved;
+  }
+}
+
+function groupBySession(events: readonly LoggedEvent[]): EventLogBatch[] {
+  const batches = new Map<string, EventLogBatch>();
+  for (const entry of events) {
+    const key = `${entry.gameType}\n${entry.sessionId}`;
+    let batch = batches.get(key);
+    if (!batch) {
+      batch = { sessionId: entry.sessionId, events: [] };
+      batches.set(key, batch);
+    }
+    batch.events.push(entry);
+  }
+  return [...batches.values()];
+}
+
+/**
+ * Read the events a {@link TranscriptStoreEventSink} saved for a game
+ * type, oldest first, optionally for one session only.
+ */
+export async function readStoredEvents(
+  store: TranscriptStore,
+  gameType: string,
+  sessionId?: string,
+): Promise<LoggedEvent[]> {
+  const stored = await store.list<EventLogBatch>(EVENT_LOG_GAME_TYPE_PREFIX + gameType);
+  return stored
+    .reverse() // list() is newest first
+    .filter((s) => sessionId === undefined || s.transcript.sessionId === sessionId)
+    .flatMap((s) => s.transcript.events);
+}
+
+// ── JSON Lines file sink ────────────────────────────────────
+
+/**
+ * Minimal subset of Node's `fs` module needed by {@link JsonlEventSink}.
+ * Pass `fs` itself (`import * as fs from 'node:fs'`); the core engine
+ * never imports Node modules directly.
+ */
+export interface AppendFileLike {
+  appendFileSync(path: string, data: string): void;
+}
+
+/** Appends each event to a file as one line of JSON. */
+export class JsonlEventSink implements EventSink {
+  constructor(
+    readonly path: string,
+    private readonly fs: AppendFileLike,
+  ) {}
+
+  write(entry: LoggedEvent): void {
+    this.fs.appendFileSync(this.path, JSON.stringify(entry) + '\n');
+  }
+}
+
+/** Parse the contents of a JSON Lines event log, skipping blank lines. */
+export function parseEventLogJsonl(text: string): LoggedEvent[] {
+  const events: LoggedEvent[] = [];
+  text.split('\n').forEach((line, i) => {
+    if (line.trim() === '') return;
+    try {
+      events.push(JSON.parse(line) as LoggedEvent);
+    } catch {
+      throw new Error(`Invalid event log line ${i + 1}: ${line}`);
+    }
+  });
+  return events;
+}
+
+// ── Recorder ────────────────────────────────────────────────
+
+/** Options for an {@link EventRecorder}. */
+export interface EventRecorderOptions<TGameEvents extends object = {}> {
+  /** Game type identifier recorded with each event. */
+  gameType: string;
+  /** Where recorded events go. */
+  sinks: readonly EventSink[];
+  /** Session id recorded with each event. Generated when omitted. */
+  sessionId?: string;
+  /** Which events to record; all by default. */
+  filter?: (event: GameEventName<TGameEvents>) => boolean;
+  /** Clock for timestamps. Defaults to the current time. */
+  now?: () => Date;
+}
+
+/** Generate a unique session id for a game type. */
+export function generateSessionId(gameType: string): string {
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${gameType}-${Date.now()}-${random}`;
+}
+
+/**
+ * Records every event an emitter emits to a set of sinks.
+ *
+ * A sink that throws is logged and skipped, so a failing log never
+ * interrupts the game. Recording `'game-ended'` flushes the sinks, so
+ * a finished game's log is saved whole even if the page is closed
+ * before the scene shuts down.
+ *
+ * @typeParam TGameEvents  The emitter's game-specific event map.
+ */
+export class EventRecorder<TGameEvents extends object = {}> {
+  readonly sessionId: string;
+  readonly gameType: string;
+  private readonly sinks: readonly EventSink[];
+  private readonly now: () => Date;
+  private unsubscribe: (() => void) | null;
+  private seq = 0;
+
+  constructor(
+    emitter: GameEventEmitter<TGameEvents>,
+    options: EventRecorderOptions<TGameEvents>,
+  ) {
+    this.gameType = options.gameType;
+    this.sessionId = options.sessionId ?? generateSessionId(options.gameType);
+    this.sinks = options.sinks;
+    this.now = options.now ?? (() => new Date());
+    const filter = options.filter ?? (() => true);
+
+    this.unsubscribe = emitter.onAny((event, payload) => {
+      if (filter(event)) this.record(event, payload);
+    });
+  }
+
+  /** Number of events recorded so far. */
+  get recordedCount(): number {
+    return this.seq;
+  }
+
+  private record(event: string, payload: unknown): void {
+    const entry: LoggedEvent = {
+      seq: this.seq++,
+      timestamp: this.now().toISOString(),
+      sessionId: this.sessionId,
+      gameType: this.gameType,
+      event,
+      payload,
+    };
+    for (const sink of this.sinks) {
+      try {
+        sink.write(entry);
+      } catch (err) {
+        console.error('[EventLog] Sink failed to write event:', err);
+      }
+    }
+    if (event === 'game-ended') {
+      this.flush().catch((err) => {
+        console.error('[EventLog] Failed to save events:', err);
+      });
+    }
+  }
+
+  /** Persist events any sink is still holding. */
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map((sink) => sink.flush?.()));
+  }
+
+  /** Stop recording and flush the sinks. Safe to call more than once. */
+  stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    return this.flush();
+  }
+}
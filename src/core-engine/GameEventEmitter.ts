@@ -9,8 +9,6 @@
  * testing, telemetry) subscribe to them for synchronization.
  */
 
-import type { GamePhase } from './GameState';
-
 // ── Event Payloads ──────────────────────────────────────────
 
 /**
@@ -37,8 +35,8 @@ export interface TurnCompletedPayload {
   readonly playerIndex: number;
   /** Name of the player who completed the turn. */
   readonly playerName: string;
-  /** Current game phase after the turn. */
-  readonly phase: GamePhase;
+  /** Current game phase after the turn (the game's own phase name). */
+  readonly phase: string;
 }
 
 /**
@@ -59,8 +57,8 @@ export interface AnimationCompletePayload {
 export interface StateSettledPayload {
   /** The turn number after which state settled. */
   readonly turnNumber: number;
-  /** Current game phase. */
-  readonly phase: GamePhase;
+  /** Current game phase (the game's own phase name). */
+  readonly phase: string;
 }
 
 /**
@@ -75,6 +73,68 @@ export interface GameEndedPayload {
   readonly reason?: string;
 }
 
+/**
+ * Emitted when the game moves to a new phase (see Phases.ts).
+ */
+export interface PhaseChangedPayload {
+  /** The phase that was left. */
+  readonly from: string;
+  /** The phase that was entered. */
+  readonly to: string;
+}
+
+/**
+ * Emitted when a player submits a secret action in a simultaneous turn
+ * (see TurnSequencer.ts). The action itself stays hidden until reveal.
+ */
+export interface ActionSubmittedPayload {
+  /** The turn the action belongs to. */
+  readonly turnNumber: number;
+  /** Index of the player who submitted. */
+  readonly playerIndex: number;
+  /** Indices of the players still deciding. */
+  readonly waitingOn: readonly number[];
+}
+
+/**
+ * Emitted when a simultaneous turn's actions are revealed together.
+ */
+export interface ActionsRevealedPayload {
+  /** The turn whose actions were revealed. */
+  readonly turnNumber: number;
+  /** Number of actions revealed (one per player). */
+  readonly playerCount: number;
+}
+
+/**
+ * Emitted when a player triggers the end of the game and the final
+ * round begins (see TurnOrder.ts).
+ */
+export interface FinalRoundStartedPayload {
+  /** Index of the player who triggered the end. */
+  readonly triggeringPlayerIndex: number;
+  /** Players still owed a final turn, in the order they will play. */
+  readonly playersOwed: readonly number[];
+}
+
+/**
+ * Emitted when the next player is about to take their final turn.
+ */
+export interface LastTurnPayload {
+  /** Index of the player taking their last turn. */
+  readonly playerIndex: number;
+  /** Number of final turns left, including this one. */
+  readonly finalTurnsLeft: number;
+}
+
+/**
+ * Emitted when a player's turn is skipped.
+ */
+export interface TurnSkippedPayload {
+  /** Index of the player whose turn was skipped. */
+  readonly playerIndex: number;
+}
+
 // ── Card-level Event Payloads ───────────────────────────────
 
 /**
@@ -241,26 +301,41 @@ export interface DealCardPayload {
   readonly totalCards: number;
 }
 
-// ── Event Map ───────────────────────────────────────────────
+// ── Event Maps ──────────────────────────────────────────────
 
 /**
- * Maps event names to their payload types.
- *
- * Subscribing to an event name not in this map produces a
- * compile-time TypeScript error.
+ * Turn and game lifecycle events, emitted by the engine itself
+ * (turn order, phases, simultaneous turns) and by every game.
  */
-export interface GameEventMap {
+export interface CoreEventMap {
   'turn-started': TurnStartedPayload;
   'turn-completed': TurnCompletedPayload;
   'animation-complete': AnimationCompletePayload;
   'state-settled': StateSettledPayload;
   'game-ended': GameEndedPayload;
+  'phase-changed': PhaseChangedPayload;
+  'action-submitted': ActionSubmittedPayload;
+  'actions-revealed': ActionsRevealedPayload;
+  'final-round-started': FinalRoundStartedPayload;
+  'last-turn': LastTurnPayload;
+  'turn-skipped': TurnSkippedPayload;
+  'ui-interaction': UIInteractionPayload;
+}
+
+/**
+ * Draw-and-swap card events shared by grid games such as Golf.
+ */
+export interface CardEventMap {
   'card-drawn': CardDrawnPayload;
   'card-flipped': CardFlippedPayload;
   'card-swapped': CardSwappedPayload;
   'card-discarded': CardDiscardedPayload;
-  'ui-interaction': UIInteractionPayload;
-  // Solitaire events
+}
+
+/**
+ * Events shared by solitaire games such as Beleaguered Castle.
+ */
+export interface SolitaireEventMap {
   'card-to-foundation': CardToFoundationPayload;
   'card-to-tableau': CardToTableauPayload;
   'card-pickup': CardPickupPayload;
@@ -274,15 +349,95 @@ export interface GameEventMap {
   'deal-card': DealCardPayload;
 }
 
-/** Union of all valid game event names. */
-export type GameEventName = keyof GameEventMap;
+/**
+ * Maps the engine's built-in event names to their payload types.
+ *
+ * Games add their own events by declaring an event map and creating a
+ * `GameEventEmitter<TheirEventMap>`; see {@link EventMapWith}.
+ * Subscribing to an event name in neither map produces a compile-time
+ * TypeScript error.
+ */
+export interface GameEventMap
+  extends CoreEventMap,
+    CardEventMap,
+    SolitaireEventMap {}
+
+/**
+ * A game's own event map merged with the built-in events.
+ *
+ * Game event names must not reuse a built-in name; a clash makes the
+ * payload type `never`.
+ */
+export type EventMapWith<TGameEvents extends object> = {
+  [K in keyof GameEventMap | keyof TGameEvents]: K extends keyof GameEventMap
+    ? K extends keyof TGameEvents
+      ? never
+      : GameEventMap[K]
+    : K extends keyof TGameEvents
+      ? TGameEvents[K]
+      : never;
+};
+
+/** Union of valid event names for an emitter (built-in by default). */
+export type GameEventName<TGameEvents extends object = {}> =
+  keyof EventMapWith<TGameEvents> & string;
+
+/**
+ * Every built-in event name. Declared as a record over
+ * {@link GameEventMap} so a new built-in event fails to compile until
+ * it is listed here too.
+ */
+const BUILT_IN_EVENTS: Record<keyof GameEventMap, true> = {
+  'turn-started': true,
+  'turn-completed': true,
+  'animation-complete': true,
+  'state-settled': true,
+  'game-ended': true,
+  'phase-changed': true,
+  'action-submitted': true,
+  'actions-revealed': true,
+  'final-round-started': true,
+  'last-turn': true,
+  'turn-skipped': true,
+  'ui-interaction': true,
+  'card-drawn': true,
+  'card-flipped': true,
+  'card-swapped': true,
+  'card-discarded': true,
+  'card-to-foundation': true,
+  'card-to-tableau': true,
+  'card-pickup': true,
+  'card-snap-back': true,
+  'auto-complete-start': true,
+  'auto-complete-card': true,
+  'undo': true,
+  'redo': true,
+  'card-selected': true,
+  'card-deselected': true,
+  'deal-card': true,
+};
+
+/** The names of all built-in events. */
+export const BUILT_IN_EVENT_NAMES: readonly GameEventName[] = Object.keys(
+  BUILT_IN_EVENTS,
+) as GameEventName[];
 
 // ── Listener types ──────────────────────────────────────────
 
 /** A callback for a specific event type. */
-export type GameEventListener<K extends GameEventName> = (
-  payload: GameEventMap[K],
-) => void;
+export type GameEventListener<
+  K extends GameEventName<TGameEvents>,
+  TGameEvents extends object = {},
+> = (payload: EventMapWith<TGameEvents>[K]) => void;
+
+/**
+ * A callback for every event an emitter emits, with the event's name
+ * (see {@link GameEventEmitter.onAny}).
+ */
+export type AnyEventListener<
+  TGameEvents extends object = {},
+  K extends GameEventName<TGameEvents> = GameEventName<TGameEvents>,
+> = (event: K, payload: EventMapWith<TGameEvents>[K]) => void;
 
 // ── Emitter ─────────────────────────────────────────────────
 
@@ -297,25 +452,36 @@ export type GameEventListener<K extends GameEventName> = (
  * });
  * emitter.emit('turn-started', { turnNumber: 0, playerIndex: 0, playerName: 'Alice', isAI: false });
  * ```
+ *
+ * A game with events of its own supplies its event map; the emitter
+ * then accepts both the built-in events and the game's:
+ * ```ts
+ * const events = new GameEventEmitter<SplendorEventMap>();
+ * events.on('noble-visited', ({ playerIndex }) => { ... });
+ * ```
+ *
+ * @typeParam TGameEvents  The game's own event map (none by default).
  */
-export class GameEventEmitter {
-  private listeners: {
-    [K in GameEventName]?: Array<GameEventListener<K>>;
-  } = {};
+export class GameEventEmitter<TGameEvents extends object = {}> {
+  // Keyed by event name; each list holds listeners for that event's
+  // payload. Stored untyped so emitters for different game maps stay
+  // assignable to the plain `GameEventEmitter` the engine accepts.
+  private listeners: Partial<Record<string, Array<(payload: never) => void>>> = {};
+  private anyListeners: Array<(event: never, payload: never) => void> = [];
 
   /**
    * Subscribe to an event. Returns an unsubscribe function.
    */
-  on<K extends GameEventName>(
+  on<K extends GameEventName<TGameEvents>>(
     event: K,
-    listener: GameEventListener<K>,
+    listener: GameEventListener<K, TGameEvents>,
   ): () => void {
     let list = this.listeners[event] as
-      | Array<GameEventListener<K>>
+      | Array<GameEventListener<K, TGameEvents>>
       | undefined;
     if (!list) {
       list = [];
-      (this.listeners as Record<string, unknown>)[event] = list;
+      this.listeners[event] = list;
     }
     list.push(listener);
 
@@ -327,14 +493,14 @@ export class GameEventEmitter {
    * Returns an unsubscribe function (in case you want to
    * cancel before it fires).
    */
-  once<K extends GameEventName>(
+  once<K extends GameEventName<TGameEvents>>(
     event: K,
-    listener: GameEventListener<K>,
+    listener: GameEventListener<K, TGameEvents>,
   ): () => void {
-    const wrapper = ((payload: GameEventMap[K]) => {
+    const wrapper = ((payload: EventMapWith<TGameEvents>[K]) => {
       this.off(event, wrapper);
       listener(payload);
-    }) as GameEventListener<K>;
+    }) as GameEventListener<K, TGameEvents>;
 
     return this.on(event, wrapper);
   }
@@ -342,12 +508,12 @@ export class GameEventEmitter {
   /**
    * Remove a specific listener for an event.
    */
-  off<K extends GameEventName>(
+  off<K extends GameEventName<TGameEvents>>(
     event: K,
-    listener: GameEventListener<K>,
+    listener: GameEventListener<K, TGameEvents>,
   ): void {
     const list = this.listeners[event] as
-      | Array<GameEventListener<K>>
+      | Array<GameEventListener<K, TGameEvents>>
       | undefined;
     if (!list) return;
 
@@ -357,38 +523,75 @@ export class GameEventEmitter {
     }
   }
 
+  /**
+   * Subscribe to every event, including game events added after this
+   * call. Returns an unsubscribe function.
+   *
+   * Any-event listeners run after the event's own listeners.
+   */
+  onAny<K extends GameEventName<TGameEvents> = GameEventName<TGameEvents>>(
+    listener: AnyEventListener<TGameEvents, K>,
+  ): () => void {
+    this.anyListeners.push(listener);
+    return () => this.offAny(listener);
+  }
+
+  /**
+   * Remove a listener added with {@link onAny}.
+   */
+  offAny<K extends GameEventName<TGameEvents> = GameEventName<TGameEvents>>(
+    listener: AnyEventListener<TGameEvents, K>,
+  ): void {
+    const index = this.anyListeners.indexOf(listener);
+    if (index !== -1) {
+      this.anyListeners.splice(index, 1);
+    }
+  }
+
   /**
    * Emit an event with the given payload.
-   * Listeners are called synchronously in registration order.
+   * Listeners are called synchronously in registration order, then
+   * any-event listeners.
    */
-  emit<K extends GameEventName>(event: K, payload: GameEventMap[K]): void {
+  emit<K extends GameEventName<TGameEvents>>(
+    event: K,
+    payload: EventMapWith<TGameEvents>[K],
+  ): void {
     const list = this.listeners[event] as
-      | Array<GameEventListener<K>>
+      | Array<GameEventListener<K, TGameEvents>>
       | undefined;
-    if (!list || list.length === 0) return;
 
-    // Copy the array so listeners can safely unsubscribe during emission
-    const snapshot = [...list];
-    for (const fn of snapshot) {
-      fn(payload);
+    // Copy the arrays so listeners can safely unsubscribe during emission
+    if (list && list.length > 0) {
+      for (const fn of [...list]) {
+        fn(payload);
+      }
+    }
+    if (this.anyListeners.length > 0) {
+      for (const fn of [...this.anyListeners] as Array<AnyEventListener<TGameEvents, K>>) {
+        fn(event, payload);
+      }
     }
   }
 
   /**
    * Remove all listeners, optionally for a specific event only.
+   * Without an event, any-event listeners are removed too.
    */
-  removeAllListeners(event?: GameEventName): void {
+  removeAllListeners(event?: GameEventName<TGameEvents>): void {
     if (event) {
       delete this.listeners[event];
     } else {
       this.listeners = {};
+      this.anyListeners = [];
     }
   }
 
   /**
-   * Return the number of listeners for a given event.
+   * Return the number of listeners for a given event
+   * (not counting any-event listeners).
    */
-  listenerCount(event: GameEventName): number {
+  listenerCount(event: GameEventName<TGameEvents>): number {
     const list = this.listeners[event];
     return list ? list.length : 0;
   }
@@ -1,13 +1,18 @@
 /**
  * Game phase and state types for the Tableau Card Engine.
  *
- * GamePhase represents the high-level lifecycle of a game round.
- * GameState is a generic container that tracks players, turn order,
- * and phase transitions.
+ * GamePhase represents the default high-level lifecycle of a game
+ * round. GameState is a generic container that tracks players, turn
+ * order, and phase transitions; games with their own phases (e.g. a
+ * scoring phase between rounds) supply a PhaseMachine from Phases.ts.
  */
 
+import type { GameEventEmitter } from './GameEventEmitter';
+import type { PhaseMachine } from './Phases';
+import { STANDARD_PHASES, isPhase } from './Phases';
+
 /**
- * High-level phases of a game round.
+ * High-level phases of a game round (the default phase set).
  *
  * - `setup`   -- Initial dealing, card placement, etc.
  * - `playing` -- Active gameplay with turn-based actions.
@@ -30,8 +35,9 @@ export interface PlayerInfo {
  *
  * @typeParam T  Game-specific per-player state (e.g. a Golf grid,
  *               a hand of cards, score, etc.).
+ * @typeParam P  The game's phase names (default {@link GamePhase}).
  */
-export interface GameState<T> {
+export interface GameState<T, P extends string = GamePhase> {
   /** Information about each player, indexed by player index. */
   readonly players: readonly PlayerInfo[];
   /** Per-player game-specific state, parallel to `players`. */
@@ -39,23 +45,34 @@ export interface GameState<T> {
   /** Index into `players` / `playerStates` for the active player. */
   currentPlayerIndex: number;
   /** Current high-level phase. */
-  phase: GamePhase;
+  phase: P;
   /** Monotonically increasing turn counter (starts at 0). */
   turnNumber: number;
+  /** The phase graph and hooks that `transitionTo` follows. */
+  readonly phases: PhaseMachine<P, GameState<T, P>>;
+  /** Emitter that receives `'phase-changed'` events, if any. */
+  readonly events?: GameEventEmitter;
 }
 
 /**
  * Options for creating a new GameState.
  */
-export interface GameStateOptions<T> {
+export interface GameStateOptions<T, P extends string = GamePhase> {
   /** Player info (must have at least 1 entry). */
   players: PlayerInfo[];
   /** Initial per-player state factory. Called once per player. */
   createPlayerState: (playerIndex: number) => T;
-  /** Starting phase (defaults to 'setup'). */
-  initialPhase?: GamePhase;
+  /**
+   * The game's phases. Required when `P` is not {@link GamePhase};
+   * defaults to {@link STANDARD_PHASES}.
+   */
+  phases?: PhaseMachine<P, GameState<T, P>>;
+  /** Starting phase (defaults to the phase machine's initial phase). */
+  initialPhase?: P;
   /** Index of the first player to act (defaults to 0). */
   firstPlayerIndex?: number;
+  /** Emitter for `'phase-changed'` events. */
+  events?: GameEventEmitter;
 }
 
 /**
@@ -63,14 +80,31 @@ export interface GameStateOptions<T> {
  *
  * @throws If fewer than 1 player is provided.
  * @throws If `firstPlayerIndex` is out of bounds.
+ * @throws If `initialPhase` is not one of the game's phases.
  */
-export function createGameState<T>(options: GameStateOptions<T>): GameState<T> {
-  const {
-    players,
-    createPlayerState,
-    initialPhase = 'setup',
-    firstPlayerIndex = 0,
-  } = options;
+export function createGameState<T>(options: GameStateOptions<T>): GameState<T>;
+export function createGameState<T, P extends string>(
+  options: GameStateOptions<T, P> & { phases: PhaseMachine<P, GameState<T, P>> },
+): GameState<T, P>;
+export function createGameState<T, P extends string>(
+  options: GameStateOptions<T, P>,
+): GameState<T, P> | GameState<T> {
+  const { phases, initialPhase, ...rest } = options;
+  return phases
+    ? buildGameState(rest, phases, initialPhase)
+    : buildGameState(rest, STANDARD_PHASES, initialPhase);
+}
+
+/**
+ * Build a game state on a given phase machine. The initial phase is
+ * checked at run time, as restored snapshots come from outside.
+ */
+function buildGameState<T, P extends string>(
+  options: Omit<GameStateOptions<T, P>, 'phases' | 'initialPhase'>,
+  phases: PhaseMachine<P, GameState<T, P>>,
+  initialPhase: string = phases.initial,
+): GameState<T, P> {
+  const { players, createPlayerState, firstPlayerIndex = 0, events } = options;
 
   if (players.length < 1) {
     throw new Error(
@@ -84,6 +118,10 @@ export function createGameState<T>(options: GameStateOptions<T>): GameState<T> {
     );
   }
 
+  if (!isPhase(phases, initialPhase)) {
+    throw new Error(`Unknown initial phase "${initialPhase}"`);
+  }
+
   const playerStates = players.map((_, i) => createPlayerState(i));
 
   return {
@@ -92,5 +130,74 @@ export function createGameState<T>(options: GameStateOptions<T>): GameState<T> {
     currentPlayerIndex: firstPlayerIndex,
     phase: initialPhase,
     turnNumber: 0,
+    phases,
+    ...(events ? { events } : {}),
+  };
+}
+
+// ── Snapshots ───────────────────────────────────────────────
+
+/**
+ * Serialisable copy of a {@link GameState}: everything except its phase
+ * machine and emitter, with each player's state in a serialisable form.
+ */
+export interface GameStateSnapshot<S, P extends string = GamePhase> {
+  readonly players: readonly PlayerInfo[];
+  readonly playerStates: readonly S[];
+  readonly currentPlayerIndex: number;
+  readonly phase: P;
+  readonly turnNumber: number;
+}
+
+/**
+ * Copy a game state for saving, converting each player's state with
+ * `snapshotPlayer`.
+ */
+export function snapshotGameState<T, S, P extends string = GamePhase>(
+  state: GameState<T, P>,
+  snapshotPlayer: (playerState: T, playerIndex: number) => S,
+): GameStateSnapshot<S, P> {
+  return {
+    players: state.players.map((p) => ({ ...p })),
+    playerStates: state.playerStates.map(snapshotPlayer),
+    currentPlayerIndex: state.currentPlayerIndex,
+    phase: state.phase,
+    turnNumber: state.turnNumber,
+  };
+}
+
+/**
+ * Rebuild a game state from a snapshot. The phase machine and emitter
+ * are not saved, so a game with its own phases passes them again.
+ *
+ * @throws If the snapshot's phase or current player is invalid.
+ */
+export function restoreGameState<T, S>(
+  snapshot: GameStateSnapshot<S>,
+  restorePlayer: (saved: S, playerIndex: number) => T,
+  options?: Pick<GameStateOptions<T>, 'phases' | 'events'>,
+): GameState<T>;
+export function restoreGameState<T, S, P extends string>(
+  snapshot: GameStateSnapshot<S, P>,
+  restorePlayer: (saved: S, playerIndex: number) => T,
+  options: Pick<GameStateOptions<T, P>, 'events'> & {
+    phases: PhaseMachine<P, GameState<T, P>>;
+  },
+): GameState<T, P>;
+export function restoreGameState<T, S, P extends string>(
+  snapshot: GameStateSnapshot<S, P>,
+  restorePlayer: (saved: S, playerIndex: number) => T,
+  options: Pick<GameStateOptions<T, P>, 'phases' | 'events'> = {},
+): GameState<T, P> | GameState<T> {
+  const base = {
+    players: snapshot.players.map((p) => ({ ...p })),
+    createPlayerState: (i: number) => restorePlayer(snapshot.playerStates[i], i),
+    firstPlayerIndex: snapshot.currentPlayerIndex,
+    events: options.events,
   };
+  const state = options.phases
+    ? buildGameState(base, options.phases, snapshot.phase)
+    : buildGameState(base, STANDARD_PHASES, snapshot.phase);
+  state.turnNumber = snapshot.turnNumber;
+  return state;
 }
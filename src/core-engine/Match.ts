@@ -0,0 +1,230 @@
+/**
+ * Multi-round matches with cumulative scoring.
+ *
+ * A match is a series of rounds (hands, holes, deals) played by the
+ * same players. Each round's scores are recorded in a per-round score
+ * table; the match ends after a fixed number of rounds or once any
+ * player's running total reaches a target. The dealer rotates one seat
+ * per round and the player after the dealer leads.
+ *
+ * The match layer knows nothing about how a round is played: a game
+ * deals each round itself, plays it to the end, then hands the scores
+ * to {@link recordRound}.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+/**
+ * When a match ends.
+ *
+ * - `rounds`       -- after a fixed number of rounds (e.g. 9 holes).
+ * - `target-score` -- after the round in which any player's total
+ *                     reaches `target` (e.g. first to 100 points).
+ */
+export type MatchLength =
+  | { readonly kind: 'rounds'; readonly rounds: number }
+  | { readonly kind: 'target-score'; readonly target: number };
+
+/** Whether the highest or the lowest total wins the match. */
+export type MatchScoring = 'high-wins' | 'low-wins';
+
+/**
+ * Options for creating a new match.
+ */
+export interface MatchOptions {
+  /** Number of players (must be at least 1). */
+  playerCount: number;
+  /** When the match ends. */
+  length: MatchLength;
+  /** Whether high or low totals win (defaults to `'high-wins'`). */
+  scoring?: MatchScoring;
+  /** Dealer of the first round (defaults to 0). */
+  firstDealerIndex?: number;
+}
+
+/**
+ * State of a match in progress.
+ */
+export interface MatchState {
+  /** Number of players. */
+  readonly playerCount: number;
+  /** When the match ends. */
+  readonly length: MatchLength;
+  /** Whether high or low totals win. */
+  readonly scoring: MatchScoring;
+  /** Dealer of the first round. */
+  readonly firstDealerIndex: number;
+  /** Scores of each completed round: `roundScores[round][player]`. */
+  readonly roundScores: number[][];
+}
+
+/**
+ * A match's score table, ready for display.
+ */
+export interface MatchScorecard {
+  /** Scores of each completed round: `rounds[round][player]`. */
+  readonly rounds: readonly (readonly number[])[];
+  /** Running totals after each round: `running[round][player]`. */
+  readonly running: readonly (readonly number[])[];
+  /** Current totals per player. */
+  readonly totals: readonly number[];
+}
+
+// ── Creation ────────────────────────────────────────────────
+
+/**
+ * Create a new match with no rounds played.
+ *
+ * @throws If fewer than 1 player is given.
+ * @throws If the match length is not a positive whole number of rounds
+ *         or a positive target score.
+ * @throws If `firstDealerIndex` is out of bounds.
+ */
+export function createMatch(options: MatchOptions): MatchState {
+  const {
+    playerCount,
+    length,
+    scoring = 'high-wins',
+    firstDealerIndex = 0,
+  } = options;
+
+  if (playerCount < 1) {
+    throw new Error(`A match requires at least 1 player, got ${playerCount}`);
+  }
+  if (
+    length.kind === 'rounds' &&
+    (!Number.isInteger(length.rounds) || length.rounds < 1)
+  ) {
+    throw new Error(
+      `A match must have a positive whole number of rounds, got ${length.rounds}`,
+    );
+  }
+  if (length.kind === 'target-score' && !(length.target > 0)) {
+    throw new Error(`A match target score must be positive, got ${length.target}`);
+  }
+  if (firstDealerIndex < 0 || firstDealerIndex >= playerCount) {
+    throw new Error(
+      `firstDealerIndex ${firstDealerIndex} is out of bounds for ${playerCount} players`,
+    );
+  }
+
+  return {
+    playerCount,
+    length,
+    scoring,
+    firstDealerIndex,
+    roundScores: [],
+  };
+}
+
+// ── Query functions ─────────────────────────────────────────
+
+/**
+ * Number of the round being played (0-based), i.e. the number of
+ * rounds completed so far.
+ */
+export function getRoundNumber(match: MatchState): number {
+  return match.roundScores.length;
+}
+
+/**
+ * Dealer of the current round. The deal passes one seat per round.
+ */
+export function getDealerIndex(match: MatchState): number {
+  return (match.firstDealerIndex + getRoundNumber(match)) % match.playerCount;
+}
+
+/**
+ * Player who acts first in the current round: the one after the dealer.
+ */
+export function getFirstPlayerIndex(match: MatchState): number {
+  return (getDealerIndex(match) + 1) % match.playerCount;
+}
+
+/**
+ * Each player's total across all completed rounds.
+ */
+export function getMatchTotals(match: MatchState): number[] {
+  const totals = new Array<number>(match.playerCount).fill(0);
+  for (const scores of match.roundScores) {
+    scores.forEach((score, i) => {
+      totals[i] += score;
+    });
+  }
+  return totals;
+}
+
+/**
+ * Whether the match has ended.
+ */
+export function isMatchOver(match: MatchState): boolean {
+  if (match.length.kind === 'rounds') {
+    return getRoundNumber(match) >= match.length.rounds;
+  }
+  const { target } = match.length;
+  return getMatchTotals(match).some((total) => total >= target);
+}
+
+/**
+ * Indices of the players with the best total (highest or lowest,
+ * per the match's scoring). More than one index means a tie.
+ */
+export function getMatchLeaders(match: MatchState): number[] {
+  const totals = getMatchTotals(match);
+  const best =
+    match.scoring === 'low-wins' ? Math.min(...totals) : Math.max(...totals);
+  const leaders: number[] = [];
+  totals.forEach((total, i) => {
+    if (total === best) leaders.push(i);
+  });
+  return leaders;
+}
+
+/**
+ * Index of the player with the best total, or -1 for a tie. While the
+ * match is in progress this is the current leader.
+ */
+export function getMatchWinnerIndex(match: MatchState): number {
+  const leaders = getMatchLeaders(match);
+  return leaders.length === 1 ? leaders[0] : -1;
+}
+
+/**
+ * The per-round score table with running totals.
+ */
+export function getScorecard(match: MatchState): MatchScorecard {
+  const running: number[][] = [];
+  let totals = new Array<number>(match.playerCount).fill(0);
+  for (const scores of match.roundScores) {
+    totals = totals.map((total, i) => total + scores[i]);
+    running.push(totals);
+  }
+  return {
+    rounds: match.roundScores.map((scores) => [...scores]),
+    running,
+    totals,
+  };
+}
+
+// ── Mutation functions ──────────────────────────────────────
+
+/**
+ * Record the scores of the round just played. The next round begins
+ * with the deal passed to the next player.
+ *
+ * @param scores  One score per player.
+ * @throws If the match is already over.
+ * @throws If `scores` does not have one entry per player.
+ */
+export function recordRound(match: MatchState, scores: readonly number[]): void {
+  if (isMatchOver(match)) {
+    throw new Error('Cannot record a round: the match is over');
+  }
+  if (scores.length !== match.playerCount) {
+    throw new Error(
+      `Expected ${match.playerCount} round scores, got ${scores.length}`,
+    );
+  }
+
+  match.roundScores.push([...scores]);
+}
@@ -13,11 +13,18 @@
  * // Now engine events appear on scene.events and vice versa.
  * bridge.destroy(); // Clean up when the scene shuts down.
  * ```
+ *
+ * Every event the engine emits is forwarded to Phaser, including a
+ * game's own events (see {@link GameEventEmitter.onAny}). Phaser's
+ * emitter has no wildcard subscription, so the Phaser -> engine
+ * direction listens for the built-in event names plus any game events
+ * named in {@link PhaserEventBridgeOptions.inbound}.
  */
 
 import {
   GameEventEmitter,
-  type GameEventMap,
+  BUILT_IN_EVENT_NAMES,
+  type EventMapWith,
   type GameEventName,
 } from './GameEventEmitter';
 
@@ -38,91 +45,109 @@ export interface PhaserLikeEventEmitter {
   emit(event: string, ...args: unknown[]): boolean;
 }
 
-// ── Bridge ──────────────────────────────────────────────────
+// ── Options ─────────────────────────────────────────────────
+
+/**
+ * Options for a {@link PhaserEventBridge}.
+ *
+ * @typeParam TGameEvents  The emitter's game-specific event map.
+ */
+export interface PhaserEventBridgeOptions<TGameEvents extends object = {}> {
+  /**
+   * Prefix for event names on the Phaser side, e.g. `'tce:'` puts
+   * `'card-drawn'` on `scene.events` as `'tce:card-drawn'`. Keeps
+   * engine events apart from Phaser's own scene events.
+   */
+  namespace?: string;
+  /** Which events to bridge (both directions); all by default. */
+  filter?: (event: GameEventName<TGameEvents>) => boolean;
+  /**
+   * Game events to forward from Phaser to the engine, in addition to
+   * the built-in events. (Engine -> Phaser forwarding needs no list.)
+   */
+  inbound?: readonly (keyof TGameEvents & string)[];
+}
 
-/** All event names we bridge. */
-const ALL_EVENTS: GameEventName[] = [
-  'turn-started',
-  'turn-completed',
-  'animation-complete',
-  'state-settled',
-  'game-ended',
-  'card-drawn',
-  'card-flipped',
-  'card-swapped',
-  'card-discarded',
-  'ui-interaction',
-  'card-to-foundation',
-  'card-to-tableau',
-  'card-pickup',
-  'card-snap-back',
-  'auto-complete-start',
-  'auto-complete-card',
-  'undo',
-  'redo',
-  'card-selected',
-  'card-deselected',
-  'deal-card',
-];
+// ── Bridge ──────────────────────────────────────────────────
 
 /**
  * Bidirectional bridge between {@link GameEventEmitter} and a
  * Phaser-compatible event emitter (typically `scene.events`).
  *
  * Events emitted on one side are automatically forwarded to
- * the other side. Guard flags prevent infinite loops.
+ * the other side. An event is not forwarded back while it is being
+ * forwarded, which prevents infinite loops; other events emitted by
+ * listeners in the meantime are still forwarded.
+ *
+ * @typeParam TGameEvents  The emitter's game-specific event map.
  */
-export class PhaserEventBridge {
-  private readonly engineUnsubs: Array<() => void> = [];
+export class PhaserEventBridge<TGameEvents extends object = {}> {
+  private engineUnsub: (() => void) | null = null;
   private readonly phaserHandlers: Array<{
     event: string;
     handler: (...args: unknown[]) => void;
   }> = [];
-  private forwarding = false;
+  private readonly namespace: string;
+  private readonly filter: (event: GameEventName<TGameEvents>) => boolean;
+  /** Events mid-forward, so their echo from the other side is dropped. */
+  private readonly forwarding = new Set<string>();
 
   constructor(
-    private readonly engine: GameEventEmitter,
+    private readonly engine: GameEventEmitter<TGameEvents>,
     private readonly phaser: PhaserLikeEventEmitter,
+    options: PhaserEventBridgeOptions<TGameEvents> = {},
   ) {
+    this.namespace = options.namespace ?? '';
+    this.filter = options.filter ?? (() => true);
     this.wireEngineToPhaser();
-    this.wirePhaserToEngine();
+    this.wirePhaserToEngine([
+      ...(BUILT_IN_EVENT_NAMES as GameEventName<TGameEvents>[]),
+      ...((options.inbound ?? []) as GameEventName<TGameEvents>[]),
+    ]);
+  }
+
+  /** The Phaser-side name of an engine event. */
+  phaserEventName(event: GameEventName<TGameEvents>): string {
+    return this.namespace + event;
   }
 
   // ── Engine -> Phaser ────────────────────────────────────
 
   private wireEngineToPhaser(): void {
-    for (const event of ALL_EVENTS) {
-      const unsub = this.engine.on(event, (payload: GameEventMap[typeof event]) => {
-        if (this.forwarding) return; // prevent re-entry
-        this.forwarding = true;
-        try {
-          this.phaser.emit(event, payload);
-        } finally {
-          this.forwarding = false;
-        }
-      });
-      this.engineUnsubs.push(unsub);
-    }
+    this.engineUnsub = this.engine.onAny((event, payload) => {
+      if (this.forwarding.has(event)) return; // prevent re-entry
+      if (!this.filter(event)) return;
+      this.forwarding.add(event);
+      try {
+        this.phaser.emit(this.phaserEventName(event), payload);
+      } finally {
+        this.forwarding.delete(event);
+      }
+    });
   }
 
   // ── Phaser -> Engine ────────────────────────────────────
 
-  private wirePhaserToEngine(): void {
-    for (const event of ALL_EVENTS) {
+  private wirePhaserToEngine(
+    events: readonly GameEventName<TGameEvents>[],
+  ): void {
+    for (const event of new Set(events)) {
+      if (!this.filter(event)) continue;
       const handler = (payload: unknown) => {
-        if (this.forwarding) return; // prevent re-entry
-        this.forwarding = true;
+        if (this.forwarding.has(event)) return; // prevent re-entry
+        this.forwarding.add(event);
         try {
           this.engine.emit(
             event,
-            payload as GameEventMap[typeof event],
+            payload as EventMapWith<TGameEvents>[typeof event],
           );
         } finally {
-          this.forwarding = false;
+          this.forwarding.delete(event);
         }
       };
-      this.phaser.on(event, handler);
-      this.phaserHandlers.push({ event, handler });
+      const name = this.phaserEventName(event);
+      this.phaser.on(name, handler);
+      this.phaserHandlers.push({ event: name, handler });
     }
   }
 
@@ -134,10 +159,8 @@ export class PhaserEventBridge {
    * is no longer needed.
    */
   destroy(): void {
-    for (const unsub of this.engineUnsubs) {
-      unsub();
-    }
-    this.engineUnsubs.length = 0;
+    this.engineUnsub?.();
+    this.engineUnsub = null;
 
     for (const { event, handler } of this.phaserHandlers) {
       this.phaser.off(event, handler);
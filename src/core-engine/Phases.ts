@@ -0,0 +1,218 @@
+/**
+ * Game phases as a declared transition graph.
+ *
+ * Each game names its own phases (e.g. Sushi Go!'s `'picking'` and
+ * `'round-scoring'`) and declares which transitions are allowed with
+ * {@link definePhases}. {@link changePhase} then moves any state with a
+ * `phase` field along the graph: it rejects undeclared transitions,
+ * runs the exit hook of the old phase and the enter hook of the new
+ * one, and emits a `'phase-changed'` event. {@link revertPhase} undoes
+ * a transition the same way.
+ *
+ * {@link STANDARD_PHASES} is the setup -> playing -> ended lifecycle
+ * that {@link GameState} uses unless a game supplies its own.
+ */
+
+import type { GameEventEmitter } from './GameEventEmitter';
+
+// ── Types ───────────────────────────────────────────────────
+
+/** Any state object that is in a phase. */
+export interface PhasedState<P extends string> {
+  phase: P;
+}
+
+/** Allowed transitions: each phase lists the phases it may move to. */
+export type PhaseTransitions<P extends string> = Readonly<Record<P, readonly P[]>>;
+
+/** Called after the state has entered a phase, with the previous phase. */
+export type PhaseEnterHook<P extends string, S> = (state: S, from: P) => void;
+
+/** Called before the state leaves a phase, with the next phase. */
+export type PhaseExitHook<P extends string, S> = (state: S, to: P) => void;
+
+/** Declaration of a game's phases. */
+export interface PhaseDefinition<P extends string, S = unknown> {
+  /** The phase a new game starts in. */
+  readonly initial: P;
+  /** The transition graph. Phases with no exits are terminal. */
+  readonly transitions: PhaseTransitions<P>;
+  /**
+   * Phases in which players take turns (default: every phase that is
+   * neither the initial nor a terminal one).
+   */
+  readonly turnPhases?: readonly P[];
+  /** Hooks run when a phase is entered. */
+  readonly onEnter?: { readonly [K in P]?: PhaseEnterHook<P, S> };
+  /** Hooks run when a phase is left. */
+  readonly onExit?: { readonly [K in P]?: PhaseExitHook<P, S> };
+}
+
+/** A validated phase declaration, ready for {@link changePhase}. */
+export interface PhaseMachine<P extends string, S = unknown>
+  extends PhaseDefinition<P, S> {
+  readonly turnPhases: readonly P[];
+  /** Phases with no outgoing transitions; reaching one ends the game. */
+  readonly terminalPhases: readonly P[];
+}
+
+// ── Definition ──────────────────────────────────────────────
+
+/**
+ * Validate a phase declaration.
+ *
+ * @throws If the initial phase, a transition target or a turn phase
+ *         is not one of the declared phases.
+ */
+export function definePhases<P extends string, S = unknown>(
+  definition: PhaseDefinition<P, S>,
+): PhaseMachine<P, S> {
+  const phases = Object.keys(definition.transitions) as P[];
+  const assertDeclared = (phase: P, role: string): void => {
+    if (!phases.includes(phase)) {
+      throw new Error(`Unknown ${role} phase "${phase}"`);
+    }
+  };
+
+  assertDeclared(definition.initial, 'initial');
+  for (const from of phases) {
+    for (const to of definition.transitions[from]) {
+      assertDeclared(to, `target (from "${from}")`);
+    }
+  }
+
+  const terminalPhases = phases.filter(
+    (phase) => definition.transitions[phase].length === 0,
+  );
+  const turnPhases =
+    definition.turnPhases ??
+    phases.filter(
+      (phase) => phase !== definition.initial && !terminalPhases.includes(phase),
+    );
+  for (const phase of turnPhases) assertDeclared(phase, 'turn');
+
+  return { ...definition, turnPhases, terminalPhases };
+}
+
+/**
+ * The default lifecycle:
+ * - `setup`   -> `playing` or `ended` (abort during setup)
+ * - `playing` -> `ended`
+ */
+export const STANDARD_PHASES: PhaseMachine<'setup' | 'playing' | 'ended'> =
+  definePhases({
+    initial: 'setup',
+    transitions: {
+      setup: ['playing', 'ended'],
+      playing: ['ended'],
+      ended: [],
+    },
+  });
+
+// ── Queries ─────────────────────────────────────────────────
+
+/** Whether `phase` is one of the machine's phases. */
+export function isPhase<P extends string>(
+  machine: PhaseMachine<P, never>,
+  phase: string,
+): phase is P {
+  return Object.prototype.hasOwnProperty.call(machine.transitions, phase);
+}
+
+/** Whether the graph allows moving from `from` to `to`. */
+export function canTransition<P extends string>(
+  machine: PhaseMachine<P, never>,
+  from: P,
+  to: P,
+): boolean {
+  return machine.transitions[from]?.includes(to) ?? false;
+}
+
+/** Whether `phase` is terminal (the game is over). */
+export function isTerminalPhase<P extends string>(
+  machine: PhaseMachine<P, never>,
+  phase: P,
+): boolean {
+  return machine.terminalPhases.includes(phase);
+}
+
+/** Whether players take turns in `phase`. */
+export function isTurnPhase<P extends string>(
+  machine: PhaseMachine<P, never>,
+  phase: P,
+): boolean {
+  return machine.turnPhases.includes(phase);
+}
+
+// ── Transitions ─────────────────────────────────────────────
+
+/**
+ * Move a state to a new phase.
+ *
+ * Runs the old phase's exit hook, updates `state.phase`, runs the new
+ * phase's enter hook, then emits `'phase-changed'` on `events` (if
+ * given).
+ *
+ * @throws If the state is already in `to`, or the graph does not allow
+ *         the transition. Nothing runs and the state is unchanged.
+ */
+export function changePhase<P extends string, S extends PhasedState<P>>(
+  machine: PhaseMachine<P, S>,
+  state: S,
+  to: P,
+  events?: GameEventEmitter,
+): void {
+  const from = state.phase;
+
+  if (from === to) {
+    throw new Error(`Game is already in phase "${from}"`);
+  }
+  if (!canTransition(machine, from, to)) {
+    const allowed = machine.transitions[from] ?? [];
+    throw new Error(
+      `Invalid phase transition: "${from}" -> "${to}". ` +
+        `Allowed transitions from "${from}": ${allowed.join(', ') || 'none'}`,
+    );
+  }
+
+  machine.onExit?.[from]?.(state, to);
+  state.phase = to;
+  machine.onEnter?.[to]?.(state, from);
+  events?.emit('phase-changed', { from, to });
+}
+
+/**
+ * Undo a transition: move a state back to `to`, the phase it came from.
+ *
+ * The graph need not allow the move back (terminal phases have no
+ * exits), but it must allow the transition being undone, `to` -> the
+ * current phase. Hooks run as for {@link changePhase}: the current
+ * phase's exit hook, then `to`'s enter hook, then `'phase-changed'`.
+ *
+ * @throws If the state is already in `to`, or the graph has no
+ *         transition from `to` to the current phase. Nothing runs and
+ *         the state is unchanged.
+ */
+export function revertPhase<P extends string, S extends PhasedState<P>>(
+  machine: PhaseMachine<P, S>,
+  state: S,
+  to: P,
+  events?: GameEventEmitter,
+): void {
+  const from = state.phase;
+
+  if (from === to) {
+    throw new Error(`Game is already in phase "${from}"`);
+  }
+  if (!canTransition(machine, to, from)) {
+    throw new Error(
+      `Cannot revert phase "${from}" to "${to}": ` +
+        `"${to}" does not lead to "${from}"`,
+    );
+  }
+
+  machine.onExit?.[from]?.(state, to);
+  state.phase = to;
+  machine.onEnter?.[to]?.(state, from);
+  events?.emit('phase-changed', { from, to });
+}
@@ -0,0 +1,184 @@
+/**
+ * Seedable, serialisable pseudo-random number generator.
+ *
+ * Every game draws its randomness from an {@link Rng}: a callable
+ * `() => number` (so it drops into `shuffle()` and the AI strategies
+ * unchanged) that also exposes its internal state. Saving the state and
+ * restoring it later resumes the identical future sequence.
+ *
+ * The generator is sfc32 (Small Fast Counting, 128-bit state), seeded by
+ * hashing the seed with cyrb128. Streams can {@link Rng.fork | fork}
+ * named sub-streams -- e.g. `'ai'` -- whose output is independent of the
+ * parent, so drawing AI decisions never perturbs the deal.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+/** Serialisable snapshot of an {@link Rng}'s internal state. */
+export interface RngState {
+  /**
+   * Seed path the stream was created from: the seed itself for a root
+   * stream, then `/label` for each fork (e.g. `'42/ai'`).
+   */
+  readonly key: string;
+  /** The four 32-bit words of sfc32 state. */
+  readonly words: readonly [number, number, number, number];
+}
+
+/**
+ * A seeded random number generator.
+ *
+ * Calling it returns a float in [0, 1), the same contract as
+ * `Math.random`.
+ */
+export interface Rng {
+  (): number;
+  /** Seed path of this stream (see {@link RngState.key}). */
+  readonly key: string;
+  /** An integer in [0, maxExclusive). */
+  nextInt(maxExclusive: number): number;
+  /** Capture the current state. */
+  getState(): RngState;
+  /** Replace the current state (e.g. when resuming a saved game). */
+  setState(state: RngState): void;
+  /**
+   * Derive a named sub-stream.
+   *
+   * The fork depends only on this stream's key and the label, never on
+   * how many values have been drawn, so `rng.fork('ai')` yields the same
+   * sequence whenever it is called and does not advance `rng`.
+   */
+  fork(label: string): Rng;
+}
+
+// ── Internals ───────────────────────────────────────────────
+
+/** Number of outputs discarded after seeding to mix the state. */
+const WARM_UP_ROUNDS = 15;
+
+/** Hash a string into four 32-bit words (cyrb128). */
+function cyrb128(str: string): [number, number, number, number] {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < str.length; i++) {
+    const k = str.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+function isWord(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xffffffff;
+}
+
+/** Build an Rng around a key and an sfc32 state. */
+function makeRng(key: string, words: readonly [number, number, number, number]): Rng {
+  let [a, b, c, d] = words;
+
+  const rng = (): number => {
+    a >>>= 0;
+    b >>>= 0;
+    c >>>= 0;
+    d >>>= 0;
+    let t = (a + b) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    d = (d + 1) | 0;
+    t = (t + d) | 0;
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+
+  return Object.assign(rng, {
+    key,
+    nextInt(maxExclusive: number): number {
+      if (!Number.isInteger(maxExclusive) || maxExclusive <= 0) {
+        throw new Error(`nextInt bound must be a positive integer, got ${maxExclusive}`);
+      }
+      return Math.floor(rng() * maxExclusive);
+    },
+    getState(): RngState {
+      return { key, words: [a >>> 0, b >>> 0, c >>> 0, d >>> 0] };
+    },
+    setState(state: RngState): void {
+      if (state.key !== key) {
+        throw new Error(`Cannot restore RNG state for '${state.key}' into stream '${key}'`);
+      }
+      [a, b, c, d] = validateWords(state.words);
+    },
+    fork(label: string): Rng {
+      return createRng(`${key}/${label}`);
+    },
+  });
+}
+
+function validateWords(words: readonly number[]): [number, number, number, number] {
+  if (words.length !== 4 || !words.every(isWord)) {
+    throw new Error('RNG state must be four unsigned 32-bit integers');
+  }
+  return [words[0], words[1], words[2], words[3]];
+}
+
+// ── Factories ───────────────────────────────────────────────
+
+/**
+ * Create a generator from a seed. The same seed always yields the same
+ * sequence.
+ */
+export function createRng(seed: number | string): Rng {
+  const key = String(seed);
+  const rng = makeRng(key, cyrb128(key));
+  for (let i = 0; i < WARM_UP_ROUNDS; i++) rng();
+  return rng;
+}
+
+/**
+ * Recreate a generator from a state captured with {@link Rng.getState}.
+ *
+ * @throws If the state is malformed.
+ */
+export function restoreRng(state: RngState): Rng {
+  return makeRng(state.key, validateWords(state.words));
+}
+
+/**
+ * Pick a fresh seed for a new game (non-deterministic).
+ *
+ * Seeds are unsigned 32-bit integers so they are easy to display and
+ * type back in.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/** Whether a random function is a seeded {@link Rng}. */
+export function isRng(fn: () => number): fn is Rng {
+  return typeof (fn as Partial<Rng>).getState === 'function';
+}
+
+/**
+ * The state of a random function, for saving a game that holds one.
+ *
+ * @throws If the function is not a seeded {@link Rng} (e.g. `Math.random`),
+ *         whose future sequence cannot be resumed.
+ */
+export function requireRngState(fn: () => number): RngState {
+  if (!isRng(fn)) {
+    throw new Error('Cannot save an unseeded random function');
+  }
+  return fn.getState();
+}
@@ -0,0 +1,160 @@
+/**
+ * SavedGame -- keeps one in-progress game per game type across page
+ * reloads.
+ *
+ * Each game converts its session to plain JSON data (cards as data,
+ * RNG streams as {@link RngState}, undo history as moves) and saves it
+ * here after every settled turn. On the next launch the game selector
+ * offers "Resume" for any game with a save, and starts its scene with
+ * a {@link ResumeSceneData} payload; the scene loads the save and
+ * rebuilds its display from it.
+ *
+ * Saves live in localStorage under `tce-save:<gameType>`. A save
+ * written by an incompatible version, or one that no longer parses,
+ * is discarded rather than resumed.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+/** Current save format version. */
+export const SAVED_GAME_VERSION = 1;
+
+/** A saved in-progress game. */
+export interface SavedGame<T = unknown> {
+  /** Save format version (see {@link SAVED_GAME_VERSION}). */
+  version: number;
+  /** Game type identifier (e.g. 'golf', 'splendor'). */
+  gameType: string;
+  /** ISO 8601 timestamp when the game was saved. */
+  savedAt: string;
+  /** The game's own serialised session. */
+  state: T;
+}
+
+/** Start payload accepted by scenes that can resume a saved game. */
+export interface ResumeSceneData {
+  /** Resume the saved game instead of starting a new one. */
+  resume?: boolean;
+}
+
+/**
+ * Minimal subset of the Storage API needed by {@link SavedGameStore}.
+ * Allows injecting a fake for testing.
+ */
+export interface SaveStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/** Options for configuring a {@link SavedGameStore}. */
+export interface SavedGameStoreOptions {
+  /**
+   * Storage backend. Defaults to `globalThis.localStorage` when
+   * available. Pass `null` to disable saving.
+   */
+  storage?: SaveStorage | null;
+  /** Storage key prefix. Defaults to 'tce-save'. */
+  prefix?: string;
+}
+
+const DEFAULT_PREFIX = 'tce-save';
+
+// ── Store ───────────────────────────────────────────────────
+
+/**
+ * Saves, loads and clears the in-progress game of each game type.
+ *
+ * Storage errors (quota exceeded, private browsing) are logged and the
+ * game carries on unsaved.
+ *
+ * Usage:
+ *   const saves = new SavedGameStore();
+ *   saves.save('golf', serializeGolfMatch(golfMatch));
+ *   const saved = saves.load<SavedGolfMatch>('golf');
+ */
+export class SavedGameStore {
+  private readonly storage: SaveStorage | null;
+  private readonly prefix: string;
+
+  constructor(options: SavedGameStoreOptions = {}) {
+    this.prefix = options.prefix ?? DEFAULT_PREFIX;
+    if (options.storage !== undefined) {
+      this.storage = options.storage;
+    } else {
+      try {
+        this.storage =
+          typeof globalThis !== 'undefined' && globalThis.localStorage
+            ? globalThis.localStorage
+            : null;
+      } catch {
+        this.storage = null;
+      }
+    }
+  }
+
+  private key(gameType: string): string {
+    return `${this.prefix}:${gameType}`;
+  }
+
+  /**
+   * Save a game's serialised session, replacing any earlier save.
+   *
+   * @returns The save, or null if it could not be stored.
+   */
+  save<T>(gameType: string, state: T): SavedGame<T> | null {
+    if (!this.storage) return null;
+    const saved: SavedGame<T> = {
+      version: SAVED_GAME_VERSION,
+      gameType,
+      savedAt: new Date().toISOString(),
+      state,
+    };
+    try {
+      this.storage.setItem(this.key(gameType), JSON.stringify(saved));
+      return saved;
+    } catch (e) {
+      console.warn(`[SavedGameStore] Could not save ${gameType}:`, e);
+      return null;
+    }
+  }
+
+  /**
+   * Load a game type's save. A save that does not parse or was written
+   * by another format version is removed.
+   */
+  load<T>(gameType: string): SavedGame<T> | null {
+    if (!this.storage) return null;
+    const raw = this.storage.getItem(this.key(gameType));
+    if (raw === null) return null;
+
+    let saved: SavedGame<T>;
+    try {
+      saved = JSON.parse(raw) as SavedGame<T>;
+    } catch {
+      console.warn(`[SavedGameStore] Discarding unreadable ${gameType} save`);
+      this.clear(gameType);
+      return null;
+    }
+    if (saved?.version !== SAVED_GAME_VERSION || saved.gameType !== gameType) {
+      console.warn(`[SavedGameStore] Discarding incompatible ${gameType} save`);
+      this.clear(gameType);
+      return null;
+    }
+    return saved;
+  }
+
+  /** Whether a game type has a save. */
+  has(gameType: string): boolean {
+    return this.storage?.getItem(this.key(gameType)) != null;
+  }
+
+  /** Remove a game type's save (e.g. when the game ends). */
+  clear(gameType: string): void {
+    try {
+      this.storage?.removeItem(this.key(gameType));
+    } catch {
+      // Storage unavailable -- nothing to clear
+    }
+  }
+}
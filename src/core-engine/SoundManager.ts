@@ -52,8 +52,13 @@ export interface SoundPlayer {
 /**
  * Maps a game event name to the sound key that should play when
  * that event fires. Used by {@link SoundManager.connectToEvents}.
+ *
+ * @typeParam TGameEvents  The game's own event map, whose events may
+ *                         also be mapped (none by default).
  */
-export type EventSoundMapping = Partial<Record<GameEventName, string>>;
+export type EventSoundMapping<TGameEvents extends object = {}> = Partial<
+  Record<GameEventName<TGameEvents>, string>
+>;
 
 // ── Persistence helpers ─────────────────────────────────────
 
@@ -232,7 +237,8 @@ export class SoundManager {
    * play the mapped sound when each event fires.
    *
    * @param emitter  The game event emitter to subscribe to.
-   * @param mapping  A map of event names to sound keys.
+   * @param mapping  A map of event names to sound keys, including
+   *                 the emitter's game-specific events.
    *
    * @example
    * ```ts
@@ -243,14 +249,14 @@ export class SoundManager {
    * });
    * ```
    */
-  connectToEvents(
-    emitter: GameEventEmitter,
-    mapping: EventSoundMapping,
+  connectToEvents<TGameEvents extends object = {}>(
+    emitter: GameEventEmitter<TGameEvents>,
+    mapping: EventSoundMapping<TGameEvents>,
   ): void {
     for (const [event, soundKey] of Object.entries(mapping)) {
       if (soundKey === undefined) continue;
-      const key = soundKey; // capture for closure
-      const unsub = emitter.on(event as GameEventName, () => {
+      const key = soundKey as string; // capture for closure
+      const unsub = emitter.on(event as GameEventName<TGameEvents>, () => {
         this.play(key);
       });
       this.eventUnsubs.push(unsub);
@@ -0,0 +1,186 @@
+/**
+ * The transcript format shared by all games (version 2).
+ *
+ * Every game records into the same envelope -- game type, house rules,
+ * seed, players, the ordered actions and the final result -- and only
+ * the action payload, board snapshots, variant and result are
+ * game-specific. A game describes those four with a
+ * {@link TranscriptFormat} and records with {@link createTranscript},
+ * {@link recordAction} and {@link finalizeTranscript}.
+ *
+ * Transcripts written before version 2 (Golf's `GameTranscript` and
+ * Beleaguered Castle's `BCGameTranscript`) are upgraded by per-game
+ * migrators passed to {@link upgradeTranscript}.
+ */
+
+// ── Types ──────────────────────────────────────────────────
+
+/** Version of the transcript format written by {@link createTranscript}. */
+export const TRANSCRIPT_VERSION = 2;
+
+/**
+ * The game-specific parts of a transcript, for `Transcript<F>`.
+ *
+ * Usage:
+ *   interface GolfTranscriptFormat {
+ *     action: GolfTurnAction;
+ *     snapshot: GolfTableSnapshot;
+ *     variant: GolfVariant;
+ *     result: GameResults;
+ *   }
+ */
+export interface TranscriptFormat {
+  /** Payload of each recorded action. */
+  action: unknown;
+  /** Board state attached to the start of the game and, optionally, to actions. */
+  snapshot: unknown;
+  /** House rules the game was played under (null for games without variants). */
+  variant: unknown;
+  /** Outcome set when the transcript is finalized. */
+  result: unknown;
+}
+
+/** A player as recorded in a transcript. */
+export interface TranscriptPlayer {
+  name: string;
+  isAI: boolean;
+  /** AI strategy name, for AI players. */
+  strategy?: string;
+}
+
+/** One recorded action. */
+export interface TranscriptAction<F extends TranscriptFormat = TranscriptFormat> {
+  /** Index of the acting player, or null for moves the engine makes itself. */
+  playerIndex: number | null;
+  /** The game-specific action. */
+  action: F['action'];
+  /** Board state after the action, for games that record one. */
+  snapshot?: F['snapshot'];
+}
+
+/** A complete game transcript. */
+export interface Transcript<F extends TranscriptFormat = TranscriptFormat> {
+  /** Format version ({@link TRANSCRIPT_VERSION}). */
+  version: typeof TRANSCRIPT_VERSION;
+  /** Game identifier (e.g. 'golf', 'beleaguered-castle'). */
+  gameType: string;
+  /** House rules the game was played under. */
+  variant: F['variant'];
+  /**
+   * Seed of the deal, or null when it is unknown (transcripts upgraded
+   * from formats that did not record it).
+   */
+  seed: number | null;
+  players: TranscriptPlayer[];
+  /** ISO 8601 timestamp of game start. */
+  startedAt: string;
+  /** ISO 8601 timestamp of game end (set on finalize). */
+  endedAt: string;
+  /** Board state before the first action, for games that record one. */
+  initialSnapshot?: F['snapshot'];
+  /** All actions in order. */
+  actions: TranscriptAction<F>[];
+  /** Final result (set on finalize). */
+  result: F['result'] | null;
+}
+
+/** What a game knows about itself when it starts recording. */
+export interface TranscriptHeader<F extends TranscriptFormat = TranscriptFormat> {
+  gameType: string;
+  variant: F['variant'];
+  seed: number | null;
+  players: readonly TranscriptPlayer[];
+  initialSnapshot?: F['snapshot'];
+}
+
+/**
+ * Upgrades one game's version 1 transcripts to the current format.
+ * Declared with a `never` parameter so that migrators typed for their
+ * own game's legacy transcript fit in a {@link TranscriptMigrators} map.
+ */
+export type TranscriptMigrator<L = never> = (legacy: L) => Transcript;
+
+/** Version 1 transcript migrators, keyed by game type. */
+export type TranscriptMigrators = Readonly<Partial<Record<string, TranscriptMigrator>>>;
+
+// ── Recording ──────────────────────────────────────────────
+
+/** Start an empty transcript, timestamped now. */
+export function createTranscript<F extends TranscriptFormat>(
+  header: TranscriptHeader<F>,
+): Transcript<F> {
+  return {
+    version: TRANSCRIPT_VERSION,
+    gameType: header.gameType,
+    variant: header.variant,
+    seed: header.seed,
+    players: header.players.map((p) => ({ ...p })),
+    startedAt: new Date().toISOString(),
+    endedAt: '',
+    ...(header.initialSnapshot !== undefined
+      ? { initialSnapshot: header.initialSnapshot }
+      : {}),
+    actions: [],
+    result: null,
+  };
+}
+
+/** Append an action (and the board state after it, if the game records one). */
+export function recordAction<F extends TranscriptFormat>(
+  transcript: Transcript<F>,
+  playerIndex: number | null,
+  action: F['action'],
+  snapshot?: F['snapshot'],
+): void {
+  transcript.actions.push({
+    playerIndex,
+    action,
+    ...(snapshot !== undefined ? { snapshot } : {}),
+  });
+}
+
+/**
+ * Set the result and end timestamp.
+ *
+ * @returns The transcript.
+ */
+export function finalizeTranscript<F extends TranscriptFormat>(
+  transcript: Transcript<F>,
+  result: F['result'],
+): Transcript<F> {
+  transcript.endedAt = new Date().toISOString();
+  transcript.result = result;
+  return transcript;
+}
+
+// ── Migration ──────────────────────────────────────────────
+
+/**
+ * Bring stored transcript data to the current format.
+ *
+ * Current transcripts are returned as they are; version 1 transcripts
+ * go through the game's migrator. Only the version is checked -- the
+ * data is otherwise trusted to be a transcript of `gameType`.
+ *
+ * @throws If the version is unknown, or is 1 and `gameType` has no
+ *         migrator.
+ */
+export function upgradeTranscript(
+  gameType: string,
+  data: unknown,
+  migrators: TranscriptMigrators = {},
+): Transcript {
+  const version =
+    typeof data === 'object' && data !== null
+      ? (data as { version?: unknown }).version
+      : undefined;
+  if (version === TRANSCRIPT_VERSION) return data as Transcript;
+
+  const migrate = migrators[gameType];
+  if (version === 1 && migrate) return migrate(data as never);
+
+  throw new Error(
+    `Unsupported ${gameType} transcript version: ${String(version)}. ` +
+      `Expected: ${TRANSCRIPT_VERSION}${migrate ? ' or 1' : ''}`,
+  );
+}
@@ -6,9 +6,15 @@
  * per game type to prevent unbounded storage growth.
  *
  * This module is game-agnostic: it stores arbitrary JSON-serializable
- * transcript objects keyed by game type.
+ * transcript objects keyed by game type. Game transcripts go through
+ * {@link TranscriptStore.saveTranscript} and come back in the current
+ * format (see Transcript.ts) from {@link TranscriptStore.listTranscripts},
+ * which upgrades older ones with the configured migrators.
  */
 
+import type { Transcript, TranscriptFormat, TranscriptMigrators } from './Transcript';
+import { upgradeTranscript } from './Transcript';
+
 // ── Types ──────────────────────────────────────────────────
 
 /** Metadata wrapper stored alongside each transcript. */
@@ -35,6 +41,8 @@ export interface TranscriptStoreOptions {
   storeName?: string;
   /** localStorage key prefix. Defaults to 'tce-transcripts'. */
   localStoragePrefix?: string;
+  /** Upgrade stored version 1 transcripts, keyed by game type. */
+  migrators?: TranscriptMigrators;
 }
 
 // ── Constants ──────────────────────────────────────────────
@@ -285,6 +293,7 @@ export class TranscriptStore {
   private readonly dbName: string;
   private readonly storeName: string;
   private readonly localStoragePrefix: string;
+  private readonly migrators: TranscriptMigrators;
   private initPromise: Promise<void> | null = null;
   private seqCounter: number = 0;
 
@@ -293,6 +302,7 @@ export class TranscriptStore {
     this.dbName = options.dbName ?? DEFAULT_DB_NAME;
     this.storeName = options.storeName ?? DEFAULT_STORE_NAME;
     this.localStoragePrefix = options.localStoragePrefix ?? DEFAULT_LS_PREFIX;
+    this.migrators = options.migrators ?? {};
   }
 
   /**
@@ -379,6 +389,15 @@ export class TranscriptStore {
     return entry;
   }
 
+  /**
+   * Save a game transcript under its own game type.
+   */
+  saveTranscript<F extends TranscriptFormat>(
+    transcript: Transcript<F>,
+  ): Promise<StoredTranscript<Transcript<F>> | null> {
+    return this.save(transcript.gameType, transcript);
+  }
+
   /**
    * List all stored transcripts for a game type, newest first.
    */
@@ -397,6 +416,29 @@ export class TranscriptStore {
     return (await this.backend.get(id)) as StoredTranscript<T> | null;
   }
 
+  /**
+   * List the stored game transcripts for a game type, newest first, in
+   * the current format. Transcripts that cannot be upgraded are skipped
+   * with a warning.
+   */
+  async listTranscripts(gameType: string): Promise<StoredTranscript<Transcript>[]> {
+    const upgraded: StoredTranscript<Transcript>[] = [];
+    for (const entry of await this.list(gameType)) {
+      const current = this.upgrade(entry);
+      if (current) upgraded.push(current);
+    }
+    return upgraded;
+  }
+
+  /**
+   * Retrieve a game transcript by ID in the current format, or null if
+   * it is missing or cannot be upgraded.
+   */
+  async getTranscript(id: string): Promise<StoredTranscript<Transcript> | null> {
+    const entry = await this.get(id);
+    return entry ? this.upgrade(entry) : null;
+  }
+
   /**
    * Remove a specific transcript by ID.
    */
@@ -424,6 +466,19 @@ export class TranscriptStore {
     return this.backend?.name ?? null;
   }
 
+  /** Upgrade a stored transcript, warning and returning null on failure. */
+  private upgrade(entry: StoredTranscript): StoredTranscript<Transcript> | null {
+    try {
+      return {
+        ...entry,
+        transcript: upgradeTranscript(entry.gameType, entry.transcript, this.migrators),
+      };
+    } catch (e) {
+      console.warn(`[TranscriptStore] Skipping transcript ${entry.id}:`, e);
+      return null;
+    }
+  }
+
   /**
    * Evict oldest transcripts if the count exceeds maxPerGame.
    */
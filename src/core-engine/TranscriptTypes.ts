@@ -5,9 +5,14 @@
  * helper used by all game transcript modules.  Game-specific
  * snapshot types (board layouts, scoring, etc.) remain in each
  * example game's own GameTranscript module.
+ *
+ * The helpers work for any card type with an id ({@link CardLike}),
+ * not just French playing cards: Sushi Go! dishes and Splendor
+ * development cards snapshot, compare and restore the same way.
  */
 
-import type { Card, Rank, Suit } from '../card-system/Card';
+import type { Card, CardLike, Rank, Suit } from '../card-system/Card';
+import { createCard } from '../card-system/Card';
 
 // ── Snapshot types ──────────────────────────────────────────
 
@@ -16,26 +21,94 @@ import type { Card, Rank, Suit } from '../card-system/Card';
  *
  * Captures rank, suit, and face-up state so that transcript
  * consumers can reconstruct visual card state without needing
- * the full Card object.
+ * the full Card object. Jokers are recorded with rank `'Joker'`.
  */
 export interface CardSnapshot {
+  /**
+   * The card's engine-assigned id. Always written by
+   * {@link snapshotCard}; absent in transcripts recorded before cards
+   * carried ids.
+   */
+  id?: number;
   rank: Rank;
   suit: Suit;
   faceUp: boolean;
+  /** Which deck of a multi-deck shoe the card came from (omitted for single decks). */
+  deckIndex?: number;
 }
 
+/**
+ * Serializable snapshot of any card type: its fields, copied and no
+ * longer read-only. For a French {@link Card} this is a
+ * {@link CardSnapshot}.
+ */
+export type CardLikeSnapshot<C extends CardLike> = {
+  -readonly [K in keyof C]: C[K];
+};
+
 // ── Helpers ─────────────────────────────────────────────────
 
 /**
  * Create a serializable snapshot of a card.
  *
- * Always includes `faceUp` so that replay tools and transcript
- * consumers have complete visibility information.
+ * The snapshot is a copy of the card's own fields, so a French card
+ * always includes `faceUp` (replay tools and transcript consumers get
+ * complete visibility information) and includes `deckIndex` only when
+ * the card came from a multi-deck shoe.
+ */
+export function snapshotCard<C extends CardLike>(card: C): CardLikeSnapshot<C> {
+  return { ...card };
+}
+
+/**
+ * Rebuild a Card from a snapshot (e.g. when replaying a transcript).
+ *
+ * Card ids are derived from rank, suit and deck of origin, so the
+ * rebuilt card has the same id as the card that was snapshotted.
+ */
+export function cardFromSnapshot(snap: CardSnapshot): Card {
+  return createCard(snap.rank, snap.suit, snap.faceUp, snap.deckIndex);
+}
+
+/**
+ * Whether two cards or snapshots refer to the same physical card.
+ *
+ * Compares ids when both carry one, and otherwise (French card
+ * snapshots recorded before cards had ids) falls back to rank, suit
+ * and deck of origin. Use this rather than rank/suit matching when
+ * diffing boards, since multi-deck games contain identical-looking
+ * copies.
+ */
+export function isSameCard(
+  a: CardLike | CardSnapshot,
+  b: CardLike | CardSnapshot,
+): boolean {
+  if (a.id !== undefined && b.id !== undefined) return a.id === b.id;
+  const x = a as CardSnapshot;
+  const y = b as CardSnapshot;
+  return (
+    x.rank === y.rank &&
+    x.suit === y.suit &&
+    (x.deckIndex ?? 0) === (y.deckIndex ?? 0)
+  );
+}
+
+/**
+ * Look cards up by id in a game's full set of cards, e.g. to restore
+ * a snapshot that records cards by id.
+ *
+ * @param kind  What the cards are, for the error message.
+ * @returns     A lookup that throws `Unknown <kind> id <id>` for ids
+ *              not in `universe`.
  */
-export function snapshotCard(card: Card): CardSnapshot {
-  return {
-    rank: card.rank,
-    suit: card.suit,
-    faceUp: card.faceUp,
+export function cardLookup<C extends CardLike>(
+  universe: readonly C[],
+  kind: string = 'card',
+): (id: number) => C {
+  const byId = new Map(universe.map((card) => [card.id, card]));
+  return (id) => {
+    const card = byId.get(id);
+    if (!card) throw new Error(`Unknown ${kind} id ${id}`);
+    return card;
   };
 }
@@ -0,0 +1,314 @@
+/**
+ * Turn-order policy: direction, skipped and extra turns, and the
+ * final round once a player triggers the end of the game.
+ *
+ * Many games end with "someone reached the goal, finish up": in Golf
+ * every other player gets one more turn after a grid is fully revealed;
+ * in Splendor the round in progress is played out so everyone has had
+ * the same number of turns. A {@link TurnOrder} tracks who still owes a
+ * final turn under either rule, along with the seat order (which may
+ * reverse) and any pending skipped or extra turns.
+ *
+ * The order also tracks the player now acting, which {@link passTurn}
+ * moves on; a game built on a core GameState copies it into the
+ * state's `currentPlayerIndex`.
+ * `'final-round-started'`, `'last-turn'` and `'turn-skipped'` events let
+ * the UI announce "last turn!" and the like.
+ */
+
+import type { GameEventEmitter } from './GameEventEmitter';
+
+// ── Types ───────────────────────────────────────────────────
+
+/** Seat order: increasing player index, or decreasing. */
+export type TurnDirection = 'clockwise' | 'counter-clockwise';
+
+/**
+ * Who plays once the end has been triggered.
+ *
+ * - `others-once`  -- every other player takes exactly one more turn.
+ * - `finish-round` -- play continues until the round that began with
+ *                     the starting player is complete.
+ */
+export type FinalRoundRule = 'others-once' | 'finish-round';
+
+/**
+ * Turn-order state of a game.
+ */
+export interface TurnOrder {
+  /** Number of players. */
+  readonly playerCount: number;
+  /** Player who leads each round. */
+  readonly startingPlayerIndex: number;
+  /** How the final round is played once the end is triggered. */
+  readonly finalRound: FinalRoundRule;
+  /** Player now acting. */
+  currentPlayerIndex: number;
+  /** Current seat order. */
+  direction: TurnDirection;
+  /** Pending skipped turns per player. */
+  skips: number[];
+  /** Extra turns owed to the player now acting. */
+  extraTurns: number;
+  /** Player who triggered the end, or `null` before the final round. */
+  triggeringPlayerIndex: number | null;
+  /** Players still owed a final turn, in the order they will play. */
+  finalTurnsOwed: number[];
+  /** Whether the final round is complete. */
+  ended: boolean;
+  /** Emitter for final-round and skipped-turn events. */
+  readonly events?: GameEventEmitter;
+}
+
+/**
+ * Options for creating a turn order.
+ */
+export interface TurnOrderOptions {
+  /** Number of players (must be at least 1). */
+  playerCount: number;
+  /** Player who leads each round (defaults to 0). */
+  startingPlayerIndex?: number;
+  /** Player who acts first (defaults to `startingPlayerIndex`). */
+  currentPlayerIndex?: number;
+  /** Final-round rule (defaults to `'others-once'`). */
+  finalRound?: FinalRoundRule;
+  /** Initial seat order (defaults to `'clockwise'`). */
+  direction?: TurnDirection;
+  /** Emitter for final-round and skipped-turn events. */
+  events?: GameEventEmitter;
+}
+
+/** Serialisable copy of a {@link TurnOrder}, without its emitter. */
+export type TurnOrderSnapshot = Readonly<Omit<TurnOrder, 'events'>>;
+
+// ── Creation ────────────────────────────────────────────────
+
+/**
+ * Create a turn order with no final round in progress.
+ *
+ * @throws If fewer than 1 player is given.
+ * @throws If `startingPlayerIndex` or `currentPlayerIndex` is out of bounds.
+ */
+export function createTurnOrder(options: TurnOrderOptions): TurnOrder {
+  const {
+    playerCount,
+    startingPlayerIndex = 0,
+    currentPlayerIndex = startingPlayerIndex,
+    finalRound = 'others-once',
+    direction = 'clockwise',
+    events,
+  } = options;
+
+  if (playerCount < 1) {
+    throw new Error(`A turn order requires at least 1 player, got ${playerCount}`);
+  }
+  assertPlayer(playerCount, startingPlayerIndex, 'startingPlayerIndex');
+  assertPlayer(playerCount, currentPlayerIndex, 'currentPlayerIndex');
+
+  return {
+    playerCount,
+    startingPlayerIndex,
+    finalRound,
+    currentPlayerIndex,
+    direction,
+    skips: new Array<number>(playerCount).fill(0),
+    extraTurns: 0,
+    triggeringPlayerIndex: null,
+    finalTurnsOwed: [],
+    ended: false,
+    ...(events ? { events } : {}),
+  };
+}
+
+function assertPlayer(playerCount: number, playerIndex: number, name: string): void {
+  if (!Number.isInteger(playerIndex) || playerIndex < 0 || playerIndex >= playerCount) {
+    throw new Error(
+      `${name} ${playerIndex} is out of bounds for ${playerCount} players`,
+    );
+  }
+}
+
+// ── Query functions ─────────────────────────────────────────
+
+/**
+ * The seat after `playerIndex` in the current direction, ignoring
+ * skipped and extra turns.
+ */
+export function nextSeat(order: TurnOrder, playerIndex: number): number {
+  const step = order.direction === 'clockwise' ? 1 : -1;
+  return (playerIndex + step + order.playerCount) % order.playerCount;
+}
+
+/** Whether the end has been triggered. */
+export function isFinalRound(order: TurnOrder): boolean {
+  return order.triggeringPlayerIndex !== null;
+}
+
+/** Whether a player is still owed a final turn. */
+export function needsFinalTurn(order: TurnOrder, playerIndex: number): boolean {
+  return order.finalTurnsOwed.includes(playerIndex);
+}
+
+// ── Mutation functions ──────────────────────────────────────
+
+/**
+ * Start the final round, triggered by `playerIndex` (usually the player
+ * who just acted). Works out who is still owed a turn under the
+ * {@link FinalRoundRule} and emits `'final-round-started'`.
+ *
+ * @returns `false` if the final round had already been triggered.
+ */
+export function triggerFinalRound(order: TurnOrder, playerIndex: number): boolean {
+  assertPlayer(order.playerCount, playerIndex, 'playerIndex');
+  if (isFinalRound(order)) return false;
+
+  const owed: number[] = [];
+  for (
+    let seat = nextSeat(order, playerIndex);
+    seat !== playerIndex;
+    seat = nextSeat(order, seat)
+  ) {
+    if (order.finalRound === 'finish-round' && seat === order.startingPlayerIndex) {
+      break;
+    }
+    owed.push(seat);
+  }
+
+  order.triggeringPlayerIndex = playerIndex;
+  order.finalTurnsOwed = owed;
+  order.events?.emit('final-round-started', {
+    triggeringPlayerIndex: playerIndex,
+    playersOwed: [...owed],
+  });
+  return true;
+}
+
+/**
+ * Record that `playerIndex` has finished a turn. A player with extra
+ * turns pending has not finished yet.
+ *
+ * @returns Whether the final round is now complete.
+ */
+export function completeTurn(order: TurnOrder, playerIndex: number): boolean {
+  if (order.extraTurns > 0) return order.ended;
+
+  removeOwed(order, playerIndex);
+  return order.ended;
+}
+
+function removeOwed(order: TurnOrder, playerIndex: number): void {
+  const owed = order.finalTurnsOwed.indexOf(playerIndex);
+  if (owed !== -1) order.finalTurnsOwed.splice(owed, 1);
+  if (isFinalRound(order) && order.finalTurnsOwed.length === 0) {
+    order.ended = true;
+  }
+}
+
+/**
+ * Work out who acts after `currentPlayerIndex`: the same player if
+ * they have an extra turn, else the next seat that is not skipping.
+ * A skipped turn during the final round forfeits that player's final
+ * turn. Emits `'turn-skipped'` per skip and `'last-turn'` when the next
+ * player is taking their final turn.
+ */
+export function nextPlayer(order: TurnOrder, currentPlayerIndex: number): number {
+  if (order.extraTurns > 0) {
+    order.extraTurns--;
+    return currentPlayerIndex;
+  }
+
+  let next = nextSeat(order, currentPlayerIndex);
+  while (order.skips[next] > 0 && !order.ended) {
+    order.skips[next]--;
+    order.events?.emit('turn-skipped', { playerIndex: next });
+    removeOwed(order, next);
+    next = nextSeat(order, next);
+  }
+
+  if (!order.ended && needsFinalTurn(order, next)) {
+    order.events?.emit('last-turn', {
+      playerIndex: next,
+      finalTurnsLeft: order.finalTurnsOwed.length,
+    });
+  }
+  return next;
+}
+
+/**
+ * Finish `currentPlayerIndex`'s turn (by default the player now
+ * acting) and pick the next player ({@link completeTurn} then
+ * {@link nextPlayer}), who becomes the player now acting.
+ *
+ * @returns The next player, or `null` if the final round is complete.
+ */
+export function passTurn(
+  order: TurnOrder,
+  currentPlayerIndex: number = order.currentPlayerIndex,
+): number | null {
+  if (completeTurn(order, currentPlayerIndex)) return null;
+  const next = nextPlayer(order, currentPlayerIndex);
+  if (order.ended) return null;
+  order.currentPlayerIndex = next;
+  return next;
+}
+
+/** Reverse the seat order (e.g. a "reverse" card). */
+export function reverseDirection(order: TurnOrder): void {
+  order.direction = order.direction === 'clockwise' ? 'counter-clockwise' : 'clockwise';
+}
+
+/**
+ * Make a player miss their next turn(s).
+ *
+ * @throws If `playerIndex` is out of bounds.
+ */
+export function skipPlayer(order: TurnOrder, playerIndex: number, turns = 1): void {
+  assertPlayer(order.playerCount, playerIndex, 'playerIndex');
+  order.skips[playerIndex] += turns;
+}
+
+/** Give the player now acting extra turn(s) after this one. */
+export function grantExtraTurn(order: TurnOrder, turns = 1): void {
+  order.extraTurns += turns;
+}
+
+// ── Snapshots ───────────────────────────────────────────────
+
+/** Copy a turn order's state (e.g. to undo a turn or save a game). */
+export function snapshotTurnOrder(order: TurnOrder): TurnOrderSnapshot {
+  return {
+    playerCount: order.playerCount,
+    startingPlayerIndex: order.startingPlayerIndex,
+    finalRound: order.finalRound,
+    currentPlayerIndex: order.currentPlayerIndex,
+    direction: order.direction,
+    skips: [...order.skips],
+    extraTurns: order.extraTurns,
+    triggeringPlayerIndex: order.triggeringPlayerIndex,
+    finalTurnsOwed: [...order.finalTurnsOwed],
+    ended: order.ended,
+  };
+}
+
+/**
+ * Put a turn order back to a snapshot's state. The order keeps its
+ * emitter.
+ *
+ * @throws If the snapshot is for a different number of players, or
+ *         its player now acting is out of bounds.
+ */
+export function restoreTurnOrder(order: TurnOrder, snapshot: TurnOrderSnapshot): void {
+  if (snapshot.playerCount !== order.playerCount) {
+    throw new Error(
+      `Cannot restore a ${snapshot.playerCount}-player turn order into a ${order.playerCount}-player one`,
+    );
+  }
+  assertPlayer(order.playerCount, snapshot.currentPlayerIndex, 'currentPlayerIndex');
+  order.currentPlayerIndex = snapshot.currentPlayerIndex;
+  order.direction = snapshot.direction;
+  order.skips = [...snapshot.skips];
+  order.extraTurns = snapshot.extraTurns;
+  order.triggeringPlayerIndex = snapshot.triggeringPlayerIndex;
+  order.finalTurnsOwed = [...snapshot.finalTurnsOwed];
+  order.ended = snapshot.ended;
+}
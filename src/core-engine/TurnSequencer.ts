@@ -8,36 +8,44 @@
  * if needed.
  */
 
+import type { GameEventEmitter } from './GameEventEmitter';
 import type { GamePhase, GameState, PlayerInfo } from './GameState';
+import { changePhase, isTerminalPhase, isTurnPhase } from './Phases';
+import type { ValidationResult } from '../rule-engine/RuleSet';
+import { assertValid } from '../rule-engine/RuleSet';
 
 // ── Query functions ─────────────────────────────────────────
 
 /**
  * Get the currently active player's info.
  */
-export function getCurrentPlayer<T>(state: GameState<T>): PlayerInfo {
+export function getCurrentPlayer<T, P extends string>(
+  state: GameState<T, P>,
+): PlayerInfo {
   return state.players[state.currentPlayerIndex];
 }
 
 /**
  * Get the currently active player's game-specific state.
  */
-export function getCurrentPlayerState<T>(state: GameState<T>): T {
+export function getCurrentPlayerState<T, P extends string>(
+  state: GameState<T, P>,
+): T {
   return state.playerStates[state.currentPlayerIndex];
 }
 
 /**
- * Whether the game has ended.
+ * Whether the game has ended (it is in a terminal phase).
  */
-export function isGameOver<T>(state: GameState<T>): boolean {
-  return state.phase === 'ended';
+export function isGameOver<T, P extends string>(state: GameState<T, P>): boolean {
+  return isTerminalPhase(state.phases, state.phase);
 }
 
 /**
- * Whether the game is in the active playing phase.
+ * Whether the game is in a phase where players take turns.
  */
-export function isPlaying<T>(state: GameState<T>): boolean {
-  return state.phase === 'playing';
+export function isPlaying<T, P extends string>(state: GameState<T, P>): boolean {
+  return isTurnPhase(state.phases, state.phase);
 }
 
 // ── Mutation functions ──────────────────────────────────────
@@ -48,16 +56,17 @@ export function isPlaying<T>(state: GameState<T>): boolean {
  * Rotates `currentPlayerIndex` to the next player in order
  * (wrapping around) and increments the turn counter.
  *
- * @throws If the game phase is `ended`.
- * @throws If the game phase is `setup` (turns only advance during `playing`).
+ * @throws If the game is in a terminal phase (e.g. `ended`).
+ * @throws If the game is in a phase without turns (e.g. `setup`).
  */
-export function advanceTurn<T>(state: GameState<T>): void {
-  if (state.phase === 'ended') {
+export function advanceTurn<T, P extends string>(state: GameState<T, P>): void {
+  if (isGameOver(state)) {
     throw new Error('Cannot advance turn: game has ended');
   }
-  if (state.phase === 'setup') {
+  if (!isPlaying(state)) {
     throw new Error(
-      'Cannot advance turn during setup phase; transition to playing first',
+      `Cannot advance turn during ${state.phase} phase; ` +
+        `transition to ${state.phases.turnPhases.join(' or ')} first`,
     );
   }
 
@@ -67,9 +76,11 @@ export function advanceTurn<T>(state: GameState<T>): void {
 }
 
 /**
- * Transition the game to a new phase.
+ * Transition the game to a new phase along its phase graph, running
+ * the phases' exit/enter hooks and emitting `'phase-changed'` on the
+ * state's emitter.
  *
- * Valid transitions:
+ * Valid transitions for the default phases:
  * - `setup`   -> `playing`
  * - `playing` -> `ended`
  * - `setup`   -> `ended` (e.g. abort / forfeit during setup)
@@ -77,33 +88,181 @@ export function advanceTurn<T>(state: GameState<T>): void {
  * @throws If the transition is invalid (e.g. `ended` -> `playing`).
  * @throws If transitioning to the same phase.
  */
-export function transitionTo<T>(
-  state: GameState<T>,
-  newPhase: GamePhase,
+export function transitionTo<T, P extends string>(
+  state: GameState<T, P>,
+  newPhase: P,
 ): void {
-  const current = state.phase;
+  changePhase(state.phases, state, newPhase, state.events);
+}
+
+// ── Simultaneous turns ──────────────────────────────────────
+
+/**
+ * A turn in which every player chooses an action in secret and all
+ * actions are revealed together (e.g. a Sushi Go! pick or a blind bid).
+ *
+ * Actions stay pending until {@link revealActions} locks the turn.
+ * A player may resubmit while the turn is open; the latest action
+ * replaces the earlier one.
+ *
+ * @typeParam A  The game's action type.
+ */
+export interface SimultaneousTurn<A> {
+  /** The turn number the actions belong to. */
+  readonly turnNumber: number;
+  /** Each player's submitted action, or `undefined` while deciding. */
+  readonly pending: (A | undefined)[];
+  /** Whether the actions have been revealed (no more submissions). */
+  locked: boolean;
+  /** Rule check applied to each submission. */
+  readonly validate?: (action: A, playerIndex: number) => ValidationResult;
+  /** Emitter for `'action-submitted'` and `'actions-revealed'`. */
+  readonly events?: GameEventEmitter;
+}
 
-  if (current === newPhase) {
-    throw new Error(`Game is already in phase "${current}"`);
+/**
+ * Options for beginning a simultaneous turn.
+ */
+export interface SimultaneousTurnOptions<A> {
+  /** Number of players who must act (must be at least 1). */
+  playerCount: number;
+  /** Turn number reported in events (defaults to 0). */
+  turnNumber?: number;
+  /** Rule check applied to each submission. */
+  validate?: (action: A, playerIndex: number) => ValidationResult;
+  /** Emitter for submission and reveal events. */
+  events?: GameEventEmitter;
+}
+
+/**
+ * Begin a simultaneous turn with no actions submitted.
+ *
+ * @throws If `playerCount` is less than 1.
+ */
+export function beginSimultaneousTurn<A>(
+  options: SimultaneousTurnOptions<A>,
+): SimultaneousTurn<A> {
+  const { playerCount, turnNumber = 0, validate, events } = options;
+
+  if (playerCount < 1) {
+    throw new Error(
+      `A simultaneous turn requires at least 1 player, got ${playerCount}`,
+    );
+  }
+
+  return {
+    turnNumber,
+    pending: Array.from({ length: playerCount }, () => undefined),
+    locked: false,
+    ...(validate ? { validate } : {}),
+    ...(events ? { events } : {}),
+  };
+}
+
+/**
+ * Begin a simultaneous turn for every player of a GameState, numbered
+ * with the state's current turn and reporting to its emitter.
+ *
+ * @throws If the game is not in a phase where players take turns.
+ */
+export function beginSimultaneousTurnFor<T, P extends string, A>(
+  state: GameState<T, P>,
+  validate?: (action: A, playerIndex: number) => ValidationResult,
+): SimultaneousTurn<A> {
+  if (!isPlaying(state)) {
+    throw new Error(
+      `Cannot begin a simultaneous turn during ${state.phase} phase`,
+    );
   }
 
-  const allowed = VALID_TRANSITIONS[current];
-  if (!allowed.includes(newPhase)) {
+  return beginSimultaneousTurn({
+    playerCount: state.players.length,
+    turnNumber: state.turnNumber,
+    validate,
+    events: state.events,
+  });
+}
+
+/**
+ * Record a player's secret action and emit `'action-submitted'`.
+ *
+ * @throws If the turn has already been revealed.
+ * @throws If `playerIndex` is out of bounds.
+ * @throws If the turn's `validate` rejects the action.
+ */
+export function submitAction<A>(
+  turn: SimultaneousTurn<A>,
+  playerIndex: number,
+  action: A,
+): void {
+  if (turn.locked) {
+    throw new Error('Cannot submit an action: actions have been revealed');
+  }
+  if (playerIndex < 0 || playerIndex >= turn.pending.length) {
     throw new Error(
-      `Invalid phase transition: "${current}" -> "${newPhase}". ` +
-        `Allowed transitions from "${current}": ${allowed.join(', ') || 'none'}`,
+      `playerIndex ${playerIndex} is out of bounds for ${turn.pending.length} players`,
     );
   }
 
-  state.phase = newPhase;
+  if (turn.validate) {
+    assertValid(
+      turn.validate(action, playerIndex),
+      `action for player ${playerIndex}`,
+    );
+  }
+
+  turn.pending[playerIndex] = action;
+  turn.events?.emit('action-submitted', {
+    turnNumber: turn.turnNumber,
+    playerIndex,
+    waitingOn: getUndecidedPlayers(turn),
+  });
+}
+
+/**
+ * Indices of the players who have not yet submitted an action.
+ */
+export function getUndecidedPlayers<A>(turn: SimultaneousTurn<A>): number[] {
+  const undecided: number[] = [];
+  turn.pending.forEach((action, i) => {
+    if (action === undefined) undecided.push(i);
+  });
+  return undecided;
 }
 
-/** Map of valid phase transitions. */
-const VALID_TRANSITIONS: Record<GamePhase, GamePhase[]> = {
-  setup: ['playing', 'ended'],
-  playing: ['ended'],
-  ended: [],
-};
+/**
+ * Whether every player has submitted an action.
+ */
+export function allActionsSubmitted<A>(turn: SimultaneousTurn<A>): boolean {
+  return turn.pending.every((action) => action !== undefined);
+}
+
+/**
+ * Lock the turn and reveal every player's action together, emitting
+ * `'actions-revealed'`.
+ *
+ * @returns The actions, indexed by player.
+ * @throws If the turn has already been revealed.
+ * @throws If any player has not yet submitted.
+ */
+export function revealActions<A>(turn: SimultaneousTurn<A>): A[] {
+  if (turn.locked) {
+    throw new Error('Actions have already been revealed');
+  }
+  const undecided = getUndecidedPlayers(turn);
+  if (undecided.length > 0) {
+    throw new Error(
+      `Cannot reveal actions: waiting on player(s) ${undecided.join(', ')}`,
+    );
+  }
+
+  turn.locked = true;
+  turn.events?.emit('actions-revealed', {
+    turnNumber: turn.turnNumber,
+    playerCount: turn.pending.length,
+  });
+  return [...turn.pending] as A[];
+}
 
 // ── Convenience ─────────────────────────────────────────────
 
@@ -111,7 +270,7 @@ const VALID_TRANSITIONS: Record<GamePhase, GamePhase[]> = {
  * Start the game (transition from setup to playing).
  * Convenience wrapper around `transitionTo`.
  */
-export function startGame<T>(state: GameState<T>): void {
+export function startGame<T>(state: GameState<T, GamePhase>): void {
   transitionTo(state, 'playing');
 }
 
@@ -119,6 +278,6 @@ export function startGame<T>(state: GameState<T>): void {
  * End the game (transition from playing or setup to ended).
  * Convenience wrapper around `transitionTo`.
  */
-export function endGame<T>(state: GameState<T>): void {
+export function endGame<T>(state: GameState<T, GamePhase>): void {
   transitionTo(state, 'ended');
 }
@@ -66,6 +66,16 @@ export class CompoundCommand implements Command {
   }
 }
 
+/**
+ * Serialisable undo/redo history (see {@link UndoRedoManager.saveHistory}).
+ * Both stacks are listed bottom to top, so the last `undo` entry is the
+ * next command to undo.
+ */
+export interface UndoHistorySnapshot<D> {
+  readonly undo: readonly D[];
+  readonly redo: readonly D[];
+}
+
 // ── UndoRedoManager ─────────────────────────────────────────
 
 /**
@@ -147,6 +157,30 @@ export class UndoRedoManager {
     return [...this.undoStack];
   }
 
+  /**
+   * Copy the history in a serialisable form, converting each command
+   * with `encode` (e.g. to the move it applies).
+   */
+  saveHistory<D>(encode: (command: Command) => D): UndoHistorySnapshot<D> {
+    return {
+      undo: this.undoStack.map(encode),
+      redo: this.redoStack.map(encode),
+    };
+  }
+
+  /**
+   * Replace the history with a saved one, rebuilding each command with
+   * `decode`. Commands are not executed: the game state is expected to
+   * be restored already.
+   */
+  restoreHistory<D>(
+    snapshot: UndoHistorySnapshot<D>,
+    decode: (data: D) => Command,
+  ): void {
+    this.undoStack = snapshot.undo.map(decode);
+    this.redoStack = snapshot.redo.map(decode);
+  }
+
   /** Clear all undo and redo history. */
   clear(): void {
     this.undoStack.length = 0;
@@ -0,0 +1,152 @@
+/**
+ * Zones and per-player visibility for hidden-information games.
+ *
+ * A zone is a named place cards live -- the stock, a discard pile, a
+ * player's hand or grid, a market row -- together with a
+ * {@link ZoneVisibility} policy saying who may see its cards. Games
+ * describe their state as zones and project it for one player with
+ * {@link observeZones}: cards the player may not see are replaced by
+ * {@link HiddenCard} placeholders, so AIs, transcripts and (later)
+ * network clients can be handed a view that cannot leak information.
+ *
+ * Placeholders carry nothing but the fact that a card is there: not
+ * even its id, since card ids are derived from rank and suit.
+ */
+
+// ── Visibility ──────────────────────────────────────────────
+
+/**
+ * Who may see the cards in a zone:
+ * - `'public'`        -- every player (e.g. a market, a discard pile).
+ * - `'owner-only'`    -- only the zone's owner (e.g. a hand).
+ * - `'hidden'`        -- nobody; only the card count is known (a stock).
+ * - `'top-card-only'` -- everybody sees the top card only (a discard
+ *   pile in games where buried cards may not be inspected).
+ */
+export type ZoneVisibility = 'public' | 'owner-only' | 'hidden' | 'top-card-only';
+
+/** Placeholder for a card the observer may not see. */
+export interface HiddenCard {
+  readonly hidden: true;
+}
+
+/** A card as seen by an observer: the card itself or a placeholder. */
+export type Observed<T> = T | HiddenCard;
+
+/** The shared placeholder instance. */
+export const HIDDEN_CARD: HiddenCard = Object.freeze({ hidden: true as const });
+
+/** Whether an observed card is a placeholder. */
+export function isHiddenCard<T>(card: Observed<T>): card is HiddenCard {
+  return (
+    typeof card === 'object' &&
+    card !== null &&
+    (card as Partial<HiddenCard>).hidden === true
+  );
+}
+
+// ── Zones ───────────────────────────────────────────────────
+
+/** Description of a zone in a game's state. */
+export interface ZoneDefinition<S, T> {
+  /** Who may see the zone's cards. */
+  readonly visibility: ZoneVisibility;
+  /** Index of the owning player, for per-player zones. */
+  readonly owner?: number;
+  /**
+   * Hide cards whose `faceUp` flag is false from everyone, whatever the
+   * zone policy (e.g. face-down cards in a Golf grid). Default false.
+   */
+  readonly hideFaceDown?: boolean;
+  /** Read the zone's cards from the state, bottom (or first) card first. */
+  readonly cards: (state: S) => readonly T[];
+}
+
+/** Zones of a game, keyed by name (e.g. `'stock'`, `'grid-0'`). */
+export type ZoneMap<S, T> = Readonly<Record<string, ZoneDefinition<S, T>>>;
+
+/** A zone as seen by one player. */
+export interface ObservedZone<T> {
+  readonly visibility: ZoneVisibility;
+  readonly owner?: number;
+  /** Number of cards in the zone (always known). */
+  readonly size: number;
+  /** The zone's cards, with unseen cards replaced by {@link HIDDEN_CARD}. */
+  readonly cards: readonly Observed<T>[];
+}
+
+/** Every zone of a game as seen by one player. */
+export type ObservedZones<T> = Readonly<Record<string, ObservedZone<T>>>;
+
+function isFaceDown(card: unknown): boolean {
+  return (
+    typeof card === 'object' &&
+    card !== null &&
+    (card as { faceUp?: unknown }).faceUp === false
+  );
+}
+
+function copyCard<T>(card: T): T {
+  return typeof card === 'object' && card !== null ? { ...card } : card;
+}
+
+/**
+ * Whether `viewer` may see the card at `position` (0 = bottom) of a
+ * zone holding `size` cards, before face-down cards are considered.
+ */
+export function canSeePosition(
+  visibility: ZoneVisibility,
+  owner: number | undefined,
+  viewer: number,
+  position: number,
+  size: number,
+): boolean {
+  switch (visibility) {
+    case 'public':
+      return true;
+    case 'owner-only':
+      return owner === viewer;
+    case 'hidden':
+      return false;
+    case 'top-card-only':
+      return position === size - 1;
+  }
+}
+
+/**
+ * Project a list of cards for one viewer under a zone policy.
+ *
+ * Visible cards are shallow copies, so a view cannot be used to change
+ * the game (e.g. to turn a card face-up).
+ */
+export function redactCards<T>(
+  cards: readonly T[],
+  zone: Pick<ZoneDefinition<unknown, T>, 'visibility' | 'owner' | 'hideFaceDown'>,
+  viewer: number,
+): Observed<T>[] {
+  return cards.map((card, position) => {
+    const visible =
+      canSeePosition(zone.visibility, zone.owner, viewer, position, cards.length) &&
+      !(zone.hideFaceDown && isFaceDown(card));
+    return visible ? copyCard(card) : HIDDEN_CARD;
+  });
+}
+
+/** Project every zone of a state for one player. */
+export function observeZones<S, T>(
+  state: S,
+  zones: ZoneMap<S, T>,
+  viewer: number,
+): ObservedZones<T> {
+  const observed: Record<string, ObservedZone<T>> = {};
+  for (const [name, zone] of Object.entries(zones)) {
+    const cards = zone.cards(state);
+    observed[name] = {
+      visibility: zone.visibility,
+      ...(zone.owner !== undefined ? { owner: zone.owner } : {}),
+      size: cards.length,
+      cards: redactCards(cards, zone, viewer),
+    };
+  }
+  return observed;
+}
@@ -7,10 +7,40 @@
 export const ENGINE_VERSION = '0.1.0';
 
 // Game state types and factory
-export type { GamePhase, PlayerInfo, GameState, GameStateOptions } from './GameState';
-export { createGameState } from './GameState';
+export type {
+  GamePhase,
+  PlayerInfo,
+  GameState,
+  GameStateOptions,
+  GameStateSnapshot,
+} from './GameState';
+export { createGameState, snapshotGameState, restoreGameState } from './GameState';
+
+// Phase graphs
+export type {
+  PhasedState,
+  PhaseTransitions,
+  PhaseEnterHook,
+  PhaseExitHook,
+  PhaseDefinition,
+  PhaseMachine,
+} from './Phases';
+export {
+  definePhases,
+  STANDARD_PHASES,
+  canTransition,
+  isPhase,
+  isTerminalPhase,
+  isTurnPhase,
+  changePhase,
+  revertPhase,
+} from './Phases';
 
 // Turn sequencer functions
+export type {
+  SimultaneousTurn,
+  SimultaneousTurnOptions,
+} from './TurnSequencer';
 export {
   getCurrentPlayer,
   getCurrentPlayerState,
@@ -20,16 +50,146 @@ export {
   transitionTo,
   startGame,
   endGame,
+  beginSimultaneousTurn,
+  beginSimultaneousTurnFor,
+  submitAction,
+  getUndecidedPlayers,
+  allActionsSubmitted,
+  revealActions,
 } from './TurnSequencer';
 
+// Turn order and final rounds
+export type {
+  TurnDirection,
+  FinalRoundRule,
+  TurnOrder,
+  TurnOrderOptions,
+  TurnOrderSnapshot,
+} from './TurnOrder';
+export {
+  createTurnOrder,
+  nextSeat,
+  isFinalRound,
+  needsFinalTurn,
+  triggerFinalRound,
+  completeTurn,
+  nextPlayer,
+  passTurn,
+  reverseDirection,
+  skipPlayer,
+  grantExtraTurn,
+  snapshotTurnOrder,
+  restoreTurnOrder,
+} from './TurnOrder';
+
+// Multi-round matches
+export type {
+  MatchLength,
+  MatchScoring,
+  MatchOptions,
+  MatchState,
+  MatchScorecard,
+} from './Match';
+export {
+  createMatch,
+  getRoundNumber,
+  getDealerIndex,
+  getFirstPlayerIndex,
+  getMatchTotals,
+  isMatchOver,
+  getMatchLeaders,
+  getMatchWinnerIndex,
+  getScorecard,
+  recordRound,
+} from './Match';
+
+// Seedable random number generation
+export type { Rng, RngState } from './Rng';
+export { createRng, restoreRng, randomSeed, isRng, requireRngState } from './Rng';
+
+// Deal codes (shareable seeds)
+export type { SeedSceneData } from './DealCode';
+export {
+  encodeDealCode,
+  parseDealCode,
+  seedFromQuery,
+  resolveSceneSeed,
+} from './DealCode';
+
+// Zones and per-player visibility
+export type {
+  ZoneVisibility,
+  HiddenCard,
+  Observed,
+  ZoneDefinition,
+  ZoneMap,
+  ObservedZone,
+  ObservedZones,
+} from './Zones';
+export {
+  HIDDEN_CARD,
+  isHiddenCard,
+  canSeePosition,
+  redactCards,
+  observeZones,
+} from './Zones';
+
 // Undo/Redo system
-export type { Command } from './UndoRedoManager';
+export type { Command, UndoHistorySnapshot } from './UndoRedoManager';
 export { CompoundCommand, UndoRedoManager } from './UndoRedoManager';
 
+// Transcript format
+export type {
+  TranscriptFormat,
+  TranscriptPlayer,
+  TranscriptAction,
+  Transcript,
+  TranscriptHeader,
+  TranscriptMigrator,
+  TranscriptMigrators,
+} from './Transcript';
+export {
+  TRANSCRIPT_VERSION,
+  createTranscript,
+  recordAction,
+  finalizeTranscript,
+  upgradeTranscript,
+} from './Transcript';
+
 // Transcript persistence
 export type { StoredTranscript, TranscriptStoreOptions } from './TranscriptStore';
 export { TranscriptStore } from './TranscriptStore';
 
+// Saved games
+export type {
+  SavedGame,
+  ResumeSceneData,
+  SaveStorage,
+  SavedGameStoreOptions,
+} from './SavedGame';
+export { SavedGameStore, SAVED_GAME_VERSION } from './SavedGame';
+
+// Event log
+export type {
+  LoggedEvent,
+  EventSink,
+  EventLogBatch,
+  TranscriptStoreEventSinkOptions,
+  AppendFileLike,
+  EventRecorderOptions,
+} from './EventLog';
+export {
+  EventRecorder,
+  MemoryEventSink,
+  TranscriptStoreEventSink,
+  JsonlEventSink,
+  EVENT_LOG_GAME_TYPE_PREFIX,
+  createEventLogStore,
+  readStoredEvents,
+  parseEventLogJsonl,
+  generateSessionId,
+} from './EventLog';
+
 // Game event system
 export type {
   TurnStartedPayload,
@@ -37,6 +197,12 @@ export type {
   AnimationCompletePayload,
   StateSettledPayload,
   GameEndedPayload,
+  PhaseChangedPayload,
+  ActionSubmittedPayload,
+  ActionsRevealedPayload,
+  FinalRoundStartedPayload,
+  LastTurnPayload,
+  TurnSkippedPayload,
   CardDrawnPayload,
   CardFlippedPayload,
   CardSwappedPayload,
@@ -53,18 +219,28 @@ export type {
   CardSelectedPayload,
   CardDeselectedPayload,
   DealCardPayload,
+  CoreEventMap,
+  CardEventMap,
+  SolitaireEventMap,
   GameEventMap,
+  EventMapWith,
   GameEventName,
   GameEventListener,
+  AnyEventListener,
 } from './GameEventEmitter';
-export { GameEventEmitter } from './GameEventEmitter';
+export { GameEventEmitter, BUILT_IN_EVENT_NAMES } from './GameEventEmitter';
 
 // Shared transcript snapshot types
-export type { CardSnapshot } from './TranscriptTypes';
-export { snapshotCard } from './TranscriptTypes';
+export type { CardSnapshot, CardLikeSnapshot } from './TranscriptTypes';
+export {
+  snapshotCard,
+  cardFromSnapshot,
+  isSameCard,
+  cardLookup,
+} from './TranscriptTypes';
 
 // Phaser event bridge
-export type { PhaserLikeEventEmitter } from './PhaserEventBridge';
+export type { PhaserLikeEventEmitter, PhaserEventBridgeOptions } from './PhaserEventBridge';
 export { PhaserEventBridge } from './PhaserEventBridge';
 
 // Sound management
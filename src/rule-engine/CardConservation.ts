@@ -0,0 +1,214 @@
+/**
+ * Card conservation invariant for the Tableau Card Engine.
+ *
+ * Cards are never created or destroyed by a move: they only travel
+ * between locations (stock, discard, hands, tableaux, ...). A bug that
+ * drops or duplicates a card usually shows up only as a visual glitch
+ * several moves later, so games declare a {@link CardConservation}
+ * spec -- their full card universe plus a function listing every
+ * location -- and the checker compares the multiset of card ids:
+ *
+ * - {@link assertCardUniverse} checks a freshly set-up state against
+ *   the universe.
+ * - {@link checkCardUniverse} does the same check unconditionally, for
+ *   input that cannot be trusted, such as a restored save.
+ * - {@link conserveCards} runs a move and checks that the cards after
+ *   it are the same as before, naming the move on failure.
+ * - {@link withCardConservation} wraps a {@link RuleSet} so every
+ *   `apply` and `undo` is checked.
+ *
+ * Apart from {@link checkCardUniverse}, checks run only while
+ * {@link cardConservationChecksEnabled} is true: in the Vite dev server
+ * and under Vitest by default, never in production builds.
+ */
+
+import type { CardLike } from '../card-system/Card';
+import type { RuleSet } from './RuleSet';
+
+// ── Types ───────────────────────────────────────────────────
+
+/** Every location of a game's cards, keyed by location name. */
+export type CardLocations<T> = Readonly<Record<string, readonly T[]>>;
+
+/** How to find and check a game's cards. */
+export interface CardConservation<TState, T extends CardLike = CardLike> {
+  /** Name used in failure messages (usually the game name). */
+  readonly name: string;
+  /** Every card the game is played with. */
+  universe(state: TState): readonly T[];
+  /** Every location that can hold cards, with its current cards. */
+  locations(state: TState): CardLocations<T>;
+  /** Label for a card in failure messages (default: `#<id>`). */
+  describe?(card: T): string;
+}
+
+/** Difference between two collections of cards, by id. */
+export interface CardDiff<T> {
+  /** Cards expected but not found (one entry per lost copy). */
+  readonly missing: readonly T[];
+  /** Cards found but not expected, including duplicates. */
+  readonly extra: readonly T[];
+}
+
+// ── Enabling checks ─────────────────────────────────────────
+
+let checksEnabled: boolean = import.meta.env?.DEV ?? false;
+
+/** Whether conservation checks currently run. */
+export function cardConservationChecksEnabled(): boolean {
+  return checksEnabled;
+}
+
+/** Turn conservation checks on or off (e.g. for a benchmark). */
+export function setCardConservationChecks(enabled: boolean): void {
+  checksEnabled = enabled;
+}
+
+// ── Comparison ──────────────────────────────────────────────
+
+/** Every card in every location, in location order. */
+export function collectCards<TState, T extends CardLike>(
+  spec: CardConservation<TState, T>,
+  state: TState,
+): T[] {
+  return Object.values(spec.locations(state)).flat();
+}
+
+/** Compare two collections of cards as multisets of ids. */
+export function diffCards<T extends CardLike>(
+  expected: readonly T[],
+  actual: readonly T[],
+): CardDiff<T> {
+  const pending = new Map<number, T[]>();
+  for (const card of expected) {
+    const copies = pending.get(card.id) ?? [];
+    copies.push(card);
+    pending.set(card.id, copies);
+  }
+
+  const extra: T[] = [];
+  for (const card of actual) {
+    const copies = pending.get(card.id);
+    if (copies && copies.length > 0) {
+      copies.pop();
+    } else {
+      extra.push(card);
+    }
+  }
+  const missing = [...pending.values()].flat();
+  return { missing, extra };
+}
+
+/** Whether a diff found no differences. */
+export function isConserved(diff: CardDiff<unknown>): boolean {
+  return diff.missing.length === 0 && diff.extra.length === 0;
+}
+
+/**
+ * Build the failure message for a diff: which cards went missing,
+ * which appeared, and where the unexpected cards now are.
+ */
+export function describeCardDiff<TState, T extends CardLike>(
+  spec: CardConservation<TState, T>,
+  state: TState,
+  diff: CardDiff<T>,
+): string {
+  const label = (card: T): string => spec.describe?.(card) ?? `#${card.id}`;
+  const parts: string[] = [];
+  if (diff.missing.length > 0) {
+    parts.push(`missing ${diff.missing.map(label).join(', ')}`);
+  }
+  if (diff.extra.length > 0) {
+    const locations = spec.locations(state);
+    const where = (card: T): string =>
+      Object.keys(locations)
+        .filter((name) => locations[name].some((c) => c.id === card.id))
+        .join('+');
+    parts.push(
+      `unexpected ${diff.extra.map((c) => `${label(c)} (in ${where(c)})`).join(', ')}`,
+    );
+  }
+  return parts.join('; ');
+}
+
+// ── Assertions ──────────────────────────────────────────────
+
+/**
+ * Check that the state holds exactly the spec's card universe, even
+ * while checks are disabled.
+ *
+ * @throws If a card is missing, duplicated or unknown.
+ */
+export function checkCardUniverse<TState, T extends CardLike>(
+  spec: CardConservation<TState, T>,
+  state: TState,
+): void {
+  const diff = diffCards(spec.universe(state), collectCards(spec, state));
+  if (!isConserved(diff)) {
+    throw new Error(
+      `${spec.name} cards do not match the card universe: ` +
+        describeCardDiff(spec, state, diff),
+    );
+  }
+}
+
+/**
+ * Check that the state holds exactly the spec's card universe.
+ * Does nothing while checks are disabled.
+ *
+ * @throws If a card is missing, duplicated or unknown.
+ */
+export function assertCardUniverse<TState, T extends CardLike>(
+  spec: CardConservation<TState, T>,
+  state: TState,
+): void {
+  if (checksEnabled) checkCardUniverse(spec, state);
+}
+
+/**
+ * Run a move and check that it neither lost nor duplicated a card.
+ * While checks are disabled the move simply runs.
+ *
+ * @param move   The move being applied, quoted in the failure message.
+ * @param run    Applies the move to `state`.
+ * @returns      Whatever `run` returns.
+ * @throws       If the cards after the move differ from those before.
+ */
+export function conserveCards<TState, T extends CardLike, R>(
+  spec: CardConservation<TState, T>,
+  state: TState,
+  move: unknown,
+  run: () => R,
+): R {
+  if (!checksEnabled) return run();
+
+  const before = collectCards(spec, state);
+  const result = run();
+  const diff = diffCards(before, collectCards(spec, state));
+  if (!isConserved(diff)) {
+    throw new Error(
+      `${spec.name} move ${JSON.stringify(move)} did not conserve cards: ` +
+        describeCardDiff(spec, state, diff),
+    );
+  }
+  return result;
+}
+
+/**
+ * Wrap a rule set so that every `apply` and `undo` is checked with
+ * {@link conserveCards}.
+ */
+export function withCardConservation<TState, TMove, TApplied, T extends CardLike>(
+  rules: RuleSet<TState, TMove, TApplied>,
+  spec: CardConservation<TState, T>,
+): RuleSet<TState, TMove, TApplied> {
+  return {
+    ...rules,
+    apply: (state, move) =>
+      conserveCards(spec, state, move, () => rules.apply(state, move)),
+    undo: (state, move, applied) =>
+      conserveCards(spec, state, { undo: move }, () =>
+        rules.undo(state, move, applied),
+      ),
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Declarative build rules for solitaire-style piles.
+ *
+ * Instead of hand-writing "can this card go on that pile?" checks for
+ * every game, a pile is described by a {@link PileBuildRule}: how suits
+ * must relate, which direction ranks build in, whether the sequence
+ * wraps around (K-A), what an empty pile accepts, and whether runs of
+ * cards may be moved as a unit. The functions in this module evaluate
+ * those rules against `Pile` instances.
+ *
+ * {@link sequenceMoveCapacity} computes how many cards a run move may
+ * carry given the free cells and empty columns available.
+ *
+ * Ready-made rules for common solitaires (Beleaguered Castle, Klondike,
+ * FreeCell, Baker's Game) are provided as constants at the bottom.
+ */
+
+import type { Card, Rank } from '../card-system/Card';
+import { JOKER_RANK, cardColor } from '../card-system/Card';
+import type { RankOrder } from '../card-system/RankOrder';
+import { ACE_LOW, isRankAfter } from '../card-system/RankOrder';
+import type { Pile } from '../card-system/Pile';
+import type { ValidationResult } from './RuleSet';
+import { valid, invalid } from './RuleSet';
+
+// ── Rule vocabulary ─────────────────────────────────────────
+
+/** How the suit of a placed card must relate to the card beneath it. */
+export type SuitRule =
+  | 'any-suit'
+  | 'same-suit'
+  | 'same-color'
+  | 'alternate-color';
+
+/** Direction in which ranks build on a pile. */
+export type BuildDirection = 'up' | 'down' | 'up-or-down';
+
+/**
+ * What an empty pile accepts:
+ * - `'any'`  -- any card.
+ * - `'none'` -- nothing (e.g. a pile that may not be refilled).
+ * - a list of ranks -- only cards of those ranks (e.g. `['K']` for
+ *   Klondike's "King only", `['A']` for foundations).
+ */
+export type EmptyPileRule = 'any' | 'none' | readonly Rank[];
+
+/**
+ * Which groups of cards may be moved from the pile as a unit:
+ * - `'top-card'` -- only the top card.
+ * - `'built-run'` -- any run at the top that itself follows the build rule.
+ * - `'any-face-up'` -- any number of face-up cards, built or not (Yukon).
+ */
+export type SequenceMoveRule = 'top-card' | 'built-run' | 'any-face-up';
+
+/** Declarative description of how cards build on a pile. */
+export interface PileBuildRule {
+  /** Suit relationship between a card and the card beneath it. */
+  readonly suit: SuitRule;
+  /** Rank direction. */
+  readonly direction: BuildDirection;
+  /** Order ranks build in (default {@link ACE_LOW}). */
+  readonly rankOrder?: RankOrder;
+  /** Whether the rank sequence wraps around (K-A / A-K). Default false. */
+  readonly wrap?: boolean;
+  /** What an empty pile accepts. */
+  readonly empty: EmptyPileRule;
+  /** Which groups of cards may be moved off the pile. */
+  readonly sequenceMoves: SequenceMoveRule;
+}
+
+// ── Card relationships ──────────────────────────────────────
+
+/**
+ * Check the suit relationship between a card and the card beneath it.
+ */
+function suitsMatch(rule: SuitRule, lower: Card, upper: Card): boolean {
+  switch (rule) {
+    case 'any-suit':
+      return true;
+    case 'same-suit':
+      return lower.suit === upper.suit;
+    case 'same-color':
+      return cardColor(lower) === cardColor(upper);
+    case 'alternate-color':
+      return cardColor(lower) !== cardColor(upper);
+  }
+}
+
+/**
+ * Check the rank relationship between a card and the card beneath it.
+ */
+function ranksFollow(rule: PileBuildRule, lower: Card, upper: Card): boolean {
+  // Jokers have no place in a rank sequence
+  if (lower.rank === JOKER_RANK || upper.rank === JOKER_RANK) return false;
+
+  const order = rule.rankOrder ?? ACE_LOW;
+  const wrap = rule.wrap ?? false;
+  const up = isRankAfter(order, lower.rank, upper.rank, wrap);
+  const down = isRankAfter(order, upper.rank, lower.rank, wrap);
+
+  switch (rule.direction) {
+    case 'up':
+      return up;
+    case 'down':
+      return down;
+    case 'up-or-down':
+      return up || down;
+  }
+}
+
+/**
+ * Whether `upper` may be placed directly on `lower` under the rule.
+ */
+export function canBuildOn(
+  rule: PileBuildRule,
+  lower: Card,
+  upper: Card,
+): boolean {
+  return (
+    suitsMatch(rule.suit, lower, upper) &&
+    ranksFollow(rule, lower, upper)
+  );
+}
+
+/**
+ * Whether the cards (bottom-to-top order) form a run that follows the
+ * build rule throughout. A single card is always a valid run.
+ */
+export function isBuiltRun(
+  rule: PileBuildRule,
+  cards: readonly Card[],
+): boolean {
+  for (let i = 1; i < cards.length; i++) {
+    if (!canBuildOn(rule, cards[i - 1], cards[i])) return false;
+  }
+  return true;
+}
+
+// ── Pile evaluation ─────────────────────────────────────────
+
+/**
+ * Validate placing one or more cards (bottom-to-top order) on a pile.
+ *
+ * The first card is checked against the pile's top card (or the
+ * empty-pile rule). When more than one card is placed, the rule must
+ * allow sequence moves and, for `'built-run'`, the cards must form a
+ * valid run.
+ */
+export function validateBuild(
+  rule: PileBuildRule,
+  target: Pile,
+  cards: readonly Card[],
+): ValidationResult {
+  if (cards.length === 0) {
+    return invalid('NO_CARDS', 'No cards to place');
+  }
+
+  if (cards.length > 1) {
+    if (rule.sequenceMoves === 'top-card') {
+      return invalid(
+        'SEQUENCE_NOT_ALLOWED',
+        'Only one card may be moved at a time onto this pile',
+      );
+    }
+    if (rule.sequenceMoves === 'built-run' && !isBuiltRun(rule, cards)) {
+      return invalid('NOT_A_RUN', 'The moved cards do not form a built run');
+    }
+  }
+
+  const card = cards[0];
+  const top = target.peek();
+
+  if (!top) {
+    if (rule.empty === 'none') {
+      return invalid('PILE_CLOSED', 'This pile does not accept cards when empty');
+    }
+    if (rule.empty !== 'any' && !rule.empty.includes(card.rank)) {
+      return invalid(
+        'EMPTY_PILE_RANK',
+        `An empty pile only accepts ${rule.empty.join(', ')}; got ${card.rank}`,
+        { rank: card.rank, accepts: rule.empty.join(', ') },
+      );
+    }
+    return valid();
+  }
+
+  if (!suitsMatch(rule.suit, top, card)) {
+    return invalid(
+      rule.suit === 'same-suit' ? 'WRONG_SUIT' : 'WRONG_COLOR',
+      `${card.rank} of ${card.suit} cannot be placed on ` +
+        `${top.rank} of ${top.suit} (${rule.suit})`,
+      { rank: card.rank, suit: card.suit, onRank: top.rank, onSuit: top.suit },
+    );
+  }
+  if (!ranksFollow(rule, top, card)) {
+    return invalid(
+      'WRONG_RANK',
+      `${card.rank} cannot be placed on ${top.rank}; ` +
+        `this pile builds ${rule.direction} by one rank`,
+      { rank: card.rank, onRank: top.rank, direction: rule.direction },
+    );
+  }
+
+  return valid();
+}
+
+/**
+ * Whether the cards may be placed on the pile. See {@link validateBuild}.
+ */
+export function canPlace(
+  rule: PileBuildRule,
+  target: Pile,
+  cards: readonly Card[],
+): boolean {
+  return validateBuild(rule, target, cards).valid;
+}
+
+/**
+ * Number of cards at the top of the pile that may be moved as a unit
+ * under the rule (ignoring any game-specific capacity limits).
+ *
+ * Returns 0 for an empty pile.
+ */
+export function movableRunLength(rule: PileBuildRule, pile: Pile): number {
+  const cards = pile.toArray();
+  if (cards.length === 0) return 0;
+  if (rule.sequenceMoves === 'top-card') return 1;
+
+  let length = 1;
+  for (let i = cards.length - 1; i > 0; i--) {
+    const upper = cards[i];
+    const lower = cards[i - 1];
+    if (!lower.faceUp || !upper.faceUp) break;
+    if (rule.sequenceMoves === 'built-run' && !canBuildOn(rule, lower, upper)) {
+      break;
+    }
+    length++;
+  }
+  return length;
+}
+
+// ── Sequence-move capacity ──────────────────────────────────
+
+/** Spare space available for moving a run one card at a time. */
+export interface SequenceMoveSpace {
+  /** Number of empty free cells (0 for games without cells). */
+  readonly freeCells: number;
+  /**
+   * Number of empty tableau columns, *not* counting the destination
+   * column if it is empty.
+   */
+  readonly emptyColumns: number;
+}
+
+/**
+ * Maximum number of cards that can be moved as a unit ("supermove").
+ *
+ * Moving a run is shorthand for a series of single-card moves through
+ * spare space. With `f` free cells and `e` empty columns, the FreeCell
+ * formula gives `(f + 1) * 2^e` cards.
+ */
+export function sequenceMoveCapacity(space: SequenceMoveSpace): number {
+  const freeCells = Math.max(0, space.freeCells);
+  const emptyColumns = Math.max(0, space.emptyColumns);
+  return (freeCells + 1) * 2 ** emptyColumns;
+}
+
+// ── Common solitaire rules ──────────────────────────────────
+
+/** Foundation built up by suit from the Ace. */
+export const FOUNDATION_UP_BY_SUIT: PileBuildRule = {
+  suit: 'same-suit',
+  direction: 'up',
+  empty: ['A'],
+  sequenceMoves: 'top-card',
+};
+
+/** Beleaguered Castle tableau: down regardless of suit, top card only. */
+export const BELEAGUERED_CASTLE_TABLEAU: PileBuildRule = {
+  suit: 'any-suit',
+  direction: 'down',
+  empty: 'any',
+  sequenceMoves: 'top-card',
+};
+
+/** Klondike tableau: down in alternating colours, King only on empty. */
+export const KLONDIKE_TABLEAU: PileBuildRule = {
+  suit: 'alternate-color',
+  direction: 'down',
+  empty: ['K'],
+  sequenceMoves: 'built-run',
+};
+
+/** FreeCell tableau: down in alternating colours, any card on empty. */
+export const FREECELL_TABLEAU: PileBuildRule = {
+  suit: 'alternate-color',
+  direction: 'down',
+  empty: 'any',
+  sequenceMoves: 'built-run',
+};
+
+/** Baker's Game tableau: FreeCell, but building down by suit. */
+export const BAKERS_GAME_TABLEAU: PileBuildRule = {
+  suit: 'same-suit',
+  direction: 'down',
+  empty: 'any',
+  sequenceMoves: 'built-run',
+};
@@ -0,0 +1,193 @@
+/**
+ * Generic rule-set abstraction for the Tableau Card Engine.
+ *
+ * A RuleSet bundles the four operations every turn-based card game
+ * needs: validating a proposed move, applying it to the state,
+ * undoing it again, and enumerating the legal moves available from
+ * a given state. Games implement the interface once and get the
+ * shared helpers (checked application, legality queries) for free.
+ *
+ * Like the rest of the engine, rule sets are mutation-based: `apply`
+ * and `undo` modify the state passed in rather than returning a copy.
+ */
+
+// ── Validation results ──────────────────────────────────────
+
+/**
+ * Values that fill in a rejection message, e.g. `{ have: 11, max: 10 }`
+ * for `TOKEN_LIMIT_EXCEEDED`.
+ */
+export type ValidationParams = Readonly<Record<string, string | number>>;
+
+/**
+ * Outcome of validating a move.
+ *
+ * Rejections carry a stable machine-readable `code` (UPPER_SNAKE_CASE,
+ * suitable for tests and UI lookups), a human-readable `reason`, and
+ * optionally the `params` the reason was built from, so a UI can word
+ * (or translate) the message itself.
+ */
+export type ValidationResult =
+  | { valid: true }
+  | {
+      valid: false;
+      code: string;
+      reason: string;
+      params?: ValidationParams;
+    };
+
+/** A rejected {@link ValidationResult}. */
+export type Rejection = Extract<ValidationResult, { valid: false }>;
+
+/** Shared "move is legal" result. */
+const VALID: ValidationResult = { valid: true };
+
+/**
+ * Create a successful validation result.
+ */
+export function valid(): ValidationResult {
+  return VALID;
+}
+
+/**
+ * Create a rejected validation result.
+ *
+ * @param code    Stable machine-readable rejection code.
+ * @param reason  Human-readable explanation.
+ * @param params  Values the explanation mentions, keyed by name.
+ */
+export function invalid(
+  code: string,
+  reason: string,
+  params?: ValidationParams,
+): ValidationResult {
+  return { valid: false, code, reason, ...(params ? { params } : {}) };
+}
+
+// ── Rejection messages ──────────────────────────────────────
+
+/**
+ * Message templates keyed by rejection code, e.g. a translation table.
+ * `{name}` placeholders are filled from the rejection's `params`.
+ */
+export type RejectionMessages = Readonly<Record<string, string>>;
+
+/**
+ * The message to show for a rejection: the template for its code when
+ * `messages` has one, otherwise the rejection's own `reason`.
+ *
+ * Placeholders with no matching param are left as written.
+ */
+export function rejectionMessage(
+  rejection: Rejection,
+  messages: RejectionMessages = {},
+): string {
+  if (!Object.prototype.hasOwnProperty.call(messages, rejection.code)) {
+    return rejection.reason;
+  }
+  const params = rejection.params ?? {};
+  const template = messages[rejection.code];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(params, name)
+      ? String(params[name])
+      : placeholder,
+  );
+}
+
+/**
+ * Throw if a validation result is a rejection.
+ *
+ * @param context  What was being validated, e.g. `'Splendor action'`.
+ * @throws An error of the form `Illegal <context> [CODE]: reason`.
+ */
+export function assertValid(
+  result: ValidationResult,
+  context: string,
+): void {
+  if (!result.valid) {
+    throw new Error(`Illegal ${context} [${result.code}]: ${result.reason}`);
+  }
+}
+
+// ── RuleSet interface ───────────────────────────────────────
+
+/**
+ * The rules of a game, expressed over its state and move types.
+ *
+ * @typeParam TState   The game state the rules operate on.
+ * @typeParam TMove    A single move (player action).
+ * @typeParam TApplied Whatever `apply` returns; it is handed back to
+ *                     `undo` so the move can be reversed exactly
+ *                     (e.g. the card that moved, or information that
+ *                     the move itself does not carry).
+ */
+export interface RuleSet<TState, TMove, TApplied = void> {
+  /** Human-readable name of the rule set (usually the game name). */
+  readonly name: string;
+
+  /**
+   * Check whether a move is legal in the given state.
+   * Must not mutate the state.
+   */
+  validate(state: TState, move: TMove): ValidationResult;
+
+  /**
+   * Apply a move to the state (mutating it).
+   *
+   * Implementations may assume the move has been validated; use
+   * {@link applyChecked} to validate and apply in one step.
+   */
+  apply(state: TState, move: TMove): TApplied;
+
+  /**
+   * Reverse a previously applied move (mutating the state).
+   *
+   * @param applied  The value returned by `apply` for this move.
+   */
+  undo(state: TState, move: TMove, applied: TApplied): void;
+
+  /**
+   * Enumerate every legal move from the given state.
+   * Must not mutate the state.
+   */
+  enumerateMoves(state: TState): TMove[];
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+/**
+ * Whether a move is legal under the given rule set.
+ */
+export function isLegal<TState, TMove, TApplied>(
+  rules: RuleSet<TState, TMove, TApplied>,
+  state: TState,
+  move: TMove,
+): boolean {
+  return rules.validate(state, move).valid;
+}
+
+/**
+ * Validate a move and apply it if legal.
+ *
+ * @throws If the move is illegal. The error message includes the
+ *         rule set name, rejection code and reason.
+ * @returns Whatever the rule set's `apply` returns.
+ */
+export function applyChecked<TState, TMove, TApplied>(
+  rules: RuleSet<TState, TMove, TApplied>,
+  state: TState,
+  move: TMove,
+): TApplied {
+  assertValid(rules.validate(state, move), `${rules.name} move`);
+  return rules.apply(state, move);
+}
+
+/**
+ * Whether at least one legal move exists from the given state.
+ */
+export function hasLegalMoves<TState, TMove, TApplied>(
+  rules: RuleSet<TState, TMove, TApplied>,
+  state: TState,
+): boolean {
+  return rules.enumerateMoves(state).length > 0;
+}
@@ -0,0 +1,271 @@
+/**
+ * House rules and variants.
+ *
+ * A game declares its configurable rules once, as a typed
+ * {@link VariantSchema}: each option's kind, label, default and allowed
+ * values, plus named presets for well-known variants (e.g. "Streets and
+ * Alleys" for Beleaguered Castle). The rules then consult a resolved
+ * variant -- a plain object with every option filled in -- instead of
+ * hard-coded constants.
+ *
+ * Variants are plain data, so they can be stored on a session, written
+ * to a transcript and handed to a scene as a preset name.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+/** Value of a single variant option. */
+export type VariantValue = boolean | number | string;
+
+/** An on/off rule. */
+export interface ToggleOption {
+  readonly kind: 'toggle';
+  /** Short human-readable name. */
+  readonly label: string;
+  readonly default: boolean;
+}
+
+/** A whole-number rule within a range (inclusive). */
+export interface NumberOption {
+  readonly kind: 'number';
+  /** Short human-readable name. */
+  readonly label: string;
+  readonly default: number;
+  readonly min: number;
+  readonly max: number;
+}
+
+/** A rule chosen from a fixed list of values. */
+export interface ChoiceOption<T extends string = string> {
+  readonly kind: 'choice';
+  /** Short human-readable name. */
+  readonly label: string;
+  readonly default: T;
+  readonly choices: readonly T[];
+}
+
+/** The option declaration matching a value type. */
+export type VariantOption<T> = [T] extends [boolean]
+  ? ToggleOption
+  : [T] extends [number]
+    ? NumberOption
+    : [T] extends [string]
+      ? ChoiceOption<T>
+      : never;
+
+/** A named set of option overrides. */
+export interface VariantPreset<V> {
+  /** Human-readable name shown in the UI. */
+  readonly label: string;
+  /** Options that differ from the defaults. */
+  readonly options: Partial<V>;
+}
+
+/**
+ * A game's configurable rules.
+ *
+ * @typeParam V  The resolved variant: one property per option.
+ */
+export interface VariantSchema<V extends { [K in keyof V]: VariantValue }> {
+  /** Name of the game the variants belong to. */
+  readonly game: string;
+  /** Declaration of every option. */
+  readonly options: { readonly [K in keyof V]: VariantOption<V[K]> };
+  /** Well-known variants, by stable name (see {@link STANDARD_PRESET}). */
+  readonly presets: Readonly<Record<string, VariantPreset<V>>>;
+}
+
+/** A preset as listed in the UI. */
+export interface VariantPresetEntry {
+  /** Stable name, passed to {@link presetVariant}. */
+  readonly name: string;
+  readonly label: string;
+}
+
+/** Scene start payload naming the preset to play. */
+export interface VariantSceneData {
+  /** Preset name (see {@link presetVariant}); omitted for the standard rules. */
+  variant?: string;
+}
+
+/** Name of the implicit preset with every option at its default. */
+export const STANDARD_PRESET = 'standard';
+
+// ── Definition ──────────────────────────────────────────────
+
+/**
+ * Declare a game's variants.
+ *
+ * @throws If an option's default is not allowed by its own declaration,
+ *         or a preset sets a value its option does not allow.
+ */
+export function defineVariants<V extends { [K in keyof V]: VariantValue }>(
+  schema: {
+    game: string;
+    options: { readonly [K in keyof V]: VariantOption<V[K]> };
+    presets?: Readonly<Record<string, VariantPreset<V>>>;
+  },
+): VariantSchema<V> {
+  const defined: VariantSchema<V> = {
+    game: schema.game,
+    options: schema.options,
+    presets: schema.presets ?? {},
+  };
+
+  for (const key of optionKeys(defined)) {
+    const error = checkOption(defined, key, defined.options[key].default);
+    if (error) throw new Error(`${schema.game} variant default: ${error}`);
+  }
+  if (STANDARD_PRESET in defined.presets) {
+    throw new Error(`${schema.game} preset "${STANDARD_PRESET}" is reserved`);
+  }
+  for (const [name, preset] of Object.entries(defined.presets)) {
+    const error = checkOverrides(defined, preset.options);
+    if (error) throw new Error(`${schema.game} preset "${name}": ${error}`);
+  }
+  return defined;
+}
+
+function optionKeys<V extends { [K in keyof V]: VariantValue }>(
+  schema: VariantSchema<V>,
+): (keyof V & string)[] {
+  return Object.keys(schema.options) as (keyof V & string)[];
+}
+
+function checkOption<V extends { [K in keyof V]: VariantValue }>(
+  schema: VariantSchema<V>,
+  key: string,
+  value: unknown,
+): string | null {
+  if (!Object.prototype.hasOwnProperty.call(schema.options, key)) {
+    return `unknown option "${key}"`;
+  }
+  const option = schema.options[key as keyof V] as
+    | ToggleOption
+    | NumberOption
+    | ChoiceOption;
+  switch (option.kind) {
+    case 'toggle':
+      return typeof value === 'boolean'
+        ? null
+        : `${key} must be true or false, got ${String(value)}`;
+    case 'number':
+      return Number.isInteger(value) &&
+        (value as number) >= option.min &&
+        (value as number) <= option.max
+        ? null
+        : `${key} must be a whole number from ${option.min} to ${option.max}, got ${String(value)}`;
+    case 'choice':
+      return option.choices.includes(value as string)
+        ? null
+        : `${key} must be one of ${option.choices.join(', ')}, got ${String(value)}`;
+  }
+}
+
+function checkOverrides<V extends { [K in keyof V]: VariantValue }>(
+  schema: VariantSchema<V>,
+  overrides: Partial<V>,
+): string | null {
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    const error = checkOption(schema, key, value);
+    if (error) return error;
+  }
+  return null;
+}
+
+// ── Resolution ──────────────────────────────────────────────
+
+/** The variant with every option at its default. */
+export function defaultVariant<V extends { [K in keyof V]: VariantValue }>(
+  schema: VariantSchema<V>,
+): V {
+  const variant = {} as V;
+  for (const key of optionKeys(schema)) {
+    variant[key] = schema.options[key].default as V[typeof key];
+  }
+  return variant;
+}
+
+/**
+ * Fill in a variant: the defaults, overridden by `overrides`.
+ *
+ * @throws If an override names an unknown option or has a value its
+ *         option does not allow.
+ */
+export function resolveVariant<V extends { [K in keyof V]: VariantValue }>(
+  schema: VariantSchema<V>,
+  overrides: Partial<V> = {},
+): V {
+  const error = checkOverrides(schema, overrides);
+  if (error) throw new Error(`Invalid ${schema.game} variant: ${error}`);
+
+  const variant = defaultVariant(schema);
+  for (const key of optionKeys(schema)) {
+    const value = overrides[key];
+    if (value !== undefined) variant[key] = value as V[typeof key];
+  }
+  return variant;
+}
+
+/**
+ * The variant for a preset name. {@link STANDARD_PRESET} (or no name)
+ * gives the defaults.
+ *
+ * @throws If the game has no preset with that name.
+ */
+export function presetVariant<V extends { [K in keyof V]: VariantValue }>(
+  schema: VariantSchema<V>,
+  name: string = STANDARD_PRESET,
+): V {
+  if (name === STANDARD_PRESET) return defaultVariant(schema);
+  const preset = Object.prototype.hasOwnProperty.call(schema.presets, name)
+    ? schema.presets[name]
+    : undefined;
+  if (!preset) {
+    throw new Error(`${schema.game} has no "${name}" variant`);
+  }
+  return resolveVariant(schema, preset.options);
+}
+
+// ── Description ─────────────────────────────────────────────
+
+/** Every preset, the standard rules first, for a variant picker. */
+export function listVariantPresets<V extends { [K in keyof V]: VariantValue }>(
+  schema: VariantSchema<V>,
+): VariantPresetEntry[] {
+  return [
+    { name: STANDARD_PRESET, label: 'Standard' },
+    ...Object.entries(schema.presets).map(([name, preset]) => ({
+      name,
+      label: preset.label,
+    })),
+  ];
+}
+
+/**
+ * The options of a variant that differ from the defaults, for display
+ * and transcripts, e.g. `['Twos: 0', 'Jokers in the deck: on']`.
+ */
+export function describeVariant<V extends { [K in keyof V]: VariantValue }>(
+  schema: VariantSchema<V>,
+  variant: V,
+): string[] {
+  const lines: string[] = [];
+  for (const key of optionKeys(schema)) {
+    const option = schema.options[key];
+    const value = variant[key];
+    if (value === option.default) continue;
+    const shown = typeof value === 'boolean' ? (value ? 'on' : 'off') : String(value);
+    lines.push(`${option.label}: ${shown}`);
+  }
+  return lines;
+}
+
+/** Whether a variant is the standard rules. */
+export function isStandardVariant<V extends { [K in keyof V]: VariantValue }>(
+  schema: VariantSchema<V>,
+  variant: V,
+): boolean {
+  return describeVariant(schema, variant).length === 0;
+}
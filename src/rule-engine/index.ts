@@ -5,3 +5,86 @@
  * enabling complex gameplay mechanics, turn logic, and validation.
  */
 export const RULE_ENGINE_VERSION = '0.1.0';
+
+// Rule-set abstraction
+export type {
+  ValidationParams,
+  ValidationResult,
+  Rejection,
+  RejectionMessages,
+  RuleSet,
+} from './RuleSet';
+export {
+  valid,
+  invalid,
+  rejectionMessage,
+  assertValid,
+  isLegal,
+  applyChecked,
+  hasLegalMoves,
+} from './RuleSet';
+
+// Card conservation invariant
+export type {
+  CardLocations,
+  CardConservation,
+  CardDiff,
+} from './CardConservation';
+export {
+  cardConservationChecksEnabled,
+  setCardConservationChecks,
+  collectCards,
+  diffCards,
+  isConserved,
+  describeCardDiff,
+  checkCardUniverse,
+  assertCardUniverse,
+  conserveCards,
+  withCardConservation,
+} from './CardConservation';
+
+// Declarative solitaire pile build rules
+export type {
+  SuitRule,
+  BuildDirection,
+  EmptyPileRule,
+  SequenceMoveRule,
+  PileBuildRule,
+  SequenceMoveSpace,
+} from './PileRules';
+export {
+  canBuildOn,
+  isBuiltRun,
+  validateBuild,
+  canPlace,
+  movableRunLength,
+  sequenceMoveCapacity,
+  FOUNDATION_UP_BY_SUIT,
+  BELEAGUERED_CASTLE_TABLEAU,
+  KLONDIKE_TABLEAU,
+  FREECELL_TABLEAU,
+  BAKERS_GAME_TABLEAU,
+} from './PileRules';
+
+// House rules and variants
+export type {
+  VariantValue,
+  ToggleOption,
+  NumberOption,
+  ChoiceOption,
+  VariantOption,
+  VariantPreset,
+  VariantSchema,
+  VariantPresetEntry,
+  VariantSceneData,
+} from './Variants';
+export {
+  STANDARD_PRESET,
+  defineVariants,
+  defaultVariant,
+  resolveVariant,
+  presetVariant,
+  listVariantPresets,
+  describeVariant,
+  isStandardVariant,
+} from './Variants';
@@ -5,12 +5,15 @@
  * and SVG file names. These are used by every game scene that renders
  * standard playing cards from the `public/assets/cards/` sprite set.
  *
- * Also provides a convenience function to preload all 52 card face SVGs
- * plus the card back into a Phaser scene.
+ * Also provides a convenience function to preload all 52 card face SVGs,
+ * the two jokers and the card back into a Phaser scene.
+ *
+ * Jokers use `joker_black` / `joker_red` rather than the `rank_of_suit`
+ * pattern; the colour comes from the joker's suit (see Card.ts).
  */
 
-import type { Card, Rank, Suit } from '@card-system/Card';
-import { RANKS, SUITS } from '@card-system/Card';
+import type { Card, Rank, Suit, JokerColor } from '@card-system/Card';
+import { RANKS, SUITS, JOKER_RANK, suitColor } from '@card-system/Card';
 import { CARD_W, CARD_H } from './constants';
 
 /**
@@ -25,16 +28,24 @@ export function rankFileName(rank: Rank): string {
     case 'J': return 'jack';
     case 'Q': return 'queen';
     case 'K': return 'king';
+    case 'Joker': return 'joker';
     default: return rank; // 2-10
   }
 }
 
+/** Texture key for a joker of the given colour. */
+function jokerTextureKey(color: JokerColor): string {
+  return `joker_${color}`;
+}
+
 /**
  * Build the Phaser texture key for a given rank and suit.
  *
- * Example: `cardTextureKey('A', 'spades')` -> `'ace_of_spades'`
+ * Example: `cardTextureKey('A', 'spades')` -> `'ace_of_spades'`,
+ * `cardTextureKey('Joker', 'hearts')` -> `'joker_red'`
  */
 export function cardTextureKey(rank: Rank, suit: Suit): string {
+  if (rank === JOKER_RANK) return jokerTextureKey(suitColor(suit));
   return `${rankFileName(rank)}_of_${suit}`;
 }
 
@@ -44,7 +55,7 @@ export function cardTextureKey(rank: Rank, suit: Suit): string {
  * Example: `cardFileName('A', 'spades')` -> `'ace_of_spades.svg'`
  */
 export function cardFileName(rank: Rank, suit: Suit): string {
-  return `${rankFileName(rank)}_of_${suit}.svg`;
+  return `${cardTextureKey(rank, suit)}.svg`;
 }
 
 /**
@@ -57,7 +68,8 @@ export function getCardTexture(card: Card): string {
 }
 
 /**
- * Preload all 52 card face SVGs and the card back SVG into a Phaser scene.
+ * Preload all 52 card face SVGs, both joker SVGs and the card back SVG
+ * into a Phaser scene.
  *
  * Call this from your scene's `preload()` method instead of manually
  * iterating over ranks and suits.
@@ -85,4 +97,11 @@ export function preloadCardAssets(
       scene.load.svg(key, `assets/cards/${file}`, { width, height });
     }
   }
+
+  // Black and red jokers
+  for (const suit of ['spades', 'hearts'] as const) {
+    const key = cardTextureKey(JOKER_RANK, suit);
+    const file = cardFileName(JOKER_RANK, suit);
+    scene.load.svg(key, `assets/cards/${file}`, { width, height });
+  }
 }
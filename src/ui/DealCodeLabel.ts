@@ -0,0 +1,71 @@
+/**
+ * Shared HUD label showing the current deal code.
+ *
+ * Seeded game scenes display their seed as a short deal code (see
+ * `core-engine/DealCode`) in the bottom-right corner so players can
+ * share a deal or quote it in a bug report.
+ */
+
+import { encodeDealCode } from '../core-engine/DealCode';
+import { GAME_W, GAME_H, FONT_FAMILY } from './constants';
+
+// ── Constants ───────────────────────────────────────────────
+
+/** Default X position (right edge) of the deal code label. */
+export const DEAL_CODE_LABEL_X = GAME_W - 12;
+
+/** Default Y position of the deal code label. */
+export const DEAL_CODE_LABEL_Y = GAME_H - 18;
+
+/** Default font size for the deal code label. */
+export const DEAL_CODE_LABEL_FONT_SIZE = '14px';
+
+/** Default color for the deal code label. */
+export const DEAL_CODE_LABEL_COLOR = '#668866';
+
+// ── Types ───────────────────────────────────────────────────
+
+/** Optional configuration for the deal code label. */
+export interface DealCodeLabelConfig {
+  /** X position of the right edge (default: DEAL_CODE_LABEL_X). */
+  x?: number;
+  /** Y position (default: DEAL_CODE_LABEL_Y). */
+  y?: number;
+  /** Font size (default: '14px'). */
+  fontSize?: string;
+  /** Text color (default: '#668866'). */
+  color?: string;
+  /** Font family (default: FONT_FAMILY). */
+  fontFamily?: string;
+}
+
+// ── Factories ───────────────────────────────────────────────
+
+/** The label text for a seed, e.g. `'Deal: 1PS9WXB'`. */
+export function dealCodeText(seed: number): string {
+  return `Deal: ${encodeDealCode(seed)}`;
+}
+
+/**
+ * Create a right-aligned "Deal: CODE" label.
+ *
+ * @param scene  - The Phaser scene to add the label to.
+ * @param seed   - The seed of the current deal.
+ * @param config - Optional styling/position overrides.
+ * @returns The created Phaser text game object.
+ */
+export function createDealCodeLabel(
+  scene: Phaser.Scene,
+  seed: number,
+  config?: DealCodeLabelConfig,
+): Phaser.GameObjects.Text {
+  const x = config?.x ?? DEAL_CODE_LABEL_X;
+  const y = config?.y ?? DEAL_CODE_LABEL_Y;
+  const fontSize = config?.fontSize ?? DEAL_CODE_LABEL_FONT_SIZE;
+  const color = config?.color ?? DEAL_CODE_LABEL_COLOR;
+  const fontFamily = config?.fontFamily ?? FONT_FAMILY;
+
+  return scene.add
+    .text(x, y, dealCodeText(seed), { fontSize, color, fontFamily })
+    .setOrigin(1, 0.5);
+}
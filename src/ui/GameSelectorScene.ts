@@ -8,9 +8,30 @@
  * 3. Falls back to an empty list (shows nothing)
  *
  * The registry key used is exported as `REGISTRY_KEY_GAMES`.
+ *
+ * An "[ Enter Deal Code ]" button lets the player pick a specific deal:
+ * the next game started from the selector receives it as `{ seed }`.
+ * Games are always started with a `{ seed }` payload (possibly
+ * undefined) so a previously chosen deal never sticks to a scene.
+ *
+ * Games that list house-rule presets show a "[ Rules: ... ]" toggle on
+ * their card that cycles through them; the chosen preset is passed as
+ * `{ variant }` alongside the seed.
+ *
+ * Games with a `saveKey` and a game in progress (see SavedGameStore)
+ * show a "[ Resume ]" button beside "[ Play ]", which starts the scene
+ * with `{ resume: true }`.
  */
 import Phaser from 'phaser';
 import { GAME_W, GAME_H } from './constants';
+import { encodeDealCode, parseDealCode } from '../core-engine/DealCode';
+import type { SeedSceneData } from '../core-engine/DealCode';
+import { SavedGameStore } from '../core-engine/SavedGame';
+import type { ResumeSceneData } from '../core-engine/SavedGame';
+import type {
+  VariantPresetEntry,
+  VariantSceneData,
+} from '../rule-engine/Variants';
 
 // ── Types ──────────────────────────────────────────────────
 
@@ -21,6 +42,16 @@ export interface GameEntry {
   title: string;
   /** Short description (1-2 sentences). */
   description: string;
+  /**
+   * House-rule presets the player may pick from, standard rules first
+   * (see `listVariantPresets`). Omitted for games without variants.
+   */
+  variants?: readonly VariantPresetEntry[];
+  /**
+   * Key the game saves its in-progress game under in a SavedGameStore.
+   * Omitted for games that cannot be resumed.
+   */
+  saveKey?: string;
 }
 
 // ── Constants ──────────────────────────────────────────────
@@ -32,6 +63,10 @@ export const REGISTRY_KEY_GAMES = 'gameSelector.games';
 
 const FONT_FAMILY = 'monospace';
 
+const SUBTITLE = 'Select a game to play';
+const SUBTITLE_COLOR = '#669966';
+const SUBTITLE_ERROR_COLOR = '#ff8888';
+
 /** Maximum card dimensions -- actual size may shrink to fit the grid. */
 const MAX_CARD_W = 340;
 const MAX_CARD_H = 180;
@@ -54,6 +89,11 @@ export class GameSelectorScene extends Phaser.Scene {
 
   private games: GameEntry[] = [];
 
+  /** Deal chosen via "[ Enter Deal Code ]", passed to the next game started. */
+  private pendingSeed: number | undefined;
+  private subtitle!: Phaser.GameObjects.Text;
+  private readonly savedGames = new SavedGameStore();
+
   constructor() {
     super({ key: SCENE_KEY });
   }
@@ -85,18 +125,62 @@ export class GameSelectorScene extends Phaser.Scene {
       .setOrigin(0.5);
 
     // Subtitle
-    this.add
-      .text(GAME_W / 2, 85, 'Select a game to play', {
+    this.pendingSeed = undefined;
+    this.subtitle = this.add
+      .text(GAME_W / 2, 85, SUBTITLE, {
         fontSize: '16px',
-        color: '#669966',
+        color: SUBTITLE_COLOR,
         fontFamily: FONT_FAMILY,
       })
       .setOrigin(0.5);
 
+    this.createDealCodeButton();
+
     // Layout game cards
     this.layoutGameCards();
   }
 
+  // ── Deal code entry ────────────────────────────────────
+
+  private createDealCodeButton(): void {
+    const btn = this.add
+      .text(GAME_W - GRID_MARGIN, 50, '[ Enter Deal Code ]', {
+        fontSize: '14px',
+        color: '#88ff88',
+        fontFamily: FONT_FAMILY,
+      })
+      .setOrigin(1, 0.5)
+      .setInteractive({ useHandCursor: true });
+
+    btn.on('pointerover', () => btn.setColor('#aaffaa'));
+    btn.on('pointerout', () => btn.setColor('#88ff88'));
+    btn.on('pointerdown', () => this.promptForDealCode());
+  }
+
+  private promptForDealCode(): void {
+    const input = window.prompt('Enter a deal code (leave empty for a random deal):');
+    if (input === null) return; // cancelled
+
+    if (input.trim() === '') {
+      this.pendingSeed = undefined;
+      this.subtitle.setText(SUBTITLE).setColor(SUBTITLE_COLOR);
+      return;
+    }
+
+    const seed = parseDealCode(input);
+    if (seed === undefined) {
+      this.subtitle
+        .setText(`"${input.trim()}" is not a deal code`)
+        .setColor(SUBTITLE_ERROR_COLOR);
+      return;
+    }
+
+    this.pendingSeed = seed;
+    this.subtitle
+      .setText(`Deal ${encodeDealCode(seed)} -- select a game to play it`)
+      .setColor(SUBTITLE_COLOR);
+  }
+
   // ── Adaptive grid layout ────────────────────────────────
 
   /**
@@ -183,15 +267,20 @@ export class GameSelectorScene extends Phaser.Scene {
       })
       .setOrigin(0.5);
 
+    const variants = entry.variants ?? [];
+    const hasVariants = variants.length > 1;
+
     // Crop description if it overflows the card body
-    const maxDescH = cardH - 80; // leave room for title + play button
+    // leave room for title + play button (and the rules toggle)
+    const maxDescH = cardH - (hasVariants ? 100 : 80);
     if (desc.height > maxDescH) {
       desc.setCrop(0, 0, desc.width, maxDescH);
     }
 
-    // Play button
+    // Play button, shifted left to make room for Resume
+    const canResume = entry.saveKey !== undefined && this.savedGames.has(entry.saveKey);
     const playBtn = this.add
-      .text(x, y + cardH / 2 - 22, '[ Play ]', {
+      .text(canResume ? x - 60 : x, y + cardH / 2 - 22, '[ Play ]', {
         fontSize: '14px',
         color: '#88ff88',
         fontFamily: FONT_FAMILY,
@@ -218,8 +307,52 @@ export class GameSelectorScene extends Phaser.Scene {
       playBtn.setColor('#88ff88');
     });
 
+    // Rules toggle, above the hit zone so it takes the click
+    let variantIndex = 0;
+    if (hasVariants) {
+      const rulesBtn = this.add
+        .text(x, y + cardH / 2 - 44, rulesLabel(variants[0]), {
+          fontSize: '11px',
+          color: '#aaddaa',
+          fontFamily: FONT_FAMILY,
+        })
+        .setOrigin(0.5)
+        .setInteractive({ useHandCursor: true });
+
+      rulesBtn.on('pointerover', () => rulesBtn.setColor('#aaffaa'));
+      rulesBtn.on('pointerout', () => rulesBtn.setColor('#aaddaa'));
+      rulesBtn.on('pointerdown', () => {
+        variantIndex = (variantIndex + 1) % variants.length;
+        rulesBtn.setText(rulesLabel(variants[variantIndex]));
+      });
+    }
+
+    // Resume button, above the hit zone so it takes the click
+    if (canResume) {
+      const resumeBtn = this.add
+        .text(x + 60, y + cardH / 2 - 22, '[ Resume ]', {
+          fontSize: '14px',
+          color: '#88ff88',
+          fontFamily: FONT_FAMILY,
+          fontStyle: 'bold',
+        })
+        .setOrigin(0.5)
+        .setInteractive({ useHandCursor: true });
+
+      resumeBtn.on('pointerover', () => resumeBtn.setColor('#ffffff'));
+      resumeBtn.on('pointerout', () => resumeBtn.setColor('#88ff88'));
+      resumeBtn.on('pointerdown', () => {
+        const data: ResumeSceneData = { resume: true };
+        this.scene.start(entry.sceneKey, data);
+      });
+    }
+
     hitZone.on('pointerdown', () => {
-      this.scene.start(entry.sceneKey);
+      const data: SeedSceneData & VariantSceneData = {
+        seed: this.pendingSeed,
+        variant: variants[variantIndex]?.name,
+      };
+      this.scene.start(entry.sceneKey, data);
     });
   }
 
@@ -241,3 +374,8 @@ export class GameSelectorScene extends Phaser.Scene {
     graphics.strokeRoundedRect(left, top, cardW, cardH, CARD_RADIUS);
   }
 }
+
+/** Text of a card's rules toggle, e.g. `'[ Rules: Standard ]'`. */
+function rulesLabel(preset: VariantPresetEntry): string {
+  return `[ Rules: ${preset.label} ]`;
+}
@@ -72,3 +72,14 @@ export type {
   SceneMenuButtonConfig,
   SceneHeaderResult,
 } from './SceneHeader';
+
+// Deal code HUD label
+export {
+  createDealCodeLabel,
+  dealCodeText,
+  DEAL_CODE_LABEL_X,
+  DEAL_CODE_LABEL_Y,
+  DEAL_CODE_LABEL_FONT_SIZE,
+  DEAL_CODE_LABEL_COLOR,
+} from './DealCodeLabel';
+export type { DealCodeLabelConfig } from './DealCodeLabel';
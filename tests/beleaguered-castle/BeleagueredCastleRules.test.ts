@@ -13,12 +13,21 @@ import {
   rankValue,
   nextRank,
   foundationIndex,
-  createSeededRng,
   findSafeAutoMoves,
   foundationTopRank,
   isTriviallyWinnable,
   getAutoCompleteMoves,
+  validateMove,
+  validateSequenceMove,
+  sequenceCapacity,
+  movableRunAt,
+  BeleagueredCastleRuleSet,
+  formatBCLayout,
+  parseBCLayout,
+  BeleagueredCastleCardConservation,
 } from '../../example-games/beleaguered-castle/BeleagueredCastleRules';
+import { assertCardUniverse } from '../../src/rule-engine/CardConservation';
+import { applyChecked } from '../../src/rule-engine/RuleSet';
 import {
   FOUNDATION_COUNT,
   TABLEAU_COUNT,
@@ -26,6 +35,7 @@ import {
   FOUNDATION_SUITS,
 } from '../../example-games/beleaguered-castle/BeleagueredCastleState';
 import type { BeleagueredCastleState } from '../../example-games/beleaguered-castle/BeleagueredCastleState';
+import { STANDARD_BELEAGUERED_CASTLE_VARIANT } from '../../example-games/beleaguered-castle/BeleagueredCastleVariants';
 import { Pile } from '../../src/card-system/Pile';
 import { createCard } from '../../src/card-system/Card';
 import type { Card } from '../../src/card-system/Card';
@@ -49,6 +59,7 @@ function testState(
     foundations,
     tableau,
     seed: 0,
+    variant: STANDARD_BELEAGUERED_CASTLE_VARIANT,
     moveCount: 0,
   };
 }
@@ -84,33 +95,6 @@ describe('Rank utilities', () => {
   });
 });
 
-describe('createSeededRng', () => {
-  it('should produce deterministic sequences', () => {
-    const rng1 = createSeededRng(42);
-    const rng2 = createSeededRng(42);
-    const seq1 = Array.from({ length: 10 }, () => rng1());
-    const seq2 = Array.from({ length: 10 }, () => rng2());
-    expect(seq1).toEqual(seq2);
-  });
-
-  it('should produce different sequences for different seeds', () => {
-    const rng1 = createSeededRng(42);
-    const rng2 = createSeededRng(99);
-    const seq1 = Array.from({ length: 10 }, () => rng1());
-    const seq2 = Array.from({ length: 10 }, () => rng2());
-    expect(seq1).not.toEqual(seq2);
-  });
-
-  it('should return values in [0, 1)', () => {
-    const rng = createSeededRng(123);
-    for (let i = 0; i < 100; i++) {
-      const val = rng();
-      expect(val).toBeGreaterThanOrEqual(0);
-      expect(val).toBeLessThan(1);
-    }
-  });
-});
-
 describe('deal', () => {
   it('should place 4 aces on foundations', () => {
     const state = deal(42);
@@ -207,6 +191,49 @@ describe('deal', () => {
     const state = deal(42);
     expect(state.moveCount).toBe(0);
   });
+
+  it('should record the standard variant by default', () => {
+    expect(deal(42).variant).toEqual(STANDARD_BELEAGUERED_CASTLE_VARIANT);
+  });
+
+  it('should deal all 52 cards to the tableau in Streets and Alleys', () => {
+    const state = deal(42, { acesOnFoundations: false });
+    expect(state.variant.acesOnFoundations).toBe(false);
+    expect(state.foundations.every((f) => f.size() === 0)).toBe(true);
+    expect(state.tableau.map((col) => col.size())).toEqual([7, 7, 7, 7, 6, 6, 6, 6]);
+    expect(() => assertCardUniverse(BeleagueredCastleCardConservation, state)).not.toThrow();
+  });
+});
+
+describe('layout notation', () => {
+  it('should round-trip a dealt board', () => {
+    const state = deal(42);
+    const text = formatBCLayout(state);
+    const parsed = parseBCLayout(text, 42);
+    expect(formatBCLayout(parsed)).toBe(text);
+    expect(parsed.tableau.map((p) => p.toArray())).toEqual(
+      state.tableau.map((p) => p.toArray()),
+    );
+    expect(parsed.seed).toBe(42);
+  });
+
+  it('should describe a position in one line', () => {
+    const state = parseBCLayout(
+      'AC 2C | AD | AH | AS / 3C | KS QH | - | - | - | - | - | 5D',
+    );
+    expect(state.foundations[0].size()).toBe(2);
+    expect(state.tableau[1].peek()).toEqual(createCard('Q', 'hearts', true));
+    expect(isLegalFoundationMove(state, 0, 0)).toBe(true);
+  });
+
+  it('should reject layouts with the wrong number of piles', () => {
+    expect(() => parseBCLayout('AC | AD | AH | AS / KS')).toThrow(
+      'Layout must have 4 foundations and 8 columns',
+    );
+    expect(() => parseBCLayout('AC | AD | AH | AS')).toThrow(
+      'Layout must have 4 foundations and 8 columns',
+    );
+  });
 });
 
 describe('isLegalFoundationMove', () => {
@@ -577,6 +604,169 @@ describe('undoMove', () => {
   });
 });
 
+describe('validateMove', () => {
+  const aces = () => [
+    [card('A', 'clubs')],
+    [card('A', 'diamonds')],
+    [card('A', 'hearts')],
+    [card('A', 'spades')],
+  ];
+
+  it('should accept a legal move', () => {
+    const state = testState(aces(), [[card('2', 'clubs')], [], [], [], [], [], [], []]);
+    expect(
+      validateMove(state, { kind: 'tableau-to-foundation', fromCol: 0, toFoundation: 0 }),
+    ).toEqual({ valid: true });
+  });
+
+  it('should report WRONG_SUIT for a foundation of another suit', () => {
+    const state = testState(aces(), [[card('2', 'clubs')], [], [], [], [], [], [], []]);
+    const result = validateMove(state, {
+      kind: 'tableau-to-foundation',
+      fromCol: 0,
+      toFoundation: 1,
+    });
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.code).toBe('WRONG_SUIT');
+  });
+
+  it('should report WRONG_RANK for a non-descending tableau build', () => {
+    const state = testState(aces(), [[card('5', 'hearts')], [card('9', 'clubs')], [], [], [], [], [], []]);
+    const result = validateMove(state, { kind: 'tableau-to-tableau', fromCol: 0, toCol: 1 });
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.code).toBe('WRONG_RANK');
+  });
+
+  it('should report EMPTY_SOURCE, SAME_COLUMN and COLUMN_OUT_OF_RANGE', () => {
+    const state = testState(aces(), [[card('5', 'hearts')], [], [], [], [], [], [], []]);
+    const codes = [
+      validateMove(state, { kind: 'tableau-to-tableau', fromCol: 1, toCol: 0 }),
+      validateMove(state, { kind: 'tableau-to-tableau', fromCol: 0, toCol: 0 }),
+      validateMove(state, { kind: 'tableau-to-tableau', fromCol: 0, toCol: 8 }),
+    ].map((r) => (r.valid ? 'VALID' : r.code));
+    expect(codes).toEqual(['EMPTY_SOURCE', 'SAME_COLUMN', 'COLUMN_OUT_OF_RANGE']);
+  });
+});
+
+describe('sequence moves', () => {
+  const aces = () => [
+    [card('A', 'clubs')],
+    [card('A', 'diamonds')],
+    [card('A', 'hearts')],
+    [card('A', 'spades')],
+  ];
+
+  /** Column 0 holds a 9-8-7 run on a King; column 1 has a 10. */
+  function runState(emptyColumns: number): BeleagueredCastleState {
+    const filler = [card('3', 'hearts'), card('3', 'spades'), card('3', 'diamonds'), card('4', 'clubs'), card('4', 'hearts'), card('4', 'spades')];
+    const tableau: Card[][] = [
+      [card('K', 'clubs'), card('9', 'hearts'), card('8', 'spades'), card('7', 'hearts')],
+      [card('10', 'diamonds')],
+    ];
+    for (let col = 2; col < TABLEAU_COUNT; col++) {
+      tableau.push(col - 2 < emptyColumns ? [] : [filler[col - 2]]);
+    }
+    return testState(aces(), tableau);
+  }
+
+  it('should measure the descending run at the top of a column', () => {
+    expect(movableRunAt(runState(0), 0)).toBe(3);
+    expect(movableRunAt(runState(0), 1)).toBe(1);
+    expect(movableRunAt(runState(1), 2)).toBe(0);
+  });
+
+  it('should double capacity for each empty column, excluding the target', () => {
+    expect(sequenceCapacity(runState(0), 0, 1)).toBe(1);
+    expect(sequenceCapacity(runState(1), 0, 1)).toBe(2);
+    expect(sequenceCapacity(runState(2), 0, 1)).toBe(4);
+    // Moving into one of the two empty columns leaves only one spare
+    expect(sequenceCapacity(runState(2), 0, 2)).toBe(2);
+  });
+
+  it('should reject runs that exceed capacity', () => {
+    const result = validateSequenceMove(runState(1), 0, 1, 3);
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.code).toBe('CAPACITY_EXCEEDED');
+  });
+
+  it('should reject a count that is not a run or is too small', () => {
+    const state = runState(2);
+    const notRun = validateSequenceMove(state, 0, 1, 4);
+    const tooSmall = validateSequenceMove(state, 0, 1, 1);
+    expect(notRun.valid ? 'VALID' : notRun.code).toBe('NOT_A_RUN');
+    expect(tooSmall.valid ? 'VALID' : tooSmall.code).toBe('INVALID_COUNT');
+  });
+
+  it('should reject a run whose bottom card does not fit the target', () => {
+    const state = runState(2);
+    // 8-7 onto the 10 of diamonds is not a one-rank step
+    const result = validateSequenceMove(state, 0, 1, 2);
+    expect(result.valid ? 'VALID' : result.code).toBe('WRONG_RANK');
+  });
+
+  it('should apply and undo a run move as a single move', () => {
+    const state = runState(2);
+    const move = { kind: 'tableau-sequence' as const, fromCol: 0, toCol: 1, count: 3 };
+    expect(validateMove(state, move).valid).toBe(true);
+
+    const moved = applyMove(state, move);
+    expect(moved.rank).toBe('9');
+    expect(state.tableau[0].toArray().map((c) => c.rank)).toEqual(['K']);
+    expect(state.tableau[1].toArray().map((c) => c.rank)).toEqual(['10', '9', '8', '7']);
+    expect(state.moveCount).toBe(1);
+
+    undoMove(state, move);
+    expect(state.tableau[0].toArray().map((c) => c.rank)).toEqual(['K', '9', '8', '7']);
+    expect(state.tableau[1].toArray().map((c) => c.rank)).toEqual(['10']);
+    expect(state.moveCount).toBe(0);
+  });
+
+  it('should throw when applying an illegal run move', () => {
+    const state = runState(0);
+    expect(() =>
+      applyMove(state, { kind: 'tableau-sequence', fromCol: 0, toCol: 1, count: 3 }),
+    ).toThrow('Illegal sequence move');
+  });
+
+  it('should include run moves in getLegalMoves', () => {
+    const moves = getLegalMoves(runState(2));
+    expect(moves).toContainEqual({ kind: 'tableau-sequence', fromCol: 0, toCol: 1, count: 3 });
+    // Run of 2 into an empty column: capacity 2 (one other empty column)
+    expect(moves).toContainEqual({ kind: 'tableau-sequence', fromCol: 0, toCol: 2, count: 2 });
+    expect(moves).not.toContainEqual({ kind: 'tableau-sequence', fromCol: 0, toCol: 2, count: 3 });
+  });
+});
+
+describe('BeleagueredCastleRuleSet', () => {
+  it('should enumerate the same moves as getLegalMoves', () => {
+    const state = deal(42);
+    expect(BeleagueredCastleRuleSet.enumerateMoves(state)).toEqual(getLegalMoves(state));
+  });
+
+  it('should validate every enumerated move as legal', () => {
+    const state = deal(7);
+    for (const move of BeleagueredCastleRuleSet.enumerateMoves(state)) {
+      expect(BeleagueredCastleRuleSet.validate(state, move).valid).toBe(true);
+    }
+  });
+
+  it('should apply and undo a move via the rule set', () => {
+    const state = testState(
+      [[card('A', 'clubs')], [card('A', 'diamonds')], [card('A', 'hearts')], [card('A', 'spades')]],
+      [[card('5', 'hearts')], [card('6', 'clubs')], [], [], [], [], [], []],
+    );
+    const move = { kind: 'tableau-to-tableau' as const, fromCol: 0, toCol: 1 };
+    const moved = applyChecked(BeleagueredCastleRuleSet, state, move);
+    expect(moved.rank).toBe('5');
+    expect(state.tableau[1].size()).toBe(2);
+
+    BeleagueredCastleRuleSet.undo(state, move, moved);
+    expect(state.tableau[0].peek()!.rank).toBe('5');
+    expect(state.tableau[1].size()).toBe(1);
+    expect(state.moveCount).toBe(0);
+  });
+});
+
 describe('isWon', () => {
   it('should return false when not all cards are on foundations', () => {
     const state = deal(42);
@@ -594,6 +784,7 @@ describe('isWon', () => {
       foundations,
       tableau: Array.from({ length: 8 }, () => new Pile()),
       seed: 0,
+      variant: STANDARD_BELEAGUERED_CASTLE_VARIANT,
       moveCount: 48,
     };
     expect(isWon(state)).toBe(true);
@@ -1232,3 +1423,19 @@ describe('getAutoCompleteMoves', () => {
     expect(state.foundations[0].size()).toBe(originalFoundationSize);
   });
 });
+
+describe('BeleagueredCastleCardConservation', () => {
+  it('should account for the whole deck after the deal', () => {
+    expect(() =>
+      assertCardUniverse(BeleagueredCastleCardConservation, deal(7)),
+    ).not.toThrow();
+  });
+
+  it('should report a lost card by location', () => {
+    const state = deal(7);
+    state.tableau[0].pop();
+    expect(() =>
+      assertCardUniverse(BeleagueredCastleCardConservation, state),
+    ).toThrow(/Beleaguered Castle cards do not match the card universe: missing /);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deal,
+  applyMove,
+  undoMove,
+  getLegalMoves,
+  formatBCLayout,
+} from '../../example-games/beleaguered-castle/BeleagueredCastleRules';
+import {
+  serializeBCState,
+  deserializeBCState,
+} from '../../example-games/beleaguered-castle/BeleagueredCastleSave';
+import type { SavedBCState } from '../../example-games/beleaguered-castle/BeleagueredCastleSave';
+import type { BCMove } from '../../example-games/beleaguered-castle/BeleagueredCastleState';
+import { viaJson, withoutConservationChecks } from '../helpers/saves';
+
+describe('BeleagueredCastleSave', () => {
+  it('round-trips a game in progress', () => {
+    const state = deal(42);
+    const moves: BCMove[] = [];
+    for (let i = 0; i < 5; i++) {
+      const [move] = getLegalMoves(state);
+      if (!move) break;
+      applyMove(state, move);
+      moves.push(move);
+    }
+
+    const restored = deserializeBCState(viaJson(serializeBCState(state)));
+
+    expect(formatBCLayout(restored)).toBe(formatBCLayout(state));
+    expect(restored.moveCount).toBe(state.moveCount);
+    expect(restored.seed).toBe(42);
+
+    // Saved moves can be undone against the restored board
+    for (let i = moves.length - 1; i >= 0; i--) undoMove(restored, moves[i]);
+    expect(formatBCLayout(restored)).toBe(formatBCLayout(deal(42)));
+  });
+
+  it('keeps the variant', () => {
+    const state = deal(7, { acesOnFoundations: false });
+    const restored = deserializeBCState(viaJson(serializeBCState(state)));
+
+    expect(restored.variant).toEqual({ acesOnFoundations: false });
+    expect(formatBCLayout(restored)).toBe(formatBCLayout(state));
+  });
+
+  it('rejects a save with a missing card or column', () => {
+    const missingCard: SavedBCState = viaJson(serializeBCState(deal(1)));
+    missingCard.tableau[0].pop();
+    expect(() => deserializeBCState(missingCard)).toThrow();
+
+    const missingColumn: SavedBCState = viaJson(serializeBCState(deal(1)));
+    missingColumn.tableau.pop();
+    expect(() => deserializeBCState(missingColumn)).toThrow(
+      'Expected 4 foundations and 8 columns, got 4 and 7',
+    );
+  });
+
+  it('rejects a corrupt save even in a build without conservation checks', () => {
+    const saved: SavedBCState = viaJson(serializeBCState(deal(1)));
+    saved.tableau[1][0] = saved.tableau[0][0];
+
+    withoutConservationChecks(() => {
+      expect(() => deserializeBCState(saved)).toThrow(
+        'cards do not match the card universe',
+      );
+    });
+  });
+});
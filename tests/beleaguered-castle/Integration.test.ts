@@ -31,10 +31,15 @@ import {
 } from '../../example-games/beleaguered-castle/BeleagueredCastleState';
 import {
   BCTranscriptRecorder,
+  migrateBCTranscriptV1,
   snapshotBoard,
   snapshotCard,
 } from '../../example-games/beleaguered-castle/GameTranscript';
-import type { BCGameTranscript } from '../../example-games/beleaguered-castle/GameTranscript';
+import type {
+  BCGameTranscript,
+  BCGameTranscriptV1,
+} from '../../example-games/beleaguered-castle/GameTranscript';
+import { STANDARD_BELEAGUERED_CASTLE_VARIANT } from '../../example-games/beleaguered-castle/BeleagueredCastleVariants';
 
 // ── Helpers ─────────────────────────────────────────────────
 
@@ -505,9 +510,10 @@ describe('Integration: Transcript recording', () => {
   it('creates a valid transcript structure', () => {
     const { transcript } = playGameWithTranscript(42);
 
-    expect(transcript.version).toBe(1);
-    expect(transcript.game).toBe('beleaguered-castle');
+    expect(transcript.version).toBe(2);
+    expect(transcript.gameType).toBe('beleaguered-castle');
     expect(transcript.seed).toBe(42);
+    expect(transcript.players).toEqual([{ name: 'Player', isAI: false }]);
     expect(transcript.startedAt).toBeTruthy();
     expect(transcript.endedAt).toBeTruthy();
     expect(transcript.result).not.toBeNull();
@@ -517,49 +523,52 @@ describe('Integration: Transcript recording', () => {
     const { transcript } = playGameWithTranscript(42);
 
     // Initial state should have 4 foundations with 1 card each (aces)
-    expect(transcript.initialState.foundations).toHaveLength(4);
+    const initial = transcript.initialSnapshot!;
+    expect(initial.foundations).toHaveLength(4);
     for (let fi = 0; fi < FOUNDATION_COUNT; fi++) {
-      expect(transcript.initialState.foundations[fi].size).toBe(1);
-      expect(transcript.initialState.foundations[fi].topRank).toBe('A');
-      expect(transcript.initialState.foundations[fi].suit).toBe(
-        FOUNDATION_SUITS[fi],
-      );
+      expect(initial.foundations[fi].size).toBe(1);
+      expect(initial.foundations[fi].topRank).toBe('A');
+      expect(initial.foundations[fi].suit).toBe(FOUNDATION_SUITS[fi]);
     }
 
     // 8 columns with 6 cards each
-    expect(transcript.initialState.tableau).toHaveLength(8);
+    expect(initial.tableau).toHaveLength(8);
     for (let col = 0; col < TABLEAU_COUNT; col++) {
-      expect(transcript.initialState.tableau[col].cards).toHaveLength(6);
+      expect(initial.tableau[col].cards).toHaveLength(6);
     }
   });
 
   it('records moves in order', () => {
     const { transcript } = playGameWithTranscript(42);
 
-    expect(transcript.moves.length).toBeGreaterThan(0);
+    expect(transcript.actions.length).toBeGreaterThan(0);
 
     // All entries should have valid kinds
-    for (const entry of transcript.moves) {
+    for (const { action } of transcript.actions) {
       expect(['player-move', 'auto-move', 'undo', 'redo']).toContain(
-        entry.kind,
+        action.kind,
       );
     }
 
     // First entry should be a player move
-    expect(transcript.moves[0].kind).toBe('player-move');
+    expect(transcript.actions[0].action.kind).toBe('player-move');
+    expect(transcript.actions[0].playerIndex).toBe(0);
   });
 
   it('records auto-moves after player moves', () => {
     const { transcript } = playGameWithTranscript(42);
 
     // Check if any auto-moves are recorded
-    const autoMoves = transcript.moves.filter((m) => m.kind === 'auto-move');
+    const autoMoves = transcript.actions.filter((a) => a.action.kind === 'auto-move');
     // Auto-moves may or may not exist depending on the game state,
     // but the structure should be valid
-    for (const am of autoMoves) {
-      expect(am.kind).toBe('auto-move');
-      expect(am.move).toBeDefined();
-      expect(am.move.kind).toBe('tableau-to-foundation');
+    for (const { playerIndex, action } of autoMoves) {
+      // The engine makes auto-moves, not the player
+      expect(playerIndex).toBeNull();
+      expect(action.kind).toBe('auto-move');
+      if (action.kind !== 'auto-move') continue;
+      expect(action.move).toBeDefined();
+      expect(action.move.kind).toBe('tableau-to-foundation');
     }
   });
 
@@ -581,11 +590,11 @@ describe('Integration: Transcript recording', () => {
     const json = JSON.stringify(transcript);
     const parsed = JSON.parse(json);
 
-    expect(parsed.version).toBe(1);
-    expect(parsed.game).toBe('beleaguered-castle');
+    expect(parsed.version).toBe(2);
+    expect(parsed.gameType).toBe('beleaguered-castle');
     expect(parsed.seed).toBe(42);
-    expect(parsed.initialState).toBeDefined();
-    expect(parsed.moves).toBeInstanceOf(Array);
+    expect(parsed.initialSnapshot).toBeDefined();
+    expect(parsed.actions).toBeInstanceOf(Array);
     expect(parsed.result).toBeDefined();
   });
 
@@ -594,10 +603,30 @@ describe('Integration: Transcript recording', () => {
     const { transcript: t2 } = playGameWithTranscript(42);
 
     // Same seed + same strategy = same game = same transcript
-    expect(t1.moves.length).toBe(t2.moves.length);
+    expect(t1.actions.length).toBe(t2.actions.length);
     expect(t1.result!.outcome).toBe(t2.result!.outcome);
     expect(t1.result!.moveCount).toBe(t2.result!.moveCount);
-    expect(t1.initialState).toEqual(t2.initialState);
+    expect(t1.initialSnapshot).toEqual(t2.initialSnapshot);
+  });
+
+  it('upgrades version 1 transcripts', () => {
+    const { transcript } = playGameWithTranscript(42);
+    const v1: BCGameTranscriptV1 = {
+      version: 1,
+      game: 'beleaguered-castle',
+      seed: transcript.seed!,
+      startedAt: transcript.startedAt,
+      endedAt: transcript.endedAt,
+      initialState: transcript.initialSnapshot!,
+      moves: transcript.actions.map((a) => a.action),
+      result: transcript.result,
+    };
+
+    // Recorded before variants existed: classic rules
+    expect(migrateBCTranscriptV1(v1)).toEqual({
+      ...transcript,
+      variant: STANDARD_BELEAGUERED_CASTLE_VARIANT,
+    });
   });
 });
 
@@ -1,6 +1,16 @@
 import { describe, it, expect } from 'vitest';
 import {
   createCard,
+  cardId,
+  createJoker,
+  isJoker,
+  jokerColor,
+  suitColor,
+  suitsOfColor,
+  cardColor,
+  isRed,
+  isBlack,
+  JOKER_RANK,
   RANKS,
   SUITS,
 } from '../../src/card-system/Card';
@@ -41,4 +51,77 @@ describe('Card', () => {
     expect(SUITS).toContain('hearts');
     expect(SUITS).toContain('spades');
   });
+
+  it('should not include Joker among the natural ranks', () => {
+    expect(RANKS).not.toContain(JOKER_RANK);
+  });
+
+  it('should omit deckIndex unless one is given', () => {
+    expect('deckIndex' in createCard('A', 'spades')).toBe(false);
+    expect(createCard('A', 'spades', false, 2).deckIndex).toBe(2);
+  });
+});
+
+describe('Card ids', () => {
+  it('should assign deterministic ids from rank, suit and deck', () => {
+    expect(createCard('A', 'clubs').id).toBe(0);
+    expect(createCard('K', 'spades').id).toBe(51);
+    expect(createJoker('black').id).toBe(52);
+    expect(createJoker('red').id).toBe(53);
+    expect(createCard('A', 'clubs', false, 1).id).toBe(54);
+    expect(cardId('Q', 'spades', 1)).toBe(104);
+  });
+
+  it('should keep the id when a card is flipped', () => {
+    const card = createCard('7', 'hearts');
+    const id = card.id;
+    card.faceUp = true;
+    expect(card.id).toBe(id);
+  });
+});
+
+describe('Jokers', () => {
+  it('should create black and red jokers', () => {
+    const black = createJoker('black');
+    const red = createJoker('red', true);
+    expect(black.rank).toBe('Joker');
+    expect(black.suit).toBe('spades');
+    expect(black.faceUp).toBe(false);
+    expect(red.suit).toBe('hearts');
+    expect(red.faceUp).toBe(true);
+  });
+
+  it('should identify jokers', () => {
+    expect(isJoker(createJoker('red'))).toBe(true);
+    expect(isJoker(createCard('K', 'hearts'))).toBe(false);
+  });
+
+  it('should report joker colour', () => {
+    expect(jokerColor(createJoker('black'))).toBe('black');
+    expect(jokerColor(createJoker('red'))).toBe('red');
+  });
+
+  it('should throw when asking a natural card for its joker colour', () => {
+    expect(() => jokerColor(createCard('Q', 'spades'))).toThrow(
+      'Q of spades is not a joker',
+    );
+  });
+});
+
+describe('Colours', () => {
+  it('should colour diamonds and hearts red, clubs and spades black', () => {
+    expect(suitColor('diamonds')).toBe('red');
+    expect(suitColor('hearts')).toBe('red');
+    expect(suitColor('clubs')).toBe('black');
+    expect(suitColor('spades')).toBe('black');
+    expect(suitsOfColor('red')).toEqual(['diamonds', 'hearts']);
+    expect(suitsOfColor('black')).toEqual(['clubs', 'spades']);
+  });
+
+  it('should colour cards and jokers', () => {
+    expect(cardColor(createCard('7', 'hearts'))).toBe('red');
+    expect(isRed(createJoker('red'))).toBe(true);
+    expect(isBlack(createJoker('black'))).toBe(true);
+    expect(isBlack(createCard('Q', 'diamonds'))).toBe(false);
+  });
 });
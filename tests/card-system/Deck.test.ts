@@ -1,12 +1,27 @@
 import { describe, it, expect } from 'vitest';
 import {
   createStandardDeck,
+  createPiquetDeck,
+  createPinochleDeck,
   createDeckFrom,
+  buildDeck,
+  compositionSize,
   shuffle,
   draw,
   drawOrThrow,
 } from '../../src/card-system/Deck';
 import type { Card } from '../../src/card-system/Card';
+import type { DeckComposition } from '../../src/card-system/Deck';
+
+interface TokenCard {
+  readonly id: number;
+  readonly kind: 'maki' | 'nigiri';
+}
+
+const TOKEN_COMPOSITION: DeckComposition<TokenCard> = [
+  { count: 3, factory: (id) => ({ id, kind: 'maki' }) },
+  { count: 2, factory: (id) => ({ id, kind: 'nigiri' }) },
+];
 
 describe('Deck', () => {
   describe('createStandardDeck', () => {
@@ -45,6 +60,67 @@ describe('Deck', () => {
     });
   });
 
+  describe('createStandardDeck options', () => {
+    it('should add jokers at the end of the deck', () => {
+      const deck = createStandardDeck({ jokers: 2 });
+      expect(deck).toHaveLength(54);
+      expect(deck.slice(52).map((c) => `${c.rank}-${c.suit}`)).toEqual([
+        'Joker-spades',
+        'Joker-hearts',
+      ]);
+    });
+
+    it('should build a multi-deck shoe with per-copy deckIndex', () => {
+      const shoe = createStandardDeck({ decks: 2, jokers: 1 });
+      expect(shoe).toHaveLength(106);
+      const queens = shoe.filter((c) => c.rank === 'Q' && c.suit === 'spades');
+      expect(queens.map((c) => c.deckIndex)).toEqual([0, 1]);
+    });
+
+    it('should give every card in a shoe a distinct id', () => {
+      const shoe = createStandardDeck({ decks: 3, jokers: 2 });
+      expect(new Set(shoe.map((c) => c.id)).size).toBe(shoe.length);
+    });
+
+    it('should leave deckIndex off single-deck cards', () => {
+      expect(createStandardDeck().every((c) => c.deckIndex === undefined)).toBe(true);
+    });
+
+    it('should restrict ranks and suits', () => {
+      const deck = createStandardDeck({ ranks: ['A', 'K'], suits: ['hearts'] });
+      expect(deck.map((c) => c.rank)).toEqual(['A', 'K']);
+    });
+
+    it('should reject invalid deck and joker counts', () => {
+      expect(() => createStandardDeck({ decks: 0 })).toThrow(
+        'Deck count must be a positive integer',
+      );
+      expect(() => createStandardDeck({ decks: 1.5 })).toThrow(
+        'Deck count must be a positive integer',
+      );
+      expect(() => createStandardDeck({ jokers: 3 })).toThrow(
+        'Jokers per deck must be between 0 and 2',
+      );
+    });
+  });
+
+  describe('short decks', () => {
+    it('should create a 32-card piquet deck', () => {
+      const deck = createPiquetDeck();
+      expect(deck).toHaveLength(32);
+      expect(deck.some((c) => c.rank === '6')).toBe(false);
+      expect(deck.some((c) => c.rank === '7')).toBe(true);
+    });
+
+    it('should create a 48-card pinochle deck of two copies', () => {
+      const deck = createPinochleDeck();
+      expect(deck).toHaveLength(48);
+      expect(deck.some((c) => c.rank === '8')).toBe(false);
+      const aces = deck.filter((c) => c.rank === 'A' && c.suit === 'spades');
+      expect(aces.map((c) => c.deckIndex)).toEqual([0, 1]);
+    });
+  });
+
   describe('createDeckFrom', () => {
     it('should create a deck from specific cards', () => {
       const deck = createDeckFrom([
@@ -165,4 +241,39 @@ describe('Deck', () => {
       );
     });
   });
+
+  describe('buildDeck', () => {
+    it('should build each entry in order with sequential ids', () => {
+      const deck = buildDeck(TOKEN_COMPOSITION);
+      expect(deck.map((c) => c.kind)).toEqual([
+        'maki', 'maki', 'maki', 'nigiri', 'nigiri',
+      ]);
+      expect(deck.map((c) => c.id)).toEqual([0, 1, 2, 3, 4]);
+      expect(compositionSize(TOKEN_COMPOSITION)).toBe(5);
+    });
+
+    it('should start ids at firstId', () => {
+      expect(buildDeck(TOKEN_COMPOSITION, 100)[0].id).toBe(100);
+    });
+
+    it('should reject invalid counts', () => {
+      expect(() =>
+        buildDeck([{ count: -1, factory: (id) => ({ id, kind: 'maki' }) }]),
+      ).toThrow('Card count must be a non-negative integer, got -1');
+    });
+
+    it('should reject factories that ignore the assigned id', () => {
+      expect(() =>
+        buildDeck([{ count: 2, factory: () => ({ id: 7, kind: 'maki' }) }]),
+      ).toThrow('Card factory returned id 7, expected 0');
+    });
+
+    it('should work with the generic shuffle and draw', () => {
+      const deck = shuffle(buildDeck(TOKEN_COMPOSITION), () => 0);
+      expect(deck).toHaveLength(5);
+      const top: TokenCard = drawOrThrow(deck);
+      expect(deck).toHaveLength(4);
+      expect(deck.map((c) => c.id)).not.toContain(top.id);
+    });
+  });
 });
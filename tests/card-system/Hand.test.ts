@@ -0,0 +1,245 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Hand, compareBySuit, compareByRank } from '../../src/card-system/Hand';
+import type { HandChange } from '../../src/card-system/Hand';
+import { createCard, createJoker } from '../../src/card-system/Card';
+import type { Card } from '../../src/card-system/Card';
+
+describe('Hand', () => {
+  const aceSpades = (): Card => createCard('A', 'spades');
+  const kingHearts = (): Card => createCard('K', 'hearts');
+  const fiveDiamonds = (): Card => createCard('5', 'diamonds');
+  const fiveClubs = (): Card => createCard('5', 'clubs');
+
+  const ranks = (hand: Hand): string[] =>
+    hand.toArray().map((c) => `${c.rank}${c.suit[0]}`);
+
+  describe('constructor', () => {
+    it('should create an empty hand by default', () => {
+      const hand = new Hand();
+      expect(hand.isEmpty()).toBe(true);
+      expect(hand.size()).toBe(0);
+    });
+
+    it('should keep the given order and not alias the source array', () => {
+      const source = [aceSpades(), kingHearts()];
+      const hand = new Hand(source);
+      hand.add(fiveDiamonds());
+      expect(source).toHaveLength(2);
+      expect(ranks(hand)).toEqual(['As', 'Kh', '5d']);
+    });
+
+    it('should reject duplicate ids', () => {
+      expect(() => new Hand([aceSpades(), aceSpades()])).toThrow(
+        `Card ${aceSpades().id} is already in the hand`,
+      );
+    });
+  });
+
+  describe('lookup', () => {
+    it('should find cards by id', () => {
+      const king = kingHearts();
+      const hand = new Hand([aceSpades(), king]);
+      expect(hand.has(king.id)).toBe(true);
+      expect(hand.get(king.id)).toBe(king);
+      expect(hand.indexOf(king.id)).toBe(1);
+      expect(hand.at(1)).toBe(king);
+      expect(hand.has(fiveDiamonds().id)).toBe(false);
+      expect(hand.get(fiveDiamonds().id)).toBeUndefined();
+      expect(hand.indexOf(fiveDiamonds().id)).toBe(-1);
+    });
+  });
+
+  describe('insertion and removal', () => {
+    it('should insert cards at a position', () => {
+      const hand = new Hand([aceSpades(), kingHearts()]);
+      hand.insertAt(1, fiveDiamonds(), fiveClubs());
+      expect(ranks(hand)).toEqual(['As', '5d', '5c', 'Kh']);
+    });
+
+    it('should reject an out-of-range index', () => {
+      const hand = new Hand([aceSpades()]);
+      expect(() => hand.insertAt(2, kingHearts())).toThrow(
+        'Cannot insert at index 2 of a hand of 1 cards',
+      );
+    });
+
+    it('should reject adding a card already in the hand', () => {
+      const hand = new Hand([aceSpades()]);
+      expect(() => hand.add(kingHearts(), aceSpades())).toThrow(
+        'is already in the hand',
+      );
+      expect(hand.size()).toBe(1);
+    });
+
+    it('should remove a card by id from anywhere in the hand', () => {
+      const king = kingHearts();
+      const hand = new Hand([aceSpades(), king, fiveDiamonds()]);
+      expect(hand.remove(king.id)).toBe(king);
+      expect(ranks(hand)).toEqual(['As', '5d']);
+    });
+
+    it('should remove several cards atomically', () => {
+      const hand = new Hand([aceSpades(), kingHearts(), fiveDiamonds()]);
+      const removed = hand.removeMany([fiveDiamonds().id, aceSpades().id]);
+      expect(removed.map((c) => c.rank)).toEqual(['A', '5']);
+      expect(ranks(hand)).toEqual(['Kh']);
+
+      expect(() => hand.removeMany([kingHearts().id, aceSpades().id])).toThrow(
+        `Card ${aceSpades().id} is not in the hand`,
+      );
+      expect(hand.size()).toBe(1);
+    });
+
+    it('should clear the hand', () => {
+      const hand = new Hand([aceSpades(), kingHearts()]);
+      expect(hand.clear()).toHaveLength(2);
+      expect(hand.isEmpty()).toBe(true);
+    });
+  });
+
+  describe('sorting', () => {
+    it('should sort by suit, then rank', () => {
+      const hand = new Hand([
+        kingHearts(),
+        createJoker('red'),
+        aceSpades(),
+        fiveDiamonds(),
+        createCard('2', 'hearts'),
+        fiveClubs(),
+      ]);
+      hand.sort(compareBySuit);
+      expect(ranks(hand)).toEqual(['5c', '5d', '2h', 'Kh', 'As', 'Jokerh']);
+    });
+
+    it('should sort by rank, then suit', () => {
+      const hand = new Hand([
+        createJoker('black'),
+        kingHearts(),
+        fiveDiamonds(),
+        aceSpades(),
+        fiveClubs(),
+      ]);
+      hand.sort(compareByRank);
+      expect(ranks(hand)).toEqual(['As', '5c', '5d', 'Kh', 'Jokers']);
+    });
+
+    it('should accept a custom comparator', () => {
+      const hand = new Hand([aceSpades(), fiveDiamonds(), kingHearts()]);
+      hand.sort((a, b) => compareByRank(b, a));
+      expect(ranks(hand)).toEqual(['Kh', '5d', 'As']);
+    });
+  });
+
+  describe('grouping', () => {
+    it('should group cards by key in hand order', () => {
+      const hand = new Hand([fiveDiamonds(), aceSpades(), fiveClubs()]);
+      const groups = hand.groupBy((c) => c.rank);
+      expect([...groups.keys()]).toEqual(['5', 'A']);
+      expect(groups.get('5')?.map((c) => c.suit)).toEqual(['diamonds', 'clubs']);
+    });
+  });
+
+  describe('selection', () => {
+    it('should track several selected cards in hand order', () => {
+      const hand = new Hand([aceSpades(), kingHearts(), fiveDiamonds()]);
+      hand.select(fiveDiamonds().id);
+      hand.select(aceSpades().id);
+      hand.select(aceSpades().id);
+      expect(hand.selectedCount()).toBe(2);
+      expect(hand.selected().map((c) => c.rank)).toEqual(['A', '5']);
+      expect(hand.isSelected(kingHearts().id)).toBe(false);
+    });
+
+    it('should toggle and clear the selection', () => {
+      const hand = new Hand([aceSpades(), kingHearts()]);
+      expect(hand.toggleSelected(aceSpades().id)).toBe(true);
+      expect(hand.toggleSelected(aceSpades().id)).toBe(false);
+      hand.select(kingHearts().id);
+      hand.clearSelection();
+      expect(hand.selectedCount()).toBe(0);
+    });
+
+    it('should refuse to select a card that is not in the hand', () => {
+      const hand = new Hand([aceSpades()]);
+      expect(() => hand.select(kingHearts().id)).toThrow(
+        `Card ${kingHearts().id} is not in the hand`,
+      );
+    });
+
+    it('should drop removed cards from the selection', () => {
+      const hand = new Hand([aceSpades(), kingHearts(), fiveDiamonds()]);
+      hand.select(aceSpades().id);
+      hand.select(fiveDiamonds().id);
+      const removed = hand.removeSelected();
+      expect(removed.map((c) => c.rank)).toEqual(['A', '5']);
+      expect(ranks(hand)).toEqual(['Kh']);
+      expect(hand.selectedCount()).toBe(0);
+
+      hand.add(aceSpades());
+      expect(hand.isSelected(aceSpades().id)).toBe(false);
+    });
+  });
+
+  describe('change notifications', () => {
+    it('should report each kind of change', () => {
+      const hand = new Hand([aceSpades()]);
+      const changes: HandChange<Card>[] = [];
+      hand.onChange((change) => changes.push(change));
+
+      hand.add(kingHearts());
+      hand.select(kingHearts().id);
+      hand.sort(compareBySuit);
+      hand.remove(aceSpades().id);
+
+      expect(changes.map((c) => c.kind)).toEqual([
+        'added',
+        'selection',
+        'sorted',
+        'removed',
+      ]);
+      expect(changes[0].cards.map((c) => c.rank)).toEqual(['K']);
+      expect(changes[2].cards).toHaveLength(2);
+      expect(changes[3].cards.map((c) => c.rank)).toEqual(['A']);
+    });
+
+    it('should not notify when nothing changes', () => {
+      const hand = new Hand([aceSpades()]);
+      const listener = vi.fn();
+      hand.onChange(listener);
+
+      hand.add();
+      hand.deselect(aceSpades().id);
+      hand.clearSelection();
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should stop notifying after unsubscribe', () => {
+      const hand = new Hand<Card>();
+      const listener = vi.fn();
+      const unsubscribe = hand.onChange(listener);
+      hand.add(aceSpades());
+      unsubscribe();
+      hand.add(kingHearts());
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('game-specific card types', () => {
+    interface TokenCard {
+      readonly id: number;
+      readonly kind: 'maki' | 'nigiri';
+    }
+
+    it('should hold any card type with an id', () => {
+      const hand = new Hand<TokenCard>([
+        { id: 3, kind: 'nigiri' },
+        { id: 1, kind: 'maki' },
+        { id: 2, kind: 'nigiri' },
+      ]);
+      hand.sort((a, b) => a.id - b.id);
+      expect(hand.toArray().map((c) => c.id)).toEqual([1, 2, 3]);
+      expect(hand.groupBy((c) => c.kind).get('nigiri')).toHaveLength(2);
+      expect(hand.remove(1).kind).toBe('maki');
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isSet,
+  isRun,
+  isFlush,
+  findSets,
+  findRuns,
+  findFlushes,
+  partitionMelds,
+} from '../../src/card-system/Melds';
+import { parseCards, parsePile, formatCards } from '../../src/card-system/Notation';
+import type { Card } from '../../src/card-system/Card';
+
+/** Format each group of cards for compact assertions. */
+const fmt = (groups: readonly (readonly Card[])[]): string[] => groups.map(formatCards);
+
+describe('Melds', () => {
+  describe('isSet', () => {
+    it('should accept cards of one rank', () => {
+      expect(isSet(parseCards('KS KH KD'))).toBe(true);
+      expect(isSet(parseCards('KS KH KD KC'))).toBe(true);
+    });
+
+    it('should reject mixed ranks and short sets', () => {
+      expect(isSet(parseCards('KS KH QD'))).toBe(false);
+      expect(isSet(parseCards('KS KH'))).toBe(false);
+      expect(isSet(parseCards('KS KH'), { minSize: 2 })).toBe(true);
+      expect(isSet([])).toBe(false);
+    });
+
+    it('should accept a Pile', () => {
+      expect(isSet(parsePile('7S 7H 7D'))).toBe(true);
+    });
+  });
+
+  describe('isRun', () => {
+    it('should accept consecutive same-suit cards in any order', () => {
+      expect(isRun(parseCards('5H 6H 7H'))).toBe(true);
+      expect(isRun(parseCards('7H 5H 6H'))).toBe(true);
+    });
+
+    it('should reject gaps, mixed suits and jokers', () => {
+      expect(isRun(parseCards('5H 6H 8H'))).toBe(false);
+      expect(isRun(parseCards('5H 6S 7H'))).toBe(false);
+      expect(isRun(parseCards('5H 6H RJ'))).toBe(false);
+    });
+
+    it('should place the Ace as configured', () => {
+      const low = parseCards('AS 2S 3S');
+      const high = parseCards('QS KS AS');
+      const wrap = parseCards('KS AS 2S');
+
+      expect(isRun(low)).toBe(true);
+      expect(isRun(high)).toBe(false);
+      expect(isRun(low, { ace: 'high' })).toBe(false);
+      expect(isRun(high, { ace: 'high' })).toBe(true);
+      expect(isRun(low, { ace: 'both' })).toBe(true);
+      expect(isRun(high, { ace: 'both' })).toBe(true);
+      expect(isRun(wrap, { ace: 'both' })).toBe(false);
+      expect(isRun(wrap, { wrap: true })).toBe(true);
+    });
+
+    it('should respect the minimum length', () => {
+      expect(isRun(parseCards('5H 6H'))).toBe(false);
+      expect(isRun(parseCards('5H 6H'), { minLength: 2 })).toBe(true);
+    });
+  });
+
+  describe('isFlush', () => {
+    it('should accept cards of one suit', () => {
+      expect(isFlush(parseCards('2D 7D 9D JD KD'))).toBe(true);
+      expect(isFlush(parseCards('2D 7D 9D JD KS'))).toBe(false);
+      expect(isFlush(parseCards('2D 7D'), 5)).toBe(false);
+    });
+  });
+
+  describe('findSets', () => {
+    it('should group ranks with enough cards', () => {
+      const sets = findSets(parseCards('KS 5H KD 5C KH 9S 5S'));
+      expect(fmt(sets)).toEqual(['KS KD KH', '5H 5C 5S']);
+    });
+  });
+
+  describe('findRuns', () => {
+    it('should find the maximal run in each suit', () => {
+      const runs = findRuns(parseCards('5H 9C 7H TC 6H 8H JC 2S'));
+      expect(fmt(runs)).toEqual(['9C TC JC', '5H 6H 7H 8H']);
+    });
+
+    it('should find runs at both ends with ace both', () => {
+      const cards = parseCards('AS 2S 3S QS KS');
+      expect(fmt(findRuns(cards))).toEqual(['AS 2S 3S']);
+      expect(fmt(findRuns(cards, { ace: 'both' }))).toEqual([
+        'AS 2S 3S',
+        'QS KS AS',
+      ]);
+      expect(fmt(findRuns(cards, { wrap: true }))).toEqual(['QS KS AS 2S 3S']);
+    });
+
+    it('should report a full suit once when wrapping', () => {
+      const suit = parseCards('AH 2H 3H 4H 5H 6H 7H 8H 9H TH JH QH KH');
+      expect(findRuns(suit, { wrap: true })).toHaveLength(1);
+    });
+  });
+
+  describe('findFlushes', () => {
+    it('should find suits with at least five cards', () => {
+      const flushes = findFlushes(parseCards('2D 7D 9D JD KD 3S 4S'));
+      expect(fmt(flushes)).toEqual(['2D 7D 9D JD KD']);
+      expect(findFlushes(parseCards('3S 4S 5S'), 3)).toHaveLength(1);
+    });
+  });
+
+  describe('partitionMelds', () => {
+    it('should split a hand into melds and deadwood', () => {
+      const result = partitionMelds(parseCards('7S 7H 7D 4C 5C 6C KH 2D'));
+      expect(result.melds.map((m) => m.kind).sort()).toEqual(['run', 'set']);
+      expect(formatCards(result.deadwood)).toBe('KH 2D');
+      expect(result.deadwoodValue).toBe(2);
+    });
+
+    it('should share a contested card where it saves the most deadwood', () => {
+      // 7H can join the set of sevens or the heart run; using it in the
+      // run and keeping the set at three melds every card.
+      const result = partitionMelds(parseCards('7S 7D 7C 7H 5H 6H'));
+      expect(result.deadwood).toHaveLength(0);
+      expect(fmt(result.melds.map((m) => m.cards)).sort()).toEqual([
+        '5H 6H 7H',
+        '7S 7D 7C',
+      ]);
+    });
+
+    it('should minimise the deadwood value, not the card count', () => {
+      const value = (card: Card): number => (card.rank === 'K' ? 10 : 1);
+      // Either meld the three Kings or the run through KS; the Kings
+      // carry the penalty, so they should be melded.
+      const cards = parseCards('KS KH KD JS QS');
+      expect(partitionMelds(cards).deadwood).toHaveLength(2);
+      const result = partitionMelds(cards, { deadwoodValue: value });
+      expect(formatCards(result.deadwood)).toBe('JS QS');
+      expect(result.deadwoodValue).toBe(2);
+    });
+
+    it('should honour run options', () => {
+      const cards = parseCards('QS KS AS');
+      expect(partitionMelds(cards).deadwood).toHaveLength(3);
+      expect(partitionMelds(cards, { runs: { ace: 'high' } }).deadwood).toHaveLength(0);
+    });
+
+    it('should leave everything as deadwood when nothing melds', () => {
+      const result = partitionMelds(parsePile('2S 9H KD'));
+      expect(result.melds).toHaveLength(0);
+      expect(result.deadwoodValue).toBe(3);
+    });
+  });
+});
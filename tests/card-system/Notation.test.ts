@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatCard,
+  parseCard,
+  formatCards,
+  parseCards,
+  formatPile,
+  parsePile,
+  formatPiles,
+  parsePiles,
+  formatRows,
+  parseRows,
+  formatLayout,
+  parseLayout,
+} from '../../src/card-system/Notation';
+import { createCard, createJoker } from '../../src/card-system/Card';
+import { createStandardDeck } from '../../src/card-system/Deck';
+import { Pile } from '../../src/card-system/Pile';
+
+describe('card notation', () => {
+  describe('parseCard', () => {
+    it('should parse rank and suit as a face-up card', () => {
+      expect(parseCard('AS')).toEqual(createCard('A', 'spades', true));
+      expect(parseCard('QD')).toEqual(createCard('Q', 'diamonds', true));
+    });
+
+    it('should accept T or 10 for tens', () => {
+      expect(parseCard('TH')).toEqual(createCard('10', 'hearts', true));
+      expect(parseCard('10H')).toEqual(createCard('10', 'hearts', true));
+    });
+
+    it('should be case-insensitive and ignore surrounding whitespace', () => {
+      expect(parseCard(' As ')).toEqual(createCard('A', 'spades', true));
+      expect(parseCard('kc')).toEqual(createCard('K', 'clubs', true));
+    });
+
+    it('should read * as face-down', () => {
+      expect(parseCard('Qs*')).toEqual(createCard('Q', 'spades', false));
+    });
+
+    it('should parse jokers', () => {
+      expect(parseCard('BJ')).toEqual(createJoker('black', true));
+      expect(parseCard('rj*')).toEqual(createJoker('red', false));
+    });
+
+    it('should read a deck-of-origin suffix', () => {
+      expect(parseCard('QS#1*')).toEqual(createCard('Q', 'spades', false, 1));
+      expect(parseCard('RJ#2')).toEqual(createJoker('red', true, 2));
+    });
+
+    it('should reject invalid notation', () => {
+      for (const bad of ['', 'A', '1S', 'AX', 'AS**', 'XJ', 'AS#']) {
+        expect(() => parseCard(bad)).toThrow(`Invalid card notation: '${bad}'`);
+      }
+    });
+  });
+
+  describe('formatCard', () => {
+    it('should write upper-case rank and suit letters', () => {
+      expect(formatCard(createCard('10', 'hearts', true))).toBe('TH');
+      expect(formatCard(createCard('Q', 'spades'))).toBe('QS*');
+      expect(formatCard(createJoker('black', true))).toBe('BJ');
+      expect(formatCard(createCard('Q', 'spades', true, 1))).toBe('QS#1');
+    });
+
+    it('should round-trip every card of a two-deck shoe with jokers', () => {
+      const shoe = createStandardDeck({ decks: 2, jokers: 2 });
+      for (const card of shoe) {
+        expect(parseCard(formatCard(card))).toEqual(card);
+        card.faceUp = true;
+        expect(parseCard(formatCard(card))).toEqual(card);
+      }
+    });
+  });
+
+  describe('card lists and piles', () => {
+    it('should parse space-separated cards', () => {
+      const cards = parseCards('AS  2H* 3c');
+      expect(cards.map(formatCard)).toEqual(['AS', '2H*', '3C']);
+    });
+
+    it('should treat - and blank text as empty', () => {
+      expect(parseCards('-')).toEqual([]);
+      expect(parseCards('  ')).toEqual([]);
+      expect(formatCards([])).toBe('-');
+    });
+
+    it('should round-trip a pile bottom to top', () => {
+      const pile = parsePile('KS QH JC');
+      expect(pile.peek()?.rank).toBe('J');
+      expect(formatPile(pile)).toBe('KS QH JC');
+    });
+
+    it('should parse |-separated piles including empty ones', () => {
+      const piles = parsePiles('AS 2S | - | | KD');
+      expect(piles.map((p) => p.size())).toEqual([2, 0, 0, 1]);
+      expect(formatPiles(piles)).toBe('AS 2S | - | - | KD');
+    });
+  });
+
+  describe('rows and layouts', () => {
+    it('should round-trip rows of cards', () => {
+      const text = 'AS 2H 3C / 4D* 5S* 6H*';
+      const rows = parseRows(text);
+      expect(rows).toHaveLength(2);
+      expect(rows[1][0]).toEqual(createCard('4', 'diamonds', false));
+      expect(formatRows(rows)).toBe(text);
+    });
+
+    it('should round-trip rows of piles', () => {
+      const text = 'AC | - / KS QH | 7D';
+      const layout = parseLayout(text);
+      expect(layout.map((row) => row.length)).toEqual([2, 2]);
+      expect(layout[1][0]).toBeInstanceOf(Pile);
+      expect(formatLayout(layout)).toBe(text);
+    });
+  });
+});
@@ -150,4 +150,76 @@ describe('Pile', () => {
       expect(pile.size()).toBe(0);
     });
   });
+
+  describe('peekN', () => {
+    it('should return the top N cards bottom to top without removing them', () => {
+      const pile = new Pile([aceSpades(), kingHearts(), fiveDiamonds()]);
+      const top = pile.peekN(2);
+      expect(top.map((c) => c.rank)).toEqual(['K', '5']);
+      expect(pile.size()).toBe(3);
+    });
+
+    it('should return fewer cards when the pile is smaller', () => {
+      const pile = new Pile([aceSpades()]);
+      expect(pile.peekN(3)).toHaveLength(1);
+      expect(pile.peekN(0)).toEqual([]);
+    });
+  });
+
+  describe('takeFrom', () => {
+    it('should remove and return cards from the index to the top', () => {
+      const pile = new Pile([aceSpades(), kingHearts(), fiveDiamonds()]);
+      const taken = pile.takeFrom(1);
+      expect(taken.map((c) => c.rank)).toEqual(['K', '5']);
+      expect(pile.size()).toBe(1);
+      expect(pile.peek()!.rank).toBe('A');
+    });
+
+    it('should return an empty array at index size()', () => {
+      const pile = new Pile([aceSpades()]);
+      expect(pile.takeFrom(1)).toEqual([]);
+      expect(pile.size()).toBe(1);
+    });
+
+    it('should throw on an out-of-range index', () => {
+      const pile = new Pile([aceSpades()]);
+      expect(() => pile.takeFrom(2)).toThrow('Cannot take from index 2');
+      expect(() => pile.takeFrom(-1)).toThrow('Cannot take from index -1');
+    });
+  });
+
+  describe('takeTop', () => {
+    it('should remove and return the top N cards in order', () => {
+      const pile = new Pile([aceSpades(), kingHearts(), fiveDiamonds()]);
+      const taken = pile.takeTop(2);
+      expect(taken.map((c) => c.rank)).toEqual(['K', '5']);
+      expect(pile.size()).toBe(1);
+    });
+
+    it('should round-trip with push to move a sub-stack', () => {
+      const source = new Pile([aceSpades(), kingHearts(), fiveDiamonds()]);
+      const target = new Pile();
+      target.push(...source.takeTop(2));
+      expect(target.toArray().map((c) => c.rank)).toEqual(['K', '5']);
+      source.push(...target.takeTop(2));
+      expect(source.toArray().map((c) => c.rank)).toEqual(['A', 'K', '5']);
+    });
+
+    it('should throw when taking more cards than the pile holds', () => {
+      const pile = new Pile([aceSpades()]);
+      expect(() => pile.takeTop(2)).toThrow('Cannot take 2 cards from a pile of 1 cards');
+    });
+  });
+
+  describe('game-specific card types', () => {
+    it('should hold any card type with an id', () => {
+      const pile = new Pile<{ id: number; tier: number }>([
+        { id: 1, tier: 1 },
+        { id: 2, tier: 2 },
+      ]);
+      pile.push({ id: 3, tier: 3 });
+      expect(pile.peek()?.tier).toBe(3);
+      expect(pile.takeTop(2).map((c) => c.id)).toEqual([2, 3]);
+    });
+  });
 });
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ACE_LOW,
+  ACE_HIGH,
+  ACE_BOTH,
+  PIP_VALUES,
+  createRankOrder,
+  rankIndex,
+  compareRanks,
+  rankAfter,
+  rankBefore,
+  isRankAfter,
+  compareCardsBy,
+  rankValueIn,
+  valueTableFromOrder,
+} from '../../src/card-system/RankOrder';
+import { parseCards, formatCards } from '../../src/card-system/Notation';
+
+describe('RankOrder', () => {
+  describe('built-in orders', () => {
+    it('should place the Ace as named', () => {
+      expect(rankIndex(ACE_LOW, 'A')).toBe(0);
+      expect(rankIndex(ACE_LOW, 'K')).toBe(12);
+      expect(rankIndex(ACE_HIGH, '2')).toBe(0);
+      expect(rankIndex(ACE_HIGH, 'A')).toBe(12);
+      expect(rankIndex(ACE_BOTH, 'A')).toBe(13);
+    });
+
+    it('should not contain jokers', () => {
+      expect(rankIndex(ACE_LOW, 'Joker')).toBe(-1);
+    });
+
+    it('should compare ranks', () => {
+      expect(compareRanks(ACE_LOW, 'A', 'K')).toBeLessThan(0);
+      expect(compareRanks(ACE_HIGH, 'A', 'K')).toBeGreaterThan(0);
+      expect(compareRanks(ACE_BOTH, 'A', 'K')).toBeGreaterThan(0);
+      expect(compareRanks(ACE_LOW, '7', '7')).toBe(0);
+    });
+  });
+
+  describe('stepping', () => {
+    it('should step up and down', () => {
+      expect(rankAfter(ACE_LOW, '10')).toBe('J');
+      expect(rankAfter(ACE_LOW, 'K')).toBeUndefined();
+      expect(rankAfter(ACE_LOW, 'K', true)).toBe('A');
+      expect(rankBefore(ACE_LOW, 'A')).toBeUndefined();
+      expect(rankBefore(ACE_HIGH, '2', true)).toBe('A');
+      expect(rankAfter(ACE_LOW, 'Joker')).toBeUndefined();
+    });
+
+    it('should step from either end of ACE_BOTH', () => {
+      expect(rankAfter(ACE_BOTH, 'A')).toBe('2');
+      expect(rankBefore(ACE_BOTH, 'A')).toBe('K');
+      expect(isRankAfter(ACE_BOTH, 'K', 'A')).toBe(true);
+      expect(isRankAfter(ACE_BOTH, 'A', '2')).toBe(true);
+    });
+
+    it('should only wrap when asked', () => {
+      expect(isRankAfter(ACE_LOW, 'K', 'A')).toBe(false);
+      expect(isRankAfter(ACE_LOW, 'K', 'A', true)).toBe(true);
+      expect(isRankAfter(ACE_LOW, '5', '7')).toBe(false);
+    });
+  });
+
+  describe('createRankOrder', () => {
+    it('should build custom orders', () => {
+      const trumps = createRankOrder('euchre-trump', ['9', '10', 'Q', 'K', 'A', 'J']);
+      expect(compareRanks(trumps, 'J', 'A')).toBeGreaterThan(0);
+      expect(rankIndex(trumps, '2')).toBe(-1);
+    });
+
+    it('should reject empty orders and repeated ranks', () => {
+      expect(() => createRankOrder('empty', [])).toThrow(
+        "Rank order 'empty' must contain at least one rank",
+      );
+      expect(() => createRankOrder('bad', ['A', '2', 'A', '3'])).toThrow(
+        "Rank order 'bad' repeats a rank",
+      );
+    });
+  });
+
+  describe('compareCardsBy', () => {
+    it('should order by rank then suit', () => {
+      const cards = parseCards('AS KH 2C KD');
+      cards.sort(compareCardsBy(ACE_HIGH));
+      expect(formatCards(cards)).toBe('2C KD KH AS');
+    });
+
+    it('should rank trumps above everything else', () => {
+      const cards = parseCards('AS 2H KD');
+      cards.sort(compareCardsBy(ACE_HIGH, { trump: 'hearts' }));
+      expect(formatCards(cards)).toBe('KD AS 2H');
+    });
+  });
+
+  describe('value tables', () => {
+    it('should look up values', () => {
+      expect(rankValueIn(PIP_VALUES, 'A')).toBe(1);
+      expect(rankValueIn(PIP_VALUES, 'Q')).toBe(10);
+      expect(() => rankValueIn(PIP_VALUES, 'Joker')).toThrow('No value for rank Joker');
+    });
+
+    it('should derive values from an order', () => {
+      const table = valueTableFromOrder(ACE_HIGH, 2);
+      expect(table['2']).toBe(2);
+      expect(table.A).toBe(14);
+      expect(valueTableFromOrder(ACE_LOW).K).toBe(12);
+    });
+  });
+});
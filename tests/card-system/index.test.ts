@@ -4,12 +4,25 @@ import {
   RANKS,
   SUITS,
   createCard,
+  createJoker,
+  isJoker,
   createStandardDeck,
+  createPiquetDeck,
+  createPinochleDeck,
   createDeckFrom,
   shuffle,
   draw,
   drawOrThrow,
   Pile,
+  Hand,
+  compareByRank,
+  parseCard,
+  formatCard,
+  parseCards,
+  partitionMelds,
+  ACE_HIGH,
+  compareRanks,
+  isRed,
 } from '../../src/card-system/index';
 
 describe('card-system barrel exports', () => {
@@ -36,8 +49,33 @@ describe('card-system barrel exports', () => {
     expect(typeof drawOrThrow).toBe('function');
   });
 
+  it('should export joker and short-deck helpers', () => {
+    expect(isJoker(createJoker('red'))).toBe(true);
+    expect(createPiquetDeck()).toHaveLength(32);
+    expect(createPinochleDeck()).toHaveLength(48);
+  });
+
   it('should export Pile class', () => {
     const pile = new Pile();
     expect(pile.isEmpty()).toBe(true);
   });
+
+  it('should export Hand and its comparators', () => {
+    const hand = new Hand([createCard('K', 'spades'), createCard('A', 'hearts')]);
+    hand.sort(compareByRank);
+    expect(hand.at(0)?.rank).toBe('A');
+  });
+
+  it('should export the card notation', () => {
+    expect(formatCard(parseCard('TH*'))).toBe('TH*');
+  });
+
+  it('should export the meld matcher', () => {
+    expect(partitionMelds(parseCards('5H 6H 7H 2C')).deadwood).toHaveLength(1);
+  });
+
+  it('should export rank orders and colour helpers', () => {
+    expect(compareRanks(ACE_HIGH, 'A', 'K')).toBeGreaterThan(0);
+    expect(isRed(createCard('A', 'hearts'))).toBe(true);
+  });
 });
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeDealCode,
+  parseDealCode,
+  seedFromQuery,
+  resolveSceneSeed,
+} from '../../src/core-engine/DealCode';
+
+describe('encodeDealCode / parseDealCode', () => {
+  it('should encode seeds as upper-case base 36', () => {
+    expect(encodeDealCode(0)).toBe('0');
+    expect(encodeDealCode(35)).toBe('Z');
+    expect(encodeDealCode(3735928559)).toBe('1PS9WXB');
+  });
+
+  it('should round-trip 32-bit seeds', () => {
+    for (const seed of [0, 1, 42, 65535, 4294967295]) {
+      expect(parseDealCode(encodeDealCode(seed))).toBe(seed);
+    }
+  });
+
+  it('should reject seeds that are not non-negative integers', () => {
+    expect(() => encodeDealCode(-1)).toThrow(
+      'Seed must be a non-negative integer, got -1',
+    );
+    expect(() => encodeDealCode(1.5)).toThrow();
+  });
+
+  it('should ignore case, whitespace and dashes', () => {
+    expect(parseDealCode('  1ps9wxb ')).toBe(3735928559);
+    expect(parseDealCode('1PS-9WXB')).toBe(3735928559);
+  });
+
+  it('should return undefined for text that is not a deal code', () => {
+    expect(parseDealCode('')).toBeUndefined();
+    expect(parseDealCode('---')).toBeUndefined();
+    expect(parseDealCode('AB CD')).toBeUndefined();
+    expect(parseDealCode('deal!')).toBeUndefined();
+    expect(parseDealCode('ZZZZZZZZZZZ')).toBeUndefined();
+  });
+});
+
+describe('seedFromQuery', () => {
+  it('should read ?deal=CODE', () => {
+    expect(seedFromQuery('?deal=1PS9WXB')).toBe(3735928559);
+  });
+
+  it('should read ?seed=NUMBER', () => {
+    expect(seedFromQuery('?seed=42')).toBe(42);
+  });
+
+  it('should prefer a valid deal code over a seed', () => {
+    expect(seedFromQuery('?seed=42&deal=Z')).toBe(35);
+    expect(seedFromQuery('?seed=42&deal=!!')).toBe(42);
+  });
+
+  it('should return undefined when no valid seed is present', () => {
+    expect(seedFromQuery('')).toBeUndefined();
+    expect(seedFromQuery('?seed=abc')).toBeUndefined();
+    expect(seedFromQuery('?seed=-5')).toBeUndefined();
+    expect(seedFromQuery('?other=1')).toBeUndefined();
+  });
+});
+
+describe('resolveSceneSeed', () => {
+  it('should prefer the start payload', () => {
+    expect(resolveSceneSeed({ seed: 7 }, '?seed=42')).toBe(7);
+  });
+
+  it('should fall back to the query string', () => {
+    expect(resolveSceneSeed({}, '?seed=42')).toBe(42);
+    expect(resolveSceneSeed(undefined, '?deal=Z')).toBe(35);
+  });
+
+  it('should fall back to a random 32-bit seed', () => {
+    const seed = resolveSceneSeed({ seed: undefined }, '');
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(4294967296);
+  });
+});
@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import { TranscriptStore } from '../../src/core-engine/TranscriptStore';
+import {
+  EventRecorder,
+  MemoryEventSink,
+  TranscriptStoreEventSink,
+  JsonlEventSink,
+  EVENT_LOG_GAME_TYPE_PREFIX,
+  readStoredEvents,
+  parseEventLogJsonl,
+  type EventSink,
+  type LoggedEvent,
+} from '../../src/core-engine/EventLog';
+
+// ── Test helpers ───────────────────────────────────────────
+
+interface ToyEventMap {
+  'chip-bet': { playerIndex: number; amount: number };
+}
+
+/** A clock that advances one second per reading, from a fixed start. */
+function fakeClock(start = Date.UTC(2026, 0, 1)): () => Date {
+  let t = start;
+  return () => {
+    const now = new Date(t);
+    t += 1000;
+    return now;
+  };
+}
+
+function loggedEvent(seq: number, overrides: Partial<LoggedEvent> = {}): LoggedEvent {
+  return {
+    seq,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    sessionId: 's1',
+    gameType: 'toy',
+    event: 'redo',
+    payload: {},
+    ...overrides,
+  };
+}
+
+/** Minimal in-memory localStorage so TranscriptStore has a backend. */
+function createLocalStorageMock(): Storage {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, value); },
+    removeItem: (key: string) => { data.delete(key); },
+    clear: () => data.clear(),
+    get length() { return data.size; },
+    key: (index: number) => [...data.keys()][index] ?? null,
+  };
+}
+
+// ── EventRecorder ──────────────────────────────────────────
+
+describe('EventRecorder', () => {
+  let emitter: GameEventEmitter<ToyEventMap>;
+  let sink: MemoryEventSink;
+
+  beforeEach(() => {
+    emitter = new GameEventEmitter<ToyEventMap>();
+    sink = new MemoryEventSink();
+  });
+
+  it('should record every event with its timestamp, session and game type', () => {
+    const recorder = new EventRecorder(emitter, {
+      gameType: 'toy',
+      sessionId: 'session-1',
+      sinks: [sink],
+      now: fakeClock(),
+    });
+
+    emitter.emit('phase-changed', { from: 'setup', to: 'playing' });
+    emitter.emit('chip-bet', { playerIndex: 1, amount: 5 });
+
+    expect(sink.entries()).toEqual([
+      {
+        seq: 0,
+        timestamp: '2026-01-01T00:00:00.000Z',
+        sessionId: 'session-1',
+        gameType: 'toy',
+        event: 'phase-changed',
+        payload: { from: 'setup', to: 'playing' },
+      },
+      {
+        seq: 1,
+        timestamp: '2026-01-01T00:00:01.000Z',
+        sessionId: 'session-1',
+        gameType: 'toy',
+        event: 'chip-bet',
+        payload: { playerIndex: 1, amount: 5 },
+      },
+    ]);
+    expect(recorder.recordedCount).toBe(2);
+  });
+
+  it('should generate a session id when none is given', () => {
+    const a = new EventRecorder(emitter, { gameType: 'toy', sinks: [] });
+    const b = new EventRecorder(emitter, { gameType: 'toy', sinks: [] });
+    expect(a.sessionId).toMatch(/^toy-\d+-[a-z0-9]+$/);
+    expect(a.sessionId).not.toBe(b.sessionId);
+  });
+
+  it('should record only the events the filter accepts', () => {
+    new EventRecorder(emitter, {
+      gameType: 'toy',
+      sinks: [sink],
+      filter: (event) => event === 'chip-bet',
+    });
+
+    emitter.emit('redo', {});
+    emitter.emit('chip-bet', { playerIndex: 0, amount: 1 });
+
+    expect(sink.entries().map((e) => e.event)).toEqual(['chip-bet']);
+  });
+
+  it('should keep writing to other sinks when one throws', () => {
+    const failing: EventSink = {
+      write: () => {
+        throw new Error('disk full');
+      },
+    };
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    new EventRecorder(emitter, { gameType: 'toy', sinks: [failing, sink] });
+
+    emitter.emit('redo', {});
+
+    expect(sink.size).toBe(1);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should stop recording and flush its sinks on stop', async () => {
+    const flush = vi.fn(async () => {});
+    const recorder = new EventRecorder(emitter, {
+      gameType: 'toy',
+      sinks: [sink, { write: () => {}, flush }],
+    });
+
+    emitter.emit('redo', {});
+    await recorder.stop();
+    await recorder.stop();
+    emitter.emit('redo', {});
+
+    expect(sink.size).toBe(1);
+    expect(flush).toHaveBeenCalledTimes(2);
+  });
+
+  it('should flush its sinks when the game ends', () => {
+    const flush = vi.fn(async () => {});
+    new EventRecorder(emitter, {
+      gameType: 'toy',
+      sinks: [{ write: () => {}, flush }],
+    });
+
+    emitter.emit('turn-started', { turnNumber: 0, playerIndex: 0, playerName: 'Alice', isAI: false });
+    expect(flush).not.toHaveBeenCalled();
+    emitter.emit('game-ended', { finalTurnNumber: 0, winnerIndex: 0, reason: 'Done' });
+    expect(flush).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ── MemoryEventSink ────────────────────────────────────────
+
+describe('MemoryEventSink', () => {
+  it('should keep only the most recent events, oldest first', () => {
+    const sink = new MemoryEventSink(3);
+    for (let i = 0; i < 5; i++) sink.write(loggedEvent(i));
+
+    expect(sink.size).toBe(3);
+    expect(sink.entries().map((e) => e.seq)).toEqual([2, 3, 4]);
+  });
+
+  it('should clear its buffer', () => {
+    const sink = new MemoryEventSink(2);
+    sink.write(loggedEvent(0));
+    sink.write(loggedEvent(1));
+    sink.write(loggedEvent(2));
+    sink.clear();
+    sink.write(loggedEvent(3));
+
+    expect(sink.entries().map((e) => e.seq)).toEqual([3]);
+  });
+
+  it('should reject a capacity below one', () => {
+    expect(() => new MemoryEventSink(0)).toThrow(
+      'Event buffer capacity must be a positive integer, got 0',
+    );
+  });
+});
+
+// ── TranscriptStoreEventSink ───────────────────────────────
+
+describe('TranscriptStoreEventSink', () => {
+  let store: TranscriptStore;
+
+  beforeEach(() => {
+    if (typeof globalThis.indexedDB !== 'undefined') {
+      vi.stubGlobal('indexedDB', undefined);
+    }
+    vi.stubGlobal('localStorage', createLocalStorageMock());
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    store = new TranscriptStore({ localStoragePrefix: 'test-events' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should save buffered events as one batch per session on flush', async () => {
+    const sink = new TranscriptStoreEventSink(store);
+    sink.write(loggedEvent(0));
+    sink.write(loggedEvent(0, { sessionId: 's2' }));
+    sink.write(loggedEvent(1));
+
+    expect(await store.list(EVENT_LOG_GAME_TYPE_PREFIX + 'toy')).toHaveLength(0);
+    await sink.flush();
+
+    const batches = await store.list(EVENT_LOG_GAME_TYPE_PREFIX + 'toy');
+    expect(batches).toHaveLength(2);
+    expect(await readStoredEvents(store, 'toy', 's1')).toEqual([
+      loggedEvent(0),
+      loggedEvent(1),
+    ]);
+  });
+
+  it('should save a batch once batchSize events are buffered', async () => {
+    const sink = new TranscriptStoreEventSink(store, { batchSize: 2 });
+    sink.write(loggedEvent(0));
+    sink.write(loggedEvent(1));
+    sink.write(loggedEvent(2));
+    await sink.flush();
+
+    const batches = await store.list(EVENT_LOG_GAME_TYPE_PREFIX + 'toy');
+    expect(batches).toHaveLength(2);
+    expect((await readStoredEvents(store, 'toy')).map((e) => e.seq)).toEqual([0, 1, 2]);
+  });
+
+  it('should record a session end to end', async () => {
+    const emitter = new GameEventEmitter();
+    const sink = new TranscriptStoreEventSink(store);
+    const recorder = new EventRecorder(emitter, { gameType: 'golf', sinks: [sink] });
+
+    emitter.emit('turn-started', { turnNumber: 0, playerIndex: 0, playerName: 'Alice', isAI: false });
+    emitter.emit('game-ended', { finalTurnNumber: 0, winnerIndex: 0, reason: 'Done' });
+    await recorder.stop();
+
+    const events = await readStoredEvents(store, 'golf', recorder.sessionId);
+    expect(events.map((e) => e.event)).toEqual(['turn-started', 'game-ended']);
+  });
+
+  it('should save the tail of a finished game without being stopped', async () => {
+    const emitter = new GameEventEmitter();
+    const sink = new TranscriptStoreEventSink(store);
+    const recorder = new EventRecorder(emitter, { gameType: 'golf', sinks: [sink] });
+
+    emitter.emit('turn-started', { turnNumber: 0, playerIndex: 0, playerName: 'Alice', isAI: false });
+    emitter.emit('game-ended', { finalTurnNumber: 0, winnerIndex: 0, reason: 'Done' });
+    // Wait for the save the game end started
+    await sink.flush();
+
+    const events = await readStoredEvents(store, 'golf', recorder.sessionId);
+    expect(events.map((e) => e.event)).toEqual(['turn-started', 'game-ended']);
+  });
+
+  it('should keep saving after a failed save', async () => {
+    const failingStore = new TranscriptStore({ localStoragePrefix: 'test-events' });
+    const save = vi
+      .spyOn(failingStore, 'save')
+      .mockRejectedValueOnce(new Error('quota exceeded'));
+    const sink = new TranscriptStoreEventSink(failingStore);
+
+    sink.write(loggedEvent(0));
+    await expect(sink.flush()).rejects.toThrow('quota exceeded');
+    sink.write(loggedEvent(1));
+    await sink.flush();
+
+    expect(save).toHaveBeenCalledTimes(2);
+    expect((await readStoredEvents(failingStore, 'toy')).map((e) => e.seq)).toEqual([1]);
+  });
+});
+
+// ── JSON Lines ─────────────────────────────────────────────
+
+describe('JsonlEventSink', () => {
+  it('should append one line of JSON per event', () => {
+    const files = new Map<string, string>();
+    const fs = {
+      appendFileSync: (path: string, data: string) => {
+        files.set(path, (files.get(path) ?? '') + data);
+      },
+    };
+    const sink = new JsonlEventSink('events.jsonl', fs);
+
+    sink.write(loggedEvent(0));
+    sink.write(loggedEvent(1, { event: 'undo' }));
+
+    const text = files.get('events.jsonl')!;
+    expect(text.split('\n')).toHaveLength(3);
+    expect(parseEventLogJsonl(text)).toEqual([
+      loggedEvent(0),
+      loggedEvent(1, { event: 'undo' }),
+    ]);
+  });
+
+  it('should report the line number of a malformed entry', () => {
+    const text = `${JSON.stringify(loggedEvent(0))}\n\n{oops\n`;
+    expect(() => parseEventLogJsonl(text)).toThrow('Invalid event log line 3: {oops');
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   GameEventEmitter,
+  BUILT_IN_EVENT_NAMES,
   type TurnStartedPayload,
   type TurnCompletedPayload,
   type AnimationCompletePayload,
@@ -690,4 +691,113 @@ describe('GameEventEmitter', () => {
       expect(listener2).not.toHaveBeenCalled();
     });
   });
+
+  describe('onAny', () => {
+    it('should receive every event with its name and payload', () => {
+      const seen: Array<[string, unknown]> = [];
+      emitter.onAny((event, payload) => seen.push([event, payload]));
+
+      emitter.emit('undo', { moveDescription: 'Move 7H' });
+      emitter.emit('phase-changed', { from: 'setup', to: 'playing' });
+
+      expect(seen).toEqual([
+        ['undo', { moveDescription: 'Move 7H' }],
+        ['phase-changed', { from: 'setup', to: 'playing' }],
+      ]);
+    });
+
+    it('should run after the event\'s own listeners', () => {
+      const order: string[] = [];
+      emitter.onAny(() => order.push('any'));
+      emitter.on('redo', () => order.push('redo'));
+
+      emitter.emit('redo', {});
+      expect(order).toEqual(['redo', 'any']);
+    });
+
+    it('should stop receiving events once unsubscribed', () => {
+      const listener = vi.fn();
+      const unsub = emitter.onAny(listener);
+      emitter.emit('redo', {});
+      unsub();
+      emitter.emit('redo', {});
+      emitter.offAny(listener); // safe to call again
+
+      expect(listener).toHaveBeenCalledOnce();
+    });
+
+    it('should be cleared by removeAllListeners() but not per event', () => {
+      const listener = vi.fn();
+      emitter.onAny(listener);
+
+      emitter.removeAllListeners('redo');
+      emitter.emit('redo', {});
+      expect(listener).toHaveBeenCalledOnce();
+
+      emitter.removeAllListeners();
+      emitter.emit('redo', {});
+      expect(listener).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('BUILT_IN_EVENT_NAMES', () => {
+    it('should list each built-in event once', () => {
+      expect(BUILT_IN_EVENT_NAMES).toContain('turn-started');
+      expect(BUILT_IN_EVENT_NAMES).toContain('deal-card');
+      expect(new Set(BUILT_IN_EVENT_NAMES).size).toBe(BUILT_IN_EVENT_NAMES.length);
+    });
+  });
+
+  describe('game event maps', () => {
+    interface ToyEventMap {
+      'chip-bet': { playerIndex: number; amount: number };
+    }
+
+    it('should emit game events alongside the built-in events', () => {
+      const toy = new GameEventEmitter<ToyEventMap>();
+      const onBet = vi.fn();
+      const onTurn = vi.fn();
+      toy.on('chip-bet', onBet);
+      toy.on('turn-skipped', onTurn);
+
+      toy.emit('chip-bet', { playerIndex: 1, amount: 5 });
+      toy.emit('turn-skipped', { playerIndex: 0 });
+
+      expect(onBet).toHaveBeenCalledWith({ playerIndex: 1, amount: 5 });
+      expect(onTurn).toHaveBeenCalledWith({ playerIndex: 0 });
+      expect(toy.listenerCount('chip-bet')).toBe(1);
+    });
+
+    it('should type-check game event names and payloads', () => {
+      const toy = new GameEventEmitter<ToyEventMap>();
+      const amounts: number[] = [];
+      toy.on('chip-bet', (payload) => amounts.push(payload.amount));
+      toy.emit('chip-bet', { playerIndex: 0, amount: 2 });
+      expect(amounts).toEqual([2]);
+
+      // @ts-expect-error -- `amount` is not part of this event's payload
+      toy.emit('turn-skipped', { playerIndex: 0, amount: 2 });
+      // @ts-expect-error -- not an event of the plain emitter
+      emitter.on('chip-bet', () => {});
+    });
+
+    it('should pass game events to any-event listeners', () => {
+      const toy = new GameEventEmitter<ToyEventMap>();
+      const listener = vi.fn();
+      toy.onAny(listener);
+
+      toy.emit('chip-bet', { playerIndex: 1, amount: 5 });
+      expect(listener).toHaveBeenCalledWith('chip-bet', { playerIndex: 1, amount: 5 });
+    });
+
+    it('should be accepted where a plain emitter is expected', () => {
+      const toy = new GameEventEmitter<ToyEventMap>();
+      const plain: GameEventEmitter = toy;
+      const listener = vi.fn();
+      toy.on('phase-changed', listener);
+
+      plain.emit('phase-changed', { from: 'setup', to: 'playing' });
+      expect(listener).toHaveBeenCalledOnce();
+    });
+  });
 });
@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { createGameState } from '../../src/core-engine/GameState';
+import {
+  createGameState,
+  snapshotGameState,
+  restoreGameState,
+} from '../../src/core-engine/GameState';
 import type { PlayerInfo } from '../../src/core-engine/GameState';
+import { definePhases } from '../../src/core-engine/Phases';
 
 /** Helper: two-player setup. */
 function twoPlayers(): PlayerInfo[] {
@@ -144,4 +149,88 @@ describe('GameState', () => {
       expect(state.players[0].isAI).toBe(false);
     });
   });
+
+  describe('custom phases', () => {
+    const phases = definePhases<'deal' | 'bid' | 'play' | 'done'>({
+      initial: 'deal',
+      transitions: { deal: ['bid'], bid: ['play'], play: ['done'], done: [] },
+    });
+
+    it("should start in the phase machine's initial phase", () => {
+      const state = createGameState({
+        players: twoPlayers(),
+        createPlayerState: () => 0,
+        phases,
+      });
+
+      expect(state.phase).toBe('deal');
+      expect(state.phases).toBe(phases);
+    });
+
+    it('should accept an initial phase from the custom set', () => {
+      const state = createGameState({
+        players: twoPlayers(),
+        createPlayerState: () => 0,
+        phases,
+        initialPhase: 'bid',
+      });
+
+      expect(state.phase).toBe('bid');
+    });
+
+    it('should throw for an initial phase outside the phase set', () => {
+      expect(() =>
+        // @ts-expect-error -- a game with its own phases must pass them
+        createGameState<number, string>({
+          players: twoPlayers(),
+          createPlayerState: () => 0,
+          initialPhase: 'bidding',
+        }),
+      ).toThrow('Unknown initial phase "bidding"');
+    });
+  });
+
+  describe('snapshotGameState / restoreGameState', () => {
+    it('should round-trip players, turn and phase', () => {
+      const state = createGameState({
+        players: twoPlayers(),
+        createPlayerState: (i) => ({ chips: [i + 1, i + 2] }),
+        initialPhase: 'playing',
+      });
+      state.currentPlayerIndex = 1;
+      state.turnNumber = 7;
+
+      const snapshot = snapshotGameState(state, (ps) => ps.chips.join(','));
+      expect(snapshot.playerStates).toEqual(['1,2', '2,3']);
+      const restored = restoreGameState(snapshot, (saved) => ({
+        chips: saved.split(',').map(Number),
+      }));
+
+      expect(restored.players).toEqual(state.players);
+      expect(restored.playerStates).toEqual(state.playerStates);
+      expect(restored.currentPlayerIndex).toBe(1);
+      expect(restored.turnNumber).toBe(7);
+      expect(restored.phase).toBe('playing');
+    });
+
+    it('should check the phase against the phases passed on restore', () => {
+      const phases = definePhases<'deal' | 'play'>({
+        initial: 'deal',
+        transitions: { deal: ['play'], play: [] },
+      });
+      const state = createGameState({
+        players: twoPlayers(),
+        createPlayerState: () => 0,
+        phases,
+        initialPhase: 'play',
+      });
+      const snapshot = snapshotGameState(state, (n) => n);
+
+      expect(restoreGameState(snapshot, (n) => n, { phases }).phases).toBe(phases);
+      // @ts-expect-error -- a snapshot of custom phases needs its phase machine
+      expect(() => restoreGameState(snapshot, (n) => n)).toThrow(
+        'Unknown initial phase "play"',
+      );
+    });
+  });
 });
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createMatch,
+  getRoundNumber,
+  getDealerIndex,
+  getFirstPlayerIndex,
+  getMatchTotals,
+  isMatchOver,
+  getMatchLeaders,
+  getMatchWinnerIndex,
+  getScorecard,
+  recordRound,
+} from '../../src/core-engine/Match';
+
+describe('Match', () => {
+  describe('createMatch', () => {
+    it('should start with no rounds played', () => {
+      const match = createMatch({
+        playerCount: 3,
+        length: { kind: 'rounds', rounds: 3 },
+      });
+
+      expect(getRoundNumber(match)).toBe(0);
+      expect(getMatchTotals(match)).toEqual([0, 0, 0]);
+      expect(match.scoring).toBe('high-wins');
+      expect(isMatchOver(match)).toBe(false);
+    });
+
+    it('should throw for fewer than 1 player', () => {
+      expect(() =>
+        createMatch({ playerCount: 0, length: { kind: 'rounds', rounds: 1 } }),
+      ).toThrow('at least 1 player');
+    });
+
+    it('should throw for an invalid match length', () => {
+      expect(() =>
+        createMatch({ playerCount: 2, length: { kind: 'rounds', rounds: 0 } }),
+      ).toThrow('positive whole number of rounds');
+      expect(() =>
+        createMatch({ playerCount: 2, length: { kind: 'target-score', target: 0 } }),
+      ).toThrow('target score must be positive');
+    });
+
+    it('should throw for an out-of-bounds first dealer', () => {
+      expect(() =>
+        createMatch({
+          playerCount: 2,
+          length: { kind: 'rounds', rounds: 1 },
+          firstDealerIndex: 2,
+        }),
+      ).toThrow('out of bounds');
+    });
+  });
+
+  describe('dealer rotation', () => {
+    it('should pass the deal one seat per round', () => {
+      const match = createMatch({
+        playerCount: 3,
+        length: { kind: 'rounds', rounds: 5 },
+        firstDealerIndex: 1,
+      });
+      const dealers: number[] = [];
+      const leaders: number[] = [];
+      for (let round = 0; round < 4; round++) {
+        dealers.push(getDealerIndex(match));
+        leaders.push(getFirstPlayerIndex(match));
+        recordRound(match, [0, 0, 0]);
+      }
+
+      expect(dealers).toEqual([1, 2, 0, 1]);
+      expect(leaders).toEqual([2, 0, 1, 2]);
+    });
+  });
+
+  describe('fixed number of rounds', () => {
+    it('should end after the last round', () => {
+      const match = createMatch({
+        playerCount: 2,
+        length: { kind: 'rounds', rounds: 2 },
+      });
+      recordRound(match, [5, 3]);
+      expect(isMatchOver(match)).toBe(false);
+      recordRound(match, [1, 7]);
+
+      expect(isMatchOver(match)).toBe(true);
+      expect(getMatchTotals(match)).toEqual([6, 10]);
+      expect(getMatchWinnerIndex(match)).toBe(1);
+    });
+
+    it('should reject rounds once the match is over', () => {
+      const match = createMatch({
+        playerCount: 2,
+        length: { kind: 'rounds', rounds: 1 },
+      });
+      recordRound(match, [1, 2]);
+
+      expect(() => recordRound(match, [1, 2])).toThrow('the match is over');
+    });
+
+    it('should reject the wrong number of scores', () => {
+      const match = createMatch({
+        playerCount: 2,
+        length: { kind: 'rounds', rounds: 1 },
+      });
+
+      expect(() => recordRound(match, [1])).toThrow(
+        'Expected 2 round scores, got 1',
+      );
+    });
+  });
+
+  describe('target score', () => {
+    it('should end once any total reaches the target', () => {
+      const match = createMatch({
+        playerCount: 2,
+        length: { kind: 'target-score', target: 100 },
+      });
+      recordRound(match, [60, 40]);
+      expect(isMatchOver(match)).toBe(false);
+      recordRound(match, [30, 60]);
+
+      expect(isMatchOver(match)).toBe(true);
+      expect(getMatchTotals(match)).toEqual([90, 100]);
+      expect(getMatchWinnerIndex(match)).toBe(1);
+    });
+
+    it('should let the lowest total win when low scores win', () => {
+      const match = createMatch({
+        playerCount: 3,
+        length: { kind: 'target-score', target: 100 },
+        scoring: 'low-wins',
+      });
+      recordRound(match, [26, 0, 0]);
+      recordRound(match, [80, 10, 16]);
+
+      expect(isMatchOver(match)).toBe(true);
+      expect(getMatchWinnerIndex(match)).toBe(1);
+    });
+  });
+
+  describe('leaders', () => {
+    it('should report ties as multiple leaders and no winner', () => {
+      const match = createMatch({
+        playerCount: 3,
+        length: { kind: 'rounds', rounds: 1 },
+      });
+      recordRound(match, [4, 9, 9]);
+
+      expect(getMatchLeaders(match)).toEqual([1, 2]);
+      expect(getMatchWinnerIndex(match)).toBe(-1);
+    });
+  });
+
+  describe('getScorecard', () => {
+    it('should list each round with running totals', () => {
+      const match = createMatch({
+        playerCount: 2,
+        length: { kind: 'rounds', rounds: 3 },
+        scoring: 'low-wins',
+      });
+      recordRound(match, [5, 3]);
+      recordRound(match, [-2, 4]);
+
+      expect(getScorecard(match)).toEqual({
+        rounds: [
+          [5, 3],
+          [-2, 4],
+        ],
+        running: [
+          [5, 3],
+          [3, 7],
+        ],
+        totals: [3, 7],
+      });
+    });
+
+    it('should not share arrays with the match', () => {
+      const match = createMatch({
+        playerCount: 1,
+        length: { kind: 'rounds', rounds: 2 },
+      });
+      recordRound(match, [5]);
+      const card = getScorecard(match);
+      (card.rounds[0] as number[])[0] = 99;
+
+      expect(match.roundScores[0][0]).toBe(5);
+    });
+  });
+});
@@ -235,21 +235,17 @@ describe('PhaserEventBridge', () => {
       expect(listener).not.toHaveBeenCalled();
     });
 
-    it('should remove bridge listeners from engine', () => {
-      // Bridge registers 5 listeners on the engine (one per event)
-      expect(engine.listenerCount('turn-started')).toBe(1);
-      expect(engine.listenerCount('turn-completed')).toBe(1);
-      expect(engine.listenerCount('animation-complete')).toBe(1);
-      expect(engine.listenerCount('state-settled')).toBe(1);
-      expect(engine.listenerCount('game-ended')).toBe(1);
+    it('should remove the bridge listener from the engine', () => {
+      // The bridge forwards engine events through a single any-event
+      // listener, so it adds none per event
+      expect(engine.listenerCount('turn-started')).toBe(0);
+      const listener = vi.fn();
+      phaser.on('redo', listener);
 
       bridge.destroy();
+      engine.emit('redo', {});
 
-      expect(engine.listenerCount('turn-started')).toBe(0);
-      expect(engine.listenerCount('turn-completed')).toBe(0);
-      expect(engine.listenerCount('animation-complete')).toBe(0);
-      expect(engine.listenerCount('state-settled')).toBe(0);
-      expect(engine.listenerCount('game-ended')).toBe(0);
+      expect(listener).not.toHaveBeenCalled();
     });
 
     it('should remove bridge listeners from phaser', () => {
@@ -296,4 +292,122 @@ describe('PhaserEventBridge', () => {
       bridge2.destroy();
     });
   });
+
+  // ── Game events ───────────────────────────────────
+
+  describe('game events', () => {
+    interface ToyEventMap {
+      'chip-bet': { playerIndex: number; amount: number };
+    }
+
+    it('should forward game events to phaser without being told their names', () => {
+      const toy = new GameEventEmitter<ToyEventMap>();
+      const toyPhaser = new MockPhaserEmitter();
+      const toyBridge = new PhaserEventBridge(toy, toyPhaser);
+
+      const onPhaser = vi.fn();
+      toyPhaser.on('chip-bet', onPhaser);
+      toy.emit('chip-bet', { playerIndex: 0, amount: 3 });
+
+      expect(onPhaser).toHaveBeenCalledWith({ playerIndex: 0, amount: 3 });
+      // Not inbound, so only the test's own listener is on Phaser
+      expect(toyPhaser.listenerCount('chip-bet')).toBe(1);
+      toyBridge.destroy();
+    });
+
+    it('should forward inbound game events from phaser to the engine', () => {
+      const toy = new GameEventEmitter<ToyEventMap>();
+      const toyPhaser = new MockPhaserEmitter();
+      const toyBridge = new PhaserEventBridge(toy, toyPhaser, {
+        inbound: ['chip-bet'],
+      });
+
+      const onEngine = vi.fn();
+      toy.on('chip-bet', onEngine);
+      toyPhaser.emit('chip-bet', { playerIndex: 1, amount: 4 });
+      expect(onEngine).toHaveBeenCalledWith({ playerIndex: 1, amount: 4 });
+
+      toyBridge.destroy();
+      expect(toyPhaser.listenerCount('chip-bet')).toBe(0);
+    });
+  });
+
+  // ── Options ───────────────────────────────────────────
+
+  describe('namespace', () => {
+    it('should prefix event names on the phaser side', () => {
+      bridge.destroy();
+      bridge = new PhaserEventBridge(engine, phaser, { namespace: 'tce:' });
+
+      const onPhaser = vi.fn();
+      const onBare = vi.fn();
+      phaser.on('tce:redo', onPhaser);
+      phaser.on('redo', onBare);
+      engine.emit('redo', {});
+
+      expect(onPhaser).toHaveBeenCalledWith({});
+      expect(onBare).not.toHaveBeenCalled();
+      expect(bridge.phaserEventName('redo')).toBe('tce:redo');
+    });
+
+    it('should only forward namespaced phaser events to the engine', () => {
+      bridge.destroy();
+      bridge = new PhaserEventBridge(engine, phaser, { namespace: 'tce:' });
+
+      const listener = vi.fn();
+      engine.on('undo', listener);
+      phaser.emit('undo', {});
+      phaser.emit('tce:undo', { moveDescription: 'Move 7H' });
+
+      expect(listener).toHaveBeenCalledOnce();
+      expect(listener).toHaveBeenCalledWith({ moveDescription: 'Move 7H' });
+    });
+  });
+
+  describe('filter', () => {
+    it('should bridge only the events the filter accepts, both ways', () => {
+      bridge.destroy();
+      bridge = new PhaserEventBridge(engine, phaser, {
+        filter: (event) => event !== 'ui-interaction',
+      });
+
+      const onPhaser = vi.fn();
+      const onEngine = vi.fn();
+      phaser.on('ui-interaction', onPhaser);
+      engine.on('ui-interaction', onEngine);
+      engine.emit('ui-interaction', { elementId: 'undo', action: 'click' });
+      phaser.emit('ui-interaction', { elementId: 'redo', action: 'click' });
+
+      expect(onPhaser).toHaveBeenCalledOnce();
+      expect(onEngine).toHaveBeenCalledOnce();
+      expect(phaser.listenerCount('ui-interaction')).toBe(1);
+      expect(phaser.listenerCount('redo')).toBe(1);
+    });
+  });
+
+  describe('events emitted while forwarding', () => {
+    it('should forward other events that listeners emit on either side', () => {
+      const onEngine = vi.fn();
+      const onPhaser = vi.fn();
+      engine.on('ui-interaction', onEngine);
+      phaser.on('undo', onPhaser);
+
+      // The scene reacts to a forwarded turn by emitting on Phaser,
+      // and the engine reacts to that by emitting an engine event
+      phaser.on('turn-started', () => {
+        phaser.emit('ui-interaction', { elementId: 'hand', action: 'enable' });
+      });
+      engine.on('ui-interaction', () => engine.emit('undo', {}));
+
+      engine.emit('turn-started', {
+        turnNumber: 0,
+        playerIndex: 0,
+        playerName: 'Alice',
+        isAI: false,
+      });
+
+      expect(onEngine).toHaveBeenCalledOnce();
+      expect(onPhaser).toHaveBeenCalledOnce();
+    });
+  });
 });
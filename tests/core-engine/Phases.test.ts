@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  definePhases,
+  STANDARD_PHASES,
+  canTransition,
+  isPhase,
+  isTerminalPhase,
+  isTurnPhase,
+  changePhase,
+  revertPhase,
+} from '../../src/core-engine/Phases';
+import { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+
+type DraftPhase = 'setup' | 'drafting' | 'scoring' | 'over';
+
+interface DraftState {
+  phase: DraftPhase;
+  log: string[];
+}
+
+function draftPhases() {
+  return definePhases<DraftPhase, DraftState>({
+    initial: 'setup',
+    transitions: {
+      setup: ['drafting'],
+      drafting: ['scoring'],
+      scoring: ['drafting', 'over'],
+      over: [],
+    },
+    onEnter: {
+      scoring: (state, from) => state.log.push(`enter scoring from ${from}`),
+    },
+    onExit: {
+      drafting: (state, to) => state.log.push(`exit drafting to ${to}`),
+    },
+  });
+}
+
+describe('Phases', () => {
+  describe('definePhases', () => {
+    it('should derive terminal phases from phases with no exits', () => {
+      expect(draftPhases().terminalPhases).toEqual(['over']);
+    });
+
+    it('should default turn phases to non-initial, non-terminal phases', () => {
+      expect(draftPhases().turnPhases).toEqual(['drafting', 'scoring']);
+    });
+
+    it('should keep explicit turn phases', () => {
+      const machine = definePhases<'a' | 'b'>({
+        initial: 'a',
+        transitions: { a: ['b'], b: [] },
+        turnPhases: ['a'],
+      });
+      expect(machine.turnPhases).toEqual(['a']);
+    });
+
+    it('should reject an undeclared initial phase', () => {
+      expect(() =>
+        definePhases<string>({ initial: 'x', transitions: { a: [] } }),
+      ).toThrow('Unknown initial phase "x"');
+    });
+
+    it('should reject an undeclared transition target', () => {
+      expect(() =>
+        definePhases<string>({ initial: 'a', transitions: { a: ['b'] } }),
+      ).toThrow('Unknown target (from "a") phase "b"');
+    });
+
+    it('should reject an undeclared turn phase', () => {
+      expect(() =>
+        definePhases<string>({
+          initial: 'a',
+          transitions: { a: [] },
+          turnPhases: ['b'],
+        }),
+      ).toThrow('Unknown turn phase "b"');
+    });
+  });
+
+  describe('STANDARD_PHASES', () => {
+    it('should describe the setup -> playing -> ended lifecycle', () => {
+      expect(STANDARD_PHASES.initial).toBe('setup');
+      expect(STANDARD_PHASES.turnPhases).toEqual(['playing']);
+      expect(STANDARD_PHASES.terminalPhases).toEqual(['ended']);
+      expect(canTransition(STANDARD_PHASES, 'setup', 'ended')).toBe(true);
+      expect(canTransition(STANDARD_PHASES, 'ended', 'playing')).toBe(false);
+    });
+  });
+
+  describe('queries', () => {
+    it('should classify phases', () => {
+      const machine = draftPhases();
+      expect(isTerminalPhase(machine, 'over')).toBe(true);
+      expect(isTerminalPhase(machine, 'scoring')).toBe(false);
+      expect(isTurnPhase(machine, 'drafting')).toBe(true);
+      expect(isTurnPhase(machine, 'setup')).toBe(false);
+    });
+
+    it('should recognise only declared phases', () => {
+      const machine = draftPhases();
+      expect(isPhase(machine, 'scoring')).toBe(true);
+      expect(isPhase(machine, 'bidding')).toBe(false);
+      expect(isPhase(machine, 'toString')).toBe(false);
+    });
+  });
+
+  describe('changePhase', () => {
+    it('should run exit and enter hooks around the change', () => {
+      const machine = draftPhases();
+      const state: DraftState = { phase: 'drafting', log: [] };
+      changePhase(machine, state, 'scoring');
+      expect(state.phase).toBe('scoring');
+      expect(state.log).toEqual([
+        'exit drafting to scoring',
+        'enter scoring from drafting',
+      ]);
+    });
+
+    it('should see the new phase from the enter hook', () => {
+      const seen: DraftPhase[] = [];
+      const machine = definePhases<DraftPhase, DraftState>({
+        ...draftPhases(),
+        onEnter: { drafting: (state) => seen.push(state.phase) },
+      });
+      changePhase(machine, { phase: 'setup', log: [] }, 'drafting');
+      expect(seen).toEqual(['drafting']);
+    });
+
+    it('should emit phase-changed after the hooks', () => {
+      const machine = draftPhases();
+      const state: DraftState = { phase: 'drafting', log: [] };
+      const events = new GameEventEmitter();
+      const listener = vi.fn(() => {
+        expect(state.log).toHaveLength(2);
+      });
+      events.on('phase-changed', listener);
+
+      changePhase(machine, state, 'scoring', events);
+      expect(listener).toHaveBeenCalledWith({ from: 'drafting', to: 'scoring' });
+    });
+
+    it('should reject an undeclared transition and leave the state alone', () => {
+      const machine = draftPhases();
+      const state: DraftState = { phase: 'drafting', log: [] };
+      const events = new GameEventEmitter();
+      const listener = vi.fn();
+      events.on('phase-changed', listener);
+
+      expect(() => changePhase(machine, state, 'over', events)).toThrow(
+        'Invalid phase transition: "drafting" -> "over". ' +
+          'Allowed transitions from "drafting": scoring',
+      );
+      expect(state.phase).toBe('drafting');
+      expect(state.log).toEqual([]);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should report terminal phases as having no transitions', () => {
+      const state: DraftState = { phase: 'over', log: [] };
+      expect(() => changePhase(draftPhases(), state, 'setup')).toThrow(
+        'Allowed transitions from "over": none',
+      );
+    });
+
+    it('should reject a change to the current phase', () => {
+      const state: DraftState = { phase: 'scoring', log: [] };
+      expect(() => changePhase(draftPhases(), state, 'scoring')).toThrow(
+        'already in phase "scoring"',
+      );
+    });
+  });
+
+  describe('revertPhase', () => {
+    it('should undo a declared transition, with hooks and an event', () => {
+      const machine = draftPhases();
+      const state: DraftState = { phase: 'scoring', log: [] };
+      const events = new GameEventEmitter();
+      const listener = vi.fn();
+      events.on('phase-changed', listener);
+
+      revertPhase(machine, state, 'drafting', events);
+      expect(state.phase).toBe('drafting');
+      expect(listener).toHaveBeenCalledWith({ from: 'scoring', to: 'drafting' });
+    });
+
+    it('should reopen a terminal phase', () => {
+      const state: DraftState = { phase: 'over', log: [] };
+      revertPhase(draftPhases(), state, 'scoring');
+      expect(state.phase).toBe('scoring');
+      expect(state.log).toEqual(['enter scoring from over']);
+    });
+
+    it('should reject a phase that does not lead to the current one', () => {
+      const state: DraftState = { phase: 'over', log: [] };
+      expect(() => revertPhase(draftPhases(), state, 'drafting')).toThrow(
+        'Cannot revert phase "over" to "drafting": "drafting" does not lead to "over"',
+      );
+      expect(state.phase).toBe('over');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRng,
+  restoreRng,
+  randomSeed,
+  isRng,
+  requireRngState,
+} from '../../src/core-engine/Rng';
+
+function take(rng: () => number, count: number): number[] {
+  return Array.from({ length: count }, () => rng());
+}
+
+describe('createRng', () => {
+  it('should produce deterministic sequences', () => {
+    expect(take(createRng(42), 10)).toEqual(take(createRng(42), 10));
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(take(createRng(42), 10)).not.toEqual(take(createRng(99), 10));
+    expect(take(createRng(1), 10)).not.toEqual(take(createRng(2), 10));
+  });
+
+  it('should accept string seeds', () => {
+    expect(take(createRng('golf'), 5)).toEqual(take(createRng('golf'), 5));
+    expect(createRng(42).key).toBe('42');
+  });
+
+  it('should return values in [0, 1)', () => {
+    const rng = createRng(123);
+    for (let i = 0; i < 1000; i++) {
+      const val = rng();
+      expect(val).toBeGreaterThanOrEqual(0);
+      expect(val).toBeLessThan(1);
+    }
+  });
+
+  it('should spread values across the range', () => {
+    const rng = createRng(7);
+    const buckets = new Array(10).fill(0);
+    for (let i = 0; i < 10000; i++) buckets[Math.floor(rng() * 10)]++;
+    for (const count of buckets) {
+      expect(count).toBeGreaterThan(850);
+      expect(count).toBeLessThan(1150);
+    }
+  });
+});
+
+describe('nextInt', () => {
+  it('should return integers below the bound', () => {
+    const rng = createRng(5);
+    for (let i = 0; i < 100; i++) {
+      const n = rng.nextInt(6);
+      expect(Number.isInteger(n)).toBe(true);
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(6);
+    }
+  });
+
+  it('should reject a non-positive bound', () => {
+    expect(() => createRng(5).nextInt(0)).toThrow(
+      'nextInt bound must be a positive integer, got 0',
+    );
+  });
+});
+
+describe('state capture', () => {
+  it('should resume the identical sequence after setState', () => {
+    const rng = createRng(42);
+    take(rng, 7);
+    const saved = rng.getState();
+    const expected = take(rng, 10);
+
+    rng.setState(saved);
+    expect(take(rng, 10)).toEqual(expected);
+  });
+
+  it('should round-trip through JSON and restoreRng', () => {
+    const rng = createRng(42);
+    take(rng, 3);
+    const json = JSON.stringify(rng.getState());
+    const expected = take(rng, 10);
+
+    const restored = restoreRng(JSON.parse(json));
+    expect(restored.key).toBe('42');
+    expect(take(restored, 10)).toEqual(expected);
+  });
+
+  it('should refuse state from a different stream', () => {
+    const state = createRng(1).getState();
+    expect(() => createRng(2).setState(state)).toThrow(
+      "Cannot restore RNG state for '1' into stream '2'",
+    );
+  });
+
+  it('should reject malformed state', () => {
+    expect(() =>
+      restoreRng({ key: 'x', words: [1, 2, 3, -4] }),
+    ).toThrow('RNG state must be four unsigned 32-bit integers');
+  });
+});
+
+describe('fork', () => {
+  it('should not advance the parent stream', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    a.fork('ai');
+    a.fork('ai')();
+    expect(take(a, 5)).toEqual(take(b, 5));
+  });
+
+  it('should be independent of how far the parent has advanced', () => {
+    const parent = createRng(42);
+    const early = take(parent.fork('ai'), 5);
+    take(parent, 20);
+    expect(take(parent.fork('ai'), 5)).toEqual(early);
+    expect(parent.fork('ai').key).toBe('42/ai');
+  });
+
+  it('should give different labels different streams', () => {
+    const rng = createRng(42);
+    expect(take(rng.fork('ai'), 5)).not.toEqual(take(rng.fork('shuffle'), 5));
+    expect(take(rng.fork('ai'), 5)).not.toEqual(take(createRng(42), 5));
+  });
+});
+
+describe('randomSeed / isRng', () => {
+  it('should produce unsigned 32-bit seeds', () => {
+    const seed = randomSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(4294967296);
+  });
+
+  it('should distinguish seeded generators from plain functions', () => {
+    expect(isRng(createRng(1))).toBe(true);
+    expect(isRng(Math.random)).toBe(false);
+  });
+
+  it('should only capture the state of a seeded generator', () => {
+    const rng = createRng(7);
+    expect(requireRngState(rng)).toEqual(rng.getState());
+    expect(() => requireRngState(Math.random)).toThrow(
+      'Cannot save an unseeded random function',
+    );
+  });
+});
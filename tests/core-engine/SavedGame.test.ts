@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SavedGameStore,
+  SAVED_GAME_VERSION,
+  type SaveStorage,
+} from '../../src/core-engine/SavedGame';
+
+// ── Test helpers ───────────────────────────────────────────
+
+function createStorage(): SaveStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+    removeItem: (key) => { data.delete(key); },
+  };
+}
+
+// ── SavedGameStore ─────────────────────────────────────────
+
+describe('SavedGameStore', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let store: SavedGameStore;
+
+  beforeEach(() => {
+    storage = createStorage();
+    store = new SavedGameStore({ storage });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should save and load a game under its game type', () => {
+    const saved = store.save('golf', { turn: 3 });
+
+    expect(saved).toMatchObject({
+      version: SAVED_GAME_VERSION,
+      gameType: 'golf',
+      state: { turn: 3 },
+    });
+    expect(storage.data.has('tce-save:golf')).toBe(true);
+    expect(store.load('golf')).toEqual(saved);
+    expect(store.has('golf')).toBe(true);
+    expect(store.has('splendor')).toBe(false);
+  });
+
+  it('should keep one save per game type', () => {
+    store.save('golf', { turn: 1 });
+    store.save('golf', { turn: 2 });
+    store.save('splendor', { turn: 9 });
+
+    expect(store.load<{ turn: number }>('golf')?.state.turn).toBe(2);
+    expect(store.load<{ turn: number }>('splendor')?.state.turn).toBe(9);
+  });
+
+  it('should clear a save', () => {
+    store.save('golf', { turn: 1 });
+    store.clear('golf');
+
+    expect(store.has('golf')).toBe(false);
+    expect(store.load('golf')).toBeNull();
+  });
+
+  it('should use a custom key prefix', () => {
+    new SavedGameStore({ storage, prefix: 'test' }).save('golf', {});
+    expect([...storage.data.keys()]).toEqual(['test:golf']);
+  });
+
+  it('should discard a save that does not parse', () => {
+    storage.setItem('tce-save:golf', '{oops');
+
+    expect(store.load('golf')).toBeNull();
+    expect(store.has('golf')).toBe(false);
+  });
+
+  it('should discard a save from another format version', () => {
+    storage.setItem(
+      'tce-save:golf',
+      JSON.stringify({ version: SAVED_GAME_VERSION + 1, gameType: 'golf', savedAt: '', state: {} }),
+    );
+
+    expect(store.load('golf')).toBeNull();
+    expect(store.has('golf')).toBe(false);
+  });
+
+  it('should return null when storage fails', () => {
+    const failing = new SavedGameStore({
+      storage: {
+        ...storage,
+        setItem: () => {
+          throw new Error('quota exceeded');
+        },
+      },
+    });
+
+    expect(failing.save('golf', {})).toBeNull();
+  });
+
+  it('should do nothing without storage', () => {
+    const none = new SavedGameStore({ storage: null });
+
+    expect(none.save('golf', {})).toBeNull();
+    expect(none.load('golf')).toBeNull();
+    expect(none.has('golf')).toBe(false);
+    expect(() => none.clear('golf')).not.toThrow();
+  });
+});
@@ -222,6 +222,20 @@ describe('SoundManager', () => {
       expect(player.play).toHaveBeenCalledWith('sfx-swap');
     });
 
+    it('should play sounds for game-specific events', () => {
+      sm.register('bet-sfx', 'sfx-bet');
+      const emitter = new GameEventEmitter<{
+        'chip-bet': { amount: number };
+      }>();
+
+      sm.connectToEvents(emitter, {
+        'chip-bet': 'bet-sfx',
+      });
+
+      emitter.emit('chip-bet', { amount: 5 });
+      expect(player.play).toHaveBeenCalledWith('sfx-bet');
+    });
+
     it('should not play when muted even if event fires', () => {
       sm.register('draw-sfx', 'sfx-draw');
       sm.setMute(true);
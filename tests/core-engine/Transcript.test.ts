@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TRANSCRIPT_VERSION,
+  createTranscript,
+  recordAction,
+  finalizeTranscript,
+  upgradeTranscript,
+  type Transcript,
+  type TranscriptHeader,
+} from '../../src/core-engine/Transcript';
+
+// ── Test helpers ───────────────────────────────────────────
+
+interface TestFormat {
+  action: { move: string };
+  snapshot: { board: number[] };
+  variant: { fast: boolean };
+  result: { winner: number };
+}
+
+function header(overrides: Partial<TranscriptHeader<TestFormat>> = {}): TranscriptHeader<TestFormat> {
+  return {
+    gameType: 'test',
+    variant: { fast: true },
+    seed: 42,
+    players: [
+      { name: 'Alice', isAI: false },
+      { name: 'Bot', isAI: true, strategy: 'greedy' },
+    ],
+    ...overrides,
+  };
+}
+
+function legacyTranscript(): { version: 1; moves: string[] } {
+  return { version: 1, moves: ['a', 'b'] };
+}
+
+function migrateLegacy(legacy: ReturnType<typeof legacyTranscript>): Transcript {
+  const transcript = createTranscript(header());
+  for (const move of legacy.moves) recordAction(transcript, 0, { move });
+  return transcript;
+}
+
+// ── Recording ──────────────────────────────────────────────
+
+describe('createTranscript', () => {
+  it('should start an empty transcript from the header', () => {
+    const transcript = createTranscript(header({ initialSnapshot: { board: [1, 2] } }));
+
+    expect(transcript).toMatchObject({
+      version: TRANSCRIPT_VERSION,
+      gameType: 'test',
+      variant: { fast: true },
+      seed: 42,
+      players: [
+        { name: 'Alice', isAI: false },
+        { name: 'Bot', isAI: true, strategy: 'greedy' },
+      ],
+      endedAt: '',
+      initialSnapshot: { board: [1, 2] },
+      actions: [],
+      result: null,
+    });
+    expect(new Date(transcript.startedAt).toISOString()).toBe(transcript.startedAt);
+  });
+
+  it('should omit the initial snapshot when the game records none', () => {
+    const transcript = createTranscript(header());
+    expect('initialSnapshot' in transcript).toBe(false);
+  });
+
+  it('should copy the players', () => {
+    const h = header();
+    const transcript = createTranscript(h);
+    transcript.players[0].name = 'Changed';
+    expect(h.players[0].name).toBe('Alice');
+  });
+});
+
+describe('recordAction', () => {
+  it('should append actions in order', () => {
+    const transcript = createTranscript(header());
+    recordAction(transcript, 0, { move: 'a' }, { board: [1] });
+    recordAction(transcript, null, { move: 'auto' });
+
+    expect(transcript.actions).toEqual([
+      { playerIndex: 0, action: { move: 'a' }, snapshot: { board: [1] } },
+      { playerIndex: null, action: { move: 'auto' } },
+    ]);
+  });
+});
+
+describe('finalizeTranscript', () => {
+  it('should set the result and end timestamp', () => {
+    const transcript = createTranscript(header());
+    const finalized = finalizeTranscript(transcript, { winner: 1 });
+
+    expect(finalized).toBe(transcript);
+    expect(finalized.result).toEqual({ winner: 1 });
+    expect(finalized.endedAt).not.toBe('');
+  });
+});
+
+// ── Migration ──────────────────────────────────────────────
+
+describe('upgradeTranscript', () => {
+  it('should return current transcripts as they are', () => {
+    const transcript = createTranscript(header());
+    expect(upgradeTranscript('test', transcript)).toBe(transcript);
+  });
+
+  it('should migrate version 1 transcripts with the game migrator', () => {
+    const upgraded = upgradeTranscript('test', legacyTranscript(), { test: migrateLegacy });
+
+    expect(upgraded.version).toBe(TRANSCRIPT_VERSION);
+    expect(upgraded.actions.map((a) => a.action)).toEqual([{ move: 'a' }, { move: 'b' }]);
+  });
+
+  it('should reject version 1 transcripts without a migrator', () => {
+    expect(() =>
+      upgradeTranscript('other', legacyTranscript(), { test: migrateLegacy }),
+    ).toThrow('Unsupported other transcript version: 1. Expected: 2');
+  });
+
+  it('should reject unknown versions', () => {
+    expect(() =>
+      upgradeTranscript('test', { version: 3 }, { test: migrateLegacy }),
+    ).toThrow('Unsupported test transcript version: 3. Expected: 2 or 1');
+    expect(() => upgradeTranscript('test', null)).toThrow(
+      'Unsupported test transcript version: undefined',
+    );
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { TranscriptStore } from '../../src/core-engine/TranscriptStore';
+import { createTranscript, recordAction } from '../../src/core-engine/Transcript';
+import type { Transcript } from '../../src/core-engine/Transcript';
 
 // ── Test helpers ───────────────────────────────────────────
 
@@ -12,6 +14,23 @@ function fakeTranscript(id: number = 1) {
   };
 }
 
+/** A current-format transcript with one action per turn. */
+function currentTranscript(gameType: string, turns: number): Transcript {
+  const transcript = createTranscript({
+    gameType,
+    variant: null,
+    seed: 7,
+    players: [{ name: 'P1', isAI: false }],
+  });
+  for (let i = 0; i < turns; i++) recordAction(transcript, 0, { turn: i });
+  return transcript;
+}
+
+/** Upgrades {@link fakeTranscript}s as if they were version 1 Golf transcripts. */
+function migrateFake(legacy: ReturnType<typeof fakeTranscript>): Transcript {
+  return currentTranscript('golf', legacy.turns.length);
+}
+
 // ── localStorage mock ──────────────────────────────────────
 
 /**
@@ -219,6 +238,41 @@ describe('TranscriptStore', () => {
     });
   });
 
+  describe('game transcripts', () => {
+    it('should save a transcript under its game type', async () => {
+      const store = new TranscriptStore();
+      const stored = await store.saveTranscript(currentTranscript('splendor', 2));
+
+      expect(stored!.gameType).toBe('splendor');
+      expect(await store.listTranscripts('splendor')).toHaveLength(1);
+    });
+
+    it('should upgrade version 1 transcripts with the migrators', async () => {
+      const store = new TranscriptStore({ migrators: { golf: migrateFake } });
+      await store.save('golf', fakeTranscript(3));
+      const current = await store.saveTranscript(currentTranscript('golf', 1));
+
+      const list = await store.listTranscripts('golf');
+      expect(list.map((e) => e.transcript.version)).toEqual([2, 2]);
+      expect(list.map((e) => e.transcript.actions.length)).toEqual([1, 3]);
+      expect(await store.getTranscript(current!.id)).toEqual(current);
+    });
+
+    it('should skip transcripts that cannot be upgraded', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const store = new TranscriptStore();
+      const legacy = await store.save('golf', fakeTranscript(1));
+      await store.saveTranscript(currentTranscript('golf', 1));
+
+      expect(await store.listTranscripts('golf')).toHaveLength(1);
+      expect(await store.getTranscript(legacy!.id)).toBeNull();
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(legacy!.id),
+        expect.any(Error),
+      );
+    });
+  });
+
   describe('no storage available', () => {
     it('should return null from save when no backend is available', async () => {
       vi.stubGlobal('indexedDB', undefined);
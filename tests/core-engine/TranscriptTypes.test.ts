@@ -3,32 +3,49 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { snapshotCard } from '../../src/core-engine/TranscriptTypes';
+import {
+  snapshotCard,
+  cardFromSnapshot,
+  isSameCard,
+  cardLookup,
+} from '../../src/core-engine/TranscriptTypes';
 import type { CardSnapshot } from '../../src/core-engine/TranscriptTypes';
-import { createCard } from '../../src/card-system/Card';
+import { createCard, createJoker } from '../../src/card-system/Card';
 import type { Rank, Suit } from '../../src/card-system/Card';
 
+/** A card type outside the card-system, like Sushi Go!'s dishes. */
+interface Dish {
+  readonly id: number;
+  readonly type: string;
+}
+
+const DISHES: readonly Dish[] = [
+  { id: 0, type: 'tempura' },
+  { id: 1, type: 'sashimi' },
+  { id: 2, type: 'tempura' },
+];
+
 describe('snapshotCard', () => {
   it('creates a snapshot with rank, suit, and faceUp from a face-up card', () => {
     const card = createCard('A', 'spades', true);
     const snap = snapshotCard(card);
 
-    expect(snap).toEqual({ rank: 'A', suit: 'spades', faceUp: true });
+    expect(snap).toEqual({ id: card.id, rank: 'A', suit: 'spades', faceUp: true });
   });
 
   it('captures face-down state', () => {
     const card = createCard('K', 'hearts', false);
     const snap = snapshotCard(card);
 
-    expect(snap).toEqual({ rank: 'K', suit: 'hearts', faceUp: false });
+    expect(snap).toEqual({ id: card.id, rank: 'K', suit: 'hearts', faceUp: false });
   });
 
   it('returns a plain object (no Card methods)', () => {
     const card = createCard('5', 'diamonds', true);
     const snap = snapshotCard(card);
 
-    // Snapshot should be a plain object with exactly three keys
-    expect(Object.keys(snap).sort()).toEqual(['faceUp', 'rank', 'suit']);
+    // Snapshot should be a plain object with exactly four keys
+    expect(Object.keys(snap).sort()).toEqual(['faceUp', 'id', 'rank', 'suit']);
   });
 
   it('preserves typed Rank and Suit values', () => {
@@ -85,6 +102,71 @@ describe('snapshotCard', () => {
       expect(snap.suit).toBe(suit);
     }
   });
+
+  it('records jokers with the Joker rank', () => {
+    const snap = snapshotCard(createJoker('red', true));
+    expect(snap).toEqual({ id: 53, rank: 'Joker', suit: 'hearts', faceUp: true });
+  });
+
+  it('includes deckIndex only for multi-deck cards', () => {
+    const snap = snapshotCard(createCard('Q', 'spades', true, 1));
+    expect(snap).toEqual({ id: 104, rank: 'Q', suit: 'spades', faceUp: true, deckIndex: 1 });
+    expect('deckIndex' in snapshotCard(createCard('Q', 'spades', true))).toBe(false);
+  });
+
+  it('copies cards of any type with an id', () => {
+    const card = DISHES[0];
+    const snap = snapshotCard(card);
+
+    expect(snap).toEqual(card);
+    expect(snap).not.toBe(card);
+  });
+});
+
+describe('cardFromSnapshot', () => {
+  it('rebuilds a card with the same id', () => {
+    const card = createCard('9', 'diamonds', true, 1);
+    const rebuilt = cardFromSnapshot(snapshotCard(card));
+    expect(rebuilt).toEqual(card);
+  });
+
+  it('assigns an id when reading a snapshot recorded without one', () => {
+    const rebuilt = cardFromSnapshot({ rank: 'A', suit: 'spades', faceUp: false });
+    expect(rebuilt.id).toBe(createCard('A', 'spades').id);
+  });
+});
+
+describe('isSameCard', () => {
+  it('tells identical-looking copies apart by id', () => {
+    const first = snapshotCard(createCard('Q', 'spades', true, 0));
+    const second = snapshotCard(createCard('Q', 'spades', true, 1));
+    expect(isSameCard(first, second)).toBe(false);
+    expect(isSameCard(first, { ...first, faceUp: false })).toBe(true);
+  });
+
+  it('falls back to rank, suit and deck for snapshots without ids', () => {
+    const legacy: CardSnapshot = { rank: 'Q', suit: 'spades', faceUp: true };
+    expect(isSameCard(legacy, { rank: 'Q', suit: 'spades', faceUp: false })).toBe(true);
+    expect(isSameCard(legacy, { rank: 'Q', suit: 'hearts', faceUp: true })).toBe(false);
+  });
+
+  it('compares cards of any type by id', () => {
+    const [first, , third] = DISHES;
+    expect(isSameCard(first, snapshotCard(first))).toBe(true);
+    expect(isSameCard(first, third)).toBe(false);
+  });
+});
+
+describe('cardLookup', () => {
+  it('finds cards by id', () => {
+    const dish = cardLookup(DISHES);
+    expect(dish(1)).toBe(DISHES[1]);
+  });
+
+  it('rejects unknown ids, naming the kind of card', () => {
+    expect(() => cardLookup(DISHES, 'dish')(9)).toThrow('Unknown dish id 9');
+    expect(() => cardLookup([createCard('A', 'spades')])(1)).toThrow('Unknown card id 1');
+  });
 });
 
 describe('CardSnapshot type conformance', () => {
@@ -0,0 +1,260 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createTurnOrder,
+  nextSeat,
+  isFinalRound,
+  needsFinalTurn,
+  triggerFinalRound,
+  completeTurn,
+  passTurn,
+  reverseDirection,
+  skipPlayer,
+  grantExtraTurn,
+  snapshotTurnOrder,
+  restoreTurnOrder,
+} from '../../src/core-engine/TurnOrder';
+import type { TurnOrder } from '../../src/core-engine/TurnOrder';
+import { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+
+/** Helper: pass turns from `current` until the order ends (or a cap). */
+function playOut(order: TurnOrder, current: number): number[] {
+  const seen: number[] = [];
+  let next = passTurn(order, current);
+  while (next !== null && seen.length < 20) {
+    seen.push(next);
+    next = passTurn(order, next);
+  }
+  return seen;
+}
+
+describe('TurnOrder', () => {
+  describe('createTurnOrder', () => {
+    it('should start clockwise with no final round', () => {
+      const order = createTurnOrder({ playerCount: 3 });
+      expect(order.direction).toBe('clockwise');
+      expect(order.finalRound).toBe('others-once');
+      expect(isFinalRound(order)).toBe(false);
+      expect(order.ended).toBe(false);
+    });
+
+    it('should throw for fewer than 1 player', () => {
+      expect(() => createTurnOrder({ playerCount: 0 })).toThrow('at least 1 player');
+    });
+
+    it('should throw for an out-of-bounds starting player', () => {
+      expect(() =>
+        createTurnOrder({ playerCount: 2, startingPlayerIndex: 2 }),
+      ).toThrow('startingPlayerIndex 2 is out of bounds');
+    });
+
+    it('should start with the starting player acting unless told otherwise', () => {
+      expect(
+        createTurnOrder({ playerCount: 3, startingPlayerIndex: 2 }).currentPlayerIndex,
+      ).toBe(2);
+      expect(
+        createTurnOrder({ playerCount: 3, currentPlayerIndex: 1 }).currentPlayerIndex,
+      ).toBe(1);
+    });
+  });
+
+  describe('seat order', () => {
+    it('should rotate through the players', () => {
+      const order = createTurnOrder({ playerCount: 3 });
+      expect(passTurn(order, 0)).toBe(1);
+      expect(passTurn(order, 1)).toBe(2);
+      expect(passTurn(order, 2)).toBe(0);
+    });
+
+    it('should pass on from the player now acting by default', () => {
+      const order = createTurnOrder({ playerCount: 3 });
+      expect(passTurn(order)).toBe(1);
+      expect(order.currentPlayerIndex).toBe(1);
+      expect(passTurn(order)).toBe(2);
+      expect(passTurn(order)).toBe(0);
+      expect(order.currentPlayerIndex).toBe(0);
+    });
+
+    it('should rotate the other way once reversed', () => {
+      const order = createTurnOrder({ playerCount: 4 });
+      reverseDirection(order);
+      expect(order.direction).toBe('counter-clockwise');
+      expect(nextSeat(order, 0)).toBe(3);
+      expect(passTurn(order, 2)).toBe(1);
+
+      reverseDirection(order);
+      expect(passTurn(order, 2)).toBe(3);
+    });
+
+    it('should skip a player who misses a turn', () => {
+      const events = new GameEventEmitter();
+      const skipped = vi.fn();
+      events.on('turn-skipped', skipped);
+      const order = createTurnOrder({ playerCount: 3, events });
+      skipPlayer(order, 1);
+
+      expect(passTurn(order, 0)).toBe(2);
+      expect(skipped).toHaveBeenCalledWith({ playerIndex: 1 });
+      expect(passTurn(order, 0)).toBe(1);
+    });
+
+    it('should give the current player extra turns', () => {
+      const order = createTurnOrder({ playerCount: 2 });
+      grantExtraTurn(order, 2);
+
+      expect(passTurn(order, 0)).toBe(0);
+      expect(passTurn(order, 0)).toBe(0);
+      expect(passTurn(order, 0)).toBe(1);
+    });
+  });
+
+  describe("'others-once' final round", () => {
+    it('should give every other player one more turn', () => {
+      const order = createTurnOrder({ playerCount: 3 });
+      expect(triggerFinalRound(order, 1)).toBe(true);
+
+      expect(order.finalTurnsOwed).toEqual([2, 0]);
+      expect(needsFinalTurn(order, 1)).toBe(false);
+      expect(playOut(order, 1)).toEqual([2, 0]);
+      expect(order.ended).toBe(true);
+    });
+
+    it('should only trigger once', () => {
+      const order = createTurnOrder({ playerCount: 3 });
+      triggerFinalRound(order, 1);
+      passTurn(order, 1);
+
+      expect(triggerFinalRound(order, 2)).toBe(false);
+      expect(order.triggeringPlayerIndex).toBe(1);
+    });
+
+    it('should follow a reversed direction', () => {
+      const order = createTurnOrder({ playerCount: 3, direction: 'counter-clockwise' });
+      triggerFinalRound(order, 1);
+
+      expect(order.finalTurnsOwed).toEqual([0, 2]);
+      expect(playOut(order, 1)).toEqual([0, 2]);
+    });
+
+    it('should forfeit the final turn of a skipped player', () => {
+      const order = createTurnOrder({ playerCount: 3 });
+      triggerFinalRound(order, 0);
+      skipPlayer(order, 2);
+
+      expect(playOut(order, 0)).toEqual([1]);
+      expect(order.ended).toBe(true);
+    });
+
+    it('should end when a skip forfeits the last final turn', () => {
+      const order = createTurnOrder({ playerCount: 2 });
+      triggerFinalRound(order, 0);
+      skipPlayer(order, 1);
+
+      expect(passTurn(order, 0)).toBeNull();
+      expect(order.ended).toBe(true);
+    });
+
+    it('should let a player finish extra turns before their final turn counts', () => {
+      const order = createTurnOrder({ playerCount: 2 });
+      triggerFinalRound(order, 0);
+      expect(passTurn(order, 0)).toBe(1);
+
+      grantExtraTurn(order);
+      expect(completeTurn(order, 1)).toBe(false);
+      expect(passTurn(order, 1)).toBe(1);
+      expect(passTurn(order, 1)).toBeNull();
+    });
+  });
+
+  describe("'finish-round' final round", () => {
+    it('should play out the round that began with the starting player', () => {
+      const order = createTurnOrder({ playerCount: 4, finalRound: 'finish-round' });
+      triggerFinalRound(order, 1);
+
+      expect(order.finalTurnsOwed).toEqual([2, 3]);
+      expect(playOut(order, 1)).toEqual([2, 3]);
+    });
+
+    it('should end at once when the last player of the round triggers', () => {
+      const order = createTurnOrder({
+        playerCount: 3,
+        startingPlayerIndex: 1,
+        finalRound: 'finish-round',
+      });
+      triggerFinalRound(order, 0);
+
+      expect(order.finalTurnsOwed).toEqual([]);
+      expect(passTurn(order, 0)).toBeNull();
+    });
+  });
+
+  describe('events', () => {
+    it('should announce the final round and each last turn', () => {
+      const events = new GameEventEmitter();
+      const log: string[] = [];
+      events.on('final-round-started', ({ triggeringPlayerIndex, playersOwed }) =>
+        log.push(`final round by ${triggeringPlayerIndex}, owed [${playersOwed}]`),
+      );
+      events.on('last-turn', ({ playerIndex, finalTurnsLeft }) =>
+        log.push(`last turn for ${playerIndex} (${finalTurnsLeft} left)`),
+      );
+      const order = createTurnOrder({ playerCount: 3, events });
+
+      passTurn(order, 0);
+      triggerFinalRound(order, 1);
+      playOut(order, 1);
+
+      expect(log).toEqual([
+        'final round by 1, owed [2,0]',
+        'last turn for 2 (2 left)',
+        'last turn for 0 (1 left)',
+      ]);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should restore the state captured before a turn', () => {
+      const order = createTurnOrder({ playerCount: 3 });
+      triggerFinalRound(order, 0);
+      const snapshot = snapshotTurnOrder(order);
+
+      passTurn(order, 0);
+      passTurn(order, 1);
+      passTurn(order, 2);
+      reverseDirection(order);
+      expect(order.ended).toBe(true);
+
+      restoreTurnOrder(order, snapshot);
+      expect(order.ended).toBe(false);
+      expect(order.direction).toBe('clockwise');
+      expect(order.finalTurnsOwed).toEqual([1, 2]);
+    });
+
+    it('should produce plain JSON data', () => {
+      const order = createTurnOrder({ playerCount: 2, events: new GameEventEmitter() });
+      const snapshot = snapshotTurnOrder(order);
+
+      expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+      expect('events' in snapshot).toBe(false);
+    });
+
+    it('should reject a snapshot for another player count', () => {
+      const snapshot = snapshotTurnOrder(createTurnOrder({ playerCount: 2 }));
+      expect(() =>
+        restoreTurnOrder(createTurnOrder({ playerCount: 3 }), snapshot),
+      ).toThrow('2-player turn order into a 3-player one');
+    });
+
+    it('should restore the player now acting', () => {
+      const order = createTurnOrder({ playerCount: 3 });
+      const snapshot = snapshotTurnOrder(order);
+      passTurn(order);
+      passTurn(order);
+
+      restoreTurnOrder(order, snapshot);
+      expect(order.currentPlayerIndex).toBe(0);
+      expect(() =>
+        restoreTurnOrder(order, { ...snapshot, currentPlayerIndex: 3 }),
+      ).toThrow('currentPlayerIndex 3 is out of bounds');
+    });
+  });
+});
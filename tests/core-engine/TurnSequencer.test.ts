@@ -1,6 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { createGameState } from '../../src/core-engine/GameState';
-import type { GameState } from '../../src/core-engine/GameState';
+import { definePhases } from '../../src/core-engine/Phases';
+import { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import type { GamePhase, GameState } from '../../src/core-engine/GameState';
 import {
   getCurrentPlayer,
   getCurrentPlayerState,
@@ -10,7 +12,14 @@ import {
   transitionTo,
   startGame,
   endGame,
+  beginSimultaneousTurn,
+  beginSimultaneousTurnFor,
+  submitAction,
+  getUndecidedPlayers,
+  allActionsSubmitted,
+  revealActions,
 } from '../../src/core-engine/TurnSequencer';
+import { invalid, valid } from '../../src/rule-engine/RuleSet';
 
 /** Helper: two-player game in playing phase. */
 function playingGame(): GameState<number> {
@@ -347,4 +356,236 @@ describe('TurnSequencer', () => {
       expect(() => advanceTurn(state)).toThrow('game has ended');
     });
   });
+
+  describe('custom phases', () => {
+    type RoundPhase = 'setup' | 'picking' | 'round-scoring' | 'game-over';
+
+    /** Helper: a drafting game that scores between rounds. */
+    function draftingGame(events?: GameEventEmitter) {
+      const entered: string[] = [];
+      const phases = definePhases<RoundPhase, GameState<number, RoundPhase>>({
+        initial: 'setup',
+        transitions: {
+          setup: ['picking'],
+          picking: ['round-scoring'],
+          'round-scoring': ['picking', 'game-over'],
+          'game-over': [],
+        },
+        turnPhases: ['picking'],
+        onEnter: {
+          picking: (state, from) => {
+            entered.push(`picking from ${from}`);
+            state.currentPlayerIndex = 0;
+          },
+        },
+      });
+      const state = createGameState({
+        players: [
+          { name: 'Human', isAI: false },
+          { name: 'Bot', isAI: true },
+        ],
+        createPlayerState: () => 0,
+        phases,
+        events,
+      });
+      return { state, entered };
+    }
+
+    it('should follow the declared transition graph', () => {
+      const { state } = draftingGame();
+      transitionTo(state, 'picking');
+      transitionTo(state, 'round-scoring');
+      transitionTo(state, 'picking');
+      expect(state.phase).toBe('picking');
+      expect(() => transitionTo(state, 'game-over')).toThrow(
+        'Invalid phase transition: "picking" -> "game-over"',
+      );
+    });
+
+    it('should only advance turns in turn phases', () => {
+      const { state } = draftingGame();
+      transitionTo(state, 'picking');
+      advanceTurn(state);
+      expect(state.currentPlayerIndex).toBe(1);
+
+      transitionTo(state, 'round-scoring');
+      expect(isPlaying(state)).toBe(false);
+      expect(() => advanceTurn(state)).toThrow(
+        'Cannot advance turn during round-scoring phase; transition to picking first',
+      );
+    });
+
+    it('should treat phases without exits as game over', () => {
+      const { state } = draftingGame();
+      transitionTo(state, 'picking');
+      transitionTo(state, 'round-scoring');
+      expect(isGameOver(state)).toBe(false);
+      transitionTo(state, 'game-over');
+      expect(isGameOver(state)).toBe(true);
+      expect(() => advanceTurn(state)).toThrow('game has ended');
+    });
+
+    it('should run enter hooks on the game state', () => {
+      const { state, entered } = draftingGame();
+      transitionTo(state, 'picking');
+      advanceTurn(state);
+      transitionTo(state, 'round-scoring');
+      transitionTo(state, 'picking');
+
+      expect(entered).toEqual(['picking from setup', 'picking from round-scoring']);
+      expect(state.currentPlayerIndex).toBe(0);
+    });
+
+    it("should emit phase-changed on the state's emitter", () => {
+      const events = new GameEventEmitter();
+      const listener = vi.fn();
+      events.on('phase-changed', listener);
+      const { state } = draftingGame(events);
+
+      transitionTo(state, 'picking');
+      transitionTo(state, 'round-scoring');
+
+      expect(listener.mock.calls).toEqual([
+        [{ from: 'setup', to: 'picking' }],
+        [{ from: 'picking', to: 'round-scoring' }],
+      ]);
+    });
+  });
+
+  describe('simultaneous turns', () => {
+    /** Helper: a three-player blind bid with a positive-bid rule. */
+    function blindBid(events?: GameEventEmitter) {
+      return beginSimultaneousTurn<number>({
+        playerCount: 3,
+        turnNumber: 4,
+        validate: (bid) =>
+          bid > 0 ? valid() : invalid('BID_NOT_POSITIVE', 'Bid must be positive'),
+        events,
+      });
+    }
+
+    it('should start with every player undecided', () => {
+      const turn = blindBid();
+      expect(getUndecidedPlayers(turn)).toEqual([0, 1, 2]);
+      expect(allActionsSubmitted(turn)).toBe(false);
+      expect(turn.locked).toBe(false);
+    });
+
+    it('should report who is still deciding as actions arrive', () => {
+      const turn = blindBid();
+      submitAction(turn, 1, 5);
+      expect(getUndecidedPlayers(turn)).toEqual([0, 2]);
+
+      submitAction(turn, 0, 3);
+      submitAction(turn, 2, 7);
+      expect(getUndecidedPlayers(turn)).toEqual([]);
+      expect(allActionsSubmitted(turn)).toBe(true);
+    });
+
+    it('should reveal all actions together, indexed by player', () => {
+      const turn = blindBid();
+      submitAction(turn, 2, 7);
+      submitAction(turn, 0, 3);
+      submitAction(turn, 1, 5);
+
+      expect(revealActions(turn)).toEqual([3, 5, 7]);
+      expect(turn.locked).toBe(true);
+    });
+
+    it('should let a player change their action before the reveal', () => {
+      const turn = blindBid();
+      submitAction(turn, 0, 3);
+      submitAction(turn, 0, 9);
+      submitAction(turn, 1, 5);
+      submitAction(turn, 2, 7);
+
+      expect(revealActions(turn)[0]).toBe(9);
+    });
+
+    it('should refuse to reveal while players are deciding', () => {
+      const turn = blindBid();
+      submitAction(turn, 1, 5);
+      expect(() => revealActions(turn)).toThrow(
+        'Cannot reveal actions: waiting on player(s) 0, 2',
+      );
+      expect(turn.locked).toBe(false);
+    });
+
+    it('should reject submissions and a second reveal once locked', () => {
+      const turn = beginSimultaneousTurn<number>({ playerCount: 1 });
+      submitAction(turn, 0, 1);
+      revealActions(turn);
+
+      expect(() => submitAction(turn, 0, 2)).toThrow('actions have been revealed');
+      expect(() => revealActions(turn)).toThrow('already been revealed');
+    });
+
+    it('should reject invalid actions and out-of-range players', () => {
+      const turn = blindBid();
+      expect(() => submitAction(turn, 0, 0)).toThrow(
+        'Illegal action for player 0 [BID_NOT_POSITIVE]: Bid must be positive',
+      );
+      expect(() => submitAction(turn, 3, 5)).toThrow('out of bounds');
+      expect(getUndecidedPlayers(turn)).toEqual([0, 1, 2]);
+    });
+
+    it('should throw for fewer than 1 player', () => {
+      expect(() => beginSimultaneousTurn({ playerCount: 0 })).toThrow(
+        'at least 1 player',
+      );
+    });
+
+    it('should emit an event per submission without the action', () => {
+      const events = new GameEventEmitter();
+      const submitted = vi.fn();
+      const revealed = vi.fn();
+      events.on('action-submitted', submitted);
+      events.on('actions-revealed', revealed);
+      const turn = blindBid(events);
+
+      submitAction(turn, 1, 5);
+      submitAction(turn, 0, 3);
+      submitAction(turn, 2, 7);
+      revealActions(turn);
+
+      expect(submitted.mock.calls).toEqual([
+        [{ turnNumber: 4, playerIndex: 1, waitingOn: [0, 2] }],
+        [{ turnNumber: 4, playerIndex: 0, waitingOn: [2] }],
+        [{ turnNumber: 4, playerIndex: 2, waitingOn: [] }],
+      ]);
+      expect(revealed).toHaveBeenCalledWith({ turnNumber: 4, playerCount: 3 });
+    });
+
+    it('should begin a turn for every player of a GameState', () => {
+      const events = new GameEventEmitter();
+      const submitted = vi.fn();
+      events.on('action-submitted', submitted);
+      const state = createGameState<number>({
+        players: [
+          { name: 'Human', isAI: false },
+          { name: 'Bot', isAI: true },
+        ],
+        createPlayerState: () => 0,
+        initialPhase: 'playing',
+        events,
+      });
+      advanceTurn(state);
+
+      const turn = beginSimultaneousTurnFor<number, GamePhase, string>(state);
+      submitAction(turn, 0, 'pass');
+
+      expect(getUndecidedPlayers(turn)).toEqual([1]);
+      expect(submitted).toHaveBeenCalledWith({
+        turnNumber: 1,
+        playerIndex: 0,
+        waitingOn: [1],
+      });
+    });
+
+    it('should not begin a GameState turn outside a turn phase', () => {
+      expect(() => beginSimultaneousTurnFor(setupGame())).toThrow(
+        'Cannot begin a simultaneous turn during setup phase',
+      );
+    });
+  });
 });
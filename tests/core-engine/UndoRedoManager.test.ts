@@ -252,6 +252,46 @@ describe('UndoRedoManager', () => {
     });
   });
 
+  describe('saveHistory / restoreHistory', () => {
+    it('should round-trip both stacks through plain data', () => {
+      const counter = { value: 0 };
+      const command = (delta: number) => ({
+        ...counterCommand(counter, delta),
+        delta,
+      });
+      const mgr = new UndoRedoManager();
+      mgr.execute(command(1));
+      mgr.execute(command(2));
+      mgr.execute(command(4));
+      mgr.undo();
+
+      const saved = mgr.saveHistory((cmd) => (cmd as ReturnType<typeof command>).delta);
+      expect(saved).toEqual({ undo: [1, 2], redo: [4] });
+
+      const restored = new UndoRedoManager();
+      restored.restoreHistory(saved, command);
+      expect(counter.value).toBe(3); // restoring executes nothing
+
+      restored.redo();
+      expect(counter.value).toBe(7);
+      restored.undo();
+      restored.undo();
+      expect(counter.value).toBe(1);
+    });
+
+    it('should replace any existing history', () => {
+      const counter = { value: 0 };
+      const mgr = new UndoRedoManager();
+      mgr.execute(counterCommand(counter));
+      mgr.undo();
+
+      mgr.restoreHistory({ undo: [], redo: [] }, () => counterCommand(counter));
+
+      expect(mgr.canUndo()).toBe(false);
+      expect(mgr.canRedo()).toBe(false);
+    });
+  });
+
   describe('3-move prototype sequence', () => {
     it('should correctly handle execute -> undo -> redo', () => {
       const mgr = new UndoRedoManager();
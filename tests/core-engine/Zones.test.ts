@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HIDDEN_CARD,
+  isHiddenCard,
+  canSeePosition,
+  redactCards,
+  observeZones,
+} from '../../src/core-engine/Zones';
+import type { ZoneMap } from '../../src/core-engine/Zones';
+import { parseCards } from '../../src/card-system/Notation';
+import type { Card } from '../../src/card-system/Card';
+
+interface TestState {
+  stock: Card[];
+  discard: Card[];
+  hands: Card[][];
+}
+
+const state: TestState = {
+  stock: parseCards('2C 3C 4C'),
+  discard: parseCards('5D 6D'),
+  hands: [parseCards('AS KS'), parseCards('AH KH')],
+};
+
+const zones: ZoneMap<TestState, Card> = {
+  stock: { visibility: 'hidden', cards: (s) => s.stock },
+  discard: { visibility: 'top-card-only', cards: (s) => s.discard },
+  'hand-0': { visibility: 'owner-only', owner: 0, cards: (s) => s.hands[0] },
+  'hand-1': { visibility: 'owner-only', owner: 1, cards: (s) => s.hands[1] },
+};
+
+describe('isHiddenCard', () => {
+  it('should recognise placeholders only', () => {
+    expect(isHiddenCard(HIDDEN_CARD)).toBe(true);
+    expect(isHiddenCard(state.stock[0])).toBe(false);
+  });
+
+  it('should not expose a card id', () => {
+    expect(Object.keys(HIDDEN_CARD)).toEqual(['hidden']);
+  });
+});
+
+describe('canSeePosition', () => {
+  it('should apply each visibility policy', () => {
+    expect(canSeePosition('public', undefined, 1, 0, 3)).toBe(true);
+    expect(canSeePosition('hidden', 0, 0, 2, 3)).toBe(false);
+    expect(canSeePosition('owner-only', 0, 0, 0, 3)).toBe(true);
+    expect(canSeePosition('owner-only', 0, 1, 0, 3)).toBe(false);
+    expect(canSeePosition('top-card-only', undefined, 1, 2, 3)).toBe(true);
+    expect(canSeePosition('top-card-only', undefined, 1, 1, 3)).toBe(false);
+  });
+});
+
+describe('redactCards', () => {
+  it('should return copies of visible cards', () => {
+    const cards = parseCards('AS 2S*');
+    const observed = redactCards(cards, { visibility: 'public' }, 0);
+    expect(observed).toEqual(cards);
+    expect(observed[1]).not.toBe(cards[1]);
+
+    (observed[1] as Card).faceUp = true;
+    expect(cards[1].faceUp).toBe(false);
+  });
+
+  it('should hide face-down cards when asked, even in public zones', () => {
+    const cards = parseCards('AS 2S* 3S');
+    expect(redactCards(cards, { visibility: 'public' }, 0)[1]).toEqual(cards[1]);
+    const observed = redactCards(
+      cards,
+      { visibility: 'public', hideFaceDown: true },
+      0,
+    );
+    expect(observed.map(isHiddenCard)).toEqual([false, true, false]);
+  });
+
+  it('should hide a face-down top card of a top-card-only zone', () => {
+    const observed = redactCards(
+      parseCards('AS 2S*'),
+      { visibility: 'top-card-only', hideFaceDown: true },
+      0,
+    );
+    expect(observed.every(isHiddenCard)).toBe(true);
+  });
+});
+
+describe('observeZones', () => {
+  it('should report every zone with its size', () => {
+    const view = observeZones(state, zones, 0);
+    expect(Object.keys(view)).toEqual(['stock', 'discard', 'hand-0', 'hand-1']);
+    expect(view['stock'].size).toBe(3);
+    expect(view['stock'].visibility).toBe('hidden');
+    expect(view['hand-1'].owner).toBe(1);
+    expect('owner' in view['stock']).toBe(false);
+  });
+
+  it('should show only what the viewer may know', () => {
+    const view = observeZones(state, zones, 0);
+    expect(view['stock'].cards.every(isHiddenCard)).toBe(true);
+    expect(view['discard'].cards.map(isHiddenCard)).toEqual([true, false]);
+    expect(view['hand-0'].cards).toEqual(state.hands[0]);
+    expect(view['hand-1'].cards.every(isHiddenCard)).toBe(true);
+  });
+
+  it('should give each player their own hand', () => {
+    const view = observeZones(state, zones, 1);
+    expect(view['hand-0'].cards.every(isHiddenCard)).toBe(true);
+    expect(view['hand-1'].cards).toEqual(state.hands[1]);
+  });
+
+  it('should not leak hidden cards through serialisation', () => {
+    const json = JSON.stringify(observeZones(state, zones, 1));
+    for (const card of [...state.stock, ...state.hands[0], state.discard[0]]) {
+      expect(json).not.toContain(`"id":${card.id},`);
+    }
+  });
+});
@@ -10,8 +10,22 @@ import {
   transitionTo,
   startGame,
   endGame,
+  beginSimultaneousTurn,
+  submitAction,
+  revealActions,
   UndoRedoManager,
   CompoundCommand,
+  createTurnOrder,
+  passTurn,
+  createMatch,
+  recordRound,
+  isMatchOver,
+  createRng,
+  restoreRng,
+  encodeDealCode,
+  parseDealCode,
+  observeZones,
+  isHiddenCard,
 } from '../../src/core-engine/index';
 
 describe('core-engine barrel exports', () => {
@@ -32,6 +46,9 @@ describe('core-engine barrel exports', () => {
     expect(typeof transitionTo).toBe('function');
     expect(typeof startGame).toBe('function');
     expect(typeof endGame).toBe('function');
+    expect(typeof beginSimultaneousTurn).toBe('function');
+    expect(typeof submitAction).toBe('function');
+    expect(typeof revealActions).toBe('function');
   });
 
   it('should export UndoRedoManager and CompoundCommand', () => {
@@ -39,6 +56,30 @@ describe('core-engine barrel exports', () => {
     expect(typeof CompoundCommand).toBe('function');
   });
 
+  it('should export the turn order helpers', () => {
+    expect(passTurn(createTurnOrder({ playerCount: 2 }), 1)).toBe(0);
+  });
+
+  it('should export the match helpers', () => {
+    const match = createMatch({ playerCount: 2, length: { kind: 'rounds', rounds: 1 } });
+    recordRound(match, [1, 2]);
+    expect(isMatchOver(match)).toBe(true);
+  });
+
+  it('should export the seedable RNG', () => {
+    const rng = createRng(42);
+    expect(restoreRng(rng.getState())()).toBe(rng());
+  });
+
+  it('should export the deal code helpers', () => {
+    expect(parseDealCode(encodeDealCode(12345))).toBe(12345);
+  });
+
+  it('should export the zone helpers', () => {
+    const zones = observeZones([1, 2], { stock: { visibility: 'hidden', cards: (s: number[]) => s } }, 0);
+    expect(isHiddenCard(zones['stock'].cards[0])).toBe(true);
+  });
+
   it('should work end-to-end through barrel exports', () => {
     const state = createGameState<null>({
       players: [
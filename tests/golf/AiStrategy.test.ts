@@ -12,12 +12,16 @@ import {
   setupGolfGame,
   executeTurn,
 } from '../../example-games/golf/GolfGame';
-import type { GolfSharedState } from '../../example-games/golf/GolfGame';
+import type { GolfSession } from '../../example-games/golf/GolfGame';
+import { observeGolf } from '../../example-games/golf/GolfObservation';
+import type { GolfObservation } from '../../example-games/golf/GolfObservation';
 import { isLegalMove } from '../../example-games/golf/GolfRules';
+import type { Card } from '../../src/card-system/Card';
 import { createCard } from '../../src/card-system/Card';
-import { createGolfGrid } from '../../example-games/golf/GolfGrid';
+import { createGolfGrid, parseGolfGrid } from '../../example-games/golf/GolfGrid';
+import type { GolfGrid } from '../../example-games/golf/GolfGrid';
+import { parseCards } from '../../src/card-system/Notation';
 import { Pile } from '../../src/card-system/Pile';
-import { createRoundEndState } from '../../example-games/golf/GolfRules';
 
 // Deterministic RNG for testing
 function createTestRng(seed: number = 42): () => number {
@@ -28,32 +32,46 @@ function createTestRng(seed: number = 42): () => number {
   };
 }
 
+/** Helper: a session in which player 0 faces the given board. */
+function sessionOf(grid: GolfGrid, stockPile: Card[], discardTop: Card): GolfSession {
+  const session = setupGolfGame({ seed: 1 });
+  session.gameState.playerStates[0].grid = grid;
+  session.shared.stockPile = stockPile;
+  session.shared.discardPile = new Pile([discardTop]);
+  return session;
+}
+
+/** Helper: player 0's view of a session dealt with the given board. */
+function viewOf(grid: GolfGrid, stockPile: Card[], discardTop: Card): GolfObservation {
+  return observeGolf(sessionOf(grid, stockPile, discardTop), 0);
+}
+
 describe('RandomStrategy', () => {
   it('has the name "random"', () => {
     expect(RandomStrategy.name).toBe('random');
   });
 
-  it('chooses a legal move', () => {
+  it('chooses a draw source and a legal move', () => {
     const rng = createTestRng();
     const session = setupGolfGame({ rng: createTestRng(1) });
     const ps = session.gameState.playerStates[0];
+    const view = observeGolf(session, 0);
 
-    const action = RandomStrategy.chooseAction(ps, session.shared, rng);
+    const drawSource = RandomStrategy.chooseDrawSource(view, rng);
+    const move = RandomStrategy.chooseMove(view, createCard('5', 'clubs', true), rng);
 
-    expect(['stock', 'discard']).toContain(action.drawSource);
-    expect(isLegalMove(ps.grid, action.move)).toBe(true);
+    expect(['stock', 'discard']).toContain(drawSource);
+    expect(isLegalMove(ps.grid, move)).toBe(true);
   });
 
   it('produces different moves with different RNG seeds', () => {
     const session = setupGolfGame({ rng: createTestRng(1) });
-    const ps = session.gameState.playerStates[0];
 
     const actions = new Set<string>();
     for (let seed = 0; seed < 50; seed++) {
-      const action = RandomStrategy.chooseAction(
-        ps,
-        session.shared,
-        createTestRng(seed),
+      const action = new AiPlayer(RandomStrategy, createTestRng(seed)).chooseAction(
+        session,
+        0,
       );
       actions.add(`${action.drawSource}:${action.move.kind}:${action.move.row}:${action.move.col}`);
     }
@@ -67,16 +85,15 @@ describe('RandomStrategy', () => {
       createCard('5', 'hearts', true),
     );
     const grid = createGolfGrid(cards);
-    const ps = { grid };
-    const shared: GolfSharedState = {
-      stockPile: [createCard('A', 'clubs')],
-      discardPile: new Pile([createCard('K', 'hearts', true)]),
-      roundEnd: createRoundEndState(2),
-    };
+    const view = viewOf(
+      grid,
+      [createCard('A', 'clubs')],
+      createCard('K', 'hearts', true),
+    );
 
-    const action = RandomStrategy.chooseAction(ps, shared, createTestRng());
-    expect(action.move.kind).toBe('swap');
-    expect(isLegalMove(grid, action.move)).toBe(true);
+    const move = RandomStrategy.chooseMove(view, createCard('A', 'clubs', true), createTestRng());
+    expect(move.kind).toBe('swap');
+    expect(isLegalMove(grid, move)).toBe(true);
   });
 });
 
@@ -85,15 +102,17 @@ describe('GreedyStrategy', () => {
     expect(GreedyStrategy.name).toBe('greedy');
   });
 
-  it('chooses a legal move', () => {
+  it('chooses a draw source and a legal move', () => {
     const rng = createTestRng();
     const session = setupGolfGame({ rng: createTestRng(1) });
     const ps = session.gameState.playerStates[0];
+    const view = observeGolf(session, 0);
 
-    const action = GreedyStrategy.chooseAction(ps, session.shared, rng);
+    const drawSource = GreedyStrategy.chooseDrawSource(view, rng);
+    const move = GreedyStrategy.chooseMove(view, createCard('5', 'clubs', true), rng);
 
-    expect(['stock', 'discard']).toContain(action.drawSource);
-    expect(isLegalMove(ps.grid, action.move)).toBe(true);
+    expect(['stock', 'discard']).toContain(drawSource);
+    expect(isLegalMove(ps.grid, move)).toBe(true);
   });
 
   it('prefers swapping a high-value card when drawing a low-value card', () => {
@@ -111,17 +130,16 @@ describe('GreedyStrategy', () => {
       createCard('10', 'spades', false),
     ];
     const grid = createGolfGrid(cards);
-    const ps = { grid };
 
     // Discard pile has an Ace (1 pt) -- greedy should prefer drawing it
     // and swapping with Q or J (saving ~9 points)
-    const shared: GolfSharedState = {
-      stockPile: [createCard('7', 'diamonds')], // 7 pts -- less attractive
-      discardPile: new Pile([createCard('A', 'diamonds', true)]),
-      roundEnd: createRoundEndState(2),
-    };
+    const session = sessionOf(
+      grid,
+      [createCard('7', 'diamonds')], // 7 pts -- less attractive
+      createCard('A', 'diamonds', true),
+    );
 
-    const action = GreedyStrategy.chooseAction(ps, shared, createTestRng());
+    const action = new AiPlayer(GreedyStrategy, createTestRng()).chooseAction(session, 0);
 
     // Should draw from discard (Ace is better than 7)
     // and swap with Q or J (both 10 pts, swapping saves the most)
@@ -146,16 +164,15 @@ describe('GreedyStrategy', () => {
       createCard('2', 'hearts', false), // face-down
     ];
     const grid = createGolfGrid(cards);
-    const ps = { grid };
 
     // Stock has a King (0 pts), discard has a Queen (10 pts)
-    const shared: GolfSharedState = {
-      stockPile: [createCard('K', 'diamonds')],
-      discardPile: new Pile([createCard('Q', 'diamonds', true)]),
-      roundEnd: createRoundEndState(2),
-    };
+    const session = sessionOf(
+      grid,
+      [createCard('K', 'diamonds')],
+      createCard('Q', 'diamonds', true),
+    );
 
-    const action = GreedyStrategy.chooseAction(ps, shared, createTestRng());
+    const action = new AiPlayer(GreedyStrategy, createTestRng()).chooseAction(session, 0);
 
     // The greedy strategy should evaluate all options and pick the best.
     // With a King (0 pts) from stock, it could swap with any position.
@@ -163,6 +180,49 @@ describe('GreedyStrategy', () => {
     expect(isLegalMove(grid, action.move)).toBe(true);
   });
 
+  it('decides where a stock card goes after seeing it', () => {
+    const play = (stockTop: string) =>
+      new AiPlayer(GreedyStrategy, createTestRng()).chooseAction(
+        sessionOf(
+          parseGolfGrid('KC QH JS / 5C 8H JD / 8C* 9H* TS*'),
+          parseCards(`4C* ${stockTop}*`),
+          createCard('Q', 'diamonds', true),
+        ),
+        0,
+      );
+
+    // A low card replaces the queen
+    expect(play('2D')).toEqual({
+      drawSource: 'stock',
+      move: { kind: 'swap', row: 0, col: 1 },
+    });
+    // A jack completes the column of jacks
+    expect(play('JC')).toEqual({
+      drawSource: 'stock',
+      move: { kind: 'swap', row: 2, col: 2 },
+    });
+  });
+
+  it('does not peek at the stock or at its own face-down cards', () => {
+    const view = (stockTop: string, hidden: string) =>
+      viewOf(
+        parseGolfGrid(`KC QH JS / ${hidden} / 8C* 9H* TS*`),
+        parseCards(`4C* ${stockTop}*`),
+        createCard('6', 'diamonds', true),
+      );
+    const decide = (stockTop: string, hidden: string) => {
+      const v = view(stockTop, hidden);
+      return {
+        drawSource: GreedyStrategy.chooseDrawSource(v, createTestRng()),
+        move: GreedyStrategy.chooseMove(v, createCard('3', 'clubs', true), createTestRng()),
+      };
+    };
+
+    const baseline = decide('2D', '5C* 6H* 7S*');
+    expect(decide('QD', '5C* 6H* 7S*')).toEqual(baseline);
+    expect(decide('2D', 'KD* KH* KS*')).toEqual(baseline);
+  });
+
   it('works when only one legal move is available', () => {
     // Grid: 8 face-up, 1 face-down
     const cards = [
@@ -177,21 +237,19 @@ describe('GreedyStrategy', () => {
       createCard('3', 'spades', false), // only face-down card
     ];
     const grid = createGolfGrid(cards);
-    const ps = { grid };
-
-    const shared: GolfSharedState = {
-      stockPile: [createCard('K', 'diamonds')],
-      discardPile: new Pile([createCard('Q', 'diamonds', true)]),
-      roundEnd: createRoundEndState(2),
-    };
+    const session = sessionOf(
+      grid,
+      [createCard('K', 'diamonds')],
+      createCard('Q', 'diamonds', true),
+    );
 
-    const action = GreedyStrategy.chooseAction(ps, shared, createTestRng());
+    const action = new AiPlayer(GreedyStrategy, createTestRng()).chooseAction(session, 0);
     expect(isLegalMove(grid, action.move)).toBe(true);
   });
 });
 
 describe('AiPlayer', () => {
-  it('wraps a strategy and delegates chooseAction', () => {
+  it('wraps a strategy and plays its draw and move as one action', () => {
     const rng = createTestRng();
     const ai = new AiPlayer(RandomStrategy, rng);
     expect(ai.strategy).toBe(RandomStrategy);
@@ -199,7 +257,7 @@ describe('AiPlayer', () => {
     const session = setupGolfGame({ rng: createTestRng(1) });
     const ps = session.gameState.playerStates[0];
 
-    const action = ai.chooseAction(ps, session.shared);
+    const action = ai.chooseAction(session, 0);
     expect(isLegalMove(ps.grid, action.move)).toBe(true);
   });
 
@@ -208,7 +266,7 @@ describe('AiPlayer', () => {
     const session = setupGolfGame({ rng: createTestRng(1) });
     const ps = session.gameState.playerStates[0];
 
-    const action = ai.chooseAction(ps, session.shared);
+    const action = ai.chooseAction(session, 0);
     expect(isLegalMove(ps.grid, action.move)).toBe(true);
   });
 });
@@ -225,10 +283,9 @@ describe('Full game simulation', () => {
 
     while (session.gameState.phase !== 'ended' && turnCount < maxTurns) {
       const currentIdx = session.gameState.currentPlayerIndex;
-      const ps = session.gameState.playerStates[currentIdx];
       const ai = currentIdx === 0 ? ai0 : ai1;
 
-      const action = ai.chooseAction(ps, session.shared);
+      const action = ai.chooseAction(session, currentIdx);
       const result = executeTurn(session, action);
 
       expect(result.playerIndex).toBe(currentIdx);
@@ -251,10 +308,9 @@ describe('Full game simulation', () => {
 
     while (session.gameState.phase !== 'ended' && turnCount < maxTurns) {
       const currentIdx = session.gameState.currentPlayerIndex;
-      const ps = session.gameState.playerStates[currentIdx];
       const ai = currentIdx === 0 ? ai0 : ai1;
 
-      const action = ai.chooseAction(ps, session.shared);
+      const action = ai.chooseAction(session, currentIdx);
       const result = executeTurn(session, action);
 
       expect(result.playerIndex).toBe(currentIdx);
@@ -276,10 +332,9 @@ describe('Full game simulation', () => {
 
     while (session.gameState.phase !== 'ended' && turnCount < maxTurns) {
       const currentIdx = session.gameState.currentPlayerIndex;
-      const ps = session.gameState.playerStates[currentIdx];
       const ai = currentIdx === 0 ? ai0 : ai1;
 
-      const action = ai.chooseAction(ps, session.shared);
+      const action = ai.chooseAction(session, currentIdx);
       executeTurn(session, action);
       turnCount++;
     }
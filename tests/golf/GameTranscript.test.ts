@@ -1,5 +1,6 @@
 /**
- * Tests for GameTranscript -- TranscriptRecorder and transcript schema validation.
+ * Tests for GameTranscript -- TranscriptRecorder, transcript schema
+ * validation and the version 1 migrator.
  */
 
 import { describe, it, expect } from 'vitest';
@@ -7,18 +8,29 @@ import {
   TranscriptRecorder,
   snapshotCard,
   snapshotBoard,
+  migrateGolfTranscriptV1,
 } from '../../example-games/golf/GameTranscript';
 import type {
   GameTranscript,
-  TurnRecord,
+  GolfTranscriptAction,
+  GolfTranscriptV1,
+  GolfTableSnapshot,
   BoardSnapshot,
   CardSnapshot,
 } from '../../example-games/golf/GameTranscript';
+import { STANDARD_GOLF_VARIANT } from '../../example-games/golf/GolfVariants';
+import { upgradeTranscript } from '../../src/core-engine/Transcript';
 import { setupGolfGame, executeTurn } from '../../example-games/golf/GolfGame';
 import type { GolfAction } from '../../example-games/golf/GolfGame';
 import { AiPlayer, RandomStrategy, GreedyStrategy } from '../../example-games/golf/AiStrategy';
 import { createCard } from '../../src/card-system/Card';
 import { createGolfGrid } from '../../example-games/golf/GolfGrid';
+import {
+  serializeGolfSession,
+  deserializeGolfSession,
+} from '../../example-games/golf/GolfSave';
+import type { SavedGolfSession } from '../../example-games/golf/GolfSave';
+import { viaJson } from '../helpers/saves';
 
 // Deterministic RNG
 function createTestRng(seed: number = 42): () => number {
@@ -33,7 +45,7 @@ describe('snapshotCard', () => {
   it('creates a serializable card snapshot', () => {
     const card = createCard('A', 'spades', true);
     const snap = snapshotCard(card);
-    expect(snap).toEqual({ rank: 'A', suit: 'spades', faceUp: true });
+    expect(snap).toEqual({ id: card.id, rank: 'A', suit: 'spades', faceUp: true });
   });
 
   it('captures face-down state', () => {
@@ -83,19 +95,21 @@ describe('snapshotBoard', () => {
 
 describe('TranscriptRecorder', () => {
   it('captures initial state on construction', () => {
-    const session = setupGolfGame({ rng: createTestRng() });
+    const session = setupGolfGame({ seed: 42 });
     const recorder = new TranscriptRecorder(session, ['random', 'greedy']);
     const transcript = recorder.getTranscript();
 
-    expect(transcript.version).toBe(1);
-    expect(transcript.metadata.players).toHaveLength(2);
-    expect(transcript.metadata.players[0].strategy).toBe('random');
-    expect(transcript.metadata.players[1].strategy).toBe('greedy');
-    expect(transcript.initialState.boardStates).toHaveLength(2);
-    expect(transcript.initialState.stockRemaining).toBe(33);
-    expect(transcript.initialState.discardTop).not.toBeNull();
-    expect(transcript.turns).toHaveLength(0);
-    expect(transcript.results).toBeNull();
+    expect(transcript.version).toBe(2);
+    expect(transcript.gameType).toBe('golf');
+    expect(transcript.seed).toBe(42);
+    expect(transcript.players).toHaveLength(2);
+    expect(transcript.players[0].strategy).toBe('random');
+    expect(transcript.players[1].strategy).toBe('greedy');
+    expect(transcript.initialSnapshot!.boardStates).toHaveLength(2);
+    expect(transcript.initialSnapshot!.stockRemaining).toBe(33);
+    expect(transcript.initialSnapshot!.discardTop).not.toBeNull();
+    expect(transcript.actions).toHaveLength(0);
+    expect(transcript.result).toBeNull();
   });
 
   it('records a turn', () => {
@@ -110,17 +124,16 @@ describe('TranscriptRecorder', () => {
     recorder.recordTurn(result, action.drawSource);
 
     const transcript = recorder.getTranscript();
-    expect(transcript.turns).toHaveLength(1);
+    expect(transcript.actions).toHaveLength(1);
 
-    const turn = transcript.turns[0];
-    expect(turn.turnNumber).toBe(0);
+    const turn = transcript.actions[0];
     expect(turn.playerIndex).toBe(0);
-    expect(turn.drawSource).toBe('stock');
-    expect(turn.move.kind).toBe('swap');
-    expect(turn.drawnCard).toBeDefined();
-    expect(turn.discardedCard).toBeDefined();
-    expect(turn.boardStates).toHaveLength(2);
-    expect(turn.roundEnded).toBe(false);
+    expect(turn.action.drawSource).toBe('stock');
+    expect(turn.action.move.kind).toBe('swap');
+    expect(turn.action.drawnCard).toBeDefined();
+    expect(turn.action.discardedCard).toBeDefined();
+    expect(turn.action.roundEnded).toBe(false);
+    expect(turn.snapshot!.boardStates).toHaveLength(2);
   });
 
   it('finalizes with results', () => {
@@ -138,11 +151,11 @@ describe('TranscriptRecorder', () => {
     }
 
     const transcript = recorder.finalize();
-    expect(transcript.results).not.toBeNull();
-    expect(transcript.results!.scores).toHaveLength(2);
-    expect(transcript.results!.winnerIndex).toBeGreaterThanOrEqual(0);
-    expect(transcript.results!.winnerName).toBeTruthy();
-    expect(transcript.metadata.endedAt).toBeTruthy();
+    expect(transcript.result).not.toBeNull();
+    expect(transcript.result!.scores).toHaveLength(2);
+    expect(transcript.result!.winnerIndex).toBeGreaterThanOrEqual(0);
+    expect(transcript.result!.winnerName).toBeTruthy();
+    expect(transcript.endedAt).toBeTruthy();
   });
 });
 
@@ -158,10 +171,9 @@ describe('Full game transcript', () => {
 
     while (session.gameState.phase !== 'ended' && turnCount < maxTurns) {
       const idx = session.gameState.currentPlayerIndex;
-      const ps = session.gameState.playerStates[idx];
       const ai = idx === 0 ? ai0 : ai1;
 
-      const action = ai.chooseAction(ps, session.shared);
+      const action = ai.chooseAction(session, idx);
       const result = executeTurn(session, action);
       recorder.recordTurn(result, action.drawSource);
       turnCount++;
@@ -184,10 +196,9 @@ describe('Full game transcript', () => {
 
     while (session.gameState.phase !== 'ended' && turnCount < maxTurns) {
       const idx = session.gameState.currentPlayerIndex;
-      const ps = session.gameState.playerStates[idx];
       const ai = idx === 0 ? ai0 : ai1;
 
-      const action = ai.chooseAction(ps, session.shared);
+      const action = ai.chooseAction(session, idx);
       const result = executeTurn(session, action);
       recorder.recordTurn(result, action.drawSource);
       turnCount++;
@@ -207,8 +218,7 @@ describe('Full game transcript', () => {
     let turnCount = 0;
     while (session.gameState.phase !== 'ended' && turnCount < 200) {
       const idx = session.gameState.currentPlayerIndex;
-      const ps = session.gameState.playerStates[idx];
-      const action = ai.chooseAction(ps, session.shared);
+      const action = ai.chooseAction(session, idx);
       const result = executeTurn(session, action);
       recorder.recordTurn(result, action.drawSource);
       turnCount++;
@@ -218,51 +228,152 @@ describe('Full game transcript', () => {
     const json = JSON.stringify(transcript);
     const parsed: GameTranscript = JSON.parse(json);
 
-    expect(parsed.version).toBe(1);
-    expect(parsed.turns.length).toBe(transcript.turns.length);
-    expect(parsed.results).toEqual(transcript.results);
-    expect(parsed.metadata).toEqual(transcript.metadata);
+    expect(parsed.version).toBe(2);
+    expect(parsed.actions.length).toBe(transcript.actions.length);
+    expect(parsed.result).toEqual(transcript.result);
+    expect(parsed.players).toEqual(transcript.players);
+  });
+});
+
+describe('Resuming a transcript', () => {
+  it('continues recording a hole restored from a save', () => {
+    const session = setupGolfGame({ seed: 31 });
+    const recorder = new TranscriptRecorder(session, [undefined, 'greedy']);
+    const ai = new AiPlayer(GreedyStrategy, createTestRng(32));
+    let saved: { session: SavedGolfSession; transcript: GameTranscript } | null = null;
+
+    while (session.gameState.phase !== 'ended') {
+      if (recorder.getTranscript().actions.length === 6) {
+        saved = viaJson({
+          session: serializeGolfSession(session),
+          transcript: recorder.getTranscript(),
+        });
+      }
+      const action = ai.chooseAction(session, session.gameState.currentPlayerIndex);
+      recorder.recordTurn(executeTurn(session, action), action.drawSource);
+    }
+    const original = recorder.finalize();
+
+    // Resume after six turns and play the rest of the same moves
+    const resumed = deserializeGolfSession(saved!.session);
+    const resumedRecorder = new TranscriptRecorder(resumed, [], saved!.transcript);
+    for (const { action } of original.actions.slice(6)) {
+      const { drawSource, move } = action;
+      resumedRecorder.recordTurn(executeTurn(resumed, { drawSource, move }), drawSource);
+    }
+    const transcript = resumedRecorder.finalize();
+
+    expect(transcript.initialSnapshot).toEqual(original.initialSnapshot);
+    expect(transcript.actions).toEqual(original.actions);
+    expect(transcript.result).toEqual(original.result);
+  });
+
+  it('rejects a transcript of another deal', () => {
+    const transcript = new TranscriptRecorder(setupGolfGame({ seed: 1 })).getTranscript();
+    expect(
+      () => new TranscriptRecorder(setupGolfGame({ seed: 2 }), [], transcript),
+    ).toThrow('Transcript does not belong to the hole in play');
+  });
+});
+
+// ── Version 1 migration ─────────────────────────────────────
+
+describe('migrateGolfTranscriptV1', () => {
+  /** Record a short game and write it out in the version 1 format. */
+  function recordV1(): { v2: GameTranscript; v1: GolfTranscriptV1 } {
+    const session = setupGolfGame({ seed: 900 });
+    const recorder = new TranscriptRecorder(session, [undefined, 'greedy']);
+    for (let i = 0; i < 3; i++) {
+      const action: GolfAction = {
+        drawSource: 'stock',
+        move: { kind: 'swap', row: 2, col: i },
+      };
+      recorder.recordTurn(executeTurn(session, action), action.drawSource);
+    }
+    const v2 = recorder.finalize();
+    const v1: GolfTranscriptV1 = {
+      version: 1,
+      metadata: {
+        startedAt: v2.startedAt,
+        endedAt: v2.endedAt,
+        players: v2.players,
+        variant: v2.variant,
+      },
+      initialState: v2.initialSnapshot!,
+      turns: v2.actions.map((a, i) => ({
+        turnNumber: i,
+        playerIndex: a.playerIndex!,
+        playerName: v2.players[a.playerIndex!].name,
+        ...a.action,
+        ...a.snapshot!,
+      })),
+      results: v2.result,
+    };
+    return { v2, v1 };
+  }
+
+  it('carries turns, table snapshots and results over', () => {
+    const { v1, v2 } = recordV1();
+    const migrated = migrateGolfTranscriptV1(v1);
+
+    expect(migrated).toEqual({ ...v2, seed: null });
+  });
+
+  it('defaults to the standard rules when the variant is missing', () => {
+    const { v1 } = recordV1();
+    delete v1.metadata.variant;
+    expect(migrateGolfTranscriptV1(v1).variant).toEqual(STANDARD_GOLF_VARIANT);
+  });
+
+  it('upgrades stored version 1 transcripts through upgradeTranscript', () => {
+    const { v1 } = recordV1();
+    const upgraded = upgradeTranscript('golf', v1, { golf: migrateGolfTranscriptV1 });
+
+    expect(upgraded.version).toBe(2);
+    expect(upgraded.actions).toHaveLength(3);
   });
 });
 
 // ── Schema validation helper ────────────────────────────────
 
 function validateTranscript(t: GameTranscript): void {
-  // Version
-  expect(t.version).toBe(1);
-
-  // Metadata
-  expect(t.metadata.startedAt).toBeTruthy();
-  expect(t.metadata.endedAt).toBeTruthy();
-  expect(t.metadata.players.length).toBeGreaterThanOrEqual(2);
-  for (const p of t.metadata.players) {
+  // Envelope
+  expect(t.version).toBe(2);
+  expect(t.gameType).toBe('golf');
+  expect(t.startedAt).toBeTruthy();
+  expect(t.endedAt).toBeTruthy();
+  expect(t.players.length).toBeGreaterThanOrEqual(2);
+  for (const p of t.players) {
     expect(typeof p.name).toBe('string');
     expect(typeof p.isAI).toBe('boolean');
   }
 
   // Initial state
-  expect(t.initialState.boardStates.length).toBe(t.metadata.players.length);
-  for (const bs of t.initialState.boardStates) {
-    validateBoardSnapshot(bs);
-  }
-  expect(typeof t.initialState.stockRemaining).toBe('number');
+  validateTableSnapshot(t.initialSnapshot!, t.players.length);
 
   // Turns
-  expect(t.turns.length).toBeGreaterThan(0);
-  for (let i = 0; i < t.turns.length; i++) {
-    const turn = t.turns[i];
-    validateTurnRecord(turn, i, t.metadata.players.length);
+  expect(t.actions.length).toBeGreaterThan(0);
+  for (const turn of t.actions) {
+    validateTurn(turn, t.players.length);
   }
 
   // The last turn should have roundEnded = true
-  expect(t.turns[t.turns.length - 1].roundEnded).toBe(true);
+  expect(t.actions[t.actions.length - 1].action.roundEnded).toBe(true);
 
   // Results
-  expect(t.results).not.toBeNull();
-  expect(t.results!.scores.length).toBe(t.metadata.players.length);
-  expect(t.results!.winnerIndex).toBeGreaterThanOrEqual(0);
-  expect(t.results!.winnerIndex).toBeLessThan(t.metadata.players.length);
-  expect(typeof t.results!.winnerName).toBe('string');
+  expect(t.result).not.toBeNull();
+  expect(t.result!.scores.length).toBe(t.players.length);
+  expect(t.result!.winnerIndex).toBeGreaterThanOrEqual(0);
+  expect(t.result!.winnerIndex).toBeLessThan(t.players.length);
+  expect(typeof t.result!.winnerName).toBe('string');
+}
+
+function validateTableSnapshot(table: GolfTableSnapshot, playerCount: number): void {
+  expect(table.boardStates).toHaveLength(playerCount);
+  for (const bs of table.boardStates) {
+    validateBoardSnapshot(bs);
+  }
+  expect(typeof table.stockRemaining).toBe('number');
 }
 
 function validateBoardSnapshot(bs: BoardSnapshot): void {
@@ -277,25 +388,15 @@ function validateBoardSnapshot(bs: BoardSnapshot): void {
   expect(typeof bs.totalScore).toBe('number');
 }
 
-function validateTurnRecord(
-  turn: TurnRecord,
-  expectedIndex: number,
-  playerCount: number,
-): void {
-  expect(turn.turnNumber).toBe(expectedIndex);
+function validateTurn(turn: GolfTranscriptAction, playerCount: number): void {
   expect(turn.playerIndex).toBeGreaterThanOrEqual(0);
   expect(turn.playerIndex).toBeLessThan(playerCount);
-  expect(typeof turn.playerName).toBe('string');
-  expect(['stock', 'discard']).toContain(turn.drawSource);
-  validateCardSnapshot(turn.drawnCard);
-  expect(['swap', 'discard-and-flip']).toContain(turn.move.kind);
-  validateCardSnapshot(turn.discardedCard);
-  expect(turn.boardStates).toHaveLength(playerCount);
-  for (const bs of turn.boardStates) {
-    validateBoardSnapshot(bs);
-  }
-  expect(typeof turn.stockRemaining).toBe('number');
-  expect(typeof turn.roundEnded).toBe('boolean');
+  expect(['stock', 'discard']).toContain(turn.action.drawSource);
+  validateCardSnapshot(turn.action.drawnCard);
+  expect(['swap', 'discard-and-flip']).toContain(turn.action.move.kind);
+  validateCardSnapshot(turn.action.discardedCard);
+  expect(typeof turn.action.roundEnded).toBe('boolean');
+  validateTableSnapshot(turn.snapshot!, playerCount);
 }
 
 function validateCardSnapshot(cs: CardSnapshot): void {
@@ -8,13 +8,25 @@ import {
   enumerateLegalMoves,
   enumerateDrawSources,
   executeTurn,
+  validateAction,
+  GolfRuleSet,
+  GolfCardConservation,
 } from '../../example-games/golf/GolfGame';
+import {
+  assertCardUniverse,
+  collectCards,
+  diffCards,
+  isConserved,
+} from '../../src/rule-engine/CardConservation';
+import type { GolfTurnRecord } from '../../example-games/golf/GolfGame';
 import { countFaceUp, isGridFullyRevealed } from '../../example-games/golf/GolfGrid';
 import { createCard } from '../../src/card-system/Card';
 import { createGolfGrid } from '../../example-games/golf/GolfGrid';
 import type { GolfSharedState } from '../../example-games/golf/GolfGame';
 import { Pile } from '../../src/card-system/Pile';
 import { createRoundEndState } from '../../example-games/golf/GolfRules';
+import { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import { STANDARD_GOLF_VARIANT } from '../../example-games/golf/GolfVariants';
 
 // Deterministic RNG for testing (simple LCG)
 function createTestRng(seed: number = 42): () => number {
@@ -35,6 +47,15 @@ describe('setupGolfGame', () => {
     expect(session.gameState.turnNumber).toBe(0);
   });
 
+  it('reproduces the deal from a seed', () => {
+    const a = setupGolfGame({ seed: 1234 });
+    const b = setupGolfGame({ seed: 1234 });
+    expect(a.seed).toBe(1234);
+    expect(b.shared.stockPile).toEqual(a.shared.stockPile);
+    expect(b.gameState.playerStates).toEqual(a.gameState.playerStates);
+    expect(setupGolfGame({ seed: 99 }).shared.stockPile).not.toEqual(a.shared.stockPile);
+  });
+
   it('deals 9 cards per player', () => {
     const session = setupGolfGame({ rng: createTestRng() });
     for (const ps of session.gameState.playerStates) {
@@ -131,6 +152,7 @@ describe('enumerateDrawSources', () => {
       stockPile: [createCard('A', 'clubs')],
       discardPile: new Pile([createCard('K', 'hearts', true)]),
       roundEnd: createRoundEndState(2),
+      variant: STANDARD_GOLF_VARIANT,
     };
     const sources = enumerateDrawSources(shared);
     expect(sources).toContain('stock');
@@ -142,6 +164,7 @@ describe('enumerateDrawSources', () => {
       stockPile: [createCard('A', 'clubs')],
       discardPile: new Pile(),
       roundEnd: createRoundEndState(2),
+      variant: STANDARD_GOLF_VARIANT,
     };
     const sources = enumerateDrawSources(shared);
     expect(sources).toEqual(['stock']);
@@ -218,4 +241,185 @@ describe('executeTurn', () => {
     expect(finalResult.roundEnded).toBe(true);
     expect(session.gameState.phase).toBe('ended');
   });
+
+  it('announces the final round and the last turn', () => {
+    const events = new GameEventEmitter();
+    const announced: string[] = [];
+    events.on('final-round-started', ({ triggeringPlayerIndex }) =>
+      announced.push(`final round by ${triggeringPlayerIndex}`),
+    );
+    events.on('last-turn', ({ playerIndex }) =>
+      announced.push(`last turn for ${playerIndex}`),
+    );
+    const session = setupGolfGame({ rng: createTestRng(), firstPlayerIndex: 1, events });
+    for (const card of session.gameState.playerStates[1].grid) card.faceUp = true;
+
+    executeTurn(session, {
+      drawSource: 'stock',
+      move: { kind: 'swap', row: 0, col: 0 },
+    });
+
+    expect(announced).toEqual(['final round by 1', 'last turn for 0']);
+    expect(session.gameState.currentPlayerIndex).toBe(0);
+    expect(session.shared.roundEnd.currentPlayerIndex).toBe(0);
+  });
+
+  it('emits phase-changed when the round starts, ends and is reopened', () => {
+    const events = new GameEventEmitter();
+    const changes: string[] = [];
+    events.on('phase-changed', ({ from, to }) => changes.push(`${from} -> ${to}`));
+    const session = setupGolfGame({ rng: createTestRng(), events });
+    for (const card of session.gameState.playerStates[0].grid) card.faceUp = true;
+
+    executeTurn(session, {
+      drawSource: 'stock',
+      move: { kind: 'swap', row: 0, col: 0 },
+    });
+    const lastTurn = {
+      drawSource: 'stock',
+      move: { kind: 'swap', row: 0, col: 0 },
+    } as const;
+    const record = GolfRuleSet.apply(session, lastTurn);
+    expect(session.gameState.phase).toBe('ended');
+    GolfRuleSet.undo(session, lastTurn, record);
+
+    expect(changes).toEqual(['setup -> playing', 'playing -> ended', 'ended -> playing']);
+  });
+});
+
+describe('validateAction', () => {
+  it('accepts a legal action', () => {
+    const session = setupGolfGame({ rng: createTestRng() });
+    expect(
+      validateAction(session, { drawSource: 'stock', move: { kind: 'swap', row: 1, col: 1 } }),
+    ).toEqual({ valid: true });
+  });
+
+  it('rejects flipping a face-up card with CARD_ALREADY_FACE_UP', () => {
+    const session = setupGolfGame({ rng: createTestRng() });
+    const result = validateAction(session, {
+      drawSource: 'stock',
+      move: { kind: 'discard-and-flip', row: 0, col: 0 },
+    });
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.code).toBe('CARD_ALREADY_FACE_UP');
+  });
+
+  it('rejects drawing from an empty stock with STOCK_EMPTY', () => {
+    const session = setupGolfGame({ rng: createTestRng() });
+    session.shared.stockPile.length = 0;
+    const result = validateAction(session, {
+      drawSource: 'stock',
+      move: { kind: 'swap', row: 0, col: 0 },
+    });
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.code).toBe('STOCK_EMPTY');
+  });
+
+  it('rejects actions once the round has ended with GAME_NOT_PLAYING', () => {
+    const session = setupGolfGame({ rng: createTestRng() });
+    session.gameState.phase = 'ended';
+    const result = validateAction(session, {
+      drawSource: 'stock',
+      move: { kind: 'swap', row: 0, col: 0 },
+    });
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.code).toBe('GAME_NOT_PLAYING');
+  });
+});
+
+describe('GolfRuleSet', () => {
+  it('enumerates every draw source combined with every legal move', () => {
+    const session = setupGolfGame({ rng: createTestRng() });
+    const grid = session.gameState.playerStates[0].grid;
+    const actions = GolfRuleSet.enumerateMoves(session);
+    expect(actions).toHaveLength(2 * enumerateLegalMoves(grid).length);
+    for (const action of actions) {
+      expect(GolfRuleSet.validate(session, action).valid).toBe(true);
+    }
+  });
+
+  it('undo restores the session after a swap from the discard pile', () => {
+    const session = setupGolfGame({ rng: createTestRng() });
+    const grid = session.gameState.playerStates[0].grid;
+    const before = grid.map((c) => ({ ...c }));
+    const discardTop = session.shared.discardPile.peek()!;
+    const action = { drawSource: 'discard' as const, move: { kind: 'swap' as const, row: 2, col: 2 } };
+
+    const record = GolfRuleSet.apply(session, action);
+    expect(session.gameState.currentPlayerIndex).toBe(1);
+
+    GolfRuleSet.undo(session, action, record);
+    expect(grid.map((c) => ({ ...c }))).toEqual(before);
+    expect(session.shared.discardPile.peek()).toBe(discardTop);
+    expect(session.shared.discardPile.size()).toBe(1);
+    expect(session.gameState.currentPlayerIndex).toBe(0);
+    expect(session.gameState.turnNumber).toBe(0);
+  });
+
+  it('undo restores the stock and face-down card after discard-and-flip', () => {
+    const session = setupGolfGame({ rng: createTestRng() });
+    const stockSize = session.shared.stockPile.length;
+    const stockTop = session.shared.stockPile[stockSize - 1];
+    const action = {
+      drawSource: 'stock' as const,
+      move: { kind: 'discard-and-flip' as const, row: 1, col: 0 },
+    };
+
+    const record: GolfTurnRecord = GolfRuleSet.apply(session, action);
+    GolfRuleSet.undo(session, action, record);
+
+    expect(session.shared.stockPile).toHaveLength(stockSize);
+    expect(session.shared.stockPile[stockSize - 1]).toBe(stockTop);
+    expect(stockTop.faceUp).toBe(false);
+    expect(session.gameState.playerStates[0].grid[3].faceUp).toBe(false);
+  });
+
+  it('undo reopens a round that the turn ended', () => {
+    const session = setupGolfGame({ rng: createTestRng() });
+    for (const card of session.gameState.playerStates[0].grid) card.faceUp = true;
+    const trigger = { drawSource: 'stock' as const, move: { kind: 'swap' as const, row: 0, col: 0 } };
+    GolfRuleSet.apply(session, trigger);
+
+    const final = { drawSource: 'stock' as const, move: { kind: 'swap' as const, row: 0, col: 0 } };
+    const record = GolfRuleSet.apply(session, final);
+    expect(record.roundEnded).toBe(true);
+    expect(session.gameState.phase).toBe('ended');
+
+    GolfRuleSet.undo(session, final, record);
+    expect(session.gameState.phase).toBe('playing');
+    expect(session.gameState.currentPlayerIndex).toBe(1);
+    expect(session.shared.roundEnd.triggeringPlayerIndex).toBe(0);
+    expect(session.shared.roundEnd.finalTurnsOwed).toEqual([1]);
+  });
+});
+
+describe('GolfCardConservation', () => {
+  it('should account for the whole deck after setup', () => {
+    const session = setupGolfGame({ playerCount: 3, seed: 5 });
+    expect(collectCards(GolfCardConservation, session)).toHaveLength(52);
+    expect(() => assertCardUniverse(GolfCardConservation, session)).not.toThrow();
+  });
+
+  it('should keep every card through a turn and its undo', () => {
+    const session = setupGolfGame({ seed: 5 });
+    const before = collectCards(GolfCardConservation, session);
+    const action = GolfRuleSet.enumerateMoves(session)[0];
+    const record = GolfRuleSet.apply(session, action);
+    expect(
+      isConserved(diffCards(before, collectCards(GolfCardConservation, session))),
+    ).toBe(true);
+    GolfRuleSet.undo(session, action, record);
+    expect(
+      isConserved(diffCards(before, collectCards(GolfCardConservation, session))),
+    ).toBe(true);
+  });
+
+  it('should catch a duplicated card', () => {
+    const session = setupGolfGame({ seed: 5 });
+    session.shared.discardPile.push(session.shared.stockPile[0]);
+    expect(() => assertCardUniverse(GolfCardConservation, session)).toThrow(
+      /unexpected .* \(in stock\+discard\)/,
+    );
+  });
 });
@@ -8,6 +8,11 @@ import {
   getGridCard,
   isGridFullyRevealed,
   countFaceUp,
+  formatGolfGrid,
+  parseGolfGrid,
+  gridColumns,
+  gridShape,
+  layoutShape,
 } from '../../example-games/golf/GolfGrid';
 import type { GolfGrid } from '../../example-games/golf/GolfGrid';
 
@@ -138,4 +143,61 @@ describe('GolfGrid', () => {
       expect(countFaceUp(grid)).toBe(3);
     });
   });
+
+  describe('notation', () => {
+    it('should format a grid one row per slash', () => {
+      const grid = makeGrid();
+      grid[0].faceUp = true;
+      expect(formatGolfGrid(grid)).toBe('AS 2H* 3D* / 4C* 5S* 6H* / 7D* 8C* 9S*');
+    });
+
+    it('should round-trip through parseGolfGrid', () => {
+      const text = 'AS* TH KC* / 4D* 5S* 6H* / 7C* 8D* BJ';
+      const grid = parseGolfGrid(text);
+      expect(grid[1]).toEqual(createCard('10', 'hearts', true));
+      expect(formatGolfGrid(grid)).toBe(text);
+    });
+
+    it('should parse the smaller layouts', () => {
+      expect(parseGolfGrid('AS 2H 3C / 4D 5S 6H')).toHaveLength(6);
+      expect(formatGolfGrid(parseGolfGrid('AS 2H / 3C 4D'))).toBe('AS 2H / 3C 4D');
+    });
+
+    it('should reject notation that matches no layout', () => {
+      expect(() => parseGolfGrid('AS 2H / 3C 4D / 5S 6H')).toThrow(
+        'GolfGrid notation must have 3 rows of 3, 2 rows of 3 or 2 rows of 2 cards',
+      );
+      expect(() => parseGolfGrid('AS 2H / 3C 4D 5S / 6H 7C 8D 9S')).toThrow(
+        'GolfGrid notation must have 3 rows of 3, 2 rows of 3 or 2 rows of 2 cards',
+      );
+    });
+  });
+
+  describe('shapes', () => {
+    it('should read a layout as rows x columns', () => {
+      expect(layoutShape('3x3')).toEqual({ rows: 3, cols: 3 });
+      expect(layoutShape('2x3')).toEqual({ rows: 2, cols: 3 });
+      expect(layoutShape('2x2')).toEqual({ rows: 2, cols: 2 });
+    });
+
+    it('should tell a grid\'s shape from its size', () => {
+      expect(gridShape(makeGrid())).toEqual({ rows: 3, cols: 3 });
+      expect(gridShape(parseGolfGrid('AS 2H 3C / 4D 5S 6H'))).toEqual({ rows: 2, cols: 3 });
+      expect(() => gridShape([1, 2, 3])).toThrow('exactly 9, 6 or 4 cards, got 3');
+    });
+
+    it('should index and split a 2x3 grid by its shape', () => {
+      const grid = parseGolfGrid('AS 2H 3C / 4D 5S 6H');
+      const shape = gridShape(grid);
+      expect(gridIndex(1, 2, shape)).toBe(5);
+      expect(gridPosition(4, shape)).toEqual({ row: 1, col: 1 });
+      expect(() => gridIndex(2, 0, shape)).toThrow('out of bounds (valid: 0-1, 0-2)');
+      expect(getGridCard(grid, 1, 0).rank).toBe('4');
+      expect(gridColumns(grid).map((col) => col.map((c) => c.rank))).toEqual([
+        ['A', '4'],
+        ['2', '5'],
+        ['3', '6'],
+      ]);
+    });
+  });
 });
@@ -0,0 +1,123 @@
+/**
+ * Tests for GolfMatch -- the 9-hole match built on the core match layer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  setupGolfMatch,
+  holeSeed,
+  isHoleOver,
+  isHoleScored,
+  finishHole,
+  startNextHole,
+  GOLF_MATCH_HOLES,
+} from '../../example-games/golf/GolfMatch';
+import type { GolfMatch } from '../../example-games/golf/GolfMatch';
+import { setupGolfGame, executeTurn } from '../../example-games/golf/GolfGame';
+import { scoreGrid } from '../../example-games/golf/GolfScoring';
+import { AiPlayer, GreedyStrategy } from '../../example-games/golf/AiStrategy';
+import {
+  getMatchTotals,
+  getMatchWinnerIndex,
+  isMatchOver,
+} from '../../src/core-engine/Match';
+import { createRng } from '../../src/core-engine/Rng';
+
+/** Helper: play the current hole out with greedy AIs. */
+function playHole(golfMatch: GolfMatch): void {
+  const ai = new AiPlayer(GreedyStrategy, createRng(golfMatch.hole.seed).fork('ai'));
+  const { gameState } = golfMatch.hole;
+  let turns = 0;
+  while (gameState.phase !== 'ended' && turns < 200) {
+    executeTurn(
+      golfMatch.hole,
+      ai.chooseAction(golfMatch.hole, gameState.currentPlayerIndex),
+    );
+    turns++;
+  }
+}
+
+describe('GolfMatch', () => {
+  it('deals the first hole from the match seed', () => {
+    const golfMatch = setupGolfMatch({ seed: 1234 });
+    const single = setupGolfGame({ seed: 1234 });
+
+    expect(golfMatch.holeIndex).toBe(0);
+    expect(golfMatch.hole.seed).toBe(1234);
+    expect(golfMatch.hole.shared.stockPile).toEqual(single.shared.stockPile);
+    expect(golfMatch.hole.gameState.currentPlayerIndex).toBe(0);
+  });
+
+  it('derives a different, reproducible seed for each later hole', () => {
+    expect(holeSeed(1234, 0)).toBe(1234);
+    expect(holeSeed(1234, 3)).toBe(holeSeed(1234, 3));
+    expect(holeSeed(1234, 3)).not.toBe(holeSeed(1234, 4));
+  });
+
+  it('scores a finished hole onto the scorecard', () => {
+    const golfMatch = setupGolfMatch({ seed: 7 });
+    playHole(golfMatch);
+
+    expect(isHoleOver(golfMatch)).toBe(true);
+    expect(isHoleScored(golfMatch)).toBe(false);
+    const expected = golfMatch.hole.gameState.playerStates.map((ps) =>
+      scoreGrid(ps.grid),
+    );
+    expect(finishHole(golfMatch)).toEqual(expected);
+    expect(golfMatch.match.roundScores).toEqual([expected]);
+    expect(isHoleScored(golfMatch)).toBe(true);
+    expect(() => finishHole(golfMatch)).toThrow('already been scored');
+  });
+
+  it('refuses to score a hole still in play or skip an unscored one', () => {
+    const golfMatch = setupGolfMatch({ seed: 7 });
+
+    expect(() => finishHole(golfMatch)).toThrow('Hole 1 is still being played');
+    expect(() => startNextHole(golfMatch)).toThrow('has not been scored');
+  });
+
+  it('rotates the lead and deals a new hole', () => {
+    const golfMatch = setupGolfMatch({ seed: 7 });
+    playHole(golfMatch);
+    finishHole(golfMatch);
+    const hole = startNextHole(golfMatch);
+
+    expect(golfMatch.holeIndex).toBe(1);
+    expect(golfMatch.hole).toBe(hole);
+    expect(hole.seed).toBe(holeSeed(7, 1));
+    expect(hole.gameState.phase).toBe('playing');
+    expect(hole.gameState.currentPlayerIndex).toBe(1);
+    expect(hole.gameState.players.map((p) => p.name)).toEqual([
+      'Player 1',
+      'Player 2',
+    ]);
+  });
+
+  it('plays a classic 9-hole match to a low-score winner', () => {
+    const golfMatch = setupGolfMatch({ seed: 99 });
+
+    for (let hole = 0; hole < GOLF_MATCH_HOLES; hole++) {
+      if (hole > 0) startNextHole(golfMatch);
+      playHole(golfMatch);
+      finishHole(golfMatch);
+    }
+
+    expect(isMatchOver(golfMatch.match)).toBe(true);
+    expect(golfMatch.match.roundScores).toHaveLength(9);
+    expect(() => startNextHole(golfMatch)).toThrow('the match is over');
+
+    const totals = getMatchTotals(golfMatch.match);
+    const winner = getMatchWinnerIndex(golfMatch.match);
+    if (winner !== -1) {
+      expect(totals[winner]).toBe(Math.min(...totals));
+    }
+  });
+
+  it('supports shorter matches', () => {
+    const golfMatch = setupGolfMatch({ seed: 3, holes: 1 });
+    playHole(golfMatch);
+    finishHole(golfMatch);
+
+    expect(isMatchOver(golfMatch.match)).toBe(true);
+  });
+});
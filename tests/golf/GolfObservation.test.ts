@@ -0,0 +1,101 @@
+/**
+ * Tests for GolfObservation -- per-player views of a Golf session.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  golfZones,
+  observeGolf,
+  unseenCards,
+} from '../../example-games/golf/GolfObservation';
+import { setupGolfGame } from '../../example-games/golf/GolfGame';
+import { isHiddenCard } from '../../src/core-engine/Zones';
+
+describe('golfZones', () => {
+  it('should define the stock, discard and one grid per player', () => {
+    expect(Object.keys(golfZones(3))).toEqual([
+      'stock',
+      'discard',
+      'grid-0',
+      'grid-1',
+      'grid-2',
+    ]);
+  });
+});
+
+describe('observeGolf', () => {
+  const session = setupGolfGame({ seed: 7 });
+
+  it('should reveal only the size of the stock', () => {
+    const view = observeGolf(session, 0);
+    expect(view.stockSize).toBe(session.shared.stockPile.length);
+    expect(view.zones['stock'].cards.every(isHiddenCard)).toBe(true);
+  });
+
+  it('should show the discard top only', () => {
+    const session = setupGolfGame({ seed: 7 });
+    const buried = session.shared.stockPile.pop()!;
+    buried.faceUp = true;
+    session.shared.discardPile.push(buried);
+    session.shared.discardPile.push(
+      Object.assign(session.shared.stockPile.pop()!, { faceUp: true }),
+    );
+
+    const view = observeGolf(session, 1);
+    expect(view.discardTop).toEqual(session.shared.discardPile.peek());
+    expect(view.zones['discard'].cards.map(isHiddenCard)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it('should hide face-down grid cards from everyone, owner included', () => {
+    for (const viewer of [0, 1]) {
+      const view = observeGolf(session, viewer);
+      for (const [p, grid] of view.grids.entries()) {
+        const real = session.gameState.playerStates[p].grid;
+        grid.forEach((card, i) => {
+          expect(isHiddenCard(card)).toBe(!real[i].faceUp);
+        });
+      }
+    }
+  });
+});
+
+describe('unseenCards', () => {
+  it('should remove every visible card from the deck, by id', () => {
+    const session = setupGolfGame({ seed: 11 });
+    const visible = [
+      ...session.gameState.playerStates.flatMap((p) =>
+        p.grid.filter((c) => c.faceUp),
+      ),
+      ...session.shared.discardPile.toArray().slice(-1),
+    ];
+    const unseen = unseenCards(observeGolf(session, 0));
+    const ids = new Set(unseen.map((c) => c.id));
+
+    // Both players' face-up cards and the discard top
+    expect(unseen).toHaveLength(52 - visible.length);
+    for (const card of visible) expect(ids.has(card.id)).toBe(false);
+    for (const card of session.shared.stockPile) {
+      expect(ids.has(card.id)).toBe(true);
+    }
+  });
+
+  it('should treat face-down cards as unseen', () => {
+    const session = setupGolfGame({ seed: 11 });
+    const faceDown = session.gameState.playerStates[1].grid.filter(
+      (c) => !c.faceUp,
+    );
+    const ids = new Set(unseenCards(observeGolf(session, 0)).map((c) => c.id));
+    for (const card of faceDown) expect(ids.has(card.id)).toBe(true);
+  });
+
+  it('should be the same for every observer', () => {
+    const session = setupGolfGame({ seed: 5 });
+    expect(unseenCards(observeGolf(session, 1))).toEqual(
+      unseenCards(observeGolf(session, 0)),
+    );
+  });
+});
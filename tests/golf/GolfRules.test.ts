@@ -1,12 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import { createCard } from '../../src/card-system/Card';
+import { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
 import { createGolfGrid } from '../../example-games/golf/GolfGrid';
 import type { GolfGrid } from '../../example-games/golf/GolfGrid';
 import {
-  checkMoveLegality,
+  validateGolfMove,
   isLegalMove,
   applyMove,
-  checkInitialReveal,
+  validateInitialReveal,
   applyInitialReveal,
   createRoundEndState,
   checkRoundEnd,
@@ -46,43 +47,45 @@ function makeRevealedGrid(): GolfGrid {
 }
 
 describe('GolfRules', () => {
-  describe('checkMoveLegality', () => {
+  describe('validateGolfMove', () => {
     it('should accept a valid swap move', () => {
       const grid = makeGrid();
       const move: GolfMove = { kind: 'swap', row: 1, col: 1 };
-      const result = checkMoveLegality(grid, move);
-      expect(result.legal).toBe(true);
+      const result = validateGolfMove(grid, move);
+      expect(result.valid).toBe(true);
     });
 
     it('should accept a valid discard-and-flip on a face-down card', () => {
       const grid = makeGrid();
       const move: GolfMove = { kind: 'discard-and-flip', row: 0, col: 0 };
-      const result = checkMoveLegality(grid, move);
-      expect(result.legal).toBe(true);
+      const result = validateGolfMove(grid, move);
+      expect(result.valid).toBe(true);
     });
 
     it('should reject discard-and-flip on a face-up card', () => {
       const grid = makeGrid();
       grid[0].faceUp = true; // (0,0) is now face-up
       const move: GolfMove = { kind: 'discard-and-flip', row: 0, col: 0 };
-      const result = checkMoveLegality(grid, move);
-      expect(result.legal).toBe(false);
-      expect(result.legal === false && result.reason).toContain('already face-up');
+      const result = validateGolfMove(grid, move);
+      expect(result).toMatchObject({
+        valid: false,
+        code: 'CARD_ALREADY_FACE_UP',
+        params: { row: 0, col: 0 },
+      });
     });
 
     it('should reject out-of-bounds positions', () => {
       const grid = makeGrid();
       const move: GolfMove = { kind: 'swap', row: 3, col: 0 };
-      const result = checkMoveLegality(grid, move);
-      expect(result.legal).toBe(false);
-      expect(result.legal === false && result.reason).toContain('out of bounds');
+      const result = validateGolfMove(grid, move);
+      expect(result).toMatchObject({ valid: false, code: 'POSITION_OUT_OF_BOUNDS' });
     });
 
     it('should reject negative positions', () => {
       const grid = makeGrid();
       const move: GolfMove = { kind: 'swap', row: -1, col: 0 };
-      const result = checkMoveLegality(grid, move);
-      expect(result.legal).toBe(false);
+      const result = validateGolfMove(grid, move);
+      expect(result.valid).toBe(false);
     });
 
     it('should allow swap on a face-up card (replacing it)', () => {
@@ -156,14 +159,18 @@ describe('GolfRules', () => {
         { row: 1, col: 1 },
         { row: 2, col: 2 },
       ];
-      const result = checkInitialReveal(grid, positions);
-      expect(result.legal).toBe(true);
+      const result = validateInitialReveal(grid, positions);
+      expect(result.valid).toBe(true);
     });
 
     it('should reject fewer than 3 positions', () => {
       const grid = makeGrid();
-      const result = checkInitialReveal(grid, [{ row: 0, col: 0 }]);
-      expect(result.legal).toBe(false);
+      const result = validateInitialReveal(grid, [{ row: 0, col: 0 }]);
+      expect(result).toMatchObject({
+        valid: false,
+        code: 'WRONG_REVEAL_COUNT',
+        params: { count: 1, expected: 3 },
+      });
     });
 
     it('should reject more than 3 positions', () => {
@@ -174,8 +181,8 @@ describe('GolfRules', () => {
         { row: 0, col: 2 },
         { row: 1, col: 0 },
       ];
-      const result = checkInitialReveal(grid, positions);
-      expect(result.legal).toBe(false);
+      const result = validateInitialReveal(grid, positions);
+      expect(result).toMatchObject({ valid: false, code: 'WRONG_REVEAL_COUNT' });
     });
 
     it('should reject duplicate positions', () => {
@@ -185,8 +192,8 @@ describe('GolfRules', () => {
         { row: 0, col: 0 },
         { row: 1, col: 1 },
       ];
-      const result = checkInitialReveal(grid, positions);
-      expect(result.legal).toBe(false);
+      const result = validateInitialReveal(grid, positions);
+      expect(result).toMatchObject({ valid: false, code: 'DUPLICATE_POSITION' });
     });
 
     it('should reject out-of-bounds positions', () => {
@@ -196,8 +203,8 @@ describe('GolfRules', () => {
         { row: 3, col: 0 },
         { row: 1, col: 1 },
       ];
-      const result = checkInitialReveal(grid, positions);
-      expect(result.legal).toBe(false);
+      const result = validateInitialReveal(grid, positions);
+      expect(result).toMatchObject({ valid: false, code: 'POSITION_OUT_OF_BOUNDS' });
     });
 
     it('should apply reveal and flip cards face-up', () => {
@@ -225,7 +232,7 @@ describe('GolfRules', () => {
     it('should not end when no player is fully revealed', () => {
       const roundEnd = createRoundEndState(2);
       const grid = makeGrid(); // all face-down
-      expect(checkRoundEnd(roundEnd, 0, grid)).toBe(false);
+      expect(checkRoundEnd(roundEnd, 0, grid)).toBe(1);
       expect(isInFinalTurns(roundEnd)).toBe(false);
     });
 
@@ -234,8 +241,8 @@ describe('GolfRules', () => {
       const revealedGrid = makeRevealedGrid();
 
       // Player 0 finishes their grid
-      const ended = checkRoundEnd(roundEnd, 0, revealedGrid);
-      expect(ended).toBe(false); // not over yet, player 1 gets a final turn
+      const next = checkRoundEnd(roundEnd, 0, revealedGrid);
+      expect(next).toBe(1); // not over yet, player 1 gets a final turn
       expect(isInFinalTurns(roundEnd)).toBe(true);
       expect(roundEnd.triggeringPlayerIndex).toBe(0);
       expect(needsFinalTurn(roundEnd, 1)).toBe(true);
@@ -251,8 +258,8 @@ describe('GolfRules', () => {
       checkRoundEnd(roundEnd, 0, revealedGrid);
 
       // Player 1 takes their final turn
-      const ended = checkRoundEnd(roundEnd, 1, partialGrid);
-      expect(ended).toBe(true);
+      const next = checkRoundEnd(roundEnd, 1, partialGrid);
+      expect(next).toBeNull();
     });
 
     it('should handle 3 players correctly', () => {
@@ -267,12 +274,30 @@ describe('GolfRules', () => {
       expect(needsFinalTurn(roundEnd, 2)).toBe(true);
 
       // Player 2 takes final turn
-      let ended = checkRoundEnd(roundEnd, 2, partialGrid);
-      expect(ended).toBe(false); // player 0 still needs their turn
+      let next = checkRoundEnd(roundEnd, 2, partialGrid);
+      expect(next).toBe(0); // player 0 still needs their turn
 
       // Player 0 takes final turn
-      ended = checkRoundEnd(roundEnd, 0, partialGrid);
-      expect(ended).toBe(true);
+      next = checkRoundEnd(roundEnd, 0, partialGrid);
+      expect(next).toBeNull();
+    });
+
+    it('should announce the final round and each last turn', () => {
+      const events = new GameEventEmitter();
+      const started: unknown[] = [];
+      const lastTurns: unknown[] = [];
+      events.on('final-round-started', (e) => started.push(e));
+      events.on('last-turn', (e) => lastTurns.push(e));
+      const roundEnd = createRoundEndState(3, { events });
+
+      checkRoundEnd(roundEnd, 0, makeRevealedGrid());
+      checkRoundEnd(roundEnd, 1, makeGrid());
+
+      expect(started).toEqual([{ triggeringPlayerIndex: 0, playersOwed: [1, 2] }]);
+      expect(lastTurns).toEqual([
+        { playerIndex: 1, finalTurnsLeft: 2 },
+        { playerIndex: 2, finalTurnsLeft: 1 },
+      ]);
     });
   });
 });
@@ -0,0 +1,108 @@
+/**
+ * Tests for GolfSave -- saving and resuming Golf matches.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  serializeGolfMatch,
+  deserializeGolfMatch,
+  serializeGolfSession,
+  deserializeGolfSession,
+} from '../../example-games/golf/GolfSave';
+import type { SavedGolfMatch } from '../../example-games/golf/GolfSave';
+import { setupGolfMatch, isHoleOver, finishHole } from '../../example-games/golf/GolfMatch';
+import type { GolfMatch } from '../../example-games/golf/GolfMatch';
+import { setupGolfGame, executeTurn } from '../../example-games/golf/GolfGame';
+import type { GolfSession } from '../../example-games/golf/GolfGame';
+import { AiPlayer, GreedyStrategy } from '../../example-games/golf/AiStrategy';
+import { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import { createRng, restoreRng } from '../../src/core-engine/Rng';
+import type { Rng } from '../../src/core-engine/Rng';
+import { playUntilOver, viaJson, withoutConservationChecks } from '../helpers/saves';
+
+/** Helper: play up to `turns` greedy turns, returning each move made. */
+function playTurns(session: GolfSession, ai: AiPlayer, turns: number): string[] {
+  const { gameState } = session;
+  return playUntilOver(
+    () => gameState.phase === 'ended',
+    () => {
+      const action = ai.chooseAction(session, gameState.currentPlayerIndex);
+      executeTurn(session, action);
+      return JSON.stringify(action);
+    },
+    turns,
+  );
+}
+
+describe('GolfSave', () => {
+  it('round-trips a round in progress', () => {
+    const session = setupGolfGame({ seed: 42 });
+    playTurns(session, new AiPlayer(GreedyStrategy, createRng(1)), 5);
+
+    const restored = deserializeGolfSession(viaJson(serializeGolfSession(session)));
+
+    expect(serializeGolfSession(restored)).toEqual(serializeGolfSession(session));
+    expect(restored.gameState.currentPlayerIndex).toBe(session.gameState.currentPlayerIndex);
+    expect(restored.shared.discardPile.peek()).toEqual(session.shared.discardPile.peek());
+  });
+
+  it('plays on from a save exactly as the original match would', () => {
+    const golfMatch = setupGolfMatch({ seed: 7 });
+    const rng: Rng = createRng(golfMatch.hole.seed).fork('ai');
+    playTurns(golfMatch.hole, new AiPlayer(GreedyStrategy, rng), 6);
+
+    const saved = viaJson({ match: serializeGolfMatch(golfMatch), aiRng: rng.getState() });
+    const resumed = deserializeGolfMatch(saved.match);
+
+    const original = playTurns(golfMatch.hole, new AiPlayer(GreedyStrategy, rng), 100);
+    const replayed = playTurns(
+      resumed.hole,
+      new AiPlayer(GreedyStrategy, restoreRng(saved.aiRng)),
+      100,
+    );
+    expect(replayed).toEqual(original);
+    expect(isHoleOver(resumed)).toBe(true);
+  });
+
+  it('keeps the scorecard of a scored hole', () => {
+    const golfMatch: GolfMatch = setupGolfMatch({ seed: 3 });
+    playTurns(golfMatch.hole, new AiPlayer(GreedyStrategy, createRng(3)), 200);
+    finishHole(golfMatch);
+
+    const resumed = deserializeGolfMatch(viaJson(serializeGolfMatch(golfMatch)));
+
+    expect(resumed.match).toEqual(golfMatch.match);
+    expect(() => finishHole(resumed)).toThrow('Hole 1 has already been scored');
+  });
+
+  it('sends the resumed round\'s last-turn events to the given emitter', () => {
+    const session = setupGolfGame({ seed: 42 });
+    for (const card of session.gameState.playerStates[0].grid) card.faceUp = true;
+    const events = new GameEventEmitter();
+    const lastTurns: number[] = [];
+    events.on('last-turn', ({ playerIndex }) => lastTurns.push(playerIndex));
+
+    const restored = deserializeGolfSession(viaJson(serializeGolfSession(session)), events);
+    executeTurn(restored, { drawSource: 'stock', move: { kind: 'swap', row: 0, col: 0 } });
+
+    expect(lastTurns).toEqual([1]);
+  });
+
+  it('rejects a save with a duplicated card', () => {
+    const saved: SavedGolfMatch = viaJson(serializeGolfMatch(setupGolfMatch({ seed: 5 })));
+    saved.hole.stockPile[0] = saved.hole.discardPile[0];
+
+    expect(() => deserializeGolfMatch(saved)).toThrow();
+  });
+
+  it('rejects a corrupt save even in a build without conservation checks', () => {
+    const saved: SavedGolfMatch = viaJson(serializeGolfMatch(setupGolfMatch({ seed: 5 })));
+    saved.hole.stockPile.pop();
+
+    withoutConservationChecks(() => {
+      expect(() => deserializeGolfMatch(saved)).toThrow(
+        'cards do not match the card universe',
+      );
+    });
+  });
+});
@@ -3,10 +3,16 @@ import { createCard } from '../../src/card-system/Card';
 import { createGolfGrid } from '../../example-games/golf/GolfGrid';
 import type { GolfGrid } from '../../example-games/golf/GolfGrid';
 import {
+  cancelledInColumn,
   cardPointValue,
   scoreGrid,
   scoreVisibleCards,
 } from '../../example-games/golf/GolfScoring';
+import {
+  GOLF_VARIANTS,
+  STANDARD_GOLF_VARIANT,
+} from '../../example-games/golf/GolfVariants';
+import { resolveVariant } from '../../src/rule-engine/Variants';
 
 /** Helper: build a grid from rank strings for easy test setup. */
 function gridFromRanks(
@@ -29,6 +35,7 @@ describe('GolfScoring', () => {
     it('J = 10', () => expect(cardPointValue('J')).toBe(10));
     it('Q = 10', () => expect(cardPointValue('Q')).toBe(10));
     it('K = 0', () => expect(cardPointValue('K')).toBe(0));
+    it('Joker = -2', () => expect(cardPointValue('Joker')).toBe(-2));
   });
 
   describe('scoreGrid', () => {
@@ -126,4 +133,26 @@ describe('GolfScoring', () => {
       expect(scoreVisibleCards(grid)).toBe(0);
     });
   });
+
+  describe('cancelledInColumn', () => {
+    const pairsCancel = resolveVariant(GOLF_VARIANTS, { pairsCancel: true });
+    const q = createCard('Q', 'spades');
+    const seven = createCard('7', 'hearts');
+
+    it('should cancel a whole matching column of any height', () => {
+      expect(cancelledInColumn([q, q, q])).toEqual(new Set([0, 1, 2]));
+      expect(cancelledInColumn([q, q])).toEqual(new Set([0, 1]));
+    });
+
+    it('should cancel a pair only under the pairs-cancel rule', () => {
+      expect(cancelledInColumn([q, seven, q], STANDARD_GOLF_VARIANT).size).toBe(0);
+      expect(cancelledInColumn([q, seven, q], pairsCancel)).toEqual(new Set([0, 2]));
+    });
+
+    it('should never match an unknown card', () => {
+      expect(cancelledInColumn([q, null]).size).toBe(0);
+      expect(cancelledInColumn([q, q, null]).size).toBe(0);
+      expect(cancelledInColumn([q, q, null], pairsCancel)).toEqual(new Set([0, 1]));
+    });
+  });
 });
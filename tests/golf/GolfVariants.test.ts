@@ -0,0 +1,251 @@
+/**
+ * Tests for Golf house rules: scoring, the deal, the AI's card
+ * counting, matches and transcripts all follow the session's variant.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  GOLF_VARIANTS,
+  STANDARD_GOLF_VARIANT,
+  createGolfDeck,
+} from '../../example-games/golf/GolfVariants';
+import type { GolfVariant } from '../../example-games/golf/GolfVariants';
+import {
+  GolfCardConservation,
+  enumerateLegalMoves,
+  executeTurn,
+  setupGolfGame,
+} from '../../example-games/golf/GolfGame';
+import { validateGolfMove } from '../../example-games/golf/GolfRules';
+import {
+  serializeGolfSession,
+  deserializeGolfSession,
+} from '../../example-games/golf/GolfSave';
+import { setupGolfMatch, startNextHole, finishHole } from '../../example-games/golf/GolfMatch';
+import {
+  cardPointValue,
+  scoreGrid,
+  scoreVisibleCards,
+} from '../../example-games/golf/GolfScoring';
+import { countFaceUp, parseGolfGrid } from '../../example-games/golf/GolfGrid';
+import { observeGolf, unseenCards } from '../../example-games/golf/GolfObservation';
+import { AiPlayer, GreedyStrategy } from '../../example-games/golf/AiStrategy';
+import { TranscriptRecorder } from '../../example-games/golf/GameTranscript';
+import { presetVariant, resolveVariant } from '../../src/rule-engine/Variants';
+import { assertCardUniverse } from '../../src/rule-engine/CardConservation';
+import { createRng } from '../../src/core-engine/Rng';
+import { isHiddenCard } from '../../src/core-engine/Zones';
+
+const JOKERS: GolfVariant = presetVariant(GOLF_VARIANTS, 'jokers');
+const SIX_CARD: GolfVariant = presetVariant(GOLF_VARIANTS, 'six-card');
+const FOUR_CARD: GolfVariant = presetVariant(GOLF_VARIANTS, 'four-card');
+const PAIRS_CANCEL: GolfVariant = presetVariant(GOLF_VARIANTS, 'pairs-cancel');
+
+/** Helper: play a round out with the greedy AI, returning the turns taken. */
+function playOut(variant: Partial<GolfVariant>, seed: number): number {
+  const session = setupGolfGame({ seed, variant });
+  const ai = new AiPlayer(GreedyStrategy, createRng(seed).fork('ai'));
+  let turns = 0;
+  while (session.gameState.phase === 'playing' && turns < 200) {
+    executeTurn(session, ai.chooseAction(session, session.gameState.currentPlayerIndex));
+    turns++;
+  }
+  expect(session.gameState.phase).toBe('ended');
+  return turns;
+}
+
+describe('GOLF_VARIANTS', () => {
+  it('defaults to the standard rules', () => {
+    expect(STANDARD_GOLF_VARIANT).toEqual({
+      twos: -2,
+      kings: 0,
+      jokers: false,
+      initialReveals: 3,
+      grid: '3x3',
+      pairsCancel: false,
+    });
+  });
+
+  it('builds a 54-card deck when jokers are in play', () => {
+    expect(createGolfDeck()).toHaveLength(52);
+    expect(createGolfDeck(JOKERS)).toHaveLength(54);
+    expect(createGolfDeck(JOKERS).filter((c) => c.rank === 'Joker')).toHaveLength(2);
+  });
+});
+
+describe('scoring under a variant', () => {
+  it('uses the variant values for 2s and Ks', () => {
+    const variant = resolveVariant(GOLF_VARIANTS, { twos: 2, kings: -2 });
+    expect(cardPointValue('2', variant)).toBe(2);
+    expect(cardPointValue('K', variant)).toBe(-2);
+    expect(cardPointValue('Q', variant)).toBe(10);
+  });
+
+  it('scores a grid with the variant values', () => {
+    const grid = parseGolfGrid('KS 2H 3C / 4D 5S 6H / 7C 8D 9S');
+    expect(scoreGrid(grid)).toBe(0 - 2 + 3 + 4 + 5 + 6 + 7 + 8 + 9);
+    expect(scoreGrid(grid, presetVariant(GOLF_VARIANTS, 'minus-kings'))).toBe(38);
+  });
+});
+
+describe('setupGolfGame with a variant', () => {
+  it('records the resolved variant on the session', () => {
+    const session = setupGolfGame({ seed: 7, variant: { kings: -2 } });
+    expect(session.shared.variant).toEqual({ ...STANDARD_GOLF_VARIANT, kings: -2 });
+  });
+
+  it('deals from a deck with jokers and keeps the card universe', () => {
+    const session = setupGolfGame({ seed: 7, variant: { jokers: true } });
+    const total =
+      session.shared.stockPile.length +
+      session.shared.discardPile.size() +
+      session.gameState.playerStates.length * 9;
+    expect(total).toBe(54);
+    expect(() => assertCardUniverse(GolfCardConservation, session)).not.toThrow();
+  });
+
+  it('reveals the number of cards the variant asks for', () => {
+    const blind = setupGolfGame({ seed: 7, variant: { initialReveals: 0 } });
+    const five = setupGolfGame({ seed: 7, variant: { initialReveals: 5 } });
+    for (const ps of blind.gameState.playerStates) expect(countFaceUp(ps.grid)).toBe(0);
+    for (const ps of five.gameState.playerStates) expect(countFaceUp(ps.grid)).toBe(5);
+  });
+
+  it('rejects explicit reveals of the wrong size', () => {
+    expect(() =>
+      setupGolfGame({
+        seed: 7,
+        variant: { initialReveals: 2 },
+        initialReveals: [
+          [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }],
+          [{ row: 0, col: 0 }, { row: 0, col: 1 }],
+        ],
+      }),
+    ).toThrow('Must flip exactly 2 cards, got 3');
+  });
+
+  it('rejects invalid house rules', () => {
+    expect(() => setupGolfGame({ variant: { initialReveals: 9 } })).toThrow(
+      /Invalid Golf variant/,
+    );
+  });
+});
+
+describe('the AI under a variant', () => {
+  it('counts jokers among the unseen cards', () => {
+    for (const [variant, deckSize] of [[JOKERS, 54], [{}, 52]] as const) {
+      const view = observeGolf(setupGolfGame({ seed: 11, variant }), 0);
+      const visible = Object.values(view.zones)
+        .flatMap((zone) => zone.cards)
+        .filter((card) => !isHiddenCard(card));
+      expect(unseenCards(view)).toHaveLength(deckSize - visible.length);
+    }
+  });
+
+  it('plays a full round with jokers in the deck', () => {
+    playOut({ jokers: true }, 11);
+  });
+
+  it('plays full rounds on smaller grids and with pairs cancelling', () => {
+    playOut(SIX_CARD, 12);
+    playOut(FOUR_CARD, 13);
+    playOut(PAIRS_CANCEL, 14);
+  });
+});
+
+describe('grid layouts', () => {
+  it('deals 2 rows of 3 or 2 rows of 2 and reveals 2 cards each', () => {
+    for (const [variant, size] of [[SIX_CARD, 6], [FOUR_CARD, 4]] as const) {
+      const session = setupGolfGame({ seed: 7, variant });
+      for (const ps of session.gameState.playerStates) {
+        expect(ps.grid).toHaveLength(size);
+        expect(countFaceUp(ps.grid)).toBe(2);
+      }
+      expect(() => assertCardUniverse(GolfCardConservation, session)).not.toThrow();
+    }
+  });
+
+  it('rejects more reveals than the grid has cards', () => {
+    expect(() =>
+      setupGolfGame({ seed: 7, variant: { grid: '2x2', initialReveals: 5 } }),
+    ).toThrow('Cannot reveal 5 cards of a 2x2 grid');
+  });
+
+  it('keeps moves inside the smaller grid', () => {
+    const grid = setupGolfGame({ seed: 7, variant: FOUR_CARD }).gameState.playerStates[0].grid;
+    const moves = enumerateLegalMoves(grid);
+    expect(moves.filter((m) => m.kind === 'swap')).toHaveLength(4);
+    expect(moves.filter((m) => m.kind === 'discard-and-flip')).toHaveLength(2);
+    expect(moves.every((m) => m.row < 2 && m.col < 2)).toBe(true);
+
+    expect(validateGolfMove(grid, { kind: 'swap', row: 0, col: 2 })).toMatchObject({
+      valid: false,
+      code: 'POSITION_OUT_OF_BOUNDS',
+    });
+    expect(validateGolfMove(grid, { kind: 'swap', row: 2, col: 0 })).toMatchObject({
+      valid: false,
+      code: 'POSITION_OUT_OF_BOUNDS',
+    });
+  });
+
+  it('shows every player the smaller grids', () => {
+    const view = observeGolf(setupGolfGame({ seed: 7, variant: SIX_CARD }), 0);
+    expect(view.grids.map((grid) => grid.length)).toEqual([6, 6]);
+    expect(view.variant.grid).toBe('2x3');
+  });
+
+  it('saves and restores a 6-card round', () => {
+    const session = setupGolfGame({ seed: 7, variant: SIX_CARD });
+    const restored = deserializeGolfSession(serializeGolfSession(session));
+    expect(serializeGolfSession(restored)).toEqual(serializeGolfSession(session));
+  });
+
+  it('scores a matching pair in a 2-row column as 0', () => {
+    const grid = parseGolfGrid('5S 9H 3C / 5D 4S 6H');
+    expect(scoreGrid(grid, SIX_CARD)).toBe(9 + 4 + 3 + 6);
+    expect(scoreGrid(parseGolfGrid('QS 7H / QD 7S'), FOUR_CARD)).toBe(0);
+  });
+});
+
+describe('pairs cancel', () => {
+  it('scores a matching pair in a 3-row column as 0, leaving the odd card', () => {
+    const grid = parseGolfGrid('QS 2H 3C / QD 4S 6H / 7C 4D 9S');
+    expect(scoreGrid(grid)).toBe(10 + 10 + 7 - 2 + 4 + 4 + 3 + 6 + 9);
+    expect(scoreGrid(grid, PAIRS_CANCEL)).toBe(7 - 2 + 3 + 6 + 9);
+  });
+
+  it('still scores a full matching column as 0', () => {
+    const grid = parseGolfGrid('QS 2H 3C / QD 4S 6H / QC 5D 9S');
+    expect(scoreGrid(grid, PAIRS_CANCEL)).toBe(-2 + 4 + 5 + 3 + 6 + 9);
+  });
+
+  it('only cancels a visible pair in the visible score', () => {
+    const grid = parseGolfGrid('QS 2H* 3C* / QD* 4S* 6H* / 7C 5D* 9S*');
+    expect(scoreVisibleCards(grid, PAIRS_CANCEL)).toBe(10 + 7);
+    grid[3].faceUp = true;
+    expect(scoreVisibleCards(grid, PAIRS_CANCEL)).toBe(7);
+  });
+});
+
+describe('matches and transcripts', () => {
+  it('plays every hole of a match under the same variant', () => {
+    const golfMatch = setupGolfMatch({ seed: 3, holes: 2, variant: { jokers: true } });
+    expect(golfMatch.variant).toEqual(JOKERS);
+    expect(golfMatch.hole.shared.variant).toEqual(JOKERS);
+
+    golfMatch.hole.gameState.phase = 'ended';
+    finishHole(golfMatch);
+    startNextHole(golfMatch);
+    expect(golfMatch.hole.shared.variant).toEqual(JOKERS);
+  });
+
+  it('records the variant and scores with it', () => {
+    const session = setupGolfGame({ seed: 5, variant: { kings: -2 } });
+    const transcript = new TranscriptRecorder(session).getTranscript();
+    expect(transcript.variant).toEqual(session.shared.variant);
+    transcript.initialSnapshot!.boardStates.forEach((board, i) => {
+      expect(board.totalScore).toBe(
+        scoreGrid(session.gameState.playerStates[i].grid, session.shared.variant),
+      );
+    });
+  });
+});
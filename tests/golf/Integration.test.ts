@@ -59,8 +59,7 @@ function runFullGame(
 
   while (session.gameState.phase !== 'ended' && turnCount < MAX_TURNS) {
     const idx = session.gameState.currentPlayerIndex;
-    const ps = session.gameState.playerStates[idx];
-    const action = ais[idx].chooseAction(ps, session.shared);
+    const action = ais[idx].chooseAction(session, idx);
 
     const result = executeTurn(session, action);
     recorder.recordTurn(result, action.drawSource);
@@ -84,51 +83,48 @@ describe('Integration: AI-vs-AI full game (RandomStrategy)', () => {
   it('produces a valid transcript', () => {
     const { transcript, turnCount } = runFullGame(RandomStrategy, 42);
 
-    // Version
-    expect(transcript.version).toBe(1);
-
-    // Metadata
-    expect(transcript.metadata.startedAt).toBeTruthy();
-    expect(transcript.metadata.endedAt).toBeTruthy();
-    expect(transcript.metadata.players).toHaveLength(2);
-    expect(transcript.metadata.players[0].isAI).toBe(true);
-    expect(transcript.metadata.players[1].isAI).toBe(true);
-    expect(transcript.metadata.players[0].strategy).toBe('random');
+    // Envelope
+    expect(transcript.version).toBe(2);
+    expect(transcript.gameType).toBe('golf');
+    expect(transcript.startedAt).toBeTruthy();
+    expect(transcript.endedAt).toBeTruthy();
+    expect(transcript.players).toHaveLength(2);
+    expect(transcript.players[0].isAI).toBe(true);
+    expect(transcript.players[1].isAI).toBe(true);
+    expect(transcript.players[0].strategy).toBe('random');
 
     // Initial state
-    expect(transcript.initialState.boardStates).toHaveLength(2);
-    expect(transcript.initialState.boardStates[0].grid).toHaveLength(9);
-    expect(transcript.initialState.boardStates[1].grid).toHaveLength(9);
-    expect(transcript.initialState.stockRemaining).toBe(33);
-    expect(transcript.initialState.discardTop).not.toBeNull();
+    const initial = transcript.initialSnapshot!;
+    expect(initial.boardStates).toHaveLength(2);
+    expect(initial.boardStates[0].grid).toHaveLength(9);
+    expect(initial.boardStates[1].grid).toHaveLength(9);
+    expect(initial.stockRemaining).toBe(33);
+    expect(initial.discardTop).not.toBeNull();
 
     // Turns
-    expect(transcript.turns).toHaveLength(turnCount);
-    for (let i = 0; i < transcript.turns.length; i++) {
-      const turn = transcript.turns[i];
-      expect(turn.turnNumber).toBe(i);
-      expect(turn.playerIndex).toBeGreaterThanOrEqual(0);
-      expect(turn.playerIndex).toBeLessThanOrEqual(1);
-      expect(turn.playerName).toBeTruthy();
-      expect(['stock', 'discard']).toContain(turn.drawSource);
-      expect(['swap', 'discard-and-flip']).toContain(turn.move.kind);
-      expect(turn.drawnCard).toBeDefined();
-      expect(turn.drawnCard.rank).toBeTruthy();
-      expect(turn.drawnCard.suit).toBeTruthy();
-      expect(turn.discardedCard).toBeDefined();
-      expect(turn.boardStates).toHaveLength(2);
-      expect(turn.stockRemaining).toBeGreaterThanOrEqual(0);
+    expect(transcript.actions).toHaveLength(turnCount);
+    for (const { playerIndex, action, snapshot } of transcript.actions) {
+      expect(playerIndex).toBeGreaterThanOrEqual(0);
+      expect(playerIndex).toBeLessThanOrEqual(1);
+      expect(['stock', 'discard']).toContain(action.drawSource);
+      expect(['swap', 'discard-and-flip']).toContain(action.move.kind);
+      expect(action.drawnCard).toBeDefined();
+      expect(action.drawnCard.rank).toBeTruthy();
+      expect(action.drawnCard.suit).toBeTruthy();
+      expect(action.discardedCard).toBeDefined();
+      expect(snapshot!.boardStates).toHaveLength(2);
+      expect(snapshot!.stockRemaining).toBeGreaterThanOrEqual(0);
     }
 
     // The last turn should have roundEnded = true
-    expect(transcript.turns[transcript.turns.length - 1].roundEnded).toBe(true);
+    expect(transcript.actions[transcript.actions.length - 1].action.roundEnded).toBe(true);
 
     // Results
-    expect(transcript.results).not.toBeNull();
-    expect(transcript.results!.scores).toHaveLength(2);
-    expect(transcript.results!.winnerIndex).toBeGreaterThanOrEqual(0);
-    expect(transcript.results!.winnerIndex).toBeLessThanOrEqual(1);
-    expect(transcript.results!.winnerName).toBeTruthy();
+    expect(transcript.result).not.toBeNull();
+    expect(transcript.result!.scores).toHaveLength(2);
+    expect(transcript.result!.winnerIndex).toBeGreaterThanOrEqual(0);
+    expect(transcript.result!.winnerIndex).toBeLessThanOrEqual(1);
+    expect(transcript.result!.winnerName).toBeTruthy();
   });
 
   it('computes final scores correctly', () => {
@@ -138,13 +134,13 @@ describe('Integration: AI-vs-AI full game (RandomStrategy)', () => {
     for (let p = 0; p < 2; p++) {
       const grid = session.gameState.playerStates[p].grid;
       const expected = scoreGrid(grid);
-      expect(transcript.results!.scores[p]).toBe(expected);
+      expect(transcript.result!.scores[p]).toBe(expected);
     }
 
     // Winner has the lowest score
-    const scores = transcript.results!.scores;
+    const scores = transcript.result!.scores;
     const minScore = Math.min(...scores);
-    expect(scores[transcript.results!.winnerIndex]).toBe(minScore);
+    expect(scores[transcript.result!.winnerIndex]).toBe(minScore);
   });
 
   it('reveals all cards by game end', () => {
@@ -175,14 +171,14 @@ describe('Integration: AI-vs-AI full game (GreedyStrategy)', () => {
   it('produces a valid transcript', () => {
     const { transcript, turnCount } = runFullGame(GreedyStrategy, 42);
 
-    expect(transcript.version).toBe(1);
-    expect(transcript.metadata.players[0].strategy).toBe('greedy');
-    expect(transcript.turns).toHaveLength(turnCount);
-    expect(transcript.results).not.toBeNull();
-    expect(transcript.results!.scores).toHaveLength(2);
+    expect(transcript.version).toBe(2);
+    expect(transcript.players[0].strategy).toBe('greedy');
+    expect(transcript.actions).toHaveLength(turnCount);
+    expect(transcript.result).not.toBeNull();
+    expect(transcript.result!.scores).toHaveLength(2);
 
     // Last turn ends the round
-    expect(transcript.turns[transcript.turns.length - 1].roundEnded).toBe(true);
+    expect(transcript.actions[transcript.actions.length - 1].action.roundEnded).toBe(true);
   });
 
   it('computes final scores correctly', () => {
@@ -191,12 +187,12 @@ describe('Integration: AI-vs-AI full game (GreedyStrategy)', () => {
     for (let p = 0; p < 2; p++) {
       const grid = session.gameState.playerStates[p].grid;
       const expected = scoreGrid(grid);
-      expect(transcript.results!.scores[p]).toBe(expected);
+      expect(transcript.result!.scores[p]).toBe(expected);
     }
 
-    const scores = transcript.results!.scores;
+    const scores = transcript.result!.scores;
     const minScore = Math.min(...scores);
-    expect(scores[transcript.results!.winnerIndex]).toBe(minScore);
+    expect(scores[transcript.result!.winnerIndex]).toBe(minScore);
   });
 
   it('greedy strategy typically scores lower than random', () => {
@@ -210,9 +206,9 @@ describe('Integration: AI-vs-AI full game (GreedyStrategy)', () => {
 
       // Average score per game
       const greedyAvg =
-        greedyResult.transcript.results!.scores.reduce((a, b) => a + b, 0) / 2;
+        greedyResult.transcript.result!.scores.reduce((a, b) => a + b, 0) / 2;
       const randomAvg =
-        randomResult.transcript.results!.scores.reduce((a, b) => a + b, 0) / 2;
+        randomResult.transcript.result!.scores.reduce((a, b) => a + b, 0) / 2;
 
       greedyScores.push(greedyAvg);
       randomScores.push(randomAvg);
@@ -238,10 +234,10 @@ describe('Integration: AI-vs-AI full game (GreedyStrategy)', () => {
 });
 
 describe('Integration: Transcript structure validation', () => {
-  it('turn numbers are sequential', () => {
+  it('every turn records the table after it', () => {
     const { transcript } = runFullGame(RandomStrategy, 42);
-    for (let i = 0; i < transcript.turns.length; i++) {
-      expect(transcript.turns[i].turnNumber).toBe(i);
+    for (const turn of transcript.actions) {
+      expect(turn.snapshot).toBeDefined();
     }
   });
 
@@ -249,11 +245,11 @@ describe('Integration: Transcript structure validation', () => {
     const { transcript } = runFullGame(RandomStrategy, 42);
     // Turns should alternate between player 0 and 1
     // (except possibly at round end where order may differ)
-    for (let i = 0; i < transcript.turns.length - 1; i++) {
-      const current = transcript.turns[i].playerIndex;
-      const next = transcript.turns[i + 1].playerIndex;
+    for (let i = 0; i < transcript.actions.length - 1; i++) {
+      const current = transcript.actions[i].playerIndex!;
+      const next = transcript.actions[i + 1].playerIndex;
       // They should alternate: 0,1,0,1,...
-      if (!transcript.turns[i].roundEnded) {
+      if (!transcript.actions[i].action.roundEnded) {
         expect(next).toBe(1 - current);
       }
     }
@@ -261,13 +257,13 @@ describe('Integration: Transcript structure validation', () => {
 
   it('stock count decreases when drawing from stock', () => {
     const { transcript } = runFullGame(RandomStrategy, 42);
-    let expectedStock = transcript.initialState.stockRemaining;
+    let expectedStock = transcript.initialSnapshot!.stockRemaining;
 
-    for (const turn of transcript.turns) {
-      if (turn.drawSource === 'stock') {
+    for (const turn of transcript.actions) {
+      if (turn.action.drawSource === 'stock') {
         expectedStock--;
       }
-      expect(turn.stockRemaining).toBe(expectedStock);
+      expect(turn.snapshot!.stockRemaining).toBe(expectedStock);
     }
   });
 
@@ -275,13 +271,13 @@ describe('Integration: Transcript structure validation', () => {
     const { transcript } = runFullGame(RandomStrategy, 42);
 
     // Initial state
-    for (const bs of transcript.initialState.boardStates) {
+    for (const bs of transcript.initialSnapshot!.boardStates) {
       expect(bs.grid).toHaveLength(9);
     }
 
     // Every turn
-    for (const turn of transcript.turns) {
-      for (const bs of turn.boardStates) {
+    for (const turn of transcript.actions) {
+      for (const bs of turn.snapshot!.boardStates) {
         expect(bs.grid).toHaveLength(9);
       }
     }
@@ -291,13 +287,13 @@ describe('Integration: Transcript structure validation', () => {
     const { transcript } = runFullGame(RandomStrategy, 42);
 
     const lastFaceUpCount = [
-      transcript.initialState.boardStates[0].faceUpCount,
-      transcript.initialState.boardStates[1].faceUpCount,
+      transcript.initialSnapshot!.boardStates[0].faceUpCount,
+      transcript.initialSnapshot!.boardStates[1].faceUpCount,
     ];
 
-    for (const turn of transcript.turns) {
+    for (const turn of transcript.actions) {
       for (let p = 0; p < 2; p++) {
-        const currentCount = turn.boardStates[p].faceUpCount;
+        const currentCount = turn.snapshot!.boardStates[p].faceUpCount;
         // Face-up count should never decrease (cards are revealed, not hidden)
         expect(currentCount).toBeGreaterThanOrEqual(lastFaceUpCount[p]);
         lastFaceUpCount[p] = currentCount;
@@ -310,12 +306,12 @@ describe('Integration: Transcript structure validation', () => {
     const json = JSON.stringify(transcript);
     const parsed = JSON.parse(json);
 
-    expect(parsed.version).toBe(1);
-    expect(parsed.metadata).toBeDefined();
-    expect(parsed.initialState).toBeDefined();
-    expect(parsed.turns).toBeInstanceOf(Array);
-    expect(parsed.results).toBeDefined();
-    expect(parsed.results.scores).toBeInstanceOf(Array);
+    expect(parsed.version).toBe(2);
+    expect(parsed.players).toBeInstanceOf(Array);
+    expect(parsed.initialSnapshot).toBeDefined();
+    expect(parsed.actions).toBeInstanceOf(Array);
+    expect(parsed.result).toBeDefined();
+    expect(parsed.result.scores).toBeInstanceOf(Array);
   });
 });
 
@@ -347,8 +343,7 @@ describe('Integration: Game invariants', () => {
     let turns = 0;
     while (session.gameState.phase !== 'ended' && turns < MAX_TURNS) {
       const idx = session.gameState.currentPlayerIndex;
-      const ps = session.gameState.playerStates[idx];
-      const action = ai.chooseAction(ps, session.shared);
+      const action = ai.chooseAction(session, idx);
       executeTurn(session, action);
 
       // After each turn, total cards should still be 52
@@ -386,8 +381,7 @@ describe('Integration: Game invariants', () => {
     let turns = 0;
     while (session.gameState.phase !== 'ended' && turns < MAX_TURNS) {
       const idx = session.gameState.currentPlayerIndex;
-      const ps = session.gameState.playerStates[idx];
-      const action = ai.chooseAction(ps, session.shared);
+      const action = ai.chooseAction(session, idx);
       executeTurn(session, action);
 
       // Discard pile top should always be face-up
@@ -0,0 +1,46 @@
+/**
+ * Helpers shared by the save and resume tests of every game.
+ */
+
+import {
+  cardConservationChecksEnabled,
+  setCardConservationChecks,
+} from '../../src/rule-engine/CardConservation';
+
+/** JSON round trip, as through localStorage. */
+export function viaJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Play turns until the game is over or `turns` turns have been played.
+ *
+ * @param isOver    Whether the game has ended.
+ * @param playTurn  Plays one turn, returning whatever the test records.
+ * @returns         What each turn returned, in order.
+ */
+export function playUntilOver<R>(
+  isOver: () => boolean,
+  playTurn: () => R,
+  turns = Infinity,
+): R[] {
+  const played: R[] = [];
+  while (played.length < turns && !isOver()) {
+    played.push(playTurn());
+  }
+  return played;
+}
+
+/**
+ * Run `fn` with card conservation checks turned off, as in a
+ * production build, restoring the previous setting afterwards.
+ */
+export function withoutConservationChecks<R>(fn: () => R): R {
+  const enabled = cardConservationChecksEnabled();
+  setCardConservationChecks(false);
+  try {
+    return fn();
+  } finally {
+    setCardConservationChecks(enabled);
+  }
+}
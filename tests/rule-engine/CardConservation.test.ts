@@ -0,0 +1,190 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  cardConservationChecksEnabled,
+  setCardConservationChecks,
+  collectCards,
+  diffCards,
+  isConserved,
+  checkCardUniverse,
+  assertCardUniverse,
+  conserveCards,
+  withCardConservation,
+} from '../../src/rule-engine/CardConservation';
+import type { CardConservation } from '../../src/rule-engine/CardConservation';
+import type { RuleSet } from '../../src/rule-engine/RuleSet';
+import { valid } from '../../src/rule-engine/RuleSet';
+import * as RuleEngine from '../../src/rule-engine/index';
+import type { Card } from '../../src/card-system/Card';
+import { formatCard, parseCards } from '../../src/card-system/Notation';
+
+/** Toy game: cards move between a stock and a hand. */
+interface ToyState {
+  stock: Card[];
+  hand: Card[];
+}
+
+const UNIVERSE = parseCards('AS 2S 3S 4S');
+
+const ToyCards: CardConservation<ToyState, Card> = {
+  name: 'Toy',
+  universe: () => UNIVERSE,
+  locations: (state) => ({ stock: state.stock, hand: state.hand }),
+  describe: formatCard,
+};
+
+function toyState(): ToyState {
+  return { stock: parseCards('AS 2S 3S'), hand: parseCards('4S') };
+}
+
+/** Draw moves the top stock card to the hand; "buggy" draws copy it. */
+const ToyRules: RuleSet<ToyState, 'draw' | 'buggy-draw', Card> = {
+  name: 'Toy',
+  validate: () => valid(),
+  apply(state, move) {
+    const card = state.stock[state.stock.length - 1];
+    if (move === 'draw') state.stock.pop();
+    state.hand.push(card);
+    return card;
+  },
+  undo(state) {
+    state.stock.push(state.hand.pop()!);
+  },
+  enumerateMoves: () => ['draw'],
+};
+
+const enabledByDefault = cardConservationChecksEnabled();
+
+afterEach(() => {
+  setCardConservationChecks(enabledByDefault);
+});
+
+describe('cardConservationChecksEnabled', () => {
+  it('should be enabled under Vitest by default', () => {
+    expect(enabledByDefault).toBe(true);
+  });
+});
+
+describe('diffCards', () => {
+  it('should report no difference for the same cards in any order', () => {
+    const cards = parseCards('AS 2S 3S');
+    expect(isConserved(diffCards(cards, [...cards].reverse()))).toBe(true);
+  });
+
+  it('should report lost and duplicated cards', () => {
+    const [a, b, c] = parseCards('AS 2S 3S');
+    const diff = diffCards([a, b, c], [a, a, b]);
+    expect(diff.missing).toEqual([c]);
+    expect(diff.extra).toEqual([a]);
+  });
+
+  it('should compare by id, not by object identity', () => {
+    expect(
+      isConserved(diffCards(parseCards('AS 2S'), parseCards('2S AS'))),
+    ).toBe(true);
+  });
+});
+
+describe('collectCards', () => {
+  it('should list every card of every location', () => {
+    expect(collectCards(ToyCards, toyState()).map(formatCard)).toEqual([
+      'AS',
+      '2S',
+      '3S',
+      '4S',
+    ]);
+  });
+});
+
+describe('assertCardUniverse', () => {
+  it('should accept a state holding exactly the universe', () => {
+    expect(() => assertCardUniverse(ToyCards, toyState())).not.toThrow();
+  });
+
+  it('should name missing and unexpected cards', () => {
+    const state = toyState();
+    state.hand = parseCards('AS');
+    expect(() => assertCardUniverse(ToyCards, state)).toThrow(
+      'Toy cards do not match the card universe: missing 4S; ' +
+        'unexpected AS (in stock+hand)',
+    );
+  });
+});
+
+describe('checkCardUniverse', () => {
+  it('should check the state even while checks are disabled', () => {
+    setCardConservationChecks(false);
+    const state = toyState();
+    expect(() => checkCardUniverse(ToyCards, state)).not.toThrow();
+    state.hand = [];
+    expect(() => checkCardUniverse(ToyCards, state)).toThrow(
+      'Toy cards do not match the card universe: missing 4S',
+    );
+  });
+});
+
+describe('conserveCards', () => {
+  it('should run the move and return its result', () => {
+    const state = toyState();
+    const card = conserveCards(ToyCards, state, 'draw', () =>
+      ToyRules.apply(state, 'draw'),
+    );
+    expect(formatCard(card)).toBe('3S');
+    expect(state.hand).toHaveLength(2);
+  });
+
+  it('should report the move that lost or duplicated a card', () => {
+    const state = toyState();
+    expect(() =>
+      conserveCards(ToyCards, state, { kind: 'buggy-draw' }, () =>
+        ToyRules.apply(state, 'buggy-draw'),
+      ),
+    ).toThrow(
+      'Toy move {"kind":"buggy-draw"} did not conserve cards: ' +
+        'unexpected 3S (in stock+hand)',
+    );
+  });
+
+  it('should compare against the state before the move, not the universe', () => {
+    const state: ToyState = { stock: parseCards('KH'), hand: [] };
+    expect(() =>
+      conserveCards(ToyCards, state, 'draw', () => ToyRules.apply(state, 'draw')),
+    ).not.toThrow();
+  });
+
+  it('should skip the check while checks are disabled', () => {
+    setCardConservationChecks(false);
+    expect(cardConservationChecksEnabled()).toBe(false);
+    const state = toyState();
+    expect(() =>
+      conserveCards(ToyCards, state, 'buggy-draw', () =>
+        ToyRules.apply(state, 'buggy-draw'),
+      ),
+    ).not.toThrow();
+    state.hand = [];
+    expect(() => assertCardUniverse(ToyCards, state)).not.toThrow();
+  });
+});
+
+describe('withCardConservation', () => {
+  it('should check apply and undo', () => {
+    const rules = withCardConservation(ToyRules, ToyCards);
+    const state = toyState();
+    const card = rules.apply(state, 'draw');
+    rules.undo(state, 'draw', card);
+    expect(state).toEqual(toyState());
+    expect(() => rules.apply(state, 'buggy-draw')).toThrow(
+      'did not conserve cards',
+    );
+  });
+
+  it('should keep the other rule set members', () => {
+    const rules = withCardConservation(ToyRules, ToyCards);
+    expect(rules.name).toBe('Toy');
+    expect(rules.enumerateMoves(toyState())).toEqual(['draw']);
+  });
+
+  it('should be exported from the rule-engine barrel', () => {
+    expect(RuleEngine.withCardConservation).toBe(withCardConservation);
+    expect(RuleEngine.conserveCards).toBe(conserveCards);
+  });
+});
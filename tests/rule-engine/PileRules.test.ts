@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canBuildOn,
+  isBuiltRun,
+  validateBuild,
+  canPlace,
+  movableRunLength,
+  sequenceMoveCapacity,
+  FOUNDATION_UP_BY_SUIT,
+  BELEAGUERED_CASTLE_TABLEAU,
+  KLONDIKE_TABLEAU,
+  FREECELL_TABLEAU,
+  BAKERS_GAME_TABLEAU,
+} from '../../src/rule-engine/PileRules';
+import type { PileBuildRule } from '../../src/rule-engine/PileRules';
+import { createCard, createJoker } from '../../src/card-system/Card';
+import type { Card } from '../../src/card-system/Card';
+import { Pile } from '../../src/card-system/Pile';
+import { ACE_HIGH } from '../../src/card-system/RankOrder';
+
+/** Create a face-up card. */
+function card(rank: string, suit: string, faceUp = true): Card {
+  return createCard(rank as Card['rank'], suit as Card['suit'], faceUp);
+}
+
+function codeOf(rule: PileBuildRule, pile: Pile, cards: Card[]): string {
+  const result = validateBuild(rule, pile, cards);
+  return result.valid ? 'VALID' : result.code;
+}
+
+describe('canBuildOn', () => {
+  it('enforces alternating colours', () => {
+    expect(canBuildOn(KLONDIKE_TABLEAU, card('8', 'spades'), card('7', 'hearts'))).toBe(true);
+    expect(canBuildOn(KLONDIKE_TABLEAU, card('8', 'spades'), card('7', 'clubs'))).toBe(false);
+  });
+
+  it('enforces same suit', () => {
+    expect(canBuildOn(BAKERS_GAME_TABLEAU, card('8', 'spades'), card('7', 'spades'))).toBe(true);
+    expect(canBuildOn(BAKERS_GAME_TABLEAU, card('8', 'spades'), card('7', 'clubs'))).toBe(false);
+  });
+
+  it('supports same-colour builds', () => {
+    const rule: PileBuildRule = { ...FREECELL_TABLEAU, suit: 'same-color' };
+    expect(canBuildOn(rule, card('8', 'spades'), card('7', 'clubs'))).toBe(true);
+    expect(canBuildOn(rule, card('8', 'spades'), card('7', 'hearts'))).toBe(false);
+  });
+
+  it('ignores suit for any-suit builds', () => {
+    expect(canBuildOn(BELEAGUERED_CASTLE_TABLEAU, card('8', 'spades'), card('7', 'spades'))).toBe(true);
+    expect(canBuildOn(BELEAGUERED_CASTLE_TABLEAU, card('8', 'spades'), card('7', 'hearts'))).toBe(true);
+  });
+
+  it('enforces direction', () => {
+    expect(canBuildOn(FOUNDATION_UP_BY_SUIT, card('A', 'clubs'), card('2', 'clubs'))).toBe(true);
+    expect(canBuildOn(FOUNDATION_UP_BY_SUIT, card('3', 'clubs'), card('2', 'clubs'))).toBe(false);
+    expect(canBuildOn(BELEAGUERED_CASTLE_TABLEAU, card('3', 'clubs'), card('2', 'hearts'))).toBe(true);
+    expect(canBuildOn(BELEAGUERED_CASTLE_TABLEAU, card('3', 'clubs'), card('5', 'hearts'))).toBe(false);
+  });
+
+  it('supports up-or-down builds', () => {
+    const rule: PileBuildRule = { ...BELEAGUERED_CASTLE_TABLEAU, direction: 'up-or-down' };
+    expect(canBuildOn(rule, card('5', 'clubs'), card('4', 'hearts'))).toBe(true);
+    expect(canBuildOn(rule, card('5', 'clubs'), card('6', 'hearts'))).toBe(true);
+    expect(canBuildOn(rule, card('5', 'clubs'), card('7', 'hearts'))).toBe(false);
+  });
+
+  it('only wraps between King and Ace when wrap is enabled', () => {
+    const wrapping: PileBuildRule = { ...FOUNDATION_UP_BY_SUIT, wrap: true };
+    expect(canBuildOn(FOUNDATION_UP_BY_SUIT, card('K', 'clubs'), card('A', 'clubs'))).toBe(false);
+    expect(canBuildOn(wrapping, card('K', 'clubs'), card('A', 'clubs'))).toBe(true);
+
+    const wrappingDown: PileBuildRule = { ...BELEAGUERED_CASTLE_TABLEAU, wrap: true };
+    expect(canBuildOn(wrappingDown, card('A', 'clubs'), card('K', 'hearts'))).toBe(true);
+  });
+
+  it('builds in the rule\'s rank order', () => {
+    const aceHigh: PileBuildRule = { ...FOUNDATION_UP_BY_SUIT, rankOrder: ACE_HIGH };
+    expect(canBuildOn(aceHigh, card('K', 'clubs'), card('A', 'clubs'))).toBe(true);
+    expect(canBuildOn(aceHigh, card('A', 'clubs'), card('2', 'clubs'))).toBe(false);
+  });
+
+  it('never builds with jokers', () => {
+    const joker = createJoker('red', true);
+    expect(canBuildOn(BELEAGUERED_CASTLE_TABLEAU, card('8', 'spades'), joker)).toBe(false);
+    expect(canBuildOn(BELEAGUERED_CASTLE_TABLEAU, joker, card('7', 'spades'))).toBe(false);
+  });
+});
+
+describe('isBuiltRun', () => {
+  it('accepts a single card and a valid run', () => {
+    expect(isBuiltRun(FREECELL_TABLEAU, [card('9', 'hearts')])).toBe(true);
+    expect(
+      isBuiltRun(FREECELL_TABLEAU, [card('9', 'hearts'), card('8', 'spades'), card('7', 'diamonds')]),
+    ).toBe(true);
+  });
+
+  it('rejects a broken run', () => {
+    expect(
+      isBuiltRun(FREECELL_TABLEAU, [card('9', 'hearts'), card('8', 'diamonds')]),
+    ).toBe(false);
+  });
+});
+
+describe('validateBuild', () => {
+  it('rejects an empty card list', () => {
+    expect(codeOf(FREECELL_TABLEAU, new Pile(), [])).toBe('NO_CARDS');
+  });
+
+  it('applies the empty-pile rank restriction', () => {
+    expect(codeOf(KLONDIKE_TABLEAU, new Pile(), [card('K', 'spades')])).toBe('VALID');
+    expect(codeOf(KLONDIKE_TABLEAU, new Pile(), [card('Q', 'spades')])).toBe('EMPTY_PILE_RANK');
+    expect(codeOf(FOUNDATION_UP_BY_SUIT, new Pile(), [card('A', 'hearts')])).toBe('VALID');
+  });
+
+  it('rejects any card on an empty pile that is closed', () => {
+    const rule: PileBuildRule = { ...FREECELL_TABLEAU, empty: 'none' };
+    expect(codeOf(rule, new Pile(), [card('K', 'spades')])).toBe('PILE_CLOSED');
+  });
+
+  it('reports WRONG_SUIT, WRONG_COLOR and WRONG_RANK', () => {
+    const spadeEight = () => new Pile([card('8', 'spades')]);
+    expect(codeOf(BAKERS_GAME_TABLEAU, spadeEight(), [card('7', 'clubs')])).toBe('WRONG_SUIT');
+    expect(codeOf(KLONDIKE_TABLEAU, spadeEight(), [card('7', 'clubs')])).toBe('WRONG_COLOR');
+    expect(codeOf(KLONDIKE_TABLEAU, spadeEight(), [card('6', 'hearts')])).toBe('WRONG_RANK');
+  });
+
+  it('refuses multi-card placement when only the top card may move', () => {
+    const pile = new Pile([card('9', 'spades')]);
+    expect(
+      codeOf(BELEAGUERED_CASTLE_TABLEAU, pile, [card('8', 'hearts'), card('7', 'clubs')]),
+    ).toBe('SEQUENCE_NOT_ALLOWED');
+  });
+
+  it('accepts a built run and rejects a broken one', () => {
+    const pile = new Pile([card('9', 'spades')]);
+    expect(canPlace(FREECELL_TABLEAU, pile, [card('8', 'hearts'), card('7', 'clubs')])).toBe(true);
+    expect(codeOf(FREECELL_TABLEAU, pile, [card('8', 'hearts'), card('7', 'hearts')])).toBe(
+      'NOT_A_RUN',
+    );
+  });
+
+  it('does not mutate the target pile', () => {
+    const pile = new Pile([card('9', 'spades')]);
+    validateBuild(FREECELL_TABLEAU, pile, [card('8', 'hearts')]);
+    expect(pile.size()).toBe(1);
+  });
+});
+
+describe('movableRunLength', () => {
+  it('returns 0 for an empty pile and 1 for top-card rules', () => {
+    expect(movableRunLength(FREECELL_TABLEAU, new Pile())).toBe(0);
+    const pile = new Pile([card('9', 'spades'), card('8', 'hearts')]);
+    expect(movableRunLength(BELEAGUERED_CASTLE_TABLEAU, pile)).toBe(1);
+  });
+
+  it('counts the built run at the top of the pile', () => {
+    const pile = new Pile([
+      card('K', 'hearts'),
+      card('2', 'clubs'),
+      card('9', 'spades'),
+      card('8', 'hearts'),
+      card('7', 'clubs'),
+    ]);
+    expect(movableRunLength(FREECELL_TABLEAU, pile)).toBe(3);
+  });
+
+  it('stops at face-down cards', () => {
+    const pile = new Pile([card('9', 'spades', false), card('8', 'hearts'), card('7', 'clubs')]);
+    expect(movableRunLength(KLONDIKE_TABLEAU, pile)).toBe(2);
+  });
+
+  it('counts every face-up card for any-face-up rules', () => {
+    const rule: PileBuildRule = { ...KLONDIKE_TABLEAU, sequenceMoves: 'any-face-up' };
+    const pile = new Pile([card('2', 'spades', false), card('9', 'hearts'), card('3', 'hearts')]);
+    expect(movableRunLength(rule, pile)).toBe(2);
+  });
+});
+
+describe('sequenceMoveCapacity', () => {
+  it('is 1 with no spare space', () => {
+    expect(sequenceMoveCapacity({ freeCells: 0, emptyColumns: 0 })).toBe(1);
+  });
+
+  it('grows linearly with free cells and doubles per empty column', () => {
+    expect(sequenceMoveCapacity({ freeCells: 4, emptyColumns: 0 })).toBe(5);
+    expect(sequenceMoveCapacity({ freeCells: 0, emptyColumns: 2 })).toBe(4);
+    expect(sequenceMoveCapacity({ freeCells: 4, emptyColumns: 2 })).toBe(20);
+  });
+});
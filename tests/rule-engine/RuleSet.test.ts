@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  valid,
+  invalid,
+  rejectionMessage,
+  assertValid,
+  isLegal,
+  applyChecked,
+  hasLegalMoves,
+} from '../../src/rule-engine/RuleSet';
+import type { RuleSet } from '../../src/rule-engine/RuleSet';
+import * as RuleEngine from '../../src/rule-engine/index';
+
+/**
+ * Toy rule set: a counter that may be incremented by 1 or 2,
+ * but never past a limit.
+ */
+interface CounterState {
+  value: number;
+  limit: number;
+}
+
+const CounterRules: RuleSet<CounterState, number, number> = {
+  name: 'Counter',
+  validate(state, step) {
+    if (step !== 1 && step !== 2) {
+      return invalid('BAD_STEP', `Step ${step} is not 1 or 2`);
+    }
+    if (state.value + step > state.limit) {
+      return invalid('OVER_LIMIT', `Cannot exceed ${state.limit}`, {
+        have: state.value + step,
+        max: state.limit,
+      });
+    }
+    return valid();
+  },
+  apply(state, step) {
+    const previous = state.value;
+    state.value += step;
+    return previous;
+  },
+  undo(state, _step, previous) {
+    state.value = previous;
+  },
+  enumerateMoves(state) {
+    return [1, 2].filter((step) => state.value + step <= state.limit);
+  },
+};
+
+describe('ValidationResult helpers', () => {
+  it('valid() returns a valid result', () => {
+    expect(valid()).toEqual({ valid: true });
+  });
+
+  it('invalid() carries code and reason', () => {
+    expect(invalid('NOPE', 'not allowed')).toEqual({
+      valid: false,
+      code: 'NOPE',
+      reason: 'not allowed',
+    });
+  });
+
+  it('invalid() carries params when given', () => {
+    expect(invalid('TOO_MANY', 'Too many', { have: 11, max: 10 })).toEqual({
+      valid: false,
+      code: 'TOO_MANY',
+      reason: 'Too many',
+      params: { have: 11, max: 10 },
+    });
+  });
+
+  it('assertValid() throws with code and reason', () => {
+    expect(() => assertValid(valid(), 'toy move')).not.toThrow();
+    expect(() => assertValid(invalid('NOPE', 'not allowed'), 'toy move')).toThrow(
+      'Illegal toy move [NOPE]: not allowed',
+    );
+  });
+});
+
+describe('rejectionMessage', () => {
+  const rejection = CounterRules.validate({ value: 4, limit: 5 }, 2);
+  if (rejection.valid) throw new Error('expected a rejection');
+
+  it('falls back to the reason without a template', () => {
+    expect(rejectionMessage(rejection)).toBe('Cannot exceed 5');
+    expect(rejectionMessage(rejection, { BAD_STEP: 'Wrong step' })).toBe(
+      'Cannot exceed 5',
+    );
+  });
+
+  it('fills a template from the params', () => {
+    expect(
+      rejectionMessage(rejection, { OVER_LIMIT: 'Höchstens {max} (nicht {have})' }),
+    ).toBe('Höchstens 5 (nicht 6)');
+  });
+
+  it('leaves unknown placeholders as written', () => {
+    expect(rejectionMessage(rejection, { OVER_LIMIT: 'Max {max}, {missing}' })).toBe(
+      'Max 5, {missing}',
+    );
+  });
+});
+
+describe('RuleSet helpers', () => {
+  it('isLegal reflects validate()', () => {
+    const state = { value: 0, limit: 1 };
+    expect(isLegal(CounterRules, state, 1)).toBe(true);
+    expect(isLegal(CounterRules, state, 2)).toBe(false);
+  });
+
+  it('applyChecked applies a legal move', () => {
+    const state = { value: 0, limit: 5 };
+    const applied = applyChecked(CounterRules, state, 2);
+    expect(state.value).toBe(2);
+    expect(applied).toBe(0);
+  });
+
+  it('applyChecked throws with code and reason on an illegal move', () => {
+    const state = { value: 4, limit: 5 };
+    expect(() => applyChecked(CounterRules, state, 2)).toThrow(
+      'Illegal Counter move [OVER_LIMIT]: Cannot exceed 5',
+    );
+    expect(state.value).toBe(4);
+  });
+
+  it('undo reverses apply using the applied value', () => {
+    const state = { value: 1, limit: 5 };
+    const applied = applyChecked(CounterRules, state, 2);
+    CounterRules.undo(state, 2, applied);
+    expect(state.value).toBe(1);
+  });
+
+  it('hasLegalMoves reflects enumerateMoves()', () => {
+    expect(hasLegalMoves(CounterRules, { value: 0, limit: 1 })).toBe(true);
+    expect(hasLegalMoves(CounterRules, { value: 1, limit: 1 })).toBe(false);
+  });
+});
+
+describe('rule-engine barrel', () => {
+  it('exports the version and rule-set helpers', () => {
+    expect(RuleEngine.RULE_ENGINE_VERSION).toBe('0.1.0');
+    expect(typeof RuleEngine.applyChecked).toBe('function');
+    expect(typeof RuleEngine.isLegal).toBe('function');
+    expect(typeof RuleEngine.hasLegalMoves).toBe('function');
+    expect(typeof RuleEngine.valid).toBe('function');
+    expect(typeof RuleEngine.invalid).toBe('function');
+    expect(RuleEngine.rejectionMessage).toBe(rejectionMessage);
+    expect(RuleEngine.assertValid).toBe(assertValid);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  STANDARD_PRESET,
+  defineVariants,
+  defaultVariant,
+  resolveVariant,
+  presetVariant,
+  listVariantPresets,
+  describeVariant,
+  isStandardVariant,
+} from '../../src/rule-engine/Variants';
+import * as RuleEngine from '../../src/rule-engine/index';
+
+/** Toy house rules covering every option kind. */
+interface ToyVariant {
+  target: number;
+  wild: boolean;
+  deal: 'one-by-one' | 'in-threes';
+}
+
+const TOY_VARIANTS = defineVariants<ToyVariant>({
+  game: 'Toy',
+  options: {
+    target: { kind: 'number', label: 'Target', default: 100, min: 50, max: 500 },
+    wild: { kind: 'toggle', label: 'Wild cards', default: false },
+    deal: {
+      kind: 'choice',
+      label: 'Deal',
+      default: 'one-by-one',
+      choices: ['one-by-one', 'in-threes'],
+    },
+  },
+  presets: {
+    quick: { label: 'Quick Game', options: { target: 50 } },
+    wild: { label: 'Wild', options: { wild: true, deal: 'in-threes' } },
+  },
+});
+
+describe('defineVariants', () => {
+  it('rejects a default its option does not allow', () => {
+    expect(() =>
+      defineVariants<{ n: number }>({
+        game: 'Bad',
+        options: { n: { kind: 'number', label: 'N', default: 9, min: 0, max: 5 } },
+      }),
+    ).toThrow(/Bad variant default: n must be a whole number from 0 to 5/);
+  });
+
+  it('rejects a preset with a value its option does not allow', () => {
+    expect(() =>
+      defineVariants<{ n: number }>({
+        game: 'Bad',
+        options: { n: { kind: 'number', label: 'N', default: 1, min: 0, max: 5 } },
+        presets: { big: { label: 'Big', options: { n: 10 } } },
+      }),
+    ).toThrow(/Bad preset "big"/);
+  });
+
+  it('reserves the standard preset name', () => {
+    expect(() =>
+      defineVariants<{ on: boolean }>({
+        game: 'Bad',
+        options: { on: { kind: 'toggle', label: 'On', default: false } },
+        presets: { [STANDARD_PRESET]: { label: 'Mine', options: {} } },
+      }),
+    ).toThrow(/reserved/);
+  });
+});
+
+describe('resolveVariant', () => {
+  it('fills every option with its default', () => {
+    expect(defaultVariant(TOY_VARIANTS)).toEqual({
+      target: 100,
+      wild: false,
+      deal: 'one-by-one',
+    });
+    expect(resolveVariant(TOY_VARIANTS)).toEqual(defaultVariant(TOY_VARIANTS));
+  });
+
+  it('applies overrides and ignores undefined ones', () => {
+    expect(resolveVariant(TOY_VARIANTS, { wild: true, target: undefined })).toEqual({
+      target: 100,
+      wild: true,
+      deal: 'one-by-one',
+    });
+  });
+
+  it('rejects values outside an option', () => {
+    expect(() => resolveVariant(TOY_VARIANTS, { target: 20 })).toThrow(
+      'Invalid Toy variant: target must be a whole number from 50 to 500, got 20',
+    );
+    expect(() => resolveVariant(TOY_VARIANTS, { target: 75.5 })).toThrow(/target/);
+    expect(() =>
+      resolveVariant(TOY_VARIANTS, { deal: 'sideways' as ToyVariant['deal'] }),
+    ).toThrow(/deal must be one of one-by-one, in-threes/);
+  });
+
+  it('rejects unknown options', () => {
+    expect(() =>
+      resolveVariant(TOY_VARIANTS, { jokers: true } as Partial<ToyVariant>),
+    ).toThrow(/unknown option "jokers"/);
+  });
+});
+
+describe('presets', () => {
+  it('resolves a preset by name', () => {
+    expect(presetVariant(TOY_VARIANTS, 'wild')).toEqual({
+      target: 100,
+      wild: true,
+      deal: 'in-threes',
+    });
+  });
+
+  it('treats the standard preset and no name as the defaults', () => {
+    expect(presetVariant(TOY_VARIANTS)).toEqual(defaultVariant(TOY_VARIANTS));
+    expect(presetVariant(TOY_VARIANTS, STANDARD_PRESET)).toEqual(
+      defaultVariant(TOY_VARIANTS),
+    );
+  });
+
+  it('throws for an unknown preset', () => {
+    expect(() => presetVariant(TOY_VARIANTS, 'toString')).toThrow(
+      'Toy has no "toString" variant',
+    );
+  });
+
+  it('lists the standard rules first', () => {
+    expect(listVariantPresets(TOY_VARIANTS)).toEqual([
+      { name: 'standard', label: 'Standard' },
+      { name: 'quick', label: 'Quick Game' },
+      { name: 'wild', label: 'Wild' },
+    ]);
+  });
+});
+
+describe('describeVariant', () => {
+  it('lists the options that differ from the defaults', () => {
+    expect(describeVariant(TOY_VARIANTS, presetVariant(TOY_VARIANTS, 'wild'))).toEqual([
+      'Wild cards: on',
+      'Deal: in-threes',
+    ]);
+  });
+
+  it('recognises the standard rules', () => {
+    expect(isStandardVariant(TOY_VARIANTS, defaultVariant(TOY_VARIANTS))).toBe(true);
+    expect(isStandardVariant(TOY_VARIANTS, presetVariant(TOY_VARIANTS, 'quick'))).toBe(
+      false,
+    );
+  });
+
+  it('is exported from the rule-engine barrel', () => {
+    expect(RuleEngine.defineVariants).toBe(defineVariants);
+    expect(RuleEngine.presetVariant).toBe(presetVariant);
+  });
+});
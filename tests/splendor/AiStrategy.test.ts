@@ -15,6 +15,7 @@ import {
 import {
   totalTokens,
 } from '../../example-games/splendor/SplendorCards';
+import { observeSplendor } from '../../example-games/splendor/SplendorObservation';
 
 // ---------------------------------------------------------------------------
 // Deterministic RNG
@@ -45,15 +46,15 @@ describe('AiStrategy', () => {
       const rng = makeRng(99);
       for (let seed = 0; seed < 10; seed++) {
         const session = createTestSession(seed);
-        const action = RandomStrategy.chooseTurn(session, 0, rng);
-        expect(validateAction(session, action)).toBeNull();
+        const action = RandomStrategy.chooseTurn(observeSplendor(session, 0), rng);
+        expect(validateAction(session, action).valid).toBe(true);
       }
     });
 
     it('throws when no legal actions available', () => {
       const session = createTestSession();
       session.phase = 'game-over';
-      expect(() => RandomStrategy.chooseTurn(session, 0, makeRng(1))).toThrow();
+      expect(() => RandomStrategy.chooseTurn(observeSplendor(session, 0), makeRng(1))).toThrow();
     });
 
     it('chooseDiscard returns correct number of tokens', () => {
@@ -61,7 +62,7 @@ describe('AiStrategy', () => {
       session.players[0].tokens = {
         ruby: 3, emerald: 3, sapphire: 3, diamond: 3,
       }; // 12 tokens
-      const discard = RandomStrategy.chooseDiscard(session, 0, 2, makeRng(42));
+      const discard = RandomStrategy.chooseDiscard(observeSplendor(session, 0), 2, makeRng(42));
       expect(totalTokens(discard.tokens)).toBe(2);
     });
   });
@@ -74,8 +75,8 @@ describe('AiStrategy', () => {
       const rng = makeRng(99);
       for (let seed = 0; seed < 10; seed++) {
         const session = createTestSession(seed);
-        const action = GreedyStrategy.chooseTurn(session, 0, rng);
-        expect(validateAction(session, action)).toBeNull();
+        const action = GreedyStrategy.chooseTurn(observeSplendor(session, 0), rng);
+        expect(validateAction(session, action).valid).toBe(true);
       }
     });
 
@@ -86,7 +87,7 @@ describe('AiStrategy', () => {
       player.reservedCards.push({
         id: 800, tier: 1, cost: {}, bonus: 'emerald', points: 1,
       });
-      const action = GreedyStrategy.chooseTurn(session, 0, makeRng(42));
+      const action = GreedyStrategy.chooseTurn(observeSplendor(session, 0), makeRng(42));
       expect(action.type).toBe('purchase');
     });
 
@@ -98,7 +99,7 @@ describe('AiStrategy', () => {
         { id: 800, tier: 1, cost: {}, bonus: 'emerald', points: 1 },
         { id: 801, tier: 2, cost: {}, bonus: 'ruby', points: 3 },
       );
-      const action = GreedyStrategy.chooseTurn(session, 0, makeRng(42));
+      const action = GreedyStrategy.chooseTurn(observeSplendor(session, 0), makeRng(42));
       expect(action.type).toBe('purchase');
       expect((action as any).cardId).toBe(801);
     });
@@ -106,7 +107,7 @@ describe('AiStrategy', () => {
     it('takes tokens when no purchases available', () => {
       const session = createTestSession();
       // Ensure no affordable cards
-      const action = GreedyStrategy.chooseTurn(session, 0, makeRng(42));
+      const action = GreedyStrategy.chooseTurn(observeSplendor(session, 0), makeRng(42));
       expect(
         action.type === 'take-different' || action.type === 'take-same' || action.type === 'reserve',
       ).toBe(true);
@@ -117,7 +118,7 @@ describe('AiStrategy', () => {
       session.players[0].tokens = {
         ruby: 4, emerald: 3, sapphire: 3, diamond: 2,
       }; // 12 tokens
-      const discard = GreedyStrategy.chooseDiscard(session, 0, 2, makeRng(42));
+      const discard = GreedyStrategy.chooseDiscard(observeSplendor(session, 0), 2, makeRng(42));
       expect(totalTokens(discard.tokens)).toBe(2);
     });
   });
@@ -140,7 +141,7 @@ describe('AiStrategy', () => {
       const ai = new SplendorAiPlayer(GreedyStrategy, makeRng(42));
       const session = createTestSession();
       const action = ai.chooseTurn(session, 0);
-      expect(validateAction(session, action)).toBeNull();
+      expect(validateAction(session, action).valid).toBe(true);
     });
 
     it('chooseDiscard returns valid discard', () => {
@@ -152,6 +153,24 @@ describe('AiStrategy', () => {
       const discard = ai.chooseDiscard(session, 0, 2);
       expect(totalTokens(discard.tokens)).toBe(2);
     });
+
+    it('decides without seeing the decks or the opponent\'s reserves', () => {
+      const play = (hide: (session: SplendorSession) => void) => {
+        const session = createTestSession(7);
+        session.players[1].reservedCards.push(session.market[3].deck.pop()!);
+        hide(session);
+        const ai = new SplendorAiPlayer(RandomStrategy, makeRng(3));
+        return [0, 1, 2].map(() => ai.chooseTurn(session, 0));
+      };
+
+      const original = play(() => {});
+      const shuffled = play((session) => {
+        for (const tier of [1, 2, 3] as const) session.market[tier].deck.reverse();
+        const reserved = session.players[1].reservedCards;
+        reserved[0] = session.market[3].deck.splice(0, 1, reserved[0])[0];
+      });
+      expect(shuffled).toEqual(original);
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -174,7 +193,7 @@ describe('AiStrategy', () => {
       const maxTurns = 500;
 
       while (!isGameOver(session) && turns < maxTurns) {
-        const playerIdx = session.currentPlayerIndex;
+        const playerIdx = session.turnOrder.currentPlayerIndex;
         const ai = ais[playerIdx];
 
         const action = ai.chooseTurn(session, playerIdx);
@@ -205,7 +224,7 @@ describe('AiStrategy', () => {
         ];
         let turns = 0;
         while (!isGameOver(session) && turns < 500) {
-          const idx = session.currentPlayerIndex;
+          const idx = session.turnOrder.currentPlayerIndex;
           const action = ais[idx].chooseTurn(session, idx);
           const result = executeTurn(session, action);
           if (result.tokensOverLimit > 0) {
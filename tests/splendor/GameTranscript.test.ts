@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  setupSplendorGame,
+  executeTurn,
+  discardTokens,
+  isGameOver,
+  getPrestige,
+  getWinnerIndex,
+  type SplendorSession,
+} from '../../example-games/splendor/SplendorGame';
+import { serializeSplendorSession } from '../../example-games/splendor/SplendorSave';
+import {
+  SplendorTranscriptRecorder,
+  SPLENDOR_TRANSCRIPT_TYPE,
+} from '../../example-games/splendor/GameTranscript';
+import { SplendorAiPlayer, GreedyStrategy } from '../../example-games/splendor/AiStrategy';
+import { TRANSCRIPT_VERSION } from '../../src/core-engine/Transcript';
+import { createRng } from '../../src/core-engine/Rng';
+
+/** Helper: play greedy turns to the end of the game, recording every action. */
+function playOut(session: SplendorSession, recorder: SplendorTranscriptRecorder): void {
+  const ai = new SplendorAiPlayer(GreedyStrategy, createRng(5));
+  for (let t = 0; t < 400 && !isGameOver(session); t++) {
+    const index = session.turnOrder.currentPlayerIndex;
+    const action = ai.chooseTurn(session, index);
+    const result = executeTurn(session, action);
+    recorder.recordTurn(index, action);
+    if (result.tokensOverLimit > 0) {
+      const discard = ai.chooseDiscard(session, index, result.tokensOverLimit);
+      discardTokens(session, discard);
+      recorder.recordDiscard(index, discard);
+    }
+  }
+}
+
+describe('SplendorTranscriptRecorder', () => {
+  it('starts a transcript with the game as dealt', () => {
+    const session = setupSplendorGame({ seed: 21, variant: { prestigeTarget: 12 } });
+    const transcript = new SplendorTranscriptRecorder(session, [
+      undefined,
+      GreedyStrategy.name,
+    ]).getTranscript();
+
+    expect(transcript).toMatchObject({
+      version: TRANSCRIPT_VERSION,
+      gameType: SPLENDOR_TRANSCRIPT_TYPE,
+      variant: session.variant,
+      seed: 21,
+      actions: [],
+      result: null,
+    });
+    expect(transcript.variant).not.toBe(session.variant);
+    expect(transcript.players[1]).toMatchObject({ strategy: GreedyStrategy.name });
+    expect(transcript.initialSnapshot).toEqual(serializeSplendorSession(session));
+  });
+
+  it('records turns and discards by the acting player', () => {
+    const session = setupSplendorGame({ seed: 21 });
+    const recorder = new SplendorTranscriptRecorder(session);
+    const action = new SplendorAiPlayer(GreedyStrategy, createRng(1)).chooseTurn(session, 0);
+    executeTurn(session, action);
+    recorder.recordTurn(0, action);
+    recorder.recordDiscard(1, { tokens: { ruby: 1 } });
+
+    expect(recorder.getTranscript().actions).toEqual([
+      { playerIndex: 0, action },
+      { playerIndex: 1, action: { type: 'discard', tokens: { ruby: 1 } } },
+    ]);
+  });
+
+  it('records the whole game and its result', () => {
+    const session = setupSplendorGame({ seed: 21 });
+    const recorder = new SplendorTranscriptRecorder(session);
+    playOut(session, recorder);
+    const transcript = recorder.finalize();
+
+    expect(isGameOver(session)).toBe(true);
+    expect(transcript.actions.length).toBeGreaterThan(0);
+    const winnerIndex = getWinnerIndex(session);
+    expect(transcript.result).toEqual({
+      scores: session.players.map(getPrestige),
+      winnerIndex,
+      winnerName: session.players[winnerIndex].name,
+    });
+    expect(transcript.endedAt).not.toBe('');
+  });
+});
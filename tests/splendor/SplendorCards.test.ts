@@ -20,7 +20,6 @@ import {
   createTokenSupply,
   selectNobles,
   createTierDecks,
-  shuffleArray,
   formatCost,
   cardLabel,
   nobleLabel,
@@ -28,6 +27,7 @@ import {
   gemDisplayName,
   type GemTokens,
 } from '../../example-games/splendor/SplendorCards';
+import { shuffle } from '../../src/card-system/Deck';
 
 // ---------------------------------------------------------------------------
 // Deterministic RNG for reproducible tests
@@ -356,22 +356,22 @@ describe('SplendorCards', () => {
   // -------------------------------------------------------------------------
   // Shuffle utility
   // -------------------------------------------------------------------------
-  describe('shuffleArray', () => {
+  describe('shuffle (card-system)', () => {
     it('returns the same array reference (in-place)', () => {
       const arr = [1, 2, 3, 4, 5];
-      const result = shuffleArray(arr, makeRng(42));
+      const result = shuffle(arr, makeRng(42));
       expect(result).toBe(arr);
     });
 
     it('preserves all elements', () => {
       const arr = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
-      shuffleArray(arr, makeRng(42));
+      shuffle(arr, makeRng(42));
       expect(arr.sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
     });
 
     it('deterministic with same seed', () => {
-      const a = shuffleArray([1, 2, 3, 4, 5], makeRng(42));
-      const b = shuffleArray([1, 2, 3, 4, 5], makeRng(42));
+      const a = shuffle([1, 2, 3, 4, 5], makeRng(42));
+      const b = shuffle([1, 2, 3, 4, 5], makeRng(42));
       expect(a).toEqual(b);
     });
   });
@@ -8,18 +8,24 @@ import {
   canAfford,
   nobleQualifies,
   getLegalActions,
+  getObservedLegalActions,
   isGameOver,
   getWinnerIndex,
   executeTurn,
   discardTokens,
   validateAction,
+  validateDiscard,
+  SplendorCardConservation,
+  SPLENDOR_PHASES,
   type SplendorSession,
   type SplendorPlayerState,
 } from '../../example-games/splendor/SplendorGame';
+import { observeSplendor } from '../../example-games/splendor/SplendorObservation';
 import {
   type DevelopmentCard,
   type NobleTile,
   type GemTokens,
+  type GemColor,
   tokenCount,
   totalTokens,
   GEM_COLORS,
@@ -27,6 +33,19 @@ import {
   MAX_RESERVED,
   MARKET_SIZE,
 } from '../../example-games/splendor/SplendorCards';
+import {
+  assertCardUniverse,
+  collectCards,
+  diffCards,
+} from '../../src/rule-engine/CardConservation';
+import { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import {
+  STANDARD_SPLENDOR_VARIANT,
+  SPLENDOR_VARIANTS,
+} from '../../example-games/splendor/SplendorVariants';
+import type { SplendorVariant } from '../../example-games/splendor/SplendorVariants';
+import type { SplendorEventMap } from '../../example-games/splendor/SplendorEvents';
+import { presetVariant } from '../../src/rule-engine/Variants';
 
 // ---------------------------------------------------------------------------
 // Deterministic RNG
@@ -62,6 +81,14 @@ describe('SplendorGame', () => {
       expect(session.players[1].isAI).toBe(true);
     });
 
+    it('reproduces the market and nobles from a seed', () => {
+      const a = setupSplendorGame({ seed: 1234 });
+      const b = setupSplendorGame({ seed: 1234 });
+      expect(a.seed).toBe(1234);
+      expect(b.market).toEqual(a.market);
+      expect(b.nobles).toEqual(a.nobles);
+    });
+
     it('initializes players with empty inventories', () => {
       const session = createTestSession();
       for (const p of session.players) {
@@ -103,8 +130,8 @@ describe('SplendorGame', () => {
     it('starts in playing phase with player 0', () => {
       const session = createTestSession();
       expect(session.phase).toBe('playing');
-      expect(session.currentPlayerIndex).toBe(0);
-      expect(session.triggerPlayerIndex).toBe(-1);
+      expect(session.turnOrder.currentPlayerIndex).toBe(0);
+      expect(session.turnOrder.triggeringPlayerIndex).toBeNull();
     });
 
     it('throws for invalid player count', () => {
@@ -265,34 +292,34 @@ describe('SplendorGame', () => {
       // Supply decreased
       expect(tokenCount(session.tokenSupply, 'ruby')).toBe(3);
       // Turn advanced
-      expect(session.currentPlayerIndex).toBe(1);
+      expect(session.turnOrder.currentPlayerIndex).toBe(1);
     });
 
     it('rejects taking 4 tokens', () => {
       const session = createTestSession();
-      const error = validateAction(session, {
+      const result = validateAction(session, {
         type: 'take-different',
         colors: ['ruby', 'emerald', 'sapphire', 'diamond'] as any,
       });
-      expect(error).toBeTruthy();
+      expect(result).toMatchObject({ valid: false, code: 'WRONG_TOKEN_COUNT' });
     });
 
     it('rejects duplicate colors', () => {
       const session = createTestSession();
-      const error = validateAction(session, {
+      const result = validateAction(session, {
         type: 'take-different',
         colors: ['ruby', 'ruby', 'emerald'],
       });
-      expect(error).toBeTruthy();
+      expect(result).toMatchObject({ valid: false, code: 'DUPLICATE_COLORS' });
     });
 
     it('rejects taking fewer than 3 when 3+ colors available', () => {
       const session = createTestSession();
-      const error = validateAction(session, {
+      const result = validateAction(session, {
         type: 'take-different',
         colors: ['ruby', 'emerald'],
       });
-      expect(error).toBeTruthy();
+      expect(result).toMatchObject({ valid: false, code: 'MUST_TAKE_THREE' });
     });
 
     it('allows fewer than 3 when supply is limited', () => {
@@ -301,11 +328,11 @@ describe('SplendorGame', () => {
       session.tokenSupply.ruby = 0;
       session.tokenSupply.diamond = 0;
       session.tokenSupply.onyx = 0;
-      const error = validateAction(session, {
+      const result = validateAction(session, {
         type: 'take-different',
         colors: ['emerald', 'sapphire'],
       });
-      expect(error).toBeNull();
+      expect(result.valid).toBe(true);
     });
 
     it('rejects taking from empty supply color', () => {
@@ -313,11 +340,11 @@ describe('SplendorGame', () => {
       session.tokenSupply.ruby = 0;
       session.tokenSupply.diamond = 0;
       session.tokenSupply.onyx = 0;
-      const error = validateAction(session, {
+      const result = validateAction(session, {
         type: 'take-different',
         colors: ['emerald', 'ruby'],
       });
-      expect(error).toBeTruthy();
+      expect(result).toMatchObject({ valid: false, code: 'SUPPLY_EMPTY' });
     });
   });
 
@@ -335,8 +362,13 @@ describe('SplendorGame', () => {
     it('rejects when fewer than 4 in supply', () => {
       const session = createTestSession();
       session.tokenSupply.ruby = 3;
-      const error = validateAction(session, { type: 'take-same', color: 'ruby' });
-      expect(error).toBeTruthy();
+      const result = validateAction(session, { type: 'take-same', color: 'ruby' });
+      expect(result).toEqual({
+        valid: false,
+        code: 'SUPPLY_TOO_LOW',
+        reason: 'Need at least 4 ruby tokens in supply to take 2 (only 3 available)',
+        params: { color: 'ruby', have: 3, need: 4 },
+      });
     });
   });
 
@@ -375,11 +407,11 @@ describe('SplendorGame', () => {
           { id: 900 + i, tier: 1, cost: {}, bonus: 'ruby', points: 0 },
         );
       }
-      const error = validateAction(session, {
+      const result = validateAction(session, {
         type: 'reserve',
         cardId: session.market[1].visible[0]!.id,
       });
-      expect(error).toBeTruthy();
+      expect(result).toMatchObject({ valid: false, code: 'RESERVE_LIMIT_REACHED' });
     });
 
     it('does not gain gold when supply is empty', () => {
@@ -392,8 +424,8 @@ describe('SplendorGame', () => {
 
     it('rejects reserving non-existent card', () => {
       const session = createTestSession();
-      const error = validateAction(session, { type: 'reserve', cardId: 9999 });
-      expect(error).toBeTruthy();
+      const result = validateAction(session, { type: 'reserve', cardId: 9999 });
+      expect(result).toMatchObject({ valid: false, code: 'CARD_NOT_FOUND' });
     });
   });
 
@@ -474,16 +506,16 @@ describe('SplendorGame', () => {
 
     it('rejects purchase of card not in market or reserved', () => {
       const session = createTestSession();
-      const error = validateAction(session, { type: 'purchase', cardId: 9999 });
-      expect(error).toBeTruthy();
+      const result = validateAction(session, { type: 'purchase', cardId: 9999 });
+      expect(result).toMatchObject({ valid: false, code: 'CARD_NOT_FOUND' });
     });
 
     it('rejects purchase when cannot afford', () => {
       const session = createTestSession();
       // Find an expensive card
       const card = session.market[3].visible[0]!;
-      const error = validateAction(session, { type: 'purchase', cardId: card.id });
-      expect(error).toBeTruthy();
+      const result = validateAction(session, { type: 'purchase', cardId: card.id });
+      expect(result).toMatchObject({ valid: false, code: 'CANNOT_AFFORD' });
     });
   });
 
@@ -503,7 +535,7 @@ describe('SplendorGame', () => {
       // Now has 12 tokens, 2 over limit
       expect(result.tokensOverLimit).toBe(2);
       // Turn should NOT have advanced yet
-      expect(session.currentPlayerIndex).toBe(0);
+      expect(session.turnOrder.currentPlayerIndex).toBe(0);
     });
 
     it('discardTokens resolves over-limit and advances turn', () => {
@@ -520,7 +552,7 @@ describe('SplendorGame', () => {
         tokens: { ruby: 2 },
       });
       expect(totalTokens(session.players[0].tokens)).toBeLessThanOrEqual(MAX_TOKENS);
-      expect(session.currentPlayerIndex).toBe(1);
+      expect(session.turnOrder.currentPlayerIndex).toBe(1);
     });
 
     it('discardTokens rejects wrong amount', () => {
@@ -532,7 +564,23 @@ describe('SplendorGame', () => {
         type: 'take-different',
         colors: ['ruby', 'emerald', 'sapphire'],
       });
-      expect(() => discardTokens(session, { tokens: { ruby: 1 } })).toThrow();
+      expect(validateDiscard(session, { tokens: { ruby: 1 } })).toMatchObject({
+        valid: false,
+        code: 'TOKEN_LIMIT_EXCEEDED',
+        params: { have: 11, max: MAX_TOKENS },
+      });
+      expect(validateDiscard(session, { tokens: { ruby: 3 } })).toMatchObject({
+        valid: false,
+        code: 'DISCARD_TOO_MANY',
+      });
+      expect(validateDiscard(session, { tokens: { gold: 2 } })).toMatchObject({
+        valid: false,
+        code: 'NOT_ENOUGH_TOKENS',
+        params: { color: 'gold', count: 2, have: 0 },
+      });
+      expect(() => discardTokens(session, { tokens: { ruby: 1 } })).toThrow(
+        '[TOKEN_LIMIT_EXCEEDED]',
+      );
     });
   });
 
@@ -600,7 +648,7 @@ describe('SplendorGame', () => {
       player.reservedCards.push(card);
       executeTurn(session, { type: 'purchase', cardId: 500 });
       expect(session.phase).toBe('final-round');
-      expect(session.triggerPlayerIndex).toBe(0);
+      expect(session.turnOrder.triggeringPlayerIndex).toBe(0);
     });
 
     it('game ends after all players complete the round', () => {
@@ -628,6 +676,100 @@ describe('SplendorGame', () => {
       expect(session.phase).toBe('game-over');
     });
 
+    it('emits Splendor events for takes, reservations, purchases and nobles', () => {
+      const events = new GameEventEmitter<SplendorEventMap>();
+      const log: string[] = [];
+      events.on('tokens-taken', ({ playerIndex, tokens }) =>
+        log.push(`${playerIndex} took ${JSON.stringify(tokens)}`),
+      );
+      events.on('card-reserved', ({ playerIndex, fromDeck, goldTaken }) =>
+        log.push(`${playerIndex} reserved (deck ${fromDeck}, gold ${goldTaken})`),
+      );
+      events.on('card-purchased', ({ playerIndex, cardId, fromReserve }) =>
+        log.push(`${playerIndex} bought ${cardId} (reserve ${fromReserve})`),
+      );
+      events.on('noble-visited', ({ playerIndex, points }) =>
+        log.push(`noble visited ${playerIndex} for ${points}`),
+      );
+      const session = setupSplendorGame({ rng: makeRng(42), events });
+
+      executeTurn(session, { type: 'take-same', color: 'ruby' });
+      executeTurn(session, { type: 'reserve', cardId: null, tier: 2 });
+
+      // Player 0 qualifies for a noble with a free reserved card
+      const noble = session.nobles[0];
+      let nextId = 700;
+      for (const [color, count] of Object.entries(noble.requirements)) {
+        for (let i = 0; i < count; i++) {
+          session.players[0].purchasedCards.push(
+            { id: nextId++, tier: 1, cost: {}, bonus: color as GemColor, points: 0 },
+          );
+        }
+      }
+      session.players[0].reservedCards.push(
+        { id: 500, tier: 1, cost: {}, bonus: 'ruby', points: 0 },
+      );
+      executeTurn(session, { type: 'purchase', cardId: 500 });
+
+      expect(log).toEqual([
+        '0 took {"ruby":2}',
+        '1 reserved (deck true, gold true)',
+        '0 bought 500 (reserve true)',
+        `noble visited 0 for ${noble.points}`,
+      ]);
+    });
+
+    it('announces the final round and the last turn', () => {
+      const events = new GameEventEmitter();
+      const log: string[] = [];
+      events.on('final-round-started', ({ triggeringPlayerIndex }) =>
+        log.push(`final round by ${triggeringPlayerIndex}`),
+      );
+      events.on('last-turn', ({ playerIndex }) => log.push(`last turn for ${playerIndex}`));
+      const session = setupSplendorGame({ playerCount: 3, rng: makeRng(42), events });
+      const player = session.players[1];
+      for (let i = 0; i < 15; i++) {
+        player.purchasedCards.push(
+          { id: 600 + i, tier: 1, cost: {}, bonus: 'ruby', points: 1 },
+        );
+      }
+
+      // Player 0 takes a turn, then player 1 is over the threshold
+      const takeThree = {
+        type: 'take-different' as const,
+        colors: ['ruby', 'emerald', 'sapphire'] as GemColor[],
+      };
+      executeTurn(session, takeThree);
+      executeTurn(session, takeThree);
+
+      expect(log).toEqual(['final round by 1', 'last turn for 2']);
+      expect(session.turnOrder.finalTurnsOwed).toEqual([2]);
+      expect(executeTurn(session, takeThree).gameOver).toBe(true);
+    });
+
+    it('emits phase-changed into the final round and at game over', () => {
+      const events = new GameEventEmitter<SplendorEventMap>();
+      const changes: string[] = [];
+      events.on('phase-changed', ({ from, to }) => changes.push(`${from}->${to}`));
+      const session = setupSplendorGame({ rng: makeRng(42), events });
+      for (let i = 0; i < 15; i++) {
+        session.players[0].purchasedCards.push(
+          { id: 600 + i, tier: 1, cost: {}, bonus: 'ruby', points: 1 },
+        );
+      }
+
+      executeTurn(session, { type: 'take-same', color: 'ruby' });
+      expect(changes).toEqual(['playing->final-round']);
+      executeTurn(session, { type: 'take-same', color: 'emerald' });
+      expect(changes).toEqual(['playing->final-round', 'final-round->game-over']);
+    });
+
+    it('takes turns in both playing and final-round phases', () => {
+      expect(SPLENDOR_PHASES.turnPhases).toEqual(['playing', 'final-round']);
+      expect(SPLENDOR_PHASES.terminalPhases).toEqual(['game-over']);
+      expect(SPLENDOR_PHASES.transitions.playing).toEqual(['final-round']);
+    });
+
     it('isGameOver returns true when game is over', () => {
       const session = createTestSession();
       session.phase = 'game-over';
@@ -637,11 +779,11 @@ describe('SplendorGame', () => {
     it('rejects actions when game is over', () => {
       const session = createTestSession();
       session.phase = 'game-over';
-      const error = validateAction(session, {
+      const result = validateAction(session, {
         type: 'take-different',
         colors: ['ruby', 'emerald', 'sapphire'],
       });
-      expect(error).toBeTruthy();
+      expect(result).toMatchObject({ valid: false, code: 'GAME_OVER' });
     });
   });
 
@@ -706,6 +848,14 @@ describe('SplendorGame', () => {
       expect(getLegalActions(session)).toHaveLength(0);
     });
 
+    it('lists the same actions from the current player\'s view', () => {
+      const session = createTestSession();
+      session.players[0].reservedCards.push(session.market[2].deck.pop()!);
+      session.players[0].tokens = { ruby: 3, emerald: 3, sapphire: 3, diamond: 3, onyx: 3 };
+      const view = observeSplendor(session, 0);
+      expect(getObservedLegalActions(view)).toEqual(getLegalActions(session));
+    });
+
     it('does not include reserve when at max reserved', () => {
       const session = createTestSession();
       const player = session.players[0];
@@ -780,4 +930,87 @@ describe('SplendorGame', () => {
       }
     });
   });
+
+  // -------------------------------------------------------------------------
+  // Card conservation
+  // -------------------------------------------------------------------------
+  describe('SplendorCardConservation', () => {
+    it('accounts for every development card after setup', () => {
+      const session = createTestSession();
+      expect(collectCards(SplendorCardConservation, session)).toHaveLength(90);
+      expect(() => assertCardUniverse(SplendorCardConservation, session)).not.toThrow();
+    });
+
+    it('keeps every card through reserving from a deck', () => {
+      const session = createTestSession();
+      const before = collectCards(SplendorCardConservation, session);
+      executeTurn(session, { type: 'reserve', cardId: null, tier: 2 });
+      const after = collectCards(SplendorCardConservation, session);
+      expect(diffCards(before, after)).toEqual({ missing: [], extra: [] });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // House rules
+  // -------------------------------------------------------------------------
+  describe('house rules', () => {
+    function createVariantSession(variant: Partial<SplendorVariant>): SplendorSession {
+      return setupSplendorGame({ rng: makeRng(42), variant });
+    }
+
+    it('plays the published rules by default', () => {
+      expect(createTestSession().variant).toEqual(STANDARD_SPLENDOR_VARIANT);
+      expect(STANDARD_SPLENDOR_VARIANT).toEqual({
+        prestigeTarget: 15,
+        tokenLimit: MAX_TOKENS,
+        reserveLimit: MAX_RESERVED,
+      });
+    });
+
+    it('starts the final round at the variant prestige target', () => {
+      const session = createVariantSession(presetVariant(SPLENDOR_VARIANTS, 'short-game'));
+      const player = session.players[0];
+      for (let i = 0; i < 9; i++) {
+        player.purchasedCards.push(
+          { id: 600 + i, tier: 1, cost: {}, bonus: 'ruby', points: 1 },
+        );
+      }
+      player.reservedCards.push(
+        { id: 500, tier: 1, cost: {}, bonus: 'emerald', points: 1 },
+      );
+      executeTurn(session, { type: 'purchase', cardId: 500 });
+      expect(getPrestige(player)).toBe(10);
+      expect(session.phase).toBe('final-round');
+    });
+
+    it('applies the variant token limit', () => {
+      const session = createVariantSession({ tokenLimit: 8 });
+      session.players[0].tokens = { ruby: 2, emerald: 2, sapphire: 2 };
+      const result = executeTurn(session, {
+        type: 'take-different',
+        colors: ['diamond', 'onyx', 'ruby'],
+      });
+      expect(result.tokensOverLimit).toBe(1);
+      discardTokens(session, { tokens: { ruby: 1 } });
+      expect(totalTokens(session.players[0].tokens)).toBe(8);
+    });
+
+    it('applies the variant reserve limit', () => {
+      const session = createVariantSession({ reserveLimit: 1 });
+      executeTurn(session, { type: 'reserve', cardId: null, tier: 1 });
+      executeTurn(session, { type: 'reserve', cardId: null, tier: 1 });
+      expect(validateAction(session, { type: 'reserve', cardId: null, tier: 1 })).toMatchObject({
+        valid: false,
+        code: 'RESERVE_LIMIT_REACHED',
+        params: { have: 1, max: 1 },
+      });
+      expect(getLegalActions(session).some((a) => a.type === 'reserve')).toBe(false);
+    });
+
+    it('rejects invalid house rules', () => {
+      expect(() => createVariantSession({ prestigeTarget: 0 })).toThrow(
+        /Invalid Splendor variant/,
+      );
+    });
+  });
 });
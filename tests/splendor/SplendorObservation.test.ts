@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  observeSplendor,
+  splendorZones,
+} from '../../example-games/splendor/SplendorObservation';
+import { setupSplendorGame } from '../../example-games/splendor/SplendorGame';
+import { isHiddenCard } from '../../src/core-engine/Zones';
+
+function createReservedSession() {
+  const session = setupSplendorGame({ playerCount: 2, seed: 42 });
+  session.players[0].reservedCards.push(session.market[1].deck.pop()!);
+  session.players[1].reservedCards.push(session.market[2].deck.pop()!);
+  return session;
+}
+
+describe('splendorZones', () => {
+  it('should define the tier decks and each player\'s reserved cards', () => {
+    expect(Object.keys(splendorZones(2))).toEqual([
+      'deck-1',
+      'deck-2',
+      'deck-3',
+      'reserved-0',
+      'reserved-1',
+    ]);
+  });
+});
+
+describe('observeSplendor', () => {
+  it('should report deck sizes but no deck cards', () => {
+    const session = createReservedSession();
+    const view = observeSplendor(session, 0);
+    expect(view.deckSizes[1]).toBe(session.market[1].deck.length);
+    expect(view.deckSizes[3]).toBe(session.market[3].deck.length);
+    expect('deck' in view.market[1]).toBe(false);
+  });
+
+  it('should show reserved cards to their owner only', () => {
+    const session = createReservedSession();
+    const view = observeSplendor(session, 0);
+    expect(view.players[0].reservedCards).toEqual(session.players[0].reservedCards);
+    expect(view.players[1].reservedCards).toHaveLength(1);
+    expect(isHiddenCard(view.players[1].reservedCards[0])).toBe(true);
+  });
+
+  it('should keep public state visible', () => {
+    const session = createReservedSession();
+    const view = observeSplendor(session, 1);
+    expect(view.market[2]).toEqual(session.market[2].visible);
+    expect(view.nobles).toEqual(session.nobles);
+    expect(view.tokenSupply).toEqual(session.tokenSupply);
+    expect(view.currentPlayerIndex).toBe(session.turnOrder.currentPlayerIndex);
+    expect(view.variant).toEqual(session.variant);
+  });
+
+  it('should be a copy that does not alias the session', () => {
+    const session = createReservedSession();
+    const view = observeSplendor(session, 0);
+    session.market[1].visible[0] = null;
+    expect(view.market[1][0]).not.toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  setupSplendorGame,
+  executeTurn,
+  discardTokens,
+  isGameOver,
+  getPrestige,
+  type SplendorSession,
+} from '../../example-games/splendor/SplendorGame';
+import {
+  serializeSplendorSession,
+  deserializeSplendorSession,
+} from '../../example-games/splendor/SplendorSave';
+import { SplendorAiPlayer, GreedyStrategy } from '../../example-games/splendor/AiStrategy';
+import { createRng } from '../../src/core-engine/Rng';
+import { playUntilOver, viaJson, withoutConservationChecks } from '../helpers/saves';
+
+/** Helper: play greedy turns until the game ends or `turns` have been played. */
+function playOut(session: SplendorSession, turns = 400): void {
+  const ai = new SplendorAiPlayer(GreedyStrategy, createRng(5));
+  playUntilOver(
+    () => isGameOver(session),
+    () => {
+      const index = session.turnOrder.currentPlayerIndex;
+      const result = executeTurn(session, ai.chooseTurn(session, index));
+      if (result.tokensOverLimit > 0) {
+        discardTokens(session, ai.chooseDiscard(session, index, result.tokensOverLimit));
+      }
+    },
+    turns,
+  );
+}
+
+describe('SplendorSave', () => {
+  it('plays on from a save exactly as the original game would', () => {
+    const session = setupSplendorGame({ seed: 21 });
+    playOut(session, 12);
+
+    const resumed = deserializeSplendorSession(viaJson(serializeSplendorSession(session)));
+    expect(serializeSplendorSession(resumed)).toEqual(serializeSplendorSession(session));
+
+    playOut(session);
+    playOut(resumed);
+    expect(isGameOver(resumed)).toBe(true);
+    expect(resumed.players.map(getPrestige)).toEqual(session.players.map(getPrestige));
+  });
+
+  it('restores the market and players with the canonical cards', () => {
+    const session = setupSplendorGame({ seed: 8, variant: { prestigeTarget: 12 } });
+    playOut(session, 6);
+
+    const resumed = deserializeSplendorSession(viaJson(serializeSplendorSession(session)));
+
+    expect(resumed.market).toEqual(session.market);
+    expect(resumed.players).toEqual(session.players);
+    expect(resumed.nobles).toEqual(session.nobles);
+    expect(resumed.variant).toEqual(session.variant);
+  });
+
+  it('rejects a save with an unknown card', () => {
+    const saved = viaJson(serializeSplendorSession(setupSplendorGame({ seed: 2 })));
+    saved.market[1].deck[0] = 9999;
+
+    expect(() => deserializeSplendorSession(saved)).toThrow('Unknown development card id 9999');
+  });
+
+  it('rejects a corrupt save even in a build without conservation checks', () => {
+    const saved = viaJson(serializeSplendorSession(setupSplendorGame({ seed: 2 })));
+    saved.market[1].deck[0] = saved.market[1].deck[1];
+
+    withoutConservationChecks(() => {
+      expect(() => deserializeSplendorSession(saved)).toThrow(
+        'cards do not match the card universe',
+      );
+    });
+  });
+});
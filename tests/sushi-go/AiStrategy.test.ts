@@ -105,8 +105,6 @@ describe('SushiGoAiStrategy', () => {
         hand: [tempura(), sashimi(), nigiri('egg')],
         tableau: [],
         puddingCount: 0,
-        roundScores: [],
-        totalScore: 0,
       };
 
       const pick = ai.choosePick(player);
@@ -0,0 +1,101 @@
+/**
+ * Tests for the Sushi Go! transcript recorder.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  setupSushiGoGame,
+  revealPicks,
+  submitPick,
+  scoreRound,
+  isGameOver,
+  getTotalScores,
+  getWinnerIndex,
+} from '../../example-games/sushi-go/SushiGoGame';
+import type { SushiGoSession } from '../../example-games/sushi-go/SushiGoGame';
+import { ROUND_COUNT } from '../../example-games/sushi-go/SushiGoCards';
+import { serializeSushiGoSession } from '../../example-games/sushi-go/SushiGoSave';
+import {
+  SushiGoTranscriptRecorder,
+  SUSHI_GO_TRANSCRIPT_TYPE,
+} from '../../example-games/sushi-go/GameTranscript';
+import { SushiGoAiPlayer, GreedyStrategy } from '../../example-games/sushi-go/AiStrategy';
+import { TRANSCRIPT_VERSION } from '../../src/core-engine/Transcript';
+import { createRng } from '../../src/core-engine/Rng';
+
+/** Helper: play greedy turns to the end of the game, recording every reveal. */
+function playOut(session: SushiGoSession, recorder: SushiGoTranscriptRecorder): void {
+  const ai = new SushiGoAiPlayer(GreedyStrategy, createRng(99));
+  while (!isGameOver(session)) {
+    if (session.phase === 'round-scoring') {
+      scoreRound(session);
+    } else {
+      session.players.forEach((p, i) => submitPick(session, i, ai.choosePick(p)));
+      recorder.recordPicks(revealPicks(session));
+    }
+  }
+}
+
+describe('SushiGoTranscriptRecorder', () => {
+  it('starts a transcript with the game as dealt', () => {
+    const session = setupSushiGoGame({ seed: 11 });
+    const transcript = new SushiGoTranscriptRecorder(session, [
+      undefined,
+      GreedyStrategy.name,
+    ]).getTranscript();
+
+    expect(transcript).toMatchObject({
+      version: TRANSCRIPT_VERSION,
+      gameType: SUSHI_GO_TRANSCRIPT_TYPE,
+      variant: null,
+      seed: 11,
+      actions: [],
+      result: null,
+    });
+    expect(transcript.players).toEqual(
+      session.players.map((p, i) => ({
+        name: p.name,
+        isAI: p.isAI,
+        strategy: i === 1 ? GreedyStrategy.name : undefined,
+      })),
+    );
+    expect(transcript.initialSnapshot).toEqual(serializeSushiGoSession(session));
+  });
+
+  it('records one action per player for every revealed turn', () => {
+    const session = setupSushiGoGame({ seed: 11 });
+    const recorder = new SushiGoTranscriptRecorder(session);
+    const ai = new SushiGoAiPlayer(GreedyStrategy, createRng(1));
+    const picks = session.players.map((p) => ai.choosePick(p));
+    picks.forEach((pick, i) => submitPick(session, i, pick));
+    recorder.recordPicks(revealPicks(session));
+
+    expect(recorder.getTranscript().actions).toEqual(
+      picks.map((pick, i) => ({
+        playerIndex: i,
+        action: { round: 0, turn: 0, pick },
+      })),
+    );
+  });
+
+  it('records the whole game and its result', () => {
+    const session = setupSushiGoGame({ seed: 4 });
+    const recorder = new SushiGoTranscriptRecorder(session);
+    playOut(session, recorder);
+    const transcript = recorder.finalize();
+
+    const { actions } = transcript;
+    const playerCount = session.players.length;
+    expect(actions.length % playerCount).toBe(0);
+    expect(actions[0].action).toMatchObject({ round: 0, turn: 0 });
+    expect(actions[actions.length - 1].action.round).toBe(ROUND_COUNT - 1);
+
+    const winnerIndex = getWinnerIndex(session);
+    expect(transcript.result).toEqual({
+      scores: getTotalScores(session),
+      winnerIndex,
+      winnerName: session.players[winnerIndex].name,
+    });
+    expect(transcript.endedAt).not.toBe('');
+  });
+});
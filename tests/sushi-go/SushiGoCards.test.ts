@@ -5,12 +5,12 @@
 import { describe, it, expect } from 'vitest';
 import {
   createSushiGoDeck,
-  shuffleDeck,
   cardsPerPlayer,
   cardLabel,
   DECK_SIZE,
   ROUND_COUNT,
 } from '../../example-games/sushi-go/SushiGoCards';
+import { shuffle } from '../../src/card-system/Deck';
 
 describe('SushiGoCards', () => {
   describe('createSushiGoDeck', () => {
@@ -83,7 +83,7 @@ describe('SushiGoCards', () => {
     });
   });
 
-  describe('shuffleDeck', () => {
+  describe('shuffle (card-system)', () => {
     it('shuffles the deck in place', () => {
       const deck = createSushiGoDeck();
       const originalOrder = deck.map((c) => c.id);
@@ -95,7 +95,7 @@ describe('SushiGoCards', () => {
         return seed / 2147483647;
       };
 
-      shuffleDeck(deck, rng);
+      shuffle(deck, rng);
       const shuffledOrder = deck.map((c) => c.id);
 
       // Should be same length
@@ -108,7 +108,7 @@ describe('SushiGoCards', () => {
 
     it('returns the same array reference', () => {
       const deck = createSushiGoDeck();
-      const result = shuffleDeck(deck);
+      const result = shuffle(deck);
       expect(result).toBe(deck);
     });
   });
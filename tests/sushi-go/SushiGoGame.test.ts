@@ -6,12 +6,30 @@ import { describe, it, expect } from 'vitest';
 import {
   setupSushiGoGame,
   executeAllPicks,
+  submitPick,
+  revealPicks,
+  getPlayersStillPicking,
   scoreRound,
   isGameOver,
   getWinnerIndex,
   isRoundPickingDone,
   validatePick,
+  getCurrentRound,
+  getTotalScores,
+  SushiGoCardConservation,
+  SUSHI_GO_PHASES,
 } from '../../example-games/sushi-go/SushiGoGame';
+import { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import type {
+  CardsPickedPayload,
+  HandsPassedPayload,
+  SushiGoEventMap,
+} from '../../example-games/sushi-go/SushiGoEvents';
+import { changePhase } from '../../src/core-engine/Phases';
+import {
+  assertCardUniverse,
+  collectCards,
+} from '../../src/rule-engine/CardConservation';
 import type {
   SushiGoPlayerState,
 } from '../../example-games/sushi-go/SushiGoGame';
@@ -34,10 +52,17 @@ describe('SushiGoGame', () => {
       expect(session.players[0].hand).toHaveLength(10);
       expect(session.players[1].hand).toHaveLength(10);
       expect(session.phase).toBe('picking');
-      expect(session.currentRound).toBe(0);
+      expect(getCurrentRound(session)).toBe(0);
       expect(session.currentTurn).toBe(0);
     });
 
+    it('reproduces the deal from a seed', () => {
+      const a = setupSushiGoGame({ seed: 1234 });
+      const b = setupSushiGoGame({ seed: 1234 });
+      expect(a.seed).toBe(1234);
+      expect(b.players.map((p) => p.hand)).toEqual(a.players.map((p) => p.hand));
+    });
+
     it('sets player names and AI flags correctly', () => {
       const session = setupSushiGoGame({
         playerNames: ['Alice', 'Bob'],
@@ -57,9 +82,9 @@ describe('SushiGoGame', () => {
       for (const player of session.players) {
         expect(player.tableau).toHaveLength(0);
         expect(player.puddingCount).toBe(0);
-        expect(player.roundScores).toHaveLength(0);
-        expect(player.totalScore).toBe(0);
       }
+      expect(session.match.roundScores).toHaveLength(0);
+      expect(getTotalScores(session)).toEqual([0, 0]);
     });
   });
 
@@ -74,8 +99,6 @@ describe('SushiGoGame', () => {
         ] as any[],
         tableau: [],
         puddingCount: 0,
-        roundScores: [],
-        totalScore: 0,
       };
 
       expect(validatePick(player, { cardIndex: 0 })).toEqual({ valid: true });
@@ -89,12 +112,14 @@ describe('SushiGoGame', () => {
         hand: [{ id: 0, type: 'tempura' }] as any[],
         tableau: [],
         puddingCount: 0,
-        roundScores: [],
-        totalScore: 0,
       };
 
       const result = validatePick(player, { cardIndex: 5 });
-      expect(result.valid).toBe(false);
+      expect(result).toMatchObject({
+        valid: false,
+        code: 'CARD_INDEX_OUT_OF_BOUNDS',
+        params: { index: 5, handSize: 1 },
+      });
     });
 
     it('rejects chopsticks usage without chopsticks in tableau', () => {
@@ -107,15 +132,13 @@ describe('SushiGoGame', () => {
         ] as any[],
         tableau: [],
         puddingCount: 0,
-        roundScores: [],
-        totalScore: 0,
       };
 
       const result = validatePick(player, {
         cardIndex: 0,
         secondCardIndex: 1,
       });
-      expect(result.valid).toBe(false);
+      expect(result).toMatchObject({ valid: false, code: 'NO_CHOPSTICKS' });
     });
 
     it('accepts chopsticks usage with chopsticks in tableau', () => {
@@ -128,8 +151,6 @@ describe('SushiGoGame', () => {
         ] as any[],
         tableau: [{ id: 2, type: 'chopsticks' }] as any[],
         puddingCount: 0,
-        roundScores: [],
-        totalScore: 0,
       };
 
       const result = validatePick(player, {
@@ -149,15 +170,13 @@ describe('SushiGoGame', () => {
         ] as any[],
         tableau: [{ id: 2, type: 'chopsticks' }] as any[],
         puddingCount: 0,
-        roundScores: [],
-        totalScore: 0,
       };
 
       const result = validatePick(player, {
         cardIndex: 0,
         secondCardIndex: 0,
       });
-      expect(result.valid).toBe(false);
+      expect(result).toMatchObject({ valid: false, code: 'SAME_CARD_TWICE' });
     });
   });
 
@@ -236,6 +255,97 @@ describe('SushiGoGame', () => {
     });
   });
 
+  describe('submitPick / revealPicks', () => {
+    it('keeps picks hidden until every player has picked', () => {
+      const session = setupSushiGoGame({ rng: makeRng() });
+      const hand0Before = [...session.players[0].hand];
+
+      submitPick(session, 0, { cardIndex: 2 });
+      expect(getPlayersStillPicking(session)).toEqual([1]);
+      expect(session.players[0].hand).toEqual(hand0Before);
+      expect(session.players[0].tableau).toHaveLength(0);
+      expect(() => revealPicks(session)).toThrow('waiting on player(s) 1');
+    });
+
+    it('applies all picks together and opens the next turn', () => {
+      const session = setupSushiGoGame({ rng: makeRng() });
+      const hand0Before = [...session.players[0].hand];
+      const hand1Before = [...session.players[1].hand];
+
+      submitPick(session, 1, { cardIndex: 0 });
+      submitPick(session, 0, { cardIndex: 2 });
+      expect(revealPicks(session)).toEqual([{ cardIndex: 2 }, { cardIndex: 0 }]);
+
+      expect(session.players[0].tableau).toEqual([hand0Before[2]]);
+      expect(session.players[1].tableau).toEqual([hand1Before[0]]);
+      expect(session.currentTurn).toBe(1);
+      expect(getPlayersStillPicking(session)).toEqual([0, 1]);
+    });
+
+    it('rejects invalid picks on submission', () => {
+      const session = setupSushiGoGame({ rng: makeRng() });
+
+      expect(() => submitPick(session, 0, { cardIndex: 99 })).toThrow(
+        '[CARD_INDEX_OUT_OF_BOUNDS]: Card index 99 out of bounds',
+      );
+      expect(getPlayersStillPicking(session)).toEqual([0, 1]);
+    });
+
+    it('closes picking when the round moves to scoring', () => {
+      const session = setupSushiGoGame({ rng: makeRng() });
+      for (let turn = 0; turn < 10; turn++) {
+        executeAllPicks(session, [{ cardIndex: 0 }, { cardIndex: 0 }]);
+      }
+
+      expect(session.picks).toBeNull();
+      expect(getPlayersStillPicking(session)).toEqual([]);
+      expect(() => submitPick(session, 0, { cardIndex: 0 })).toThrow(
+        'Cannot pick in phase: round-scoring',
+      );
+    });
+
+    it('emits submission and reveal events on the session emitter', () => {
+      const events = new GameEventEmitter();
+      const log: string[] = [];
+      events.on('action-submitted', ({ playerIndex, waitingOn }) =>
+        log.push(`submitted ${playerIndex}, waiting on [${waitingOn}]`),
+      );
+      events.on('actions-revealed', ({ turnNumber }) =>
+        log.push(`revealed turn ${turnNumber}`),
+      );
+      const session = setupSushiGoGame({ rng: makeRng(), events });
+
+      submitPick(session, 0, { cardIndex: 0 });
+      submitPick(session, 1, { cardIndex: 0 });
+      revealPicks(session);
+
+      expect(log).toEqual([
+        'submitted 0, waiting on [1]',
+        'submitted 1, waiting on []',
+        'revealed turn 0',
+      ]);
+    });
+
+    it('emits the picked cards and the hand pass after the reveal', () => {
+      const events = new GameEventEmitter<SushiGoEventMap>();
+      const picked: CardsPickedPayload[] = [];
+      const passes: HandsPassedPayload[] = [];
+      events.on('cards-picked', (payload) => picked.push(payload));
+      events.on('hands-passed', (payload) => passes.push(payload));
+      const session = setupSushiGoGame({ rng: makeRng(), events });
+      const firstCards = session.players.map((p) => p.hand[0].type);
+      const handSize = session.players[0].hand.length;
+
+      executeAllPicks(session, [{ cardIndex: 0 }, { cardIndex: 0 }]);
+
+      expect(picked).toEqual([
+        { playerIndex: 0, cards: [firstCards[0]], usedChopsticks: false },
+        { playerIndex: 1, cards: [firstCards[1]], usedChopsticks: false },
+      ]);
+      expect(passes).toEqual([{ direction: 'left', handSize: handSize - 1 }]);
+    });
+  });
+
   describe('chopsticks usage', () => {
     it('picks two cards and returns chopsticks to hand', () => {
       const session = setupSushiGoGame({ rng: makeRng() });
@@ -282,12 +392,12 @@ describe('SushiGoGame', () => {
       expect(result.makiBonuses).toHaveLength(2);
 
       // Should have advanced to next round
-      expect(session.currentRound).toBe(1);
+      expect(getCurrentRound(session)).toBe(1);
       expect(session.phase).toBe('picking');
 
-      // Players should have recorded round scores
-      expect(session.players[0].roundScores).toHaveLength(1);
-      expect(session.players[1].roundScores).toHaveLength(1);
+      // The round's scores should be on the match scorecard
+      expect(session.match.roundScores).toEqual([result.roundScores]);
+      expect(getTotalScores(session)).toEqual(result.roundScores);
     });
 
     it('ends game after round 3 with pudding scoring', () => {
@@ -304,15 +414,19 @@ describe('SushiGoGame', () => {
           // Final round should include pudding scoring
           expect(result.puddingCounts).toBeDefined();
           expect(result.puddingBonuses).toBeDefined();
+          // ...which counts towards the last round on the scorecard
+          expect(session.match.roundScores[2]).toEqual(
+            result.roundScores.map((score, i) => score + result.puddingBonuses![i]),
+          );
         }
       }
 
       expect(session.phase).toBe('game-over');
       expect(isGameOver(session)).toBe(true);
+      expect(getCurrentRound(session)).toBe(2);
 
-      // Each player should have 3 round scores
-      expect(session.players[0].roundScores).toHaveLength(3);
-      expect(session.players[1].roundScores).toHaveLength(3);
+      // The match should have 3 rounds of scores
+      expect(session.match.roundScores).toHaveLength(3);
     });
 
     it('throws if phase is not round-scoring', () => {
@@ -327,7 +441,7 @@ describe('SushiGoGame', () => {
 
       for (let round = 0; round < 3; round++) {
         expect(session.phase).toBe('picking');
-        expect(session.currentRound).toBe(round);
+        expect(getCurrentRound(session)).toBe(round);
 
         // Play all turns in the round
         for (let turn = 0; turn < 10; turn++) {
@@ -349,18 +463,88 @@ describe('SushiGoGame', () => {
   describe('getWinnerIndex', () => {
     it('returns player with highest total score', () => {
       const session = setupSushiGoGame({ rng: makeRng() });
-      session.players[0].totalScore = 50;
-      session.players[1].totalScore = 30;
+      session.match.roundScores.push([50, 30]);
 
       expect(getWinnerIndex(session)).toBe(0);
     });
 
     it('returns first player on tie', () => {
       const session = setupSushiGoGame({ rng: makeRng() });
-      session.players[0].totalScore = 30;
-      session.players[1].totalScore = 30;
+      session.match.roundScores.push([20, 25], [10, 5]);
 
       expect(getWinnerIndex(session)).toBe(0);
     });
   });
+
+  describe('SushiGoCardConservation', () => {
+    it('keeps the undealt cards in the session deck', () => {
+      const session = setupSushiGoGame({ playerCount: 3, rng: makeRng() });
+      expect(session.deck).toHaveLength(108 - 3 * 9);
+      expect(collectCards(SushiGoCardConservation, session)).toHaveLength(108);
+      expect(() => assertCardUniverse(SushiGoCardConservation, session)).not.toThrow();
+    });
+
+    it('accounts for every card after picking', () => {
+      const session = setupSushiGoGame({ rng: makeRng() });
+      executeAllPicks(session, [{ cardIndex: 0 }, { cardIndex: 1 }]);
+      expect(() => assertCardUniverse(SushiGoCardConservation, session)).not.toThrow();
+    });
+
+    it('names a card that appears twice', () => {
+      const session = setupSushiGoGame({ rng: makeRng() });
+      session.players[0].tableau.push(session.players[1].hand[0]);
+      expect(() => assertCardUniverse(SushiGoCardConservation, session)).toThrow(
+        /unexpected .* #\d+ \(in tableau-0\+hand-1\)/,
+      );
+    });
+  });
+
+  describe('SUSHI_GO_PHASES', () => {
+    it('takes turns only while picking and ends at game-over', () => {
+      expect(SUSHI_GO_PHASES.turnPhases).toEqual(['picking']);
+      expect(SUSHI_GO_PHASES.terminalPhases).toEqual(['game-over']);
+    });
+
+    it('rejects scoring a round that has not been picked', () => {
+      const session = setupSushiGoGame({ rng: makeRng() });
+      expect(() => changePhase(SUSHI_GO_PHASES, session, 'game-over')).toThrow(
+        'Invalid phase transition: "picking" -> "game-over"',
+      );
+    });
+
+    it('reports round transitions as phase-changed events', () => {
+      const session = setupSushiGoGame({ rng: makeRng() });
+      const events = new GameEventEmitter();
+      const changes: string[] = [];
+      events.on('phase-changed', ({ from, to }) => changes.push(`${from}->${to}`));
+
+      changePhase(SUSHI_GO_PHASES, session, 'round-scoring', events);
+      changePhase(SUSHI_GO_PHASES, session, 'picking', events);
+      expect(changes).toEqual(['picking->round-scoring', 'round-scoring->picking']);
+    });
+
+    it('emits phase-changed as the game moves between rounds', () => {
+      const events = new GameEventEmitter<SushiGoEventMap>();
+      const changes: string[] = [];
+      events.on('phase-changed', ({ from, to }) => changes.push(`${from}->${to}`));
+      const session = setupSushiGoGame({ rng: makeRng(), events });
+
+      for (let round = 0; round < 3; round++) {
+        for (let turn = 0; turn < 10; turn++) {
+          executeAllPicks(session, [{ cardIndex: 0 }, { cardIndex: 0 }]);
+        }
+        scoreRound(session);
+      }
+
+      expect(changes).toEqual([
+        'setup->picking',
+        'picking->round-scoring',
+        'round-scoring->picking',
+        'picking->round-scoring',
+        'round-scoring->picking',
+        'picking->round-scoring',
+        'round-scoring->game-over',
+      ]);
+    });
+  });
 });
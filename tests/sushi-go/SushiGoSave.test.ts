@@ -0,0 +1,97 @@
+/**
+ * Tests for SushiGoSave -- saving and resuming Sushi Go! games.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  setupSushiGoGame,
+  submitPick,
+  executeAllPicks,
+  scoreRound,
+  isGameOver,
+  getPlayersStillPicking,
+  getCurrentRound,
+} from '../../example-games/sushi-go/SushiGoGame';
+import type { SushiGoSession } from '../../example-games/sushi-go/SushiGoGame';
+import {
+  serializeSushiGoSession,
+  deserializeSushiGoSession,
+} from '../../example-games/sushi-go/SushiGoSave';
+import { SushiGoAiPlayer, GreedyStrategy } from '../../example-games/sushi-go/AiStrategy';
+import { GameEventEmitter } from '../../src/core-engine/GameEventEmitter';
+import type { SushiGoEventMap } from '../../example-games/sushi-go/SushiGoEvents';
+import { createRng } from '../../src/core-engine/Rng';
+import { playUntilOver, viaJson, withoutConservationChecks } from '../helpers/saves';
+
+/** Helper: play greedy turns (scoring rounds as they end) until the game ends. */
+function playOut(session: SushiGoSession, turns = Infinity): void {
+  const ai = new SushiGoAiPlayer(GreedyStrategy, createRng(99));
+  playUntilOver(
+    () => isGameOver(session),
+    () => {
+      if (session.phase === 'round-scoring') {
+        scoreRound(session);
+      } else {
+        executeAllPicks(session, session.players.map((p) => ai.choosePick(p)));
+      }
+    },
+    turns,
+  );
+}
+
+describe('SushiGoSave', () => {
+  it('plays on from a save exactly as the original game would', () => {
+    const session = setupSushiGoGame({ seed: 11 });
+    playOut(session, 14); // into the second round
+
+    const resumed = deserializeSushiGoSession(viaJson(serializeSushiGoSession(session)));
+    expect(serializeSushiGoSession(resumed)).toEqual(serializeSushiGoSession(session));
+
+    playOut(session);
+    playOut(resumed);
+    expect(resumed.match).toEqual(session.match);
+    expect(getCurrentRound(resumed)).toBe(2);
+  });
+
+  it('restores picks already submitted this turn', () => {
+    const session = setupSushiGoGame({ seed: 3 });
+    submitPick(session, 1, { cardIndex: 2 });
+
+    const events = new GameEventEmitter<SushiGoEventMap>();
+    const submitted = vi.fn();
+    events.on('action-submitted', submitted);
+    const resumed = deserializeSushiGoSession(
+      viaJson(serializeSushiGoSession(session)),
+      events,
+    );
+
+    expect(getPlayersStillPicking(resumed)).toEqual([0]);
+    expect(submitted).toHaveBeenCalledTimes(1);
+    expect(resumed.events).toBe(events);
+  });
+
+  it('refuses to save a game shuffled with an unseeded RNG', () => {
+    const session = setupSushiGoGame({ rng: Math.random });
+    expect(() => serializeSushiGoSession(session)).toThrow(
+      'Cannot save an unseeded random function',
+    );
+  });
+
+  it('rejects a save with a duplicated card', () => {
+    const saved = viaJson(serializeSushiGoSession(setupSushiGoGame({ seed: 5 })));
+    saved.players[0].hand[0] = saved.players[1].hand[0];
+
+    expect(() => deserializeSushiGoSession(saved)).toThrow();
+  });
+
+  it('rejects a corrupt save even in a build without conservation checks', () => {
+    const saved = viaJson(serializeSushiGoSession(setupSushiGoGame({ seed: 5 })));
+    saved.players[0].hand.pop();
+
+    withoutConservationChecks(() => {
+      expect(() => deserializeSushiGoSession(saved)).toThrow(
+        'cards do not match the card universe',
+      );
+    });
+  });
+});
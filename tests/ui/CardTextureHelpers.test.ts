@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { createCard } from '../../src/card-system/Card';
+import { createCard, createJoker } from '../../src/card-system/Card';
 import type { Rank } from '../../src/card-system/Card';
 import {
   rankFileName,
@@ -59,6 +59,13 @@ describe('cardTextureKey', () => {
   it('should produce the correct key for 5 of clubs', () => {
     expect(cardTextureKey('5', 'clubs')).toBe('5_of_clubs');
   });
+
+  it('should use the joker colour for joker keys', () => {
+    expect(cardTextureKey('Joker', 'spades')).toBe('joker_black');
+    expect(cardTextureKey('Joker', 'clubs')).toBe('joker_black');
+    expect(cardTextureKey('Joker', 'hearts')).toBe('joker_red');
+    expect(cardTextureKey('Joker', 'diamonds')).toBe('joker_red');
+  });
 });
 
 // ── cardFileName ─────────────────────────────────────────────
@@ -75,6 +82,11 @@ describe('cardFileName', () => {
   it('should produce the correct SVG filename for 7 of clubs', () => {
     expect(cardFileName('7', 'clubs')).toBe('7_of_clubs.svg');
   });
+
+  it('should produce the joker SVG filenames', () => {
+    expect(cardFileName('Joker', 'spades')).toBe('joker_black.svg');
+    expect(cardFileName('Joker', 'hearts')).toBe('joker_red.svg');
+  });
 });
 
 // ── getCardTexture ───────────────────────────────────────────
@@ -101,6 +113,12 @@ describe('getCardTexture', () => {
     card.faceUp = false;
     expect(getCardTexture(card)).toBe('card_back');
   });
+
+  it('should return the joker texture for a face-up joker', () => {
+    expect(getCardTexture(createJoker('black', true))).toBe('joker_black');
+    expect(getCardTexture(createJoker('red', true))).toBe('joker_red');
+    expect(getCardTexture(createJoker('red'))).toBe('card_back');
+  });
 });
 
 // ── Shared constants ─────────────────────────────────────────
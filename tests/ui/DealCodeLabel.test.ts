@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the shared deal code HUD label (DealCodeLabel.ts).
+ *
+ * All Phaser scene interactions are mocked to run in Node.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createDealCodeLabel,
+  dealCodeText,
+  DEAL_CODE_LABEL_X,
+  DEAL_CODE_LABEL_Y,
+  DEAL_CODE_LABEL_FONT_SIZE,
+  DEAL_CODE_LABEL_COLOR,
+} from '../../src/ui/DealCodeLabel';
+import { GAME_W, GAME_H, FONT_FAMILY } from '../../src/ui/constants';
+
+// ── Mock helpers ────────────────────────────────────────────
+
+/** Create a mock Phaser.GameObjects.Text. */
+function mockText() {
+  return {
+    setOrigin: vi.fn().mockReturnThis(),
+  };
+}
+
+/** Create a minimal mock Phaser.Scene. */
+function mockScene() {
+  return {
+    add: {
+      text: vi.fn(() => mockText()),
+    },
+  } as unknown as Phaser.Scene;
+}
+
+// ── Tests ───────────────────────────────────────────────────
+
+describe('deal code label constants', () => {
+  it('anchors the label in the bottom-right corner', () => {
+    expect(DEAL_CODE_LABEL_X).toBe(GAME_W - 12);
+    expect(DEAL_CODE_LABEL_Y).toBe(GAME_H - 18);
+  });
+});
+
+describe('dealCodeText', () => {
+  it('formats the seed as a deal code', () => {
+    expect(dealCodeText(3735928559)).toBe('Deal: 1PS9WXB');
+  });
+});
+
+describe('createDealCodeLabel', () => {
+  it('creates right-aligned text with default styling', () => {
+    const scene = mockScene();
+    const label = createDealCodeLabel(scene, 35);
+
+    expect(scene.add.text).toHaveBeenCalledWith(
+      DEAL_CODE_LABEL_X,
+      DEAL_CODE_LABEL_Y,
+      'Deal: Z',
+      {
+        fontSize: DEAL_CODE_LABEL_FONT_SIZE,
+        color: DEAL_CODE_LABEL_COLOR,
+        fontFamily: FONT_FAMILY,
+      },
+    );
+    expect(label.setOrigin).toHaveBeenCalledWith(1, 0.5);
+  });
+
+  it('applies config overrides', () => {
+    const scene = mockScene();
+    createDealCodeLabel(scene, 0, { x: 100, y: 200, fontSize: '18px', color: '#fff' });
+
+    expect(scene.add.text).toHaveBeenCalledWith(100, 200, 'Deal: 0', {
+      fontSize: '18px',
+      color: '#fff',
+      fontFamily: FONT_FAMILY,
+    });
+  });
+});